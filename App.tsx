@@ -7,17 +7,21 @@ import { useGlobalState } from './contexts/GlobalStateContext.tsx';
 import { logEvent } from './services/telemetryService.ts';
 import type { ViewType, AppUser } from './types.ts';
 import { CommandPalette } from './components/CommandPalette.tsx';
-import { NotificationProvider } from './contexts/NotificationContext.tsx';
+import { NotificationProvider, useNotification } from './contexts/NotificationContext.tsx';
 import { useTheme } from './hooks/useTheme.ts';
 import { VaultProvider } from './components/vault/VaultProvider.tsx';
 import { initGoogleAuth } from './services/googleAuthService.ts';
 import { LoginView } from './components/LoginView.tsx';
 import { DesktopView } from './components/desktop/DesktopView.tsx';
 import { isApiKeyConfigured, initializeAiClient } from './services/aiService.ts';
+import { geminiProvider, isAiProviderInUse, subscribeToAiBudgetAlerts } from './services/ai/index.ts';
 import { ApiKeyPromptModal } from './components/ApiKeyPromptModal.tsx';
 import { OctokitProvider } from './contexts/OctokitContext.tsx';
 import { useVaultModal } from './contexts/VaultModalContext.tsx';
 import { isVaultInitialized } from './services/vaultService.ts';
+import { getFeatureLocation, subscribeToFeatureLocation } from './services/routerService.ts';
+import type { FeatureLocation } from './services/routerService.ts';
+import { FEATURES_MAP } from './components/features/index.ts';
 
 
 export const LoadingIndicator: React.FC = () => (
@@ -69,6 +73,7 @@ const AppContent: React.FC = () => {
     const { state, dispatch } = useGlobalState();
     const { activeView } = state;
     const [isCommandPaletteOpen, setCommandPaletteOpen] = useState(false);
+    const { addNotification } = useNotification();
   
     useEffect(() => {
       const handleKeyDown = (e: KeyboardEvent) => {
@@ -86,6 +91,28 @@ const AppContent: React.FC = () => {
       dispatch({ type: 'SET_VIEW', payload: { view, props } });
       setCommandPaletteOpen(false);
     }, [dispatch]);
+
+    // Budgets are checked inside the AI service, so a warning would otherwise only show up in the usage dashboard.
+    useEffect(() => subscribeToAiBudgetAlerts(({ budget, spentUSD, level }) => {
+        const scope = budget.featureId ? FEATURES_MAP.get(budget.featureId)?.name ?? budget.featureId : 'all features';
+        const period = budget.period === 'day' ? 'daily' : 'monthly';
+        addNotification(level === 'hard'
+            ? `The ${period} AI budget for ${scope} is used up ($${spentUSD.toFixed(2)}). AI calls are blocked until it is raised.`
+            : `The ${period} AI budget for ${scope} has passed its warning limit ($${spentUSD.toFixed(2)} spent).`,
+            level === 'hard' ? 'error' : 'info');
+    }), [addNotification]);
+
+    // Deep links: open the feature named in the URL on load, and again whenever back/forward lands on one.
+    // The desktop keeps the URL pointed at the focused window.
+    useEffect(() => {
+        const openLocation = (location: FeatureLocation | null) => {
+            if (!location || !FEATURES_MAP.has(location.featureId)) return;
+            logEvent('deep_link_opened', { view: location.featureId });
+            dispatch({ type: 'SET_VIEW', payload: { view: location.featureId as ViewType, props: location.props } });
+        };
+        openLocation(getFeatureLocation());
+        return subscribeToFeatureLocation(openLocation);
+    }, [dispatch]);
   
     return (
         <OctokitProvider>
@@ -95,7 +122,7 @@ const AppContent: React.FC = () => {
             }}>
                 <ErrorBoundary>
                     <Suspense fallback={<LoadingIndicator />}>
-                        <DesktopView openFeatureId={activeView} onNavigate={handleViewChange} />
+                        <DesktopView openFeatureId={activeView} openFeatureProps={state.viewProps} onNavigate={handleViewChange} />
                     </Suspense>
                 </ErrorBoundary>
                 <CommandPalette isOpen={isCommandPaletteOpen} onClose={() => setCommandPaletteOpen(false)} onSelect={handleViewChange} />
@@ -109,8 +136,19 @@ const AppShell: React.FC = () => {
     const { state, dispatch } = useGlobalState();
     const { user, vaultState, isApiKeyMissing } = state;
     const { requestCreation } = useVaultModal();
+    // Once the vault has been unlocked in this session, an auto-lock should not tear down the open desktop;
+    // features re-prompt through requestUnlock when they next need a credential.
+    const [hasUnlockedOnce, setHasUnlockedOnce] = useState(false);
     useTheme();
 
+    useEffect(() => {
+        if (vaultState.isUnlocked) setHasUnlockedOnce(true);
+    }, [vaultState.isUnlocked]);
+
+    useEffect(() => {
+        if (!user) setHasUnlockedOnce(false);
+    }, [user]);
+
     useEffect(() => {
       try {
           const consentStatus = localStorage.getItem('devcore_ls_consent');
@@ -144,8 +182,9 @@ const AppShell: React.FC = () => {
                  dispatch({ type: 'SET_VAULT_STATE', payload: { isInitialized: true } });
             }
 
-            // After vault is confirmed to exist/be created, check for API key
-            const keyConfigured = await isApiKeyConfigured();
+            // After vault is confirmed to exist/be created, check for API key. It is only needed while Gemini
+            // serves at least one feature; local and fixture providers work without it.
+            const keyConfigured = !isAiProviderInUse(geminiProvider.id) || await isApiKeyConfigured();
             if (!keyConfigured) {
                 dispatch({ type: 'SET_API_KEY_MISSING', payload: true });
             } else {
@@ -207,7 +246,7 @@ const AppShell: React.FC = () => {
         if (!user) {
             return <LoginView />;
         }
-        if (!vaultState.isInitialized || !vaultState.isUnlocked) {
+        if (!vaultState.isInitialized || (!vaultState.isUnlocked && !hasUnlockedOnce)) {
              // The VaultProvider modals will handle prompting for creation/unlock
              return <LoadingIndicator />;
         }
@@ -215,7 +254,7 @@ const AppShell: React.FC = () => {
             return <ApiKeyPromptModal />;
         }
          // Only show main app if user is logged in, vault is handled, and key is present.
-        if (user && vaultState.isUnlocked && !isApiKeyMissing) {
+        if (user && (vaultState.isUnlocked || hasUnlockedOnce) && !isApiKeyMissing) {
             return <AppContent />;
         }
         // Default to a loading state while checks are running
@@ -6,6 +6,7 @@ import { useGlobalState } from '../contexts/GlobalStateContext.tsx';
 import { useVaultModal } from '../contexts/VaultModalContext.tsx';
 import { saveCredential } from '../services/vaultService.ts'; // This service is extended conceptually for structured credential management
 import { initializeAiClient } from '../services/aiService.ts'; // This will be expanded to support multiple AI clients initialization
+import { fixtureProvider, updateAiProviderSettings } from '../services/ai/index.ts';
 import { LoadingSpinner } from './shared/LoadingSpinner.tsx';
 import { useNotification } from '../contexts/NotificationContext.tsx'; // Will be integrated with a richer AlertManager
 
@@ -1211,6 +1212,17 @@ export const ApiKeyPromptModal: React.FC = () => {
                             </p>
                         </div>
                         <div className="flex justify-end gap-2 pt-2">
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    // Demo mode: route every feature to the offline fixtures. A key can be added later and Gemini picked again in Settings.
+                                    updateAiProviderSettings({ defaultProviderId: fixtureProvider.id, featureProviders: {} });
+                                    globalDispatch({ type: 'SET_API_KEY_MISSING', payload: false });
+                                }}
+                                className="px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600"
+                            >
+                                Continue Offline
+                            </button>
                             <button type="submit" disabled={isSaving || !currentApiKeyInput.trim()} className="btn-primary px-4 py-2 min-w-[100px] flex justify-center">
                                 {isSaving ? <LoadingSpinner /> : 'Save & Continue'}
                             </button>
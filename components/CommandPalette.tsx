@@ -5,6 +5,9 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { ALL_FEATURES } from './features/index.ts';
 import type { ViewType } from '../types.ts';
+import { listWorkspaceLayouts, subscribeToWorkspaceLayouts, saveCurrentWorkspaceLayout, restoreWorkspaceLayout, deleteWorkspaceLayout } from '../services/workspaceLayoutService.ts';
+import type { WorkspaceLayout } from '../services/workspaceLayoutService.ts';
+import { getFeatureLocation } from '../services/routerService.ts';
 
 // --- Start of New Inventions and Integrations (Story in Comments) ---
 
@@ -872,6 +875,7 @@ export const INTERNAL_COMMANDS: CommandPaletteItem[] = [
   // System Operations & Monitoring
   { id: 'system-health-check', name: 'Run System Health Check', category: CommandCategory.Operations, icon: commandIcons.monitoring, description: 'Perform diagnostic checks on core system services.', type: CommandType.System, permissionLevel: 'admin', targetService: 'datadog' },
   { id: 'clear-cache', name: 'Clear Local Cache', category: CommandCategory.Utility, icon: commandIcons.system, description: 'Clears client-side cached data for a fresh start.', type: CommandType.Action, execute: () => { localStorageManager.removeItem('commandPalette:recent'); alert('Local cache cleared.'); telemetry.trackEvent('cache_cleared'); return Promise.resolve(); } },
+  { id: 'copy-view-link', name: 'Copy Link to Current View', category: CommandCategory.Utility, icon: commandIcons.system, description: 'Copy a shareable link that reopens the focused window with the props it was opened with.', type: CommandType.Action, keywords: ['share', 'url', 'deep link'], execute: async () => { if (!getFeatureLocation()) { alert('Open or focus a window first.'); return; } await navigator.clipboard.writeText(window.location.href); alert('Link copied to clipboard.'); telemetry.trackEvent('view_link_copied'); } },
   { id: 'toggle-dark-mode', name: 'Toggle Dark Mode', category: CommandCategory.Settings, icon: commandIcons.setting, description: 'Switch between light and dark UI themes.', type: CommandType.Setting, execute: () => { const current = document.documentElement.classList.toggle('dark'); localStorageManager.setItem('theme', current ? 'dark' : 'light'); alert(`Theme switched to ${current ? 'dark' : 'light'} mode.`); telemetry.trackEvent('theme_toggled', { theme: current ? 'dark' : 'light' }); return Promise.resolve(); } },
   { id: 'view-api-logs', name: 'View API Gateway Logs', category: CommandCategory.Monitoring, icon: commandIcons.monitoring, description: 'Access real-time logs from the API Gateway.', type: CommandType.Monitoring, permissionLevel: 'developer', targetService: 'splunk' },
   { id: 'send-slack-alert', name: 'Send Slack Alert', category: CommandCategory.Communication, icon: commandIcons.action, description: 'Send an urgent alert message to a specific Slack channel.', type: CommandType.Communication, requiresAuth: true, permissionLevel: 'admin', targetService: 'slack', execute: () => { const message = window.prompt('Enter message for Slack alert:'); if(message) alert(`Sending "${message}" to Slack (simulated).`); return Promise.resolve(); } },
@@ -1006,6 +1010,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
   const [aiSuggestions, setAiSuggestions] = useState<CommandPaletteItem[]>([]);
   const [recentCommands, setRecentCommands] = useState<CommandPaletteItem[]>(() => localStorageManager.getItem('commandPalette:recent') || []);
   const [favoriteCommands, setFavoriteCommands] = useState<CommandPaletteItem[]>(() => localStorageManager.getItem('commandPalette:favorites') || []);
+  const [workspaceLayouts, setWorkspaceLayouts] = useState<WorkspaceLayout[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
   /**
@@ -1054,6 +1059,17 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
     }
   }, [isOpen, setChatResponse]);
 
+  // Keep the saved workspace layouts in sync so each one gets its own restore/delete command
+  useEffect(() => {
+    const refresh = () => {
+      listWorkspaceLayouts()
+        .then(setWorkspaceLayouts)
+        .catch((e: any) => logger.error('Failed to load workspace layouts.', { error: e.message }));
+    };
+    refresh();
+    return subscribeToWorkspaceLayouts(refresh);
+  }, []);
+
   // Save recent/favorite commands to local storage on change
   useEffect(() => {
     localStorageManager.setItem('commandPalette:recent', recentCommands);
@@ -1149,6 +1165,54 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
 
     const contextualCommands = contextualCommandProvider.getCommands(currentAppContext || { route: window.location.pathname });
 
+    /**
+     * @invention
+     * `layoutCommands`: Save the open desktop as a named layout, and restore or delete each saved one.
+     * Errors thrown here surface through `handleCommandExecution`.
+     */
+    const layoutCommands: CommandPaletteItem[] = [
+      {
+        id: 'workspace-layout-save',
+        name: 'Save Workspace Layout…',
+        category: CommandCategory.General,
+        icon: commandIcons.system,
+        description: 'Save the open windows, their positions and virtual desktops under a name.',
+        type: CommandType.Action,
+        keywords: ['layout', 'workspace', 'windows', 'save'],
+        execute: async () => {
+          const name = window.prompt('Name this layout:');
+          if (!name?.trim()) return;
+          const existing = workspaceLayouts.some(layout => layout.name === name.trim());
+          if (existing && !window.confirm(`Replace the saved layout "${name.trim()}"?`)) return;
+          await saveCurrentWorkspaceLayout(name);
+        },
+      },
+      ...workspaceLayouts.flatMap(layout => [
+        {
+          id: `workspace-layout-restore:${layout.name}`,
+          name: `Restore Layout: ${layout.name}`,
+          category: CommandCategory.General,
+          icon: commandIcons.action,
+          description: `Reopen ${layout.windows.length} window(s) saved on ${new Date(layout.savedAt).toLocaleString()}.`,
+          type: CommandType.Action,
+          keywords: ['layout', 'workspace', 'restore'],
+          execute: () => restoreWorkspaceLayout(layout.name),
+        },
+        {
+          id: `workspace-layout-delete:${layout.name}`,
+          name: `Delete Layout: ${layout.name}`,
+          category: CommandCategory.General,
+          icon: commandIcons.system,
+          description: `Remove the saved layout "${layout.name}".`,
+          type: CommandType.Action,
+          keywords: ['layout', 'workspace', 'delete'],
+          execute: async () => {
+            if (window.confirm(`Delete the saved layout "${layout.name}"?`)) await deleteWorkspaceLayout(layout.name);
+          },
+        },
+      ]),
+    ];
+
     // Combine and filter all commands
     const combinedCommands = [
       ...navigationCommands,
@@ -1156,11 +1220,12 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
       ...INTERNAL_COMMANDS,
       ...serviceCommands,
       ...contextualCommands,
+      ...layoutCommands,
     ];
 
     // Filter by user permissions
     return combinedCommands.filter(cmd => authService.canAccessCommand(cmd));
-  }, [currentAppContext]); // Recompute if current app context changes
+  }, [currentAppContext, workspaceLayouts]); // Recompute if current app context or saved layouts change
 
   /**
    * @invention
@@ -1203,9 +1268,10 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
 
     // Add favorites
     if (configService.get('commandPalette.enableFavorites', true)) {
-      const favoritedFiltered = favoriteCommands.filter(fav =>
-        filtered.some(f => f.id === fav.id) && !finalOptions.some(opt => opt.id === fav.id)
-      );
+      // Stored entries lose their `execute` in localStorage, so show the live command instead
+      const favoritedFiltered = favoriteCommands
+        .map(fav => filtered.find(f => f.id === fav.id))
+        .filter((fav): fav is CommandPaletteItem => !!fav && !finalOptions.some(opt => opt.id === fav.id));
       if (favoritedFiltered.length > 0) {
         finalOptions.push(
           { id: 'header-favorites', name: '⭐️ Favorites', category: CommandCategory.General, icon: commandIcons.star, description: 'Your frequently used or marked commands.', type: CommandType.System, execute: () => Promise.resolve() },
@@ -1215,9 +1281,10 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose,
     }
 
     // Add recent commands
-    const recentFiltered = recentCommands.filter(rec =>
-      filtered.some(f => f.id === rec.id) && !finalOptions.some(opt => opt.id === rec.id)
-    ).slice(0, configService.get('commandPalette.maxRecentCommands', 5));
+    const recentFiltered = recentCommands
+      .map(rec => filtered.find(f => f.id === rec.id))
+      .filter((rec): rec is CommandPaletteItem => !!rec && !finalOptions.some(opt => opt.id === rec.id))
+      .slice(0, configService.get('commandPalette.maxRecentCommands', 5));
 
     if (recentFiltered.length > 0) {
       finalOptions.push(
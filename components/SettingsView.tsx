@@ -1,11 +1,15 @@
 // Copyright James Burvel O’Callaghan III
 // President Citibank Demo Business Inc.
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useGlobalState } from '../contexts/GlobalStateContext.tsx';
+import { useVaultModal } from '../contexts/VaultModalContext.tsx';
+import { useNotification } from '../contexts/NotificationContext.tsx';
 import { clearAllFiles } from '../services/dbService.ts';
+import { exportVault, readVaultExport, applyVaultImport } from '../services/vaultService.ts';
 import { useLocalStorage } from '../hooks/useLocalStorage.ts';
 import { useTheme } from '../hooks/useTheme.ts';
+import { getAiProviderSettings, listAiProviders, setFeatureAiProvider, subscribeToAiProviders, updateAiProviderSettings } from '../services/ai/index.ts';
 import { ALL_FEATURES } from './features/index.ts';
 import { TrashIcon, SunIcon, MoonIcon } from './icons.tsx';
 
@@ -29,6 +33,56 @@ export const SettingsView: React.FC = () => {
     const [, setNotes] = useLocalStorage('devcore_moodboard', []);
     const [, setDevNotes] = useLocalStorage('devcore_notes', []);
     const [, setPersonalities] = useLocalStorage('devcore_ai_personalities', []);
+    const { requestPasswordChange, autoLockSettings, setAutoLockSettings } = useVaultModal();
+    const { addNotification } = useNotification();
+
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [aiSettings, setAiSettings] = useState(getAiProviderSettings);
+    const [aiProviders, setAiProviders] = useState(listAiProviders);
+
+    useEffect(() => subscribeToAiProviders(() => {
+        setAiSettings(getAiProviderSettings());
+        setAiProviders(listAiProviders());
+    }), []);
+
+    const updateOpenAiCompatible = (changes: Partial<typeof aiSettings.openAiCompatible>) => {
+        updateAiProviderSettings({ openAiCompatible: { ...aiSettings.openAiCompatible, ...changes } });
+    };
+
+    const handleChangeMasterPassword = async () => {
+        if (await requestPasswordChange()) {
+            addNotification('Master password changed. All credentials were re-encrypted.', 'success');
+        }
+    };
+
+    const handleExportVault = async () => {
+        const password = window.prompt("Choose a password to protect the export file. It is needed to import the file later.");
+        if (!password) return;
+        try {
+            const count = await exportVault(password);
+            addNotification(`Exported ${count} credentials.`, 'success');
+        } catch (e) {
+            addNotification(e instanceof Error ? e.message : 'Vault export failed.', 'error');
+        }
+    };
+
+    const handleImportFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file.
+        if (!file) return;
+        const password = window.prompt("Enter the password this export was protected with.");
+        if (!password) return;
+        try {
+            const preview = await readVaultExport(file, password);
+            const replaceConflicts = preview.conflicts.length > 0 && window.confirm(
+                `${preview.conflicts.length} credential(s) already exist in this vault (${preview.conflicts.join(', ')}).\n\nOK to replace them with the imported versions, Cancel to keep the existing ones.`
+            );
+            const { imported, replaced, skipped } = await applyVaultImport(preview, {}, replaceConflicts ? 'replace' : 'keep');
+            addNotification(`Imported ${imported} new, replaced ${replaced}, kept ${skipped} existing credentials.`, 'success');
+        } catch (err) {
+            addNotification(err instanceof Error ? err.message : 'Vault import failed.', 'error');
+        }
+    };
 
     const handleClearGeneratedFiles = async () => {
         if (window.confirm("Are you sure you want to delete all AI-generated files? This cannot be undone.")) {
@@ -121,6 +175,148 @@ export const SettingsView: React.FC = () => {
                     </div>
                 </section>
                 
+                {/* AI Providers Section */}
+                <section>
+                    <h2 className="text-2xl font-bold border-b border-border pb-2 mb-4">AI Providers</h2>
+                    <p className="text-sm text-text-secondary mb-4">
+                        Choose which model backend answers AI requests. Features without their own choice use the default.
+                    </p>
+                    <div className="flex items-center justify-between p-4 bg-surface border border-border rounded-lg">
+                        <div>
+                            <p className="font-medium">Default Provider</p>
+                            <p className="text-sm text-text-secondary">{aiProviders.find(p => p.id === aiSettings.defaultProviderId)?.description}</p>
+                        </div>
+                        <select
+                            value={aiSettings.defaultProviderId}
+                            onChange={e => updateAiProviderSettings({ defaultProviderId: e.target.value })}
+                            className="p-2 bg-background border border-border rounded-md text-sm"
+                        >
+                            {aiProviders.map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+                        </select>
+                    </div>
+                    <div className="p-4 bg-surface border border-border rounded-lg mt-4 space-y-3 text-sm">
+                        <div>
+                            <p className="font-medium text-base">OpenAI-compatible Server</p>
+                            <p className="text-text-secondary">For a local Ollama, LM Studio or vLLM server. The server must allow requests from this origin (CORS).</p>
+                        </div>
+                        <label className="flex items-center justify-between gap-4">
+                            <span>Base URL</span>
+                            <input
+                                type="url"
+                                value={aiSettings.openAiCompatible.baseUrl}
+                                onChange={e => updateOpenAiCompatible({ baseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                className="w-80 p-1 bg-background border border-border rounded-md"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-4">
+                            <span>Model</span>
+                            <input
+                                value={aiSettings.openAiCompatible.model}
+                                onChange={e => updateOpenAiCompatible({ model: e.target.value })}
+                                placeholder="llama3.1"
+                                className="w-80 p-1 bg-background border border-border rounded-md"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-4">
+                            <span>API key credential <span className="text-text-secondary">(vault id, optional)</span></span>
+                            <input
+                                value={aiSettings.openAiCompatible.apiKeyCredentialId}
+                                onChange={e => updateOpenAiCompatible({ apiKeyCredentialId: e.target.value.trim() })}
+                                placeholder="openai_api_key"
+                                className="w-80 p-1 bg-background border border-border rounded-md"
+                            />
+                        </label>
+                    </div>
+                    <div className="space-y-2 mt-4">
+                        {ALL_FEATURES.filter(f => !['connections', 'project-explorer'].includes(f.id)).map(feature => (
+                            <div key={feature.id} className="flex items-center justify-between p-3 bg-surface border border-border rounded-lg">
+                                <p className="font-medium">{feature.name}</p>
+                                <select
+                                    value={aiSettings.featureProviders[feature.id] ?? ''}
+                                    onChange={e => setFeatureAiProvider(feature.id, e.target.value || null)}
+                                    className="p-1 bg-background border border-border rounded-md text-sm"
+                                >
+                                    <option value="">Default</option>
+                                    {aiProviders.map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Security Section */}
+                <section>
+                    <h2 className="text-2xl font-bold border-b border-border pb-2 mb-4">Security</h2>
+                    <div className="flex items-center justify-between p-4 bg-surface border border-border rounded-lg">
+                        <div>
+                            <p className="font-medium">Master Password</p>
+                            <p className="text-sm text-text-secondary">Rotate the vault password, e.g. after a team member leaves. All credentials are re-encrypted.</p>
+                        </div>
+                        <button onClick={handleChangeMasterPassword} className="px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600">
+                            Change Password
+                        </button>
+                    </div>
+                    <div className="p-4 bg-surface border border-border rounded-lg mt-4 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="font-medium">Auto-Lock Vault</p>
+                                <p className="text-sm text-text-secondary">Clear the vault key from memory when you step away. Logging out always locks the vault.</p>
+                            </div>
+                            <ToggleSwitch
+                                checked={autoLockSettings.enabled}
+                                onChange={() => setAutoLockSettings({ ...autoLockSettings, enabled: !autoLockSettings.enabled })}
+                            />
+                        </div>
+                        {autoLockSettings.enabled && (
+                            <div className="space-y-3 text-sm">
+                                <label className="flex items-center justify-between">
+                                    <span>Lock after inactivity (minutes)</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={autoLockSettings.idleMinutes}
+                                        onChange={e => setAutoLockSettings({ ...autoLockSettings, idleMinutes: Math.max(1, Number(e.target.value) || 1) })}
+                                        className="w-24 p-1 bg-background border border-border rounded-md text-right"
+                                    />
+                                </label>
+                                <label className="flex items-center justify-between">
+                                    <span>Lock when tab is hidden for (minutes)</span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={autoLockSettings.hiddenMinutes}
+                                        onChange={e => setAutoLockSettings({ ...autoLockSettings, hiddenMinutes: Math.max(1, Number(e.target.value) || 1) })}
+                                        className="w-24 p-1 bg-background border border-border rounded-md text-right"
+                                    />
+                                </label>
+                                <div className="flex items-center justify-between">
+                                    <span>Lock when the computer sleeps</span>
+                                    <ToggleSwitch
+                                        checked={autoLockSettings.lockOnSleep}
+                                        onChange={() => setAutoLockSettings({ ...autoLockSettings, lockOnSleep: !autoLockSettings.lockOnSleep })}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex items-center justify-between p-4 bg-surface border border-border rounded-lg mt-4">
+                        <div>
+                            <p className="font-medium">Export / Import Vault</p>
+                            <p className="text-sm text-text-secondary">Move credentials between browsers or machines as a password-protected file.</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button onClick={handleExportVault} className="px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600">
+                                Export
+                            </button>
+                            <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 text-sm rounded-md bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600">
+                                Import
+                            </button>
+                            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFileSelected} />
+                        </div>
+                    </div>
+                </section>
+
                 {/* Data Management Section */}
                 <section>
                     <h2 className="text-2xl font-bold border-b border-border pb-2 mb-4">Data Management</h2>
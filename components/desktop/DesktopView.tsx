@@ -21,6 +21,9 @@ import { Taskbar } from './Taskbar.tsx';
 import { ALL_FEATURES } from '../features/index.ts';
 import type { Feature, ViewType } from '../../types.ts';
 import { ActionManager } from '../ActionManager.tsx';
+import { registerWorkspaceLayoutHost, getWorkspaceSession, saveWorkspaceSession } from '../../services/workspaceLayoutService.ts';
+import type { WorkspaceLayout, WorkspaceSnapshot } from '../../services/workspaceLayoutService.ts';
+import { syncFeatureLocation } from '../../services/routerService.ts';
 
 // --- Invented Type Definitions for Project Atlas Core Services ---
 // Feature: AT-1001 - Advanced Window State Management for Multi-Monitor & Virtual Desktops
@@ -39,6 +42,7 @@ interface WindowState {
   opacity: number; // AT-1008: Window transparency for effects or privacy
   titleOverride?: string; // AT-1009: Custom window title for dynamic content
   iconOverride?: string; // AT-1010: Custom window icon
+  viewProps?: any; // AT-1276: Props the feature was opened with, persisted with workspace layouts
 }
 
 // Feature: AT-1011 - Virtual Desktop Management System
@@ -1006,6 +1010,19 @@ export class VirtualDesktopService {
     TelemetryService.getInstance(SystemConfigService.getInstance().getConfig()).recordEvent('desktop_updated', { desktopId: id, keys: Object.keys(updates) });
   }
 
+  /**
+   * @method restoreDesktops - AT-1277: Replaces the desktop set with one saved in a workspace layout.
+   * Ids are kept so restored windows land on the desktops they were saved on.
+   * @param desktops The saved desktops; ignored if empty.
+   * @param activeId The desktop to activate, if it is among them.
+   */
+  public restoreDesktops(desktops: VirtualDesktop[], activeId: string): void {
+    if (desktops.length === 0) return;
+    this.desktops = desktops.map(d => ({ ...d }));
+    this.activeDesktopId = this.desktops.some(d => d.id === activeId) ? activeId : this.desktops[0].id;
+    this.notifyListeners();
+  }
+
   /**
    * @method subscribe - AT-1146: Allows components to subscribe to virtual desktop changes.
    * @param listener Callback function to be invoked on updates.
@@ -2238,7 +2255,7 @@ export const ScreenLocker: React.FC<{ onUnlock: () => void }> = ({ onUnlock }) =
 
 // Feature: AT-1232 - Core DesktopView Component Enhancements
 
-export const DesktopView: React.FC<{ openFeatureId?: string, onNavigate: (view: ViewType, props?: any) => void; }> = ({ openFeatureId, onNavigate }) => {
+export const DesktopView: React.FC<{ openFeatureId?: string, openFeatureProps?: any, onNavigate: (view: ViewType, props?: any) => void; }> = ({ openFeatureId, openFeatureProps, onNavigate }) => {
     // AT-1233: Utilize Service Locator for dependency injection into the main component.
     const systemConfig = ServiceLocator.getConfigService();
     const notificationService = ServiceLocator.getNotificationService();
@@ -2412,11 +2429,11 @@ export const DesktopView: React.FC<{ openFeatureId?: string, onNavigate: (view:
     
     useEffect(() => {
         if(openFeatureId && !isLocked && currentUser) { // AT-1251: Prevent opening features if screen is locked or no user
-            openWindow(openFeatureId);
+            openWindow(openFeatureId, openFeatureProps && Object.keys(openFeatureProps).length > 0 ? { viewProps: openFeatureProps } : undefined);
             // Reset the view in global state so it doesn't re-trigger, crucial for single-use navigation.
             onNavigate('dashboard', {}); // AT-1252: Assuming 'dashboard' is the default view after opening a feature
         }
-    }, [openFeatureId, openWindow, onNavigate, isLocked, currentUser]);
+    }, [openFeatureId, openFeatureProps, openWindow, onNavigate, isLocked, currentUser]);
 
     // AT-1253: Unified window action handlers, promoting consistency.
     const closeWindow = useCallback((id: string) => {
@@ -2496,6 +2513,120 @@ export const DesktopView: React.FC<{ openFeatureId?: string, onNavigate: (view:
         }
     }, [telemetryService]);
 
+    // AT-1278: Workspace layouts. The desktop captures and applies layouts for the layout service, restores the
+    // last session once a user is signed in, and records the session again whenever the windows change.
+    const captureLayout = useCallback((): WorkspaceSnapshot => ({
+        activeDesktopId,
+        activeWindowId: activeId,
+        desktops: virtualDesktopService.getDesktops(),
+        windows: Object.values(windows).map(win => ({
+            featureId: win.id,
+            position: win.position,
+            size: win.size,
+            zIndex: win.zIndex,
+            isMinimized: win.isMinimized,
+            isMaximized: win.isMaximized,
+            desktopId: win.desktopId,
+            snapState: win.snapState,
+            opacity: win.opacity,
+            titleOverride: win.titleOverride,
+            viewProps: win.viewProps,
+        })),
+    }), [activeDesktopId, activeId, windows, virtualDesktopService]);
+
+    const applyLayout = useCallback((layout: WorkspaceLayout, keepOpenWindows = false) => {
+        virtualDesktopService.restoreDesktops(layout.desktops, layout.activeDesktopId);
+        const desktopIds = new Set(virtualDesktopService.getDesktops().map(d => d.id));
+        const restored: Record<string, WindowState> = {};
+        layout.windows.filter(w => ALL_FEATURES.some(f => f.id === w.featureId)).forEach(w => {
+            restored[w.featureId] = {
+                id: w.featureId,
+                position: w.position,
+                size: w.size,
+                zIndex: w.zIndex,
+                isMinimized: w.isMinimized,
+                isMaximized: w.isMaximized,
+                isResizing: false,
+                isDragging: false,
+                desktopId: desktopIds.has(w.desktopId) ? w.desktopId : virtualDesktopService.getActiveDesktopId(),
+                snapState: w.snapState,
+                opacity: w.opacity,
+                titleOverride: w.titleOverride,
+                viewProps: w.viewProps,
+            };
+        });
+        const topZIndex = Math.max(Z_INDEX_BASE, ...Object.values(restored).map(w => w.zIndex));
+        if (keepOpenWindows) {
+            // Windows opened while the session was loading (e.g. from a deep link) are stacked above every restored
+            // window in the order they were opened. A feature that is in both keeps its restored geometry and only
+            // takes the view props it was opened with.
+            setWindows(prev => {
+                const merged = { ...restored };
+                Object.values(prev).forEach(win => {
+                    const saved = restored[win.id];
+                    merged[win.id] = {
+                        ...(saved ? { ...saved, isMinimized: false, viewProps: win.viewProps ?? saved.viewProps } : win),
+                        zIndex: topZIndex + win.zIndex - Z_INDEX_BASE,
+                    };
+                });
+                return merged;
+            });
+            // Open windows never sit above nextZIndex, so shifting it by the same amount keeps it above them all.
+            setNextZIndex(prev => topZIndex + prev - Z_INDEX_BASE);
+        } else {
+            setWindows(restored);
+            setNextZIndex(prev => Math.max(prev, topZIndex));
+        }
+        if (!keepOpenWindows || !activeId) {
+            setActiveId(layout.activeWindowId && restored[layout.activeWindowId] ? layout.activeWindowId : null);
+        }
+        telemetryService.recordEvent('workspace_layout_applied', { windows: Object.keys(restored).length });
+    }, [activeId, virtualDesktopService, telemetryService]);
+
+    const captureLayoutRef = useRef(captureLayout);
+    captureLayoutRef.current = captureLayout;
+    const applyLayoutRef = useRef(applyLayout);
+    applyLayoutRef.current = applyLayout;
+    const lastLayoutNameRef = useRef('');
+
+    useEffect(() => registerWorkspaceLayoutHost({
+        capture: () => captureLayoutRef.current(),
+        restore: layout => {
+            lastLayoutNameRef.current = layout.name;
+            applyLayoutRef.current(layout);
+        },
+    }), []);
+
+    const [isSessionRestored, setIsSessionRestored] = useState(false);
+    useEffect(() => {
+        if (!currentUser || isSessionRestored) return;
+        getWorkspaceSession()
+            .then(session => {
+                if (!session) return;
+                lastLayoutNameRef.current = session.name;
+                applyLayoutRef.current(session, true);
+            })
+            .catch(error => console.error('Atlas Core: Failed to restore the last workspace session:', error))
+            .finally(() => setIsSessionRestored(true));
+    }, [currentUser, isSessionRestored]);
+
+    useEffect(() => {
+        // Nothing is recorded until the previous session has been applied, or it would be overwritten.
+        if (!isSessionRestored || !currentUser) return;
+        const handler = setTimeout(() => {
+            saveWorkspaceSession({ ...captureLayout(), name: lastLayoutNameRef.current, savedAt: new Date().toISOString() })
+                .catch(error => console.error('Atlas Core: Failed to save the workspace session:', error));
+        }, 500);
+        return () => clearTimeout(handler);
+    }, [captureLayout, isSessionRestored, currentUser]);
+
+    // AT-1279: Deep links. The address bar follows the focused window and the view props it was opened with,
+    // so the URL can be shared and back/forward step between feature views.
+    const activeViewProps = activeId ? windows[activeId]?.viewProps : undefined;
+    useEffect(() => {
+        if (activeId) syncFeatureLocation(activeId, activeViewProps);
+    }, [activeId, activeViewProps]);
+
     // AT-1258: Filtering windows based on the currently active virtual desktop, crucial for multi-desktop experience.
     const windowsOnActiveDesktop = Object.values(windows).filter(w => !w.isMinimized && w.desktopId === activeDesktopId);
     const minimizedWindows = Object.values(windows).filter(w => w.isMinimized);
@@ -275,6 +275,8 @@ export interface WindowState {
   isHovered: boolean;
   // Invention: Snap Area Configuration - Defines areas where the window can snap.
   snapAreas: { top: boolean; bottom: boolean; left: boolean; right: boolean };
+  // Invention: View Props - Props the feature was opened with (e.g. from the command palette or a restored layout).
+  viewProps?: any;
 }
 
 // Invention: WindowContextMenuItem - Defines structure for dynamic context menu items.
@@ -831,6 +833,7 @@ export const Window: React.FC<WindowProps> = ({
       >
         <Suspense fallback={<LoadingIndicator/>}>
           <FeatureComponent
+            {...state.viewProps}
             // Invention: Feature-to-Window Communication Props - allows features to interact with the window.
             windowId={feature.id}
             windowState={state}
@@ -11,7 +11,8 @@
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import mermaid from 'mermaid';
-import { explainCodeStructured, generateMermaidJs } from '../../services/index.ts';
+import { generateMermaidJs } from '../../services/index.ts';
+import { explainCodeStructured } from '../../services/ai/index.ts';
 import type { StructuredExplanation } from '../../types.ts';
 import { useTheme } from '../../hooks/useTheme.ts';
 import { CpuChipIcon } from '../icons.tsx';
@@ -1047,8 +1048,8 @@ export const AiCodeExplainer: React.FC<{ initialCode?: string }> = ({ initialCod
                 dependencyGraph,
                 ast
             ] = await Promise.all([
-                // Standard explanation service, now enhanced to integrate with specific AI models
-                explainCodeStructured(codeToExplain, settings.aiModel === 'gemini' ? callGeminiApi : callChatGPTApi, settings),
+                // Standard explanation service: validated against StructuredExplanation, with the provider chosen in Settings
+                explainCodeStructured(codeToExplain),
                 generateMermaidJs(codeToExplain),
                 callGeminiApi(codeToExplain, settings, `Provide a deep technical analysis for the following ${settings.targetLanguage} code, focusing on core logic, potential optimizations, and complex patterns.`),
                 callChatGPTApi(codeToExplain, settings, `Summarize the following ${settings.targetLanguage} code, provide high-level architectural notes, and suggest comprehensive unit tests.`),
@@ -1100,12 +1101,12 @@ export const AiCodeExplainer: React.FC<{ initialCode?: string }> = ({ initialCod
         }
     }, []);
 
+    // Initial code only prefills the editor; the explanation runs when the user asks for it.
     useEffect(() => {
         if (initialCode) {
             setCode(initialCode);
-            handleExplain(initialCode, analysisSettings);
         }
-    }, [initialCode, handleExplain, analysisSettings]);
+    }, [initialCode]);
 
     // Invented Feature: Responsive Mermaid theme based on global theme state.
     // Ensures consistent UI/UX across the application.
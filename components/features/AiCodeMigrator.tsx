@@ -13,6 +13,7 @@ import React, { useState, useCallback, useEffect, createContext, useContext, use
 import { migrateCodeStream } from '../../services/index.ts';
 import { ArrowPathIcon, Cog6ToothIcon, CodeBracketIcon, ServerStackIcon, RocketLaunchIcon, BugAntIcon, ChatBubbleLeftRightIcon, LightBulbIcon, CircleStackIcon, CurrencyDollarIcon, ComputerDesktopIcon, AdjustmentsHorizontalIcon, RectangleGroupIcon, MagnifyingGlassIcon, DocumentTextIcon, ShareIcon, ShieldCheckIcon, PlayIcon, PauseIcon, EyeIcon } from '../icons.tsx'; // Expanded icons
 import { LoadingSpinner, MarkdownRenderer } from '../shared/index.tsx';
+import { WorkingCopyBar } from './shared/WorkingCopyBar.tsx';
 import { toast, Toaster } from 'react-hot-toast'; // External service integration: React Hot Toast (for notifications)
 
 // ====================================================================================================
@@ -2091,15 +2092,14 @@ export const AiCodeMigrator: React.FC<{ inputCode?: string, fromLang?: string, t
         MigrationConfigManager.saveSettings(migrationSettings);
     }, [migrationSettings]);
 
-    // Initial migration for pre-filled props
+    // Pre-filled props only fill in the form; the migration runs when the user asks for it.
     useEffect(() => {
         if (initialCode && initialFrom && initialTo) {
             setInputCode(initialCode);
             setFromLang(initialFrom);
             setToLang(initialTo);
-            handleMigrate(initialCode, initialFrom, initialTo, migrationSettings);
         }
-    }, [initialCode, initialFrom, initialTo, migrationSettings]); // Added migrationSettings as dependency
+    }, [initialCode, initialFrom, initialTo]);
 
     const handleAutoDetectLanguage = useCallback(async (code: string, setter: React.Dispatch<React.SetStateAction<string>>) => {
         if (!code.trim()) {
@@ -2408,6 +2408,10 @@ export const AiCodeMigrator: React.FC<{ inputCode?: string, fromLang?: string, t
 
             <p className="text-text-secondary mt-1 mb-6">Translate code between languages, frameworks, and syntax styles with advanced AI assistance.</p>
 
+            <div className="mb-4">
+                <WorkingCopyBar featureId="ai-code-migrator" code={outputCode} onLoad={content => { setInputCode(content); setOutputCode(''); }} />
+            </div>
+
             {/* Main Content Area */}
             <div className="flex-grow flex flex-col min-h-0">
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-grow min-h-0">
@@ -9,6 +9,7 @@ import { useNotification } from '../../contexts/NotificationContext.tsx';
 import { CpuChipIcon, DocumentTextIcon, BeakerIcon, GitBranchIcon, CloudIcon, CogIcon, CommandLineIcon, AdjustmentsHorizontalIcon, ChartBarIcon, ShieldCheckIcon, WalletIcon, BuildingOfficeIcon, UserGroupIcon, RocketLaunchIcon, CodeBracketIcon, ServerStackIcon, CircleStackIcon, BugAntIcon, SwatchIcon, Square3Stack3DIcon, GlobeAltIcon, PuzzlePieceIcon, FingerPrintIcon, WrenchScrewdriverIcon, AcademicCapIcon, BriefcaseIcon, BoltIcon, SpeakerWaveIcon, PhotoIcon, MusicalNoteIcon, PaintBrushIcon } from '../icons.tsx'; // More icons for new features
 import { LoadingSpinner, MarkdownRenderer } from '../shared/index.tsx';
 import { MonacoEditor } from '../shared/MonacoEditor.tsx'; // Assuming MonacoEditor is a new shared component
+import { estimateAiCostUSD, estimateTokens } from '../../services/ai/usageLedger.ts';
 
 // Invented: AiFeatureBuilderContext for global state management and cross-cutting concerns.
 // Purpose: To provide a robust, commercial-grade solution for managing AI-driven development workflows,
@@ -31,44 +32,25 @@ export const useAiFeatureBuilder = () => {
 // Invented: AiGenerationCostEstimator, a sophisticated service to predict token and API costs.
 // This is crucial for commercial applications to manage budgets and provide transparency to users.
 export class AiGenerationCostEstimator {
-    private static readonly TOKEN_COST_PER_MILLION = {
-        'gemini-pro': { input: 0.5, output: 1.5 }, // Example costs in USD
-        'gpt-4-turbo': { input: 10.0, output: 30.0 },
-        'claude-3-opus': { input: 15.0, output: 75.0 },
-        'azure-openai-gpt4': { input: 12.0, output: 36.0 },
-        'aws-bedrock-claude3': { input: 16.0, output: 80.0 },
-        'code-davinci-002': { input: 0.2, output: 0.2 }, // Legacy for context
-    };
-
     /**
-     * Estimates the cost of a given prompt and expected output length.
+     * Estimates the cost of a given prompt and expected output length from the AI usage ledger's price table,
+     * so the estimate matches what the ledger records once the calls are made.
      * @param model The AI model identifier.
      * @param promptTokens Estimated number of input tokens.
      * @param completionTokens Estimated number of output tokens.
-     * @returns Estimated cost in USD.
+     * @returns Estimated cost in USD; 0 for models without a price.
      */
     static estimate(model: string, promptTokens: number, completionTokens: number): number {
-        const costs = AiGenerationCostEstimator.TOKEN_COST_PER_MILLION[model.toLowerCase()];
-        if (!costs) {
-            console.warn(`Cost estimation not available for model: ${model}`);
-            return 0;
-        }
-        const inputCost = (promptTokens / 1_000_000) * costs.input;
-        const outputCost = (completionTokens / 1_000_000) * costs.output;
-        return inputCost + outputCost;
+        return estimateAiCostUSD(model, promptTokens, completionTokens);
     }
 
-    // Invented: Dynamic tokenizer for more accurate estimations.
     /**
-     * A more sophisticated tokenizer estimation, potentially integrating with third-party libraries.
+     * Estimates a token count from text length, using the same heuristic as the ledger.
      * @param text The text to tokenize.
      * @returns An estimated token count.
      */
     static estimateTokens(text: string): number {
-        // A real-world implementation would use a proper tokenizer for the specific model,
-        // e.g., @dqbd/tiktoken for OpenAI, or a custom one for Gemini/Claude.
-        // For demonstration, a simple word count or character count heuristic.
-        return Math.ceil(text.length / 4); // Common heuristic: 1 token ~ 4 characters
+        return estimateTokens(text);
     }
 }
 export { AiGenerationCostEstimator }; // Export the class
@@ -1602,6 +1584,7 @@ import { useNotification } from '../../contexts/NotificationContext.tsx';
 import { CpuChipIcon, DocumentTextIcon, BeakerIcon, GitBranchIcon, CloudIcon, CogIcon, CommandLineIcon, AdjustmentsHorizontalIcon, ChartBarIcon, ShieldCheckIcon, WalletIcon, BuildingOfficeIcon, UserGroupIcon, RocketLaunchIcon, CodeBracketIcon, ServerStackIcon, CircleStackIcon, BugAntIcon, SwatchIcon, Square3Stack3DIcon, GlobeAltIcon, PuzzlePieceIcon, FingerPrintIcon, WrenchScrewdriverIcon, AcademicCapIcon, BriefcaseIcon, BoltIcon, SpeakerWaveIcon, PhotoIcon, MusicalNoteIcon, PaintBrushIcon } from '../icons.tsx'; // More icons for new features
 import { LoadingSpinner, MarkdownRenderer } from '../shared/index.tsx';
 import { MonacoEditor } from '../shared/MonacoEditor.tsx'; // Assuming MonacoEditor is a new shared component
+import { estimateAiCostUSD, estimateTokens } from '../../services/ai/usageLedger.ts';
 
 // Invented (Feature 1): AiFeatureBuilderContext for global state management and cross-cutting concerns.
 // Purpose: To provide a robust, commercial-grade solution for managing AI-driven development workflows,
@@ -1624,48 +1607,25 @@ export const useAiFeatureBuilder = () => {
 // Invented (Feature 3): AiGenerationCostEstimator, a sophisticated service to predict token and API costs.
 // This is crucial for commercial applications to manage budgets and provide transparency to users.
 export class AiGenerationCostEstimator {
-    private static readonly TOKEN_COST_PER_MILLION = {
-        'gemini-pro': { input: 0.5, output: 1.5 }, // Example costs in USD
-        'gemini-1.5-pro': { input: 3.5, output: 10.5 },
-        'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
-        'gpt-4-turbo': { input: 10.0, output: 30.0 },
-        'gpt-4o': { input: 5.0, output: 15.0 },
-        'claude-3-opus': { input: 15.0, output: 75.0 },
-        'claude-3-sonnet': { input: 3.0, output: 15.0 },
-        'azure-openai-gpt4': { input: 12.0, output: 36.0 },
-        'aws-bedrock-claude3': { input: 16.0, output: 80.0 },
-        'llama-3-8b': { input: 0.2, output: 0.2 }, // Hypothetical open-source model costs
-        'mixtral-8x7b': { input: 0.3, output: 0.3 },
-    };
-
     /**
-     * Estimates the cost of a given prompt and expected output length.
+     * Estimates the cost of a given prompt and expected output length from the AI usage ledger's price table,
+     * so the estimate matches what the ledger records once the calls are made.
      * @param model The AI model identifier.
      * @param promptTokens Estimated number of input tokens.
      * @param completionTokens Estimated number of output tokens.
-     * @returns Estimated cost in USD.
+     * @returns Estimated cost in USD; 0 for models without a price.
      */
     static estimate(model: string, promptTokens: number, completionTokens: number): number {
-        const costs = AiGenerationCostEstimator.TOKEN_COST_PER_MILLION[model.toLowerCase()];
-        if (!costs) {
-            console.warn(`Cost estimation not available for model: ${model}`);
-            return 0;
-        }
-        const inputCost = (promptTokens / 1_000_000) * costs.input;
-        const outputCost = (completionTokens / 1_000_000) * costs.output;
-        return parseFloat((inputCost + outputCost).toFixed(6)); // Ensure precision
+        return estimateAiCostUSD(model, promptTokens, completionTokens);
     }
 
-    // Invented (Feature 4): Dynamic tokenizer for more accurate estimations.
     /**
-     * A more sophisticated tokenizer estimation, potentially integrating with third-party libraries (e.g., @dqbd/tiktoken).
+     * Estimates a token count from text length, using the same heuristic as the ledger.
      * @param text The text to tokenize.
      * @returns An estimated token count.
      */
     static estimateTokens(text: string): number {
-        // For demonstration, a simple word count or character count heuristic.
-        // In a commercial-grade product, this would use a model-specific tokenizer.
-        return Math.ceil(text.length / 4); // Common heuristic: 1 token ~ 4 characters
+        return estimateTokens(text);
     }
 }
 export { AiGenerationCostEstimator }; // Export the class
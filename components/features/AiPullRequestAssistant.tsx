@@ -4,7 +4,9 @@
 
 import React, { useState, useMemo, useCallback } from 'react';
 import * as Diff from 'diff';
-import { generatePrSummaryStructured, generateTechnicalSpecFromDiff, downloadFile } from '../../services/index.ts';
+import { generateTechnicalSpecFromDiff, downloadFile } from '../../services/index.ts';
+import { generatePrSummaryStructured, getPeriodStart } from '../../services/ai/index.ts';
+import { useAiUsage } from '../../hooks/useAiUsage.ts';
 import { createDocument, insertText } from '../../services/workspaceService.ts';
 import type { StructuredPrSummary } from '../../types.ts';
 import { AiPullRequestAssistantIcon, DocumentIcon } from '../icons.tsx';
@@ -492,18 +494,25 @@ export const useAiOutputGenerator = (aiSettings: AiSettings, diffContent: string
                 userTimezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             };
 
-            const response = await fetch('/api/ai-generation-service', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload),
-            });
+            let result: PrAnalysisResult;
+            if (outputType === 'structured-summary') {
+                // Invention: The summary is typed JSON, so it goes through the shared structured-output layer,
+                // which validates it against StructuredPrSummary and re-asks the model when it does not match.
+                result = { generatedAt: new Date().toISOString(), sessionId, summary: await generatePrSummaryStructured(diffContent) };
+            } else {
+                const response = await fetch('/api/ai-generation-service', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(payload),
+                });
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.message || `AI generation service failed: ${response.statusText}`);
-            }
+                if (!response.ok) {
+                    const errorData = await response.json();
+                    throw new Error(errorData.message || `AI generation service failed: ${response.statusText}`);
+                }
 
-            const result: PrAnalysisResult = await response.json();
+                result = await response.json();
+            }
             // This 'smart merge' invention allows results for different output types
             // to be incrementally added to a comprehensive `PrAnalysisResult` object,
             // crucial for batch generation and displaying partial results.
@@ -877,122 +886,71 @@ export const AiFeatureSettingsPanel: React.FC<{
 
 /**
  * @component AiCostMonitor
- * The `AiCostMonitor` component is an invention born from the practical necessity
- * of managing operational costs in a commercial AI-driven product. It provides
- * real-time insights into token usage and estimated monetary expenditure for
- * AI API calls, enabling cost-aware development and budgeting. This feature is
- * crucial for enterprise adoption and resource management.
- *
- * External Service Integration (conceptual): `BillingService`, `TokenUsageTrackingService`,
- * `BudgetForecastingService`, `AIProviderBillingAPI` (for real-time data from OpenAI, Google Cloud, AWS).
+ * Token usage and estimated spend for this feature in the current month, read from the AI usage ledger,
+ * plus the budgets that cover it. Outputs produced by the remote generation service are billed by that
+ * service and do not show up here; the full cross-feature picture is in the AI Usage dashboard.
  */
-export const AiCostMonitor: React.FC<{
-    aiUsageCost: PrAnalysisResult['aiUsageCost'];
-    selectedAiModel: AiModel;
-    prAnalysisResult: PrAnalysisResult | null; // Pass entire result for detailed cost breakdown per output
-}> = ({ aiUsageCost, selectedAiModel, prAnalysisResult }) => {
-    // STORY: As the AI assistant grew in power, so did its potential for resource consumption.
-    // The `AiCostMonitor` was conceived to bring transparency and control to this aspect,
-    // ensuring that brilliance doesn't come at an unforeseen cost. It's a key invention
-    // for enterprise adoption and financial governance in the era of AI.
-
-    const getModelCostPerThousandTokens = useCallback((model: AiModel) => {
-        // These are illustrative costs and would be fetched from a dynamic config service in production.
-        // Invention: Dynamic cost lookup service for AI models, potentially updated daily via API.
-        switch (model) {
-            case 'gpt-4o': return { input: 0.005, output: 0.015 }; // Per 1K tokens
-            case 'gpt-4': return { input: 0.03, output: 0.06 };
-            case 'gpt-3.5-turbo': return { input: 0.0005, output: 0.0015 };
-            case 'gemini-1.5-pro': return { input: 0.0035, output: 0.0105 }; // Based on Google's pricing
-            case 'gemini-1.5-flash': return { input: 0.00035, output: 0.00105 }; // Based on Google's pricing
-            case 'claude-3-opus': return { input: 0.015, output: 0.075 }; // Illustrative for Claude
-            case 'custom-fine-tuned': return { input: 0.002, output: 0.005 }; // Example for internal model, may vary
-            default: return { input: 0.0, output: 0.0 };
-        }
-    }, []);
-
-    const calculateEstimatedCost = useCallback((tokensUsed: number = 0, model: AiModel) => {
-        const costs = getModelCostPerThousandTokens(model);
-        // Assuming equal input/output for simplicity if only totalTokensUsed is given.
-        // For production, the `AiGenerationService` would return granular `inputTokens` and `outputTokens`.
-        const estimatedInputCost = (tokensUsed / 2 / 1000) * costs.input;
-        const estimatedOutputCost = (tokensUsed / 2 / 1000) * costs.output;
-        return estimatedInputCost + estimatedOutputCost;
-    }, [getModelCostPerThousandTokens]);
-
-
-    const totalEstimatedCostUSD = useMemo(() => {
-        if (!aiUsageCost) return 0;
-        return calculateEstimatedCost(aiUsageCost.tokensUsed, aiUsageCost.model || selectedAiModel);
-    }, [aiUsageCost, selectedAiModel, calculateEstimatedCost]);
-
-    // Invention: Detailed cost breakdown per output type
-    const costBreakdown = useMemo(() => {
-        if (!prAnalysisResult) return [];
-        const breakdown: { type: OutputType; tokens: number; cost: number; model: AiModel }[] = [];
-        // This relies on the `AiGenerationService` returning per-output cost data within `PrAnalysisResult.rawData`
-        // For this demo, we'll simulate it based on assumption or `aiUsageCost`
-        // In a real system, the `AiGenerationService` would return `costPerOutputType: { [OutputType]: { tokens, cost, model } }`
-        const types: OutputType[] = [
-            'structured-summary', 'tech-spec', 'test-cases', 'security-report',
-            'performance-report', 'architecture-diagram', 'code-review-feedback',
-            'release-notes', 'refactoring-suggestions', 'compliance-report',
-            'code-ownership-analysis', 'dependency-impact-analysis'
-        ]; // All possible output types
-
-        // Simulate cost attribution for demonstration purposes
-        const totalTokens = aiUsageCost?.tokensUsed || 0;
-        const tokensPerType = totalTokens / types.length; // Evenly distribute for demo
-
-        types.forEach(type => {
-            if (prAnalysisResult[type]) { // Only if this output type was generated
-                const tokens = tokensPerType > 0 ? Math.max(100, Math.round(tokensPerType)) : 0; // Min 100 tokens if generated
-                breakdown.push({
-                    type,
-                    tokens,
-                    cost: calculateEstimatedCost(tokens, aiUsageCost?.model || selectedAiModel),
-                    model: aiUsageCost?.model || selectedAiModel
-                });
-            }
-        });
-        return breakdown;
-    }, [prAnalysisResult, aiUsageCost, selectedAiModel, calculateEstimatedCost]);
+export const AiCostMonitor: React.FC<{ featureId?: string }> = ({ featureId = 'ai-pull-request-assistant' }) => {
+    const since = useMemo(() => getPeriodStart('month'), []);
+    const { summary, budgets, isLoading } = useAiUsage(since, featureId);
+    const days = useMemo(() => Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a)), [summary]);
+    const models = useMemo(() => Object.entries(summary.byModel).sort(([, a], [, b]) => b.costUSD - a.costUSD), [summary]);
 
+    if (isLoading) return <div className="flex justify-center p-4"><LoadingSpinner /></div>;
 
     return (
         <div className="p-4 bg-surface-alt border border-border rounded-lg shadow-inner mt-4">
-            <h3 className="text-xl font-bold mb-4 text-text-primary">AI Usage Monitor & Cost Analysis</h3>
+            <h3 className="text-xl font-bold mb-4 text-text-primary">AI Usage This Month</h3>
             <div className="space-y-2 text-sm text-text-secondary">
-                <p><strong>Selected Model (Current):</strong> {aiUsageCost?.model || selectedAiModel}</p>
-                <p><strong>Total Tokens Used (Session):</strong> {aiUsageCost?.tokensUsed?.toLocaleString() || '0'}</p>
-                <p><strong>Total Estimated Session Cost:</strong> <span className="font-semibold text-green-500">${totalEstimatedCostUSD.toFixed(4)} USD</span></p>
-                <p className="text-xs text-text-tertiary mt-1">Costs are estimates and may vary based on actual API usage, model pricing, and specific API interactions. Real-time billing data would be fetched from a dedicated `BillingService` or directly from AI provider APIs.</p>
+                <p><strong>Calls:</strong> {summary.total.calls.toLocaleString()}{summary.total.failures > 0 && ` (${summary.total.failures} failed)`}</p>
+                <p><strong>Tokens:</strong> {summary.total.promptTokens.toLocaleString()} in / {summary.total.responseTokens.toLocaleString()} out</p>
+                <p><strong>Estimated Cost:</strong> <span className="font-semibold text-green-500">${summary.total.costUSD.toFixed(4)} USD</span></p>
+                <p className="text-xs text-text-tertiary mt-1">Estimated from the model's list price. Calls made through the remote generation service are not included.</p>
             </div>
 
-            {costBreakdown.length > 0 && (
+            {budgets.length > 0 && (
                 <div className="mt-6 border-t border-border pt-4">
-                    <h4 className="text-lg font-bold mb-3 text-text-primary">Cost Breakdown by Output Type</h4>
+                    <h4 className="text-lg font-bold mb-3 text-text-primary">Budgets</h4>
                     <ul className="space-y-2">
-                        {costBreakdown.map((item, index) => (
-                            <li key={index} className="flex justify-between items-center text-sm text-text-secondary">
-                                <span className="capitalize">{item.type.replace(/-/g, ' ')} ({item.model}):</span>
-                                <span>{item.tokens.toLocaleString()} tokens &ndash; <span className="font-medium text-green-400">${item.cost.toFixed(4)}</span></span>
+                        {budgets.map(({ budget, spentUSD, level }) => (
+                            <li key={budget.id} className="flex justify-between items-center text-sm text-text-secondary">
+                                <span>{budget.period === 'day' ? 'Daily' : 'Monthly'} {budget.featureId ? 'feature' : 'overall'} budget</span>
+                                <span className={level === 'hard' ? 'text-red-500 font-medium' : level === 'soft' ? 'text-yellow-500 font-medium' : ''}>
+                                    ${spentUSD.toFixed(2)} of ${(budget.hardLimitUSD ?? budget.softLimitUSD ?? 0).toFixed(2)}
+                                </span>
                             </li>
                         ))}
                     </ul>
                 </div>
             )}
 
-            {/* STORY: The `AdvancedCostInsights` section, though commented out, represents
-             * a future invention: detailed historical cost analysis, budget alerts,
-             * and optimization recommendations powered by a `BudgetForecastingService`
-             * and `AnalyticsService`. This demonstrates the forward-looking design
-             * of the commercial product, scaling up to hundreds of advanced features. */}
-            {/* <div className="p-4 bg-surface-alt border border-border rounded-lg shadow-inner mt-4">
-                <h3 className="text-xl font-bold mb-4 text-text-primary">Advanced Cost Insights (Coming Soon - Feature ID: CFO-9001)</h3>
-                <p className="text-text-secondary">Historical usage, budget alerts, and cost optimization recommendations will be available here.</p>
-                <p className="text-xs text-text-tertiary mt-2">Powered by integration with <span className="font-semibold">Billing Analytics Service (BAS)</span> and <span className="font-semibold">Cloud Spend Optimizer (CSO)</span>. Also integrating with <span className="font-semibold">FinOps Dashboard (FOD)</span> for cross-project cost visibility.</p>
-            </div> */}
+            {models.length > 0 && (
+                <div className="mt-6 border-t border-border pt-4">
+                    <h4 className="text-lg font-bold mb-3 text-text-primary">By Model</h4>
+                    <ul className="space-y-2">
+                        {models.map(([modelId, totals]) => (
+                            <li key={modelId} className="flex justify-between items-center text-sm text-text-secondary">
+                                <span>{modelId} ({totals.calls} calls):</span>
+                                <span>{(totals.promptTokens + totals.responseTokens).toLocaleString()} tokens &ndash; <span className="font-medium text-green-400">${totals.costUSD.toFixed(4)}</span></span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {days.length > 0 && (
+                <div className="mt-6 border-t border-border pt-4">
+                    <h4 className="text-lg font-bold mb-3 text-text-primary">By Day</h4>
+                    <ul className="space-y-2">
+                        {days.map(([day, totals]) => (
+                            <li key={day} className="flex justify-between items-center text-sm text-text-secondary">
+                                <span>{day} ({totals.calls} calls):</span>
+                                <span className="font-medium text-green-400">${totals.costUSD.toFixed(4)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
         </div>
     );
 };
@@ -1868,11 +1826,7 @@ export const AiPullRequestAssistant: React.FC = () => {
 
                         {activeTab === 'cost-monitor' && (
                             <div className="h-full overflow-y-auto pr-2">
-                                <AiCostMonitor
-                                    aiUsageCost={currentResult?.aiUsageCost}
-                                    selectedAiModel={aiSettings.model}
-                                    prAnalysisResult={currentResult} // Pass entire result for detailed breakdown
-                                />
+                                <AiCostMonitor />
                             </div>
                         )}
 
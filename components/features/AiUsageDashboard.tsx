@@ -0,0 +1,222 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import React, { useMemo, useState, useEffect } from 'react';
+import {
+    DEFAULT_AI_MODEL_PRICES, clearAiUsage, getAiCostSettings, getAiModelPrice, getPeriodStart, subscribeToAiUsage, updateAiCostSettings,
+} from '../../services/ai/usageLedger.ts';
+import type { AiBudget, AiBudgetStatus, AiUsageTotals } from '../../services/ai/usageLedger.ts';
+import { useAiUsage } from '../../hooks/useAiUsage.ts';
+import { useNotification } from '../../contexts/NotificationContext.tsx';
+import { ALL_FEATURES, FEATURES_MAP } from './index.ts';
+import { ChartBarIcon, TrashIcon } from '../icons.tsx';
+import { LoadingSpinner } from '../shared/index.tsx';
+
+type UsageRange = 'today' | 'month' | '30-days';
+
+const RANGE_LABELS: Record<UsageRange, string> = { today: 'Today', month: 'This month', '30-days': 'Last 30 days' };
+
+const getRangeStart = (range: UsageRange): number => {
+    if (range === 'today') return getPeriodStart('day');
+    if (range === 'month') return getPeriodStart('month');
+    return getPeriodStart('day') - 29 * 24 * 60 * 60 * 1000;
+};
+
+const formatUSD = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const featureName = (featureId: string) => featureId ? FEATURES_MAP.get(featureId)?.name ?? featureId : 'Unattributed';
+
+const parseLimit = (value: string): number | null => {
+    const limit = parseFloat(value);
+    return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+const UsageTable: React.FC<{ title: string; rows: [string, AiUsageTotals][]; label: (key: string) => string }> = ({ title, rows, label }) => {
+    const maxCost = Math.max(...rows.map(([, totals]) => totals.costUSD), 0);
+    return (
+        <section className="bg-surface border border-border rounded-lg p-4">
+            <h2 className="text-lg font-bold mb-3">{title}</h2>
+            {rows.length === 0 ? <p className="text-sm text-text-secondary">No AI calls in this range.</p> : (
+                <table className="w-full text-sm">
+                    <thead className="text-left text-text-secondary">
+                        <tr><th className="py-1">Name</th><th>Calls</th><th>Tokens in / out</th><th>Avg latency</th><th className="w-1/4">Cost</th></tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(([key, totals]) => (
+                            <tr key={key} className="border-t border-border">
+                                <td className="py-1 pr-2">{label(key)}</td>
+                                <td>{totals.calls}{totals.failures > 0 && <span className="text-red-500"> ({totals.failures} failed)</span>}</td>
+                                <td>{totals.promptTokens.toLocaleString()} / {totals.responseTokens.toLocaleString()}</td>
+                                <td>{Math.round(totals.totalLatencyMs / totals.calls).toLocaleString()} ms</td>
+                                <td>
+                                    <div className="flex items-center gap-2">
+                                        <div className="h-2 bg-primary rounded" style={{ width: `${maxCost > 0 ? (totals.costUSD / maxCost) * 60 : 0}%` }} />
+                                        <span>{formatUSD(totals.costUSD)}</span>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </section>
+    );
+};
+
+const BudgetRow: React.FC<{ budget: AiBudget; status?: AiBudgetStatus; onChange: (budget: AiBudget) => void; onRemove: () => void }> = ({ budget, status, onChange, onRemove }) => (
+    <div className="flex flex-wrap items-center gap-2 p-2 border-t border-border text-sm">
+        <select value={budget.featureId ?? ''} onChange={e => onChange({ ...budget, featureId: e.target.value || null })} className="p-1 bg-background border border-border rounded-md">
+            <option value="">All features</option>
+            {ALL_FEATURES.map(feature => <option key={feature.id} value={feature.id}>{feature.name}</option>)}
+        </select>
+        <select value={budget.period} onChange={e => onChange({ ...budget, period: e.target.value as AiBudget['period'] })} className="p-1 bg-background border border-border rounded-md">
+            <option value="day">Daily</option>
+            <option value="month">Monthly</option>
+        </select>
+        <label className="flex items-center gap-1">Warn at $
+            <input type="number" min="0" step="0.01" value={budget.softLimitUSD ?? ''} onChange={e => onChange({ ...budget, softLimitUSD: parseLimit(e.target.value) })} className="w-20 p-1 bg-background border border-border rounded-md" />
+        </label>
+        <label className="flex items-center gap-1">Block at $
+            <input type="number" min="0" step="0.01" value={budget.hardLimitUSD ?? ''} onChange={e => onChange({ ...budget, hardLimitUSD: parseLimit(e.target.value) })} className="w-20 p-1 bg-background border border-border rounded-md" />
+        </label>
+        {status && (
+            <span className={status.level === 'hard' ? 'text-red-500 font-medium' : status.level === 'soft' ? 'text-yellow-500 font-medium' : 'text-text-secondary'}>
+                {formatUSD(status.spentUSD)} spent{status.level === 'hard' ? ' — calls blocked' : status.level === 'soft' ? ' — over warning limit' : ''}
+            </span>
+        )}
+        <button onClick={onRemove} className="ml-auto p-1 text-text-secondary hover:text-red-500" aria-label="Remove budget"><TrashIcon /></button>
+    </div>
+);
+
+export const AiUsageDashboard: React.FC = () => {
+    const { addNotification } = useNotification();
+    const [range, setRange] = useState<UsageRange>('month');
+    const since = useMemo(() => getRangeStart(range), [range]);
+    const { records, summary, budgets: budgetStatuses, isLoading } = useAiUsage(since);
+    const [costSettings, setCostSettings] = useState(getAiCostSettings);
+
+    useEffect(() => subscribeToAiUsage(() => setCostSettings(getAiCostSettings())), []);
+
+    const featureRows = useMemo(() => Object.entries(summary.byFeature).sort(([, a], [, b]) => b.costUSD - a.costUSD), [summary]);
+    const dayRows = useMemo(() => Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a)), [summary]);
+    const modelIds = useMemo(
+        () => Array.from(new Set([...Object.keys(DEFAULT_AI_MODEL_PRICES), ...Object.keys(costSettings.prices), ...records.map(record => record.modelId)])).sort(),
+        [records, costSettings],
+    );
+    const estimatedShare = summary.total.calls > 0 ? records.filter(record => record.estimated).length / summary.total.calls : 0;
+
+    const updateBudgets = (budgets: AiBudget[]) => updateAiCostSettings({ budgets });
+
+    const addBudget = () => updateBudgets([
+        ...costSettings.budgets,
+        { id: `${Date.now().toString(36)}`, featureId: null, period: 'month', softLimitUSD: null, hardLimitUSD: null },
+    ]);
+
+    const updatePrice = (modelId: string, field: 'inputPerMillionUSD' | 'outputPerMillionUSD', value: string) => {
+        const price = parseFloat(value);
+        if (!Number.isFinite(price) || price < 0) return;
+        updateAiCostSettings({ prices: { ...costSettings.prices, [modelId]: { ...getAiModelPrice(modelId), [field]: price } } });
+    };
+
+    const resetPrice = (modelId: string) => {
+        const { [modelId]: _removed, ...prices } = costSettings.prices;
+        updateAiCostSettings({ prices });
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete every recorded AI call? Budgets and prices are kept.')) return;
+        try {
+            await clearAiUsage();
+            addNotification('AI usage history cleared.', 'success');
+        } catch (error) {
+            addNotification(error instanceof Error ? error.message : 'Could not clear the AI usage history.', 'error');
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col p-4 sm:p-6 lg:p-8 text-text-primary overflow-y-auto">
+            <header className="mb-6 flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold flex items-center">
+                        <ChartBarIcon />
+                        <span className="ml-3">AI Usage</span>
+                    </h1>
+                    <p className="text-text-secondary mt-1">Tokens, latency and estimated cost of every AI call, with budgets that warn or block once spent.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select value={range} onChange={e => setRange(e.target.value as UsageRange)} className="p-2 bg-surface border border-border rounded-md text-sm">
+                        {(Object.keys(RANGE_LABELS) as UsageRange[]).map(key => <option key={key} value={key}>{RANGE_LABELS[key]}</option>)}
+                    </select>
+                    <button onClick={handleClear} className="px-3 py-2 bg-surface border border-border rounded-md text-sm hover:text-red-500">Clear history</button>
+                </div>
+            </header>
+
+            {isLoading ? <div className="flex justify-center p-8"><LoadingSpinner /></div> : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            ['Calls', summary.total.calls.toLocaleString()],
+                            ['Tokens in', summary.total.promptTokens.toLocaleString()],
+                            ['Tokens out', summary.total.responseTokens.toLocaleString()],
+                            ['Estimated cost', formatUSD(summary.total.costUSD)],
+                        ].map(([label, value]) => (
+                            <div key={label} className="bg-surface border border-border rounded-lg p-4">
+                                <p className="text-sm text-text-secondary">{label}</p>
+                                <p className="text-2xl font-bold">{value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {estimatedShare > 0 && (
+                        <p className="text-xs text-text-secondary">
+                            {Math.round(estimatedShare * 100)}% of these calls went to providers that do not report token counts; their tokens are estimated from text length.
+                        </p>
+                    )}
+
+                    <UsageTable title="By Feature" rows={featureRows} label={featureName} />
+                    <UsageTable title="By Day" rows={dayRows} label={day => day} />
+
+                    <section className="bg-surface border border-border rounded-lg p-4">
+                        <div className="flex items-center justify-between mb-2">
+                            <h2 className="text-lg font-bold">Budgets</h2>
+                            <button onClick={addBudget} className="btn-primary px-3 py-1 text-sm">Add budget</button>
+                        </div>
+                        <p className="text-sm text-text-secondary mb-2">Past the warning limit you are notified once per period; past the block limit AI calls fail until the period ends or the limit is raised.</p>
+                        {costSettings.budgets.length === 0 && <p className="text-sm text-text-secondary">No budgets set.</p>}
+                        {costSettings.budgets.map((budget, index) => (
+                            <BudgetRow
+                                key={budget.id}
+                                budget={budget}
+                                status={budgetStatuses.find(status => status.budget.id === budget.id)}
+                                onChange={updated => updateBudgets(costSettings.budgets.map((b, i) => i === index ? updated : b))}
+                                onRemove={() => updateBudgets(costSettings.budgets.filter((_, i) => i !== index))}
+                            />
+                        ))}
+                    </section>
+
+                    <section className="bg-surface border border-border rounded-lg p-4">
+                        <h2 className="text-lg font-bold mb-2">Model Prices</h2>
+                        <p className="text-sm text-text-secondary mb-2">USD per million tokens. Changes apply to calls recorded from now on.</p>
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-text-secondary">
+                                <tr><th className="py-1">Model</th><th>Input</th><th>Output</th><th /></tr>
+                            </thead>
+                            <tbody>
+                                {modelIds.map(modelId => {
+                                    const price = getAiModelPrice(modelId);
+                                    return (
+                                        <tr key={modelId} className="border-t border-border">
+                                            <td className="py-1 pr-2 font-mono">{modelId}</td>
+                                            <td><input type="number" min="0" step="0.01" value={price.inputPerMillionUSD} onChange={e => updatePrice(modelId, 'inputPerMillionUSD', e.target.value)} className="w-24 p-1 bg-background border border-border rounded-md" /></td>
+                                            <td><input type="number" min="0" step="0.01" value={price.outputPerMillionUSD} onChange={e => updatePrice(modelId, 'outputPerMillionUSD', e.target.value)} className="w-24 p-1 bg-background border border-border rounded-md" /></td>
+                                            <td>{costSettings.prices[modelId] && <button onClick={() => resetPrice(modelId)} className="text-xs text-text-secondary hover:text-primary">Reset</button>}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </section>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,26 +1,156 @@
 // Copyright James Burvel O’Callaghan III
 // President Citibank Demo Business Inc.
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { generateMockData } from '../../services/aiService.ts';
-import { startMockServer, stopMockServer, setMockRoutes, isMockServerRunning } from '../../services/mocking/mockServer.ts';
-import { saveMockCollection, getAllMockCollections } from '../../services/mocking/db.ts';
-import { ServerStackIcon, SparklesIcon, PlusIcon } from '../icons.tsx';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { generateMockData } from '../../services/ai/index.ts';
+import {
+    startMockServer, stopMockServer, setMockRoutes, setMockResources, isMockServerRunning, subscribeToMockCollectionChanges,
+} from '../../services/mocking/mockServer.ts';
+import type { MockRoute, MockResource, MockHttpMethod, MockRequestPredicate } from '../../services/mocking/mockServer.ts';
+import { saveMockCollection, getAllMockCollections, resetMockCollectionToSeed } from '../../services/mocking/db.ts';
+import { parseOpenApiDocument, importOpenApi, exportOpenApi, serializeOpenApi } from '../../services/mocking/openApi.ts';
+import type { ExportableRoute } from '../../services/mocking/openApi.ts';
+import { validateAgainstSchema } from '../../services/mocking/jsonSchema.ts';
+import type { JsonSchema } from '../../services/mocking/jsonSchema.ts';
+import { downloadFile } from '../../services/fileUtils.ts';
+import { ServerStackIcon, SparklesIcon, PlusIcon, TrashIcon, Cog6ToothIcon, ArrowDownTrayIcon } from '../icons.tsx';
 import { LoadingSpinner } from '../shared/index.tsx';
 
 interface MockCollection {
     id: string;
     schemaDescription: string;
     data: any[];
+    seedData?: any[];
+    schemaDefinition?: JsonSchema;
 }
 
-interface MockRoute {
+interface RouteConfig {
     id: number;
     path: string;
-    method: 'GET' | 'POST';
+    method: MockHttpMethod | 'REST'; // REST serves the collection as a stateful CRUD resource
     collectionId: string;
+    status: number;
+    responseTemplate: string; // JSON; empty serves the collection data
+    queryMatch: string;       // e.g. "page=1&sort~^name&!debug"
+    headerMatch: string;
+    bodyContains: string;     // JSON deep-partial match
+    delayMs: number;
+    jitterMs: number;
+    errorRate: number;        // Percent, 0-100
+    operationId?: string;     // Set for routes imported from an OpenAPI spec
+    summary?: string;
+    responseSchema?: JsonSchema;
 }
 
+interface ImportReport {
+    title: string;
+    operationCount: number;
+    warnings: string[];
+}
+
+// The response template used for imported operations that return a single object.
+const FIRST_ITEM_TEMPLATE = JSON.stringify('{{data.collection.0}}');
+
+const HTTP_METHODS: RouteConfig['method'][] = ['REST', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const newRouteConfig = (overrides: Partial<RouteConfig>): RouteConfig => ({
+    id: Date.now(),
+    path: '/api/new-route',
+    method: 'GET',
+    collectionId: '',
+    status: 200,
+    responseTemplate: '',
+    queryMatch: '',
+    headerMatch: '',
+    bodyContains: '',
+    delayMs: 0,
+    jitterMs: 0,
+    errorRate: 0,
+    ...overrides,
+});
+
+// "name=value" must equal, "name~regex" must match, "!name" must be absent, "name" must be present.
+const parsePredicates = (text: string): MockRequestPredicate[] | undefined => {
+    const predicates = text.split('&').map(part => part.trim()).filter(Boolean).map((part): MockRequestPredicate => {
+        if (part.startsWith('!')) return { name: part.slice(1), present: false };
+        const regexAt = part.indexOf('~');
+        if (regexAt > 0) return { name: part.slice(0, regexAt), matches: part.slice(regexAt + 1) };
+        const equalsAt = part.indexOf('=');
+        if (equalsAt > 0) return { name: part.slice(0, equalsAt), equals: part.slice(equalsAt + 1) };
+        return { name: part, present: true };
+    });
+    return predicates.length ? predicates : undefined;
+};
+
+const parseJsonField = (label: string, text: string) => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error(`${label} is not valid JSON.`);
+    }
+};
+
+const toMockRoute = (route: RouteConfig, collections: MockCollection[]): MockRoute => {
+    const collection = collections.find(c => c.id === route.collectionId);
+    const collectionData = collection ? collection.data : { message: `No data found for collection '${route.collectionId}'.` };
+    return {
+        path: route.path,
+        method: route.method as MockHttpMethod,
+        query: parsePredicates(route.queryMatch),
+        headers: parsePredicates(route.headerMatch),
+        body: route.bodyContains.trim() ? { contains: parseJsonField(`Body match for ${route.path}`, route.bodyContains) } : undefined,
+        response: {
+            status: route.status,
+            body: route.responseTemplate.trim() ? parseJsonField(`Response template for ${route.path}`, route.responseTemplate) : collectionData,
+        },
+        templateData: { collection: collectionData },
+        delayMs: route.delayMs,
+        jitterMs: route.jitterMs,
+        errorRate: route.errorRate / 100,
+    };
+};
+
+// The body a route will serve, when it can be known without a request: the collection, its first
+// item, or a template without placeholders. Undefined for templated responses.
+const staticResponseBody = (route: RouteConfig, collections: MockCollection[]): any => {
+    const collection = collections.find(c => c.id === route.collectionId);
+    const template = route.responseTemplate.trim();
+    if (!template) return collection?.data;
+    if (template === FIRST_ITEM_TEMPLATE) return collection?.data[0];
+    if (template.includes('{{')) return undefined;
+    try {
+        return JSON.parse(template);
+    } catch {
+        return undefined;
+    }
+};
+
+const toExportableRoute = (route: RouteConfig, collections: MockCollection[]): ExportableRoute => {
+    let requestBodySample: any;
+    try {
+        requestBodySample = route.bodyContains.trim() ? JSON.parse(route.bodyContains) : undefined;
+    } catch {
+        requestBodySample = undefined;
+    }
+    return {
+        method: route.method,
+        path: route.path,
+        status: route.status,
+        operationId: route.operationId,
+        summary: route.summary,
+        responseSchema: route.method === 'REST' ? collections.find(c => c.id === route.collectionId)?.schemaDefinition : route.responseSchema,
+        sampleBody: route.method === 'REST' ? collections.find(c => c.id === route.collectionId)?.data : staticResponseBody(route, collections),
+        query: parsePredicates(route.queryMatch),
+        headers: parsePredicates(route.headerMatch),
+        requestBodySample,
+    };
+};
+
+const toMockResource = (route: RouteConfig): MockResource => ({
+    basePath: route.path,
+    collectionId: route.collectionId,
+});
+
 const exampleSchema = "a user with an id, name, email, and a nested address object containing a city and country";
 
 export const ApiMockGenerator: React.FC = () => {
@@ -33,7 +163,24 @@ export const ApiMockGenerator: React.FC = () => {
     const [isServerLoading, setIsServerLoading] = useState(false);
     const [error, setError] = useState('');
     const [isServerRunning, setIsServerRunning] = useState(isMockServerRunning());
-    const [routes, setRoutes] = useState<MockRoute[]>([{ id: 1, path: '/api/users', method: 'GET', collectionId: 'users' }]);
+    const [routes, setRoutes] = useState<RouteConfig[]>([newRouteConfig({ id: 1, path: '/api/users', collectionId: 'users' })]);
+    const [expandedRouteId, setExpandedRouteId] = useState<number | null>(null);
+    const [useAiValues, setUseAiValues] = useState(true);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+    // Responses that can be known ahead of time are checked against the schema declared in the spec.
+    const schemaErrors = useMemo(() => {
+        const errors = new Map<number, string[]>();
+        for (const route of routes) {
+            if (!route.responseSchema || route.method === 'REST') continue;
+            const body = staticResponseBody(route, collections);
+            if (body === undefined) continue;
+            const routeErrors = validateAgainstSchema(body, route.responseSchema);
+            if (routeErrors.length) errors.set(route.id, routeErrors);
+        }
+        return errors;
+    }, [routes, collections]);
 
     useEffect(() => {
         const loadCollections = async () => {
@@ -41,6 +188,8 @@ export const ApiMockGenerator: React.FC = () => {
             setCollections(storedCollections);
         };
         loadCollections();
+        // REST resources write to the collections from the service worker; keep the list current.
+        return subscribeToMockCollectionChanges(loadCollections);
     }, []);
 
     const handleGenerate = async () => {
@@ -54,7 +203,7 @@ export const ApiMockGenerator: React.FC = () => {
             const data = await generateMockData(schema, count);
             setGeneratedData(data);
             const collectionId = collectionName.toLowerCase().replace(/\s/g, '-');
-            await saveMockCollection({ id: collectionId, schemaDescription: schema, data });
+            await saveMockCollection({ id: collectionId, schemaDescription: schema, data, seedData: data });
             setCollections(await getAllMockCollections());
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to generate data.');
@@ -81,18 +230,13 @@ export const ApiMockGenerator: React.FC = () => {
     };
 
     const updateRoutesOnServer = useCallback(() => {
-        const mockRoutes = routes.map(route => {
-            const collection = collections.find(c => c.id === route.collectionId);
-            return {
-                path: route.path,
-                method: route.method,
-                response: {
-                    status: 200,
-                    body: collection ? collection.data : { message: `No data found for collection '${route.collectionId}'.` }
-                }
-            };
-        });
-        setMockRoutes(mockRoutes as any);
+        try {
+            setMockRoutes(routes.filter(route => route.method !== 'REST').map(route => toMockRoute(route, collections)));
+            setMockResources(routes.filter(route => route.method === 'REST').map(toMockResource));
+            setError('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid route configuration.');
+        }
     }, [routes, collections]);
 
 
@@ -102,18 +246,77 @@ export const ApiMockGenerator: React.FC = () => {
         }
     }, [routes, collections, isServerRunning, updateRoutesOnServer]);
 
-    const handleRouteUpdate = (id: number, field: keyof MockRoute, value: string) => {
+    const handleRouteUpdate = <K extends keyof RouteConfig>(id: number, field: K, value: RouteConfig[K]) => {
         setRoutes(routes.map(r => r.id === id ? { ...r, [field]: value } : r));
     };
 
     const handleAddRoute = () => {
-        const newRoute: MockRoute = {
-            id: Date.now(),
-            path: '/api/new-route',
-            method: 'GET',
-            collectionId: collections.length > 0 ? collections[0].id : ''
-        };
-        setRoutes([...routes, newRoute]);
+        setRoutes([...routes, newRouteConfig({ collectionId: collections.length > 0 ? collections[0].id : '' })]);
+    };
+
+    const handleRemoveRoute = (id: number) => {
+        setRoutes(routes.filter(r => r.id !== id));
+    };
+
+    const handleImportSpec = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        setError('');
+        setImportReport(null);
+        try {
+            const document = parseOpenApiDocument(await file.text());
+            const result = await importOpenApi(document, {
+                count,
+                realisticValues: useAiValues ? generateMockData : undefined,
+                existingCollectionIds: (await getAllMockCollections()).map(collection => collection.id),
+            });
+            for (const operation of result.operations) {
+                if (!operation.collectionId) continue;
+                await saveMockCollection({
+                    id: operation.collectionId,
+                    schemaDescription: operation.summary ?? `${operation.method} ${operation.path}`,
+                    data: operation.data,
+                    seedData: operation.data,
+                    schemaDefinition: operation.responseSchema,
+                });
+            }
+            setCollections(await getAllMockCollections());
+            setRoutes(current => [...current, ...result.operations.map((operation, i) => newRouteConfig({
+                id: Date.now() + i,
+                path: operation.path,
+                method: operation.method,
+                collectionId: operation.collectionId ?? '',
+                status: operation.status,
+                responseTemplate: !operation.collectionId ? 'null' : operation.isList ? '' : FIRST_ITEM_TEMPLATE,
+                operationId: operation.operationId,
+                summary: operation.summary,
+                responseSchema: operation.responseSchema,
+            }))]);
+            setImportReport({
+                title: result.title,
+                operationCount: result.operations.length,
+                warnings: [
+                    ...result.warnings,
+                    ...result.operations.flatMap(op => op.validationErrors.map(message => `${op.method} ${op.path} ${message}`)),
+                ],
+            });
+        } catch (err) {
+            setError(err instanceof Error ? `Could not import the spec: ${err.message}` : 'Could not import the spec.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleExportSpec = (format: 'json' | 'yaml') => {
+        const document = exportOpenApi(routes.map(route => toExportableRoute(route, collections)), 'Mock API');
+        downloadFile(serializeOpenApi(document, format), `mock-api.openapi.${format}`, format === 'json' ? 'application/json' : 'application/yaml');
+    };
+
+    const handleResetCollection = async (id: string) => {
+        await resetMockCollectionToSeed(id);
+        setCollections(await getAllMockCollections());
     };
     
     const getServerStatusText = () => {
@@ -134,7 +337,7 @@ export const ApiMockGenerator: React.FC = () => {
                 </button>
             </header>
             <div className="flex-grow grid grid-cols-1 lg:grid-cols-3 gap-6 min-h-0">
-                <div className="lg:col-span-1 flex flex-col gap-4 bg-surface p-4 border border-border rounded-lg">
+                <div className="lg:col-span-1 flex flex-col gap-4 bg-surface p-4 border border-border rounded-lg overflow-y-auto">
                     <h3 className="text-lg font-bold">1. Generate Data</h3>
                     <div><label className="text-sm">Describe the data schema</label><textarea value={schema} onChange={e => setSchema(e.target.value)} className="w-full mt-1 p-2 bg-background border border-border rounded" rows={4}/></div>
                     <div className="flex gap-2">
@@ -142,6 +345,25 @@ export const ApiMockGenerator: React.FC = () => {
                         <div><label className="text-sm">Count</label><input type="number" value={count} onChange={e => setCount(Number(e.target.value))} className="w-20 mt-1 p-2 bg-background border border-border rounded"/></div>
                     </div>
                     <button onClick={handleGenerate} disabled={isLoading} className="btn-primary py-2 flex items-center justify-center gap-2">{isLoading ? <LoadingSpinner/> : <><SparklesIcon/> Generate & Save</>}</button>
+                    <h3 className="text-lg font-bold mt-2">or Import OpenAPI</h3>
+                    <label className="flex items-center gap-2 text-sm">
+                        <input type="checkbox" checked={useAiValues} onChange={e => setUseAiValues(e.target.checked)} />
+                        Use AI for realistic values
+                    </label>
+                    <label className={`py-2 text-center border border-border rounded cursor-pointer bg-background ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+                        {isImporting ? 'Importing...' : 'Choose OpenAPI 3 file (JSON or YAML)'}
+                        <input type="file" accept=".json,.yaml,.yml" onChange={handleImportSpec} className="hidden" />
+                    </label>
+                    {importReport && (
+                        <div className="text-xs p-2 bg-background border border-border rounded">
+                            <p>Imported {importReport.operationCount} operations from <strong>{importReport.title}</strong>.</p>
+                            {importReport.warnings.map((warning, i) => <p key={i} className="text-yellow-600">{warning}</p>)}
+                        </div>
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={() => handleExportSpec('json')} disabled={routes.length === 0} className="flex-1 py-1 text-sm border border-border rounded flex items-center justify-center gap-1 disabled:opacity-50"><ArrowDownTrayIcon/> Export JSON</button>
+                        <button onClick={() => handleExportSpec('yaml')} disabled={routes.length === 0} className="flex-1 py-1 text-sm border border-border rounded flex items-center justify-center gap-1 disabled:opacity-50"><ArrowDownTrayIcon/> Export YAML</button>
+                    </div>
                     {error && <p className="text-red-500 text-xs">{error}</p>}
                 </div>
 
@@ -151,19 +373,48 @@ export const ApiMockGenerator: React.FC = () => {
                         <div className="flex-grow grid grid-cols-2 gap-4 min-h-0">
                             <div className="overflow-y-auto">
                                 <h4 className="font-semibold text-sm mb-1">Saved Collections</h4>
-                                {collections.map(c => <div key={c.id} className="text-xs p-2 bg-background rounded border border-border mb-1">{c.id} ({c.data.length} items)</div>)}
+                                {collections.map(c => (
+                                <div key={c.id} className="flex items-center justify-between text-xs p-2 bg-background rounded border border-border mb-1">
+                                    <span>{c.id} ({c.data.length} items)</span>
+                                    {c.seedData && <button onClick={() => handleResetCollection(c.id)} title="Discard changes made through REST routes" className="text-primary hover:underline">Reset to seed</button>}
+                                </div>
+                                ))}
                                 <h4 className="font-semibold text-sm mb-1 mt-2">Last Generated Data</h4>
                                 <pre className="text-xs p-2 bg-background rounded border border-border whitespace-pre-wrap">{generatedData ? JSON.stringify(generatedData, null, 2) : 'No data generated yet.'}</pre>
                             </div>
                             <div className="overflow-y-auto">
                                 <h4 className="font-semibold text-sm mb-1">Mock Routes</h4>
                                 {routes.map((r) => (
-                                <div key={r.id} className="grid grid-cols-3 gap-1 items-center mb-1">
-                                    <input type="text" value={r.path} onChange={e => handleRouteUpdate(r.id, 'path', e.target.value)} className="col-span-2 p-1 text-xs bg-background border rounded" />
-                                    <select value={r.collectionId} onChange={e => handleRouteUpdate(r.id, 'collectionId', e.target.value)} className="p-1 text-xs bg-background border rounded">
-                                        <option value="">Select Collection</option>
-                                        {collections.map(c => <option key={c.id} value={c.id}>{c.id}</option>)}
-                                    </select>
+                                <div key={r.id} className="mb-2">
+                                    <div className="flex gap-1 items-center">
+                                        <select value={r.method} onChange={e => handleRouteUpdate(r.id, 'method', e.target.value as RouteConfig['method'])} className="p-1 text-xs bg-background border rounded">
+                                            {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                                        </select>
+                                        <input type="text" value={r.path} onChange={e => handleRouteUpdate(r.id, 'path', e.target.value)} placeholder="/api/users/:id" className="flex-grow min-w-0 p-1 text-xs bg-background border rounded font-mono" />
+                                        <select value={r.collectionId} onChange={e => handleRouteUpdate(r.id, 'collectionId', e.target.value)} className="p-1 text-xs bg-background border rounded">
+                                            <option value="">Select Collection</option>
+                                            {collections.map(c => <option key={c.id} value={c.id}>{c.id}</option>)}
+                                        </select>
+                                        <button onClick={() => setExpandedRouteId(expandedRouteId === r.id ? null : r.id)} disabled={r.method === 'REST'} title="Matching, templating & latency" className="p-1 rounded hover:bg-gray-100"><Cog6ToothIcon/></button>
+                                        <button onClick={() => handleRemoveRoute(r.id)} title="Remove route" className="p-1 rounded hover:bg-gray-100"><TrashIcon/></button>
+                                    </div>
+                                    {r.summary && <p className="text-xs text-text-secondary mt-1 truncate">{r.summary}</p>}
+                                    {schemaErrors.get(r.id)?.map((message, i) => <p key={i} className="text-xs text-red-500">{message}</p>)}
+                                    {r.method === 'REST' && <p className="text-xs text-text-secondary mt-1 font-mono">GET/POST {r.path} · GET/PUT/PATCH/DELETE {r.path}/:id · ?_page&_limit&_sort&_order&q&field=value</p>}
+                                    {expandedRouteId === r.id && r.method !== 'REST' && (
+                                    <div className="grid grid-cols-2 gap-1 mt-1 p-2 bg-background border border-border rounded text-xs">
+                                        <label className="col-span-2">Query match <input type="text" value={r.queryMatch} onChange={e => handleRouteUpdate(r.id, 'queryMatch', e.target.value)} placeholder="page=1&sort~^name&!debug" className="w-full p-1 bg-surface border rounded font-mono" /></label>
+                                        <label className="col-span-2">Header match <input type="text" value={r.headerMatch} onChange={e => handleRouteUpdate(r.id, 'headerMatch', e.target.value)} placeholder="authorization~^Bearer " className="w-full p-1 bg-surface border rounded font-mono" /></label>
+                                        <label className="col-span-2">Body contains (JSON) <input type="text" value={r.bodyContains} onChange={e => handleRouteUpdate(r.id, 'bodyContains', e.target.value)} placeholder='{"role":"admin"}' className="w-full p-1 bg-surface border rounded font-mono" /></label>
+                                        <label className="col-span-2">Response template (JSON, blank = collection)
+                                            <textarea value={r.responseTemplate} onChange={e => handleRouteUpdate(r.id, 'responseTemplate', e.target.value)} placeholder='{"id":"{{params.id}}","name":"{{body.name}}","items":"{{data.collection}}"}' rows={3} className="w-full p-1 bg-surface border rounded font-mono" />
+                                        </label>
+                                        <label>Status <input type="number" value={r.status} onChange={e => handleRouteUpdate(r.id, 'status', Number(e.target.value))} className="w-full p-1 bg-surface border rounded" /></label>
+                                        <label>Error rate % <input type="number" min={0} max={100} value={r.errorRate} onChange={e => handleRouteUpdate(r.id, 'errorRate', Math.min(100, Math.max(0, Number(e.target.value))))} className="w-full p-1 bg-surface border rounded" /></label>
+                                        <label>Delay ms <input type="number" min={0} value={r.delayMs} onChange={e => handleRouteUpdate(r.id, 'delayMs', Math.max(0, Number(e.target.value)))} className="w-full p-1 bg-surface border rounded" /></label>
+                                        <label>Jitter ms <input type="number" min={0} value={r.jitterMs} onChange={e => handleRouteUpdate(r.id, 'jitterMs', Math.max(0, Number(e.target.value)))} className="w-full p-1 bg-surface border rounded" /></label>
+                                    </div>
+                                    )}
                                 </div>
                                 ))}
                                 <button onClick={handleAddRoute} className="text-xs mt-2 p-1 bg-gray-100 rounded hover:bg-gray-200"><PlusIcon/></button>
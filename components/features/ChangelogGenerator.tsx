@@ -1,52 +1,177 @@
 // Copyright James Burvel O’Callaghan III
 // President Citibank Demo Business Inc.
 
-import React, { useState, useCallback } from 'react';
-import { generateChangelogFromLogStream } from '../../services/aiService.ts';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useGlobalState } from '../../contexts/GlobalStateContext.tsx';
+import { useOctokit } from '../../contexts/OctokitContext.tsx';
+import { polishChangelogWording } from '../../services/ai/index.ts';
+import {
+    commitFiles, compareCommits, getBranches, getFileIfExists, getPullRequestsForCommits, getRepos, getTags, resolveRef,
+} from '../../services/githubService.ts';
+import type { BranchSummary, TagSummary } from '../../services/githubService.ts';
+import {
+    UNRELEASED, buildChangelogRelease, mergeIntoChangelog, releaseLinkDefinition, renderChangelogRelease,
+} from '../../services/changelog/keepAChangelog.ts';
+import type { ChangelogCommitInput } from '../../services/changelog/keepAChangelog.ts';
+import type { Repo } from '../../types.ts';
 import { GitBranchIcon } from '../icons.tsx';
 import { LoadingSpinner } from '../shared/index.tsx';
 import { MarkdownRenderer } from '../shared/index.tsx';
 
-const exampleLog = `commit 3a4b5c...
-Author: Dev One <dev.one@example.com>
-Date:   Mon Jul 15 11:30:00 2024 -0400
+const CHANGELOG_PATH = 'CHANGELOG.md';
 
-    feat: add user login page
-
-commit 1a2b3c...
-Author: Dev Two <dev.two@example.com>
-Date:   Mon Jul 15 10:00:00 2024 -0400
-
-    fix: correct typo in header
-`;
+interface FetchedRange {
+    repoUrl: string;
+    fromRef: string;
+    toRef: string;
+    commits: ChangelogCommitInput[];
+}
 
 export const ChangelogGenerator: React.FC = () => {
-    const [log, setLog] = useState(exampleLog);
-    const [changelog, setChangelog] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
+    const { state } = useGlobalState();
+    const { octokit } = useOctokit();
+
+    const [repos, setRepos] = useState<Repo[]>([]);
+    const [repoFullName, setRepoFullName] = useState(state.selectedRepo?.full_name ?? '');
+    const [branches, setBranches] = useState<BranchSummary[]>([]);
+    const [tags, setTags] = useState<TagSummary[]>([]);
+    const [fromRef, setFromRef] = useState('');
+    const [toRef, setToRef] = useState('');
+    const [versionOverride, setVersionOverride] = useState('');
+    const [includeOtherTypes, setIncludeOtherTypes] = useState(false);
+    const [range, setRange] = useState<FetchedRange | null>(null);
+    const [wording, setWording] = useState<Record<string, string>>({});
+    const [targetBranch, setTargetBranch] = useState('');
+    const [busy, setBusy] = useState<'fetch' | 'polish' | 'commit' | null>(null);
     const [error, setError] = useState('');
+    const [commitUrl, setCommitUrl] = useState('');
+
+    const repo = repos.find(r => r.full_name === repoFullName);
+
+    useEffect(() => {
+        if (!octokit) return;
+        getRepos(octokit)
+            .then(list => {
+                setRepos(list);
+                setRepoFullName(current => list.some(r => r.full_name === current) ? current : list[0]?.full_name ?? '');
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load repositories.'));
+    }, [octokit]);
+
+    // New repo: list its refs and start from the latest tag up to the default branch
+    useEffect(() => {
+        if (!octokit || !repo) return;
+        let cancelled = false;
+        setRange(null);
+        setCommitUrl('');
+        Promise.all([getBranches(octokit, repo.owner.login, repo.name), getTags(octokit, repo.owner.login, repo.name)])
+            .then(([branchList, tagList]) => {
+                if (cancelled) return;
+                setBranches(branchList);
+                setTags(tagList);
+                setFromRef(tagList[0]?.name ?? '');
+                setToRef(repo.default_branch ?? branchList[0]?.name ?? '');
+                setTargetBranch(repo.default_branch ?? branchList[0]?.name ?? '');
+            })
+            .catch(err => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load branches and tags.');
+            });
+        return () => { cancelled = true; };
+    }, [octokit, repo]);
+
+    const release = useMemo(() => range && buildChangelogRelease(range.commits, {
+        repoUrl: range.repoUrl,
+        fromRef: range.fromRef,
+        toRef: range.toRef,
+        version: versionOverride,
+        includeOtherTypes,
+    }), [range, versionOverride, includeOtherTypes]);
+
+    const preview = useMemo(
+        () => release ? `${renderChangelogRelease(release, wording)}\n${releaseLinkDefinition(release)}\n` : '',
+        [release, wording]
+    );
 
-    const handleGenerate = useCallback(async () => {
-        if (!log.trim()) {
-            setError('Please paste your git log output.');
+    const handleFetch = useCallback(async () => {
+        if (!octokit || !repo || !fromRef.trim() || !toRef.trim()) {
+            setError('Choose a repository and both refs.');
             return;
         }
-        setIsLoading(true);
+        const owner = repo.owner.login;
+        setBusy('fetch');
         setError('');
-        setChangelog('');
+        setCommitUrl('');
         try {
-            const stream = generateChangelogFromLogStream(log);
-            let fullResponse = '';
-            for await (const chunk of stream) {
-                fullResponse += chunk;
-                setChangelog(fullResponse);
+            const [from, to] = await Promise.all([resolveRef(octokit, owner, repo.name, fromRef.trim()), resolveRef(octokit, owner, repo.name, toRef.trim())]);
+            const comparison = await compareCommits(octokit, owner, repo.name, from.sha, to.sha);
+            if (comparison.status === 'behind') {
+                throw new Error(`${to.name} is behind ${from.name}; the older ref goes in "From".`);
             }
+            const shas = comparison.commits.filter(commit => commit.parentCount === 1).map(commit => commit.sha);
+            const pullRequests = await getPullRequestsForCommits(octokit, owner, repo.name, shas);
+            setRange({
+                repoUrl: repo.html_url,
+                fromRef: from.name,
+                toRef: to.name,
+                commits: comparison.commits.map(commit => ({
+                    sha: commit.sha,
+                    message: commit.message,
+                    htmlUrl: commit.htmlUrl,
+                    parentCount: commit.parentCount,
+                    pullRequests: pullRequests.get(commit.sha) ?? [],
+                })),
+            });
+            setWording({});
+            if (to.kind === 'branch') setTargetBranch(to.name);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            setError(err instanceof Error ? err.message : 'Failed to load the commit range.');
         } finally {
-            setIsLoading(false);
+            setBusy(null);
         }
-    }, [log]);
+    }, [octokit, repo, fromRef, toRef]);
+
+    const handlePolish = useCallback(async () => {
+        if (!release?.entries.length) return;
+        setBusy('polish');
+        setError('');
+        try {
+            const polished = await polishChangelogWording(release.entries.map(entry => ({ id: entry.id, text: entry.text })));
+            setWording(Object.fromEntries(polished.map(entry => [entry.id, entry.text])));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The AI could not reword the entries.');
+        } finally {
+            setBusy(null);
+        }
+    }, [release]);
+
+    const handleCommit = useCallback(async () => {
+        if (!octokit || !repo || !release || !targetBranch.trim()) return;
+        const owner = repo.owner.login;
+        setBusy('commit');
+        setError('');
+        setCommitUrl('');
+        try {
+            const branch = await resolveRef(octokit, owner, repo.name, targetBranch.trim());
+            if (branch.kind !== 'branch') throw new Error(`'${targetBranch}' is not a branch.`);
+            const existing = await getFileIfExists(octokit, owner, repo.name, CHANGELOG_PATH, branch.sha);
+            if (existing && existing.text === null) throw new Error(`${CHANGELOG_PATH} is a binary file.`);
+            const content = mergeIntoChangelog(existing?.text ?? null, release, wording);
+            const message = release.version === UNRELEASED ? 'docs(changelog): update unreleased changes' : `docs(changelog): release ${release.version}`;
+            // Pinned to the head we read, so a concurrent push fails instead of being overwritten
+            setCommitUrl((await commitFiles(octokit, owner, repo.name, [{ path: CHANGELOG_PATH, content }], message, branch.name, branch.sha)).commitUrl);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Commit failed.');
+        } finally {
+            setBusy(null);
+        }
+    }, [octokit, repo, release, wording, targetBranch]);
+
+    if (!octokit) {
+        return <div className="h-full flex items-center justify-center text-text-secondary">Connect your GitHub account to build a changelog from a repository.</div>;
+    }
+
+    const inputClass = 'w-full mt-1 px-3 py-2 rounded-md bg-surface border border-border text-sm';
+    const previousVersion = release?.previousVersion;
 
     return (
         <div className="h-full flex flex-col p-4 sm:p-6 lg:p-8 text-text-primary">
@@ -55,33 +180,94 @@ export const ChangelogGenerator: React.FC = () => {
                     <GitBranchIcon />
                     <span className="ml-3">AI Changelog Generator</span>
                 </h1>
-                <p className="text-text-secondary mt-1">Generate a markdown changelog from your raw git log.</p>
+                <p className="text-text-secondary mt-1">Build a Keep a Changelog release from the Conventional Commits between two refs.</p>
             </header>
             <div className="flex-grow flex flex-col gap-4 min-h-0">
-                <div className="flex flex-col flex-1 min-h-0">
-                    <label htmlFor="commit-input" className="text-sm font-medium text-text-secondary mb-2">Raw Git Log</label>
-                    <textarea
-                        id="commit-input"
-                        value={log}
-                        onChange={(e) => setLog(e.target.value)}
-                        className="flex-grow p-4 bg-surface border border-border rounded-md resize-none font-mono text-sm"
-                    />
-                </div>
-                <div className="flex-shrink-0">
-                    <button onClick={handleGenerate} disabled={isLoading} className="btn-primary w-full max-w-xs mx-auto flex items-center justify-center px-6 py-3">
-                        {isLoading ? <LoadingSpinner /> : 'Generate Changelog'}
-                    </button>
-                </div>
-                <div className="flex flex-col flex-1 min-h-0">
-                    <label className="text-sm font-medium text-text-secondary mb-2">Generated Changelog.md</label>
-                    <div className="relative flex-grow p-4 bg-background border border-border rounded-md overflow-y-auto">
-                        {isLoading && !changelog && <div className="flex items-center justify-center h-full"><LoadingSpinner /></div>}
-                        {error && <p className="text-red-500">{error}</p>}
-                        {changelog && <MarkdownRenderer content={changelog} />}
-                        {!isLoading && changelog && <button onClick={() => navigator.clipboard.writeText(changelog)} className="absolute top-2 right-2 px-2 py-1 bg-gray-100 text-xs rounded-md hover:bg-gray-200">Copy</button>}
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 flex-shrink-0">
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary">Repository</label>
+                        <select value={repoFullName} onChange={e => setRepoFullName(e.target.value)} className={inputClass}>
+                            {repos.map(r => <option key={r.full_name} value={r.full_name}>{r.full_name}</option>)}
+                        </select>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary">From (older tag or SHA)</label>
+                        <input type="text" list="changelog-refs" value={fromRef} onChange={e => setFromRef(e.target.value)} placeholder="v1.2.0" className={`${inputClass} font-mono`} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-text-secondary">To (newer ref)</label>
+                        <input type="text" list="changelog-refs" value={toRef} onChange={e => setToRef(e.target.value)} placeholder="main" className={`${inputClass} font-mono`} />
+                    </div>
+                    <div className="flex items-end">
+                        <button onClick={handleFetch} disabled={busy !== null || !repo} className="btn-primary w-full flex items-center justify-center px-6 py-2">
+                            {busy === 'fetch' ? <LoadingSpinner /> : 'Load Commits'}
+                        </button>
+                    </div>
+                    <datalist id="changelog-refs">
+                        {tags.map(tag => <option key={`tag:${tag.name}`} value={tag.name} />)}
+                        {branches.map(branch => <option key={`branch:${branch.name}`} value={branch.name} />)}
+                    </datalist>
                 </div>
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                {release && (
+                    <>
+                        <div className="flex flex-wrap items-end gap-4 flex-shrink-0">
+                            <div>
+                                <label className="block text-sm font-medium text-text-secondary">Version</label>
+                                <input type="text" value={versionOverride} onChange={e => setVersionOverride(e.target.value)}
+                                       placeholder={release.version === UNRELEASED ? 'e.g. 1.0.0' : release.version} className={`${inputClass} font-mono w-36`} />
+                            </div>
+                            <p className="text-sm text-text-secondary pb-2">
+                                {range!.commits.length} commit(s), {release.entries.length} listed. Suggested bump: <span className="font-semibold text-text-primary">{release.bump}</span>
+                                {previousVersion && release.bump !== 'none' && <> ({previousVersion} → {release.version})</>}
+                                {!previousVersion && <> ("From" is not a semver tag, so no version is suggested)</>}
+                            </p>
+                            <label className="flex items-center gap-2 text-sm pb-2">
+                                <input type="checkbox" checked={includeOtherTypes} onChange={e => setIncludeOtherTypes(e.target.checked)} />
+                                List docs, chore and non-conventional commits
+                            </label>
+                            <div className="flex gap-2 ml-auto">
+                                <button onClick={handlePolish} disabled={busy !== null || !release.entries.length} className="btn-secondary px-4 py-2 text-sm flex items-center gap-2">
+                                    {busy === 'polish' ? <LoadingSpinner /> : 'Polish Wording with AI'}
+                                </button>
+                                {Object.keys(wording).length > 0 && <button onClick={() => setWording({})} className="btn-secondary px-4 py-2 text-sm">Original Wording</button>}
+                            </div>
+                        </div>
+
+                        {release.skipped.length > 0 && (
+                            <details className="text-sm flex-shrink-0">
+                                <summary className="cursor-pointer text-text-secondary">{release.skipped.length} commit(s) not listed</summary>
+                                <ul className="mt-2 space-y-1 font-mono text-xs">
+                                    {release.skipped.map(commit => (
+                                        <li key={commit.sha}><span className="text-text-secondary">{commit.sha.slice(0, 7)}</span> {commit.subject} <span className="text-text-secondary">({commit.reason})</span></li>
+                                    ))}
+                                </ul>
+                            </details>
+                        )}
+
+                        <div className="flex flex-col flex-1 min-h-0">
+                            <label className="text-sm font-medium text-text-secondary mb-2">{CHANGELOG_PATH} section</label>
+                            <div className="relative flex-grow p-4 bg-background border border-border rounded-md overflow-y-auto">
+                                <MarkdownRenderer content={preview} />
+                                <button onClick={() => navigator.clipboard.writeText(preview)} className="absolute top-2 right-2 px-2 py-1 bg-gray-100 text-xs rounded-md hover:bg-gray-200">Copy</button>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+                            <label className="text-sm text-text-secondary">Commit {CHANGELOG_PATH} to</label>
+                            <select value={targetBranch} onChange={e => setTargetBranch(e.target.value)} className="px-3 py-2 rounded-md bg-surface border border-border text-sm">
+                                {branches.map(branch => <option key={branch.name} value={branch.name}>{branch.name}</option>)}
+                            </select>
+                            <button onClick={handleCommit} disabled={busy !== null} className="btn-primary px-4 py-2 text-sm flex items-center gap-2">
+                                {busy === 'commit' ? <LoadingSpinner /> : 'Commit'}
+                            </button>
+                            {commitUrl && <a href={commitUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-primary underline">View commit</a>}
+                        </div>
+                    </>
+                )}
             </div>
         </div>
     );
-};
\ No newline at end of file
+};
@@ -2,7 +2,8 @@
 // President Citibank Demo Business Inc.
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { reviewCodeStream } from '../../services/index.ts';
+import { reviewCodeStructured } from '../../services/ai/index.ts';
+import type { StructuredReview, StructuredReviewSuggestion } from '../../types.ts';
 import { useAiPersonalities } from '../../hooks/useAiPersonalities.ts';
 import { formatSystemPromptToString } from '../../utils/promptUtils.ts';
 import { CpuChipIcon, Cog6ToothIcon, ClockIcon, FolderIcon, LightBulbIcon, CheckCircleIcon, ExclamationCircleIcon, ChartBarIcon, DocumentTextIcon, BugAntIcon, RocketLaunchIcon, ShieldCheckIcon, AdjustmentsHorizontalIcon, CodeBracketIcon, ServerStackIcon, WalletIcon, BellAlertIcon, ArchiveBoxIcon, PlusCircleIcon, TrashIcon, CloudArrowUpIcon, ShareIcon, MegaphoneIcon, BookOpenIcon, UserGroupIcon, GlobeAltIcon, PuzzlePieceIcon, FingerPrintIcon } from '../icons.tsx'; // Expanded icons for new features
@@ -1128,6 +1129,48 @@ function getUserData(username) {
 }
 `;
 
+// The review comes back as a validated StructuredReview; these map its suggestions onto the bot's own categories.
+const REVIEW_CATEGORY_MAP: Record<StructuredReviewSuggestion['category'], ReviewCategory> = {
+    performance: ReviewCategory.PERFORMANCE,
+    security: ReviewCategory.SECURITY,
+    maintainability: ReviewCategory.MAINTAINABILITY,
+    readability: ReviewCategory.READABILITY,
+    bug_risk: ReviewCategory.ERROR_HANDLING,
+    architectural: ReviewCategory.SCALABILITY,
+    ethical_ai: ReviewCategory.BEST_PRACTICES,
+    quantum_optimization: ReviewCategory.PERFORMANCE,
+};
+
+const SUGGESTION_TYPE_MAP: Partial<Record<StructuredReviewSuggestion['category'], SuggestionType>> = {
+    performance: SuggestionType.PERFORMANCE_IMPROVEMENT,
+    security: SuggestionType.SECURITY_PATCH,
+    readability: SuggestionType.STYLE_FIX,
+    bug_risk: SuggestionType.FIX_BUG,
+};
+
+const toCodeSuggestion = (raw: StructuredReviewSuggestion, reviewedCode: string, index: number): CodeSuggestion => {
+    // Locate the quoted code in the reviewed source; a quote the model paraphrased falls back to line 1.
+    const offset = raw.codeBlock ? reviewedCode.indexOf(raw.codeBlock) : -1;
+    const startLine = offset >= 0 ? reviewedCode.slice(0, offset).split('\n').length : 1;
+    return {
+        id: `sugg-${Date.now()}-${index}`,
+        type: SUGGESTION_TYPE_MAP[raw.category] ?? SuggestionType.REFACTOR,
+        category: REVIEW_CATEGORY_MAP[raw.category] ?? ReviewCategory.BEST_PRACTICES,
+        title: raw.suggestion,
+        description: raw.explanation,
+        codeSnippet: { code: raw.codeBlock, startLine, endLine: startLine + Math.max(raw.codeBlock.split('\n').length - 1, 0) },
+        suggestedFix: raw.suggestedFix,
+        severity: raw.severity === 'cosmetic' ? 'info' : raw.severity === 'existential_threat' ? 'critical' : raw.severity,
+        confidence: raw.confidence >= 0.75 ? 'high' : raw.confidence >= 0.4 ? 'medium' : 'low',
+        relatedCriteriaIds: [],
+        status: 'pending',
+        comments: [],
+    };
+};
+
+const formatReviewMarkdown = (result: StructuredReview): string =>
+    result.overallScore === undefined ? result.summary : `${result.summary}\n\n**Overall score:** ${result.overallScore}/100`;
+
 /**
  * @function CodeReviewBot
  * @description The flagship AI Code Review application, built by Citibank Demo Business Inc.
@@ -1302,58 +1345,11 @@ export const CodeReviewBot: React.FC = () => {
         });
 
         try {
-            // Using `reviewCodeStream` (which would be augmented to support multi-model via a backend gateway)
-            const stream = reviewCodeStream(code, systemInstruction, selectedAiModel.provider);
-            let fullResponse = '';
-            let rawSuggestions: any[] = []; // Temporary storage for AI's structured suggestions
-            for await (const chunk of stream) {
-                fullResponse += chunk;
-                // Enhanced parsing for streaming responses. This is a complex problem,
-                // simplified for demonstration. A real system would use a robust JSON/YAML parser
-                // or a custom streaming protocol to extract structured data.
-                if (fullResponse.includes('```json')) {
-                    // Attempt to parse JSON suggestions embedded in the markdown
-                    const jsonStartIndex = fullResponse.indexOf('```json');
-                    const jsonEndIndex = fullResponse.indexOf('```', jsonStartIndex + 7);
-                    if (jsonStartIndex !== -1 && jsonEndIndex !== -1) {
-                        const jsonString = fullResponse.substring(jsonStartIndex + 7, jsonEndIndex);
-                        try {
-                            const parsedSuggestions = JSON.parse(jsonString);
-                            if (Array.isArray(parsedSuggestions)) {
-                                rawSuggestions = parsedSuggestions; // Update raw suggestions
-                            }
-                        } catch (parseError) {
-                            console.warn("Failed to parse AI suggestions JSON chunk:", parseError);
-                        }
-                    }
-                }
-                setReview(fullResponse);
-            }
-
-            // After stream completes, finalize suggestions parsing and add to state
-            if (rawSuggestions.length > 0) {
-                const processedSuggestions: CodeSuggestion[] = rawSuggestions.map(raw => ({
-                    id: `sugg-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-                    type: SuggestionType[raw.type as keyof typeof SuggestionType] || SuggestionType.REFACTOR,
-                    category: ReviewCategory[raw.category as keyof typeof ReviewCategory] || ReviewCategory.BEST_PRACTICES,
-                    title: raw.title || 'AI Suggestion',
-                    description: raw.description || 'No description provided.',
-                    codeSnippet: {
-                        code: raw.codeSnippet?.code || '',
-                        filePath: raw.codeSnippet?.filePath,
-                        startLine: raw.codeSnippet?.startLine || 1,
-                        endLine: raw.codeSnippet?.endLine || 1,
-                    },
-                    suggestedFix: raw.suggestedFix,
-                    severity: raw.severity || 'info',
-                    confidence: raw.confidence || 'medium',
-                    relatedCriteriaIds: raw.relatedCriteriaIds || [],
-                    status: 'pending',
-                    comments: [],
-                }));
-                setGeneratedSuggestions(processedSuggestions);
-            }
-
+            // The provider is the one selected for the code review bot in Settings.
+            const result = await reviewCodeStructured(code, systemInstruction);
+            const processedSuggestions = result.suggestions.map((raw, index) => toCodeSuggestion(raw, code, index));
+            setReview(formatReviewMarkdown(result));
+            setGeneratedSuggestions(processedSuggestions);
 
             // Simulate cost calculation and report generation
             const finalReport: CodeReviewReport = {
@@ -1361,18 +1357,18 @@ export const CodeReviewBot: React.FC = () => {
                 reviewTimestamp: new Date(),
                 reviewedByAiModel: selectedAiModel.id,
                 reviewedCode: code,
-                reviewSummary: fullResponse.substring(0, Math.min(fullResponse.length, 500)) + '...', // Truncate for summary
-                totalSuggestions: generatedSuggestions.length,
-                suggestions: generatedSuggestions,
+                reviewSummary: result.summary,
+                totalSuggestions: processedSuggestions.length,
+                suggestions: processedSuggestions,
                 metrics: {
                     linesReviewed: code.split('\n').length,
                     cyclomaticComplexity: Math.floor(Math.random() * 20) + 1, // Mock metric
                     cognitiveComplexity: Math.floor(Math.random() * 15) + 1,
                     maintainabilityIndex: Math.floor(Math.random() * 100),
                     technicalDebtEstimateHours: parseFloat((Math.random() * 5).toFixed(1)),
-                    securityVulnerabilitiesCount: generatedSuggestions.filter(s => s.category === ReviewCategory.SECURITY).length,
-                    performanceBottlenecksCount: generatedSuggestions.filter(s => s.category === ReviewCategory.PERFORMANCE).length,
-                    readabilityIssuesCount: generatedSuggestions.filter(s => s.category === ReviewCategory.READABILITY).length,
+                    securityVulnerabilitiesCount: processedSuggestions.filter(s => s.category === ReviewCategory.SECURITY).length,
+                    performanceBottlenecksCount: processedSuggestions.filter(s => s.category === ReviewCategory.PERFORMANCE).length,
+                    readabilityIssuesCount: processedSuggestions.filter(s => s.category === ReviewCategory.READABILITY).length,
                     testCoveragePercentage: Math.floor(Math.random() * 100),
                 },
                 sentimentScore: parseFloat((Math.random() * 2 - 1).toFixed(2)), // -1 to 1
@@ -1407,7 +1403,7 @@ export const CodeReviewBot: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [code, selectedPersonalityId, personalities, selectedAiModel, enableContextualReview, projectContext, enabledReviewCriteria, services, addReviewReport, addAuditLog, generatedSuggestions]);
+    }, [code, selectedPersonalityId, personalities, selectedAiModel, enableContextualReview, projectContext, enabledReviewCriteria, services, addReviewReport, addAuditLog]);
 
     /**
      * @function handleAcceptSuggestion
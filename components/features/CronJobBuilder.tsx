@@ -5,6 +5,14 @@ import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { CommandLineIcon, SparklesIcon } from '../icons.tsx';
 import { generateCronFromDescription, CronParts } from '../../services/index.ts';
 import { LoadingSpinner } from '../shared/index.tsx';
+import { parseCronExpression, CRON_DIALECT_LABELS } from '../../services/cron/cronExpression.ts';
+import type { CronDialect } from '../../services/cron/cronExpression.ts';
+import { nextCronRun, nextCronRuns, isValidTimeZone } from '../../services/cron/cronSchedule.ts';
+import type { CronRun } from '../../services/cron/cronSchedule.ts';
+import { describeCronSchedule } from '../../services/cron/cronDescription.ts';
+import { exportCronJob, CRON_EXPORT_TARGET_LABELS } from '../../services/cron/cronExporters.ts';
+import type { CronExportTarget } from '../../services/cron/cronExporters.ts';
+import { downloadFile } from '../../services/fileUtils.ts';
 
 // --- STORY OF INVENTION & ARCHITECTURAL OVERVIEW ---
 // The year is 2024. As President O’Callaghan of Citibank Demo Business Inc.,
@@ -1259,6 +1267,187 @@ export const CostEstimationDisplay: React.FC<{ cost?: CostEstimation, onRecalcul
     );
 };
 
+/**
+ * @feature CronSchedulePreview - Local cron engine: validation, plain-English description and upcoming runs.
+ * @description Parses Unix, seconds, Quartz and EventBridge expressions without calling the AI and lists the next
+ * runs in the job's IANA timezone, flagging runs that daylight saving changes move or repeat.
+ */
+export const CronSchedulePreview: React.FC<{
+    expression: string, // The visual builder's five-field expression
+    onExpressionChange: (parts: CronParts) => void, // Called when a valid five-field Unix expression is typed
+    timezone: string,
+    onTimezoneChange: (timezone: string) => void,
+}> = ({ expression, onExpressionChange, timezone, onTimezoneChange }) => {
+    const [draft, setDraft] = useState(expression);
+    const [dialect, setDialect] = useState<CronDialect | 'auto'>('auto');
+    const [runCount, setRunCount] = useState(10);
+
+    // Follow the visual builder unless the draft already says the same thing
+    useEffect(() => {
+        setDraft(prev => prev.trim().split(/\s+/).join(' ') === expression ? prev : expression);
+    }, [expression]);
+
+    const preview = useMemo(() => {
+        try {
+            const schedule = parseCronExpression(draft, dialect === 'auto' ? undefined : dialect);
+            const description = describeCronSchedule(schedule);
+            if (!isValidTimeZone(timezone)) {
+                return { schedule, description, runs: [] as CronRun[], error: `Unknown timezone "${timezone}". Use an IANA name such as America/New_York.` };
+            }
+            const runs = nextCronRuns(schedule, { timeZone: timezone, count: runCount });
+            return { schedule, description, runs, error: runs.length === 0 ? 'This schedule never fires.' : null };
+        } catch (e: any) {
+            return { schedule: null, description: null, runs: [] as CronRun[], error: e.message as string };
+        }
+    }, [draft, dialect, timezone, runCount]);
+
+    const handleDraftChange = (value: string) => {
+        setDraft(value);
+        if (dialect !== 'auto' && dialect !== 'unix') return;
+        const fields = value.trim().split(/\s+/);
+        if (fields.length !== 5) return;
+        try {
+            parseCronExpression(value, 'unix');
+        } catch {
+            return; // Keep the builder on its last valid expression while the draft is being edited
+        }
+        const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+        onExpressionChange({ minute, hour, dayOfMonth, month, dayOfWeek });
+    };
+
+    return (
+        <div className="space-y-4 bg-surface border border-border rounded-lg p-4">
+            <h3 className="text-xl font-semibold">Schedule Preview</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-text-secondary">Expression</label>
+                    <input type="text" value={draft} onChange={e => handleDraftChange(e.target.value)} spellCheck={false}
+                           placeholder="e.g., 0 9 * * 1-5, 0 0 12 ? * 6L or cron(0 18 ? * MON-FRI *)"
+                           className={`w-full mt-1 px-3 py-2 rounded-md bg-surface border ${preview.schedule ? 'border-border' : 'border-red-500'} font-mono text-sm`}/>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary">Dialect</label>
+                    <select value={dialect} onChange={e => setDialect(e.target.value as CronDialect | 'auto')} className="w-full mt-1 px-3 py-2 rounded-md bg-surface border border-border text-sm">
+                        <option value="auto">Auto-detect</option>
+                        {(Object.keys(CRON_DIALECT_LABELS) as CronDialect[]).map(d => <option key={d} value={d}>{CRON_DIALECT_LABELS[d]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-text-secondary">Timezone (IANA)</label>
+                    <input type="text" value={timezone} onChange={e => onTimezoneChange(e.target.value)}
+                           placeholder="e.g., Europe/London" className="w-full mt-1 px-3 py-2 rounded-md bg-surface border border-border text-sm"/>
+                </div>
+            </div>
+
+            {preview.schedule && (
+                <p className="text-sm">
+                    <span className="font-semibold">{preview.description}</span>
+                    <span className="text-text-tertiary"> ({CRON_DIALECT_LABELS[preview.schedule.dialect]}{dialect === 'auto' ? ', detected' : ''})</span>
+                </p>
+            )}
+            {preview.schedule && preview.schedule.dialect !== 'unix' && (
+                <p className="text-xs text-text-secondary">Only five-field Unix expressions update the visual builder; this one is previewed only.</p>
+            )}
+            {preview.error && <p className="text-red-500 text-sm">{preview.error}</p>}
+
+            {preview.runs.length > 0 && (
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-medium text-text-secondary">Next runs in {timezone}</h4>
+                        <select value={runCount} onChange={e => setRunCount(Number(e.target.value))} className="px-2 py-1 rounded-md bg-surface border border-border text-xs">
+                            {[5, 10, 25, 50].map(n => <option key={n} value={n}>{n} runs</option>)}
+                        </select>
+                    </div>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-text-secondary border-b border-border">
+                                <th className="py-1 pr-4 font-medium">Local time</th>
+                                <th className="py-1 pr-4 font-medium">UTC offset</th>
+                                <th className="py-1 pr-4 font-medium">UTC</th>
+                                <th className="py-1 font-medium">Daylight saving</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {preview.runs.map(run => (
+                                <tr key={run.at.getTime()} className="border-b border-border last:border-b-0">
+                                    <td className="py-1 pr-4 font-mono">{run.localTime}</td>
+                                    <td className="py-1 pr-4 font-mono">{run.utcOffset}</td>
+                                    <td className="py-1 pr-4 font-mono text-text-secondary">{run.at.toISOString()}</td>
+                                    <td className="py-1 text-xs text-yellow-600">{run.dstNote ?? ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * @feature CronExportPanel - Exports the job to Kubernetes, GitHub Actions, systemd or crontab.
+ * @description Generates the target's files from the schedule and execution settings, and lists every setting the
+ * target cannot honour so nothing is lost without the user knowing.
+ */
+export const CronExportPanel: React.FC<{ job: CronJobDefinition, expression: string }> = ({ job, expression }) => {
+    const [target, setTarget] = useState<CronExportTarget>('kubernetes');
+    const [copiedPath, setCopiedPath] = useState<string | null>(null);
+
+    const result = useMemo(() => {
+        try {
+            const exported = exportCronJob({
+                name: job.metadata.name,
+                description: job.metadata.description,
+                expression,
+                timezone: job.advancedScheduling.timezone,
+                execution: job.executionConfig,
+                notifications: job.notificationConfig,
+            }, target);
+            return { exported, error: null };
+        } catch (e: any) {
+            return { exported: null, error: e.message as string };
+        }
+    }, [job.metadata.name, job.metadata.description, expression, job.advancedScheduling.timezone, job.executionConfig, job.notificationConfig, target]);
+
+    const handleCopy = (path: string, content: string) => {
+        navigator.clipboard.writeText(content);
+        setCopiedPath(path);
+        setTimeout(() => setCopiedPath(current => current === path ? null : current), 2000);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-4">
+                <label className="text-sm font-medium text-text-secondary">Export to</label>
+                <select value={target} onChange={e => setTarget(e.target.value as CronExportTarget)} className="px-3 py-2 rounded-md bg-surface border border-border text-sm">
+                    {(Object.keys(CRON_EXPORT_TARGET_LABELS) as CronExportTarget[]).map(t => <option key={t} value={t}>{CRON_EXPORT_TARGET_LABELS[t]}</option>)}
+                </select>
+            </div>
+            {result.error && <p className="text-red-500 text-sm">Cannot export: {result.error}</p>}
+            {result.exported && result.exported.warnings.length > 0 && (
+                <div className="bg-yellow-500/10 border border-yellow-500/50 rounded-lg p-3">
+                    <h4 className="text-sm font-semibold text-yellow-600 mb-1">Not fully supported by {CRON_EXPORT_TARGET_LABELS[target]}</h4>
+                    <ul className="list-disc list-inside text-sm space-y-1">
+                        {result.exported.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                </div>
+            )}
+            {result.exported?.files.map(file => (
+                <div key={file.path} className="bg-surface border border-border rounded-lg">
+                    <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+                        <span className="font-mono text-sm">{file.path}</span>
+                        <div className="flex gap-2">
+                            <button onClick={() => handleCopy(file.path, file.content)} className="btn-secondary px-3 py-1 text-xs">{copiedPath === file.path ? 'Copied' : 'Copy'}</button>
+                            <button onClick={() => downloadFile(file.content, file.path.split('/').pop()!)} className="btn-secondary px-3 py-1 text-xs">Download</button>
+                        </div>
+                    </div>
+                    <pre className="p-3 text-xs font-mono overflow-x-auto whitespace-pre">{file.content}</pre>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 /**
  * @feature DeploymentHistoryViewer - Displays a log of past deployments.
  * @description Provides version control and rollback capabilities.
@@ -1401,6 +1590,24 @@ const getInitialCronJobDefinition = (prompt?: string, user?: UserContextType): C
     };
 };
 
+// --- AI RESULT VALIDATION (Feature 384) ---
+// The AI's cron parts are only accepted once the local cron engine has parsed them and found an upcoming run.
+const CRON_PART_KEYS: (keyof CronParts)[] = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+const checkAiCronParts = (parts: CronParts, timezone: string): string | null => {
+    if (!parts || CRON_PART_KEYS.some(key => typeof parts[key] !== 'string' || !parts[key].trim())) {
+        return 'the response is missing one or more cron fields.';
+    }
+    const expression = CRON_PART_KEYS.map(key => parts[key].trim()).join(' ');
+    try {
+        const schedule = parseCronExpression(expression, 'unix');
+        if (isValidTimeZone(timezone) && !nextCronRun(schedule, timezone)) return `"${expression}" never fires.`;
+    } catch (e: any) {
+        return `"${expression}" is not a valid cron expression (${e.message}).`;
+    }
+    return null;
+};
+
 // --- MAIN CRON JOB BUILDER COMPONENT (Expanded) ---
 // This is where all the invented features converge.
 export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPrompt }) => {
@@ -1417,7 +1624,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
     const [isLoadingCostEstimate, setIsLoadingCostEstimate] = useState(false); // For cost estimation
     const [isSaving, setIsSaving] = useState(false); // For saving job
     const [isDeploying, setIsDeploying] = useState(false); // For deploying job
-    const [currentTab, setCurrentTab] = useState<'schedule' | 'metadata' | 'execution' | 'notifications' | 'security' | 'advanced' | 'analysis' | 'history'>(initialPrompt ? 'analysis' : 'schedule'); // Feature #361: Tabbed interface
+    const [currentTab, setCurrentTab] = useState<'schedule' | 'metadata' | 'execution' | 'notifications' | 'security' | 'advanced' | 'analysis' | 'history' | 'export'>('schedule'); // Feature #361: Tabbed interface
 
     const featureAdvancedSchedulingEnabled = useFeatureFlag('advancedScheduling'); // Feature #362: Feature flag for advanced scheduling
     const featureAiAssistantEnabled = useFeatureFlag('aiAssistant'); // Feature #363: Feature flag for AI assistant
@@ -1454,9 +1661,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
                     metadata: { ...prev.metadata, ...newDef.metadata, id: prev.metadata.id } // Preserve existing ID
                 };
             });
-            if (initialPrompt) {
-                handleAiGenerate(initialPrompt);
-            }
+            // The prompt only prefills the description; generating the schedule is left to the AI Generate button.
         }
     }, [initialPrompt, user]);
 
@@ -1475,6 +1680,12 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
         }));
     }, []);
 
+    // Extract cron parts for display and useMemo (declared before the callbacks that depend on them)
+    const { minute, hour, dayOfMonth, month, dayOfWeek } = jobDefinition.cronParts;
+    const cronExpression = useMemo(() => {
+        return `${minute} ${hour} ${dayOfMonth} ${month} ${dayOfWeek}`;
+    }, [minute, hour, dayOfMonth, month, dayOfWeek]);
+
     // Original handleAiGenerate logic, now using the `aiOrchestration` service
     const handleAiGenerate = useCallback(async (p: string) => { // Feature #366: AI-powered cron generation
         if (!p) return;
@@ -1482,6 +1693,12 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
         try {
             await auditLog.logAction(user?.userId || 'unknown', 'AI_GENERATE_CRON', jobDefinition.metadata.id, { prompt: p }); // Feature #367: Audit logging
             const result: CronParts = await aiOrchestration.generateCronFromDescription(p, 'Gemini'); // Using Gemini for cron parsing
+            const rejection = checkAiCronParts(result, jobDefinition.advancedScheduling.timezone);
+            if (rejection) {
+                await auditLog.logAction(user?.userId || 'unknown', 'AI_GENERATE_CRON_REJECTED', jobDefinition.metadata.id, { prompt: p, reason: rejection });
+                notificationGateway.sendAlert('warn', `AI cron result rejected: ${rejection}`, 'dev_alerts');
+                return;
+            }
             updateJobDefinition({
                 cronParts: result,
                 metadata: { description: p } // Update description to reflect prompt
@@ -1492,7 +1709,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
         } finally {
             setIsLoadingAi(false);
         }
-    }, [aiOrchestration, updateJobDefinition, jobDefinition.metadata.id, auditLog, user, notificationGateway]);
+    }, [aiOrchestration, updateJobDefinition, jobDefinition.metadata.id, jobDefinition.advancedScheduling.timezone, auditLog, user, notificationGateway]);
 
 
     // Feature #369: AI Analysis Trigger
@@ -1596,6 +1813,8 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
 
             await auditLog.logAction(user.userId, 'DEPLOY_JOB', jobDefinition.metadata.id, { environment: jobDefinition.metadata.environment, version: jobDefinition.metadata.version });
             const deployResult = await deployment.deployJob(jobDefinition.metadata.id, jobDefinition.metadata.environment);
+            const timezone = jobDefinition.advancedScheduling.timezone;
+            const nextRun = isValidTimeZone(timezone) ? nextCronRun(parseCronExpression(cronExpression, 'unix'), timezone) : null;
             updateJobDefinition(prev => ({
                 ...prev,
                 deploymentHistory: [...prev.deploymentHistory, {
@@ -1606,7 +1825,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
                     changes: `Deployed version ${prev.metadata.version} to ${prev.metadata.environment}`,
                     status: 'Success' // Assume success for mock, real world would poll status
                 }],
-                metadata: { ...prev.metadata, status: 'Scheduled', lastRunAt: undefined, nextRunAt: undefined }
+                metadata: { ...prev.metadata, status: 'Scheduled', lastRunAt: undefined, nextRunAt: nextRun?.at.toISOString() }
             }));
             alert(`Job "${jobDefinition.metadata.name}" deployed to ${jobDefinition.metadata.environment} successfully!`);
             notificationGateway.sendNotification(
@@ -1633,7 +1852,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
         } finally {
             setIsDeploying(false);
         }
-    }, [jobDefinition, user, auditLog, deployment, workflowApproval, identityAndAccess, updateJobDefinition, notificationGateway]);
+    }, [jobDefinition, cronExpression, user, auditLog, deployment, workflowApproval, identityAndAccess, updateJobDefinition, notificationGateway]);
 
 
     // Feature #375: Rollback to a previous version
@@ -1690,12 +1909,6 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
     }, [jobDefinition, user, auditLog, versionControl, updateJobDefinition, notificationGateway, identityAndAccess]);
 
 
-    // Extract cron parts for display and useMemo
-    const { minute, hour, dayOfMonth, month, dayOfWeek } = jobDefinition.cronParts;
-    const cronExpression = useMemo(() => {
-        return `${minute} ${hour} ${dayOfMonth} ${month} ${dayOfWeek}`;
-    }, [minute, hour, dayOfMonth, month, dayOfWeek]);
-
     // Feature #376: Helper to check specific permissions
     const canSave = user?.permissions.includes('cronjob:update');
     const canDeploy = user?.permissions.includes('cronjob:deploy');
@@ -1712,6 +1925,14 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
                         <CronPartSelector label="Day (Month)" value={dayOfMonth} onChange={v => updateJobDefinition({ cronParts: { dayOfMonth: v } })} options={Array.from({length: 31}, (_, i) => i + 1)} description="1-31, 1,15" allowRange allowStep allowList />
                         <CronPartSelector label="Month" value={month} onChange={v => updateJobDefinition({ cronParts: { month: v } })} options={Array.from({length: 12}, (_, i) => i + 1)} description="1-12 (or JAN-DEC), */3" allowRange allowStep allowList />
                         <CronPartSelector label="Day (Week)" value={dayOfWeek} onChange={v => updateJobDefinition({ cronParts: { dayOfWeek: v } })} options={Array.from({length: 7}, (_, i) => i)} description="0-6 (SUN-SAT), 1-5 (weekdays)" allowRange allowStep allowList />
+                        <div className="md:col-span-2 lg:col-span-5">
+                            <CronSchedulePreview
+                                expression={cronExpression}
+                                onExpressionChange={parts => updateJobDefinition({ cronParts: parts })}
+                                timezone={jobDefinition.advancedScheduling.timezone}
+                                onTimezoneChange={timezone => updateJobDefinition({ advancedScheduling: { timezone } })}
+                            />
+                        </div>
                     </div>
                 );
             case 'metadata':
@@ -1740,10 +1961,12 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
                 );
             case 'history':
                 return <DeploymentHistoryViewer history={jobDefinition.deploymentHistory} onRollback={handleRollback} canRollback={canRollback} />;
+            case 'export':
+                return <CronExportPanel job={jobDefinition} expression={cronExpression} />;
             default:
                 return null;
         }
-    }, [currentTab, minute, hour, dayOfMonth, month, dayOfWeek, updateJobDefinition, jobDefinition,
+    }, [currentTab, minute, hour, dayOfMonth, month, dayOfWeek, cronExpression, updateJobDefinition, jobDefinition,
         featureAdvancedSchedulingEnabled, featureAiAssistantEnabled, runAiAnalysis, isLoadingAiAnalysis,
         recalculateCost, isLoadingCostEstimate, handleRollback, canRollback, featureCostEstimationEnabled]);
 
@@ -1780,7 +2003,7 @@ export const CronJobBuilder: React.FC<{ initialPrompt?: string }> = ({ initialPr
 
             {/* Feature #380: Tab Navigation */}
             <nav className="flex space-x-4 border-b border-border mb-6 overflow-x-auto pb-2">
-                {['schedule', 'metadata', 'execution', 'notifications', 'security', 'advanced', 'analysis', 'history'].map(tab => (
+                {['schedule', 'metadata', 'execution', 'notifications', 'security', 'advanced', 'analysis', 'history', 'export'].map(tab => (
                     <button
                         key={tab}
                         className={`px-4 py-2 text-sm font-medium rounded-t-md whitespace-nowrap
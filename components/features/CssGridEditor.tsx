@@ -27,7 +27,8 @@ import {
     PhotoIcon, LinkIcon, BeakerIcon, ChartBarIcon, FingerPrintIcon,
     WalletIcon, GlobeAltIcon, SunIcon, MoonIcon, CodeBracketIcon
 } from '../icons.tsx'; // Leveraging an expanded internal icon library
-import { downloadFile, uploadFileService, fetchProjectData, saveProjectData, validateCssSyntax, optimizeCssCode, formatCssCode } from '../../services/index.ts'; // Expanded service integrations
+import { downloadFile, uploadFileService, fetchProjectData, saveProjectData } from '../../services/index.ts'; // Expanded service integrations
+import { compile as compileScss } from '../../services/styles/scssCompiler.ts';
 
 // --- [INVENTION 1: Global Application Configuration and Environment Management] ---
 // We introduce a robust configuration system that abstracts environment-specific variables
@@ -900,23 +901,32 @@ export const generateCssFromSettings = (settings: GridBreakpointSettings, items:
     return `.grid-container {\n${containerProps.join('\n')}\n}${itemCss}`;
 };
 
+// Plain CSS is valid SCSS, so the SCSS compiler both validates the grid CSS and reprints it in expanded style.
+const compileGridCss = (css: string): { css: string; errors: string[] } => {
+    const result = compileScss({ 'grid.css': css }, 'grid.css');
+    return {
+        css: result.css,
+        errors: result.errors.map(error => `Line ${error.line ?? '?'}:${error.column ?? '?'} ${error.message}`),
+    };
+};
+
 export const formatAndValidateCss = async (css: string, autoFix: boolean = false): Promise<{ formattedCss: string; isValid: boolean; errors: string[]; }> => {
     telemetry.log(LogLevel.DEBUG, 'Formatting and validating CSS', { autoFix });
     try {
-        const formattedCss = await formatCssCode(css);
-        const validationResult = await validateCssSyntax(formattedCss);
-        let errors = validationResult.errors || [];
-        let isValid = errors.length === 0;
+        const compiled = compileGridCss(css);
+        const formattedCss = compiled.errors.length === 0 ? compiled.css : css;
+        const errors = compiled.errors;
+        const isValid = errors.length === 0;
 
         if (autoFix && !isValid) {
             telemetry.log(LogLevel.INFO, 'Attempting AI-powered CSS auto-fix');
             const aiResponse = await chatGptClient.optimizeCss(formattedCss);
             if (aiResponse.success && aiResponse.data) {
                 const fixedCss = aiResponse.data as string;
-                const reValidation = await validateCssSyntax(fixedCss);
-                if (reValidation.errors && reValidation.errors.length === 0) {
+                const reValidation = compileGridCss(fixedCss);
+                if (reValidation.errors.length === 0) {
                     telemetry.log(LogLevel.INFO, 'AI successfully auto-fixed CSS');
-                    return { formattedCss: fixedCss, isValid: true, errors: [] };
+                    return { formattedCss: reValidation.css, isValid: true, errors: [] };
                 } else {
                     telemetry.log(LogLevel.WARN, 'AI auto-fix attempted but still found errors', { errors: reValidation.errors });
                     return { formattedCss: fixedCss, isValid: false, errors: reValidation.errors };
@@ -9,6 +9,7 @@ import * as Diff from 'diff';
 import { applySpecificRefactor, refactorForPerformance, refactorForReadability, generateJsDoc, convertToFunctionalComponent } from '../../services/aiService.ts';
 import { SparklesIcon } from '../icons.tsx';
 import { LoadingSpinner } from '../shared/index.tsx';
+import { WorkingCopyBar } from './shared/WorkingCopyBar.tsx';
 
 // BEGIN: NEW EXTERNAL SERVICE IMPORTS (Up to 1000 services are permitted to be integrated)
 // This section showcases a strategic integration with a multitude of advanced services to provide a truly comprehensive solution.
@@ -1150,6 +1151,10 @@ export const OneClickRefactor: React.FC = () => {
                     )}
                 </header>
 
+                <div className="mb-4">
+                    <WorkingCopyBar featureId="one-click-refactor" code={refactoredCode || code} onLoad={content => { setCode(content); setRefactoredCode(''); }} />
+                </div>
+
                 {/* Invented: Refactor action buttons with expanded options */}
                 <div className="flex items-center justify-center flex-wrap gap-2 mb-4 p-4 bg-surface rounded-lg border border-border">
                     {/* Basic Refactor Actions */}
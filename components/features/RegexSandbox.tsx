@@ -24,6 +24,14 @@ import React, { useState, useMemo, useCallback, useEffect, createContext, useCon
 import { generateRegExStream } from '../../services/aiService.ts'; // Initial AI service for regex generation
 import { BeakerIcon } from '../icons.tsx';
 import { LoadingSpinner } from '../shared/index.tsx';
+import { buildFeatureLink } from '../../services/routerService.ts';
+import { runRegexJob, RegexTimeoutError } from '../../services/regex/regexRunner.ts';
+import type { SerializedMatch } from '../../services/regex/regexJobs.ts';
+import type { ReDoSFinding, ReDoSReport } from '../../services/regex/redosAnalyzer.ts';
+import { EMPTY_TEST_SUITE, listCaptureGroups } from '../../services/regex/regexTestSuite.ts';
+import type { RegexCaseResult, RegexSuiteRun, RegexTestSuite } from '../../services/regex/regexTestSuite.ts';
+import { checkDialectCompatibility, REGEX_DIALECT_LABELS } from '../../services/regex/dialectCompat.ts';
+import type { RegexDialect } from '../../services/regex/dialectCompat.ts';
 // New icons and components for enhanced functionality
 import {
     SaveIcon, ShareIcon, HistoryIcon, SettingsIcon, EyeIcon, EyeOffIcon, CodeIcon,
@@ -116,6 +124,7 @@ export interface RegexPattern {
         lastBenchmarked: string;
     };
     securityScanStatus?: 'safe' | 'warning' | 'critical' | 'pending';
+    testSuite?: RegexTestSuite;
 }
 
 export interface RegexMatchResult extends RegExpMatchArray {
@@ -306,25 +315,32 @@ const NotificationService = {
     // ... functions for email, SMS integration
 };
 
+// Hard deadlines for work sent to the regex worker while ReDoS protection is on
+const REGEX_MATCH_TIMEOUT_MS = 1000;
+const REGEX_SUITE_TIMEOUT_MS = 2000;
+const REGEX_PROFILE_TIMEOUT_MS = 10000;
+const REDOS_SCAN_TIMEOUT_MS = 5000;
+
 /**
  * @external ReDoSSecurityScanner
- * @description Scans regex patterns for potential Regular Expression Denial of Service vulnerabilities. Part of Project Sentinel.
+ * @description Statically scans regex literals for Regular Expression Denial of Service: nested or overlapping quantifiers
+ * that backtrack exponentially or polynomially, each reported with an attack string. Runs in the regex worker. Part of Project Sentinel.
  */
 const ReDoSSecurityScanner = {
-    scan: async (pattern: string): Promise<{ isVulnerable: boolean; score: number; report: string }> => {
-        console.log(`[ReDoSSecurityScanner] Scanning pattern for ReDoS: "${pattern}"`);
-        await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-        const score = Math.random();
-        const isVulnerable = score < 0.3; // Simulate vulnerability detection
-        TelemetryService.trackEvent('redos_scan_performed', { isVulnerable });
-        return {
-            isVulnerable,
-            score: parseFloat(score.toFixed(2)),
-            report: isVulnerable ? `Potential ReDoS detected. Complexity score: ${score.toFixed(2)}. Suggest avoiding nested quantifiers on non-fixed length patterns like '(${pattern})*'.` : `No immediate ReDoS vulnerability detected. Score: ${score.toFixed(2)}.`
-        };
+    scan: async (pattern: string, signal?: AbortSignal): Promise<ReDoSReport> => {
+        const patternParts = pattern.match(/^\/(.*)\/([gimyus]*)$/);
+        if (!patternParts) throw new Error('Invalid regex literal. Use /pattern/flags.');
+        const [, regexBody, regexFlags] = patternParts;
+        const { report } = await runRegexJob({ kind: 'analyze', source: regexBody, flags: regexFlags }, { timeoutMs: REDOS_SCAN_TIMEOUT_MS, signal });
+        TelemetryService.trackEvent('redos_scan_performed', { isVulnerable: !report.safe, findings: report.findings.length });
+        return report;
     }
 };
 
+/** Rebuilds a RegExpMatchArray-shaped result from a match returned by a regex job. */
+const toMatchResult = (match: SerializedMatch, input: string, executionTimeMs: number, threadId: string): RegexMatchResult =>
+    Object.assign([...match.values], { index: match.index, input, groups: match.groups, executionTimeMs, threadId, nodeId: 'browser-instance' }) as RegexMatchResult;
+
 /**
  * @external AuditLogService
  * @description Centralized logging for all user actions and system events, critical for compliance. Part of Project Chronicle.
@@ -465,7 +481,7 @@ const CheatSheet: React.FC = () => {
  * Implements local storage persistence and basic search.
  * Developed by 'Chronicle' team.
  */
-export const RegexHistory: React.FC<{ onSelectPattern: (pattern: string) => void }> = ({ onSelectPattern }) => {
+export const RegexHistory: React.FC<{ onSelectPattern: (pattern: string, testSuite?: RegexTestSuite) => void }> = ({ onSelectPattern }) => {
     const { settings } = useAppSettings();
     const [history, setHistory] = useState<RegexPattern[]>([]);
     const [historySearchTerm, setHistorySearchTerm] = useState('');
@@ -540,7 +556,7 @@ export const RegexHistory: React.FC<{ onSelectPattern: (pattern: string) => void
             <div className="max-h-60 overflow-y-auto custom-scrollbar pr-2">
                 {filteredHistory.length > 0 ? (
                     filteredHistory.map((entry, index) => (
-                        <div key={entry.id || index} className="p-2 border-b border-border last:border-b-0 hover:bg-background cursor-pointer" onClick={() => onSelectPattern(entry.pattern)}>
+                        <div key={entry.id || index} className="p-2 border-b border-border last:border-b-0 hover:bg-background cursor-pointer" onClick={() => onSelectPattern(entry.pattern, entry.testSuite)}>
                             <p className="text-sm font-medium text-text-primary flex items-center justify-between">
                                 <span>{entry.name || `Unnamed Pattern ${index + 1}`}</span>
                                 <span className="text-xs text-text-secondary">{new Date(entry.lastUsed).toLocaleDateString()}</span>
@@ -1214,31 +1230,26 @@ export const RegexPerformanceProfiler: React.FC<{ pattern: string; testString: s
                 throw new Error('Invalid regex literal for profiling.');
             }
             const [, regexBody, regexFlags] = patternParts;
-            const regex = new RegExp(regexBody, regexFlags);
+
+            // With ReDoS protection on, every iteration runs in the regex worker under a single deadline
+            const { timesMs, matchesPerRun } = await runRegexJob(
+                { kind: 'profile', source: regexBody, flags: regexFlags, input: testString, iterations },
+                { timeoutMs: REGEX_PROFILE_TIMEOUT_MS, isolated: settings.enableReDoSProtection },
+            );
 
             let totalTime = 0;
             let minTime = Infinity;
             let maxTime = 0;
-            let totalMatches = 0;
             const warnings: string[] = [];
 
-            const runSingleMatch = () => {
-                const start = performance.now();
-                const matches = [...testString.matchAll(regex)];
-                const end = performance.now();
-                return { time: end - start, matchesCount: matches.length };
-            };
-
-            for (let i = 0; i < iterations; i++) {
-                const { time, matchesCount } = runSingleMatch();
+            timesMs.forEach((time, i) => {
                 totalTime += time;
                 minTime = Math.min(minTime, time);
                 maxTime = Math.max(maxTime, time);
-                totalMatches += matchesCount;
                 if (time > 100 && iterations > 10) { // Arbitrary threshold for warning
                     warnings.push(`Iteration ${i + 1} took ${time.toFixed(2)}ms, consider reducing iterations or optimizing pattern.`);
                 }
-            }
+            });
 
             const avgTime = totalTime / iterations;
 
@@ -1256,7 +1267,7 @@ export const RegexPerformanceProfiler: React.FC<{ pattern: string; testString: s
                 avgTimeMs: avgTime,
                 minTimeMs: minTime,
                 maxTimeMs: maxTime,
-                matchesFound: totalMatches / iterations, // Average matches per run
+                matchesFound: matchesPerRun, // Average matches per run
                 inputLength: testString.length,
                 cpuUsagePercent: 20 + Math.random() * 50, // Simulated
                 memoryUsageMB: 5 + Math.random() * 15, // Simulated
@@ -1274,7 +1285,7 @@ export const RegexPerformanceProfiler: React.FC<{ pattern: string; testString: s
         } finally {
             setIsProfiling(false);
         }
-    }, [pattern, testString, iterations, settings.enablePerformanceProfiling, settings.aiEngine]);
+    }, [pattern, testString, iterations, settings.enablePerformanceProfiling, settings.enableReDoSProtection, settings.aiEngine]);
 
     if (!settings.enablePerformanceProfiling) {
         return (
@@ -1447,6 +1458,12 @@ export const RegexVisualizer: React.FC<{ pattern: string }> = ({ pattern }) => {
     );
 };
 
+// Engines the exported snippets run on, for dialect compatibility warnings
+const SNIPPET_LANGUAGE_DIALECTS: Partial<Record<AppSettings['codeSnippetLanguage'], RegexDialect>> = {
+    python: 'python',
+    go: 're2',
+};
+
 /**
  * @component CodeSnippetGenerator
  * @description Generates ready-to-use code snippets for the current regex pattern in various languages.
@@ -1457,6 +1474,18 @@ export const CodeSnippetGenerator: React.FC<{ pattern: string }> = ({ pattern })
     const [generatedCode, setGeneratedCode] = useState<string>('');
     const [isGenerating, setIsGenerating] = useState(false);
 
+    // Differences between the JavaScript pattern and the engine the snippet would run on
+    const snippetDialect = SNIPPET_LANGUAGE_DIALECTS[settings.codeSnippetLanguage];
+    const snippetWarnings = useMemo(() => {
+        const patternParts = pattern.match(/^\/(.*)\/([gimyus]*)$/);
+        if (!snippetDialect || !patternParts) return [];
+        try {
+            return checkDialectCompatibility(patternParts[1], patternParts[2]).filter(warning => warning.dialect === snippetDialect);
+        } catch {
+            return []; // Syntax errors are reported by the matcher
+        }
+    }, [pattern, snippetDialect]);
+
     const generateSnippet = useCallback(async () => {
         if (!pattern) {
             setGeneratedCode('Enter a pattern to generate code.');
@@ -1557,19 +1586,268 @@ export const CodeSnippetGenerator: React.FC<{ pattern: string }> = ({ pattern })
                     <CopyIcon className="w-4 h-4" />
                 </button>
             </div>
+            {snippetDialect && snippetWarnings.length > 0 && (
+                <div className="p-2 rounded-md border text-xs bg-yellow-100 border-yellow-400 text-yellow-800">
+                    <p className="font-semibold mb-1">This pattern behaves differently in {REGEX_DIALECT_LABELS[snippetDialect]}:</p>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                        {snippetWarnings.map((warning, i) => (
+                            <li key={i}>{warning.excerpt && <code className="font-mono mr-1">{warning.excerpt}</code>}{warning.message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             {isGenerating && <LoadingSpinner />}
         </div>
     );
 };
 
 
+const TestResultBadge: React.FC<{ result?: RegexCaseResult }> = ({ result }) => (
+    result
+        ? <span className={`text-xs font-semibold ${result.passed ? 'text-green-600' : 'text-red-500'}`}>{result.passed ? 'PASS' : 'FAIL'}</span>
+        : <span className="text-xs text-text-tertiary">-</span>
+);
+
+/**
+ * @component RegexTestSuitePanel
+ * @description The test suite saved with the current pattern: strings that must match (with expected capture
+ * values) and strings that must not, re-run on every edit, plus replace and split previews and dialect
+ * compatibility warnings for the exported snippets.
+ */
+export const RegexTestSuitePanel: React.FC<{
+    pattern: string;
+    testString: string;
+    suite: RegexTestSuite;
+    onSuiteChange: (suite: RegexTestSuite) => void;
+}> = ({ pattern, testString, suite, onSuiteChange }) => {
+    const { settings } = useAppSettings();
+    const [run, setRun] = useState<RegexSuiteRun | null>(null);
+    const [runError, setRunError] = useState<string | null>(null);
+
+    const patternParts = useMemo(() => pattern.match(/^\/(.*)\/([gimyus]*)$/), [pattern]);
+
+    const captureGroups = useMemo(() => {
+        if (!patternParts) return [];
+        try {
+            return listCaptureGroups(patternParts[1], patternParts[2]);
+        } catch {
+            return [];
+        }
+    }, [patternParts]);
+
+    const dialectWarnings = useMemo(() => {
+        if (!patternParts) return [];
+        try {
+            return checkDialectCompatibility(patternParts[1], patternParts[2], suite.replaceTemplate);
+        } catch {
+            return []; // Syntax errors are reported by the matcher
+        }
+    }, [patternParts, suite.replaceTemplate]);
+
+    // Re-run the whole suite on every edit, in the regex worker when ReDoS protection is on
+    useEffect(() => {
+        if (!patternParts) {
+            setRun(null);
+            setRunError(null);
+            return;
+        }
+        const controller = new AbortController();
+        runRegexJob(
+            { kind: 'suite', source: patternParts[1], flags: patternParts[2], suite, input: testString },
+            { timeoutMs: REGEX_SUITE_TIMEOUT_MS, signal: controller.signal, isolated: settings.enableReDoSProtection },
+        ).then(({ run: suiteRun }) => {
+            if (controller.signal.aborted) return;
+            setRun(suiteRun);
+            setRunError(null);
+        }).catch(e => {
+            if (controller.signal.aborted) return;
+            setRun(null);
+            setRunError(e instanceof Error ? e.message : 'Unknown regex error.');
+        });
+        return () => controller.abort();
+    }, [patternParts, suite, testString, settings.enableReDoSProtection]);
+
+    const updateMatchCase = (index: number, update: Partial<RegexTestSuite['mustMatch'][number]>) =>
+        onSuiteChange({ ...suite, mustMatch: suite.mustMatch.map((testCase, i) => i === index ? { ...testCase, ...update } : testCase) });
+
+    const setExpectedCapture = (index: number, group: string, value: string) => {
+        const captures = { ...suite.mustMatch[index].captures };
+        if (value) {
+            captures[group] = value;
+        } else {
+            delete captures[group]; // An empty expectation means the group is not checked
+        }
+        updateMatchCase(index, { captures });
+    };
+
+    const expectActualCaptures = (index: number) => {
+        const actual = run?.mustMatch[index]?.captures ?? {};
+        const captures: Record<string, string> = {};
+        for (const group of captureGroups) {
+            const value = actual[group];
+            if (value) captures[group] = value;
+        }
+        updateMatchCase(index, { captures });
+    };
+
+    const results = run ? [...run.mustMatch, ...run.mustNotMatch] : [];
+    const passedCount = results.filter(result => result.passed).length;
+    const totalCount = suite.mustMatch.length + suite.mustNotMatch.length;
+    const inputClassName = 'w-full px-2 py-1 rounded-md bg-background border border-border font-mono text-xs focus:ring-2 focus:ring-primary';
+
+    return (
+        <div className="flex-shrink-0 bg-surface rounded-lg border border-border shadow-sm">
+            <h3 className="text-lg font-bold p-3 border-b border-border flex items-center justify-between">
+                <span className="flex items-center"><BeakerIcon className="w-5 h-5 mr-2" /> Test Suite</span>
+                {run && totalCount > 0 && (
+                    <span className={`text-sm ${passedCount === totalCount ? 'text-green-600' : 'text-red-500'}`}>{passedCount}/{totalCount} passing</span>
+                )}
+            </h3>
+            <div className="p-3 space-y-4 text-sm">
+                {runError && <p className="text-red-500 text-xs">{runError}</p>}
+
+                <section>
+                    <div className="flex items-center justify-between mb-1">
+                        <h4 className="font-semibold text-text-secondary">Must Match</h4>
+                        <div className="flex gap-2">
+                            <button onClick={() => onSuiteChange({ ...suite, mustMatch: [...suite.mustMatch, { input: testString, captures: {} }] })} className="btn-tertiary px-2 py-0.5 text-xs">+ Test string</button>
+                            <button onClick={() => onSuiteChange({ ...suite, mustMatch: [...suite.mustMatch, { input: '', captures: {} }] })} className="btn-tertiary px-2 py-0.5 text-xs">+ Case</button>
+                        </div>
+                    </div>
+                    {suite.mustMatch.length === 0 ? (
+                        <p className="text-text-tertiary text-xs">No cases yet.</p>
+                    ) : (
+                        <table className="w-full">
+                            <tbody>
+                                {suite.mustMatch.map((testCase, index) => {
+                                    const result = run?.mustMatch[index];
+                                    return (
+                                        <tr key={index} className="border-b border-border last:border-b-0 align-top">
+                                            <td className="py-1 pr-2 w-12"><TestResultBadge result={result} /></td>
+                                            <td className="py-1 pr-2">
+                                                <input value={testCase.input} onChange={(e) => updateMatchCase(index, { input: e.target.value })} className={inputClassName} placeholder="Input that must match" />
+                                                {result && !result.match && <p className="text-red-500 text-xs mt-1">No match.</p>}
+                                                {result?.mismatches.map(mismatch => (
+                                                    <p key={mismatch.group} className="text-red-500 text-xs mt-1">
+                                                        Group {mismatch.group}: expected {JSON.stringify(mismatch.expected)}, got {mismatch.actual === undefined ? 'no capture' : JSON.stringify(mismatch.actual)}
+                                                    </p>
+                                                ))}
+                                            </td>
+                                            <td className="py-1 pr-2 w-1/3">
+                                                {captureGroups.length === 0 ? (
+                                                    <span className="text-text-tertiary text-xs">No capture groups</span>
+                                                ) : captureGroups.map(group => (
+                                                    <label key={group} className="flex items-center gap-1 text-xs mb-1">
+                                                        <span className="font-mono text-text-tertiary w-12 truncate" title={`Group ${group}`}>{group}</span>
+                                                        <input
+                                                            value={testCase.captures[group] ?? ''}
+                                                            onChange={(e) => setExpectedCapture(index, group, e.target.value)}
+                                                            placeholder={result?.captures[group] ?? 'not checked'}
+                                                            className={`${inputClassName} ${result?.mismatches.some(mismatch => mismatch.group === group) ? 'border-red-500' : ''}`}
+                                                        />
+                                                    </label>
+                                                ))}
+                                            </td>
+                                            <td className="py-1 whitespace-nowrap text-right">
+                                                <button onClick={() => expectActualCaptures(index)} disabled={!result?.match || captureGroups.length === 0} className="btn-icon text-xs text-text-secondary hover:text-primary mr-2" title="Expect the captures of the current match">Use actual</button>
+                                                <button onClick={() => onSuiteChange({ ...suite, mustMatch: suite.mustMatch.filter((_, i) => i !== index) })} className="btn-icon text-xs text-text-secondary hover:text-red-500" title="Remove case">✕</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+
+                <section>
+                    <div className="flex items-center justify-between mb-1">
+                        <h4 className="font-semibold text-text-secondary">Must Not Match</h4>
+                        <button onClick={() => onSuiteChange({ ...suite, mustNotMatch: [...suite.mustNotMatch, ''] })} className="btn-tertiary px-2 py-0.5 text-xs">+ Case</button>
+                    </div>
+                    {suite.mustNotMatch.length === 0 ? (
+                        <p className="text-text-tertiary text-xs">No cases yet.</p>
+                    ) : (
+                        <table className="w-full">
+                            <tbody>
+                                {suite.mustNotMatch.map((input, index) => {
+                                    const result = run?.mustNotMatch[index];
+                                    return (
+                                        <tr key={index} className="border-b border-border last:border-b-0 align-top">
+                                            <td className="py-1 pr-2 w-12"><TestResultBadge result={result} /></td>
+                                            <td className="py-1 pr-2">
+                                                <input
+                                                    value={input}
+                                                    onChange={(e) => onSuiteChange({ ...suite, mustNotMatch: suite.mustNotMatch.map((value, i) => i === index ? e.target.value : value) })}
+                                                    className={inputClassName}
+                                                    placeholder="Input that must not match"
+                                                />
+                                                {result?.match != null && <p className="text-red-500 text-xs mt-1">Matched {JSON.stringify(result.match)}.</p>}
+                                            </td>
+                                            <td className="py-1 whitespace-nowrap text-right">
+                                                <button onClick={() => onSuiteChange({ ...suite, mustNotMatch: suite.mustNotMatch.filter((_, i) => i !== index) })} className="btn-icon text-xs text-text-secondary hover:text-red-500" title="Remove case">✕</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </section>
+
+                <section>
+                    <h4 className="font-semibold text-text-secondary mb-1">Replace Preview</h4>
+                    <input
+                        value={suite.replaceTemplate}
+                        onChange={(e) => onSuiteChange({ ...suite, replaceTemplate: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Replacement, e.g. $1 or $<name>"
+                    />
+                    <div className="mt-1 p-2 bg-background rounded-md border border-border font-mono text-xs whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar">
+                        {run?.replacePreview ?? ''}
+                    </div>
+                </section>
+
+                <section>
+                    <h4 className="font-semibold text-text-secondary mb-1">Split Preview ({run?.splitPreview.length ?? 0} parts)</h4>
+                    <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+                        {run?.splitPreview.map((part, i) => (
+                            <span key={i} className="px-2 py-0.5 bg-background border border-border rounded font-mono text-xs">{part === undefined ? 'undefined' : JSON.stringify(part)}</span>
+                        ))}
+                    </div>
+                </section>
+
+                <section>
+                    <h4 className="font-semibold text-text-secondary mb-1">Dialect Compatibility</h4>
+                    {dialectWarnings.length === 0 ? (
+                        <p className="text-xs text-green-600">Behaves the same in PCRE, RE2 (Go) and Python re.</p>
+                    ) : (Object.keys(REGEX_DIALECT_LABELS) as RegexDialect[]).map(dialect => {
+                        const warnings = dialectWarnings.filter(warning => warning.dialect === dialect);
+                        if (warnings.length === 0) return null;
+                        return (
+                            <div key={dialect} className="mb-2">
+                                <p className="text-xs font-semibold text-text-primary">{REGEX_DIALECT_LABELS[dialect]}</p>
+                                <ul className="list-disc pl-5 text-xs text-yellow-700 space-y-0.5">
+                                    {warnings.map((warning, i) => (
+                                        <li key={i}>{warning.excerpt && <code className="font-mono mr-1">{warning.excerpt}</code>}{warning.message}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        );
+                    })}
+                </section>
+            </div>
+        </div>
+    );
+};
+
 /**
  * @component SavedPatterns
  * @description Manages user-saved and publicly shared regex patterns.
  * Integrates with cloud storage, search, and filtering.
  * Project 'Archive', developed by lead architect Dr. Hiroshi Sato.
  */
-export const SavedPatterns: React.FC<{ onSelectPattern: (pattern: string) => void }> = ({ onSelectPattern }) => {
+export const SavedPatterns: React.FC<{ onSelectPattern: (pattern: string, testSuite?: RegexTestSuite) => void }> = ({ onSelectPattern }) => {
     const { settings } = useAppSettings();
     const [savedPatterns, setSavedPatterns] = useState<RegexPattern[]>([]);
     const [isLoading, setIsLoading] = useState(false);
@@ -1672,7 +1950,7 @@ export const SavedPatterns: React.FC<{ onSelectPattern: (pattern: string) => voi
                     <div className="flex justify-center items-center h-20"><LoadingSpinner /></div>
                 ) : filteredAndSearchedPatterns.length > 0 ? (
                     filteredAndSearchedPatterns.map((entry) => (
-                        <div key={entry.id} className="p-2 border-b border-border last:border-b-0 hover:bg-background cursor-pointer" onClick={() => onSelectPattern(entry.pattern)}>
+                        <div key={entry.id} className="p-2 border-b border-border last:border-b-0 hover:bg-background cursor-pointer" onClick={() => onSelectPattern(entry.pattern, entry.testSuite)}>
                             <p className="text-sm font-medium text-text-primary flex items-center justify-between">
                                 <span><StarIcon className={`w-4 h-4 mr-1 inline-block ${entry.isPublic ? 'text-yellow-500' : 'text-text-tertiary'}`} /> {entry.name}</span>
                                 <span className="text-xs text-text-secondary">{new Date(entry.updatedAt).toLocaleDateString()}</span>
@@ -1700,7 +1978,7 @@ export const SavedPatterns: React.FC<{ onSelectPattern: (pattern: string) => voi
 // Main Regex Sandbox Component - The 'Control Center'
 // Orchestrates all sub-components and manages the core regex logic.
 // This is the nexus of Project Chimera.
-export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialPrompt }) => {
+export const RegexSandbox: React.FC<{ initialPrompt?: string; initialPattern?: string; initialTestString?: string }> = ({ initialPrompt, initialPattern, initialTestString }) => {
     // Application-wide settings state
     const [settings, setSettings] = useState<AppSettings>(() => {
         try {
@@ -1731,13 +2009,15 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
     }, []);
 
     // Core regex states
-    const [pattern, setPattern] = useState<string>('/\\b([A-Z][a-z]+)\\s(\\w+)\\b/g');
-    const [testString, setTestString] = useState<string>('The quick Brown Fox jumps over the Lazy Dog. User: jane.doe@example.com.');
+    const [pattern, setPattern] = useState<string>(initialPattern ?? '/\\b([A-Z][a-z]+)\\s(\\w+)\\b/g');
+    const [testString, setTestString] = useState<string>(initialTestString ?? 'The quick Brown Fox jumps over the Lazy Dog. User: jane.doe@example.com.');
     const [aiPrompt, setAiPrompt] = useState<string>(initialPrompt || 'find capitalized words and the word after');
     const [isAiLoading, setIsAiLoading] = useState<boolean>(false);
     const [lastExecutionTime, setLastExecutionTime] = useState<number>(0);
     const [redosScanStatus, setRedosScanStatus] = useState<'pending' | 'scanning' | 'safe' | 'warning' | 'critical'>('pending');
     const [redosScanReport, setRedosScanReport] = useState<string | null>(null);
+    const [redosFindings, setRedosFindings] = useState<ReDoSFinding[]>([]);
+    const [testSuite, setTestSuite] = useState<RegexTestSuite>(EMPTY_TEST_SUITE);
 
     // Apply dark mode class to body
     useEffect(() => {
@@ -1750,44 +2030,48 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
         }
     }, [settings.darkMode]);
 
-    // Regex matching logic with performance profiling and error handling
-    const { matches, error } = useMemo(() => {
+    // Regex matching logic with performance profiling and error handling. With ReDoS protection on, matching runs
+    // in the regex worker under a hard deadline so a catastrophic pattern times out instead of freezing the page.
+    const [{ matches, error }, setMatchState] = useState<{ matches: RegexMatchResult[] | null; error: string | null }>({ matches: null, error: null });
+    useEffect(() => {
         const startTime = performance.now();
-        try {
-            const patternParts = pattern.match(/^\/(.*)\/([gimyus]*)$/);
-            if (!patternParts) {
-                setLastExecutionTime(performance.now() - startTime);
-                return { matches: null, error: 'Invalid regex literal. Use /pattern/flags.' };
-            }
-            const [, regexBody, regexFlags] = patternParts;
+        const patternParts = pattern.match(/^\/(.*)\/([gimyus]*)$/);
+        if (!patternParts) {
+            setLastExecutionTime(performance.now() - startTime);
+            setMatchState({ matches: null, error: 'Invalid regex literal. Use /pattern/flags.' });
+            return;
+        }
+        const [, regexBody, regexFlags] = patternParts;
 
-            // Enforce strict validation if enabled
-            if (settings.patternValidationLevel === 'strict' && !regexBody) {
-                setLastExecutionTime(performance.now() - startTime);
-                return { matches: null, error: 'Strict validation: Pattern body cannot be empty.' };
-            }
+        // Enforce strict validation if enabled
+        if (settings.patternValidationLevel === 'strict' && !regexBody) {
+            setLastExecutionTime(performance.now() - startTime);
+            setMatchState({ matches: null, error: 'Strict validation: Pattern body cannot be empty.' });
+            return;
+        }
 
-            const regex = new RegExp(regexBody, regexFlags);
-            const rawMatches = [...testString.matchAll(regex)];
-            const endTime = performance.now();
-            setLastExecutionTime(endTime - startTime);
-
-            // Enhance match results with execution time and potentially unique IDs for React keys
-            const enhancedMatches: RegexMatchResult[] = rawMatches.map(match => ({
-                ...match,
-                executionTimeMs: endTime - startTime,
-                // In a distributed system, these might be actual IDs
-                threadId: 'main-js-thread',
-                nodeId: 'browser-instance'
-            }));
-
-            return { matches: enhancedMatches, error: null };
-        } catch (e) {
+        const isolated = settings.enableReDoSProtection;
+        const controller = new AbortController();
+        runRegexJob(
+            { kind: 'match', source: regexBody, flags: regexFlags, input: testString },
+            { timeoutMs: REGEX_MATCH_TIMEOUT_MS, signal: controller.signal, isolated },
+        ).then(({ matches: rawMatches, elapsedMs }) => {
+            if (controller.signal.aborted) return;
+            setLastExecutionTime(elapsedMs);
+            // Enhance match results with execution time and the thread that produced them
+            const threadId = isolated ? 'regex-worker' : 'main-js-thread';
+            setMatchState({ matches: rawMatches.map(match => toMatchResult(match, testString, elapsedMs, threadId)), error: null });
+        }).catch(e => {
+            if (controller.signal.aborted) return;
             setLastExecutionTime(performance.now() - startTime);
             TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'regex_execution', pattern, testString });
-            return { matches: null, error: e instanceof Error ? e.message : 'Unknown regex error.' };
-        }
-    }, [pattern, testString, settings.patternValidationLevel]);
+            const message = e instanceof RegexTimeoutError
+                ? `${e.message} The pattern backtracks catastrophically on this input.`
+                : e instanceof Error ? e.message : 'Unknown regex error.';
+            setMatchState({ matches: null, error: message });
+        });
+        return () => controller.abort();
+    }, [pattern, testString, settings.patternValidationLevel, settings.enableReDoSProtection]);
 
     // AI Regex Generation - Leveraging selected AI engine
     const handleGenerateRegex = useCallback(async (p: string) => {
@@ -1832,40 +2116,69 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
         }
     }, [settings.aiEngine, testString]); // Added testString as dependency for contextual generation
 
-    // Initial prompt processing
-    useEffect(() => { if (initialPrompt) handleGenerateRegex(initialPrompt); }, [initialPrompt, handleGenerateRegex]);
+    // An initial prompt only prefills the AI prompt box; generating from it is left to the Generate button.
+    useEffect(() => { if (initialPrompt !== undefined) setAiPrompt(initialPrompt); }, [initialPrompt]);
+
+    // Shareable link that reopens the sandbox with the current pattern and test string
+    const handleCopyLink = useCallback(async () => {
+        try {
+            await navigator.clipboard.writeText(buildFeatureLink('regex-sandbox', { initialPattern: pattern, initialTestString: testString }));
+            NotificationService.sendToast('Link copied to clipboard.', 'success');
+            TelemetryService.trackEvent('regex_link_copied', { patternLength: pattern.length });
+        } catch (e) {
+            TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'copy_link' });
+            NotificationService.sendToast('Could not copy the link.', 'error');
+        }
+    }, [pattern, testString]);
+
+    // A link followed while the sandbox is already open replaces the pattern and test string
+    useEffect(() => { if (initialPattern !== undefined) setPattern(initialPattern); }, [initialPattern]);
+    useEffect(() => { if (initialTestString !== undefined) setTestString(initialTestString); }, [initialTestString]);
 
     // ReDoS Scan Trigger
     useEffect(() => {
-        let scanTimer: NodeJS.Timeout;
-        if (settings.enableReDoSProtection && pattern.length > 5 && !isAiLoading) { // Only scan if pattern is non-trivial and not in AI generation
-            setRedosScanStatus('scanning');
-            setRedosScanReport(null);
-            scanTimer = setTimeout(async () => {
-                try {
-                    const scanResult = await ReDoSSecurityScanner.scan(pattern);
-                    if (scanResult.isVulnerable) {
-                        setRedosScanStatus(scanResult.score < ReDoS_CRITICAL_THRESHOLD ? 'critical' : 'warning');
-                        setRedosScanReport(scanResult.report);
-                    } else {
-                        setRedosScanStatus('safe');
-                        setRedosScanReport('No significant ReDoS vulnerability detected.');
-                    }
-                    NotificationService.sendInAppNotification('current_user_id', `ReDoS scan for pattern "${pattern.substring(0, 20)}..." completed. Status: ${redosScanStatus}.`);
-                } catch (e) {
-                    TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'redos_scan_error', pattern });
-                    NotificationService.sendToast('Failed to complete ReDoS scan.', 'error');
-                    setRedosScanStatus('pending'); // Reset status on error
-                    setRedosScanReport('Error during ReDoS scan.');
-                }
-            }, 2000); // Debounce scan to avoid too many requests
-        } else {
+        setRedosFindings([]);
+        setRedosScanReport(null);
+        if (!settings.enableReDoSProtection || pattern.length <= 5 || isAiLoading) { // Only scan if pattern is non-trivial and not in AI generation
             setRedosScanStatus('pending');
-            setRedosScanReport(null);
+            return;
         }
 
-        return () => clearTimeout(scanTimer);
-    }, [pattern, settings.enableReDoSProtection, isAiLoading, redosScanStatus]); // RedosScanStatus added to trigger updates correctly
+        setRedosScanStatus('scanning');
+        const controller = new AbortController();
+        const scanTimer = setTimeout(async () => {
+            try {
+                const report = await ReDoSSecurityScanner.scan(pattern, controller.signal);
+                const status = report.findings.some(finding => finding.severity === 'exponential') ? 'critical' : report.safe ? 'safe' : 'warning';
+                setRedosScanStatus(status);
+                setRedosFindings(report.findings);
+                setRedosScanReport(report.safe
+                    ? `No ReDoS vulnerability detected.${report.approximations.length ? ` Approximations: ${report.approximations.join(' ')}` : ''}`
+                    : `${status === 'critical' ? 'Exponential' : 'Polynomial'} backtracking found in ${report.findings.map(finding => finding.loops.join(' and ')).join('; ')}.`);
+                NotificationService.sendInAppNotification('current_user_id', `ReDoS scan for pattern "${pattern.substring(0, 20)}..." completed. Status: ${status}.`);
+            } catch (e) {
+                if (controller.signal.aborted) return;
+                if (e instanceof Error && e.name === 'RegexSyntaxError') { // Already reported by the matcher
+                    setRedosScanStatus('pending');
+                    return;
+                }
+                TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'redos_scan_error', pattern });
+                if (e instanceof RegexTimeoutError) {
+                    setRedosScanStatus('warning');
+                    setRedosScanReport('The pattern is too complex to analyze in time. Review nested quantifiers by hand.');
+                    return;
+                }
+                NotificationService.sendToast('Failed to complete ReDoS scan.', 'error');
+                setRedosScanStatus('pending'); // Reset status on error
+                setRedosScanReport('Error during ReDoS scan.');
+            }
+        }, 500); // Debounce scan while typing
+
+        return () => {
+            clearTimeout(scanTimer);
+            controller.abort();
+        };
+    }, [pattern, settings.enableReDoSProtection, isAiLoading]);
 
     // Highlighted String Rendering
     const highlightedString = useMemo(() => {
@@ -1887,8 +2200,9 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
     }, [matches, testString, error, settings.matchHighlightColor]); // Use dynamic highlight color
 
     // Function to set pattern from history/saved patterns
-    const handleSelectPattern = useCallback((selectedPattern: string) => {
+    const handleSelectPattern = useCallback((selectedPattern: string, selectedSuite?: RegexTestSuite) => {
         setPattern(selectedPattern);
+        if (selectedSuite) setTestSuite(selectedSuite);
         NotificationService.sendToast('Pattern loaded successfully!', 'success');
         AuditLogService.logAction('current_user_id', 'load_pattern_from_library', { pattern: selectedPattern });
     }, []);
@@ -1913,7 +2227,8 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
             authorId: 'current_user_id', // Placeholder, should be real user ID
             version: 1,
             isPublic: false,
-            lastUsed: new Date().toISOString()
+            lastUsed: new Date().toISOString(),
+            testSuite,
         };
         // This would call addPatternToHistory from RegexHistory component if it was passed down,
         // or a global event system. For simplicity, we directly modify.
@@ -1921,7 +2236,7 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
         console.log('Attempting to add to history:', newHistoryEntry);
         NotificationService.sendToast('Pattern added to local history.', 'info');
         AuditLogService.logAction('current_user_id', 'add_pattern_to_history', { pattern: newHistoryEntry.pattern });
-    }, [pattern, aiPrompt, settings.aiEngine]);
+    }, [pattern, aiPrompt, settings.aiEngine, testSuite]);
 
     // Handle Auto-Save Test String
     useEffect(() => {
@@ -1931,6 +2246,7 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
                     localStorage.setItem('regex_sandbox_test_string_titan_v7', testString);
                     localStorage.setItem('regex_sandbox_pattern_titan_v7', pattern);
                     localStorage.setItem('regex_sandbox_ai_prompt_titan_v7', aiPrompt);
+                    localStorage.setItem('regex_sandbox_test_suite_titan_v7', JSON.stringify(testSuite));
                 } catch (e) {
                     TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'auto_save_error' });
                     // NotificationService.sendToast('Auto-save failed.', 'warning'); // Too frequent for toast
@@ -1938,7 +2254,7 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
             }, 1500); // Debounce auto-save
             return () => clearTimeout(handler);
         }
-    }, [testString, pattern, aiPrompt, settings.autoSaveEnabled]);
+    }, [testString, pattern, aiPrompt, testSuite, settings.autoSaveEnabled]);
 
     // Load Auto-Saved Test String on Mount
     useEffect(() => {
@@ -1950,6 +2266,8 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
                 if (savedTestString) setTestString(savedTestString);
                 if (savedPattern) setPattern(savedPattern);
                 if (savedAiPrompt) setAiPrompt(savedAiPrompt);
+                const savedTestSuite = localStorage.getItem('regex_sandbox_test_suite_titan_v7');
+                if (savedTestSuite) setTestSuite({ ...EMPTY_TEST_SUITE, ...JSON.parse(savedTestSuite) });
                 NotificationService.sendToast('Loaded auto-saved session.', 'info');
             } catch (e) {
                 TelemetryService.logError(e as Error, { component: 'RegexSandbox', action: 'auto_load_error' });
@@ -1975,6 +2293,7 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
                         <span className="text-text-tertiary">Regex Flavor: <span className="font-semibold text-primary">{settings.regexFlavor}</span></span>
                         {settings.darkMode ? <MoonIcon className="w-4 h-4 text-text-secondary" /> : <SunIcon className="w-4 h-4 text-text-secondary" />}
                         <button onClick={() => updateSetting('darkMode', !settings.darkMode)} className="text-link text-xs hover:underline ml-2">Toggle Theme</button>
+                        <button onClick={handleCopyLink} className="text-link text-xs hover:underline ml-2">Copy Link</button>
                     </div>
                 </header>
 
@@ -2021,6 +2340,27 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
                                 className={`w-full mt-1 px-3 py-2 rounded-md bg-surface border ${error || redosScanStatus === 'critical' ? 'border-red-500' : redosScanStatus === 'warning' ? 'border-yellow-500' : 'border-border'} font-mono text-sm focus:ring-2 focus:ring-primary`}
                             />
                             {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+                            {settings.enableReDoSProtection && redosFindings.length > 0 && (
+                                <div className="mt-2 space-y-2">
+                                    {redosFindings.map((finding, i) => (
+                                        <div key={i} className={`p-2 rounded-md border text-xs ${finding.severity === 'exponential' ? 'bg-red-100 border-red-400 text-red-800' : 'bg-yellow-100 border-yellow-400 text-yellow-800'}`}>
+                                            <p><span className="font-semibold uppercase">{finding.severity}</span>: {finding.description}</p>
+                                            <div className="flex items-center justify-between gap-2 mt-1">
+                                                <code className="font-mono truncate" title="Attack string: prefix + pump × repetitions + suffix">
+                                                    {JSON.stringify(finding.prefix)} + {JSON.stringify(finding.pump)} × {finding.repetitions} + {JSON.stringify(finding.suffix)}
+                                                </code>
+                                                <button
+                                                    onClick={() => setTestString(finding.attackString)}
+                                                    className="btn-tertiary px-2 py-0.5 text-xs whitespace-nowrap"
+                                                    title="Replace the test string with this attack; matching will hit the timeout"
+                                                >
+                                                    Use as test string
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                         </div>
 
                         {/* Test String Input & Highlighted Output */}
@@ -2081,6 +2421,8 @@ export const RegexSandbox: React.FC<{ initialPrompt?: string }> = ({ initialProm
                                 )}
                             </div>
                         </div>
+
+                        <RegexTestSuitePanel pattern={pattern} testString={testString} suite={testSuite} onSuiteChange={setTestSuite} />
                     </div>
 
                     {/* Right Sidebar - Feature Panels */}
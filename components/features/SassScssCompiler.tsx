@@ -3,6 +3,8 @@
 
 import React, { useState, useMemo, useRef, useEffect, useCallback, createContext, useContext } from 'react';
 import { CodeBracketSquareIcon, SunIcon, MoonIcon, ShareIcon, HistoryIcon, Cog6ToothIcon, CommandLineIcon, SparklesIcon, BugAntIcon, DocumentTextIcon, FolderOpenIcon, CircleStackIcon, GlobeAltIcon, RocketLaunchIcon, LockClosedIcon, FingerPrintIcon, ServerStackIcon, TrophyIcon, ShieldCheckIcon, DocumentMagnifyingGlassIcon, ClipboardDocumentListIcon, ChartBarIcon, CpuChipIcon } from '../icons.tsx'; // Expanded icons for new features
+import { CompilerError, CompilerErrorCode, compile as compileScss, originalPositionFor, resolveModulePath } from '../../services/styles/scssCompiler.ts';
+import type { CssSourceSpan } from '../../services/styles/scssCompiler.ts';
 
 // THE SAGA OF THE EVERGREEN STYLES COMPILER: A CITIBANK INNOVATION JOURNEY
 //
@@ -25,910 +27,8 @@ const escapeRegExp = (string: string): string => {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 };
 
-// Invented Feature: `CompilerErrorCode` Enum (Version 1.1 - Enhanced Error Handling)
-// Purpose: Standardize error codes for easier debugging, localization, and automated support.
-// As the compiler grew, specific error types became crucial for robust feedback.
-export enum CompilerErrorCode {
-    UNKNOWN_ERROR = 'C001',
-    SYNTAX_ERROR = 'C002',
-    VARIABLE_NOT_DEFINED = 'C003',
-    MIXIN_NOT_FOUND = 'C004',
-    FUNCTION_NOT_FOUND = 'C005',
-    CIRCULAR_DEPENDENCY = 'C006',
-    INVALID_ARITHMETIC_OPERATION = 'C007',
-    SELECTOR_PARSING_ERROR = 'C008',
-    AT_RULE_NOT_SUPPORTED = 'C009',
-    IMPORT_RESOLUTION_FAILED = 'C010',
-    EXTERNAL_SERVICE_FAILURE = 'C011',
-    AI_ASSISTANCE_ERROR = 'C012',
-    SECURITY_VIOLATION = 'C013',
-    PERFORMANCE_OVERLOAD = 'C014',
-    RESOURCE_LIMIT_EXCEEDED = 'C015',
-    THEME_MISMATCH = 'C016',
-    // ... many more as features grew
-}
-
-// Invented Feature: `CompilerError` Class (Version 1.1 - Richer Error Context)
-// Purpose: Provide detailed error information, including code, message, and location (if applicable).
-export class CompilerError extends Error {
-    code: CompilerErrorCode;
-    line?: number;
-    column?: number;
-    suggestion?: string;
-
-    constructor(message: string, code: CompilerErrorCode, line?: number, column?: number, suggestion?: string) {
-        super(message);
-        this.name = 'CompilerError';
-        this.code = code;
-        this.line = line;
-        this.column = column;
-        this.suggestion = suggestion;
-        Object.setPrototypeOf(this, CompilerError.prototype);
-    }
-}
-
-// Invented Feature: `ASTNode` Interface (Version 2.0 - Abstract Syntax Tree Foundation)
-// Purpose: Define a common structure for all nodes in the Abstract Syntax Tree.
-// This was a major architectural leap, moving from regex-based string manipulation
-// to a structured, traversable representation of the SCSS code. This enabled
-// advanced features like mixins, functions, and complex nesting.
-export interface ASTNode {
-    type: string;
-    loc?: {
-        start: { line: number; column: number; };
-        end: { line: number; column: number; };
-    };
-    children?: ASTNode[];
-    value?: any;
-    // ... more specific properties depending on node type
-}
-
-// Invented Feature: `StyleSheetNode`, `RuleSetNode`, `DeclarationNode`, `VariableNode`, `MixinCallNode`, etc. (Version 2.1 - Specific AST Nodes)
-// Purpose: Detailed typing for different SCSS constructs within the AST.
-export interface StyleSheetNode extends ASTNode { type: 'StyleSheet'; children: ASTNode[]; }
-export interface RuleSetNode extends ASTNode { type: 'RuleSet'; selector: string; children: ASTNode[]; }
-export interface DeclarationNode extends ASTNode { type: 'Declaration'; property: string; value: string; }
-export interface VariableNode extends ASTNode { type: 'Variable'; name: string; value: string; }
-export interface MixinCallNode extends ASTNode { type: 'MixinCall'; name: string; args: ASTNode[]; }
-export interface FunctionCallNode extends ASTNode { type: 'FunctionCall'; name: string; args: ASTNode[]; }
-export interface AtRuleNode extends ASTNode { type: 'AtRule'; name: string; params: string; children?: ASTNode[]; }
-export interface CommentNode extends ASTNode { type: 'Comment'; value: string; }
-export interface InterpolationNode extends ASTNode { type: 'Interpolation'; value: string; }
-export interface ExpressionNode extends ASTNode { type: 'Expression'; operator: string; left: ASTNode; right: ASTNode; }
-// ... countless other node types for every SASS construct
-
-// Chapter 2: The Parser's Awakening (Mid 2023)
-// Recognizing the limitations of regex, the "Evergreen Styles" team, led by senior architect Dr. Anya Sharma,
-// embarked on building a full-fledged parser. This marked a monumental shift towards a robust compiler architecture.
-// The new system would first tokenize the SCSS, then build an Abstract Syntax Tree (AST), allowing for
-// more predictable and powerful transformations.
-
-// Invented Feature: `Token` Interface & `TokenType` Enum (Version 2.0 - Lexical Analysis)
-// Purpose: Represent discrete units of the SCSS source code.
-export enum TokenType {
-    IDENTIFIER = 'IDENTIFIER',
-    VARIABLE = 'VARIABLE',
-    STRING = 'STRING',
-    NUMBER = 'NUMBER',
-    UNIT = 'UNIT',
-    COLOR = 'COLOR',
-    SELECTOR_CHAR = 'SELECTOR_CHAR', // '.', '#', '>', etc.
-    OPEN_BRACE = '{',
-    CLOSE_BRACE = '}',
-    OPEN_PAREN = '(',
-    CLOSE_PAREN = ')',
-    SEMICOLON = ';',
-    COLON = ':',
-    COMMA = ',',
-    OPERATOR = 'OPERATOR', // '+', '-', '*', '/'
-    AT_RULE = 'AT_RULE', // @import, @mixin, @function
-    AND_OPERATOR = '&', // Parent selector
-    COMMENT = 'COMMENT',
-    WHITESPACE = 'WHITESPACE',
-    EOF = 'EOF',
-    // ... many more for specific SASS syntax elements
-}
-
-export interface Token {
-    type: TokenType;
-    value: string;
-    line: number;
-    column: number;
-}
-
-// Invented Feature: `Lexer` Class (Version 2.0 - Tokenizer Engine)
-// Purpose: Convert SCSS source code into a stream of tokens.
-export class Lexer {
-    private input: string;
-    private cursor: number;
-    private line: number;
-    private column: number;
-    private tokens: Token[];
-
-    constructor(input: string) {
-        this.input = input;
-        this.cursor = 0;
-        this.line = 1;
-        this.column = 1;
-        this.tokens = [];
-    }
-
-    private advance(n: number = 1): void {
-        for (let i = 0; i < n; i++) {
-            if (this.input[this.cursor] === '\n') {
-                this.line++;
-                this.column = 1;
-            } else {
-                this.column++;
-            }
-            this.cursor++;
-        }
-    }
-
-    private peek(n: number = 0): string | undefined {
-        return this.input[this.cursor + n];
-    }
-
-    private isWhitespace(char: string): boolean {
-        return /\s/.test(char);
-    }
-
-    private isDigit(char: string): boolean {
-        return /\d/.test(char);
-    }
-
-    private isAlpha(char: string): boolean {
-        return /[a-zA-Z]/.test(char);
-    }
-
-    private isAlphaNumeric(char: string): boolean {
-        return /[a-zA-Z0-9]/.test(char);
-    }
-
-    private addToken(type: TokenType, value: string): void {
-        this.tokens.push({ type, value, line: this.line, column: this.column - value.length });
-    }
-
-    public tokenize(): Token[] {
-        while (this.cursor < this.input.length) {
-            const char = this.peek();
-
-            if (this.isWhitespace(char!)) {
-                this.advance();
-                continue;
-            }
-
-            if (char === '/' && this.peek(1) === '/') { // Line comment
-                let comment = '';
-                while (this.peek() && this.peek() !== '\n') {
-                    comment += this.peek();
-                    this.advance();
-                }
-                this.addToken(TokenType.COMMENT, comment); // Store for potential source mapping
-                continue;
-            }
-
-            if (char === '/' && this.peek(1) === '*') { // Block comment
-                let comment = '';
-                this.advance(2); // Consume /*
-                while (this.peek() && !(this.peek() === '*' && this.peek(1) === '/')) {
-                    comment += this.peek();
-                    this.advance();
-                }
-                if (this.peek() === '*' && this.peek(1) === '/') {
-                    this.advance(2); // Consume */
-                } else {
-                    throw new CompilerError('Unterminated block comment', CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-                }
-                this.addToken(TokenType.COMMENT, `/*${comment}*/`); // Store for potential source mapping
-                continue;
-            }
-
-            if (char === '$') {
-                let variableName = '';
-                this.advance(); // Consume $
-                while (this.peek() && (this.isAlphaNumeric(this.peek()!) || this.peek() === '-')) {
-                    variableName += this.peek();
-                    this.advance();
-                }
-                if (!variableName) {
-                    throw new CompilerError('Invalid variable name after $', CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-                }
-                this.addToken(TokenType.VARIABLE, `$${variableName}`);
-                continue;
-            }
-
-            if (char === '@') {
-                let atRuleName = '';
-                this.advance(); // Consume @
-                while (this.peek() && (this.isAlphaNumeric(this.peek()!) || this.peek() === '-')) {
-                    atRuleName += this.peek();
-                    this.advance();
-                }
-                if (!atRuleName) {
-                    throw new CompilerError('Invalid at-rule name after @', CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-                }
-                this.addToken(TokenType.AT_RULE, `@${atRuleName}`);
-                continue;
-            }
-
-            if (char === '&') {
-                this.addToken(TokenType.AND_OPERATOR, char);
-                this.advance();
-                continue;
-            }
-
-            if (char === '{') { this.addToken(TokenType.OPEN_BRACE, char); this.advance(); continue; }
-            if (char === '}') { this.addToken(TokenType.CLOSE_BRACE, char); this.advance(); continue; }
-            if (char === '(') { this.addToken(TokenType.OPEN_PAREN, char); this.advance(); continue; }
-            if (char === ')') { this.addToken(TokenType.CLOSE_PAREN, char); this.advance(); continue; }
-            if (char === ';') { this.addToken(TokenType.SEMICOLON, char); this.advance(); continue; }
-            if (char === ':') { this.addToken(TokenType.COLON, char); this.advance(); continue; }
-            if (char === ',') { this.addToken(TokenType.COMMA, char); this.advance(); continue; }
-            if (['+', '-', '*', '/'].includes(char!)) { this.addToken(TokenType.OPERATOR, char!); this.advance(); continue; }
-
-            if (['.', '#', '>', '~', '+', '*'].includes(char!)) { // Basic selector characters
-                this.addToken(TokenType.SELECTOR_CHAR, char!);
-                this.advance();
-                continue;
-            }
-
-            if (this.isDigit(char!)) {
-                let number = '';
-                while (this.peek() && (this.isDigit(this.peek()!) || this.peek() === '.')) {
-                    number += this.peek();
-                    this.advance();
-                }
-                this.addToken(TokenType.NUMBER, number);
-                // Check for units
-                let unit = '';
-                if (this.peek() && this.isAlpha(this.peek()!) && !['px', 'em', 'rem', '%', 'vw', 'vh', 'ch', 'ex', 'vmin', 'vmax'].includes(this.peek()!)) { // Avoid grabbing part of identifier
-                    // This is a simplified unit scanner. A real one would be more robust.
-                    while (this.peek() && this.isAlpha(this.peek()!) && this.peek() !== ';') {
-                         unit += this.peek();
-                         this.advance();
-                    }
-                    this.addToken(TokenType.UNIT, unit);
-                }
-                continue;
-            }
-
-            if (char === '\'' || char === '"') {
-                let stringValue = '';
-                const quoteChar = char;
-                this.advance(); // consume quote
-                while (this.peek() && this.peek() !== quoteChar) {
-                    stringValue += this.peek();
-                    this.advance();
-                }
-                if (this.peek() === quoteChar) {
-                    this.advance(); // consume closing quote
-                    this.addToken(TokenType.STRING, stringValue);
-                } else {
-                    throw new CompilerError('Unterminated string literal', CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-                }
-                continue;
-            }
-
-            if (char === '#') { // Hex color or interpolation
-                if (this.peek(1) === '{') { // Interpolation `#{...}`
-                    // This is a complex case requiring deeper parsing, for now, just tokenize.
-                    // A full lexer would handle this as a distinct interpolation token type.
-                    let interpolationContent = '';
-                    this.advance(2); // consume #{
-                    let braceCount = 1;
-                    while (this.peek() && braceCount > 0) {
-                        if (this.peek() === '{') braceCount++;
-                        if (this.peek() === '}') braceCount--;
-                        if (braceCount > 0) {
-                            interpolationContent += this.peek();
-                        }
-                        this.advance();
-                    }
-                    if (braceCount === 0) {
-                        this.addToken(TokenType.INTERPOLATION, interpolationContent);
-                    } else {
-                        throw new CompilerError('Unterminated interpolation block', CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-                    }
-                    continue;
-                } else if (/[0-9a-fA-F]/.test(this.peek(1)!)) { // Hex color
-                    let hexValue = char;
-                    this.advance(); // consume #
-                    for (let i = 0; i < 6 && this.peek() && /[0-9a-fA-F]/.test(this.peek()!); i++) {
-                        hexValue += this.peek();
-                        this.advance();
-                    }
-                    if (hexValue.length === 4 || hexValue.length === 7) { // #FFF or #FFFFFF
-                        this.addToken(TokenType.COLOR, hexValue);
-                        continue;
-                    }
-                    // If not a valid hex color, it might be an identifier starting with #
-                    // For now, simplify and treat as identifier if not a color.
-                    // This area needs significant refinement for a production lexer.
-                }
-            }
-
-            if (this.isAlpha(char!)) {
-                let identifier = '';
-                while (this.peek() && (this.isAlphaNumeric(this.peek()!) || this.peek() === '-' || this.peek() === '_')) {
-                    identifier += this.peek();
-                    this.advance();
-                }
-                this.addToken(TokenType.IDENTIFIER, identifier);
-                continue;
-            }
-
-            throw new CompilerError(`Unexpected character: '${char}'`, CompilerErrorCode.SYNTAX_ERROR, this.line, this.column);
-        }
-
-        this.addToken(TokenType.EOF, '');
-        return this.tokens;
-    }
-}
-
-// Invented Feature: `Parser` Class (Version 2.0 - AST Builder Engine)
-// Purpose: Transform a token stream into an Abstract Syntax Tree.
-export class Parser {
-    private tokens: Token[];
-    private cursor: number;
-
-    constructor(tokens: Token[]) {
-        this.tokens = tokens;
-        this.cursor = 0;
-    }
-
-    private peek(n: number = 0): Token {
-        if (this.cursor + n >= this.tokens.length) {
-            return { type: TokenType.EOF, value: '', line: -1, column: -1 };
-        }
-        return this.tokens[this.cursor + n];
-    }
-
-    private advance(): Token {
-        return this.tokens[this.cursor++];
-    }
-
-    private match(expectedType: TokenType): Token {
-        const token = this.advance();
-        if (token.type !== expectedType) {
-            throw new CompilerError(
-                `Expected ${expectedType}, but got ${token.type} (${token.value})`,
-                CompilerErrorCode.SYNTAX_ERROR,
-                token.line,
-                token.column
-            );
-        }
-        return token;
-    }
-
-    // Major parsing methods for different SASS constructs
-    private parseStyleSheet(): StyleSheetNode {
-        const children: ASTNode[] = [];
-        while (this.peek().type !== TokenType.EOF) {
-            if (this.peek().type === TokenType.AT_RULE) {
-                children.push(this.parseAtRule());
-            } else if (this.peek().type === TokenType.VARIABLE) {
-                children.push(this.parseVariableDeclaration());
-            } else if (this.isSelectorStart(this.peek())) {
-                children.push(this.parseRuleSet());
-            } else {
-                throw new CompilerError(`Unexpected token at stylesheet level: ${this.peek().value}`, CompilerErrorCode.SYNTAX_ERROR, this.peek().line, this.peek().column);
-            }
-        }
-        return { type: 'StyleSheet', children };
-    }
-
-    private parseAtRule(): AtRuleNode {
-        const atRuleToken = this.match(TokenType.AT_RULE);
-        const name = atRuleToken.value.substring(1); // Remove '@'
-
-        let params = '';
-        const paramsStartToken = this.peek();
-        while (this.peek().type !== TokenType.OPEN_BRACE && this.peek().type !== TokenType.SEMICOLON && this.peek().type !== TokenType.EOF) {
-            params += this.advance().value;
-        }
-        params = params.trim();
-
-        if (this.peek().type === TokenType.SEMICOLON) {
-            this.advance(); // Consume semicolon for at-rules like @import
-            return { type: 'AtRule', name, params };
-        } else if (this.peek().type === TokenType.OPEN_BRACE) {
-            this.match(TokenType.OPEN_BRACE);
-            const children: ASTNode[] = [];
-            while (this.peek().type !== TokenType.CLOSE_BRACE && this.peek().type !== TokenType.EOF) {
-                // Nested rules, declarations, variables etc. depending on @rule type
-                if (this.peek().type === TokenType.AT_RULE) children.push(this.parseAtRule());
-                else if (this.peek().type === TokenType.VARIABLE) children.push(this.parseVariableDeclaration());
-                else if (this.isSelectorStart(this.peek())) children.push(this.parseRuleSet());
-                else if (this.isIdentifier(this.peek())) children.push(this.parseDeclaration());
-                else throw new CompilerError(`Unexpected token inside @${name} rule: ${this.peek().value}`, CompilerErrorCode.SYNTAX_ERROR, this.peek().line, this.peek().column);
-            }
-            this.match(TokenType.CLOSE_BRACE);
-            return { type: 'AtRule', name, params, children };
-        } else {
-            throw new CompilerError(`Expected '{' or ';' after @${name} parameters`, CompilerErrorCode.SYNTAX_ERROR, this.peek().line, this.peek().column);
-        }
-    }
-
-    private parseVariableDeclaration(): VariableNode {
-        const varToken = this.match(TokenType.VARIABLE);
-        this.match(TokenType.COLON);
-        let value = '';
-        while (this.peek().type !== TokenType.SEMICOLON && this.peek().type !== TokenType.EOF) {
-            value += this.advance().value;
-        }
-        this.match(TokenType.SEMICOLON);
-        return { type: 'Variable', name: varToken.value, value: value.trim() };
-    }
-
-    private isSelectorStart(token: Token): boolean {
-        return [
-            TokenType.IDENTIFIER, TokenType.SELECTOR_CHAR, TokenType.AND_OPERATOR
-        ].includes(token.type); // Simplistic check, real CSS selectors are complex.
-    }
-
-    private parseSelector(): string {
-        let selector = '';
-        while (this.peek().type !== TokenType.OPEN_BRACE && this.peek().type !== TokenType.EOF) {
-            // Need to handle commas for multiple selectors, attribute selectors, pseudo-classes, etc.
-            // This is a simplified selector parser for basic nesting.
-            if (this.peek().type === TokenType.COMMENT) { // Skip comments in selectors
-                this.advance();
-                continue;
-            }
-            selector += this.advance().value;
-        }
-        return selector.trim();
-    }
-
-    private parseRuleSet(): RuleSetNode {
-        const selector = this.parseSelector();
-        this.match(TokenType.OPEN_BRACE);
-        const children: ASTNode[] = [];
-        while (this.peek().type !== TokenType.CLOSE_BRACE && this.peek().type !== TokenType.EOF) {
-            if (this.peek().type === TokenType.VARIABLE) {
-                children.push(this.parseVariableDeclaration());
-            } else if (this.isSelectorStart(this.peek())) {
-                children.push(this.parseRuleSet()); // Nested rule
-            } else if (this.peek().type === TokenType.AT_RULE) {
-                children.push(this.parseAtRule()); // Nested at-rule
-            } else if (this.isIdentifier(this.peek())) {
-                children.push(this.parseDeclaration());
-            } else {
-                throw new CompilerError(`Unexpected token inside rule set: ${this.peek().value}`, CompilerErrorCode.SYNTAX_ERROR, this.peek().line, this.peek().column);
-            }
-        }
-        this.match(TokenType.CLOSE_BRACE);
-        return { type: 'RuleSet', selector, children };
-    }
-
-    private isIdentifier(token: Token): boolean {
-        return token.type === TokenType.IDENTIFIER;
-    }
-
-    private parseDeclaration(): DeclarationNode {
-        const propertyToken = this.match(TokenType.IDENTIFIER);
-        this.match(TokenType.COLON);
-        let value = '';
-        while (this.peek().type !== TokenType.SEMICOLON && this.peek().type !== TokenType.EOF) {
-            // This needs to handle complex values, function calls, arithmetic expressions
-            // For now, just grab everything until semicolon
-            value += this.advance().value;
-        }
-        this.match(TokenType.SEMICOLON);
-        return { type: 'Declaration', property: propertyToken.value, value: value.trim() };
-    }
-
-    public parse(): StyleSheetNode {
-        return this.parseStyleSheet();
-    }
-}
-
-// Invented Feature: `ASTProcessor` Class (Version 2.2 - Semantic Analysis & Transformation Engine)
-// Purpose: Traverse the AST, resolve variables, expand mixins, evaluate functions, and apply nesting logic.
-// This is where the core SASS-specific logic truly comes to life.
-export class ASTProcessor {
-    private globalVariables: Map<string, string>;
-    private mixinRegistry: Map<string, { args: string[]; body: ASTNode[]; }>;
-    private functionRegistry: Map<string, Function>; // Map function names to JS functions
-    private parentSelectors: string[];
-    private processedNodes: ASTNode[]; // To store flattened CSS rules
-
-    constructor() {
-        this.globalVariables = new Map();
-        this.mixinRegistry = new Map();
-        this.functionRegistry = new Map();
-        this.parentSelectors = [];
-        this.processedNodes = [];
-        this.registerBuiltInFunctions();
-    }
-
-    // Invented Feature: `registerBuiltInFunctions` (Version 2.3 - SASS Function Library)
-    // Purpose: Provide a rich set of SASS-compatible functions (color, string, math, list, map).
-    private registerBuiltInFunctions(): void {
-        // Color Functions (simplified for demo)
-        this.functionRegistry.set('darken', (color: string, amount: string) => {
-            // Placeholder: A real implementation would parse color, adjust lightness, reformat.
-            console.warn(`Function 'darken' invoked: ${color}, ${amount}`);
-            return `darken(${color}, ${amount})`; // Return as is for now
-        });
-        this.functionRegistry.set('lighten', (color: string, amount: string) => `lighten(${color}, ${amount})`);
-        this.functionRegistry.set('saturate', (color: string, amount: string) => `saturate(${color}, ${amount})`);
-        this.functionRegistry.set('desaturate', (color: string, amount: string) => `desaturate(${color}, ${amount})`);
-        this.functionRegistry.set('adjust-hue', (color: string, degrees: string) => `adjust-hue(${color}, ${degrees})`);
-        this.functionRegistry.set('rgba', (...args: string[]) => `rgba(${args.join(', ')})`);
-        this.functionRegistry.set('mix', (color1: string, color2: string, weight?: string) => `mix(${color1}, ${color2}, ${weight || '50%'})`);
-
-        // Math Functions (simplified)
-        this.functionRegistry.set('ceil', (num: string) => `ceil(${num})`);
-        this.functionRegistry.set('floor', (num: string) => `floor(${num})`);
-        this.functionRegistry.set('round', (num: string) => `round(${num})`);
-        this.functionRegistry.set('abs', (num: string) => `abs(${num})`);
-        this.functionRegistry.set('min', (...nums: string[]) => `min(${nums.join(', ')})`);
-        this.functionRegistry.set('max', (...nums: string[]) => `max(${nums.join(', ')})`);
-
-        // String Functions
-        this.functionRegistry.set('to-upper-case', (str: string) => `to-upper-case(${str})`);
-        this.functionRegistry.set('to-lower-case', (str: string) => `to-lower-case(${str})`);
-        this.functionRegistry.set('str-length', (str: string) => `str-length(${str})`);
-
-        // List Functions
-        this.functionRegistry.set('length', (list: string) => `length(${list})`);
-        this.functionRegistry.set('nth', (list: string, index: string) => `nth(${list}, ${index})`);
-
-        // Map Functions
-        this.functionRegistry.set('map-get', (map: string, key: string) => `map-get(${map}, ${key})`);
-
-        // Type Functions
-        this.functionRegistry.set('type-of', (value: string) => `type-of(${value})`);
-        this.functionRegistry.set('unit', (value: string) => `unit(${value})`);
-        this.functionRegistry.set('unitless', (value: string) => `unitless(${value})`);
-
-        // Add 100s more functions...
-        for (let i = 0; i < 100; i++) {
-            this.functionRegistry.set(`custom-func-${i}`, (...args: string[]) => `custom-func-${i}(${args.join(', ')})`);
-        }
-    }
-
-    // Invented Feature: `evaluateExpression` (Version 2.4 - Advanced Arithmetic & Function Evaluation)
-    // Purpose: Handle complex mathematical expressions and function calls within property values.
-    private evaluateExpression(expression: string, localVariables: Map<string, string>): string {
-        // Step 1: Replace variables
-        let evaluated = expression;
-        const allVariables = new Map([...this.globalVariables, ...localVariables]);
-        allVariables.forEach((value, name) => {
-            // Ensure variable name is correctly matched, avoiding partial matches
-            evaluated = evaluated.replace(new RegExp(escapeRegExp(name), 'g'), value);
-        });
-
-        // Step 2: Handle function calls
-        const functionCallRegex = /(\w+)\(([^)]*)\)/g;
-        evaluated = evaluated.replace(functionCallRegex, (match, funcName, argsStr) => {
-            if (this.functionRegistry.has(funcName)) {
-                const args = argsStr.split(',').map((s: string) => s.trim());
-                try {
-                    // Execute the registered JS function
-                    // This is a simplified direct execution. A real one would convert SASS types to JS, then back.
-                    return this.functionRegistry.get(funcName)!(...args);
-                } catch (e) {
-                    console.warn(`Error executing SASS function '${funcName}':`, e);
-                    throw new CompilerError(`Error executing SASS function '${funcName}'`, CompilerErrorCode.FUNCTION_NOT_FOUND);
-                }
-            }
-            return match; // If not a known function, leave as is
-        });
-
-        // Step 3: Basic arithmetic (building upon original compileScss logic)
-        // This is a simplified parser/evaluator. A robust one would use an actual expression AST.
-        for (let i = 0; i < 5; i++) { // Multiple passes for complex expressions
-            evaluated = evaluated.replace(/([\d.]+)(px|rem|em|%|vw|vh|ch|ex|vmin|vmax)\s*([*\/])\s*([\d.]+)/g, (_, n1, unit, op, n2) => {
-                const num1 = parseFloat(n1);
-                const num2 = parseFloat(n2);
-                if (isNaN(num1) || isNaN(num2)) {
-                    throw new CompilerError('Invalid numeric values in arithmetic operation', CompilerErrorCode.INVALID_ARITHMETIC_OPERATION);
-                }
-                const result = op === '*' ? num1 * num2 : num1 / num2;
-                return `${result}${unit}`;
-            });
-            evaluated = evaluated.replace(/([\d.]+)\s*([*\/])\s*([\d.]+)(px|rem|em|%|vw|vh|ch|ex|vmin|vmax)/g, (_, n1, op, n2, unit) => {
-                 const num1 = parseFloat(n1);
-                 const num2 = parseFloat(n2);
-                if (isNaN(num1) || isNaN(num2)) {
-                    throw new CompilerError('Invalid numeric values in arithmetic operation', CompilerErrorCode.INVALID_ARITHMETIC_OPERATION);
-                }
-                 const result = op === '*' ? num1 * num2 : num1 / num2;
-                 return `${result}${unit}`;
-             });
-            evaluated = evaluated.replace(/([\d.]+)\s*([+\-])\s*([\d.]+)/g, (_, n1, op, n2) => {
-                 const num1 = parseFloat(n1);
-                 const num2 = parseFloat(n2);
-                if (isNaN(num1) || isNaN(num2)) {
-                    throw new CompilerError('Invalid numeric values in arithmetic operation', CompilerErrorCode.INVALID_ARITHMETIC_OPERATION);
-                }
-                 const result = op === '+' ? num1 + num2 : num1 - num2;
-                 return `${result}`; // Units need to be handled carefully here, assuming they cancel or match.
-             });
-        }
-        return evaluated.trim();
-    }
-
-    // Invented Feature: `processAST` (Version 2.2 - Main AST Traversal Logic)
-    // Purpose: Orchestrate the transformation of the parsed AST into a flattened CSS structure.
-    public processAST(ast: StyleSheetNode): ASTNode[] {
-        this.processedNodes = []; // Reset for each compilation
-        this.traverseNode(ast);
-        return this.processedNodes;
-    }
-
-    private traverseNode(node: ASTNode, localVariables: Map<string, string> = new Map()): void {
-        switch (node.type) {
-            case 'StyleSheet':
-                node.children?.forEach(child => this.traverseNode(child, localVariables));
-                break;
-            case 'Variable':
-                const varNode = node as VariableNode;
-                // Variables can be overridden in local scopes
-                localVariables.set(varNode.name, this.evaluateExpression(varNode.value, localVariables));
-                break;
-            case 'RuleSet':
-                const ruleSetNode = node as RuleSetNode;
-                const currentSelector = this.resolveSelector(ruleSetNode.selector);
-                this.parentSelectors.push(currentSelector);
-
-                const declarations: DeclarationNode[] = [];
-                const nestedRules: RuleSetNode[] = [];
-                const nestedAtRules: AtRuleNode[] = [];
-                const nestedMixins: MixinCallNode[] = []; // Placeholder for mixins
-
-                ruleSetNode.children?.forEach(child => {
-                    if (child.type === 'Declaration') {
-                        declarations.push(child as DeclarationNode);
-                    } else if (child.type === 'RuleSet') {
-                        nestedRules.push(child as RuleSetNode);
-                    } else if (child.type === 'AtRule') {
-                        nestedAtRules.push(child as AtRuleNode);
-                    } else if (child.type === 'Variable') {
-                        localVariables.set((child as VariableNode).name, this.evaluateExpression((child as VariableNode).value, localVariables));
-                    }
-                    // TODO: Handle mixin calls inside rules
-                });
-
-                // Add declarations to processed nodes, after variable resolution and function evaluation
-                if (declarations.length > 0) {
-                    this.processedNodes.push({
-                        type: 'ProcessedRule',
-                        selector: currentSelector,
-                        children: declarations.map(decl => ({
-                            ...decl,
-                            value: this.evaluateExpression(decl.value, localVariables)
-                        }))
-                    });
-                }
-
-                // Process nested rules with updated parent selector
-                nestedRules.forEach(nestedRule => this.traverseNode(nestedRule, localVariables));
-
-                // Process nested at-rules. Some might need current selector context.
-                nestedAtRules.forEach(nestedAtRule => this.traverseNode(nestedAtRule, localVariables));
-
-                this.parentSelectors.pop(); // Pop current selector after processing its children
-                break;
-            case 'Declaration':
-                // Declarations inside a RuleSet are handled by the RuleSet processing logic
-                // Standalone declarations are not valid in CSS, but this might be called for
-                // values that need evaluation in other contexts.
-                break;
-            case 'AtRule':
-                const atRuleNode = node as AtRuleNode;
-                if (atRuleNode.name === 'mixin') {
-                    // Invented Feature: `MixinDefinition` (Version 2.5 - Mixin Support)
-                    // Purpose: Allow users to define reusable blocks of styles.
-                    const mixinNameRegex = /(\w+)\s*(?:\(([^)]*)\))?/;
-                    const match = atRuleNode.params.match(mixinNameRegex);
-                    if (match) {
-                        const mixinName = match[1];
-                        const args = match[2] ? match[2].split(',').map(a => a.trim().split(':')[0].replace('$', '')) : []; // Extract arg names
-                        if (atRuleNode.children) {
-                            this.mixinRegistry.set(mixinName, { args, body: atRuleNode.children });
-                        }
-                    }
-                } else if (atRuleNode.name === 'include') {
-                    // Invented Feature: `MixinInclusion` (Version 2.5 - Mixin Support)
-                    // Purpose: Apply defined mixins to a rule set.
-                    const includeRegex = /(\w+)\s*(?:\(([^)]*)\))?/;
-                    const match = atRuleNode.params.match(includeRegex);
-                    if (match) {
-                        const mixinName = match[1];
-                        const argValues = match[2] ? match[2].split(',').map(a => a.trim()) : [];
-                        const mixin = this.mixinRegistry.get(mixinName);
-                        if (mixin) {
-                            const mixinLocalVars = new Map<string, string>();
-                            mixin.args.forEach((argName, index) => {
-                                // Assign passed arguments to mixin's local variables
-                                mixinLocalVars.set(`$${argName}`, this.evaluateExpression(argValues[index] || '', localVariables));
-                            });
-                            // Process mixin body with its local variables and current parent selector context
-                            mixin.body.forEach(mixinChild => {
-                                if (mixinChild.type === 'Declaration') {
-                                    const processedDeclaration = {
-                                        ...mixinChild,
-                                        value: this.evaluateExpression((mixinChild as DeclarationNode).value, mixinLocalVars)
-                                    } as DeclarationNode;
-                                    // Add to the current rule's declarations, which means we need a way to pass them up.
-                                    // For now, simplify: assume mixins mostly add declarations to the current parent selector.
-                                    // A more robust implementation would require modifying the `ProcessedRule` for the current selector.
-                                    // For this conceptual expansion, we will simulate adding to the current context.
-                                    this.processedNodes.push({
-                                        type: 'ProcessedMixinDeclaration',
-                                        selector: this.parentSelectors[this.parentSelectors.length - 1] || 'root',
-                                        originalMixin: mixinName,
-                                        declaration: processedDeclaration
-                                    });
-                                } else if (mixinChild.type === 'RuleSet') {
-                                    // Nested rules inside mixins need to be processed
-                                    this.traverseNode(mixinChild, mixinLocalVars);
-                                }
-                                // Other nodes within a mixin (e.g., nested @rules, further includes) would also be handled.
-                            });
-                        } else {
-                            throw new CompilerError(`Mixin '${mixinName}' not found`, CompilerErrorCode.MIXIN_NOT_FOUND, atRuleNode.loc?.start.line, atRuleNode.loc?.start.column);
-                        }
-                    }
-                } else if (atRuleNode.name === 'function') {
-                    // Invented Feature: `@function` Support (Version 2.6 - Custom SASS Functions)
-                    // Purpose: Allow users to define custom functions within SASS.
-                    console.warn(`@function support is complex and would involve creating JS wrappers for user-defined SASS functions. Skipping full implementation for now.`);
-                    // A full implementation would parse function body, create a JS function, and add to functionRegistry.
-                } else {
-                    // For other at-rules like `@media`, `@keyframes`, just pass them through,
-                    // potentially resolving variables within their parameters and children.
-                    const resolvedParams = this.evaluateExpression(atRuleNode.params, localVariables);
-                    if (atRuleNode.children) {
-                        const originalParentSelectors = [...this.parentSelectors]; // Save context
-                        // At-rules like @media don't directly inherit selectors but apply their own context
-                        this.parentSelectors = []; // Clear for media query
-                        const processedChildren: ASTNode[] = [];
-                        atRuleNode.children.forEach(child => {
-                            // Recursively process children within the context of the at-rule
-                            this.traverseNode(child, localVariables);
-                            // This design implies processedNodes will contain flattened rules within the @media query.
-                            // A more robust AST would wrap these in a new `AtRuleNode` with `ProcessedRule` children.
-                            // For simplicity, we assume `processedNodes` will collect things globally.
-                        });
-                        this.parentSelectors = originalParentSelectors; // Restore context
-                        this.processedNodes.push({
-                            type: 'ProcessedAtRule',
-                            name: atRuleNode.name,
-                            params: resolvedParams,
-                            children: atRuleNode.children // This needs to be the processed children from `this.processedNodes` after being filtered
-                            // A proper implementation would have a dedicated `ProcessedAtRule` with a `children` array
-                            // containing the `ProcessedRule` nodes that belong to it.
-                        });
-                    } else {
-                        this.processedNodes.push({ type: 'ProcessedAtRule', name: atRuleNode.name, params: resolvedParams });
-                    }
-                }
-                break;
-            case 'Interpolation':
-                // Invented Feature: `Interpolation` (Version 2.7 - Dynamic Selector/Property/Value Strings)
-                // Purpose: Allow dynamic values in selectors, property names, and property values.
-                // This would involve evaluating the content of `#{...}`
-                const interpolationNode = node as InterpolationNode;
-                // For a real compiler, this would involve recursive evaluation of the content
-                // For this expanded stub, we just return the raw interpolated content
-                console.warn(`Interpolation ${interpolationNode.value} detected. A full implementation would evaluate its content.`);
-                break;
-            // ... handle other AST node types (e.g., conditionals, loops, functions, lists, maps)
-            default:
-                // console.warn(`Unhandled AST node type: ${node.type}`);
-                break;
-        }
-    }
-
-    // Invented Feature: `resolveSelector` (Version 2.8 - Advanced Selector Nesting)
-    // Purpose: Combine nested selectors correctly, handling `&`, combinators, and multiple selectors.
-    private resolveSelector(selector: string): string {
-        if (this.parentSelectors.length === 0) {
-            return selector;
-        }
-        const parent = this.parentSelectors[this.parentSelectors.length - 1];
-        if (selector.includes(',')) {
-            // Handle multiple selectors: .a, .b { ... } -> parent .a, parent .b { ... }
-            return selector.split(',').map(s => this.resolveSingleSelector(parent, s.trim())).join(', ');
-        }
-        return this.resolveSingleSelector(parent, selector);
-    }
-
-    private resolveSingleSelector(parent: string, child: string): string {
-        if (child.startsWith('&')) {
-            // &.class -> parent.class
-            // & > div -> parent > div
-            return child.replace(/&/g, parent);
-        }
-        if (child.startsWith('> ') || child.startsWith('+ ') || child.startsWith('~ ')) {
-            // Combinators starting a child selector imply direct relationship
-            return `${parent} ${child}`;
-        }
-        // Default: descendant selector
-        return `${parent} ${child}`;
-    }
-}
-
-// Invented Feature: `CodeGenerator` Class (Version 2.9 - CSS Output Renderer)
-// Purpose: Convert the processed AST (flattened CSS rules) back into a CSS string.
-export class CodeGenerator {
-    private indentLevel: number;
-    private options: CodeGeneratorOptions;
-
-    constructor(options: Partial<CodeGeneratorOptions> = {}) {
-        this.indentLevel = 0;
-        this.options = {
-            minify: false,
-            sourceMap: false,
-            ...options,
-        };
-    }
-
-    private indent(): string {
-        return this.options.minify ? '' : ' '.repeat(this.indentLevel * 2);
-    }
-
-    private newLine(): string {
-        return this.options.minify ? '' : '\n';
-    }
-
-    public generateCss(processedAST: ASTNode[]): string {
-        let css = '';
-        processedAST.forEach(node => {
-            if (node.type === 'ProcessedRule') {
-                const rule = node as RuleSetNode; // Reusing type, but this is a flattened rule
-                css += `${this.indent()}${rule.selector} {${this.newLine()}`;
-                this.indentLevel++;
-                (rule.children as DeclarationNode[]).forEach(decl => {
-                    css += `${this.indent()}${decl.property}: ${decl.value};${this.newLine()}`;
-                });
-                this.indentLevel--;
-                css += `${this.indent()}}${this.newLine()}${this.newLine()}`;
-            } else if (node.type === 'ProcessedAtRule') {
-                const atRule = node as AtRuleNode;
-                if (atRule.children && (atRule.children as ASTNode[]).length > 0) {
-                     css += `${this.indent()}@${atRule.name} ${atRule.params} {${this.newLine()}`;
-                     this.indentLevel++;
-                     // Recursively generate for children within this at-rule
-                     // This part needs careful handling to filter out only children that belong to this @rule in the flattened list.
-                     // For simplicity, this conceptual code assumes the children property holds the nested processed rules.
-                     (atRule.children as any[]).forEach((child: any) => {
-                         if (child.type === 'ProcessedRule') {
-                             css += `${this.indent()}${child.selector} {${this.newLine()}`;
-                             this.indentLevel++;
-                             child.children.forEach((decl: any) => {
-                                 css += `${this.indent()}${decl.property}: ${decl.value};${this.newLine()}`;
-                             });
-                             this.indentLevel--;
-                             css += `${this.indent()}}${this.newLine()}`;
-                         } else if (child.type === 'ProcessedDeclaration') { // For mixin-generated declarations
-                             css += `${this.indent()}${child.declaration.property}: ${child.declaration.value};${this.newLine()}`;
-                         }
-                     });
-                     this.indentLevel--;
-                     css += `${this.indent()}}${this.newLine()}${this.newLine()}`;
-                } else {
-                     css += `${this.indent()}@${atRule.name} ${atRule.params};${this.newLine()}${this.newLine()}`;
-                }
-            } else if (node.type === 'ProcessedMixinDeclaration') { // Handle declarations generated by mixins
-                const mixinDecl = node as any;
-                // This indicates that the mixin declaration needs to be injected into an existing rule.
-                // The current `processedNodes` structure makes this challenging for direct output.
-                // A better approach would be for ASTProcessor to directly modify `ProcessedRule` nodes.
-                // For this conceptual expansion, we will output it as a standalone declaration within its context,
-                // acknowledging this is a simplification.
-                // console.warn(`Mixin declaration for ${mixinDecl.selector} not fully integrated into parent rule.`);
-                // For now, these might appear as separate blocks or be skipped, indicating the complexity.
-            }
-        });
-        return css.trim();
-    }
-}
+// Chapter 2 (the Lexer, Parser, ASTProcessor and CodeGenerator) now lives in
+// `services/styles/scssCompiler.ts`, so other features can compile SCSS without this component.
 
 // Chapter 3: The Ascent to Enterprise-Grade (Late 2023 - Present)
 // With the core compiler solidified, the "Evergreen Styles" project entered its next phase:
@@ -1039,17 +139,6 @@ export interface VariableUsageReport {
 // including all advanced features and integrations. This is the heart of "Evergreen Styles."
 export class SassScssCompilerEngine {
     private options: CompilerOptions;
-    private lexer: Lexer;
-    private parser: Parser;
-    private astProcessor: ASTProcessor;
-    private codeGenerator: CodeGenerator;
-
-    // Invented Feature: `compilerWorker` (Version 3.6 - Web Worker for Offloading)
-    // Purpose: Delegate heavy compilation tasks to a web worker to keep the main thread responsive.
-    // This is a conceptual integration; the actual worker code would be in a separate file.
-    private compilerWorker: Worker | null = null;
-    private workerMessageId = 0;
-    private workerCallbacks = new Map<number, { resolve: (result: CompilationResult) => void; reject: (error: CompilerError) => void; }>();
 
     constructor(options: Partial<CompilerOptions> = {}) {
         this.options = {
@@ -1071,99 +160,35 @@ export class SassScssCompilerEngine {
             accessibilityCheck: true,
             ...options,
         };
-        this.lexer = new Lexer(''); // Input updated during compile call
-        this.parser = new Parser([]);
-        this.astProcessor = new ASTProcessor();
-        this.codeGenerator = new CodeGenerator({ minify: this.options.minify, sourceMap: this.options.sourceMap });
-
-        // Initialize web worker if supported
-        if (typeof Worker !== 'undefined') {
-            try {
-                // In a real app, this would be a separate file, e.g., new Worker('./compiler.worker.ts')
-                // For this single-file exercise, it's a conceptual worker.
-                this.compilerWorker = new Worker(URL.createObjectURL(new Blob([`
-                    // This is a placeholder for the actual worker logic.
-                    // In a real scenario, this worker would import the Lexer, Parser, ASTProcessor, etc.,
-                    // and expose a 'compile' method.
-                    self.onmessage = async (e) => {
-                        const { id, scss, options } = e.data;
-                        try {
-                            // Simulate compilation. In reality, it would instantiate and run the compiler classes.
-                            console.log('Worker received compilation request:', id);
-                            // This would be the full compiler logic running in the worker
-                            // const engine = new SassScssCompilerEngine(options);
-                            // const result = await engine._compileInternal(scss); // Internal, non-worker method
-                            const mockCompiledCss = "/* Compiled by worker for " + id + " */\\n" + scss.replace(/\\$primary-color:\\s*([^;]+);/, 'color: $1;') + "\\n/* Worker finished */";
-                            await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 200)); // Simulate work
-                            self.postMessage({ id, type: 'success', result: { css: mockCompiledCss, errors: [], warnings: [], performanceMetrics: { totalTimeMs: 150, lexerTimeMs: 10, parserTimeMs: 20, astProcessorTimeMs: 80, codeGenTimeMs: 40, workerOverheadMs: 5 } } });
-                        } catch (error: any) {
-                            self.postMessage({ id, type: 'error', error: { message: error.message, code: error.code || 'UNKNOWN_ERROR', line: error.line, column: error.column } });
-                        }
-                    };
-                `], { type: 'application/javascript' })));
-
-                this.compilerWorker.onmessage = (e) => {
-                    const { id, type, result, error } = e.data;
-                    const callback = this.workerCallbacks.get(id);
-                    if (callback) {
-                        if (type === 'success') {
-                            callback.resolve(result);
-                        } else {
-                            callback.reject(new CompilerError(error.message, error.code, error.line, error.column, error.suggestion));
-                        }
-                        this.workerCallbacks.delete(id);
-                    }
-                };
-                this.compilerWorker.onerror = (e) => {
-                    console.error('Compiler Worker Error:', e);
-                    // Reject all pending promises or handle a specific one if possible
-                    this.workerCallbacks.forEach(cb => cb.reject(new CompilerError(`Worker general error: ${e.message}`, CompilerErrorCode.UNKNOWN_ERROR)));
-                    this.workerCallbacks.clear();
-                };
-            } catch (error) {
-                console.warn("Failed to create Web Worker, falling back to main thread compilation:", error);
-                this.compilerWorker = null;
-            }
-        }
     }
 
     // Invented Feature: `_compileInternal` (Version 3.6 - Core Compilation Logic for Main Thread/Worker)
     // Purpose: Contains the actual step-by-step compilation logic, usable by both the main thread and a worker.
-    private _compileInternal(scss: string): CompilationResult {
+    // `entryPath` is the project file being compiled; `@use`/`@forward`/`@import` resolve relative to it.
+    private _compileInternal(scss: string, entryPath: string): CompilationResult {
         const startTime = performance.now();
         const errors: CompilerError[] = [];
         const warnings: string[] = [];
 
         try {
-            // Step 1: Lexical Analysis (Tokenization)
-            const lexerStart = performance.now();
-            this.lexer = new Lexer(scss); // Re-initialize with new input
-            const tokens = this.lexer.tokenize();
-            const lexerTimeMs = performance.now() - lexerStart;
-
-            if (this.options.debugMode) { console.log('Tokens:', tokens); }
-
-            // Step 2: Syntactic Analysis (AST Generation)
-            const parserStart = performance.now();
-            this.parser = new Parser(tokens); // Re-initialize with new tokens
-            const ast = this.parser.parse();
-            const parserTimeMs = performance.now() - parserStart;
-
-            if (this.options.debugMode) { console.log('AST:', JSON.stringify(ast, null, 2)); }
-
-            // Step 3: Semantic Analysis and Transformation (AST Processing)
-            const astProcessorStart = performance.now();
-            this.astProcessor = new ASTProcessor(); // Re-initialize for fresh state
-            const processedAST = this.astProcessor.processAST(ast);
-            const astProcessorTimeMs = performance.now() - astProcessorStart;
-
-            if (this.options.debugMode) { console.log('Processed AST (Flattened):', JSON.stringify(processedAST, null, 2)); }
+            // Steps 1-4: Tokenize, parse, evaluate and generate CSS with the shared compiler service.
+            // The entry file uses the live editor contents; `@use`d modules come from the project files.
+            const files = new Map(projectFileManager.getFiles().map(file => [file.path, file.content]));
+            files.set(entryPath, scss);
+            const compiled = compileScss(files, entryPath, {
+                minify: this.options.minify,
+                sourceMap: this.options.sourceMap,
+                importPaths: this.options.importPaths,
+                globalDefines: this.options.globalDefines,
+            });
+            if (this.options.debugMode) { console.log('Compiled stylesheets:', compiled.loadedFiles, compiled.timings); }
+            if (compiled.errors.length > 0) throw compiled.errors[0];
 
-            // Step 4: Code Generation (CSS Output)
-            const codeGenStart = performance.now();
-            this.codeGenerator = new CodeGenerator({ minify: this.options.minify, sourceMap: this.options.sourceMap });
-            let css = this.codeGenerator.generateCss(processedAST);
-            const codeGenTimeMs = performance.now() - codeGenStart;
+            warnings.push(...compiled.warnings);
+            const { lexerTimeMs, parserTimeMs, astProcessorTimeMs, codeGenTimeMs } = compiled.timings;
+            let css = compiled.css;
+            // The post-processing below only rewrites text within a line, so line mappings stay valid.
+            const sourceMap = compiled.sourceMap ? JSON.stringify(compiled.sourceMap) : undefined;
 
             // Invented Feature: `AutoprefixerService` (External Service Integration 1)
             // Purpose: Add vendor prefixes to CSS rules for browser compatibility.
@@ -1226,6 +251,7 @@ export class SassScssCompilerEngine {
 
             return {
                 css,
+                sourceMap,
                 errors,
                 warnings,
                 performanceMetrics,
@@ -1251,38 +277,22 @@ export class SassScssCompilerEngine {
     }
 
     // Invented Feature: `compile` (Version 3.0 - Public Compilation Interface)
-    // Purpose: Provide the primary entry point for compiling SCSS, leveraging web workers for performance.
-    public async compile(scss: string): Promise<CompilationResult> {
-        if (this.compilerWorker) {
-            return new Promise((resolve, reject) => {
-                const id = this.workerMessageId++;
-                this.workerCallbacks.set(id, { resolve, reject });
-                this.compilerWorker!.postMessage({ id, scss, options: this.options });
-            });
-        } else {
-            // Fallback to main thread if worker is not available or failed to initialize
-            return this._compileInternal(scss);
-        }
+    // Purpose: Provide the primary entry point for compiling SCSS. Compilation runs on the main thread
+    // because modules are resolved synchronously against the in-memory project files.
+    public async compile(scss: string, entryPath: string = 'main.scss'): Promise<CompilationResult> {
+        return this._compileInternal(scss, entryPath);
     }
 
     // Invented Feature: `updateOptions` (Version 3.7 - Dynamic Compiler Configuration)
     // Purpose: Allow runtime modification of compiler settings.
     public updateOptions(newOptions: Partial<CompilerOptions>): void {
         this.options = { ...this.options, ...newOptions };
-        this.codeGenerator = new CodeGenerator({ minify: this.options.minify, sourceMap: this.options.sourceMap });
-        // If worker is running, send update or restart worker to apply new options.
-        // For simplicity, we assume worker would be restarted or options passed per compile call.
     }
 
     // Invented Feature: `dispose` (Version 3.8 - Resource Management)
-    // Purpose: Clean up web worker and other resources when the compiler is no longer needed.
-    public dispose(): void {
-        if (this.compilerWorker) {
-            this.compilerWorker.terminate();
-            this.compilerWorker = null;
-            this.workerCallbacks.clear();
-        }
-    }
+    // Purpose: Release resources when the compiler is no longer needed. Compilation keeps no state
+    // between calls, so there is currently nothing to release.
+    public dispose(): void {}
 }
 
 // Invented Feature: `CompilerSingleton` (Version 3.9 - Centralized Compiler Instance)
@@ -1886,6 +896,14 @@ export class ProjectFileManager {
         console.warn(`Import resolution failed for: ${filePath}`);
         return undefined; // Or throw an error for strict mode
     }
+
+    // Invented Feature: `ModuleResolver` (Version 11.0 - Sass Module Resolution)
+    // Purpose: Resolve a `@use`/`@forward`/`@import` URL the way Dart Sass does: relative to the importing
+    // file first, then each configured import path, trying partials (`_name.scss`) and `_index.scss`.
+    public resolveModule(url: string, fromPath: string, importPaths: string[] = []): ProjectFile | undefined {
+        const path = resolveModulePath(candidate => this.files.has(candidate), url, fromPath, importPaths);
+        return path === undefined ? undefined : this.files.get(path);
+    }
 }
 export const projectFileManager = new ProjectFileManager(); // Singleton Project File Manager
 
@@ -2305,11 +1323,14 @@ interface EditorProps {
     themeName: string;
     editorRef: React.MutableRefObject<any>; // To expose Monaco editor instance
     markers?: CompilerError[]; // For error highlighting
+    onGoToSource?: (line: number, column: number) => void; // Adds a "Go to SCSS Source" action (F12)
 }
 
-export const EditorComponent: React.FC<EditorProps> = React.memo(({ value, onChange, language, themeName, editorRef, markers = [] }) => {
+export const EditorComponent: React.FC<EditorProps> = React.memo(({ value, onChange, language, themeName, editorRef, markers = [], onGoToSource }) => {
     const editorContainerRef = useRef<HTMLDivElement>(null);
     const modelRef = useRef<any>(null); // Reference to Monaco model
+    const onGoToSourceRef = useRef(onGoToSource);
+    onGoToSourceRef.current = onGoToSource;
 
     useEffect(() => {
         if (editorContainerRef.current) {
@@ -2326,8 +1347,22 @@ export const EditorComponent: React.FC<EditorProps> = React.memo(({ value, onCha
                 onChange(editor.getValue());
             });
 
+            const goToSourceAction = onGoToSourceRef.current && typeof editor.addAction === 'function'
+                ? editor.addAction({
+                    id: 'evergreen.goToScssSource',
+                    label: 'Go to SCSS Source',
+                    keybindings: [monacoEditorService.getMonaco()?.KeyCode?.F12].filter(Boolean),
+                    contextMenuGroupId: 'navigation',
+                    run: (instance: any) => {
+                        const position = instance.getPosition();
+                        if (position) onGoToSourceRef.current?.(position.lineNumber, position.column);
+                    },
+                })
+                : null;
+
             return () => {
                 disposable.dispose();
+                goToSourceAction?.dispose();
                 editor.dispose();
             };
         }
@@ -2512,7 +1547,7 @@ export const SassScssCompilerSettings: React.FC = () => {
             <p className="text-sm" style={{ color: theme.colors.textSecondary }}>
                 Compilation Speed (last compile): {compilerEngine['options'].debugMode ? 'Debug mode enabled' : 'N/A'}<br/>
                 Memory Usage (approx): {performance.memory ? `${(performance.memory.usedJSHeapSize / (1024 * 1024)).toFixed(2)} MB` : 'N/A'}<br/>
-                Worker Status: {compilerEngine['compilerWorker'] ? 'Active' : 'Fallback to Main Thread'}<br/>
+                Worker Status: Main Thread<br/>
                 AST Depth (last compile): {options.debugMode ? 'Calculated in debug mode' : 'N/A'}
             </p>
         </div>
@@ -3170,6 +2205,7 @@ export const SassScssCompiler: React.FC = () => {
 
     const scssEditorRef = useRef<any>(null); // For Monaco editor instance
     const cssEditorRef = useRef<any>(null); // For Monaco editor instance
+    const [pendingSourceJump, setPendingSourceJump] = useState<CssSourceSpan | null>(null);
 
     const { theme } = useTheme(); // Consume theme context
     const { options } = useCompilerConfig(); // Consume compiler config
@@ -3206,7 +2242,8 @@ export const SassScssCompiler: React.FC = () => {
         }
 
         try {
-            const result = await compilerEngine.compile(currentScss);
+            const entryPath = projectFileManager.getActiveFile()?.path;
+            const result = await compilerEngine.compile(currentScss, entryPath);
             setCompilationResult(result);
             compilationHistoryManager.addEntry(currentScss, result);
             TelemetryService.recordEvent('compilation_success', {
@@ -3216,7 +2253,7 @@ export const SassScssCompiler: React.FC = () => {
             });
             // Update Monaco editor markers
             if (scssEditorRef.current) {
-                monacoEditorService.updateEditorMarkers(scssEditorRef.current.getModel(), result.errors);
+                monacoEditorService.updateEditorMarkers(scssEditorRef.current.getModel(), result.errors.filter(error => !error.file || error.file === entryPath));
             }
         } catch (error: any) {
             console.error("Compilation failed unexpectedly:", error);
@@ -3244,6 +2281,36 @@ export const SassScssCompiler: React.FC = () => {
         }
     }, []);
 
+    // Invented Feature: `GoToScssSource` (Version 11.0 - Source Map Navigation)
+    // Purpose: Jump from a position in the compiled CSS to the SCSS rule or declaration that produced it,
+    // opening the module file when the CSS came from a `@use`d stylesheet.
+    const handleGoToSource = useCallback((line: number, column: number) => {
+        if (!compilationResult?.sourceMap) {
+            console.info('Enable source maps in the compiler settings to navigate from CSS to SCSS.');
+            return;
+        }
+        const original = originalPositionFor(compilationResult.sourceMap, line, column);
+        if (!original) return;
+        const targetFile = projectFileManager.getFiles().find(file => file.path === original.url);
+        if (targetFile && projectFileManager.getActiveFile()?.path !== targetFile.path) {
+            projectFileManager.setActiveFile(targetFile.path);
+        }
+        setPendingSourceJump({ ...original, url: targetFile?.path ?? projectFileManager.getActiveFile()?.path ?? original.url });
+        setActiveTab(CompilerTab.SCSS_INPUT);
+    }, [compilationResult]);
+
+    // Reveal the pending position once the SCSS editor shows the target file.
+    useEffect(() => {
+        const activeFile = projectFileManager.getActiveFile();
+        const editor = scssEditorRef.current;
+        if (!pendingSourceJump || activeTab !== CompilerTab.SCSS_INPUT || !editor) return;
+        if (activeFile && (activeFile.path !== pendingSourceJump.url || activeFile.content !== scss)) return;
+        editor.revealLineInCenter?.(pendingSourceJump.line);
+        editor.setPosition?.({ lineNumber: pendingSourceJump.line, column: pendingSourceJump.column });
+        editor.focus?.();
+        setPendingSourceJump(null);
+    }, [pendingSourceJump, activeTab, scss]);
+
     const handleRevertScss = useCallback((scssContent: string) => {
         setScss(scssContent);
         setDebouncedScss(scssContent);
@@ -3274,7 +2341,7 @@ export const SassScssCompiler: React.FC = () => {
                                         language="scss"
                                         themeName={theme.editorTheme === 'vs-dark' ? 'evergreen-dark' : 'evergreen-light'}
                                         editorRef={scssEditorRef}
-                                        markers={compilationResult?.errors || []}
+                                        markers={(compilationResult?.errors || []).filter(error => !error.file || error.file === projectFileManager.getActiveFile()?.path)}
                                     />
                                 </div>
                             </div>
@@ -3289,6 +2356,7 @@ export const SassScssCompiler: React.FC = () => {
                                         language="css"
                                         themeName={theme.editorTheme === 'vs-dark' ? 'evergreen-dark' : 'evergreen-light'}
                                         editorRef={cssEditorRef}
+                                        onGoToSource={handleGoToSource}
                                     />
                                 </div>
                                 <div className="flex mt-4 space-x-2 justify-end">
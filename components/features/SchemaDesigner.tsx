@@ -1,9 +1,15 @@
 // Copyright James Burvel Oâ€™Callaghan III
 // President Citibank Demo Business Inc.
 
-import React, { useState, useRef, useCallback, useEffect, createContext, useContext, useReducer } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo, createContext, useContext, useReducer } from 'react';
 import { MapIcon, ArrowDownTrayIcon, PlusIcon, TrashIcon, PencilIcon, ShareIcon, CodeBracketIcon, ServerStackIcon, CloudArrowUpIcon, LinkIcon, MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, CommandLineIcon, RobotIcon, RocketLaunchIcon, Cog6ToothIcon, SwatchIcon, BellAlertIcon, WifiIcon, FunnelIcon, CpuChipIcon, CubeTransparentIcon, GlobeAltIcon, DocumentTextIcon, FolderOpenIcon, StarIcon, WrenchScrewdriverIcon, FingerPrintIcon, LockClosedIcon, ShieldCheckIcon, WalletIcon } from '../icons.tsx'; // Expanding icon set
 import { downloadFile } from '../../services/fileUtils.ts';
+import { buildFeatureLink } from '../../services/routerService.ts';
+import type { Column, ColumnType, DatabaseDialect, Relationship, RelationshipCardinality, Table, View } from '../../services/schema/schemaModel.ts';
+import { MIGRATION_DIALECTS, buildMigrationPlan, columnNeedsBackfill, renderMigrationFiles } from '../../services/schema/schemaMigrations.ts';
+import type { ColumnBackfills, MigrationDialect, MigrationFormat, SavedSchemaVersion, SchemaVersionSource } from '../../services/schema/schemaMigrations.ts';
+import { detectSchemaImportFormat, importSchemaFromPrisma, importSchemaFromSql } from '../../services/schema/schemaImport.ts';
+import type { SchemaImportFormat, SchemaImportIssue, SchemaImportResult } from '../../services/schema/schemaImport.ts';
 import { v4 as uuidv4 } from 'uuid'; // Invented: UUID generation for unique IDs
 import { throttle } from 'lodash'; // Invented: Throttling utility for performance
 import mermaid from 'mermaid'; // Invented: Mermaid diagram generation for visualization
@@ -229,103 +235,6 @@ const externalServiceConfigurations: ExternalServiceConfig = {
     // ... (up to 1000 entries like these, for brevity, only a few are shown)
 };
 
-// Invented: Define complex schema element types for richer modeling
-export type ColumnType = 'VARCHAR' | 'INT' | 'TEXT' | 'BOOLEAN' | 'DATE' | 'TIMESTAMP' | 'UUID' | 'JSONB' | 'ENUM' | 'NUMERIC' | 'BYTEA' | 'XML' | 'GEOMETRY' | 'ARRAY' | 'SERIAL' | 'BIGINT' | 'SMALLINT' | 'REAL' | 'DOUBLE PRECISION' | 'MONEY' | 'INET' | 'CIDR' | 'MACADDR' | 'TSVECTOR' | 'TSQUERY' | 'BOX' | 'LINE' | 'LSEG' | 'PATH' | 'POLYGON' | 'CIRCLE' | 'POINT' | 'INTERVAL' | 'TIME' | 'BIT' | 'VARBIT' | 'BLOB' | 'CLOB' | 'NVARCHAR' | 'NCHAR' | 'ROWVERSION' | 'HIERARCHYID' | 'SQL_VARIANT' | 'UNIQUEIDENTIFIER' | 'SMALLDATETIME' | 'DATETIMEOFFSET' | 'IMAGE' | 'NTEXT' | 'XMLTYPE' | 'BFILE' | 'CFILE' | 'ROWID' | 'UROWID' | 'NUMBER' | 'CHAR' | 'BINARY_DOUBLE' | 'BINARY_FLOAT' | 'LONG' | 'LONG RAW' | 'RAW' | 'NCLOB' | 'BFILE' | 'CLOB' | 'URI_TYPE' | 'SDO_GEOMETRY' | 'ANYDATA';
-export type ConstraintType = 'PRIMARY KEY' | 'UNIQUE' | 'NOT NULL' | 'FOREIGN KEY' | 'CHECK' | 'EXCLUDE';
-export type IndexType = 'BTREE' | 'HASH' | 'GIN' | 'GIST' | 'SPGIST' | 'BRIN';
-export type RelationshipCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
-export type DatabaseDialect = 'PostgreSQL' | 'MySQL' | 'SQLite' | 'SQLServer' | 'Oracle' | 'GraphQL' | 'MongoDB' | 'Cassandra' | 'DynamoDB' | 'Neo4j' | 'BigQuery' | 'Snowflake'; // Invented: Support for various database dialects
-
-// Invented: Interfaces for advanced schema elements
-export interface Column {
-    id: string; // Changed to string UUID
-    name: string;
-    type: ColumnType;
-    isNullable: boolean;
-    defaultValue?: string;
-    comment?: string;
-    isPrimaryKey: boolean;
-    isUnique: boolean;
-    autoIncrement?: boolean;
-    size?: number; // For VARCHAR(size)
-    precision?: number; // For NUMERIC(precision, scale)
-    scale?: number;
-    enumOptions?: string[]; // For ENUM types
-    collation?: string;
-    srid?: number; // For GEOMETRY types
-}
-
-export interface Index {
-    id: string;
-    name: string;
-    columns: string[]; // Column IDs that form the index
-    type: IndexType;
-    isUnique: boolean;
-    filter?: string; // e.g., WHERE condition for partial indexes
-    includeColumns?: string[]; // For covering indexes (SQL Server)
-}
-
-export interface Constraint {
-    id: string;
-    name: string;
-    type: ConstraintType;
-    columnIds?: string[]; // Columns involved in the constraint
-    checkExpression?: string; // For CHECK constraints
-    // foreign key specific
-    referencedTableId?: string;
-    referencedColumnId?: string;
-    onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
-    onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
-}
-
-export interface Relationship { // Invented: Relationship model for foreign keys and other links
-    id: string;
-    fromTableId: string;
-    fromColumnId: string;
-    toTableId: string;
-    toColumnId: string;
-    name: string; // e.g., fk_users_posts
-    cardinality: RelationshipCardinality;
-    onDelete: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
-    onUpdate: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
-    // Visualization specific
-    controlPoints?: { x: number; y: number }[]; // For complex line routing
-    strokeColor?: string;
-    strokeWidth?: number;
-    // AI generated metadata
-    aiConfidence?: number;
-    aiSource?: 'Gemini' | 'ChatGPT' | 'User';
-}
-
-export interface Table {
-    id: string; // Changed to string UUID
-    name: string;
-    columns: Column[];
-    indexes: Index[]; // Invented: Indexes within a table
-    constraints: Constraint[]; // Invented: Constraints within a table (excluding FKs handled by Relationship)
-    x: number;
-    y: number;
-    width: number; // Invented: Table dimensions for better layout
-    height: number;
-    color: string; // Invented: Customizable table color
-    comment?: string; // Invented: Table level comments
-    tags: string[]; // Invented: Tags for categorization (e.g., 'core', 'audit', 'ecommerce')
-    // AI generated metadata
-    aiGenerated?: boolean;
-    aiGenerationPrompt?: string;
-    aiOptimizationSuggestions?: string[];
-}
-
-export interface View { // Invented: Database Views
-    id: string;
-    name: string;
-    definition: string; // SQL query defining the view
-    x: number;
-    y: number;
-    color: string;
-    comment?: string;
-}
-
 export interface Function { // Invented: Stored Functions/Procedures
     id: string;
     name: string;
@@ -390,6 +299,7 @@ export interface SchemaState {
     historyPointer: number;
     currentProject: SchemaProject | null; // For multi-project support
     notifications: { id: string; message: string; type: 'info' | 'warning' | 'error' | 'success'; timestamp: Date }[]; // Invented: In-app notifications
+    savedVersions: SavedSchemaVersion[]; // Invented: Named snapshots that migrations are generated against
 }
 
 // Invented: Action types for the schema reducer
@@ -422,7 +332,11 @@ type SchemaAction =
     | { type: 'DELETE_TRIGGER'; id: string }
     | { type: 'ADD_NOTIFICATION'; notification: { message: string; type: 'info' | 'warning' | 'error' | 'success'; duration?: number } }
     | { type: 'DISMISS_NOTIFICATION'; id: string }
-    | { type: 'APPLY_AI_SUGGESTION'; suggestion: any }; // Generic AI suggestion payload
+    | { type: 'APPLY_AI_SUGGESTION'; suggestion: any } // Generic AI suggestion payload
+    | { type: 'SAVE_VERSION'; name: string }
+    | { type: 'DELETE_VERSION'; id: string }
+    | { type: 'LOAD_VERSION'; id: string }
+    | { type: 'IMPORT_SCHEMA'; result: SchemaImportResult; mode: 'replace' | 'merge' };
 
 // Invented: Initial state for the reducer
 const initialSchemaState: SchemaState = {
@@ -443,12 +357,13 @@ const initialSchemaState: SchemaState = {
     historyPointer: -1,
     currentProject: null, // Placeholder for project management
     notifications: [],
+    savedVersions: [],
 };
 
 // Invented: Reducer function for complex schema state management
 const schemaReducer = (state: SchemaState, action: SchemaAction): SchemaState => {
     let newState = { ...state };
-    const newHistoryEntry: SchemaState = JSON.parse(JSON.stringify({ ...state, history: [], historyPointer: -1 })); // Deep copy for history
+    const newHistoryEntry: SchemaState = JSON.parse(JSON.stringify({ ...state, history: [], historyPointer: -1, savedVersions: [] })); // Deep copy for history
 
     // Helper to add to history
     const addStateToHistory = (s: SchemaState) => {
@@ -508,7 +423,7 @@ const schemaReducer = (state: SchemaState, action: SchemaAction): SchemaState =>
             newState.currentDialect = action.dialect;
             break;
         case 'LOAD_PROJECT':
-            newState = { ...action.project, history: [], historyPointer: -1, notifications: [] }; // Reset history on load
+            newState = { ...action.project, history: [], historyPointer: -1, notifications: [], savedVersions: state.savedVersions }; // Reset history on load
             newState.currentProject = action.project;
             break;
         case 'SAVE_PROJECT':
@@ -519,13 +434,13 @@ const schemaReducer = (state: SchemaState, action: SchemaAction): SchemaState =>
         case 'UNDO':
             if (state.historyPointer > 0) {
                 const prevState = state.history[state.historyPointer - 1];
-                newState = { ...prevState, history: state.history, historyPointer: state.historyPointer - 1 };
+                newState = { ...prevState, history: state.history, historyPointer: state.historyPointer - 1, savedVersions: state.savedVersions };
             }
             break;
         case 'REDO':
             if (state.historyPointer < state.history.length - 1) {
                 const nextState = state.history[state.historyPointer + 1];
-                newState = { ...nextState, history: state.history, historyPointer: state.historyPointer + 1 };
+                newState = { ...nextState, history: state.history, historyPointer: state.historyPointer + 1, savedVersions: state.savedVersions };
             }
             break;
         case 'ADD_VIEW':
@@ -575,6 +490,51 @@ const schemaReducer = (state: SchemaState, action: SchemaAction): SchemaState =>
             // This would involve parsing the suggestion and applying changes to tables, relationships, etc.
             newState.notifications.push({ id: uuidv4(), message: `AI suggestion applied: ${JSON.stringify(action.suggestion)}`, type: 'info', timestamp: new Date() });
             break;
+        case 'SAVE_VERSION':
+            newState.savedVersions = [...state.savedVersions, {
+                id: uuidv4(),
+                name: action.name,
+                savedAt: new Date().toISOString(),
+                schema: JSON.parse(JSON.stringify({ tables: state.tables, relationships: state.relationships, views: state.views })),
+            }];
+            break;
+        case 'DELETE_VERSION':
+            newState.savedVersions = state.savedVersions.filter(v => v.id !== action.id);
+            break;
+        case 'LOAD_VERSION': { // Invented: Opens a saved version on the canvas, e.g. from a deep link
+            const version = state.savedVersions.find(v => v.id === action.id);
+            if (!version) {
+                newState.notifications = [...state.notifications, { id: uuidv4(), message: 'The linked schema version was not found. Saved versions are stored in the browser they were saved in.', type: 'error', timestamp: new Date() }];
+                return newState;
+            }
+            const schema: SchemaVersionSource = JSON.parse(JSON.stringify(version.schema));
+            newState.tables = schema.tables;
+            newState.relationships = schema.relationships;
+            newState.views = schema.views;
+            newState.selectedElement = null;
+            newState.notifications = [...state.notifications, { id: uuidv4(), message: `Opened schema version "${version.name}".`, type: 'info', timestamp: new Date() }];
+            break;
+        }
+        case 'IMPORT_SCHEMA': {
+            const { result } = action;
+            if (action.mode === 'replace') {
+                newState.tables = result.tables;
+                newState.relationships = result.relationships;
+                newState.views = result.views;
+            } else {
+                // Merging replaces same-named tables and places the rest of the import to the right of the canvas.
+                const importedNames = new Set(result.tables.map(t => t.name.toLowerCase()));
+                const replacedIds = new Set(state.tables.filter(t => importedNames.has(t.name.toLowerCase())).map(t => t.id));
+                const kept = state.tables.filter(t => !replacedIds.has(t.id));
+                const offsetX = kept.reduce((max, t) => Math.max(max, t.x + t.width + 70), 0);
+                newState.tables = [...kept, ...result.tables.map(t => ({ ...t, x: t.x + offsetX }))];
+                newState.relationships = [...state.relationships.filter(r => !replacedIds.has(r.fromTableId) && !replacedIds.has(r.toTableId)), ...result.relationships];
+                newState.views = [...state.views, ...result.views];
+            }
+            if (result.dialect) newState.currentDialect = result.dialect;
+            newState.selectedElement = null;
+            break;
+        }
         default:
             throw new Error(`Unhandled action type: ${action}`);
     }
@@ -595,9 +555,22 @@ export const useSchema = () => {
     return context;
 };
 
+// Invented: Saved versions outlive the session, so migrations can be generated against last week's schema.
+const SAVED_VERSIONS_STORAGE_KEY = 'schemaDesignerVersions';
+
+const loadSavedVersions = (state: SchemaState): SchemaState => {
+    try {
+        const saved = localStorage.getItem(SAVED_VERSIONS_STORAGE_KEY);
+        return saved ? { ...state, savedVersions: JSON.parse(saved) } : state;
+    } catch (error) {
+        console.warn('Could not read saved schema versions:', error);
+        return state;
+    }
+};
+
 // Invented: Provider component for the schema context
 export const SchemaProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [state, dispatch] = useReducer(schemaReducer, initialSchemaState);
+    const [state, dispatch] = useReducer(schemaReducer, initialSchemaState, loadSavedVersions);
 
     // Initial population of relationships for the demo data
     useEffect(() => {
@@ -682,6 +655,10 @@ export const SchemaProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         }
     }, []);
 
+    useEffect(() => {
+        localStorage.setItem(SAVED_VERSIONS_STORAGE_KEY, JSON.stringify(state.savedVersions));
+    }, [state.savedVersions]);
+
     useEffect(() => {
         // Debounced save to local storage
         const debouncedSave = throttle(() => {
@@ -1425,6 +1402,200 @@ export const SidebarEditor: React.FC = () => {
     );
 };
 
+// Invented: Migration generator. Diffs two schema versions (saved snapshots or the live schema) and previews the
+// up migration, with destructive steps called out before anything is downloaded.
+export const MigrationPanel: React.FC = () => {
+    const { state, dispatch } = useSchema();
+    const [versionName, setVersionName] = useState('');
+    const [fromId, setFromId] = useState('empty');
+    const [toId, setToId] = useState('current');
+    const [dialect, setDialect] = useState<MigrationDialect>(
+        MIGRATION_DIALECTS.includes(state.currentDialect as MigrationDialect) ? state.currentDialect as MigrationDialect : 'PostgreSQL'
+    );
+    const [format, setFormat] = useState<MigrationFormat>('sql');
+    const [migrationName, setMigrationName] = useState('schema_changes');
+    const [backfills, setBackfills] = useState<ColumnBackfills>({});
+
+    const resolveVersion = useCallback((id: string): SchemaVersionSource => {
+        if (id === 'current') return state;
+        return state.savedVersions.find(v => v.id === id)?.schema || { tables: [], relationships: [], views: [] };
+    }, [state]);
+
+    const plan = useMemo(() => buildMigrationPlan(resolveVersion(fromId), resolveVersion(toId), dialect, backfills), [resolveVersion, fromId, toId, dialect, backfills]);
+    const files = useMemo(() => renderMigrationFiles(plan, format, migrationName), [plan, format, migrationName]);
+    // NOT NULL columns added without a default, by the up or the down migration, need a value for existing rows
+    const backfillColumns = useMemo(() => [...plan.changes, ...plan.downChanges].flatMap(change =>
+        change.kind === 'addColumn' && columnNeedsBackfill(change.column) ? [{ table: change.table, column: change.column }] : []
+    ), [plan]);
+    const missingBackfill = backfillColumns.some(({ column }) => !backfills[column.id]?.trim());
+
+    const saveVersion = () => {
+        const name = versionName.trim() || `Version ${state.savedVersions.length + 1}`;
+        dispatch({ type: 'SAVE_VERSION', name });
+        dispatch({ type: 'ADD_NOTIFICATION', notification: { message: `Saved schema version "${name}".`, type: 'success', duration: 2000 } });
+        setVersionName('');
+    };
+
+    const downloadMigration = () => {
+        const mimeType = format === 'knex' ? 'application/javascript' : 'application/sql';
+        files.forEach(file => downloadFile(file.content, file.path.replace(/^.*migrations\//, '').replace(/\//g, '_'), mimeType));
+    };
+
+    const versionOptions = state.savedVersions.map(v => <option key={v.id} value={v.id}>{v.name} ({new Date(v.savedAt).toLocaleString()})</option>);
+
+    // Invented: Open a saved version, or copy a link that opens it in a new session of this browser
+    const [linkedVersionId, setLinkedVersionId] = useState('');
+    const copyVersionLink = async () => {
+        try {
+            await navigator.clipboard.writeText(buildFeatureLink('schema-designer', { versionId: linkedVersionId }));
+            dispatch({ type: 'ADD_NOTIFICATION', notification: { message: 'Link to the schema version copied.', type: 'success', duration: 2000 } });
+        } catch (error) {
+            dispatch({ type: 'ADD_NOTIFICATION', notification: { message: 'Could not copy the link.', type: 'error' } });
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2 p-4 bg-surface border border-border rounded-lg shadow-md">
+            <h3 className="font-bold mb-2 text-lg flex items-center"><DocumentTextIcon className="w-5 h-5 mr-2" />Migrations</h3>
+            <div className="flex gap-2">
+                <input value={versionName} onChange={e => setVersionName(e.target.value)} placeholder="Version name" className="flex-grow p-2 text-sm border rounded-md bg-background" />
+                <button onClick={saveVersion} className="btn-secondary text-sm">Save Version</button>
+            </div>
+            {state.savedVersions.length > 0 && (
+                <div className="flex gap-2">
+                    <select value={linkedVersionId} onChange={e => setLinkedVersionId(e.target.value)} className="flex-grow p-2 text-sm border rounded-md bg-background">
+                        <option value="">Saved version…</option>
+                        {versionOptions}
+                    </select>
+                    <button onClick={() => dispatch({ type: 'LOAD_VERSION', id: linkedVersionId })} disabled={!linkedVersionId} className="btn-secondary text-sm">Open</button>
+                    <button onClick={copyVersionLink} disabled={!linkedVersionId} className="btn-secondary text-sm">Copy Link</button>
+                </div>
+            )}
+            <label className="block">
+                <span className="text-text-secondary text-sm">From:</span>
+                <select value={fromId} onChange={e => setFromId(e.target.value)} className="w-full mt-1 p-2 border rounded-md bg-background">
+                    <option value="empty">Empty database</option>
+                    {versionOptions}
+                    <option value="current">Current schema</option>
+                </select>
+            </label>
+            <label className="block">
+                <span className="text-text-secondary text-sm">To:</span>
+                <select value={toId} onChange={e => setToId(e.target.value)} className="w-full mt-1 p-2 border rounded-md bg-background">
+                    <option value="current">Current schema</option>
+                    {versionOptions}
+                </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+                <select value={dialect} onChange={e => setDialect(e.target.value as MigrationDialect)} className="p-2 border rounded-md bg-background text-sm">
+                    {MIGRATION_DIALECTS.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+                <select value={format} onChange={e => setFormat(e.target.value as MigrationFormat)} className="p-2 border rounded-md bg-background text-sm">
+                    <option value="sql">Raw SQL</option>
+                    <option value="knex">Knex</option>
+                    <option value="prisma">Prisma Migrate</option>
+                </select>
+            </div>
+            <input value={migrationName} onChange={e => setMigrationName(e.target.value)} placeholder="Migration name" className="p-2 text-sm border rounded-md bg-background" />
+            {plan.changes.length === 0 ? (
+                <p className="text-sm text-text-secondary">No changes between these versions.</p>
+            ) : (
+                <ul className="text-xs space-y-1 max-h-40 overflow-auto">
+                    {plan.changes.map((change, i) => (
+                        <li key={i} className={change.destructive ? 'text-red-500 font-semibold' : change.warning ? 'text-yellow-600' : 'text-text-secondary'}>
+                            {change.destructive ? '⚠ ' : ''}{change.description}{change.warning ? ` — ${change.warning}` : ''}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {backfillColumns.length > 0 && (
+                <div className="flex flex-col gap-1">
+                    <span className="text-text-secondary text-sm">Backfill for existing rows (SQL expression):</span>
+                    {backfillColumns.map(({ table, column }) => (
+                        <label key={column.id} className="flex items-center gap-2 text-xs">
+                            <span className="font-mono w-1/2 truncate">{table.name}.{column.name}</span>
+                            <input
+                                value={backfills[column.id] ?? ''}
+                                onChange={e => setBackfills(current => ({ ...current, [column.id]: e.target.value }))}
+                                placeholder="e.g. 0 or lower(&quot;email&quot;)"
+                                className="flex-grow p-1 border rounded-md bg-background font-mono"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+            <pre className="text-xs p-2 bg-background rounded-md max-h-48 overflow-auto whitespace-pre-wrap">{files[0]?.content}</pre>
+            <button onClick={downloadMigration} disabled={plan.changes.length === 0 || missingBackfill} title={missingBackfill ? 'Give every NOT NULL column without a default a backfill expression.' : undefined} className="btn-primary text-sm flex items-center justify-center gap-2">
+                <ArrowDownTrayIcon className="w-4 h-4" /> Download Migration
+            </button>
+        </div>
+    );
+};
+
+// Invented: Import panel for existing DDL scripts and Prisma schemas
+export const ImportPanel: React.FC = () => {
+    const { dispatch } = useSchema();
+    const [source, setSource] = useState('');
+    const [format, setFormat] = useState<SchemaImportFormat | 'auto'>('auto');
+    const [replace, setReplace] = useState(true);
+    const [issues, setIssues] = useState<SchemaImportIssue[]>([]);
+
+    const loadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        setSource(await file.text());
+        setFormat(file.name.endsWith('.prisma') ? 'prisma' : file.name.endsWith('.sql') ? 'sql' : 'auto');
+        event.target.value = '';
+    };
+
+    const importSchema = () => {
+        const resolvedFormat = format === 'auto' ? detectSchemaImportFormat(source) : format;
+        const result = resolvedFormat === 'prisma' ? importSchemaFromPrisma(source) : importSchemaFromSql(source);
+        setIssues(result.issues);
+        if (result.tables.length === 0) {
+            dispatch({ type: 'ADD_NOTIFICATION', notification: { message: 'No tables found to import.', type: 'warning', duration: 3000 } });
+            return;
+        }
+        dispatch({ type: 'IMPORT_SCHEMA', result, mode: replace ? 'replace' : 'merge' });
+        dispatch({
+            type: 'ADD_NOTIFICATION',
+            notification: {
+                message: `Imported ${result.tables.length} tables and ${result.relationships.length} relationships${result.issues.length ? ` with ${result.issues.length} unsupported constructs` : ''}.`,
+                type: result.issues.length ? 'warning' : 'success',
+                duration: 3000,
+            },
+        });
+    };
+
+    return (
+        <div className="flex flex-col gap-2 p-4 bg-surface border border-border rounded-lg shadow-md">
+            <h3 className="font-bold mb-2 text-lg flex items-center"><FolderOpenIcon className="w-5 h-5 mr-2" />Import Schema</h3>
+            <textarea value={source} onChange={e => setSource(e.target.value)} placeholder="Paste CREATE TABLE statements or a schema.prisma file" rows={6} className="p-2 text-xs font-mono border rounded-md bg-background" />
+            <div className="grid grid-cols-2 gap-2">
+                <select value={format} onChange={e => setFormat(e.target.value as SchemaImportFormat | 'auto')} className="p-2 border rounded-md bg-background text-sm">
+                    <option value="auto">Detect format</option>
+                    <option value="sql">SQL DDL</option>
+                    <option value="prisma">Prisma schema</option>
+                </select>
+                <label className="btn-secondary text-sm text-center cursor-pointer">
+                    Open File…
+                    <input type="file" accept=".sql,.prisma,.ddl,.txt" onChange={loadFile} className="hidden" />
+                </label>
+            </div>
+            <label className="flex items-center text-sm">
+                <input type="checkbox" checked={replace} onChange={e => setReplace(e.target.checked)} className="mr-2" />
+                Replace current schema (otherwise merge)
+            </label>
+            <button onClick={importSchema} disabled={!source.trim()} className="btn-primary text-sm">Import</button>
+            {issues.length > 0 && (
+                <ul className="text-xs space-y-1 max-h-40 overflow-auto text-yellow-600">
+                    {issues.map((issue, i) => <li key={i}>Line {issue.line}: {issue.message}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
 // Invented: Notification component
 export const NotificationDisplay: React.FC = () => {
     const { state, dispatch } = useSchema();
@@ -1637,17 +1808,22 @@ export const Toolbar: React.FC = () => {
 };
 
 // Main SchemaDesigner Component wrapped with SchemaProvider
-export const SchemaDesigner: React.FC = () => {
+export const SchemaDesigner: React.FC<{ versionId?: string }> = ({ versionId }) => {
     return (
         <SchemaProvider>
-            <SchemaDesignerContent />
+            <SchemaDesignerContent versionId={versionId} />
         </SchemaProvider>
     );
 };
 
 // Invented: Main content component, decoupled from provider
-const SchemaDesignerContent: React.FC = () => {
+const SchemaDesignerContent: React.FC<{ versionId?: string }> = ({ versionId }) => {
     const { state, dispatch } = useSchema();
+
+    // Invented: Deep links name a saved version to open
+    useEffect(() => {
+        if (versionId) dispatch({ type: 'LOAD_VERSION', id: versionId });
+    }, [versionId, dispatch]);
     const { tables, relationships, selectedElement, zoomLevel, panOffset } = state;
 
     const canvasRef = useRef<HTMLDivElement>(null);
@@ -1836,6 +2012,8 @@ const SchemaDesignerContent: React.FC = () => {
                             </p>
                         </div>
                     </div>
+                    <ImportPanel /> {/* Invented: DDL and Prisma schema import */}
+                    <MigrationPanel /> {/* Invented: Schema diffing and migration scripts */}
                     <SidebarEditor /> {/* Invented: Dedicated editor component */}
                 </aside>
             </div>
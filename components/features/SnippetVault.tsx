@@ -11,11 +11,26 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef, createContext, useContext, useReducer } from 'react';
 import { LockClosedIcon, SparklesIcon, TrashIcon, ClipboardDocumentIcon, ArrowDownTrayIcon } from '../icons.tsx';
 import { useLocalStorage } from '../../hooks/useLocalStorage.ts';
-import { enhanceSnippetStream, generateTagsForCode } from '../../services/aiService.ts'; // Initial AI integrations
+import { useAiUsage } from '../../hooks/useAiUsage.ts';
+import { generateSnippetTags, stream } from '../../services/ai/index.ts';
+import { getPeriodStart } from '../../services/ai/usageLedger.ts';
 import { LoadingSpinner } from '../shared/index.tsx';
 import { downloadFile } from '../../services/fileUtils.ts';
 import { useNotification } from '../../contexts/NotificationContext.tsx';
 
+// The vault's AI calls go through services/ai under its feature id, so they use the provider chosen for the vault
+// and are counted in the usage ledger that the settings panel reads.
+const SNIPPET_VAULT_FEATURE_ID = 'portable-snippet-vault';
+
+const enhanceSnippetStream = (code: string): AsyncIterable<string> => stream({
+    featureId: SNIPPET_VAULT_FEATURE_ID,
+    systemInstruction: 'You are a senior engineer who tidies code snippets. Reply with the code only, in a single fenced block.',
+    prompt: `Improve this snippet: clearer names, comments where the intent is not obvious, and fixes for any bugs. Keep its behaviour and language.\n\n\`\`\`\n${code}\n\`\`\``,
+    temperature: 0.3,
+});
+
+const generateTagsForCode = (code: string): Promise<string[]> => generateSnippetTags(code, SNIPPET_VAULT_FEATURE_ID);
+
 // Invented: SyntaxHighlighting component for richer code display.
 // This component leverages advanced code highlighting libraries (conceptual, like Monaco Editor or Prism.js)
 // to provide a professional-grade code viewing experience.
@@ -1725,16 +1740,10 @@ export const SnippetVault: React.FC = () => {
     export const SettingsPanel: React.FC = () => {
         const { settings, updateSettings, userProfile, updateUserProfile } = useSnippetVault();
         const [tempApiKey, setTempApiKey] = useState<string>(userProfile.apiKeys.GEMINI_API_KEY || '');
-        const [taggingCost, setTaggingCost] = useState(0.01); // Invented: Cost model for AI features.
-
-        useEffect(() => {
-            // Invented: Fetch AI cost model from a billing service (conceptual).
-            const fetchAICosts = async () => {
-                const costs = await new Promise(res => setTimeout(() => res({ tagging: 0.01, enhance: 0.05, refactor: 0.1 }), 500));
-                setTaggingCost((costs as any).tagging);
-            };
-            fetchAICosts();
-        }, []);
+        // Average spend per AI call this month, from the AI usage ledger.
+        const usageSince = useMemo(() => getPeriodStart('month'), []);
+        const { summary: aiUsage } = useAiUsage(usageSince, SNIPPET_VAULT_FEATURE_ID);
+        const averageCallCost = aiUsage.total.calls > 0 ? aiUsage.total.costUSD / aiUsage.total.calls : null;
 
         const handleSaveApiKeys = () => {
             updateUserProfile({ apiKeys: { ...userProfile.apiKeys, GEMINI_API_KEY: tempApiKey } });
@@ -1829,7 +1838,7 @@ export const SnippetVault: React.FC = () => {
                                         onChange={e => updateSettings({ aiAutoTaggingEnabled: e.target.checked })}
                                         className="form-checkbox h-5 w-5 text-primary rounded"
                                     />
-                                    <span className="text-text-primary">Enable AI Auto-Tagging <span className="text-xs text-text-secondary">(${taggingCost}/tag)</span></span>
+                                    <span className="text-text-primary">Enable AI Auto-Tagging <span className="text-xs text-text-secondary">({averageCallCost === null ? 'no AI calls this month' : `~$${averageCallCost.toFixed(4)} per call this month`})</span></span>
                                 </label>
                                 <label className="flex items-center space-x-3">
                                     <input
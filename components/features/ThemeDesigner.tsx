@@ -3,11 +3,12 @@
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { SparklesIcon, ArrowDownTrayIcon, PhotoIcon } from '../icons.tsx';
-import { generateSemanticTheme } from '../../services/index.ts';
+import { generateSemanticTheme } from '../../services/ai/index.ts';
 import { fileToBase64 } from '../../services/fileUtils.ts';
 import type { SemanticColorTheme, ColorTheme } from '../../types.ts';
 import { LoadingSpinner } from '../shared/index.tsx';
 import { useTheme } from '../../hooks/useTheme.ts';
+import { compile as compileScss } from '../../services/styles/scssCompiler.ts';
 
 // --- Start of Massive Feature Injection ---
 // This section details the comprehensive expansion of the ThemeDesigner,
@@ -896,29 +897,60 @@ const services = {
      * Invented to bridge Project Chimera with existing design and development workflows.
      */
     export: {
+        /**
+         * @function exportToScss
+         * @description Generates an SCSS partial with the theme as Sass maps and a `css-variables` mixin.
+         * @param {ExtendedSemanticColorTheme} theme - The theme to export.
+         * @returns {string} - SCSS source for a `_theme.scss` partial.
+         * Invented so Sass codebases can `@use` the theme directly.
+         */
+        exportToScss: (theme: ExtendedSemanticColorTheme): string => {
+            // Values with top-level commas (font stacks) are parenthesized so they stay a single map value.
+            const entry = (key: string, value: string | number) => {
+                const text = String(value);
+                return `  "${key}": ${text.includes(',') ? `(${text})` : text},\n`;
+            };
+            let scss = `// Generated by Theme Designer (${theme.metadata.generationId})\n`;
+            scss += `$palette: (\n${Object.entries(theme.palette).map(([key, value]) => entry(key, value.value)).join('')});\n\n`;
+            scss += `$theme: (\n${Object.entries(theme.theme).map(([key, value]) => entry(key, value.value)).join('')});\n\n`;
+            scss += `$typography: (\n`;
+            Object.entries(theme.typography).forEach(([key, style]) => {
+                if (typeof style !== 'object' || style === null || !('font' in style)) return;
+                scss += entry(`${key}-family`, style.font.stack);
+                scss += entry(`${key}-size`, style.fontSize);
+                scss += entry(`${key}-line-height`, style.lineHeight);
+                scss += entry(`${key}-weight`, style.fontWeight);
+                scss += entry(`${key}-letter-spacing`, style.letterSpacing);
+            });
+            scss += `);\n\n`;
+            scss += `$spacing: (\n${theme.spacing.scale.map(s => entry(s.name, s.value)).join('')});\n\n`;
+            scss += `@mixin css-variables {\n`;
+            scss += `  @each $name, $value in $palette { --color-palette-#{$name}: #{$value}; }\n`;
+            scss += `  @each $name, $value in $theme { --color-theme-#{$name}: #{$value}; }\n`;
+            scss += `  @each $name, $value in $typography { --font-#{$name}: #{$value}; }\n`;
+            scss += `  @each $name, $value in $spacing { --spacing-#{$name}: #{$value}; }\n`;
+            scss += `}\n`;
+            return scss;
+        },
+
         /**
          * @function exportToCssVariables
-         * @description Generates a CSS string with theme variables.
+         * @description Generates a CSS string with theme variables by compiling the SCSS export.
          * @param {ExtendedSemanticColorTheme} theme - The theme to export.
          * @returns {string} - CSS string.
          * Invented for direct CSS integration.
          */
         exportToCssVariables: (theme: ExtendedSemanticColorTheme): string => {
             console.log("Exporting to CSS Variables...");
-            let css = `:root {\n`;
-            Object.entries(theme.palette).forEach(([key, value]) => css += `  --color-palette-${key}: ${value.value};\n`);
-            Object.entries(theme.theme).forEach(([key, value]) => css += `  --color-theme-${key}: ${value.value};\n`);
-            Object.entries(theme.typography).forEach(([key, style]) => {
-                if (typeof style !== 'object' || style === null) return;
-                css += `  --font-${key}-family: ${style.font.stack};\n`;
-                css += `  --font-${key}-size: ${style.fontSize};\n`;
-                css += `  --font-${key}-line-height: ${style.lineHeight};\n`;
-                css += `  --font-${key}-weight: ${style.fontWeight};\n`;
-                css += `  --font-${key}-letter-spacing: ${style.letterSpacing};\n`;
-            });
-            theme.spacing.scale.forEach((s) => css += `  --spacing-${s.name}: ${s.value};\n`);
-            css += `}\n`;
-            return css;
+            const result = compileScss({
+                '_theme.scss': services.export.exportToScss(theme),
+                'theme.scss': `@use "theme";\n:root { @include theme.css-variables; }\n`,
+            }, 'theme.scss');
+            if (result.errors.length > 0) {
+                const [first] = result.errors;
+                throw new Error(`Theme CSS failed to compile: ${first.message}${first.line ? ` (line ${first.line})` : ''}`);
+            }
+            return result.css;
         },
 
         /**
@@ -1271,7 +1303,7 @@ export const ThemeDesigner: React.FC = () => {
     const [selectedAiPersonaId, setSelectedAiPersonaId] = useState<string>('default');
     const [refinementPrompt, setRefinementPrompt] = useState('');
     const [isRefining, setIsRefining] = useState(false);
-    const [exportFormat, setExportFormat] = useState('css'); // 'css', 'tailwind', 'figma'
+    const [exportFormat, setExportFormat] = useState('css'); // 'css', 'scss', 'tailwind', 'figma'
     const [figmaApiToken, setFigmaApiToken] = useState(''); // Simulated secure storage
     const [figmaFileId, setFigmaFileId] = useState('');
     const [showExportModal, setShowExportModal] = useState(false);
@@ -1508,6 +1540,19 @@ export const ThemeDesigner: React.FC = () => {
                     URL.revokeObjectURL(url);
                     break;
                 }
+                case 'scss': {
+                    const scss = services.export.exportToScss(theme);
+                    const blob = new Blob([scss], { type: 'text/x-scss' });
+                    const url = URL.createObjectURL(blob);
+                    const a = document.createElement('a');
+                    a.href = url;
+                    a.download = `_theme.scss`;
+                    document.body.appendChild(a);
+                    a.click();
+                    document.body.removeChild(a);
+                    URL.revokeObjectURL(url);
+                    break;
+                }
                 case 'tailwind': {
                     const tailwindConfig = services.export.exportToTailwindConfig(theme);
                     const configString = `module.exports = ${JSON.stringify(tailwindConfig, null, 2)};`;
@@ -1733,6 +1778,7 @@ export const ThemeDesigner: React.FC = () => {
                                     className="w-full p-2 text-sm rounded-md bg-background border border-border"
                                 >
                                     <option value="css">CSS Variables</option>
+                                    <option value="scss">SCSS Partial</option>
                                     <option value="tailwind">Tailwind CSS Config</option>
                                     <option value="figma">Figma (Design Tokens)</option>
                                     <option value="sdk">JavaScript SDK</option>
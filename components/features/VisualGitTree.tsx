@@ -6,6 +6,8 @@ import { GitBranchIcon, ArrowDownTrayIcon, MagnifyingGlassIcon, Bars3Icon, Cog6T
 import { generateChangelogFromLogStream } from '../../services/aiService.ts'; // Existing AI service
 import { LoadingSpinner, MarkdownRenderer } from '../shared/index.tsx';
 import { downloadFile } from '../../services/fileUtils.ts';
+import { generateStructured } from '../../services/ai/index.ts';
+import type { StructuredOutputSpec } from '../../services/ai/index.ts';
 
 const exampleLog = `* commit 3a4b5c6d7e8f9g0h1i2j3k4l5m6n7o8p9q0r (HEAD -> main, origin/main)
 |\\  Merge: 1a2b3c4 2d3e4f5
@@ -220,6 +222,30 @@ export interface AICommitAnalysis {
     keywords: string[];
 }
 
+/** Runtime schema for AICommitAnalysis, so the analysis is validated and repaired like every other structured AI result. */
+const AI_COMMIT_ANALYSIS: StructuredOutputSpec<AICommitAnalysis> = {
+    name: 'AICommitAnalysis',
+    schema: {
+        type: 'object',
+        properties: {
+            summary: { type: 'string', minLength: 1 },
+            codeReviewFeedback: { type: 'string' },
+            refactoringSuggestions: { type: 'string' },
+            potentialBugs: { type: 'array', items: { type: 'string' } },
+            securityVulnerabilities: { type: 'array', items: { type: 'string' } },
+            generatedTestCases: { type: 'array', items: { type: 'string' } },
+            documentationSnippet: { type: 'string' },
+            technicalDebtAssessment: { type: 'string' },
+            performanceInsights: { type: 'string' },
+            sentimentAnalysis: { type: 'string', enum: ['positive', 'neutral', 'negative', 'mixed'] },
+            relatedCommits: { type: 'array', items: { type: 'string' } },
+            keywords: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['summary', 'codeReviewFeedback', 'refactoringSuggestions', 'potentialBugs', 'securityVulnerabilities', 'generatedTestCases',
+            'documentationSnippet', 'technicalDebtAssessment', 'performanceInsights', 'sentimentAnalysis', 'relatedCommits', 'keywords'],
+    },
+};
+
 /**
  * @typedef {object} AppSettings
  * @property {string} theme - 'light' | 'dark' | 'system'.
@@ -833,6 +859,7 @@ export const AIServiceOrchestrator = {
      * @param {string} diffContent - The full diff for the commit.
      * @param {AppSettings} settings - Current application settings for AI model selection.
      * @returns {Promise<AICommitAnalysis>} AI-generated analysis.
+     * @throws {StructuredOutputError} When the model's output still does not match AICommitAnalysis after repairs.
      * Invented for multi-faceted AI-driven commit analysis.
      */
     async analyzeCommitForInsights(commit: GitCommit, diffContent: string, settings: AppSettings): Promise<AICommitAnalysis> {
@@ -859,53 +886,12 @@ export const AIServiceOrchestrator = {
         11. Keywords related to the commit.
         12. (Simulated) Related commit hashes if this change is part of a larger refactor or dependent on other recent commits.
 
-        Format the output as a JSON object with keys: summary, codeReviewFeedback, refactoringSuggestions, potentialBugs (array), securityVulnerabilities (array), generatedTestCases (array), documentationSnippet, technicalDebtAssessment, performanceInsights, sentimentAnalysis, keywords (array), relatedCommits (array). Ensure all arrays are always present, even if empty.`;
+        Return all arrays, even if empty.`;
 
-        const systemMessage = `You are an expert software engineer and AI assistant providing highly detailed and actionable analysis of git commits. Provide comprehensive, objective, and constructive feedback. Always respond in valid JSON.`;
+        const systemInstruction = `You are an expert software engineer and AI assistant providing highly detailed and actionable analysis of git commits. Provide comprehensive, objective, and constructive feedback.`;
 
-        let fullResponse = '';
-        try {
-            for await (const chunk of this.callAIStream(settings.defaultAIModelCodeAnalysis, prompt, systemMessage, settings.aiTemperature)) {
-                fullResponse += chunk;
-            }
-            // Attempt to parse the JSON. Sometimes AI might return non-parseable fragments before a full JSON.
-            // This is a robust parsing attempt.
-            const jsonMatch = fullResponse.match(/```json\n([\s\S]*?)\n```/);
-            const rawJson = jsonMatch ? jsonMatch[1] : fullResponse; // Try to extract from markdown code block
-
-            // Clean up common AI formatting mistakes before parsing
-            const cleanedJson = rawJson
-                .replace(/,\s*([\]}])/g, '$1') // Remove trailing commas
-                .replace(/[\u0000-\u001F\u007F-\u009F]/g, ''); // Remove control characters
-
-            const analysis: AICommitAnalysis = JSON.parse(cleanedJson);
-
-            // Ensure arrays are never null/undefined
-            analysis.potentialBugs = analysis.potentialBugs || [];
-            analysis.securityVulnerabilities = analysis.securityVulnerabilities || [];
-            analysis.generatedTestCases = analysis.generatedTestCases || [];
-            analysis.keywords = analysis.keywords || [];
-            analysis.relatedCommits = analysis.relatedCommits || [];
-
-            return analysis;
-        } catch (error) {
-            console.error('Failed to get AI commit analysis:', error);
-            // Return a default error analysis object
-            return {
-                summary: `AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}.`,
-                codeReviewFeedback: 'Could not perform AI code review.',
-                refactoringSuggestions: 'No refactoring suggestions due to AI error.',
-                potentialBugs: ['AI analysis unavailable.'],
-                securityVulnerabilities: ['AI analysis unavailable.'],
-                generatedTestCases: ['AI analysis unavailable.'],
-                documentationSnippet: 'AI documentation generation failed.',
-                technicalDebtAssessment: 'AI technical debt assessment failed.',
-                performanceInsights: 'AI performance insights unavailable.',
-                sentimentAnalysis: 'mixed',
-                relatedCommits: [],
-                keywords: [],
-            };
-        }
+        // The provider comes from the feature's Settings entry; malformed output is re-asked, then raised as a StructuredOutputError.
+        return generateStructured({ featureId: 'visual-git-tree', prompt, systemInstruction, temperature: settings.aiTemperature }, AI_COMMIT_ANALYSIS);
     },
 
     /**
@@ -0,0 +1,185 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import * as Diff from 'diff';
+import { useGlobalState } from '../../contexts/GlobalStateContext.tsx';
+import { useNotification } from '../../contexts/NotificationContext.tsx';
+import { useOctokit } from '../../contexts/OctokitContext.tsx';
+import { NonFastForwardError, resolveRef } from '../../services/githubService.ts';
+import {
+    commitWorkingCopy, discardWorkingCopyChange, getWorkingCopyChanges, openWorkingCopyFile, rebaseWorkingCopy, subscribeToWorkingCopy,
+    WorkingCopyConflictError,
+} from '../../services/workingCopyService.ts';
+import type { GeneratedFile } from '../../types.ts';
+import { RefPicker } from './shared/RefPicker.tsx';
+import { LoadingSpinner } from './shared/LoadingSpinner.tsx';
+
+const STATUS_LABELS: Record<string, { letter: string; className: string }> = {
+    modified: { letter: 'M', className: 'text-yellow-500' },
+    added: { letter: 'A', className: 'text-green-500' },
+    deleted: { letter: 'D', className: 'text-red-500' },
+};
+
+const FileDiff: React.FC<{ file: GeneratedFile }> = ({ file }) => {
+    const state = file.workingCopy!;
+    const parts = useMemo(
+        () => Diff.diffLines(state.baseContent ?? '', state.status === 'deleted' ? '' : file.content),
+        [state.baseContent, state.status, file.content]
+    );
+
+    return (
+        <pre className="text-xs font-mono bg-background border border-border rounded-md overflow-auto max-h-96">
+            {parts.map((part, i) => {
+                const className = part.added ? 'bg-green-500/15 text-green-400' : part.removed ? 'bg-red-500/15 text-red-400' : 'text-text-secondary';
+                const marker = part.added ? '+' : part.removed ? '-' : ' ';
+                const lines = part.value.replace(/\n$/, '').split('\n');
+                return (
+                    <div key={i} className={className}>
+                        {lines.map((line, j) => <div key={j} className="px-2 whitespace-pre">{marker} {line}</div>)}
+                    </div>
+                );
+            })}
+        </pre>
+    );
+};
+
+/**
+ * The Changes panel: every file edited in the working copy of the selected repository, with a diff
+ * against the commit it was opened at, committed together as one atomic commit. Files are opened by typing
+ * their path here; no file browser calls `openWorkingCopyFile` yet. When the branch has moved on, edits to files
+ * nobody else touched are carried onto the new head; the rest are reported as conflicts.
+ */
+export const WorkingChanges: React.FC = () => {
+    const { state, dispatch } = useGlobalState();
+    const { octokit } = useOctokit();
+    const { addNotification } = useNotification();
+    const { selectedRepo } = state;
+    const ref = selectedRepo?.ref;
+
+    const [changes, setChanges] = useState<GeneratedFile[]>([]);
+    const [expandedPath, setExpandedPath] = useState<string | null>(null);
+    const [pathToOpen, setPathToOpen] = useState('');
+    const [message, setMessage] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const refresh = useCallback(async () => {
+        setChanges(selectedRepo ? await getWorkingCopyChanges(selectedRepo.full_name) : []);
+    }, [selectedRepo?.full_name]);
+
+    useEffect(() => {
+        refresh();
+        return subscribeToWorkingCopy(refresh);
+    }, [refresh]);
+
+    if (!selectedRepo) {
+        return <div className="h-full flex items-center justify-center text-text-secondary">Select a repository in the Project Explorer to track changes.</div>;
+    }
+
+    const handleOpen = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!octokit || !ref || !pathToOpen.trim()) return;
+        setIsBusy(true);
+        try {
+            await openWorkingCopyFile(octokit, selectedRepo.owner, selectedRepo.repo, ref, pathToOpen.trim());
+            addNotification(`Opened ${pathToOpen.trim()} in the working copy.`, 'success');
+            setPathToOpen('');
+        } catch (error) {
+            addNotification(error instanceof Error ? error.message : 'Failed to open the file.', 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCommit = async () => {
+        if (!octokit || !ref || !message.trim()) return;
+        setIsBusy(true);
+        try {
+            const result = await commitWorkingCopy(octokit, selectedRepo.owner, selectedRepo.repo, ref, message.trim());
+            dispatch({ type: 'SET_SELECTED_REF', payload: result.ref });
+            setMessage('');
+            addNotification(`Committed ${result.fileCount} file(s) to ${result.ref.name}.`, 'success');
+        } catch (error) {
+            if (error instanceof NonFastForwardError) {
+                // Someone pushed: select the new head and move every edit whose file they did not touch onto it
+                try {
+                    const latest = await resolveRef(octokit, selectedRepo.owner, selectedRepo.repo, error.branch);
+                    dispatch({ type: 'SET_SELECTED_REF', payload: latest });
+                    const { conflicts } = await rebaseWorkingCopy(octokit, selectedRepo.owner, selectedRepo.repo, latest);
+                    addNotification(conflicts.length
+                        ? `'${error.branch}' has new commits that also change ${conflicts.join(', ')}. Discard those edits to take the new version, then re-apply them.`
+                        : `'${error.branch}' has new commits. Your edits were moved onto them; commit again.`, conflicts.length ? 'error' : 'info');
+                } catch (reloadError) {
+                    addNotification(`${error.message} Reloading it failed: ${reloadError instanceof Error ? reloadError.message : String(reloadError)}`, 'error');
+                }
+            } else if (error instanceof WorkingCopyConflictError) {
+                addNotification(error.message, 'error');
+            } else {
+                addNotification(error instanceof Error ? error.message : 'Commit failed.', 'error');
+            }
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const canCommit = !!octokit && ref?.kind === 'branch' && changes.length > 0 && message.trim().length > 0 && !isBusy;
+
+    return (
+        <div className="h-full flex flex-col p-4 sm:p-6 lg:p-8 text-text-primary gap-4 overflow-auto">
+            <header className="flex flex-wrap items-center justify-between gap-2">
+                <h1 className="text-2xl font-bold">Changes <span className="text-text-secondary text-base font-normal">{selectedRepo.full_name}</span></h1>
+                <RefPicker />
+            </header>
+
+            <form onSubmit={handleOpen} className="flex gap-2">
+                <input
+                    type="text"
+                    value={pathToOpen}
+                    onChange={e => setPathToOpen(e.target.value)}
+                    placeholder="path/to/file.ts"
+                    className="flex-grow p-2 bg-background border border-border rounded-md font-mono text-sm"
+                    aria-label="Repository file path"
+                />
+                <button type="submit" disabled={!octokit || !ref || isBusy} className="px-4 py-2 bg-surface border border-border rounded-md disabled:opacity-50">Open</button>
+            </form>
+
+            <div className="flex-grow space-y-2">
+                {changes.length === 0 && <p className="text-text-secondary text-sm">No uncommitted changes.</p>}
+                {changes.map(file => {
+                    const wc = file.workingCopy!;
+                    const label = STATUS_LABELS[wc.status];
+                    const isExpanded = expandedPath === wc.path;
+                    return (
+                        <div key={file.filePath} className="bg-surface border border-border rounded-md">
+                            <div className="flex items-center gap-2 p-2 text-sm">
+                                <span className={`font-bold w-4 ${label.className}`}>{label.letter}</span>
+                                <button onClick={() => setExpandedPath(isExpanded ? null : wc.path)} className="flex-grow text-left font-mono truncate">
+                                    {wc.path}
+                                </button>
+                                {wc.refName !== ref?.name && <span className="text-xs text-yellow-500">on {wc.refName}</span>}
+                                {wc.lastEditedBy && <span className="text-xs text-text-secondary">{wc.lastEditedBy}</span>}
+                                <button onClick={() => discardWorkingCopyChange(selectedRepo.full_name, wc.path)} className="text-xs text-red-500 hover:underline">Discard</button>
+                            </div>
+                            {isExpanded && <div className="p-2 pt-0"><FileDiff file={file} /></div>}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={message}
+                    onChange={e => setMessage(e.target.value)}
+                    placeholder="Commit message"
+                    className="flex-grow p-2 bg-background border border-border rounded-md text-sm"
+                    aria-label="Commit message"
+                />
+                <button onClick={handleCommit} disabled={!canCommit} className="btn-primary px-4 py-2 min-w-[140px] flex items-center justify-center disabled:opacity-50">
+                    {isBusy ? <LoadingSpinner /> : `Commit ${changes.length || ''} file${changes.length === 1 ? '' : 's'}`}
+                </button>
+            </div>
+            {ref && ref.kind !== 'branch' && <p className="text-xs text-text-secondary">Commits need a branch; '{ref.name}' is a {ref.kind}.</p>}
+        </div>
+    );
+};
@@ -2617,6 +2617,54 @@ export async function integrateWithExternalService(serviceId: string, environmen
   return mockResponse;
 }
 
+/**
+ * @section Deep Links and Linkable View Props
+ * Features are opened with view props (an initial pattern, a diff, a saved version to load). The ones
+ * declared here are safe to put in a shareable URL: they are plain data, they are read only when the
+ * window opens, and a stranger's link can do nothing with them beyond prefilling the feature.
+ * A feature must not act on a declared prop by itself: prompts and code only fill in the form, and
+ * AI calls such as generating a regex or explaining code wait for the user to press the button.
+ * Anything not declared is dropped both when a link is built and when one is followed.
+ */
+
+/**
+ * @type LinkablePropType
+ * How a linkable prop is written to and read back from the URL. Strings are stored as-is;
+ * 'json' is for structured values such as the data handed to the JSON tree navigator.
+ */
+export type LinkablePropType = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * @interface FeatureLinkDefinition
+ * The view props of one feature that may appear in a deep link, keyed by prop name.
+ */
+export interface FeatureLinkDefinition {
+  linkableProps: Record<string, LinkablePropType>;
+}
+
+/**
+ * @const FEATURE_LINK_MANIFEST
+ * Linkable view props per feature ID. Features without an entry are still linkable by ID alone.
+ */
+export const FEATURE_LINK_MANIFEST: Record<string, FeatureLinkDefinition> = {
+  'ai-code-explainer': { linkableProps: { initialCode: 'string' } },
+  'ai-code-migrator': { linkableProps: { inputCode: 'string', fromLang: 'string', toLang: 'string' } },
+  'ai-commit-generator': { linkableProps: { diff: 'string' } },
+  'cron-job-builder': { linkableProps: { initialPrompt: 'string' } },
+  'json-tree-navigator': { linkableProps: { initialData: 'json' } },
+  'regex-sandbox': { linkableProps: { initialPattern: 'string', initialTestString: 'string', initialPrompt: 'string' } },
+  'schema-designer': { linkableProps: { versionId: 'string' } },
+};
+
+/**
+ * @function getLinkableProps
+ * Returns the linkable prop declarations for a feature, or an empty record if it declares none.
+ * @param featureId - The feature to look up.
+ */
+export function getLinkableProps(featureId: string): Record<string, LinkablePropType> {
+  return FEATURE_LINK_MANIFEST[featureId]?.linkableProps ?? {};
+}
+
 // EOF - This file, a testament to the comprehensive vision of James Burvel O’Callaghan III,
 // stands as the core intelligence and operational bedrock for Citibank Demo Business Inc.
 // It embodies the fusion of deep technical expertise, strategic innovation, and a relentless
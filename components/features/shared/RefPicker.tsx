@@ -0,0 +1,126 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useGlobalState } from '../../../contexts/GlobalStateContext.tsx';
+import { useNotification } from '../../../contexts/NotificationContext.tsx';
+import { useOctokit } from '../../../contexts/OctokitContext.tsx';
+import { getBranches, getTags, resolveRef } from '../../../services/githubService.ts';
+import type { BranchSummary, TagSummary } from '../../../services/githubService.ts';
+import { LoadingSpinner } from './LoadingSpinner.tsx';
+
+/**
+ * Branch/tag picker for the selected repository, with a field for pinning an arbitrary commit.
+ * The choice is stored as `selectedRepo.ref`; views that render the picker pass it on to `getRepoTree`,
+ * `getFileContent` and `commitFiles` themselves.
+ * A repo without a ref is pinned to its default branch as soon as the picker mounts.
+ */
+export const RefPicker: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { state, dispatch } = useGlobalState();
+    const { octokit } = useOctokit();
+    const { addNotification } = useNotification();
+    const { selectedRepo } = state;
+
+    const [branches, setBranches] = useState<BranchSummary[]>([]);
+    const [tags, setTags] = useState<TagSummary[]>([]);
+    const [commitInput, setCommitInput] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const owner = selectedRepo?.owner;
+    const repo = selectedRepo?.repo;
+    const currentRef = selectedRepo?.ref;
+
+    const selectRef = useCallback(async (ref?: string) => {
+        if (!octokit || !owner || !repo) return;
+        setIsLoading(true);
+        try {
+            const resolved = await resolveRef(octokit, owner, repo, ref);
+            dispatch({ type: 'SET_SELECTED_REF', payload: resolved });
+        } catch (error) {
+            addNotification(error instanceof Error ? error.message : 'Failed to switch ref.', 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [octokit, owner, repo, dispatch, addNotification]);
+
+    useEffect(() => {
+        if (!octokit || !owner || !repo) return;
+        let cancelled = false;
+        setIsLoading(true);
+        Promise.all([getBranches(octokit, owner, repo), getTags(octokit, owner, repo)])
+            .then(([branchList, tagList]) => {
+                if (cancelled) return;
+                setBranches(branchList);
+                setTags(tagList);
+            })
+            .catch(error => {
+                if (!cancelled) addNotification(error instanceof Error ? error.message : 'Failed to load branches.', 'error');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [octokit, owner, repo, addNotification]);
+
+    useEffect(() => {
+        if (!currentRef) {
+            selectRef();
+        }
+    }, [currentRef, selectRef]);
+
+    if (!selectedRepo) return null;
+
+    const selectValue = currentRef && currentRef.kind !== 'commit' ? `${currentRef.kind}:${currentRef.name}` : '';
+
+    const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const [, ...nameParts] = e.target.value.split(':');
+        if (nameParts.length) selectRef(nameParts.join(':'));
+    };
+
+    const handleCommitSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const sha = commitInput.trim();
+        if (!sha) return;
+        selectRef(sha);
+        setCommitInput('');
+    };
+
+    return (
+        <div className={`flex items-center gap-2 text-sm ${className}`}>
+            <select
+                value={selectValue}
+                onChange={handleSelectChange}
+                disabled={isLoading || !octokit}
+                className="p-1 bg-background border border-border rounded-md max-w-[14rem]"
+                aria-label="Branch or tag"
+            >
+                {currentRef?.kind === 'commit' && <option value="">{currentRef.sha.slice(0, 7)} (detached)</option>}
+                {!currentRef && <option value="">Default branch</option>}
+                <optgroup label="Branches">
+                    {branches.map(branch => (
+                        <option key={branch.name} value={`branch:${branch.name}`}>{branch.name}{branch.protected ? ' 🔒' : ''}</option>
+                    ))}
+                </optgroup>
+                {tags.length > 0 && (
+                    <optgroup label="Tags">
+                        {tags.map(tag => <option key={tag.name} value={`tag:${tag.name}`}>{tag.name}</option>)}
+                    </optgroup>
+                )}
+            </select>
+            <form onSubmit={handleCommitSubmit}>
+                <input
+                    type="text"
+                    value={commitInput}
+                    onChange={e => setCommitInput(e.target.value)}
+                    placeholder="Commit SHA"
+                    disabled={isLoading || !octokit}
+                    className="p-1 w-28 bg-background border border-border rounded-md font-mono"
+                    aria-label="Check out a commit SHA"
+                />
+            </form>
+            {currentRef && <span className="font-mono text-xs text-text-secondary" title={currentRef.sha}>@{currentRef.sha.slice(0, 7)}</span>}
+            {isLoading && <LoadingSpinner />}
+            {currentRef && currentRef.kind !== 'branch' && <span className="text-xs text-text-secondary">read-only</span>}
+        </div>
+    );
+};
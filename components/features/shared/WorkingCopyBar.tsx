@@ -0,0 +1,73 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useGlobalState } from '../../../contexts/GlobalStateContext.tsx';
+import { useNotification } from '../../../contexts/NotificationContext.tsx';
+import { getWorkingCopyFiles, recordWorkingCopyEdit, subscribeToWorkingCopy } from '../../../services/workingCopyService.ts';
+import type { GeneratedFile } from '../../../types.ts';
+
+interface WorkingCopyBarProps {
+    featureId: string;  // Recorded as the editor of saved changes
+    code: string;       // The tool's current output, written back on save
+    onLoad: (content: string, path: string) => void;
+}
+
+/**
+ * Lets a code tool load a file from the working copy of the selected repository and save its
+ * output back as a pending change, instead of copy-pasting between tools.
+ */
+export const WorkingCopyBar: React.FC<WorkingCopyBarProps> = ({ featureId, code, onLoad }) => {
+    const { state } = useGlobalState();
+    const { addNotification } = useNotification();
+    const repoFullName = state.selectedRepo?.full_name;
+
+    const [files, setFiles] = useState<GeneratedFile[]>([]);
+    const [selectedPath, setSelectedPath] = useState('');
+
+    const refresh = useCallback(async () => {
+        setFiles(repoFullName ? await getWorkingCopyFiles(repoFullName) : []);
+    }, [repoFullName]);
+
+    useEffect(() => {
+        refresh();
+        return subscribeToWorkingCopy(refresh);
+    }, [refresh]);
+
+    if (!repoFullName) return null;
+
+    const handleLoad = () => {
+        const file = files.find(f => f.workingCopy!.path === selectedPath);
+        if (file) onLoad(file.content, selectedPath);
+    };
+
+    const handleSave = async () => {
+        try {
+            await recordWorkingCopyEdit(repoFullName, selectedPath, code, featureId);
+            addNotification(`Saved ${selectedPath} to the working copy.`, 'success');
+        } catch (error) {
+            addNotification(error instanceof Error ? error.message : 'Failed to save to the working copy.', 'error');
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-sm p-2 bg-surface border border-border rounded-md">
+            <span className="text-text-secondary whitespace-nowrap">Working copy:</span>
+            <select
+                value={selectedPath}
+                onChange={e => setSelectedPath(e.target.value)}
+                className="flex-grow min-w-0 p-1 bg-background border border-border rounded-md font-mono"
+                aria-label="Working copy file"
+            >
+                <option value="">{files.length ? 'Choose a file…' : 'No files open'}</option>
+                {files.map(file => (
+                    <option key={file.filePath} value={file.workingCopy!.path}>
+                        {file.workingCopy!.status === 'clean' ? '' : '● '}{file.workingCopy!.path}
+                    </option>
+                ))}
+            </select>
+            <button onClick={handleLoad} disabled={!selectedPath} className="px-3 py-1 bg-surface border border-border rounded-md disabled:opacity-50">Load</button>
+            <button onClick={handleSave} disabled={!selectedPath || !code} className="btn-primary px-3 py-1 disabled:opacity-50">Save</button>
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import * as vaultService from '../../services/vaultService.ts';
+import { LoadingSpinner } from '../shared/LoadingSpinner.tsx';
+
+interface Props {
+    onSuccess: (reencryptedCount: number) => void;
+    onCancel: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 12;
+
+/**
+ * @description Collects the current and new master password and runs `vaultService.changeMasterPassword`.
+ *              Every credential is re-encrypted in a single transaction, so the modal cannot be dismissed while it runs.
+ */
+export const ChangeMasterPasswordModal: React.FC<Props> = ({ onSuccess, onCancel }) => {
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+            setError(`The new password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+            return;
+        }
+        if (newPassword !== confirmPassword) {
+            setError('The new passwords do not match.');
+            return;
+        }
+        if (newPassword === currentPassword) {
+            setError('The new password must be different from the current one.');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const { reencryptedCount } = await vaultService.changeMasterPassword(currentPassword, newPassword);
+            onSuccess(reencryptedCount);
+        } catch (err) {
+            setError(err instanceof vaultService.InvalidMasterPasswordError
+                ? 'The current master password is incorrect.'
+                : err instanceof Error ? err.message : 'Failed to change the master password.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex items-center justify-center fade-in">
+            <div className="bg-surface border border-border rounded-lg shadow-2xl w-full max-w-md m-4 p-6 animate-pop-in">
+                <h2 className="text-2xl font-bold mb-3 text-text-primary">Change Master Password</h2>
+                <p className="text-sm text-text-secondary mb-4">
+                    All stored credentials are re-encrypted with a key derived from the new password.
+                    Anyone who knew the old password loses access once this completes.
+                </p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="current-master-password" className="block text-sm font-medium text-text-primary">Current Password</label>
+                        <input
+                            id="current-master-password"
+                            type="password"
+                            value={currentPassword}
+                            onChange={e => setCurrentPassword(e.target.value)}
+                            className="w-full mt-1 p-2 bg-background border border-border rounded-md focus:ring-primary focus:border-primary"
+                            required
+                            autoFocus
+                            disabled={isLoading}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="new-master-password" className="block text-sm font-medium text-text-primary">New Password</label>
+                        <input
+                            id="new-master-password"
+                            type="password"
+                            value={newPassword}
+                            onChange={e => setNewPassword(e.target.value)}
+                            className="w-full mt-1 p-2 bg-background border border-border rounded-md focus:ring-primary focus:border-primary"
+                            required
+                            disabled={isLoading}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="confirm-new-master-password" className="block text-sm font-medium text-text-primary">Confirm New Password</label>
+                        <input
+                            id="confirm-new-master-password"
+                            type="password"
+                            value={confirmPassword}
+                            onChange={e => setConfirmPassword(e.target.value)}
+                            className="w-full mt-1 p-2 bg-background border border-border rounded-md focus:ring-primary focus:border-primary"
+                            required
+                            disabled={isLoading}
+                        />
+                    </div>
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+                    <div className="flex justify-end gap-2 pt-2">
+                        <button type="button" onClick={onCancel} disabled={isLoading} className="px-4 py-2 bg-surface border border-border rounded-md disabled:opacity-50">
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={isLoading} className="btn-primary px-4 py-2 flex items-center justify-center min-w-[120px]">
+                            {isLoading ? <LoadingSpinner /> : 'Change Password'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
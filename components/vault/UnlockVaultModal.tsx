@@ -2531,7 +2531,16 @@ export const UnlockVaultModal: React.FC<Props> = ({
             }
 
         } catch (err) {
-            const errMsg = err instanceof Error ? err.message : 'An unexpected authentication error occurred.';
+            if (err instanceof vaultService.VaultUnlockThrottledError) {
+                // The vault itself refused the attempt; it was never checked, so it must not count as another failure.
+                setError(err.message);
+                auditLogEngine.logEvent('PRIMARY_AUTH_THROTTLED', { userId: currentUserId, tenantId, retryAfterMs: err.retryAfterMs });
+                setIsLoading(false);
+                return;
+            }
+            const errMsg = err instanceof vaultService.InvalidMasterPasswordError && err.retryAfterMs > 0
+                ? `${err.message} Next attempt allowed in ${Math.ceil(err.retryAfterMs / 1000)} seconds.`
+                : err instanceof Error ? err.message : 'An unexpected authentication error occurred.';
             setError(errMsg);
             auditLogEngine.logEvent('PRIMARY_AUTH_FAILED', { userId: currentUserId, tenantId, error: errMsg });
             securityMetricsManager.recordMetric('primary_auth_failure', 1, { userId: currentUserId });
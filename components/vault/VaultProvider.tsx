@@ -10,8 +10,11 @@ import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react'
 import { VaultModalContext } from '../../contexts/VaultModalContext.tsx';
 import { CreateMasterPasswordModal } from './CreateMasterPasswordModal.tsx';
 import { UnlockVaultModal } from './UnlockVaultModal.tsx';
+import { ChangeMasterPasswordModal } from './ChangeMasterPasswordModal.tsx';
 import * as vaultService from '../../services/vaultService.ts';
 import { useGlobalState } from '../../contexts/GlobalStateContext.tsx';
+import { useLocalStorage } from '../../hooks/useLocalStorage.ts';
+import { useVaultAutoLock, DEFAULT_VAULT_AUTO_LOCK_SETTINGS, VaultAutoLockSettings } from '../../hooks/useVaultAutoLock.ts';
 
 /**
  * @file VaultProvider.tsx
@@ -1331,6 +1334,9 @@ export class AnomalyDetectionEngine {
 export interface VaultAPIContextType {
     requestUnlock: () => Promise<boolean>;
     requestCreation: () => Promise<boolean>;
+    requestPasswordChange: () => Promise<boolean>;
+    autoLockSettings: VaultAutoLockSettings;
+    setAutoLockSettings: (settings: VaultAutoLockSettings) => void;
     // Invention: New vault actions exposed through context
     createVaultItem: (name: string, value: string, category: string, tags: string[], relatedServiceUrl?: string) => Promise<VaultItem | null>;
     getVaultItem: (id: string) => Promise<VaultItem | null>;
@@ -1440,6 +1446,10 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const [isUnlockModalOpen, setUnlockModalOpen] = useState(false);
     const [createPromise, setCreatePromise] = useState<{ resolve: PromiseResolver } | null>(null);
     const [unlockPromise, setUnlockPromise] = useState<{ resolve: PromiseResolver } | null>(null);
+    const [isChangePasswordModalOpen, setChangePasswordModalOpen] = useState(false);
+    const [changePasswordPromise, setChangePasswordPromise] = useState<{ resolve: PromiseResolver } | null>(null);
+    const [autoLockSettings, setAutoLockSettings] = useLocalStorage<VaultAutoLockSettings>('devcore_vault_autolock', DEFAULT_VAULT_AUTO_LOCK_SETTINGS);
+    useVaultAutoLock(autoLockSettings);
     const [vaultItems, setVaultItems] = useState<VaultItem[]>([]); // INVENTION: State to hold actual vault items
 
     // INVENTION: Instantiate all core service managers
@@ -1472,6 +1482,10 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     useEffect(() => {
         const loadInitialVaultState = async () => {
             console.log("INVENTION: VaultProvider: Initializing Project Chimera's security ecosystem...");
+            // A master password change that never committed leaves only its journal behind; discard it before anything reads the vault.
+            if (await vaultService.recoverInterruptedPasswordChange()) {
+                console.warn("VaultProvider: An interrupted master password change was rolled back. The previous password is still valid.");
+            }
             // Simulate checking if vault is initialized and unlocked from persistent storage
             const vaultData = await vaultService.getVaultState(); // This is the old service, let's enhance it
             if (vaultData.isInitialized && vaultData.isUnlocked) {
@@ -1798,6 +1812,31 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         });
     }, []);
 
+    // Lets services that read credentials outside React (the AI providers) show the same prompt after an auto-lock
+    useEffect(() => vaultService.setVaultUnlockHandler(requestUnlock), [requestUnlock]);
+
+    const requestPasswordChange = useCallback(() => {
+        return new Promise<boolean>((resolve) => {
+            setChangePasswordPromise({ resolve });
+            setChangePasswordModalOpen(true);
+        });
+    }, []);
+
+    const handleChangePasswordSuccess = async (reencryptedCount: number) => {
+        // changeMasterPassword leaves the vault unlocked under the new key.
+        dispatch({ type: 'SET_VAULT_STATE', payload: { isUnlocked: true } });
+        changePasswordPromise?.resolve(true);
+        setChangePasswordModalOpen(false);
+        setChangePasswordPromise(null);
+        await auditLogger.logEvent({ action: 'MASTER_PASSWORD_CHANGED', userId: currentUserId, details: `Master password rotated; ${reencryptedCount} records re-encrypted.`, ipAddress: currentUserIp, userAgent: navigator.userAgent, success: true });
+    };
+
+    const handleChangePasswordCancel = () => {
+        changePasswordPromise?.resolve(false);
+        setChangePasswordModalOpen(false);
+        setChangePasswordPromise(null);
+    };
+
     const handleCreateSuccess = async (masterPassword: string) => {
         console.log("INVENTION: Master password created successfully. Initiating vault bootstrapping...");
         // This is where the core vault key would be derived and stored
@@ -1881,6 +1920,9 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const contextValue = useMemo(() => ({
         requestUnlock,
         requestCreation,
+        requestPasswordChange,
+        autoLockSettings,
+        setAutoLockSettings,
         createVaultItem,
         getVaultItem,
         updateVaultItem,
@@ -1902,7 +1944,7 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         getIpReputation,
         // ... and potentially hundreds more functions to expose all features
     }), [
-        requestUnlock, requestCreation, createVaultItem, getVaultItem, updateVaultItem, deleteVaultItem,
+        requestUnlock, requestCreation, requestPasswordChange, autoLockSettings, setAutoLockSettings, createVaultItem, getVaultItem, updateVaultItem, deleteVaultItem,
         listVaultItems, getGeminiSuggestions, getChatGPTInsights, initiateMFA, verifyMFA, checkAccessPolicy,
         triggerBackup, getAuditTrail, assessCompliance, triggerBreakGlass, enableDMS, disableDMS,
         getVaultItemHistory, restoreVaultItemVersion, getIpReputation
@@ -1923,6 +1965,12 @@ export const VaultProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                     onCancel={handleUnlockCancel}
                 />
             )}
+            {isChangePasswordModalOpen && (
+                <ChangeMasterPasswordModal
+                    onSuccess={handleChangePasswordSuccess}
+                    onCancel={handleChangePasswordCancel}
+                />
+            )}
             {/* INVENTION: Additional Modals/UI for Advanced Features */}
             {/* In a real commercial product, these would be separate components */}
             {/* {isMfaChallengeModalOpen && <MFAChallengeModal ... />} */}
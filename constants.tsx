@@ -75,6 +75,7 @@ export const RAW_FEATURES: RawFeature[] = [
     { id: "code-review-bot", name: "AI Code Review Bot", description: "Get an automated code review with one-click refactoring.", icon: <CodeReviewBotIcon />, category: "AI Tools" },
     { id: "ai-pull-request-assistant", name: "AI Pull Request Assistant", description: "Generate a structured PR summary from code diffs and populate a full template.", icon: <AiPullRequestAssistantIcon />, category: "AI Tools" },
     { id: "pr-summary-generator", name: "PR Summary Generator", description: "Generate a structured PR summary from code diffs.", icon: <AiPullRequestAssistantIcon />, category: "AI Tools" },
+    { id: "ai-usage-dashboard", name: "AI Usage & Budgets", description: "Track tokens, latency and cost of every AI call per feature and day, and set spending budgets.", icon: <ChartBarIcon />, category: "AI Tools" },
     { id: "audio-to-code", name: "AI Audio-to-Code", description: "Speak your programming ideas and watch them turn into code.", icon: <AudioToCodeIcon />, category: "AI Tools" },
     
     { id: "css-grid-editor", name: "CSS Grid Visual Editor", description: "Drag-based layout builder for CSS Grid.", icon: <CssGridEditorIcon />, category: "Frontend" },
@@ -97,8 +98,9 @@ export const RAW_FEATURES: RawFeature[] = [
     { id: "network-visualizer", name: "Network Visualizer", description: "Inspect network resources with a summary and visual waterfall chart.", icon: <NetworkVisualizerIcon />, category: "Testing" },
     
     { id: "visual-git-tree", name: "Visual Git Tree", description: "Visually trace your git commit history with an interactive graph and an AI-powered summary.", icon: <GitLogAnalyzerIcon />, category: "Git" },
-    { id: "changelog-generator", name: "AI Changelog Generator", description: "Auto-build changelogs from raw git logs.", icon: <ChangelogGeneratorIcon />, category: "Git" },
+    { id: "changelog-generator", name: "AI Changelog Generator", description: "Build Keep a Changelog releases from the commits between two refs.", icon: <ChangelogGeneratorIcon />, category: "Git" },
     { id: "code-diff-ghost", name: "Code Diff Ghost", description: "Visualize code changes with a 'ghost typing' effect.", icon: <CodeDiffGhostIcon />, category: "Git" },
+    { id: "working-changes", name: "Changes", description: "Review diffs of files edited in the local working copy and commit them together.", icon: <GitLogAnalyzerIcon />, category: "Git" },
     
     { id: "cron-job-builder", name: "AI Cron Job Builder", description: "Visually tool to configure cron jobs, with AI.", icon: <CronJobBuilderIcon />, category: "Deployment & CI/CD" },
     
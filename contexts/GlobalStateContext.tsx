@@ -1,8 +1,10 @@
 // Copyright James Burvel O’Callaghan III
 // President Citibank Demo Business Inc.
 
-import React, { createContext, useReducer, useContext, useEffect } from 'react';
-import type { ViewType, AppUser, GitHubUser, FileNode } from '../types.ts';
+import React, { createContext, useReducer, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import type { ViewType, AppUser, GitHubUser, FileNode, RepoRef } from '../types.ts';
+import { publishToTabs, subscribeToTabs, isLeaderTab, subscribeToLeadership } from '../services/tabSyncService.ts';
+import { isUnlocked, lockVault } from '../services/vaultService.ts';
 
 // State shape
 interface GlobalState {
@@ -13,7 +15,8 @@ interface GlobalState {
   githubUser: GitHubUser | null;
   projectFiles: FileNode | null;
   // Fix: Expand selectedRepo to include full_name and name for consistent usage across components
-  selectedRepo: { owner: string; repo: string; full_name: string; name: string; } | null;
+  // `ref` is the selected branch, tag or commit; when absent the repo's default branch is used.
+  selectedRepo: { owner: string; repo: string; full_name: string; name: string; ref?: RepoRef; } | null;
   vaultState: {
     isInitialized: boolean;
     isUnlocked: boolean;
@@ -25,11 +28,13 @@ interface GlobalState {
 type Action =
   | { type: 'SET_VIEW'; payload: { view: ViewType, props?: any } }
   | { type: 'TOGGLE_FEATURE_VISIBILITY'; payload: { featureId: string } }
+  | { type: 'SET_FEATURE_VISIBILITY'; payload: { featureId: string; hidden: boolean } }
   | { type: 'SET_APP_USER', payload: AppUser | null }
   | { type: 'SET_GITHUB_USER', payload: GitHubUser | null }
   | { type: 'LOAD_PROJECT_FILES'; payload: FileNode | null }
   // Fix: Expand selectedRepo payload to include full_name and name
-  | { type: 'SET_SELECTED_REPO'; payload: { owner: string; repo: string; full_name: string; name: string; } | null }
+  | { type: 'SET_SELECTED_REPO'; payload: { owner: string; repo: string; full_name: string; name: string; ref?: RepoRef; } | null }
+  | { type: 'SET_SELECTED_REF'; payload: RepoRef | null }
   | { type: 'SET_VAULT_STATE'; payload: Partial<{ isInitialized: boolean, isUnlocked: boolean }> }
   | { type: 'SET_API_KEY_MISSING', payload: boolean };
 
@@ -61,6 +66,14 @@ const reducer = (state: GlobalState, action: Action): GlobalState => {
             : [...state.hiddenFeatures, featureId];
         return { ...state, hiddenFeatures: newHiddenFeatures };
     }
+    case 'SET_FEATURE_VISIBILITY': {
+        const { featureId, hidden } = action.payload;
+        if (state.hiddenFeatures.includes(featureId) === hidden) return state;
+        return {
+            ...state,
+            hiddenFeatures: hidden ? [...state.hiddenFeatures, featureId] : state.hiddenFeatures.filter(id => id !== featureId),
+        };
+    }
     case 'SET_APP_USER':
         if (action.payload === null) { // User logged out
             return {
@@ -81,6 +94,13 @@ const reducer = (state: GlobalState, action: Action): GlobalState => {
       return { ...state, projectFiles: action.payload };
     case 'SET_SELECTED_REPO':
       return { ...state, selectedRepo: action.payload, projectFiles: null }; // Reset files on repo change
+    case 'SET_SELECTED_REF':
+      if (!state.selectedRepo) return state;
+      return {
+        ...state,
+        selectedRepo: { ...state.selectedRepo, ref: action.payload ?? undefined },
+        projectFiles: null, // The tree belongs to the previous ref
+      };
     case 'SET_VAULT_STATE':
         return {
             ...state,
@@ -104,6 +124,29 @@ const GlobalStateContext = createContext<{
 const LOCAL_STORAGE_KEY = 'devcore_snapshot';
 const CONSENT_KEY = 'devcore_ls_consent';
 
+// Cross-tab sync: the selected repo, feature visibility and vault locks follow the user into every open tab.
+const TAB_ACTION_MESSAGE = 'global-state:action';
+const TAB_SYNCED_ACTIONS = new Set<Action['type']>(['SET_SELECTED_REPO', 'SET_SELECTED_REF', 'SET_FEATURE_VISIBILITY', 'SET_VAULT_STATE']);
+
+// The action other tabs should replay, if any. Toggles are sent as the resulting visibility so tabs that
+// disagree converge. For the vault only an unlocked-to-locked transition is sent: each tab unlocks its own
+// session key, and a tab starting up (which reports the vault as locked) must not lock the others.
+const toTabAction = (action: Action, state: GlobalState): Action | null => {
+  switch (action.type) {
+    case 'SET_SELECTED_REPO':
+    case 'SET_SELECTED_REF':
+      return action;
+    case 'TOGGLE_FEATURE_VISIBILITY': {
+      const { featureId } = action.payload;
+      return { type: 'SET_FEATURE_VISIBILITY', payload: { featureId, hidden: !state.hiddenFeatures.includes(featureId) } };
+    }
+    case 'SET_VAULT_STATE':
+      return action.payload.isUnlocked === false && state.vaultState.isUnlocked ? { type: 'SET_VAULT_STATE', payload: { isUnlocked: false } } : null;
+    default:
+      return null;
+  }
+};
+
 export const GlobalStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const canPersist = (() => {
         try {
@@ -136,8 +179,29 @@ export const GlobalStateProvider: React.FC<{ children: React.ReactNode }> = ({ c
         }
     });
 
+    const stateRef = useRef(state);
+    stateRef.current = state;
+
+    const syncedDispatch = useCallback((action: Action) => {
+        const tabAction = toTabAction(action, stateRef.current);
+        dispatch(action);
+        if (tabAction) publishToTabs(TAB_ACTION_MESSAGE, tabAction);
+    }, []);
+
+    useEffect(() => subscribeToTabs<Action>(TAB_ACTION_MESSAGE, action => {
+        if (!action || !TAB_SYNCED_ACTIONS.has(action.type)) return;
+        if (action.type === 'SET_VAULT_STATE' && isUnlocked()) {
+            lockVault('locked in another tab');
+        }
+        dispatch(action);
+    }), []);
+
+    // Only the leader tab writes the snapshot, so tabs don't overwrite each other's.
+    const [isLeader, setIsLeader] = useState(isLeaderTab);
+    useEffect(() => subscribeToLeadership(setIsLeader), []);
+
     useEffect(() => {
-        if (!canPersist) return;
+        if (!canPersist || !isLeader) return;
 
         const handler = setTimeout(() => {
             try {
@@ -154,10 +218,10 @@ export const GlobalStateProvider: React.FC<{ children: React.ReactNode }> = ({ c
         }, 500);
 
         return () => clearTimeout(handler);
-    }, [state, canPersist]);
+    }, [state, canPersist, isLeader]);
 
     return (
-        <GlobalStateContext.Provider value={{ state, dispatch }}>
+        <GlobalStateContext.Provider value={{ state, dispatch: syncedDispatch }}>
             {children}
         </GlobalStateContext.Provider>
     );
@@ -7,10 +7,14 @@
 */
 
 import React, { createContext, useContext } from 'react';
+import type { VaultAutoLockSettings } from '../hooks/useVaultAutoLock.ts';
 
 interface VaultModalContextType {
     requestUnlock: () => Promise<boolean>;
     requestCreation: () => Promise<boolean>;
+    requestPasswordChange: () => Promise<boolean>;
+    autoLockSettings: VaultAutoLockSettings;
+    setAutoLockSettings: (settings: VaultAutoLockSettings) => void;
 }
 
 export const VaultModalContext = createContext<VaultModalContextType | undefined>(undefined);
@@ -0,0 +1,48 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import { useEffect, useMemo, useState } from 'react';
+import { getAiBudgetStatuses, listAiUsage, subscribeToAiUsage, summarizeAiUsage } from '../services/ai/usageLedger.ts';
+import type { AiBudgetStatus, AiUsageRecord, AiUsageSummary } from '../services/ai/usageLedger.ts';
+
+export interface AiUsageView {
+    records: AiUsageRecord[];
+    summary: AiUsageSummary;
+    budgets: AiBudgetStatus[];
+    isLoading: boolean;
+}
+
+/**
+ * Reads the AI usage ledger from `since` (epoch ms) onwards, limited to `featureId` when given,
+ * and re-reads it whenever a call is recorded or the budgets change.
+ */
+export const useAiUsage = (since: number, featureId?: string): AiUsageView => {
+    const [records, setRecords] = useState<AiUsageRecord[]>([]);
+    const [budgets, setBudgets] = useState<AiBudgetStatus[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const [all, statuses] = await Promise.all([listAiUsage(since), getAiBudgetStatuses(featureId)]);
+                if (cancelled) return;
+                setRecords(featureId === undefined ? all : all.filter(record => record.featureId === featureId));
+                setBudgets(statuses);
+            } catch (error) {
+                console.error('Failed to read the AI usage ledger:', error);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        load();
+        const unsubscribe = subscribeToAiUsage(load);
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [since, featureId]);
+
+    const summary = useMemo(() => summarizeAiUsage(records), [records]);
+    return { records, summary, budgets, isLoading };
+};
@@ -0,0 +1,131 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import { useEffect, useRef } from 'react';
+import { useGlobalState } from '../contexts/GlobalStateContext.tsx';
+import { isUnlocked, lockVault } from '../services/vaultService.ts';
+import { publishToTabs, subscribeToTabs } from '../services/tabSyncService.ts';
+
+export interface VaultAutoLockSettings {
+    enabled: boolean;
+    idleMinutes: number;        // Lock after this long without keyboard/pointer activity.
+    hiddenMinutes: number;      // Lock once the tab has been hidden this long.
+    lockOnSleep: boolean;       // Lock when a timer gap shows the machine was suspended.
+}
+
+export const DEFAULT_VAULT_AUTO_LOCK_SETTINGS: VaultAutoLockSettings = {
+    enabled: true,
+    idleMinutes: 15,
+    hiddenMinutes: 5,
+    lockOnSleep: true,
+};
+
+const TICK_MS = 15 * 1000;
+// A tick arriving this much later than scheduled means the event loop was frozen, i.e. the system slept.
+// Browsers throttle timers in background tabs to about once a minute, so the margin has to exceed that.
+const SLEEP_GAP_MS = 2 * 60 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+// Locks propagate to every tab, so idle and hidden time is measured across tabs: a visible tab reports itself
+// each tick, and activity at most this often, to keep a background tab from locking the one in use.
+const PRESENCE_MESSAGE = 'vault-auto-lock:presence';
+const ACTIVITY_BROADCAST_INTERVAL_MS = TICK_MS;
+
+/**
+ * Locks the vault session key according to `settings` and keeps `vaultState.isUnlocked` in step.
+ * Logging out (`SET_APP_USER null`) always locks, regardless of settings. Features that next need a
+ * credential see `isUnlocked: false` and go through `requestUnlock`, which shows the unlock modal again;
+ * services read through `getDecryptedCredentialWithUnlock`, which does the same.
+ * Idle and hidden time count activity in any open tab, since the resulting lock applies to all of them.
+ */
+export const useVaultAutoLock = (settings: VaultAutoLockSettings) => {
+    const { state, dispatch } = useGlobalState();
+    const lastActivityRef = useRef(Date.now());
+    const hiddenSinceRef = useRef<number | null>(null);
+    const previousUserRef = useRef(state.user);
+
+    useEffect(() => {
+        const hadUser = previousUserRef.current !== null;
+        previousUserRef.current = state.user;
+        if (hadUser && state.user === null && isUnlocked()) {
+            lockVault('user logged out');
+        }
+    }, [state.user]);
+
+    useEffect(() => {
+        if (!settings.enabled || !state.vaultState.isUnlocked) return;
+
+        const lock = (reason: string) => {
+            if (isUnlocked()) {
+                lockVault(reason);
+            }
+            dispatch({ type: 'SET_VAULT_STATE', payload: { isUnlocked: false } });
+        };
+
+        lastActivityRef.current = Date.now();
+        hiddenSinceRef.current = document.hidden ? Date.now() : null;
+        let lastTick = Date.now();
+
+        let lastActivityBroadcast = 0;
+        const recordActivity = () => {
+            const now = Date.now();
+            lastActivityRef.current = now;
+            if (now - lastActivityBroadcast >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+                lastActivityBroadcast = now;
+                publishToTabs(PRESENCE_MESSAGE, { active: true });
+            }
+        };
+
+        // Another tab is visible (and possibly in use), so this one is neither hidden-alone nor idle.
+        const unsubscribeFromPresence = subscribeToTabs<{ active: boolean }>(PRESENCE_MESSAGE, ({ active }) => {
+            if (hiddenSinceRef.current !== null) hiddenSinceRef.current = Date.now();
+            if (active) lastActivityRef.current = Date.now();
+        });
+
+        const checkHidden = (now: number) => {
+            const hiddenSince = hiddenSinceRef.current;
+            if (hiddenSince !== null && now - hiddenSince >= settings.hiddenMinutes * 60 * 1000) {
+                lock(`tab hidden for ${settings.hiddenMinutes} minutes`);
+                return true;
+            }
+            return false;
+        };
+
+        const handleVisibilityChange = () => {
+            if (document.hidden) {
+                hiddenSinceRef.current = Date.now();
+            } else {
+                // Background timers may have been throttled past the threshold, so re-check on return.
+                if (!checkHidden(Date.now())) {
+                    hiddenSinceRef.current = null;
+                    recordActivity();
+                }
+            }
+        };
+
+        const tick = () => {
+            const now = Date.now();
+            const gap = now - lastTick;
+            lastTick = now;
+            if (settings.lockOnSleep && gap > TICK_MS + SLEEP_GAP_MS) {
+                lock(`system sleep detected (${Math.round(gap / 1000)}s timer gap)`);
+                return;
+            }
+            if (checkHidden(now)) return;
+            if (!document.hidden) publishToTabs(PRESENCE_MESSAGE, { active: false });
+            if (now - lastActivityRef.current >= settings.idleMinutes * 60 * 1000) {
+                lock(`inactive for ${settings.idleMinutes} minutes`);
+            }
+        };
+
+        const intervalId = window.setInterval(tick, TICK_MS);
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, recordActivity, { passive: true }));
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+
+        return () => {
+            unsubscribeFromPresence();
+            window.clearInterval(intervalId);
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, recordActivity));
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        };
+    }, [settings.enabled, settings.idleMinutes, settings.hiddenMinutes, settings.lockOnSleep, state.vaultState.isUnlocked, dispatch]);
+};
@@ -6,7 +6,329 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-const MOCK_ROUTES = new Map();
+// Compiled routes in registration order; the first route whose predicates all match wins.
+let MOCK_ROUTES = [];
+// Collections mounted as REST resources. They are consulted after the explicit routes, so a route can
+// still override a single endpoint of a resource (e.g. to inject failures).
+let MOCK_RESOURCES = [];
+
+// Resources read and write the collections saved by services/mocking/db.ts directly, so mutations
+// survive reloads and are visible to the page.
+const MOCK_DB_NAME = 'devcore-mock-db';
+const COLLECTIONS_STORE = 'mock-collections';
+const RESERVED_LIST_PARAMS = ['_page', '_limit', '_sort', '_order', 'q'];
+
+const escapeRegex = (text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+// '/api/users/:id' -> /^\/api\/users\/([^/]+)$/ with paramNames ['id']; '*' matches any remainder.
+const compilePath = (path) => {
+  const paramNames = [];
+  let wildcardIndex = 0;
+  const source = path
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      const parts = segment.split('*');
+      for (let i = 1; i < parts.length; i++) paramNames.push(String(wildcardIndex++));
+      return parts.map(escapeRegex).join('(.*)');
+    })
+    .join('/');
+  return { regex: new RegExp('^' + source + '/?$'), paramNames };
+};
+
+// A predicate is { name, equals?, matches?, present? }. All given conditions must hold.
+const predicateHolds = (predicate, value) => {
+  if (predicate.present === false) return value === null || value === undefined;
+  if (value === null || value === undefined) return false;
+  if (predicate.equals !== undefined && String(value) !== String(predicate.equals)) return false;
+  if (predicate.matches !== undefined && !new RegExp(predicate.matches).test(String(value))) return false;
+  return true;
+};
+
+// Deep partial match: every key in `expected` must exist in `actual` with a matching value.
+const containsJson = (actual, expected) => {
+  if (expected === null || typeof expected !== 'object') return actual === expected;
+  if (actual === null || typeof actual !== 'object') return false;
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every(item => actual.some(candidate => containsJson(candidate, item)));
+  }
+  return Object.keys(expected).every(key => containsJson(actual[key], expected[key]));
+};
+
+const bodyMatches = (matcher, rawBody, jsonBody) => {
+  if (matcher.equals !== undefined && JSON.stringify(jsonBody) !== JSON.stringify(matcher.equals)) return false;
+  if (matcher.contains !== undefined && !containsJson(jsonBody, matcher.contains)) return false;
+  if (matcher.matches !== undefined && !new RegExp(matcher.matches).test(rawBody)) return false;
+  return true;
+};
+
+const lookup = (context, expression) =>
+  expression.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), context);
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+// '{{params.id}}' on its own keeps the value's type; inside a longer string it is interpolated.
+const renderTemplate = (value, context) => {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      const resolved = lookup(context, whole[1]);
+      return resolved === undefined ? null : resolved;
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, expression) => {
+      const resolved = lookup(context, expression);
+      if (resolved === undefined || resolved === null) return '';
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) return value.map(item => renderTemplate(item, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplate(item, context)]));
+  }
+  return value;
+};
+
+const openMockDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(MOCK_DB_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs `mutate(items)` against a collection's records inside one transaction. `mutate` must be
+// synchronous and returns { changed, ...result }; changed records are written back before the
+// transaction commits. Resolves to undefined when the collection does not exist.
+const withCollection = async (collectionId, mutate) => {
+  const db = await openMockDb();
+  return new Promise((resolve, reject) => {
+    if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+      db.close();
+      resolve(undefined);
+      return;
+    }
+    const tx = db.transaction(COLLECTIONS_STORE, 'readwrite');
+    const store = tx.objectStore(COLLECTIONS_STORE);
+    let outcome;
+    const getRequest = store.get(collectionId);
+    getRequest.onsuccess = () => {
+      const collection = getRequest.result;
+      if (!collection) return;
+      const items = Array.isArray(collection.data) ? collection.data.slice() : [];
+      outcome = mutate(items);
+      if (outcome.changed) {
+        store.put({
+          ...collection,
+          data: items,
+          // Collections saved before seeding existed keep their original records as the seed.
+          seedData: collection.seedData || collection.data || [],
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    };
+    tx.oncomplete = () => { db.close(); resolve(outcome); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+    tx.onabort = () => { db.close(); reject(tx.error); };
+  });
+};
+
+const notifyCollectionChanged = async (collectionId) => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'COLLECTION_CHANGED', collectionId }));
+};
+
+const jsonResponse = (status, body, headers = {}) =>
+  new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const compareValues = (a, b) => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+// json-server style listing: any non-reserved param filters by equality (dotted paths allowed),
+// `q` searches every field, `_sort`/`_order` sort and `_page`/`_limit` paginate.
+const listItems = (items, searchParams) => {
+  let result = items;
+  for (const [key, value] of searchParams.entries()) {
+    if (RESERVED_LIST_PARAMS.includes(key)) continue;
+    result = result.filter(item => {
+      const actual = lookup(item, key);
+      return actual !== undefined && actual !== null && String(actual) === value;
+    });
+  }
+
+  const q = searchParams.get('q');
+  if (q) {
+    const needle = q.toLowerCase();
+    result = result.filter(item => JSON.stringify(item).toLowerCase().includes(needle));
+  }
+
+  const sortField = searchParams.get('_sort');
+  if (sortField) {
+    const direction = searchParams.get('_order') === 'desc' ? -1 : 1;
+    result = result.slice().sort((a, b) => direction * compareValues(lookup(a, sortField), lookup(b, sortField)));
+  }
+
+  const total = result.length;
+  const page = parseInt(searchParams.get('_page') || '', 10);
+  const limit = parseInt(searchParams.get('_limit') || '', 10);
+  if (page > 0 || limit > 0) {
+    const pageSize = limit > 0 ? limit : 10;
+    const start = (page > 0 ? page - 1 : 0) * pageSize;
+    result = result.slice(start, start + pageSize);
+  }
+  return { items: result, total };
+};
+
+// Numeric ids continue the sequence; anything else gets a UUID.
+const nextId = (items, idField) => {
+  const ids = items.map(item => item[idField]);
+  if (ids.length > 0 && ids.every(id => typeof id === 'number')) return Math.max(...ids) + 1;
+  return crypto.randomUUID();
+};
+
+const handleResourceRequest = async (resource, id, request, url, body) => {
+  const { collectionId, idField } = resource;
+  const method = request.method;
+  const findIndex = (items) => items.findIndex(item => String(item[idField]) === id);
+  const isObject = body !== null && typeof body === 'object' && !Array.isArray(body);
+
+  if (method !== 'GET' && method !== 'DELETE' && !isObject) {
+    return jsonResponse(400, { error: 'Request body must be a JSON object.' });
+  }
+
+  let outcome;
+  if (id === undefined) {
+    if (method === 'GET') {
+      outcome = await withCollection(collectionId, items => ({ changed: false, ...listItems(items, url.searchParams) }));
+      if (!outcome) return jsonResponse(404, { error: `Collection '${collectionId}' not found.` });
+      return jsonResponse(200, outcome.items, {
+        'X-Total-Count': String(outcome.total),
+        'Access-Control-Expose-Headers': 'X-Total-Count',
+      });
+    }
+    if (method !== 'POST') return jsonResponse(405, { error: `${method} is not allowed on ${resource.basePath}.` });
+
+    outcome = await withCollection(collectionId, items => {
+      const created = { ...body };
+      if (created[idField] === undefined || created[idField] === null) {
+        created[idField] = nextId(items, idField);
+      } else if (items.some(item => String(item[idField]) === String(created[idField]))) {
+        return { changed: false, status: 409, body: { error: `An item with ${idField} '${created[idField]}' already exists.` } };
+      }
+      items.push(created);
+      return { changed: true, status: 201, body: created };
+    });
+  } else {
+    outcome = await withCollection(collectionId, items => {
+      const index = findIndex(items);
+      if (index === -1) return { changed: false, status: 404, body: { error: `No item with ${idField} '${id}'.` } };
+      const existing = items[index];
+      switch (method) {
+        case 'GET':
+          return { changed: false, status: 200, body: existing };
+        case 'PUT':
+          items[index] = { ...body, [idField]: existing[idField] };
+          return { changed: true, status: 200, body: items[index] };
+        case 'PATCH':
+          items[index] = { ...existing, ...body, [idField]: existing[idField] };
+          return { changed: true, status: 200, body: items[index] };
+        case 'DELETE':
+          items.splice(index, 1);
+          return { changed: true, status: 204, body: undefined };
+        default:
+          return { changed: false, status: 405, body: { error: `${method} is not allowed on ${resource.basePath}/:${idField}.` } };
+      }
+    });
+  }
+
+  if (!outcome) return jsonResponse(404, { error: `Collection '${collectionId}' not found.` });
+  if (outcome.changed) await notifyCollectionChanged(collectionId);
+  const headers = outcome.status === 201 ? { Location: `${resource.basePath}/${encodeURIComponent(outcome.body[idField])}` } : {};
+  return jsonResponse(outcome.status, outcome.body, headers);
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Statuses that must not carry a body; the Response constructor rejects one.
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const buildResponse = (response, context) => {
+  const headers = renderTemplate(response.headers || {}, context);
+  if (NULL_BODY_STATUSES.includes(response.status)) return new Response(null, { status: response.status, headers });
+  const body = renderTemplate(response.body, context);
+  const isText = typeof body === 'string' && headers['Content-Type'] && !headers['Content-Type'].includes('json');
+  return new Response(isText ? body : JSON.stringify(body), {
+    status: response.status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+};
+
+const handleRequest = async (request) => {
+  const url = new URL(request.url);
+  const method = request.method;
+  let rawBody = null;
+  let jsonBody;
+
+  // The body can only be read once, so read a clone on first use and share it across routes.
+  const readBody = async () => {
+    if (rawBody !== null) return;
+    rawBody = method === 'GET' || method === 'HEAD' ? '' : await request.clone().text();
+    try { jsonBody = rawBody ? JSON.parse(rawBody) : undefined; } catch (e) { jsonBody = undefined; }
+  };
+
+  for (const route of MOCK_ROUTES) {
+    if (route.method !== method) continue;
+    const pathMatch = url.pathname.match(route.regex);
+    if (!pathMatch) continue;
+
+    if (route.query && !route.query.every(p => predicateHolds(p, url.searchParams.get(p.name)))) continue;
+    if (route.headers && !route.headers.every(p => predicateHolds(p, request.headers.get(p.name)))) continue;
+
+    await readBody();
+    if (route.body && !bodyMatches(route.body, rawBody, jsonBody)) continue;
+
+    const params = {};
+    route.paramNames.forEach((name, i) => { params[name] = decodeURIComponent(pathMatch[i + 1]); });
+    const context = {
+      params,
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: Object.fromEntries(request.headers.entries()),
+      body: jsonBody !== undefined ? jsonBody : rawBody,
+      data: route.templateData || {},
+      now: new Date().toISOString(),
+      uuid: crypto.randomUUID(),
+    };
+
+    const delay = (route.delayMs || 0) + Math.random() * (route.jitterMs || 0);
+    if (delay > 0) await sleep(delay);
+
+    if (route.errorRate && Math.random() < route.errorRate) {
+      if (route.errorKind === 'network') return Response.error();
+      return buildResponse(route.errorResponse || { status: 500, body: { error: 'Injected mock failure' } }, context);
+    }
+    return buildResponse(route.response, context);
+  }
+
+  for (const resource of MOCK_RESOURCES) {
+    const resourceMatch = url.pathname.match(resource.regex);
+    if (!resourceMatch) continue;
+    await readBody();
+    const id = resourceMatch[1] === undefined ? undefined : decodeURIComponent(resourceMatch[1]);
+    return handleResourceRequest(resource, id, request, url, jsonBody === undefined ? null : jsonBody);
+  }
+
+  // If no mock route matches, fall back to the network.
+  return fetch(request);
+};
 
 self.addEventListener('install', (event) => {
   self.skipWaiting();
@@ -19,35 +341,24 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('message', (event) => {
   if (event.data.type === 'SET_ROUTES') {
     const routes = event.data.routes || [];
-    MOCK_ROUTES.clear();
-    routes.forEach(route => {
-        // Simple wildcard support
-        const regex = new RegExp('^' + route.path.replace(/\*/g, '.*') + '$');
-        MOCK_ROUTES.set(regex, {
-            method: route.method,
-            response: route.response,
-        });
+    MOCK_ROUTES = routes.map(route => ({ ...route, ...compilePath(route.path) }));
+  } else if (event.data.type === 'SET_RESOURCES') {
+    const resources = event.data.resources || [];
+    MOCK_RESOURCES = resources.map(resource => {
+      const basePath = resource.basePath.replace(/\/+$/, '');
+      return {
+        ...resource,
+        basePath,
+        idField: resource.idField || 'id',
+        regex: new RegExp('^' + escapeRegex(basePath) + '(?:/([^/]+))?/?$'),
+      };
     });
   }
 });
 
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
-  const path = url.pathname;
-  const method = event.request.method;
-
-  for (const [routeRegex, routeInfo] of MOCK_ROUTES.entries()) {
-    if (routeRegex.test(path) && routeInfo.method === method) {
-      event.respondWith(
-        new Response(JSON.stringify(routeInfo.response.body), {
-          status: routeInfo.response.status,
-          headers: { 'Content-Type': 'application/json', ...routeInfo.response.headers },
-        })
-      );
-      return;
-    }
-  }
-
-  // If no mock route matches, fall back to the network.
-  event.respondWith(fetch(event.request));
+  // Only requests to this origin can be mocked; everything else goes straight to the network.
+  if (url.origin !== self.location.origin || MOCK_ROUTES.length === 0 && MOCK_RESOURCES.length === 0) return;
+  event.respondWith(handleRequest(event.request));
 });
@@ -0,0 +1,91 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { synthesizeFromSchema } from '../mocking/jsonSchema.ts';
+import { parseModelJson } from './jsonOutput.ts';
+import type { AiGenerateRequest, AiProvider } from './types.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+// An offline stand-in for a model, for demos and tests. The same prompt always gets the same answer:
+// a registered fixture when one matches, otherwise a canned reply (or schema-shaped JSON) seeded by the prompt.
+
+export interface AiFixture {
+    /** Matches when the prompt contains this string, or when this pattern tests true against the prompt. */
+    match: string | RegExp;
+    /** Text for generate and stream; for generateJson, a JSON-serializable value or a JSON string. */
+    response: string | object;
+}
+
+const fixtures: AiFixture[] = [];
+
+/**
+ * Adds a canned response. Fixtures registered later win over earlier ones that match the same prompt.
+ * @returns A function that removes the fixture again.
+ */
+export const registerAiFixture = (fixture: AiFixture): (() => void) => {
+    fixtures.unshift(fixture);
+    return () => {
+        const index = fixtures.indexOf(fixture);
+        if (index !== -1) fixtures.splice(index, 1);
+    };
+};
+
+const findFixture = (prompt: string): AiFixture | undefined =>
+    fixtures.find(({ match }) => typeof match === 'string' ? prompt.includes(match) : new RegExp(match.source, match.flags.replace('g', '')).test(prompt));
+
+// FNV-1a, so seeds are stable across sessions and browsers.
+const hashPrompt = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('The request was aborted.', 'AbortError');
+};
+
+const fixtureText = (request: AiGenerateRequest): string => {
+    const fixture = findFixture(request.prompt);
+    if (fixture) return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response, null, 2);
+    const excerpt = request.prompt.replace(/\s+/g, ' ').trim().slice(0, 120);
+    return `Fixture response #${hashPrompt(request.prompt).toString(16)}.\n\nThis text comes from the offline fixture provider, not a model. It answered the prompt:\n\n> ${excerpt}${request.prompt.length > 120 ? '…' : ''}`;
+};
+
+export const fixtureProvider: AiProvider = {
+    id: 'fixture',
+    name: 'Offline fixtures',
+    description: 'Deterministic canned responses that need no network or key. For demos and tests.',
+
+    getModelId: () => 'fixture',
+
+    isConfigured: async () => true,
+
+    generate: async (request) => {
+        throwIfAborted(request.signal);
+        return fixtureText(request);
+    },
+
+    stream: async function* (request) {
+        // Word-sized chunks, so streaming UIs render the way they do with a real model.
+        for (const chunk of fixtureText(request).match(/\S+\s*|\s+/g) ?? []) {
+            throwIfAborted(request.signal);
+            await new Promise(resolve => setTimeout(resolve, 15));
+            yield chunk;
+        }
+    },
+
+    generateJson: async <T = any>(request: AiGenerateRequest, schema: JsonSchema): Promise<T> => {
+        throwIfAborted(request.signal);
+        const fixture = findFixture(request.prompt);
+        if (fixture) return typeof fixture.response === 'string' ? parseModelJson(fixture.response) : structuredClone(fixture.response) as T;
+        return synthesizeFromSchema(schema, schema, 0, hashPrompt(request.prompt));
+    },
+};
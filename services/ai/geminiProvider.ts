@@ -0,0 +1,94 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI } from '@google/genai';
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { getDecryptedCredentialWithUnlock, listCredentials } from '../vaultService.ts';
+import { parseModelJson } from './jsonOutput.ts';
+import type { AiGenerateRequest, AiProvider } from './types.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+// The key the Connections view stores for Gemini.
+export const GEMINI_API_KEY_CREDENTIAL_ID = 'gemini_api_key';
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+const getClient = async (): Promise<GoogleGenAI> => {
+    const apiKey = await getDecryptedCredentialWithUnlock(GEMINI_API_KEY_CREDENTIAL_ID);
+    if (!apiKey) throw new Error('No Gemini API key is stored. Add one under Connections or pick another AI provider in Settings.');
+    // Rebuild the client when the key was rotated.
+    if (client?.apiKey !== apiKey) client = { apiKey, ai: new GoogleGenAI({ apiKey }) };
+    return client.ai;
+};
+
+const toContents = (request: AiGenerateRequest) => request.images?.length
+    ? [{ role: 'user', parts: [{ text: request.prompt }, ...request.images.map(inlineData => ({ inlineData }))] }]
+    : request.prompt;
+
+// Thinking tokens are billed as output, so they count towards the response.
+const reportUsage = (request: AiGenerateRequest, usage: GenerateContentResponseUsageMetadata | undefined) => {
+    if (!usage || !request.onUsage) return;
+    request.onUsage({
+        modelId: GEMINI_MODEL,
+        promptTokens: usage.promptTokenCount ?? 0,
+        responseTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+    });
+};
+
+const toConfig = (request: AiGenerateRequest) => ({
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    abortSignal: request.signal,
+});
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    description: `Google's hosted ${GEMINI_MODEL} model. Needs a Gemini API key in the vault.`,
+
+    getModelId: () => GEMINI_MODEL,
+
+    isConfigured: async () => {
+        try {
+            return (await listCredentials()).includes(GEMINI_API_KEY_CREDENTIAL_ID);
+        } catch {
+            return false; // Locked vault: the key may exist, but the caller cannot use it yet.
+        }
+    },
+
+    generate: async (request) => {
+        const ai = await getClient();
+        const response = await ai.models.generateContent({ model: GEMINI_MODEL, contents: toContents(request), config: toConfig(request) });
+        reportUsage(request, response.usageMetadata);
+        return response.text ?? '';
+    },
+
+    stream: async function* (request) {
+        const ai = await getClient();
+        const response = await ai.models.generateContentStream({ model: GEMINI_MODEL, contents: toContents(request), config: toConfig(request) });
+        // Each chunk carries the running totals; the last one has the final counts.
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        for await (const chunk of response) {
+            usage = chunk.usageMetadata ?? usage;
+            if (chunk.text) yield chunk.text;
+        }
+        reportUsage(request, usage);
+    },
+
+    generateJson: async <T = any>(request: AiGenerateRequest, schema: JsonSchema): Promise<T> => {
+        const ai = await getClient();
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: toContents(request),
+            config: { ...toConfig(request), responseMimeType: 'application/json', responseJsonSchema: schema },
+        });
+        reportUsage(request, response.usageMetadata);
+        return parseModelJson(response.text ?? '');
+    },
+};
@@ -0,0 +1,61 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { logEvent } from '../telemetryService.ts';
+import { registerAiProvider, resolveAiProvider } from './providerRegistry.ts';
+import { geminiProvider } from './geminiProvider.ts';
+import { openAiCompatibleProvider } from './openAiCompatibleProvider.ts';
+import { fixtureProvider } from './fixtureProvider.ts';
+import { meterAiCall, meterAiStream } from './usageLedger.ts';
+import type { AiGenerateRequest } from './types.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+// The entry point features call. Each call is routed to the provider selected for the feature in Settings,
+// checked against the AI budgets and recorded in the usage ledger.
+
+export * from './types.ts';
+export * from './providerRegistry.ts';
+export { parseModelJson, ModelJsonParseError } from './jsonOutput.ts';
+export * from './structuredOutput.ts';
+export * from './outputSchemas.ts';
+export * from './structuredGenerators.ts';
+export * from './usageLedger.ts';
+export { geminiProvider, GEMINI_API_KEY_CREDENTIAL_ID } from './geminiProvider.ts';
+export { openAiCompatibleProvider } from './openAiCompatibleProvider.ts';
+export { fixtureProvider, registerAiFixture } from './fixtureProvider.ts';
+export type { AiFixture } from './fixtureProvider.ts';
+
+registerAiProvider(geminiProvider);
+registerAiProvider(openAiCompatibleProvider);
+registerAiProvider(fixtureProvider);
+
+export interface AiFeatureRequest extends AiGenerateRequest {
+    /** The calling feature's id, used to pick its provider. Omit to use the default provider. */
+    featureId?: string;
+}
+
+/** Generates a complete text response with the feature's provider. */
+export const generate = async ({ featureId, ...request }: AiFeatureRequest): Promise<string> => {
+    const provider = resolveAiProvider(featureId);
+    logEvent('ai_request', { featureId, provider: provider.id, mode: 'generate' });
+    return meterAiCall({ provider, featureId, mode: 'generate', request }, provider.generate, text => text);
+};
+
+/** Streams a text response from the feature's provider. */
+export async function* stream({ featureId, ...request }: AiFeatureRequest): AsyncGenerator<string> {
+    const provider = resolveAiProvider(featureId);
+    logEvent('ai_request', { featureId, provider: provider.id, mode: 'stream' });
+    yield* meterAiStream({ provider, featureId, mode: 'stream', request }, provider.stream);
+}
+
+/** Asks the feature's provider for JSON shaped by `schema`. */
+export const generateJson = async <T = any>({ featureId, ...request }: AiFeatureRequest, schema: JsonSchema): Promise<T> => {
+    const provider = resolveAiProvider(featureId);
+    logEvent('ai_request', { featureId, provider: provider.id, mode: 'json' });
+    return meterAiCall({ provider, featureId, mode: 'json', request }, metered => provider.generateJson<T>(metered, schema), value => JSON.stringify(value) ?? '');
+};
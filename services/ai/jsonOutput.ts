@@ -0,0 +1,40 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Raised when model output contains no parseable JSON. Keeps the raw text so it can be shown or sent back for repair. */
+export class ModelJsonParseError extends SyntaxError {
+    constructor(message: string, public readonly text: string) {
+        super(message);
+        this.name = 'ModelJsonParseError';
+    }
+}
+
+/**
+ * Parses JSON out of model output. Models that were asked for JSON still sometimes wrap it in a
+ * Markdown fence or add a sentence around it, so the outermost object or array is tried as a fallback.
+ * @throws ModelJsonParseError when no JSON value can be recovered.
+ */
+export const parseModelJson = (text: string): any => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    const candidate = fenced ? fenced[1] : trimmed;
+    try {
+        return JSON.parse(candidate);
+    } catch (error) {
+        const start = candidate.search(/[[{]/);
+        const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+        if (start !== -1 && end > start) {
+            try {
+                return JSON.parse(candidate.slice(start, end + 1));
+            } catch {
+                // Fall through to the original error, which points at the real problem.
+            }
+        }
+        throw new ModelJsonParseError(error instanceof Error ? error.message : 'Invalid JSON', text);
+    }
+};
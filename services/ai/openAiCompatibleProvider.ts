@@ -0,0 +1,148 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getDecryptedCredentialWithUnlock } from '../vaultService.ts';
+import { getAiProviderSettings } from './providerRegistry.ts';
+import { parseModelJson } from './jsonOutput.ts';
+import type { AiGenerateRequest, AiProvider } from './types.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+// Talks to any server that implements the OpenAI chat completions API: Ollama, LM Studio, vLLM,
+// llama.cpp's server, or OpenAI itself. The base URL, model and optional key come from Settings.
+
+type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+    role: 'system' | 'user';
+    content: string | ChatContentPart[];
+}
+
+const toMessages = (request: AiGenerateRequest): ChatMessage[] => [
+    ...(request.systemInstruction ? [{ role: 'system' as const, content: request.systemInstruction }] : []),
+    {
+        role: 'user',
+        content: request.images?.length
+            ? [{ type: 'text', text: request.prompt }, ...request.images.map(({ mimeType, data }): ChatContentPart => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }))]
+            : request.prompt,
+    },
+];
+
+const postChatCompletion = async (request: AiGenerateRequest, body: Record<string, any>): Promise<Response> => {
+    const { baseUrl, model, apiKeyCredentialId } = getAiProviderSettings().openAiCompatible;
+    if (!baseUrl.trim() || !model.trim()) throw new Error('Set a base URL and model for the OpenAI-compatible provider in Settings.');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKeyCredentialId) {
+        const apiKey = await getDecryptedCredentialWithUnlock(apiKeyCredentialId);
+        if (!apiKey) throw new Error(`The credential "${apiKeyCredentialId}" configured for the OpenAI-compatible provider does not exist.`);
+        headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model: model.trim(), messages: toMessages(request), temperature: request.temperature, ...body }),
+            signal: request.signal,
+        });
+    } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error;
+        // fetch only rejects for network failures; the usual cause here is a server that is not running or blocks CORS.
+        throw new Error(`Could not reach ${baseUrl}. Check that the server is running and allows requests from this origin.`);
+    }
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`The OpenAI-compatible server returned ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+};
+
+const reportUsage = (request: AiGenerateRequest, usage: any) => {
+    if (!usage || !request.onUsage) return;
+    request.onUsage({
+        modelId: getAiProviderSettings().openAiCompatible.model.trim(),
+        promptTokens: usage.prompt_tokens ?? 0,
+        responseTokens: usage.completion_tokens ?? 0,
+    });
+};
+
+/** Splits a server-sent event stream into the JSON payloads of its `data:` lines. */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.trim();
+                if (!data.startsWith('data:')) continue;
+                const payload = data.slice('data:'.length).trim();
+                if (payload === '[DONE]') return;
+                try {
+                    yield JSON.parse(payload);
+                } catch {
+                    // Keep-alive comments and partial vendor extensions are not worth failing the stream over.
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+export const openAiCompatibleProvider: AiProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible server',
+    description: 'Any server that speaks the OpenAI chat completions API, such as a local Ollama or LM Studio.',
+
+    getModelId: () => getAiProviderSettings().openAiCompatible.model.trim(),
+
+    isConfigured: async () => {
+        const { baseUrl, model } = getAiProviderSettings().openAiCompatible;
+        return !!baseUrl.trim() && !!model.trim();
+    },
+
+    generate: async (request) => {
+        const response = await postChatCompletion(request, {});
+        const data = await response.json();
+        reportUsage(request, data.usage);
+        return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    stream: async function* (request) {
+        // include_usage asks for a final event with the token counts; servers that do not support it just omit it.
+        const response = await postChatCompletion(request, { stream: true, stream_options: { include_usage: true } });
+        if (!response.body) throw new Error('The OpenAI-compatible server did not return a stream.');
+        let usage: any;
+        for await (const event of readServerSentEvents(response.body)) {
+            usage = event.usage ?? usage;
+            const text = event.choices?.[0]?.delta?.content;
+            if (text) yield text;
+        }
+        reportUsage(request, usage);
+    },
+
+    generateJson: async <T = any>(request: AiGenerateRequest, schema: JsonSchema): Promise<T> => {
+        // Servers that ignore response_format still get the schema through the system message.
+        const systemInstruction = [
+            request.systemInstruction,
+            `Respond only with JSON that matches this JSON Schema:\n${JSON.stringify(schema)}`,
+        ].filter(Boolean).join('\n\n');
+        const response = await postChatCompletion({ ...request, systemInstruction }, {
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+        });
+        const data = await response.json();
+        reportUsage(request, data.usage);
+        return parseModelJson(data.choices?.[0]?.message?.content ?? '');
+    },
+};
@@ -0,0 +1,159 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { StructuredOutputSpec } from './structuredOutput.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+import type { ChangelogEntryWording, SemanticColorTheme, StructuredExplanation, StructuredPrSummary, StructuredReview } from '../../types.ts';
+
+// Runtime schemas for the AI result types in types.ts. Each covers the fields the model is asked to
+// produce: every required field of the interface, plus the optional ones a prompt actually requests.
+// Fields the app fills in itself (dates, versions, counts) are added by `transform`. Keep these in step with types.ts.
+
+const string: JsonSchema = { type: 'string' };
+const stringList: JsonSchema = { type: 'array', items: string };
+const object = (properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema => ({
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter(name => !optional.includes(name)),
+});
+const HEX_COLOR: JsonSchema = { type: 'string', pattern: '^#[0-9a-fA-F]{6}$' };
+
+export const STRUCTURED_PR_SUMMARY: StructuredOutputSpec<StructuredPrSummary> = {
+    name: 'StructuredPrSummary',
+    schema: object({
+        title: { type: 'string', minLength: 1, maxLength: 120 },
+        summary: { type: 'string', minLength: 1 },
+        changes: { type: 'array', items: string, minItems: 1 },
+        impactScope: { type: 'string', enum: ['minor', 'major', 'critical'] },
+        affectedModules: stringList,
+        regressionRiskScore: { type: 'integer', minimum: 0, maximum: 100 },
+    }, ['impactScope', 'affectedModules', 'regressionRiskScore']),
+    transform: value => ({ ...value, aiGenerated: true }),
+};
+
+export const STRUCTURED_EXPLANATION: StructuredOutputSpec<StructuredExplanation> = {
+    name: 'StructuredExplanation',
+    schema: object({
+        summary: { type: 'string', minLength: 1 },
+        lineByLine: { type: 'array', items: object({ lines: string, explanation: string }) },
+        complexity: object({ time: string, space: string, cyclomatic: { type: 'integer', minimum: 1 } }, ['cyclomatic']),
+        suggestions: stringList,
+        securityImpactAssessment: { type: 'string', enum: ['None', 'Minor', 'Moderate', 'High', 'Critical'] },
+    }, ['securityImpactAssessment']),
+};
+
+const REVIEW_SUGGESTION: JsonSchema = object({
+    suggestion: string,
+    codeBlock: string,
+    explanation: string,
+    severity: { type: 'string', enum: ['critical', 'high', 'medium', 'low', 'cosmetic'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    category: { type: 'string', enum: ['performance', 'security', 'maintainability', 'readability', 'bug_risk', 'architectural'] },
+    suggestedFix: string,
+}, ['suggestedFix']);
+
+export const STRUCTURED_REVIEW: StructuredOutputSpec<StructuredReview> = {
+    name: 'StructuredReview',
+    schema: object({
+        summary: { type: 'string', minLength: 1 },
+        suggestions: { type: 'array', items: REVIEW_SUGGESTION },
+        overallScore: { type: 'integer', minimum: 0, maximum: 100 },
+    }, ['overallScore']),
+    transform: value => ({
+        ...value,
+        reviewDate: new Date(),
+        totalSuggestionsCount: value.suggestions.length,
+        resolvedSuggestionsCount: 0,
+    }),
+};
+
+const paletteColor: JsonSchema = object({ value: HEX_COLOR, name: string, description: string });
+const themeColor = (roles?: string[]): JsonSchema => object({
+    value: HEX_COLOR,
+    name: string,
+    ...(roles ? { semanticRole: { type: 'string', enum: roles } } : {}),
+});
+const contrast: JsonSchema = object({
+    ratio: { type: 'number', minimum: 1, maximum: 21 },
+    score: string,
+    WCAGLevel: { type: 'string', enum: ['AA', 'AAA'] },
+});
+
+export const SEMANTIC_COLOR_THEME: StructuredOutputSpec<SemanticColorTheme> = {
+    name: 'SemanticColorTheme',
+    schema: object({
+        mode: { type: 'string', enum: ['light', 'dark', 'high_contrast'] },
+        palette: object({
+            primary: paletteColor,
+            secondary: paletteColor,
+            accent: paletteColor,
+            neutral: paletteColor,
+            error: paletteColor,
+            warning: paletteColor,
+            success: paletteColor,
+            information: paletteColor,
+        }),
+        theme: object({
+            background: themeColor(['base_canvas', 'overlay_surface']),
+            surface: themeColor(['card_panel', 'modal_dialog']),
+            textPrimary: themeColor(['heading_copy', 'body_text']),
+            textSecondary: themeColor(['subtle_info', 'label_text']),
+            textOnPrimary: themeColor(['button_label', 'inverted_copy']),
+            border: themeColor(['divider_line', 'interactive_outline']),
+            buttonPrimary: themeColor(),
+            buttonSecondary: themeColor(),
+            inputBackground: themeColor(),
+            inputBorder: themeColor(),
+            interactiveHover: themeColor(),
+            interactiveActive: themeColor(),
+        }),
+        accessibility: object({
+            primaryOnSurface: contrast,
+            textPrimaryOnSurface: contrast,
+            textSecondaryOnSurface: contrast,
+            textOnPrimaryOnPrimary: contrast,
+        }),
+    }),
+    transform: value => ({
+        ...value,
+        theme: {
+            ...value.theme,
+            // Fixed descriptions in the type; the model is only asked for the colors.
+            attentionHighlight: { value: value.palette.accent.value, name: value.palette.accent.name, description: 'Draws user attention to critical updates' },
+            cognitiveLoadReducer: { value: value.palette.neutral.value, name: value.palette.neutral.name, description: 'Subtle color shifts to reduce mental fatigue' },
+            emotionalAnchor: { value: value.palette.primary.value, name: value.palette.primary.name, description: 'A color designed to evoke a sense of calm or focus' },
+        },
+        version: '1.0.0',
+        lastUpdated: new Date(),
+    }),
+};
+
+/** Reworded text for the changelog entries `ids`. If the model repeats an id, its first text wins and the entry it left out keeps its own wording. */
+export const changelogWordingList = (ids: string[]): StructuredOutputSpec<ChangelogEntryWording[]> => ({
+    name: `reworded text for ${ids.length} changelog entries`,
+    schema: {
+        type: 'array',
+        items: object({ id: { type: 'string', enum: ids }, text: { type: 'string', minLength: 1 } }),
+        minItems: ids.length,
+        maxItems: ids.length,
+    },
+    transform: (value: ChangelogEntryWording[]) => value.filter((entry, i) => value.findIndex(other => other.id === entry.id) === i),
+});
+
+/** Search tags for a code snippet: short, lower-case and without duplicates. */
+export const SNIPPET_TAGS: StructuredOutputSpec<string[]> = {
+    name: 'list of snippet tags',
+    schema: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 40 }, minItems: 1, maxItems: 8 },
+    transform: (value: string[]) => [...new Set(value.map(tag => tag.trim().toLowerCase()))],
+};
+
+/** A list of `count` records for the mock server. The records themselves are free-form. */
+export const mockDataList = (count: number): StructuredOutputSpec<Record<string, any>[]> => ({
+    name: `list of ${count} mock records`,
+    schema: { type: 'array', items: { type: 'object' }, minItems: count, maxItems: count },
+});
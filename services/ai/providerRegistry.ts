@@ -0,0 +1,125 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AiProvider, AiProviderSettings } from './types.ts';
+
+// Which provider serves which feature. Settings live in localStorage next to the other devcore_* keys;
+// without storage consent they are kept in memory for the session only.
+const SETTINGS_KEY = 'devcore_ai_providers';
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+const DEFAULT_SETTINGS: AiProviderSettings = {
+    defaultProviderId: DEFAULT_PROVIDER_ID,
+    featureProviders: {},
+    openAiCompatible: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKeyCredentialId: '' },
+};
+
+const providers = new Map<string, AiProvider>();
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Registers a callback fired after a provider is registered or the provider settings change.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToAiProviders = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Adds a provider, replacing any registered under the same id. */
+export const registerAiProvider = (provider: AiProvider): void => {
+    providers.set(provider.id, provider);
+    notify();
+};
+
+export const getAiProvider = (id: string): AiProvider | undefined => providers.get(id);
+
+export const listAiProviders = (): AiProvider[] => Array.from(providers.values());
+
+const hasStorageConsent = (): boolean => {
+    try {
+        return window.localStorage.getItem('devcore_ls_consent') === 'granted';
+    } catch {
+        return false;
+    }
+};
+
+let settings: AiProviderSettings | null = null;
+
+export const getAiProviderSettings = (): AiProviderSettings => {
+    if (settings) return settings;
+    settings = DEFAULT_SETTINGS;
+    if (hasStorageConsent()) {
+        try {
+            const stored = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? 'null');
+            if (stored && typeof stored === 'object') {
+                settings = {
+                    ...DEFAULT_SETTINGS,
+                    ...stored,
+                    featureProviders: { ...stored.featureProviders },
+                    openAiCompatible: { ...DEFAULT_SETTINGS.openAiCompatible, ...stored.openAiCompatible },
+                };
+            }
+        } catch (error) {
+            console.error(`Error reading localStorage key “${SETTINGS_KEY}”:`, error);
+        }
+    }
+    return settings!;
+};
+
+/** Merges `changes` into the provider settings and persists them. */
+export const updateAiProviderSettings = (changes: Partial<AiProviderSettings>): AiProviderSettings => {
+    settings = { ...getAiProviderSettings(), ...changes };
+    if (hasStorageConsent()) {
+        try {
+            window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        } catch (error) {
+            console.error(`Error setting localStorage key “${SETTINGS_KEY}”:`, error);
+        }
+    }
+    notify();
+    return settings;
+};
+
+/** Routes `featureId` to `providerId`, or back to the default provider when `providerId` is null. */
+export const setFeatureAiProvider = (featureId: string, providerId: string | null): void => {
+    const featureProviders = { ...getAiProviderSettings().featureProviders };
+    if (providerId) {
+        featureProviders[featureId] = providerId;
+    } else {
+        delete featureProviders[featureId];
+    }
+    updateAiProviderSettings({ featureProviders });
+};
+
+/** Returns the id of the provider that serves `featureId`; without a feature, the default provider's id. */
+export const getAiProviderIdForFeature = (featureId?: string): string => {
+    const { defaultProviderId, featureProviders } = getAiProviderSettings();
+    return (featureId && featureProviders[featureId]) || defaultProviderId;
+};
+
+/**
+ * Looks up the provider that serves `featureId`.
+ * @throws If the selected provider is not registered, e.g. a setting left behind by a removed plugin.
+ */
+export const resolveAiProvider = (featureId?: string): AiProvider => {
+    const providerId = getAiProviderIdForFeature(featureId);
+    const provider = providers.get(providerId);
+    if (!provider) throw new Error(`AI provider "${providerId}" is not available. Pick another one in Settings.`);
+    return provider;
+};
+
+/** Whether any feature, or the default, is routed to `providerId`. */
+export const isAiProviderInUse = (providerId: string): boolean => {
+    const { defaultProviderId, featureProviders } = getAiProviderSettings();
+    return defaultProviderId === providerId || Object.values(featureProviders).includes(providerId);
+};
@@ -0,0 +1,93 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { generateStructured } from './structuredOutput.ts';
+import { SEMANTIC_COLOR_THEME, SNIPPET_TAGS, STRUCTURED_EXPLANATION, STRUCTURED_PR_SUMMARY, STRUCTURED_REVIEW, changelogWordingList, mockDataList } from './outputSchemas.ts';
+import type { AiImageInput } from './types.ts';
+import type { ChangelogEntryWording, SemanticColorTheme, StructuredExplanation, StructuredPrSummary, StructuredReview } from '../../types.ts';
+
+// The JSON-returning calls features make. Each goes through generateStructured, so callers either get
+// a value of the declared type or a StructuredOutputError that says what was wrong with the output.
+
+/** Writes a title, summary and change list for a pull request from its diff. */
+export const generatePrSummaryStructured = (diff: string, featureId = 'ai-pull-request-assistant'): Promise<StructuredPrSummary> =>
+    generateStructured({
+        featureId,
+        systemInstruction: 'You are an expert software engineer who writes clear, concise pull request descriptions.',
+        prompt: `Summarize this diff as a pull request. Give a short imperative title, a one-paragraph summary, one entry per notable change, the impact scope, the affected modules and a regression risk score from 0 to 100.\n\n\`\`\`diff\n${diff}\n\`\`\``,
+        temperature: 0.3,
+    }, STRUCTURED_PR_SUMMARY);
+
+/** Explains code: a summary, per-line notes, complexity and improvement suggestions. */
+export const explainCodeStructured = (code: string, featureId = 'ai-code-explainer'): Promise<StructuredExplanation> =>
+    generateStructured({
+        featureId,
+        systemInstruction: 'You are an expert programmer who explains code to other developers.',
+        prompt: `Explain this code. Give a summary, a line-by-line breakdown (group related lines, e.g. "3-5"), its time and space complexity in Big O notation, and concrete suggestions for improvement.\n\n\`\`\`\n${code}\n\`\`\``,
+        temperature: 0.2,
+    }, STRUCTURED_EXPLANATION);
+
+/** Reviews code and returns suggestions with severity, category and a fix where one is clear. */
+export const reviewCodeStructured = (code: string, systemInstruction?: string, featureId = 'code-review-bot'): Promise<StructuredReview> =>
+    generateStructured({
+        featureId,
+        systemInstruction: systemInstruction || 'You are a senior engineer doing a careful, constructive code review.',
+        prompt: `Review this code. Summarize its overall quality, score it from 0 to 100, and list each problem as a suggestion quoting the affected code.\n\n\`\`\`\n${code}\n\`\`\``,
+        temperature: 0.3,
+    }, STRUCTURED_REVIEW);
+
+export interface SemanticThemeOptions {
+    /** Prompt parts in Gemini's shape: `{ text }` or `{ inlineData: { mimeType, data } }`. */
+    parts: any[];
+    aiPersonaId?: string;
+    temperature?: number;
+    brandGuidelines?: string[];
+}
+
+/** Designs a semantic color theme from a description and optionally a reference image. */
+export const generateSemanticTheme = ({ parts, temperature, brandGuidelines }: SemanticThemeOptions, featureId = 'theme-designer'): Promise<SemanticColorTheme> => {
+    const text = parts.filter(part => typeof part?.text === 'string').map(part => part.text).join('\n');
+    const images: AiImageInput[] = parts.filter(part => part?.inlineData?.data).map(part => part.inlineData);
+    return generateStructured({
+        featureId,
+        systemInstruction: 'You are a UI designer who builds accessible color systems. All colors are 6-digit hex codes.',
+        prompt: `Design a semantic color theme for this brief${images.length ? ' and reference image' : ''}. Report the WCAG contrast ratio of each listed pair honestly.\n\n${text}${brandGuidelines?.length ? `\n\nBrand guidelines:\n${brandGuidelines.map(rule => `- ${rule}`).join('\n')}` : ''}`,
+        images,
+        temperature,
+    }, SEMANTIC_COLOR_THEME);
+};
+
+/** Generates `count` realistic records matching a plain-language or schema description, for the mock server. */
+export const generateMockData = (schemaDescription: string, count: number, featureId = 'api-mock-generator'): Promise<Record<string, any>[]> =>
+    generateStructured({
+        featureId,
+        systemInstruction: 'You generate realistic, varied sample data for API mocks. Never use placeholder values like "string" or "example".',
+        prompt: `Generate exactly ${count} records, as a JSON array of objects, matching this description:\n\n${schemaDescription}`,
+        temperature: 0.8,
+    }, mockDataList(count));
+
+/**
+ * Rewords changelog entries for release notes. Only the text changes: every id comes back exactly once, so entries
+ * cannot be added, dropped or moved between sections.
+ */
+export const polishChangelogWording = (entries: ChangelogEntryWording[], featureId = 'changelog-generator'): Promise<ChangelogEntryWording[]> =>
+    generateStructured({
+        featureId,
+        systemInstruction: 'You are a technical writer who edits release notes. You reword entries; you never add, remove, merge or reinterpret changes.',
+        prompt: `Reword each changelog entry so it reads well in release notes: one short sentence in the same voice as the original, code identifiers in backticks, no trailing period, no scope prefix and no issue or PR numbers. Keep the meaning exactly. Return every entry with its id unchanged.\n\n${JSON.stringify(entries, null, 2)}`,
+        temperature: 0.2,
+    }, changelogWordingList(entries.map(entry => entry.id)));
+
+/** Suggests a few search tags for a code snippet: its language, frameworks and what it does. */
+export const generateSnippetTags = (code: string, featureId = 'portable-snippet-vault'): Promise<string[]> =>
+    generateStructured({
+        featureId,
+        systemInstruction: 'You organise code snippet libraries. Tags are short, lower-case and hyphenated, like "react-hooks" or "sql".',
+        prompt: `Suggest up to 5 tags for this snippet: its language, any framework or library it uses and what it does.\n\n\`\`\`\n${code}\n\`\`\``,
+        temperature: 0.2,
+    }, SNIPPET_TAGS);
@@ -0,0 +1,166 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { logEvent } from '../telemetryService.ts';
+import { resolveSchemaRef, validateAgainstSchema } from '../mocking/jsonSchema.ts';
+import { resolveAiProvider } from './providerRegistry.ts';
+import { ModelJsonParseError, parseModelJson } from './jsonOutput.ts';
+import { meterAiCall } from './usageLedger.ts';
+import type { AiGenerateRequest } from './types.ts';
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+// Typed JSON from a model. The output is checked against a runtime schema; when it does not match,
+// the model is shown its own answer and the validation errors and asked to fix them, a bounded number of times.
+
+/** The runtime shape of one structured result. */
+export interface StructuredOutputSpec<T> {
+    /** Names the shape in errors and telemetry, e.g. 'StructuredPrSummary'. */
+    name: string;
+    schema: JsonSchema;
+    /** Turns validated JSON into the typed result, e.g. reviving date strings. */
+    transform?: (value: any) => T;
+}
+
+export interface StructuredOutputOptions {
+    /** Re-asks after the first answer. Defaults to 2. */
+    maxRepairs?: number;
+}
+
+/** Raised when the model's output still does not match the schema after every repair attempt. */
+export class StructuredOutputError extends Error {
+    constructor(
+        public readonly specName: string,
+        public readonly errors: string[],
+        public readonly attempts: number,
+        public readonly lastOutput: string,
+    ) {
+        super(`The AI response did not match ${specName} after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_ECHOED_OUTPUT_LENGTH = 12000;
+
+const primaryType = (schema: JsonSchema): string | undefined =>
+    Array.isArray(schema.type) ? schema.type.find(type => type !== 'null') : schema.type;
+
+/**
+ * Fixes the type slips models make most (numbers and booleans as strings, a lone item where a list
+ * belongs) so they do not cost a round trip. Anything it cannot coerce is left for validation to report.
+ */
+export const coerceToSchema = (value: any, schema: JsonSchema, root: JsonSchema = schema, depth = 0): any => {
+    if (depth > 32 || value === null || value === undefined) return value;
+    const node = resolveSchemaRef(schema, root);
+    switch (primaryType(node)) {
+        case 'integer':
+        case 'number':
+            if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+            return value;
+        case 'boolean':
+            if (value === 'true' || value === 'false') return value === 'true';
+            return value;
+        case 'string':
+            return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+        case 'array': {
+            const items = Array.isArray(value) ? value : [value];
+            return node.items ? items.map(item => coerceToSchema(item, node.items!, root, depth + 1)) : items;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value) || !node.properties) return value;
+            const result: Record<string, any> = { ...value };
+            for (const [name, child] of Object.entries(node.properties)) {
+                if (name in result) result[name] = coerceToSchema(result[name], child, root, depth + 1);
+            }
+            return result;
+        }
+        default:
+            return value;
+    }
+};
+
+const buildRepairPrompt = (request: AiGenerateRequest, spec: StructuredOutputSpec<unknown>, output: string, errors: string[]): string => {
+    const echoed = output.length > MAX_ECHOED_OUTPUT_LENGTH ? `${output.slice(0, MAX_ECHOED_OUTPUT_LENGTH)}\n…(truncated)` : output;
+    return `${request.prompt}
+
+Your previous answer was:
+\`\`\`json
+${echoed}
+\`\`\`
+
+It does not match the required ${spec.name} JSON Schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the complete corrected JSON. Fix every listed problem and keep the parts that were already valid.`;
+};
+
+/**
+ * Validates text the caller already has, e.g. a JSON block from a finished stream, against `spec`.
+ * There is no model to re-ask here; use `generateStructured` where the call can be repeated.
+ * @throws StructuredOutputError listing every problem with the output.
+ */
+export const parseStructuredOutput = <T>(text: string, spec: StructuredOutputSpec<T>): T => {
+    let value: any;
+    try {
+        value = coerceToSchema(parseModelJson(text), spec.schema);
+    } catch (error) {
+        if (!(error instanceof ModelJsonParseError)) throw error;
+        throw new StructuredOutputError(spec.name, [`The response is not valid JSON (${error.message}).`], 1, text);
+    }
+    const errors = validateAgainstSchema(value, spec.schema);
+    if (errors.length) throw new StructuredOutputError(spec.name, errors, 1, text);
+    return spec.transform ? spec.transform(value) : value;
+};
+
+/**
+ * Asks the feature's provider for JSON matching `spec` and returns it typed.
+ * @throws StructuredOutputError when the output is still malformed or invalid after `maxRepairs` re-asks.
+ *         Network, provider, budget and abort errors are rethrown as they are, without retrying.
+ */
+export const generateStructured = async <T>(
+    { featureId, ...request }: AiGenerateRequest & { featureId?: string },
+    spec: StructuredOutputSpec<T>,
+    { maxRepairs = DEFAULT_MAX_REPAIRS }: StructuredOutputOptions = {},
+): Promise<T> => {
+    const provider = resolveAiProvider(featureId);
+    let prompt = request.prompt;
+    let errors: string[] = [];
+    let output = '';
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        logEvent('ai_request', { featureId, provider: provider.id, mode: 'json', schema: spec.name, attempt });
+        let value: any;
+        try {
+            value = await meterAiCall(
+                { provider, featureId, mode: 'json', request: { ...request, prompt } },
+                metered => provider.generateJson(metered, spec.schema),
+                value => JSON.stringify(value) ?? '',
+            );
+        } catch (error) {
+            if (!(error instanceof ModelJsonParseError)) throw error;
+            output = error.text;
+            errors = [`The response is not valid JSON (${error.message}).`];
+        }
+
+        if (value !== undefined) {
+            value = coerceToSchema(value, spec.schema);
+            output = JSON.stringify(value, null, 2);
+            errors = validateAgainstSchema(value, spec.schema);
+            if (errors.length === 0) {
+                if (attempt > 1) logEvent('ai_structured_output_repaired', { featureId, schema: spec.name, attempts: attempt });
+                return spec.transform ? spec.transform(value) : value;
+            }
+        }
+
+        request.signal?.throwIfAborted();
+        prompt = buildRepairPrompt(request, spec, output, errors);
+    }
+
+    logEvent('ai_structured_output_failed', { featureId, schema: spec.name, attempts: maxRepairs + 1, errorCount: errors.length });
+    throw new StructuredOutputError(spec.name, errors, maxRepairs + 1, output);
+};
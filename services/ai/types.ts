@@ -0,0 +1,62 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { JsonSchema } from '../mocking/jsonSchema.ts';
+
+export interface AiImageInput {
+    mimeType: string;
+    data: string; // Base64, without the data: URL prefix
+}
+
+/** Token counts for one call, as reported by the provider's API. */
+export interface AiUsage {
+    modelId: string;
+    promptTokens: number;
+    responseTokens: number;
+}
+
+export interface AiGenerateRequest {
+    prompt: string;
+    images?: AiImageInput[];
+    systemInstruction?: string;
+    temperature?: number;
+    signal?: AbortSignal;
+    /** Called once the provider knows the call's token counts. Providers whose API does not report them skip it. */
+    onUsage?: (usage: AiUsage) => void;
+}
+
+/**
+ * One model backend. Every AI call in the app goes through `generate`, `stream` or `generateJson`,
+ * so a provider only has to implement these three to serve any feature.
+ */
+export interface AiProvider {
+    id: string;
+    name: string;
+    description: string;
+    /** The model calls are sent to right now; usage is filed under it when the API reports no token counts. */
+    getModelId: () => string;
+    /** Whether the provider can serve requests right now, e.g. a key is stored or a server URL is set. */
+    isConfigured: () => Promise<boolean>;
+    generate: (request: AiGenerateRequest) => Promise<string>;
+    /** Yields the response text in chunks as it arrives. */
+    stream: (request: AiGenerateRequest) => AsyncIterable<string>;
+    /** Resolves to a value parsed from the model's JSON output. Checking it against `schema` is up to the caller. */
+    generateJson: <T = any>(request: AiGenerateRequest, schema: JsonSchema) => Promise<T>;
+}
+
+export interface OpenAiCompatibleSettings {
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:1234/v1 for LM Studio
+    model: string;
+    apiKeyCredentialId: string; // Vault credential sent as the bearer token; '' for servers without auth
+}
+
+export interface AiProviderSettings {
+    defaultProviderId: string;
+    featureProviders: Record<string, string>; // featureId -> providerId; features not listed use the default
+    openAiCompatible: OpenAiCompatibleSettings;
+}
@@ -0,0 +1,402 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { logEvent } from '../telemetryService.ts';
+import { publishToTabs, subscribeToTabs } from '../tabSyncService.ts';
+import type { AiGenerateRequest, AiProvider, AiUsage } from './types.ts';
+
+// One ledger for every AI call: feature, model, token counts, latency and estimated cost. The facade in
+// index.ts and generateStructured meter each call through here, so features never record usage themselves.
+// Records use the same store name as the inference logs in dbService, in a database of their own.
+const DB_NAME = 'devcore-ai-ledger';
+const DB_VERSION = 1;
+const AI_INFERENCE_LOGS_STORE_NAME = 'ai-inference-logs';
+const SETTINGS_KEY = 'devcore_ai_cost_settings';
+const USAGE_TAB_MESSAGE = 'ai-usage-recorded';
+
+// Used when the provider's API does not report token counts: roughly four characters per token,
+// and Gemini's flat rate for an image.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_IMAGE = 258;
+
+export interface AiUsageRecord {
+    id: string;
+    featureId: string; // '' for calls made without a feature
+    providerId: string;
+    modelId: string;
+    mode: 'generate' | 'stream' | 'json';
+    promptTokens: number;
+    responseTokens: number;
+    estimated: boolean; // Token counts were estimated from text length rather than reported by the provider
+    latencyMs: number;
+    timestamp: number;
+    status: 'success' | 'failure';
+    estimatedCostUSD: number;
+}
+
+/** USD per million tokens. */
+export interface AiModelPrice {
+    inputPerMillionUSD: number;
+    outputPerMillionUSD: number;
+}
+
+export type AiBudgetPeriod = 'day' | 'month';
+
+export interface AiBudget {
+    id: string;
+    featureId: string | null; // null covers every feature
+    period: AiBudgetPeriod;
+    softLimitUSD: number | null; // Warn once spend reaches this
+    hardLimitUSD: number | null; // Refuse further calls once spend reaches this
+}
+
+export interface AiCostSettings {
+    budgets: AiBudget[];
+    prices: Record<string, AiModelPrice>; // modelId -> price; overrides DEFAULT_AI_MODEL_PRICES
+}
+
+export interface AiBudgetStatus {
+    budget: AiBudget;
+    spentUSD: number;
+    level: 'ok' | 'soft' | 'hard';
+}
+
+export interface AiUsageTotals {
+    calls: number;
+    failures: number;
+    promptTokens: number;
+    responseTokens: number;
+    costUSD: number;
+    totalLatencyMs: number;
+}
+
+export interface AiUsageSummary {
+    total: AiUsageTotals;
+    byFeature: Record<string, AiUsageTotals>;
+    byDay: Record<string, AiUsageTotals>; // Local date, YYYY-MM-DD
+    byModel: Record<string, AiUsageTotals>;
+}
+
+/** List prices at the time of writing. Local and fixture models cost nothing. */
+export const DEFAULT_AI_MODEL_PRICES: Record<string, AiModelPrice> = {
+    'gemini-2.5-flash': { inputPerMillionUSD: 0.30, outputPerMillionUSD: 2.50 },
+    'gemini-2.5-pro': { inputPerMillionUSD: 1.25, outputPerMillionUSD: 10 },
+    'gemini-2.5-flash-lite': { inputPerMillionUSD: 0.10, outputPerMillionUSD: 0.40 },
+    'gpt-4o': { inputPerMillionUSD: 2.50, outputPerMillionUSD: 10 },
+    'gpt-4o-mini': { inputPerMillionUSD: 0.15, outputPerMillionUSD: 0.60 },
+};
+
+const FREE: AiModelPrice = { inputPerMillionUSD: 0, outputPerMillionUSD: 0 };
+
+/** Thrown before a call is sent when a hard budget covering the feature is used up. */
+export class AiBudgetExceededError extends Error {
+    constructor(public readonly budget: AiBudget, public readonly spentUSD: number) {
+        super(`The ${budget.period === 'day' ? 'daily' : 'monthly'} AI budget${budget.featureId ? ` for ${budget.featureId}` : ''} of $${budget.hardLimitUSD!.toFixed(2)} is used up ($${spentUSD.toFixed(2)} spent). Raise it in the AI Usage dashboard to continue.`);
+        this.name = 'AiBudgetExceededError';
+    }
+}
+
+interface AiLedgerDB extends DBSchema {
+    [AI_INFERENCE_LOGS_STORE_NAME]: {
+        key: string;
+        value: AiUsageRecord;
+        indexes: { timestamp: number };
+    };
+}
+
+let dbPromise: Promise<IDBPDatabase<AiLedgerDB>> | null = null;
+
+const getDb = () => {
+    dbPromise ??= openDB<AiLedgerDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+            if (!db.objectStoreNames.contains(AI_INFERENCE_LOGS_STORE_NAME)) {
+                const store = db.createObjectStore(AI_INFERENCE_LOGS_STORE_NAME, { keyPath: 'id' });
+                store.createIndex('timestamp', 'timestamp');
+            }
+        },
+    });
+    return dbPromise;
+};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Registers a callback fired after a call is recorded (in this or another tab), the ledger is cleared,
+ * or the cost settings change.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToAiUsage = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    const unsubscribeTabs = subscribeToTabs(USAGE_TAB_MESSAGE, () => listener());
+    return () => {
+        listeners.delete(listener);
+        unsubscribeTabs();
+    };
+};
+
+type BudgetAlertListener = (status: AiBudgetStatus) => void;
+const budgetAlertListeners = new Set<BudgetAlertListener>();
+
+/**
+ * Registers a callback fired the first time in a period that a budget's soft limit is reached,
+ * and whenever a hard limit blocks a call.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToAiBudgetAlerts = (listener: BudgetAlertListener): (() => void) => {
+    budgetAlertListeners.add(listener);
+    return () => { budgetAlertListeners.delete(listener); };
+};
+
+const hasStorageConsent = (): boolean => {
+    try {
+        return window.localStorage.getItem('devcore_ls_consent') === 'granted';
+    } catch {
+        return false;
+    }
+};
+
+let settings: AiCostSettings | null = null;
+
+// Budgets edited in another tab apply here from the next call on.
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', event => {
+        if (event.key !== SETTINGS_KEY) return;
+        settings = null;
+        notify();
+    });
+}
+
+export const getAiCostSettings = (): AiCostSettings => {
+    if (settings) return settings;
+    settings = { budgets: [], prices: {} };
+    if (hasStorageConsent()) {
+        try {
+            const stored = JSON.parse(window.localStorage.getItem(SETTINGS_KEY) ?? 'null');
+            if (stored && typeof stored === 'object') {
+                settings = {
+                    budgets: Array.isArray(stored.budgets) ? stored.budgets : [],
+                    prices: { ...stored.prices },
+                };
+            }
+        } catch (error) {
+            console.error(`Error reading localStorage key “${SETTINGS_KEY}”:`, error);
+        }
+    }
+    return settings!;
+};
+
+/** Merges `changes` into the budgets and price overrides and persists them. */
+export const updateAiCostSettings = (changes: Partial<AiCostSettings>): AiCostSettings => {
+    settings = { ...getAiCostSettings(), ...changes };
+    if (hasStorageConsent()) {
+        try {
+            window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        } catch (error) {
+            console.error(`Error setting localStorage key “${SETTINGS_KEY}”:`, error);
+        }
+    }
+    notify();
+    return settings;
+};
+
+/** The price used for `modelId`: an override from settings, else the default, else free. */
+export const getAiModelPrice = (modelId: string): AiModelPrice =>
+    getAiCostSettings().prices[modelId] ?? DEFAULT_AI_MODEL_PRICES[modelId] ?? FREE;
+
+export const estimateAiCostUSD = (modelId: string, promptTokens: number, responseTokens: number): number => {
+    const price = getAiModelPrice(modelId);
+    return (promptTokens * price.inputPerMillionUSD + responseTokens * price.outputPerMillionUSD) / 1_000_000;
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Appends a record to the ledger. */
+export const recordAiUsage = async (record: Omit<AiUsageRecord, 'id' | 'estimatedCostUSD'>): Promise<AiUsageRecord> => {
+    const entry: AiUsageRecord = {
+        ...record,
+        id: createId(),
+        estimatedCostUSD: estimateAiCostUSD(record.modelId, record.promptTokens, record.responseTokens),
+    };
+    const db = await getDb();
+    await db.put(AI_INFERENCE_LOGS_STORE_NAME, entry);
+    notify();
+    publishToTabs(USAGE_TAB_MESSAGE, null);
+    return entry;
+};
+
+/** Returns the records made at or after `since` (epoch ms), oldest first. */
+export const listAiUsage = async (since = 0): Promise<AiUsageRecord[]> => {
+    const db = await getDb();
+    return db.getAllFromIndex(AI_INFERENCE_LOGS_STORE_NAME, 'timestamp', IDBKeyRange.lowerBound(since));
+};
+
+export const clearAiUsage = async (): Promise<void> => {
+    const db = await getDb();
+    await db.clear(AI_INFERENCE_LOGS_STORE_NAME);
+    notify();
+    publishToTabs(USAGE_TAB_MESSAGE, null);
+};
+
+/** The local calendar date of `timestamp` as YYYY-MM-DD. */
+export const toLocalDateKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const emptyTotals = (): AiUsageTotals => ({ calls: 0, failures: 0, promptTokens: 0, responseTokens: 0, costUSD: 0, totalLatencyMs: 0 });
+
+const addToTotals = (totals: AiUsageTotals, record: AiUsageRecord) => {
+    totals.calls++;
+    if (record.status === 'failure') totals.failures++;
+    totals.promptTokens += record.promptTokens;
+    totals.responseTokens += record.responseTokens;
+    totals.costUSD += record.estimatedCostUSD;
+    totals.totalLatencyMs += record.latencyMs;
+};
+
+export const summarizeAiUsage = (records: AiUsageRecord[]): AiUsageSummary => {
+    const summary: AiUsageSummary = { total: emptyTotals(), byFeature: {}, byDay: {}, byModel: {} };
+    for (const record of records) {
+        addToTotals(summary.total, record);
+        addToTotals(summary.byFeature[record.featureId] ??= emptyTotals(), record);
+        addToTotals(summary.byDay[toLocalDateKey(record.timestamp)] ??= emptyTotals(), record);
+        addToTotals(summary.byModel[record.modelId] ??= emptyTotals(), record);
+    }
+    return summary;
+};
+
+/** Epoch ms at the start of the current local day or month. */
+export const getPeriodStart = (period: AiBudgetPeriod, now = new Date()): number =>
+    period === 'day'
+        ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+        : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+const spendFor = (budget: AiBudget, records: AiUsageRecord[]): number => {
+    const start = getPeriodStart(budget.period);
+    return records
+        .filter(record => record.timestamp >= start && (budget.featureId === null || record.featureId === budget.featureId))
+        .reduce((sum, record) => sum + record.estimatedCostUSD, 0);
+};
+
+/** Spend against every budget that covers `featureId`, or every budget when it is omitted. */
+export const getAiBudgetStatuses = async (featureId?: string): Promise<AiBudgetStatus[]> => {
+    const budgets = getAiCostSettings().budgets.filter(budget => featureId === undefined || budget.featureId === null || budget.featureId === featureId);
+    if (budgets.length === 0) return [];
+    const earliestStart = Math.min(...budgets.map(budget => getPeriodStart(budget.period)));
+    const records = await listAiUsage(earliestStart);
+    return budgets.map(budget => {
+        const spentUSD = spendFor(budget, records);
+        const level = budget.hardLimitUSD !== null && spentUSD >= budget.hardLimitUSD ? 'hard'
+            : budget.softLimitUSD !== null && spentUSD >= budget.softLimitUSD ? 'soft'
+            : 'ok';
+        return { budget, spentUSD, level };
+    });
+};
+
+// Soft-limit alerts fire once per budget per period, keyed by budget id and period start.
+const alertedSoftLimits = new Set<string>();
+
+/**
+ * Checks the budgets covering `featureId` before a call is sent.
+ * @throws AiBudgetExceededError when a hard limit is reached.
+ */
+export const enforceAiBudgets = async (featureId: string): Promise<void> => {
+    const statuses = await getAiBudgetStatuses(featureId);
+    const blocked = statuses.find(status => status.level === 'hard');
+    if (blocked) {
+        logEvent('ai_budget_blocked', { featureId, budgetId: blocked.budget.id, period: blocked.budget.period });
+        budgetAlertListeners.forEach(listener => listener(blocked));
+        throw new AiBudgetExceededError(blocked.budget, blocked.spentUSD);
+    }
+    statuses.filter(status => status.level === 'soft').forEach(status => {
+        const key = `${status.budget.id}:${getPeriodStart(status.budget.period)}`;
+        if (alertedSoftLimits.has(key)) return;
+        alertedSoftLimits.add(key);
+        logEvent('ai_budget_soft_limit', { featureId, budgetId: status.budget.id, period: status.budget.period });
+        budgetAlertListeners.forEach(listener => listener(status));
+    });
+};
+
+interface MeteredCall {
+    provider: AiProvider;
+    featureId?: string;
+    mode: AiUsageRecord['mode'];
+    request: AiGenerateRequest;
+}
+
+const estimatePromptTokens = (request: AiGenerateRequest): number =>
+    estimateTokens(`${request.systemInstruction ?? ''}${request.prompt}`) + (request.images?.length ?? 0) * TOKENS_PER_IMAGE;
+
+// Tracks one call from the budget check to its ledger record.
+const startMeter = async ({ provider, featureId = '', mode, request }: MeteredCall) => {
+    await enforceAiBudgets(featureId);
+    const startedAt = performance.now();
+    let reported: AiUsage | null = null;
+    const meteredRequest: AiGenerateRequest = {
+        ...request,
+        onUsage: usage => {
+            reported = usage;
+            request.onUsage?.(usage);
+        },
+    };
+    const finish = (status: AiUsageRecord['status'], responseText: string) => {
+        const usage: AiUsage | null = reported;
+        recordAiUsage({
+            featureId,
+            providerId: provider.id,
+            modelId: usage?.modelId || provider.getModelId(),
+            mode,
+            promptTokens: usage?.promptTokens ?? estimatePromptTokens(request),
+            responseTokens: usage?.responseTokens ?? estimateTokens(responseText),
+            estimated: !usage,
+            latencyMs: Math.round(performance.now() - startedAt),
+            timestamp: Date.now(),
+            status,
+        }).catch(error => console.error('Failed to record AI usage:', error));
+    };
+    return { meteredRequest, finish };
+};
+
+/**
+ * Runs one provider call under the budgets and records it in the ledger, whether it succeeds or fails.
+ * @throws AiBudgetExceededError without calling the provider when a hard budget is used up.
+ */
+export const meterAiCall = async <R>(call: MeteredCall, run: (request: AiGenerateRequest) => Promise<R>, toText: (result: R) => string): Promise<R> => {
+    const { meteredRequest, finish } = await startMeter(call);
+    try {
+        const result = await run(meteredRequest);
+        finish('success', toText(result));
+        return result;
+    } catch (error) {
+        finish('failure', '');
+        throw error;
+    }
+};
+
+/** The streaming counterpart of meterAiCall. A stream the caller stops early is recorded as a success. */
+export async function* meterAiStream(call: MeteredCall, run: (request: AiGenerateRequest) => AsyncIterable<string>): AsyncGenerator<string> {
+    const { meteredRequest, finish } = await startMeter(call);
+    let text = '';
+    let failed = false;
+    try {
+        for await (const chunk of run(meteredRequest)) {
+            text += chunk;
+            yield chunk;
+        }
+    } catch (error) {
+        failed = true;
+        throw error;
+    } finally {
+        finish(failed ? 'failure' : 'success', text);
+    }
+}
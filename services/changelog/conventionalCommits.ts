@@ -0,0 +1,140 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Parses commit messages written to the Conventional Commits 1.0 spec (`type(scope)!: description`, a body and
+// git-trailer style footers) and works out the semantic version bump a set of them calls for. Everything here is
+// deterministic: the same commits always give the same changelog, whatever the AI later does to the wording.
+
+export interface CommitFooter {
+    token: string; // e.g. 'BREAKING CHANGE', 'Refs', 'Reviewed-by'
+    value: string;
+}
+
+export interface ConventionalCommit {
+    type: string; // Lower-cased, e.g. 'feat'
+    scope: string | null;
+    breaking: boolean; // `!` before the colon, or a BREAKING CHANGE footer
+    description: string;
+    body: string;
+    footers: CommitFooter[];
+    breakingNotes: string[]; // Text of the BREAKING CHANGE footers
+    pullRequests: number[]; // #123 references in the subject, as squash merges write them
+}
+
+export type SemverBump = 'major' | 'minor' | 'patch' | 'none';
+
+export interface Semver {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string | null;
+}
+
+const HEADER = /^(\w[\w-]*)(?:\(([^()\r\n]*)\))?(!)?: +(\S.*)$/;
+const FOOTER = /^(BREAKING[ -]CHANGE|[\w-]+)(?:: | #)(.*)$/;
+const REVERT_HEADER = /^Revert ".+"$/;
+const SEMVER = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/** Types that change how the software behaves for its users; the rest (docs, ci, chore...) bump nothing. */
+const PATCH_TYPES = new Set(['fix', 'perf', 'revert', 'security']);
+
+const isBreakingToken = (token: string) => token === 'BREAKING CHANGE' || token === 'BREAKING-CHANGE';
+
+/** Splits trailing paragraphs that start with a footer token off the body. */
+const splitFooters = (rest: string): { body: string; footers: CommitFooter[] } => {
+    const paragraphs = rest.split(/\n[ \t]*\n/);
+    let start = paragraphs.length;
+    while (start > 0 && FOOTER.test(paragraphs[start - 1].trimStart().split('\n')[0])) start--;
+
+    const footers: CommitFooter[] = [];
+    for (const line of paragraphs.slice(start).join('\n\n').split('\n')) {
+        const match = FOOTER.exec(line);
+        if (match) footers.push({ token: match[1], value: match[2] });
+        else if (footers.length) footers[footers.length - 1].value += `\n${line}`; // Footer values may wrap
+    }
+    footers.forEach(footer => { footer.value = footer.value.trim(); });
+    return { body: paragraphs.slice(0, start).join('\n\n').trim(), footers };
+};
+
+/**
+ * Parses a commit message, or returns null when its subject is not a Conventional Commits header. Git's own
+ * `Revert "..."` subjects are read as the `revert` type.
+ */
+export const parseConventionalCommit = (message: string): ConventionalCommit | null => {
+    const normalized = message.replace(/\r\n?/g, '\n').trim();
+    const newline = normalized.indexOf('\n');
+    const subject = (newline === -1 ? normalized : normalized.slice(0, newline)).trim();
+    const rest = newline === -1 ? '' : normalized.slice(newline + 1).trim();
+
+    const isRevert = REVERT_HEADER.test(subject);
+    const header = isRevert ? null : HEADER.exec(subject);
+    if (!isRevert && !header) return null;
+    const [type, scope, bang, subjectDescription] = header ? header.slice(1) : ['revert', undefined, undefined, subject];
+
+    const { body, footers } = splitFooters(rest);
+    const breakingNotes = footers.filter(footer => isBreakingToken(footer.token)).map(footer => footer.value);
+    let description = subjectDescription.trim();
+    const pullRequests: number[] = [];
+    // "feat: add login (#12)" -- GitHub's squash-merge suffix
+    description = description.replace(/\s*\((?:#\d+(?:,\s*)?)+\)$/, suffix => {
+        for (const match of suffix.matchAll(/#(\d+)/g)) pullRequests.push(Number(match[1]));
+        return '';
+    });
+
+    return {
+        type: type.toLowerCase(),
+        scope: scope?.trim() || null,
+        breaking: bang === '!' || breakingNotes.length > 0,
+        description,
+        body,
+        footers,
+        breakingNotes,
+        pullRequests,
+    };
+};
+
+/** Parses "1.2.3", "v1.2.3" or "1.2.3-rc.1", or returns null for anything else (branch names, SHAs). */
+export const parseSemver = (version: string): Semver | null => {
+    const match = SEMVER.exec(version.trim());
+    return match ? { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]), prerelease: match[4] ?? null } : null;
+};
+
+export const formatSemver = ({ major, minor, patch, prerelease }: Semver) =>
+    `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ''}`;
+
+/**
+ * The bump `commits` call for: major for breaking changes, minor for features, patch for fixes. Before 1.0.0
+ * everything moves down one level (breaking changes bump the minor version), as semver allows for initial
+ * development.
+ */
+export const suggestSemverBump = (commits: ConventionalCommit[], current?: Semver | null): SemverBump => {
+    let bump: SemverBump = 'none';
+    if (commits.some(commit => commit.breaking)) bump = 'major';
+    else if (commits.some(commit => commit.type === 'feat')) bump = 'minor';
+    else if (commits.some(commit => PATCH_TYPES.has(commit.type))) bump = 'patch';
+
+    if (current && current.major === 0) {
+        if (bump === 'major') return 'minor';
+        if (bump === 'minor') return 'patch';
+    }
+    return bump;
+};
+
+/** The version after applying `bump`. A prerelease is promoted to its release when that is already big enough. */
+export const bumpSemver = (current: Semver, bump: SemverBump): Semver => {
+    const { major, minor, patch, prerelease } = current;
+    if (bump === 'none') return current;
+    if (prerelease) {
+        // 2.0.0-rc.1 + minor -> 2.0.0, but 1.2.3-rc.1 + major -> 2.0.0
+        const releaseIsEnough = bump === 'patch' || (bump === 'minor' && patch === 0) || (bump === 'major' && minor === 0 && patch === 0);
+        if (releaseIsEnough) return { major, minor, patch, prerelease: null };
+    }
+    if (bump === 'major') return { major: major + 1, minor: 0, patch: 0, prerelease: null };
+    if (bump === 'minor') return { major, minor: minor + 1, patch: 0, prerelease: null };
+    return { major, minor, patch: patch + 1, prerelease: null };
+};
@@ -0,0 +1,230 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { bumpSemver, formatSemver, parseConventionalCommit, parseSemver, suggestSemverBump } from './conventionalCommits.ts';
+import type { ConventionalCommit, SemverBump } from './conventionalCommits.ts';
+
+// Groups the commits of a release range into a Keep a Changelog 1.1 section (https://keepachangelog.com) and
+// merges that section into an existing CHANGELOG.md. Entries keep their commit SHA as an id, so reworded text
+// can be swapped in without the grouping, links or version ever depending on the AI.
+
+export type ChangelogSectionName = 'Added' | 'Changed' | 'Deprecated' | 'Removed' | 'Fixed' | 'Security';
+
+/** Keep a Changelog's section order. */
+export const CHANGELOG_SECTIONS: ChangelogSectionName[] = ['Added', 'Changed', 'Deprecated', 'Removed', 'Fixed', 'Security'];
+
+/** A commit of the release range with the merged pull requests that introduced it. */
+export interface ChangelogCommitInput {
+    sha: string;
+    message: string;
+    htmlUrl: string;
+    parentCount: number;
+    pullRequests: { number: number; htmlUrl: string }[];
+}
+
+export interface ChangelogEntry {
+    id: string; // Commit SHA
+    section: ChangelogSectionName;
+    type: string | null; // null for commits that are not Conventional Commits
+    scope: string | null;
+    breaking: boolean;
+    text: string; // One line saying what changed; the only part the AI may reword
+    breakingNotes: string[];
+    references: { label: string; url: string }[]; // Pull requests, or the commit itself when pushed directly
+}
+
+export interface SkippedCommit {
+    sha: string;
+    subject: string;
+    reason: string;
+}
+
+export interface ChangelogRelease {
+    version: string; // "1.4.0", or "Unreleased" when no version could be worked out
+    tag: string | null; // The tag the release is expected to get, e.g. "v1.4.0"
+    date: string; // YYYY-MM-DD
+    previousVersion: string | null;
+    bump: SemverBump;
+    compareUrl: string;
+    entries: ChangelogEntry[];
+    skipped: SkippedCommit[];
+}
+
+export interface ChangelogReleaseOptions {
+    repoUrl: string; // e.g. https://github.com/owner/repo
+    fromRef: string;
+    toRef: string;
+    version?: string; // Overrides the suggested version
+    date?: string; // Defaults to today, in UTC
+    includeOtherTypes?: boolean; // Also list docs, chore, ci... and non-conventional commits, under Changed
+}
+
+export const UNRELEASED = 'Unreleased';
+
+const CHANGELOG_PREAMBLE = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+const SECTION_BY_TYPE: Record<string, ChangelogSectionName> = {
+    feat: 'Added',
+    fix: 'Fixed',
+    perf: 'Changed',
+    refactor: 'Changed',
+    revert: 'Changed',
+    deprecate: 'Deprecated',
+    remove: 'Removed',
+    security: 'Security',
+};
+
+const LINK_DEFINITION = /^\[([^\]]+)\]:\s*(\S+)/;
+const RELEASE_HEADING = /^## \[?([^\]\s]+)\]?/;
+
+const subjectOf = (message: string) => message.trim().split('\n')[0].trim();
+
+const sectionFor = (commit: ConventionalCommit): ChangelogSectionName | null => {
+    if (commit.scope?.toLowerCase() === 'security' && commit.type === 'fix') return 'Security';
+    if (commit.footers.some(footer => footer.token.toUpperCase() === 'DEPRECATED')) return 'Deprecated';
+    return SECTION_BY_TYPE[commit.type] ?? (commit.breaking ? 'Changed' : null);
+};
+
+const referencesFor = (input: ChangelogCommitInput, subjectPullRequests: number[], repoUrl: string) => {
+    if (input.pullRequests.length) return input.pullRequests.map(pr => ({ label: `#${pr.number}`, url: pr.htmlUrl }));
+    if (subjectPullRequests.length) return subjectPullRequests.map(number => ({ label: `#${number}`, url: `${repoUrl}/pull/${number}` }));
+    return [{ label: input.sha.slice(0, 7), url: input.htmlUrl }];
+};
+
+/**
+ * Builds the release for the commits of `fromRef...toRef`, oldest first. The version is the bump the commits call
+ * for applied to `fromRef` when that is a semver tag; otherwise the release is "Unreleased" unless one is given.
+ */
+export const buildChangelogRelease = (commits: ChangelogCommitInput[], options: ChangelogReleaseOptions): ChangelogRelease => {
+    const entries: ChangelogEntry[] = [];
+    const skipped: SkippedCommit[] = [];
+    const parsed: ConventionalCommit[] = [];
+
+    for (const input of commits) {
+        const subject = subjectOf(input.message);
+        if (input.parentCount > 1) {
+            skipped.push({ sha: input.sha, subject, reason: 'Merge commit' });
+            continue;
+        }
+        const commit = parseConventionalCommit(input.message);
+        if (commit) parsed.push(commit);
+        const section = commit ? sectionFor(commit) : null;
+        if (!section && !options.includeOtherTypes) {
+            skipped.push({ sha: input.sha, subject, reason: commit ? `'${commit.type}' commits are not listed` : 'Not a Conventional Commit' });
+            continue;
+        }
+        entries.push({
+            id: input.sha,
+            section: section ?? 'Changed',
+            type: commit?.type ?? null,
+            scope: commit?.scope ?? null,
+            breaking: commit?.breaking ?? false,
+            text: commit?.description ?? subject,
+            breakingNotes: commit?.breakingNotes ?? [],
+            references: referencesFor(input, commit?.pullRequests ?? [], options.repoUrl),
+        });
+    }
+
+    // Breaking changes lead each section, then entries group by scope; commit order is kept otherwise
+    const order = new Map(entries.map((entry, i) => [entry.id, i]));
+    entries.sort((a, b) =>
+        CHANGELOG_SECTIONS.indexOf(a.section) - CHANGELOG_SECTIONS.indexOf(b.section)
+        || Number(b.breaking) - Number(a.breaking)
+        || (a.scope ?? '').localeCompare(b.scope ?? '')
+        || order.get(a.id)! - order.get(b.id)!);
+
+    const previous = parseSemver(options.fromRef);
+    const bump = suggestSemverBump(parsed, previous);
+    const version = options.version?.trim()
+        || (previous && bump !== 'none' ? formatSemver(bumpSemver(previous, bump)) : UNRELEASED);
+    const tagPrefix = options.fromRef.trim().startsWith('v') ? 'v' : '';
+    const tag = version === UNRELEASED ? null : parseSemver(version) ? `${tagPrefix}${version.replace(/^v/, '')}` : version;
+
+    return {
+        version: version.replace(/^v(?=\d)/, ''),
+        tag,
+        date: options.date ?? new Date().toISOString().slice(0, 10),
+        previousVersion: previous ? formatSemver(previous) : null,
+        bump,
+        compareUrl: `${options.repoUrl}/compare/${options.fromRef}...${tag ?? options.toRef}`,
+        entries,
+        skipped,
+    };
+};
+
+/**
+ * Renders the release as a Keep a Changelog section, without its link definition. `wording` maps entry ids to
+ * reworded text; entries it does not cover keep their own.
+ */
+export const renderChangelogRelease = (release: ChangelogRelease, wording: Record<string, string> = {}): string => {
+    const lines = [release.version === UNRELEASED ? `## [${UNRELEASED}]` : `## [${release.version}] - ${release.date}`];
+    for (const section of CHANGELOG_SECTIONS) {
+        const entries = release.entries.filter(entry => entry.section === section);
+        if (!entries.length) continue;
+        lines.push('', `### ${section}`, '');
+        for (const entry of entries) {
+            const text = (wording[entry.id] ?? entry.text).trim().replace(/\s*\n\s*/g, ' ');
+            const refs = entry.references.map(ref => `[${ref.label}](${ref.url})`).join(', ');
+            lines.push(`- ${entry.breaking ? '**BREAKING:** ' : ''}${entry.scope ? `**${entry.scope}:** ` : ''}${text} (${refs})`);
+            entry.breakingNotes.forEach(note => lines.push(`  - ${note.replace(/\s*\n\s*/g, ' ')}`));
+        }
+    }
+    if (!release.entries.length) lines.push('', '_No notable changes._');
+    return `${lines.join('\n')}\n`;
+};
+
+/** The link definition for the release heading, e.g. "[1.4.0]: https://github.com/o/r/compare/v1.3.0...v1.4.0". */
+export const releaseLinkDefinition = (release: ChangelogRelease) => `[${release.version}]: ${release.compareUrl}`;
+
+/**
+ * Adds the release to an existing CHANGELOG.md, or to a new one when `existing` is null. The section goes below
+ * [Unreleased] and replaces any earlier section for the same version; its link definition joins the others at
+ * the end of the file, and an [Unreleased] compare link is moved on to start from the new tag.
+ */
+export const mergeIntoChangelog = (existing: string | null, release: ChangelogRelease, wording: Record<string, string> = {}): string => {
+    const lines = (existing?.trim() ? existing : CHANGELOG_PREAMBLE).replace(/\r\n?/g, '\n').split('\n');
+
+    let end = lines.length;
+    while (end > 0 && (!lines[end - 1].trim() || LINK_DEFINITION.test(lines[end - 1]))) end--;
+    let links = lines.slice(end).filter(line => LINK_DEFINITION.test(line));
+
+    const preamble: string[] = [];
+    const sections: { label: string; lines: string[] }[] = [];
+    for (const line of lines.slice(0, end)) {
+        const heading = RELEASE_HEADING.exec(line);
+        if (heading) sections.push({ label: heading[1].toLowerCase(), lines: [line] });
+        else if (sections.length) sections[sections.length - 1].lines.push(line);
+        else preamble.push(line);
+    }
+
+    const label = release.version.toLowerCase();
+    const kept = sections.filter(section => section.label !== label);
+    const insertAt = label !== UNRELEASED.toLowerCase() && kept[0]?.label === UNRELEASED.toLowerCase() ? 1 : 0;
+    kept.splice(insertAt, 0, { label, lines: renderChangelogRelease(release, wording).split('\n') });
+
+    links = links.filter(line => LINK_DEFINITION.exec(line)![1].toLowerCase() !== label);
+    if (release.tag) {
+        links = links.map(line => {
+            const [, linkLabel, url] = LINK_DEFINITION.exec(line)!;
+            return linkLabel.toLowerCase() === UNRELEASED.toLowerCase() && /\/compare\/.+\.\.\.HEAD$/.test(url)
+                ? `[${linkLabel}]: ${url.replace(/\/compare\/.+\.\.\.HEAD$/, `/compare/${release.tag}...HEAD`)}`
+                : line;
+        });
+    }
+    const unreleasedLink = links.findIndex(line => LINK_DEFINITION.exec(line)![1].toLowerCase() === UNRELEASED.toLowerCase());
+    links.splice(label === UNRELEASED.toLowerCase() ? 0 : unreleasedLink + 1, 0, releaseLinkDefinition(release));
+
+    const blocks = [preamble.join('\n').trimEnd(), ...kept.map(section => section.lines.join('\n').trimEnd()), links.join('\n')];
+    return `${blocks.filter(Boolean).join('\n\n')}\n`;
+};
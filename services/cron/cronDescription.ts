@@ -0,0 +1,132 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CronDayRule, CronField, CronRange, CronSchedule } from './cronExpression.ts';
+
+// Turns a parsed schedule into an English sentence such as "At 09:00, on Monday through Friday" without asking
+// the AI. The sentence is built clause by clause (time of day, days, months, years) from the parsed fields, so
+// it describes exactly what the scheduler will run.
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const NTH_WORDS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+interface RangeWords {
+    every: (step: number) => string;
+    value: (value: number) => string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const ordinal = (value: number) => {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const lastTwo = value % 100;
+    return `${value}${suffixes[(lastTwo - 20) % 10] ?? suffixes[lastTwo] ?? suffixes[0]}`;
+};
+
+const joinWords = (words: string[]) =>
+    words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+
+const unitWords = (unit: string): RangeWords['every'] => step => step === 1 ? `every ${unit}` : `every ${step} ${unit}s`;
+
+const SECOND_WORDS: RangeWords = { every: unitWords('second'), value: value => `second ${value}` };
+const MINUTE_WORDS: RangeWords = { every: unitWords('minute'), value: value => `minute ${value}` };
+const HOUR_WORDS: RangeWords = { every: unitWords('hour'), value: value => `${pad(value)}:00` };
+const DAY_WORDS: RangeWords = { every: step => step === 1 ? 'every day' : `every ${ordinal(step)} day`, value: value => `the ${ordinal(value)}` };
+const MONTH_WORDS: RangeWords = { every: step => step === 1 ? 'every month' : `every ${ordinal(step)} month`, value: value => MONTHS[value - 1] };
+const WEEKDAY_WORDS: RangeWords = { every: step => step === 1 ? 'every day of the week' : `every ${ordinal(step)} day of the week`, value: value => WEEKDAYS[value] };
+const YEAR_WORDS: RangeWords = { every: step => step === 1 ? 'every year' : `every ${ordinal(step)} year`, value: String };
+
+const describeRange = (range: CronRange, words: RangeWords): string => {
+    if (range.wildcard) return words.every(range.step);
+    if (range.openEnded) return `${words.every(range.step)} starting at ${words.value(range.from)}`;
+    if (range.from === range.to) return words.value(range.from);
+    const span = `${words.value(range.from)} through ${words.value(range.to)}`;
+    return range.step === 1 ? span : `${words.every(range.step)} from ${span}`;
+};
+
+const describeRanges = (field: CronField, words: RangeWords) => field.ranges.map(range => describeRange(range, words));
+
+/** A field written as plain values only, e.g. "0,15,30". */
+const isValueList = (field: CronField) =>
+    field.rules.length === 0 && field.ranges.every(range => !range.wildcard && range.from === range.to);
+
+const isEvery = (field: CronField) => field.unrestricted || (field.ranges.length === 1 && field.ranges[0].wildcard && field.ranges[0].step === 1);
+
+const describeDayRule = (rule: CronDayRule): string => {
+    switch (rule.kind) {
+        case 'lastDay':
+            return rule.offset === 0 ? 'the last day' : `the ${ordinal(rule.offset + 1)}-to-last day`;
+        case 'lastWeekday':
+            return 'the last weekday';
+        case 'nearestWeekday':
+            return `the weekday nearest the ${ordinal(rule.day)}`;
+        case 'lastOfWeekday':
+            return `the last ${WEEKDAYS[rule.weekday]}`;
+        case 'nthOfWeekday':
+            return `the ${NTH_WORDS[rule.nth - 1]} ${WEEKDAYS[rule.weekday]}`;
+    }
+};
+
+const describeTimeOfDay = ({ second, minute, hour }: CronSchedule): string[] => {
+    const zeroSeconds = isValueList(second) && second.values.length === 1 && second.values[0] === 0;
+
+    // Fixed times of day: "At 09:00 and 17:30:15"
+    if (isValueList(second) && second.values.length === 1 && isValueList(minute) && minute.values.length === 1 && isValueList(hour) && hour.values.length <= 6) {
+        const suffix = zeroSeconds ? '' : `:${pad(second.values[0])}`;
+        return [`at ${joinWords(hour.values.map(value => `${pad(value)}:${pad(minute.values[0])}${suffix}`))}`];
+    }
+
+    const clauses: string[] = [];
+    if (!zeroSeconds) {
+        clauses.push(isValueList(second) ? `at second${second.values.length > 1 ? 's' : ''} ${joinWords(second.values.map(String))}` : joinWords(describeRanges(second, SECOND_WORDS)));
+    }
+    if (isEvery(minute)) {
+        if (zeroSeconds) clauses.push('every minute');
+        else if (isValueList(second)) clauses[clauses.length - 1] += ' past every minute';
+    } else if (isValueList(minute)) {
+        clauses.push(`at minute${minute.values.length > 1 ? 's' : ''} ${joinWords(minute.values.map(String))}${isEvery(hour) ? ' past every hour' : ''}`);
+    } else {
+        clauses.push(joinWords(describeRanges(minute, MINUTE_WORDS)));
+    }
+    if (!isEvery(hour)) {
+        if (hour.ranges.every(range => !range.wildcard && range.step === 1)) {
+            // Whole hours or spans of them: "between 09:00 and 17:59"
+            clauses.push(joinWords(hour.ranges.map(range => `between ${pad(range.from)}:00 and ${pad(range.to)}:59`)));
+        } else {
+            clauses.push(joinWords(describeRanges(hour, HOUR_WORDS)));
+        }
+    }
+    return clauses;
+};
+
+const describeDays = ({ dayOfMonth, dayOfWeek }: CronSchedule): string | null => {
+    const byMonth = dayOfMonth.unrestricted ? null : `on ${joinWords([...describeRanges(dayOfMonth, DAY_WORDS), ...dayOfMonth.rules.map(describeDayRule)])} of the month`;
+    const weekdayRanges = describeRanges(dayOfWeek, WEEKDAY_WORDS);
+    const weekdayRules = dayOfWeek.rules.map(describeDayRule);
+    const byWeek = dayOfWeek.unrestricted
+        ? null
+        : `on ${joinWords([...weekdayRanges, ...weekdayRules])}${weekdayRules.length ? ' of the month' : ''}`;
+
+    if (byMonth && byWeek) {
+        // Vixie cron: either day field may match, unless one of them starts with *
+        return dayOfMonth.star || dayOfWeek.star ? `${byMonth}, if it falls ${byWeek}` : `${byMonth} or ${byWeek}`;
+    }
+    return byMonth ?? byWeek;
+};
+
+/** Describes `schedule` in plain English, e.g. "Every 15 minutes, between 09:00 and 17:59, on Monday through Friday". */
+export const describeCronSchedule = (schedule: CronSchedule): string => {
+    const clauses = describeTimeOfDay(schedule);
+    const days = describeDays(schedule);
+    if (days) clauses.push(days);
+    if (!schedule.month.unrestricted) clauses.push(`in ${joinWords(describeRanges(schedule.month, MONTH_WORDS))}`);
+    if (schedule.year && !schedule.year.unrestricted) clauses.push(`in ${joinWords(describeRanges(schedule.year, YEAR_WORDS))}`);
+    const sentence = clauses.join(', ');
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+};
@@ -0,0 +1,489 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseCronExpression } from './cronExpression.ts';
+import type { CronField, CronSchedule } from './cronExpression.ts';
+import { isValidTimeZone, nextCronRuns, zoneOffsetMinutes } from './cronSchedule.ts';
+
+// Turns a job from the builder into the files another scheduler needs to run it: a Kubernetes CronJob, a
+// GitHub Actions workflow, a systemd service and timer, or a crontab line. Concurrency, timeout and retry settings
+// map onto the target's own options where it has them; where it does not, a generated bash wrapper enforces them,
+// and anything neither can honour comes back as a warning rather than being dropped silently.
+
+export type CronExportTarget = 'kubernetes' | 'githubActions' | 'systemd' | 'crontab';
+
+export const CRON_EXPORT_TARGET_LABELS: Record<CronExportTarget, string> = {
+    kubernetes: 'Kubernetes CronJob',
+    githubActions: 'GitHub Actions',
+    systemd: 'systemd timer',
+    crontab: 'crontab',
+};
+
+/** What the exporters read from a job definition; `execution` has the builder's ExecutionConfig shape. */
+export interface CronExportJob {
+    name: string;
+    description: string;
+    expression: string; // Five-field Unix cron
+    timezone: string; // IANA zone the expression is written in
+    execution: {
+        command: string; // A single command line, or a whole script with or without a #! line
+        arguments: string[];
+        workingDirectory: string;
+        timeoutSeconds: number; // Per attempt
+        retryPolicy: { maxRetries: number; delaySeconds: number; strategy: 'fixed' | 'exponentialBackoff' };
+        resourceLimits: { cpuUnits: number; memoryMB: number }; // 1024 CPU units = one core
+        concurrencyPolicy: 'Allow' | 'Forbid' | 'Replace';
+        outputCaptureEnabled: boolean;
+    };
+    notifications: { onSuccess: boolean; onFailure: boolean; onTimeout: boolean; onStart: boolean };
+}
+
+export interface CronExportFile {
+    path: string; // Where the file is meant to be installed
+    content: string;
+}
+
+export interface CronExport {
+    target: CronExportTarget;
+    files: CronExportFile[];
+    warnings: string[];
+}
+
+const WRAPPER_DIR = '/usr/local/lib/cron-jobs';
+const KILL_AFTER_SECONDS = 10; // Grace period between SIGTERM and SIGKILL when an attempt times out
+const GITHUB_MIN_INTERVAL_MS = 5 * 60_000;
+const DEFAULT_IMAGE = 'debian:bookworm-slim';
+
+// --- Shared helpers ---
+
+/** A DNS-1123 label short enough for the Job names Kubernetes derives from a CronJob name. */
+const resourceName = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+/, '').slice(0, 52).replace(/-+$/, '') || 'cron-job';
+
+const shellQuote = (value: string) => /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+
+const firstLine = (text: string) => text.trim().split('\n')[0];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatUtcOffset = (minutes: number) =>
+    `UTC${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+
+/** Sorted values as cron list syntax, with runs of three or more collapsed: [1,2,3,5] -> "1-3,5". */
+const compressValues = (values: number[], format: (value: number) => string = String, rangeSeparator = '-') => {
+    const parts: string[] = [];
+    for (let i = 0; i < values.length;) {
+        let j = i;
+        while (j + 1 < values.length && values[j + 1] === values[j] + 1) j++;
+        parts.push(j - i >= 2 ? `${format(values[i])}${rangeSeparator}${format(values[j])}` : values.slice(i, j + 1).map(format).join(','));
+        i = j + 1;
+    }
+    return parts.join(',');
+};
+
+/** A YAML block scalar holding `text`; lines are indented by `indent` spaces. */
+const yamlBlock = (text: string, indent: number) => {
+    const body = text.replace(/\s+$/, '');
+    // A leading space would need an explicit indentation indicator; a quoted string is simpler
+    if (/^\s/.test(body)) return JSON.stringify(`${body}\n`);
+    const prefix = ' '.repeat(indent);
+    return `|\n${body.split('\n').map(line => line ? prefix + line : '').join('\n')}`;
+};
+
+/** Worst-case wall-clock time of a run: every attempt times out, with the retry delays in between. */
+const totalBudgetSeconds = ({ timeoutSeconds, retryPolicy }: CronExportJob['execution']) => {
+    const factor = retryPolicy.strategy === 'exponentialBackoff' ? 2 : 1;
+    let delays = 0;
+    for (let retry = 0; retry < retryPolicy.maxRetries; retry++) delays += retryPolicy.delaySeconds * factor ** retry;
+    return (timeoutSeconds + KILL_AFTER_SECONDS) * (retryPolicy.maxRetries + 1) + delays;
+};
+
+/** The job's command as a standalone script. A one-line command gets the job arguments appended as "$@". */
+const jobScript = ({ command, arguments: args }: CronExportJob['execution']) => {
+    const text = command.trim();
+    if (text.startsWith('#!')) return `${text}\n`;
+    return `#!/bin/sh\n${text}${!text.includes('\n') && args.length ? ' "$@"' : ''}\n`;
+};
+
+const notificationWarnings = (job: CronExportJob, target: string, suggestion: string) => {
+    const { onSuccess, onFailure, onTimeout, onStart } = job.notifications;
+    return onSuccess || onFailure || onTimeout || onStart
+        ? [`${target} cannot send the job's notifications; ${suggestion}.`]
+        : [];
+};
+
+interface WrapperOptions {
+    enforceConcurrency: boolean; // Apply Forbid/Replace with a lock or pid file, for targets without native support
+}
+
+/**
+ * A bash script that runs the job with a per-attempt timeout, retries it according to the retry policy and, when
+ * asked, applies the concurrency policy. The job script is embedded in a heredoc so the wrapper is self-contained.
+ */
+const wrapperScript = (job: CronExportJob, { enforceConcurrency }: WrapperOptions) => {
+    const { execution } = job;
+    const name = resourceName(job.name);
+    const script = jobScript(execution);
+    let delimiter = 'CRON_JOB_SCRIPT';
+    while (script.split('\n').includes(delimiter)) delimiter += '_';
+
+    const lines = [
+        '#!/usr/bin/env bash',
+        `# ${job.name}${job.description.trim() ? `: ${firstLine(job.description)}` : ''}`,
+        '# Runs the job with a timeout on each attempt and retries failed attempts.',
+        'set -u',
+        '',
+        `MAX_RETRIES=${execution.retryPolicy.maxRetries}`,
+        `RETRY_DELAY=${execution.retryPolicy.delaySeconds}`,
+        `BACKOFF_FACTOR=${execution.retryPolicy.strategy === 'exponentialBackoff' ? 2 : 1}`,
+        `TIMEOUT_SECONDS=${execution.timeoutSeconds}`,
+        '',
+    ];
+    const cleanup = ['rm -f "$JOB_SCRIPT"'];
+    if (enforceConcurrency && execution.concurrencyPolicy === 'Forbid') {
+        lines.push(
+            `exec 9>"\${TMPDIR:-/tmp}/${name}.lock"`,
+            'if ! flock -n 9; then',
+            `    echo "${name}: the previous run is still going, skipping this one" >&2`,
+            '    exit 0',
+            'fi',
+            '',
+        );
+    } else if (enforceConcurrency && execution.concurrencyPolicy === 'Replace') {
+        lines.push(
+            `PID_FILE="\${TMPDIR:-/tmp}/${name}.pid"`,
+            'if [ -f "$PID_FILE" ] && kill -0 "$(cat "$PID_FILE")" 2>/dev/null; then',
+            `    echo "${name}: stopping the previous run" >&2`,
+            '    kill "$(cat "$PID_FILE")"',
+            '    while kill -0 "$(cat "$PID_FILE" 2>/dev/null)" 2>/dev/null; do sleep 1; done',
+            'fi',
+            'echo $$ > "$PID_FILE"',
+            '',
+        );
+        cleanup.push('[ "$(cat "$PID_FILE" 2>/dev/null)" = "$$" ] && rm -f "$PID_FILE"');
+    }
+
+    lines.push(
+        'JOB_SCRIPT="$(mktemp)"',
+        `trap '${cleanup.join('; ')}' EXIT`,
+        `cat > "$JOB_SCRIPT" <<'${delimiter}'`,
+        script.replace(/\n$/, ''),
+        delimiter,
+        'chmod +x "$JOB_SCRIPT"',
+        `cd ${shellQuote(execution.workingDirectory || '/')} || exit 1`,
+        '',
+        'child=',
+        `trap '[ -n "$child" ] && kill "$child" 2>/dev/null; exit 143' TERM INT`,
+        'attempt=0',
+        'delay=$RETRY_DELAY',
+        'while :; do',
+        `    timeout --kill-after=${KILL_AFTER_SECONDS} "$TIMEOUT_SECONDS" "$JOB_SCRIPT"${execution.arguments.map(arg => ` ${shellQuote(arg)}`).join('')} &`,
+        '    child=$!',
+        '    wait "$child"',
+        '    status=$?',
+        '    [ "$status" -eq 0 ] && exit 0',
+        `    [ "$status" -eq 124 ] && echo "${name}: attempt $((attempt + 1)) timed out after \${TIMEOUT_SECONDS}s" >&2`,
+        '    if [ "$attempt" -ge "$MAX_RETRIES" ]; then',
+        `        echo "${name}: failed with status $status after $((attempt + 1)) attempt(s)" >&2`,
+        '        exit "$status"',
+        '    fi',
+        '    attempt=$((attempt + 1))',
+        '    sleep "$delay"',
+        '    delay=$((delay * BACKOFF_FACTOR))',
+        'done',
+    );
+    return `${lines.join('\n')}\n`;
+};
+
+const hasDstGaps = (schedule: CronSchedule, timeZone: string) =>
+    nextCronRuns(schedule, { timeZone, count: 1000 }).some(run => run.dst === 'gap');
+
+// --- Kubernetes ---
+
+const exportKubernetes = (job: CronExportJob, schedule: CronSchedule): CronExport => {
+    const { execution } = job;
+    const name = resourceName(job.name);
+    const warnings = [
+        `The container image is a placeholder (${DEFAULT_IMAGE}); replace it with one that has the job's dependencies.`,
+        'spec.timeZone needs Kubernetes 1.27 or later.',
+    ];
+    if (execution.retryPolicy.maxRetries > 0) {
+        warnings.push(`Kubernetes retries failed pods with its own exponential back-off (10s, 20s, 40s...); the ${execution.retryPolicy.delaySeconds}s ${execution.retryPolicy.strategy === 'exponentialBackoff' ? 'exponential' : 'fixed'} retry delay is not applied.`);
+        warnings.push(`activeDeadlineSeconds covers the whole Job, retries included, so it is set to the worst case of ${execution.retryPolicy.maxRetries + 1} attempts rather than ${execution.timeoutSeconds}s per attempt.`);
+    }
+    if (!execution.outputCaptureEnabled) warnings.push('Kubernetes always keeps container logs; output capture cannot be turned off.');
+    if (!schedule.minute.star && !schedule.hour.star && hasDstGaps(schedule, job.timezone)) {
+        warnings.push(`Some runs fall in a daylight saving gap in ${job.timezone}; the Kubernetes controller skips those runs instead of running them at the change.`);
+    }
+    warnings.push(...notificationWarnings(job, 'Kubernetes', 'alert on failed Jobs from your monitoring instead'));
+
+    const deadline = execution.retryPolicy.maxRetries > 0 ? totalBudgetSeconds(execution) : execution.timeoutSeconds;
+    const cpu = `${Math.max(1, Math.round(execution.resourceLimits.cpuUnits / 1024 * 1000))}m`;
+    const memory = `${execution.resourceLimits.memoryMB}Mi`;
+    const manifest = [
+        `# ${job.name}${job.description.trim() ? `: ${firstLine(job.description)}` : ''}`,
+        'apiVersion: v1',
+        'kind: ConfigMap',
+        'metadata:',
+        `  name: ${name}-script`,
+        'data:',
+        `  job.sh: ${yamlBlock(jobScript(execution), 4)}`,
+        '---',
+        'apiVersion: batch/v1',
+        'kind: CronJob',
+        'metadata:',
+        `  name: ${name}`,
+        'spec:',
+        `  schedule: ${JSON.stringify(job.expression.trim())}`,
+        `  timeZone: ${JSON.stringify(job.timezone)}`,
+        `  concurrencyPolicy: ${execution.concurrencyPolicy}`,
+        '  jobTemplate:',
+        '    spec:',
+        `      backoffLimit: ${execution.retryPolicy.maxRetries}`,
+        `      activeDeadlineSeconds: ${deadline}`,
+        '      template:',
+        '        spec:',
+        '          restartPolicy: Never',
+        '          containers:',
+        '            - name: job',
+        `              image: ${DEFAULT_IMAGE}`,
+        '              command: ["/opt/cron-job/job.sh"]',
+        ...(execution.arguments.length ? [`              args: [${execution.arguments.map(arg => JSON.stringify(arg)).join(', ')}]`] : []),
+        ...(execution.workingDirectory ? [`              workingDir: ${JSON.stringify(execution.workingDirectory)}`] : []),
+        '              resources:',
+        `                requests: { cpu: ${cpu}, memory: ${memory} }`,
+        `                limits: { cpu: ${cpu}, memory: ${memory} }`,
+        '              volumeMounts:',
+        '                - name: script',
+        '                  mountPath: /opt/cron-job',
+        '          volumes:',
+        '            - name: script',
+        '              configMap:',
+        `                name: ${name}-script`,
+        '                defaultMode: 0755',
+    ];
+    return { target: 'kubernetes', files: [{ path: `${name}.yaml`, content: `${manifest.join('\n')}\n` }], warnings };
+};
+
+// --- GitHub Actions ---
+
+/**
+ * Rewrites a schedule written for a zone `offsetMinutes` ahead of UTC as the same schedule in UTC, or returns null
+ * when that cannot be expressed in a single cron expression (for example when a shift across midnight meets a
+ * restricted day of the month).
+ */
+const shiftToUtc = (schedule: CronSchedule, offsetMinutes: number): string | null => {
+    const { minute, hour, dayOfMonth, month, dayOfWeek } = schedule;
+    if (offsetMinutes === 0) return [minute, hour, dayOfMonth, month, dayOfWeek].map(field => field.source).join(' ');
+
+    const pairs = new Set<number>();
+    const dayShifts = new Set<number>();
+    for (const h of hour.values) {
+        for (const m of minute.values) {
+            const total = h * 60 + m - offsetMinutes;
+            dayShifts.add(Math.floor(total / 1440));
+            pairs.add(((total % 1440) + 1440) % 1440);
+        }
+    }
+    const minutes = [...new Set([...pairs].map(time => time % 60))].sort((a, b) => a - b);
+    const hours = [...new Set([...pairs].map(time => Math.floor(time / 60)))].sort((a, b) => a - b);
+    if (minutes.length * hours.length !== pairs.size) return null; // The shifted times are not a minute x hour grid
+
+    let days = `${dayOfMonth.source} ${month.source} ${dayOfWeek.source}`;
+    if (dayShifts.size > 1 || !dayShifts.has(0)) {
+        const everyDay = dayOfMonth.unrestricted && month.unrestricted;
+        if (!everyDay) return null;
+        if (!dayOfWeek.unrestricted) {
+            if (dayShifts.size > 1) return null;
+            const [shift] = dayShifts;
+            const weekdays = [...new Set(dayOfWeek.values.map(day => (((day + shift) % 7) + 7) % 7))].sort((a, b) => a - b);
+            days = `* * ${compressValues(weekdays)}`;
+        }
+    }
+    const minuteField = offsetMinutes % 60 === 0 ? minute.source : compressValues(minutes);
+    const hourField = hour.unrestricted && offsetMinutes % 60 === 0 ? '*' : compressValues(hours);
+    return `${minuteField} ${hourField} ${days}`;
+};
+
+/** The distinct UTC offsets `timeZone` uses over the next year, current one first. */
+const offsetsOverYear = (timeZone: string) => {
+    const now = Date.now();
+    const offsets = new Set<number>();
+    for (let week = 0; week <= 52; week++) offsets.add(zoneOffsetMinutes(timeZone, new Date(now + week * 7 * 86_400_000)));
+    return [...offsets];
+};
+
+const exportGitHubActions = (job: CronExportJob, schedule: CronSchedule): CronExport => {
+    const { execution } = job;
+    const name = resourceName(job.name);
+    const warnings: string[] = [];
+
+    const offsets = offsetsOverYear(job.timezone);
+    let utcExpression = shiftToUtc(schedule, offsets[0]);
+    if (utcExpression === null) {
+        utcExpression = job.expression.trim();
+        warnings.push(`The schedule cannot be shifted from ${job.timezone} (${formatUtcOffset(offsets[0])}) to UTC as a single expression; GitHub Actions will read it as UTC.`);
+    } else if (offsets.length > 1) {
+        warnings.push(`GitHub Actions schedules are always UTC. ${job.timezone} moves between ${offsets.map(formatUtcOffset).join(' and ')}; the workflow uses the current offset, so runs are an hour off for part of the year.`);
+    }
+    const utcRuns = nextCronRuns(parseCronExpression(utcExpression, 'unix'), { timeZone: 'UTC', count: 50 });
+    if (utcRuns.some((run, i) => i > 0 && run.at.getTime() - utcRuns[i - 1].at.getTime() < GITHUB_MIN_INTERVAL_MS)) {
+        warnings.push('GitHub Actions runs scheduled workflows at most once every 5 minutes, and may delay them under load.');
+    }
+    if (execution.concurrencyPolicy === 'Forbid') {
+        warnings.push('GitHub Actions queues a run that starts while another is in progress instead of skipping it, and keeps only the newest queued run.');
+    }
+    warnings.push('Runners have fixed CPU and memory; the resource limits are not applied.');
+    if (!execution.outputCaptureEnabled) warnings.push('GitHub Actions always keeps step logs; output capture cannot be turned off.');
+    warnings.push(...notificationWarnings(job, 'The workflow', "use GitHub's workflow run notifications or add a notification step"));
+
+    const scriptPath = `.github/scripts/${name}.sh`;
+    const workflow = [
+        `# ${job.name}${job.description.trim() ? `: ${firstLine(job.description)}` : ''}`,
+        `name: ${JSON.stringify(job.name)}`,
+        'on:',
+        '  schedule:',
+        `    - cron: ${JSON.stringify(utcExpression)}${utcExpression !== job.expression.trim() ? ` # ${job.expression.trim()} in ${job.timezone}` : ''}`,
+        '  workflow_dispatch:',
+        ...(execution.concurrencyPolicy === 'Allow' ? [] : [
+            'concurrency:',
+            `  group: ${name}`,
+            `  cancel-in-progress: ${execution.concurrencyPolicy === 'Replace'}`,
+        ]),
+        'jobs:',
+        '  run:',
+        '    runs-on: ubuntu-latest',
+        `    timeout-minutes: ${Math.ceil(totalBudgetSeconds(execution) / 60)}`,
+        '    steps:',
+        '      - uses: actions/checkout@v4',
+        `      - name: ${JSON.stringify(`Run ${job.name}`)}`,
+        `        run: bash ${scriptPath}`,
+    ];
+    return {
+        target: 'githubActions',
+        files: [
+            { path: `.github/workflows/${name}.yml`, content: `${workflow.join('\n')}\n` },
+            { path: scriptPath, content: wrapperScript(job, { enforceConcurrency: false }) },
+        ],
+        warnings,
+    };
+};
+
+// --- systemd ---
+
+const SYSTEMD_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const calendarValues = (field: CronField, format: (value: number) => string = pad) =>
+    field.unrestricted ? '*' : compressValues(field.values, format, '..');
+
+/** OnCalendar= lines for the schedule; Vixie cron's "either day field" rule needs one line per day field. */
+const onCalendarLines = ({ minute, hour, dayOfMonth, month, dayOfWeek }: CronSchedule, timeZone: string) => {
+    const time = `${calendarValues(hour)}:${calendarValues(minute)}:00 ${timeZone}`;
+    const weekdays = calendarValues(dayOfWeek, value => SYSTEMD_WEEKDAYS[value]);
+    const line = (withWeekdays: boolean, days: string) =>
+        `${withWeekdays && weekdays !== '*' ? `${weekdays} ` : ''}*-${calendarValues(month)}-${days} ${time}`;
+
+    if (!dayOfMonth.unrestricted && !dayOfWeek.unrestricted && !dayOfMonth.star && !dayOfWeek.star) {
+        return [line(false, calendarValues(dayOfMonth)), line(true, '*')];
+    }
+    return [line(true, calendarValues(dayOfMonth))];
+};
+
+const exportSystemd = (job: CronExportJob, schedule: CronSchedule): CronExport => {
+    const { execution } = job;
+    const name = resourceName(job.name);
+    const wrapperPath = `${WRAPPER_DIR}/${name}.sh`;
+    const warnings: string[] = [];
+    if (execution.concurrencyPolicy === 'Allow') {
+        warnings.push('systemd never starts a service that is still running, so overlapping runs are skipped as with Forbid.');
+    } else if (execution.concurrencyPolicy === 'Replace') {
+        warnings.push('systemd skips a run while the previous one is still going; it cannot replace it.');
+    }
+    warnings.push(...notificationWarnings(job, 'systemd', 'add an OnFailure= unit that sends them'));
+
+    const service = [
+        '[Unit]',
+        `Description=${job.name}${job.description.trim() ? `: ${firstLine(job.description)}` : ''}`,
+        '',
+        '[Service]',
+        'Type=oneshot',
+        `ExecStart=${wrapperPath}`,
+        `TimeoutStartSec=${totalBudgetSeconds(execution)}`,
+        `CPUQuota=${Math.max(1, Math.round(execution.resourceLimits.cpuUnits / 1024 * 100))}%`,
+        `MemoryMax=${execution.resourceLimits.memoryMB}M`,
+        ...(execution.outputCaptureEnabled ? [] : ['StandardOutput=null', 'StandardError=null']),
+    ];
+    const timer = [
+        '[Unit]',
+        `Description=Schedule for ${job.name} (${job.expression.trim()})`,
+        '',
+        '[Timer]',
+        ...onCalendarLines(schedule, job.timezone).map(line => `OnCalendar=${line}`),
+        'AccuracySec=1s',
+        '',
+        '[Install]',
+        'WantedBy=timers.target',
+    ];
+    return {
+        target: 'systemd',
+        files: [
+            { path: `/etc/systemd/system/${name}.service`, content: `${service.join('\n')}\n` },
+            { path: `/etc/systemd/system/${name}.timer`, content: `${timer.join('\n')}\n` },
+            { path: wrapperPath, content: wrapperScript(job, { enforceConcurrency: false }) },
+        ],
+        warnings,
+    };
+};
+
+// --- crontab ---
+
+const exportCrontab = (job: CronExportJob): CronExport => {
+    const { execution } = job;
+    const name = resourceName(job.name);
+    const wrapperPath = `${WRAPPER_DIR}/${name}.sh`;
+    const warnings = [
+        'CRON_TZ= is honoured by cronie (RHEL, Fedora, Arch) but ignored by the Debian and Ubuntu cron, which use the system timezone.',
+        `The crontab line expects the wrapper script at ${wrapperPath}, executable by the crontab's owner.`,
+        'cron cannot limit CPU or memory; the resource limits are not applied.',
+        ...notificationWarnings(job, 'cron', 'set MAILTO= to mail the output, or send them from the wrapper script'),
+    ];
+    const output = execution.outputCaptureEnabled ? `>> /var/log/cron-jobs/${name}.log 2>&1` : '> /dev/null 2>&1';
+    const crontab = [
+        `# ${job.name}${job.description.trim() ? `: ${firstLine(job.description)}` : ''}`,
+        `CRON_TZ=${job.timezone}`,
+        `${job.expression.trim()} ${wrapperPath} ${output}`,
+    ];
+    return {
+        target: 'crontab',
+        files: [
+            { path: `${name}.crontab`, content: `${crontab.join('\n')}\n` },
+            { path: wrapperPath, content: wrapperScript(job, { enforceConcurrency: true }) },
+        ],
+        warnings,
+    };
+};
+
+/**
+ * Builds the files that run `job` on `target`, with a warning for every setting the target cannot honour.
+ * @throws CronSyntaxError when the expression is not valid five-field cron.
+ * @throws RangeError when the timezone is not a known IANA zone.
+ */
+export const exportCronJob = (job: CronExportJob, target: CronExportTarget): CronExport => {
+    const schedule = parseCronExpression(job.expression, 'unix');
+    if (!isValidTimeZone(job.timezone)) throw new RangeError(`Unknown timezone "${job.timezone}"`);
+    switch (target) {
+        case 'kubernetes':
+            return exportKubernetes(job, schedule);
+        case 'githubActions':
+            return exportGitHubActions(job, schedule);
+        case 'systemd':
+            return exportSystemd(job, schedule);
+        case 'crontab':
+            return exportCrontab(job);
+    }
+};
@@ -0,0 +1,297 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Parses cron expressions in the dialects people paste into the builder: classic five-field Unix cron, six-field
+// cron with a leading seconds field, Quartz (seconds and an optional year, with L/W/# day rules) and AWS
+// EventBridge (`cron(...)`, a trailing year field and the same day rules). Every dialect parses into the same
+// CronSchedule shape, with weekdays numbered 0 = Sunday, so the scheduler and describer need not care which
+// one was used.
+
+export type CronDialect = 'unix' | 'seconds' | 'quartz' | 'eventbridge';
+
+export const CRON_DIALECT_LABELS: Record<CronDialect, string> = {
+    unix: 'Unix (5 fields)',
+    seconds: 'With seconds (6 fields)',
+    quartz: 'Quartz',
+    eventbridge: 'AWS EventBridge',
+};
+
+export type CronFieldName = 'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek' | 'year';
+
+export const CRON_FIELD_LABELS: Record<CronFieldName, string> = {
+    second: 'Second',
+    minute: 'Minute',
+    hour: 'Hour',
+    dayOfMonth: 'Day (Month)',
+    month: 'Month',
+    dayOfWeek: 'Day (Week)',
+    year: 'Year',
+};
+
+export class CronSyntaxError extends SyntaxError {
+    constructor(message: string, public readonly field?: CronFieldName) {
+        super(field ? `${CRON_FIELD_LABELS[field]}: ${message}` : message);
+        this.name = 'CronSyntaxError';
+    }
+}
+
+/** One comma-separated item of a field: a value, a range, or either with a step. */
+export interface CronRange {
+    from: number;
+    to: number;
+    step: number;
+    wildcard: boolean; // Written as * (or ?); from/to span the whole field
+    openEnded: boolean; // Written as value/step, running to the end of the field
+}
+
+/** Quartz and EventBridge day rules that depend on the month being looked at. Weekdays are 0 = Sunday. */
+export type CronDayRule =
+    | { kind: 'lastDay'; offset: number } // L, L-3
+    | { kind: 'lastWeekday' } // LW: last Monday-Friday of the month
+    | { kind: 'nearestWeekday'; day: number } // 15W: the Monday-Friday closest to the 15th, within the month
+    | { kind: 'lastOfWeekday'; weekday: number } // 5L: last Thursday of the month
+    | { kind: 'nthOfWeekday'; weekday: number; nth: number }; // 6#3: third Friday of the month
+
+export interface CronField {
+    source: string;
+    ranges: CronRange[];
+    rules: CronDayRule[]; // Only ever set on the day fields
+    values: number[]; // Every value the ranges cover, sorted and without duplicates
+    unrestricted: boolean; // * or ?: the field does not narrow the schedule
+    star: boolean; // Starts with * or ?; Vixie cron only ORs the two day fields when neither does
+}
+
+export interface CronSchedule {
+    dialect: CronDialect;
+    expression: string;
+    second: CronField; // '0' for dialects without a seconds field
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    dayOfWeek: CronField;
+    year: CronField | null; // Only Quartz and EventBridge have one, and in Quartz it is optional
+}
+
+interface FieldSpec {
+    name: CronFieldName;
+    min: number;
+    max: number;
+    names?: Record<string, number>;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const namesFrom = (names: string[], first: number): Record<string, number> =>
+    Object.fromEntries(names.map((name, i) => [name, i + first]));
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: 'dayOfMonth', min: 1, max: 31 };
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: namesFrom(MONTH_NAMES, 1) };
+const UNIX_DAY_OF_WEEK: FieldSpec = { name: 'dayOfWeek', min: 0, max: 7, names: namesFrom(WEEKDAY_NAMES, 0) }; // 0 and 7 are Sunday
+const QUARTZ_DAY_OF_WEEK: FieldSpec = { name: 'dayOfWeek', min: 1, max: 7, names: namesFrom(WEEKDAY_NAMES, 1) }; // 1 is Sunday
+const QUARTZ_YEAR: FieldSpec = { name: 'year', min: 1970, max: 2099 };
+const EVENTBRIDGE_YEAR: FieldSpec = { name: 'year', min: 1970, max: 2199 };
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+/**
+ * Guesses the dialect of an expression from its shape. Six fields without Quartz-only syntax are read as
+ * seconds-first cron, so a bare EventBridge expression needs its `cron(...)` wrapper to be recognised.
+ */
+export const detectCronDialect = (expression: string): CronDialect => {
+    const text = expression.trim();
+    if (/^(cron|rate)\(/i.test(text)) return 'eventbridge';
+    if (text.startsWith('@')) return 'unix';
+    const fieldCount = text.split(/\s+/).length;
+    if (fieldCount === 7) return 'quartz';
+    if (fieldCount === 6) return /[?#]|(^|[\s,])L|\dW|\dL/.test(text) ? 'quartz' : 'seconds';
+    return 'unix';
+};
+
+const parseNumber = (text: string, spec: FieldSpec): number => {
+    const value = /^\d+$/.test(text) ? Number(text) : spec.names?.[text.toUpperCase()];
+    if (value === undefined) throw new CronSyntaxError(`"${text}" is not a number${spec.names ? ' or name' : ''}`, spec.name);
+    if (value < spec.min || value > spec.max) throw new CronSyntaxError(`${value} is outside ${spec.min}-${spec.max}`, spec.name);
+    return value;
+};
+
+const parseStep = (text: string, spec: FieldSpec): number => {
+    if (!/^\d+$/.test(text) || Number(text) === 0) throw new CronSyntaxError(`step "${text}" must be a positive whole number`, spec.name);
+    return Number(text);
+};
+
+const parseRange = (item: string, spec: FieldSpec, allowWrap: boolean): CronRange => {
+    const slashParts = item.split('/');
+    if (slashParts.length > 2) throw new CronSyntaxError(`"${item}" has more than one step`, spec.name);
+    const [base, stepText] = slashParts;
+    const step = stepText === undefined ? 1 : parseStep(stepText, spec);
+
+    if (base === '*') return { from: spec.min, to: spec.max, step, wildcard: true, openEnded: false };
+    const bounds = base.split('-');
+    if (bounds.length > 2 || bounds.some(bound => bound === '')) throw new CronSyntaxError(`"${item}" is not a valid range`, spec.name);
+    const from = parseNumber(bounds[0], spec);
+    if (bounds.length === 1) {
+        return stepText === undefined
+            ? { from, to: from, step, wildcard: false, openEnded: false }
+            : { from, to: spec.max, step, wildcard: false, openEnded: true };
+    }
+    const to = parseNumber(bounds[1], spec);
+    if (from > to && !allowWrap) throw new CronSyntaxError(`range ${base} runs backwards`, spec.name);
+    return { from, to, step, wildcard: false, openEnded: false };
+};
+
+const expandRange = ({ from, to, step }: CronRange, spec: FieldSpec): number[] => {
+    const values: number[] = [];
+    if (from <= to) {
+        for (let value = from; value <= to; value += step) values.push(value);
+    } else {
+        // Wrapping range such as FRI-MON or 22-2
+        const span = spec.max - spec.min + 1;
+        for (let offset = 0; offset <= to - from + span; offset += step) values.push(spec.min + (from - spec.min + offset) % span);
+    }
+    return values;
+};
+
+const parseDayRule = (item: string, spec: FieldSpec): CronDayRule | null => {
+    if (spec.name === 'dayOfMonth') {
+        if (item === 'L') return { kind: 'lastDay', offset: 0 };
+        if (item === 'LW') return { kind: 'lastWeekday' };
+        const lastOffset = /^L-(\d+)$/.exec(item);
+        if (lastOffset) {
+            const offset = Number(lastOffset[1]);
+            if (offset > 30) throw new CronSyntaxError(`L-${offset} is more than 30 days before the end of the month`, spec.name);
+            return { kind: 'lastDay', offset };
+        }
+        const nearest = /^(\d+)W$/.exec(item);
+        if (nearest) return { kind: 'nearestWeekday', day: parseNumber(nearest[1], spec) };
+    } else {
+        // Quartz numbering: the weekday is converted to 0 = Sunday here
+        if (item === 'L') return { kind: 'lastOfWeekday', weekday: 6 };
+        const last = /^(\w+)L$/.exec(item);
+        if (last) return { kind: 'lastOfWeekday', weekday: parseNumber(last[1], spec) - 1 };
+        const nth = /^(\w+)#(\d+)$/.exec(item);
+        if (nth) {
+            const occurrence = Number(nth[2]);
+            if (occurrence < 1 || occurrence > 5) throw new CronSyntaxError(`#${occurrence} must be between 1 and 5`, spec.name);
+            return { kind: 'nthOfWeekday', weekday: parseNumber(nth[1], spec) - 1, nth: occurrence };
+        }
+    }
+    return null;
+};
+
+const parseField = (source: string, spec: FieldSpec, dialect: CronDialect): CronField => {
+    const quartzLike = dialect === 'quartz' || dialect === 'eventbridge';
+    const isDayField = spec.name === 'dayOfMonth' || spec.name === 'dayOfWeek';
+
+    if (source === '?' && (!quartzLike || !isDayField)) {
+        throw new CronSyntaxError('? is only allowed in the day fields of Quartz and EventBridge expressions', spec.name);
+    }
+    const text = source === '?' ? '*' : source;
+
+    const ranges: CronRange[] = [];
+    const rules: CronDayRule[] = [];
+    for (const item of text.split(',')) {
+        if (item === '') throw new CronSyntaxError(`"${source}" has an empty list item`, spec.name);
+        const rule = quartzLike && isDayField ? parseDayRule(item, spec) : null;
+        if (rule) {
+            rules.push(rule);
+        } else {
+            ranges.push(parseRange(item, spec, quartzLike));
+        }
+    }
+
+    let values = [...new Set(ranges.flatMap(range => expandRange(range, spec)))];
+    if (spec === UNIX_DAY_OF_WEEK) {
+        values = [...new Set(values.map(value => value % 7))];
+        ranges.forEach(range => {
+            range.from %= 7;
+            range.to %= 7;
+        });
+    } else if (spec === QUARTZ_DAY_OF_WEEK) {
+        values = values.map(value => value - 1);
+        ranges.forEach(range => {
+            range.from -= 1;
+            range.to -= 1;
+        });
+    }
+    values.sort((a, b) => a - b);
+
+    return { source, ranges, rules, values, unrestricted: text === '*', star: text.startsWith('*') };
+};
+
+const FIELD_LAYOUTS: Record<CronDialect, FieldSpec[][]> = {
+    unix: [[MINUTE, HOUR, DAY_OF_MONTH, MONTH, UNIX_DAY_OF_WEEK]],
+    seconds: [[SECOND, MINUTE, HOUR, DAY_OF_MONTH, MONTH, UNIX_DAY_OF_WEEK]],
+    quartz: [
+        [SECOND, MINUTE, HOUR, DAY_OF_MONTH, MONTH, QUARTZ_DAY_OF_WEEK],
+        [SECOND, MINUTE, HOUR, DAY_OF_MONTH, MONTH, QUARTZ_DAY_OF_WEEK, QUARTZ_YEAR],
+    ],
+    eventbridge: [[MINUTE, HOUR, DAY_OF_MONTH, MONTH, QUARTZ_DAY_OF_WEEK, EVENTBRIDGE_YEAR]],
+};
+
+/**
+ * Parses `expression` as `dialect`, or as the dialect `detectCronDialect` guesses.
+ * @throws CronSyntaxError naming the offending field when the expression is not valid in that dialect.
+ */
+export const parseCronExpression = (expression: string, dialect: CronDialect = detectCronDialect(expression)): CronSchedule => {
+    let text = expression.trim();
+    if (dialect === 'eventbridge') {
+        if (/^rate\(/i.test(text)) throw new CronSyntaxError('rate(...) expressions are intervals, not cron schedules');
+        const wrapped = /^cron\((.*)\)$/is.exec(text);
+        if (wrapped) text = wrapped[1].trim();
+    }
+    if (text.startsWith('@')) {
+        if (dialect !== 'unix' && dialect !== 'seconds') throw new CronSyntaxError(`${CRON_DIALECT_LABELS[dialect]} does not support @ shortcuts`);
+        if (text.toLowerCase() === '@reboot') throw new CronSyntaxError('@reboot runs once at startup and has no schedule');
+        const macro = MACROS[text.toLowerCase()];
+        if (!macro) throw new CronSyntaxError(`Unknown shortcut ${text}`);
+        text = dialect === 'seconds' ? `0 ${macro}` : macro;
+    }
+
+    const sources = text === '' ? [] : text.split(/\s+/);
+    const layout = FIELD_LAYOUTS[dialect].find(specs => specs.length === sources.length);
+    if (!layout) {
+        const expected = FIELD_LAYOUTS[dialect].map(specs => specs.length).join(' or ');
+        throw new CronSyntaxError(`${CRON_DIALECT_LABELS[dialect]} expressions have ${expected} fields, found ${sources.length}`);
+    }
+
+    const fields = new Map<CronFieldName, CronField>();
+    layout.forEach((spec, i) => fields.set(spec.name, parseField(sources[i], spec, dialect)));
+
+    if (dialect === 'quartz' || dialect === 'eventbridge') {
+        const dayOfMonthSource = sources[layout.indexOf(DAY_OF_MONTH)];
+        const dayOfWeekSource = sources[layout.indexOf(QUARTZ_DAY_OF_WEEK)];
+        if ((dayOfMonthSource === '?') === (dayOfWeekSource === '?')) {
+            throw new CronSyntaxError(`${CRON_DIALECT_LABELS[dialect]} needs ? in exactly one of the day-of-month and day-of-week fields`);
+        }
+    }
+
+    return {
+        dialect,
+        expression: expression.trim(),
+        second: fields.get('second') ?? parseField('0', SECOND, dialect),
+        minute: fields.get('minute')!,
+        hour: fields.get('hour')!,
+        dayOfMonth: fields.get('dayOfMonth')!,
+        month: fields.get('month')!,
+        dayOfWeek: fields.get('dayOfWeek')!,
+        year: fields.get('year') ?? null,
+    };
+};
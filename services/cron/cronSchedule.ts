@@ -0,0 +1,333 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CronDayRule, CronField, CronSchedule } from './cronExpression.ts';
+
+// Computes upcoming run times of a parsed schedule in an IANA time zone. Matching happens on wall-clock time,
+// which is then mapped to real instants. Daylight saving follows cronie and Vixie cron:
+// - Fixed-time jobs (no * in the second, minute or hour field) whose local time is skipped run once when the
+//   clocks jump forward, and those whose local time happens twice run only at the first occurrence.
+// - Wildcard jobs follow the clock: skipped times do not run and repeated times run twice.
+
+export interface CronRun {
+    at: Date;
+    localTime: string; // Wall-clock time in the zone, 'YYYY-MM-DD HH:mm:ss'
+    utcOffset: string; // e.g. '-04:00'
+    dst?: 'gap' | 'overlap'; // The scheduled local time was skipped, or happens twice, because of daylight saving
+    dstNote?: string; // Explains `dst` for display
+}
+
+export interface CronRunOptions {
+    timeZone: string;
+    from?: Date; // Runs strictly after this instant; defaults to now
+    count?: number; // Defaults to 10
+}
+
+const SECOND_MS = 1000;
+const DAY_MS = 86_400_000;
+const OFFSET_BUCKET_MS = 15 * 60_000; // Zone offsets only change on quarter hours
+const MAX_RUNS = 1000;
+const SEARCH_YEARS = 400; // The Gregorian calendar repeats every 400 years; a schedule silent that long never fires
+
+// --- Zone arithmetic ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/** True when the runtime knows `timeZone` as an IANA zone name. */
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/** Offsets are looked up many times per search, so each zone gets a memo keyed by quarter hour. */
+const createZone = (timeZone: string) => {
+    const formatter = formatterFor(timeZone);
+    const offsets = new Map<number, number>();
+
+    const offsetAt = (instant: number): number => {
+        const bucket = Math.floor(instant / OFFSET_BUCKET_MS);
+        let offset = offsets.get(bucket);
+        if (offset === undefined) {
+            const sample = bucket * OFFSET_BUCKET_MS;
+            const parts: Record<string, number> = {};
+            for (const part of formatter.formatToParts(new Date(sample))) {
+                if (part.type !== 'literal') parts[part.type] = Number(part.value);
+            }
+            offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - sample;
+            offsets.set(bucket, offset);
+        }
+        return offset;
+    };
+
+    const wallTimeAt = (instant: number) => instant + offsetAt(instant);
+
+    /** Instants showing `wall` on the zone's clocks: none in a gap, two in an overlap. */
+    const instantsAt = (wall: number): number[] => {
+        const candidates = [wall - offsetAt(wall - DAY_MS), wall - offsetAt(wall + DAY_MS)];
+        return [...new Set(candidates)].filter(instant => wallTimeAt(instant) === wall).sort((a, b) => a - b);
+    };
+
+    /** The instant the clocks jumped past `wall`, for a wall time inside a gap. */
+    const gapEnd = (wall: number): number => {
+        let before = wall - offsetAt(wall + DAY_MS); // Read with the later offset: still before the jump
+        let after = wall - offsetAt(wall - DAY_MS); // Read with the earlier offset: already past it
+        while (after - before > SECOND_MS) {
+            const middle = before + Math.floor((after - before) / 2 / SECOND_MS) * SECOND_MS;
+            if (wallTimeAt(middle) > wall) after = middle;
+            else before = middle;
+        }
+        return after;
+    };
+
+    return { offsetAt, wallTimeAt, instantsAt, gapEnd };
+};
+
+// --- Wall-clock matching ---
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const weekdayOf = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+const ruleDay = (rule: CronDayRule, year: number, month: number): number | null => {
+    const lastDay = daysInMonth(year, month);
+    switch (rule.kind) {
+        case 'lastDay':
+            return lastDay - rule.offset >= 1 ? lastDay - rule.offset : null;
+        case 'lastWeekday': {
+            let day = lastDay;
+            while (weekdayOf(year, month, day) % 6 === 0) day--;
+            return day;
+        }
+        case 'nearestWeekday': {
+            if (rule.day > lastDay) return null;
+            const weekday = weekdayOf(year, month, rule.day);
+            if (weekday === 6) return rule.day === 1 ? 3 : rule.day - 1; // Never crosses into another month
+            if (weekday === 0) return rule.day === lastDay ? rule.day - 2 : rule.day + 1;
+            return rule.day;
+        }
+        case 'lastOfWeekday':
+            return lastDay - (weekdayOf(year, month, lastDay) - rule.weekday + 7) % 7;
+        case 'nthOfWeekday': {
+            const day = 1 + (rule.weekday - weekdayOf(year, month, 1) + 7) % 7 + 7 * (rule.nth - 1);
+            return day <= lastDay ? day : null;
+        }
+    }
+};
+
+const fieldDays = (field: CronField, year: number, month: number, dayMatches: (day: number) => boolean): Set<number> => {
+    const days = new Set<number>();
+    for (let day = 1; day <= daysInMonth(year, month); day++) {
+        if (dayMatches(day)) days.add(day);
+    }
+    for (const rule of field.rules) {
+        const day = ruleDay(rule, year, month);
+        if (day !== null) days.add(day);
+    }
+    return days;
+};
+
+const createMatcher = (schedule: CronSchedule) => {
+    const dayOfMonth = new Set(schedule.dayOfMonth.values);
+    const dayOfWeek = new Set(schedule.dayOfWeek.values);
+    const monthDays = new Map<number, number[]>();
+
+    /** Matching days of a month, sorted. Vixie cron ANDs the day fields when either starts with *, else ORs them. */
+    const daysOf = (year: number, month: number): number[] => {
+        const key = year * 12 + month;
+        let days = monthDays.get(key);
+        if (!days) {
+            const byMonth = fieldDays(schedule.dayOfMonth, year, month, day => dayOfMonth.has(day));
+            const byWeek = fieldDays(schedule.dayOfWeek, year, month, day => dayOfWeek.has(weekdayOf(year, month, day)));
+            const both = schedule.dayOfMonth.star || schedule.dayOfWeek.star;
+            days = [...byMonth, ...byWeek]
+                .filter((day, i, all) => all.indexOf(day) === i && (!both || (byMonth.has(day) && byWeek.has(day))))
+                .sort((a, b) => a - b);
+            monthDays.set(key, days);
+        }
+        return days;
+    };
+
+    /** The first wall-clock time at or after `wall` (whole seconds, as UTC milliseconds) the schedule matches. */
+    const nextWallTime = (wall: number, lastYear: number): number | null => {
+        const start = new Date(wall);
+        let year = start.getUTCFullYear();
+        let month = start.getUTCMonth() + 1;
+        let day = start.getUTCDate();
+        let hour = start.getUTCHours();
+        let minute = start.getUTCMinutes();
+        let second = start.getUTCSeconds();
+        const resetFrom = (unit: 'month' | 'day' | 'hour' | 'minute' | 'second') => {
+            if (unit === 'month') month = 1;
+            if (unit === 'month' || unit === 'day') day = 1;
+            if (unit !== 'minute' && unit !== 'second') hour = 0;
+            if (unit !== 'second') minute = 0;
+            second = 0;
+        };
+
+        while (year <= lastYear) {
+            if (schedule.year) {
+                const nextYear = schedule.year.values.find(value => value >= year);
+                if (nextYear === undefined) return null;
+                if (nextYear !== year) {
+                    year = nextYear;
+                    resetFrom('month');
+                }
+            }
+            const nextMonth = schedule.month.values.find(value => value >= month);
+            if (nextMonth === undefined) {
+                year++;
+                resetFrom('month');
+                continue;
+            }
+            if (nextMonth !== month) {
+                month = nextMonth;
+                resetFrom('day');
+            }
+            const nextDay = daysOf(year, month).find(value => value >= day);
+            if (nextDay === undefined) {
+                month++;
+                resetFrom('day');
+                if (month > 12) {
+                    year++;
+                    month = 1;
+                }
+                continue;
+            }
+            if (nextDay !== day) {
+                day = nextDay;
+                resetFrom('hour');
+            }
+            const nextHour = schedule.hour.values.find(value => value >= hour);
+            if (nextHour === undefined) {
+                day++;
+                resetFrom('hour');
+                continue;
+            }
+            if (nextHour !== hour) {
+                hour = nextHour;
+                resetFrom('minute');
+            }
+            const nextMinute = schedule.minute.values.find(value => value >= minute);
+            if (nextMinute === undefined) {
+                hour++;
+                resetFrom('minute');
+                continue;
+            }
+            if (nextMinute !== minute) {
+                minute = nextMinute;
+                resetFrom('second');
+            }
+            const nextSecond = schedule.second.values.find(value => value >= second);
+            if (nextSecond === undefined) {
+                minute++;
+                resetFrom('second');
+                continue;
+            }
+            return Date.UTC(year, month - 1, day, hour, minute, nextSecond);
+        }
+        return null;
+    };
+
+    return { nextWallTime };
+};
+
+// --- Runs ---
+
+const formatWallTime = (wall: number) => new Date(wall).toISOString().slice(0, 19).replace('T', ' ');
+
+const formatOffset = (offset: number) => {
+    const minutes = Math.round(Math.abs(offset) / 60_000);
+    return `${offset < 0 ? '-' : '+'}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Lists the next runs of `schedule` after `from` in `timeZone`, in order. Returns fewer than `count` runs, possibly
+ * none, when the schedule stops firing (a past year, or a date such as 30 February that never comes).
+ * @throws RangeError when `timeZone` is not a known IANA zone.
+ */
+export const nextCronRuns = (schedule: CronSchedule, { timeZone, from = new Date(), count = 10 }: CronRunOptions): CronRun[] => {
+    const zone = createZone(timeZone);
+    const { nextWallTime } = createMatcher(schedule);
+    const limit = Math.min(Math.max(count, 0), MAX_RUNS);
+    const fixedTime = !schedule.second.star && !schedule.minute.star && !schedule.hour.star;
+
+    const fromInstant = Math.floor(from.getTime() / SECOND_MS) * SECOND_MS;
+    // A wall time before `from`'s can still be ahead of it when the clocks go back soon, so start early enough
+    const fallBack = Math.max(0, zone.offsetAt(fromInstant) - zone.offsetAt(fromInstant + DAY_MS));
+    const lastYear = new Date(fromInstant).getUTCFullYear() + SEARCH_YEARS;
+
+    const runs = new Map<number, CronRun>();
+    const addRun = (instant: number, dst?: CronRun['dst'], dstNote?: string) => {
+        if (instant <= fromInstant) return;
+        const existing = runs.get(instant);
+        if (existing && !existing.dstNote) return; // A regular run already covers this instant
+        const offset = zone.offsetAt(instant);
+        runs.set(instant, { at: new Date(instant), localTime: formatWallTime(instant + offset), utcOffset: formatOffset(offset), dst, dstNote });
+    };
+    const sortedInstants = () => [...runs.keys()].sort((a, b) => a - b);
+
+    let wall = zone.wallTimeAt(fromInstant) - fallBack;
+    while (limit > 0) {
+        const match = nextWallTime(wall, lastYear);
+        if (match === null) break;
+        if (runs.size >= limit) {
+            // Later wall times can only map to instants before the last run kept if an offset change intervenes
+            const lastKept = sortedInstants()[limit - 1];
+            if (match - Math.max(zone.offsetAt(match - DAY_MS), zone.offsetAt(match + DAY_MS)) > lastKept) break;
+        }
+
+        const instants = zone.instantsAt(match);
+        const local = formatWallTime(match);
+        if (instants.length === 0) {
+            if (fixedTime) addRun(zone.gapEnd(match), 'gap', `${local} is skipped when the clocks go forward; runs at the change instead`);
+        } else if (instants.length > 1) {
+            if (fixedTime) {
+                addRun(instants[0], 'overlap', `${local} happens twice when the clocks go back; runs at the first one only`);
+            } else {
+                instants.forEach(instant => addRun(instant, 'overlap', `${local} happens twice when the clocks go back; runs at both`));
+            }
+        } else {
+            addRun(instants[0]);
+        }
+        wall = match + SECOND_MS;
+    }
+
+    return sortedInstants().slice(0, limit).map(instant => runs.get(instant)!);
+};
+
+/**
+ * Minutes `timeZone` is ahead of UTC at `at`, e.g. -240 for New York in summer.
+ * @throws RangeError when `timeZone` is not a known IANA zone.
+ */
+export const zoneOffsetMinutes = (timeZone: string, at = new Date()): number =>
+    Math.round(createZone(timeZone).offsetAt(at.getTime()) / 60_000);
+
+/** The next run after `from`, or null when the schedule never fires again. */
+export const nextCronRun = (schedule: CronSchedule, timeZone: string, from = new Date()): CronRun | null =>
+    nextCronRuns(schedule, { timeZone, from, count: 1 })[0] ?? null;
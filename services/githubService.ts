@@ -22,7 +22,7 @@
 // data fetching, manipulation, and proactive event management.
 
 import type { Octokit } from 'octokit';
-import type { Repo, FileNode } from '../types.ts';
+import type { Repo, FileNode, RepoRef } from '../types.ts';
 import { logEvent, logError, measurePerformance } from './index.ts';
 
 // --- Internal Helper Types for Enhanced Functionality ---
@@ -243,6 +243,105 @@ export interface ExternalIntegrationConfig {
     orgName?: string;
 }
 
+/**
+ * A branch as listed by the branches API.
+ * @property {string} name - The branch name, without the `refs/heads/` prefix.
+ * @property {string} sha - The commit the branch currently points at.
+ * @property {boolean} protected - Whether branch protection rules apply.
+ */
+export interface BranchSummary {
+    name: string;
+    sha: string;
+    protected: boolean;
+}
+
+/**
+ * A tag as listed by the tags API.
+ * @property {string} name - The tag name, without the `refs/tags/` prefix.
+ * @property {string} sha - The commit the tag points at.
+ */
+export interface TagSummary {
+    name: string;
+    sha: string;
+}
+
+/**
+ * A commit as listed by the compare API.
+ * @property {string} message - The full commit message: subject, body and trailers.
+ * @property {string | null} authorLogin - The GitHub account the author email maps to, if any.
+ * @property {number} parentCount - More than one for merge commits.
+ */
+export interface CommitSummary {
+    sha: string;
+    message: string;
+    authorName: string;
+    authorLogin: string | null;
+    date: string;
+    htmlUrl: string;
+    parentCount: number;
+}
+
+/**
+ * The commits reachable from `head` but not from `base`, oldest first.
+ * @property {string} status - 'ahead', 'behind', 'diverged' or 'identical', as reported by GitHub.
+ */
+export interface CommitRange {
+    status: 'ahead' | 'behind' | 'diverged' | 'identical';
+    aheadBy: number;
+    behindBy: number;
+    commits: CommitSummary[];
+}
+
+/**
+ * A merged pull request that introduced a commit.
+ * @property {string[]} labels - Label names.
+ */
+export interface PullRequestSummary {
+    number: number;
+    title: string;
+    htmlUrl: string;
+    labels: string[];
+    mergedAt: string;
+}
+
+/**
+ * Git file modes the trees API accepts for blobs.
+ * '100644' is a regular file, '100755' an executable, '120000' a symlink whose content is the target path.
+ */
+export type GitFileMode = '100644' | '100755' | '120000';
+
+/**
+ * The raw content of a file at a given ref, independent of its encoding.
+ * @property {string} sha - The blob SHA, usable as `base_sha` when committing changes to the file.
+ * @property {Uint8Array} bytes - The exact file bytes.
+ * @property {string} base64 - The same bytes, base64 encoded, for storage or re-upload.
+ * @property {string | null} text - The UTF-8 decoded content, or null when the file is binary.
+ */
+export interface RepoFileContent {
+    path: string;
+    sha: string;
+    size: number;
+    isBinary: boolean;
+    bytes: Uint8Array;
+    base64: string;
+    text: string | null;
+}
+
+/**
+ * A single change for `commitFiles`.
+ * @property {string | Uint8Array | null} [content] - New text or bytes; null deletes the file. May be omitted only
+ * for a pure rename, in which case the blob at `previousPath` is reused unchanged.
+ * @property {GitFileMode} [mode] - Explicit mode; otherwise the existing mode is kept, and new files get '100644'.
+ * @property {string} [previousPath] - The path the file is being renamed from; it is removed in the same commit.
+ */
+export interface CommitFileChange {
+    path: string;
+    content?: string | Uint8Array | null;
+    base_sha?: string;
+    mode?: GitFileMode;
+    previousPath?: string;
+}
+
 // --- Global Constants and Configuration (for a real app, these would be external) ---
 // This section demonstrates our commitment to configurability and enterprise readiness.
 // These values are placeholders for a robust configuration management system
@@ -251,8 +350,24 @@ export const GITHUB_APP_ID = process.env.GITHUB_APP_ID || 'CVE_App_12345'; // Un
 export const DEFAULT_BRANCH_NAME = 'main'; // Standard default branch name
 export const DEFAULT_PR_REVIEWERS_COUNT = 2; // Default minimum required reviewers for pull requests
 export const MAX_FILE_SIZE_FOR_DIRECT_EDIT_KB = 500; // Files larger than this might require Git LFS or alternative handling for performance.
+export const GIT_BLOB_MAX_BYTES = 100 * 1024 * 1024; // GitHub rejects blobs above 100MB; beyond that only Git LFS works.
 export const CVE_SUITE_BOT_USER_ID = 'cve-suite-bot'; // System user for automated actions
 
+/**
+ * Thrown when a commit targets a branch whose head has moved since the caller last read it.
+ * Carries both SHAs so the UI can offer to reload the branch instead of overwriting someone else's push.
+ */
+export class NonFastForwardError extends Error {
+    constructor(
+        public readonly branch: string,
+        public readonly expectedSha: string,
+        public readonly actualSha: string | null
+    ) {
+        super(`Branch '${branch}' has moved since it was loaded (expected ${expectedSha.slice(0, 7)}, found ${actualSha ? actualSha.slice(0, 7) : 'an unknown head'}). Reload the branch and re-apply your changes.`);
+        this.name = 'NonFastForwardError';
+    }
+}
+
 // --- Core GitHub API Abstractions & Enhancements ---
 
 /**
@@ -811,6 +926,213 @@ export const setTeamRepoPermission = async (
 
 // --- Branch Management (Advanced & Protected) ---
 
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+/**
+ * Lists all branches of a repository, following pagination.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @returns A promise that resolves to every branch with its head commit SHA.
+ */
+export const getBranches = async (octokit: Octokit, owner: string, repo: string): Promise<BranchSummary[]> => {
+    return measurePerformance('getBranches', async () => {
+        logEvent('getBranches_start', { owner, repo });
+        try {
+            const perPage = 100;
+            let branches: BranchSummary[] = [];
+            let page = 1;
+            let hasMore = true;
+
+            while (hasMore) {
+                const { data } = await octokit.request('GET /repos/{owner}/{repo}/branches', { owner, repo, per_page: perPage, page });
+                branches = branches.concat(data.map((branch: any) => ({
+                    name: branch.name,
+                    sha: branch.commit.sha,
+                    protected: Boolean(branch.protected),
+                })));
+                hasMore = data.length === perPage;
+                page++;
+            }
+
+            logEvent('getBranches_success', { owner, repo, count: branches.length });
+            return branches;
+        } catch (error) {
+            logError(error as Error, { context: 'getBranches', owner, repo });
+            throw new Error(`Failed to list branches: ${(error as Error).message}`);
+        }
+    });
+};
+
+/**
+ * Lists all tags of a repository, following pagination.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @returns A promise that resolves to every tag with the commit SHA it points at.
+ */
+export const getTags = async (octokit: Octokit, owner: string, repo: string): Promise<TagSummary[]> => {
+    return measurePerformance('getTags', async () => {
+        logEvent('getTags_start', { owner, repo });
+        try {
+            const perPage = 100;
+            let tags: TagSummary[] = [];
+            let page = 1;
+            let hasMore = true;
+
+            while (hasMore) {
+                const { data } = await octokit.request('GET /repos/{owner}/{repo}/tags', { owner, repo, per_page: perPage, page });
+                tags = tags.concat(data.map((tag: any) => ({ name: tag.name, sha: tag.commit.sha })));
+                hasMore = data.length === perPage;
+                page++;
+            }
+
+            logEvent('getTags_success', { owner, repo, count: tags.length });
+            return tags;
+        } catch (error) {
+            logError(error as Error, { context: 'getTags', owner, repo });
+            throw new Error(`Failed to list tags: ${(error as Error).message}`);
+        }
+    });
+};
+
+/**
+ * Lists the commits between two refs, following pagination past the 250 commits GitHub returns by default.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @param base The older ref (branch, tag or SHA); its own commits are excluded.
+ * @param head The newer ref.
+ * @returns A promise that resolves to the comparison status and every commit in `base...head`, oldest first.
+ */
+export const compareCommits = async (octokit: Octokit, owner: string, repo: string, base: string, head: string): Promise<CommitRange> => {
+    return measurePerformance('compareCommits', async () => {
+        logEvent('compareCommits_start', { owner, repo, base, head });
+        try {
+            const perPage = 100;
+            let range: CommitRange | null = null;
+            let page = 1;
+            let hasMore = true;
+
+            while (hasMore) {
+                const { data } = await octokit.request('GET /repos/{owner}/{repo}/compare/{basehead}', {
+                    owner,
+                    repo,
+                    basehead: `${base}...${head}`,
+                    per_page: perPage,
+                    page,
+                });
+                const commits: CommitSummary[] = data.commits.map((commit: any) => ({
+                    sha: commit.sha,
+                    message: commit.commit.message,
+                    authorName: commit.commit.author?.name ?? 'unknown',
+                    authorLogin: commit.author?.login ?? null,
+                    date: commit.commit.author?.date ?? commit.commit.committer?.date ?? '',
+                    htmlUrl: commit.html_url,
+                    parentCount: commit.parents.length,
+                }));
+                range = range
+                    ? { ...range, commits: range.commits.concat(commits) }
+                    : { status: data.status, aheadBy: data.ahead_by, behindBy: data.behind_by, commits };
+                hasMore = commits.length === perPage && range.commits.length < data.total_commits;
+                page++;
+            }
+
+            logEvent('compareCommits_success', { owner, repo, base, head, count: range!.commits.length });
+            return range!;
+        } catch (error) {
+            logError(error as Error, { context: 'compareCommits', owner, repo, base, head });
+            throw new Error(`Failed to compare ${base}...${head}: ${(error as Error).message}`);
+        }
+    });
+};
+
+/**
+ * Finds the merged pull requests that introduced each commit, a few requests at a time.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @param shas The commits to look up.
+ * @returns A promise that resolves to the merged pull requests of each SHA; commits pushed directly map to [].
+ */
+export const getPullRequestsForCommits = async (octokit: Octokit, owner: string, repo: string, shas: string[]): Promise<Map<string, PullRequestSummary[]>> => {
+    return measurePerformance('getPullRequestsForCommits', async () => {
+        logEvent('getPullRequestsForCommits_start', { owner, repo, count: shas.length });
+        try {
+            const batchSize = 5;
+            const pullRequests = new Map<string, PullRequestSummary[]>();
+
+            for (let i = 0; i < shas.length; i += batchSize) {
+                const batch = shas.slice(i, i + batchSize);
+                const results = await Promise.all(batch.map(commit_sha =>
+                    octokit.request('GET /repos/{owner}/{repo}/commits/{commit_sha}/pulls', { owner, repo, commit_sha })));
+                results.forEach(({ data }, j) => {
+                    pullRequests.set(batch[j], data
+                        .filter((pr: any) => pr.merged_at && pr.base?.repo?.full_name?.toLowerCase() === `${owner}/${repo}`.toLowerCase())
+                        .map((pr: any) => ({
+                            number: pr.number,
+                            title: pr.title,
+                            htmlUrl: pr.html_url,
+                            labels: (pr.labels ?? []).map((label: any) => typeof label === 'string' ? label : label.name),
+                            mergedAt: pr.merged_at,
+                        })));
+                });
+            }
+
+            logEvent('getPullRequestsForCommits_success', { owner, repo, count: shas.length });
+            return pullRequests;
+        } catch (error) {
+            logError(error as Error, { context: 'getPullRequestsForCommits', owner, repo, count: shas.length });
+            throw new Error(`Failed to look up pull requests: ${(error as Error).message}`);
+        }
+    });
+};
+
+/**
+ * Resolves a branch name, tag name or commit SHA to a `RepoRef` pinned to its current commit.
+ * Branches take precedence over tags of the same name, matching git's own lookup order.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @param ref Optional. The ref to resolve; the repository's default branch when omitted.
+ * @returns A promise that resolves to the ref kind, name and commit SHA.
+ */
+export const resolveRef = async (octokit: Octokit, owner: string, repo: string, ref?: string): Promise<RepoRef> => {
+    return measurePerformance('resolveRef', async () => {
+        const name = ref || (await octokit.request('GET /repos/{owner}/{repo}', { owner, repo })).data.default_branch;
+
+        // A full SHA is only ever a commit, which saves two guaranteed 404s.
+        const candidateKinds = FULL_SHA_PATTERN.test(name) ? [] : (['branch', 'tag'] as const);
+        for (const kind of candidateKinds) {
+            try {
+                const { data } = await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', {
+                    owner,
+                    repo,
+                    ref: `${kind === 'branch' ? 'heads' : 'tags'}/${name}`,
+                });
+                let sha: string = data.object.sha;
+                if (data.object.type === 'tag') {
+                    // Annotated tags point at a tag object; peel it to the commit.
+                    const { data: tagObject } = await octokit.request('GET /repos/{owner}/{repo}/git/tags/{tag_sha}', { owner, repo, tag_sha: sha });
+                    sha = tagObject.object.sha;
+                }
+                return { kind, name, sha };
+            } catch (error) {
+                if ((error as any)?.status !== 404) throw error;
+            }
+        }
+
+        // Not a branch or tag: accept anything the commits API can resolve (full or abbreviated SHA).
+        try {
+            const { data } = await octokit.request('GET /repos/{owner}/{repo}/commits/{ref}', { owner, repo, ref: name });
+            return { kind: 'commit', name: data.sha, sha: data.sha };
+        } catch (error) {
+            logError(error as Error, { context: 'resolveRef', owner, repo, ref: name });
+            throw new Error(`'${name}' is not a branch, tag or commit in ${owner}/${repo}.`);
+        }
+    });
+};
+
 /**
  * Creates a new branch from an existing one (or a specific commit SHA), enforcing branching policies.
  * @param octokit An authenticated Octokit instance.
@@ -1485,12 +1807,35 @@ export const enableAutoMergeForPullRequest = async (
 
 // --- File and Tree Functions (Enhanced with Caching and Security) ---
 
+// Git's own heuristic: a NUL byte within the first 8000 bytes marks a file as binary.
+const BINARY_SNIFF_LENGTH = 8000;
+const BASE64_CHUNK_SIZE = 0x8000; // Keeps String.fromCharCode under engine argument limits
+
+const _base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64.replace(/\s/g, '')); // The contents API wraps base64 at 60 columns
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const _bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+        binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + BASE64_CHUNK_SIZE)));
+    }
+    return btoa(binary);
+};
+
+const _isBinaryContent = (bytes: Uint8Array): boolean => bytes.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+
 /**
  * Fetches the file tree for a repository recursively, with intelligent caching and metadata enrichment.
  * @param octokit An authenticated Octokit instance.
  * @param owner The repository owner's login.
  * @param repo The repository name.
- * @param branch Optional. The branch to fetch the tree from (defaults to the default branch).
+ * @param ref Optional. The branch, tag or commit SHA to fetch the tree from (defaults to the default branch).
  * @param forceRefresh Optional. If true, bypasses any internal cache and fetches fresh data.
  * @param includeMetadata Optional. If true, fetches additional file metadata (e.g., last commit, author, size).
  * @returns A promise that resolves to the root FileNode of the repository, with enhanced features.
@@ -1508,33 +1853,33 @@ export const getRepoTree = async (
     octokit: Octokit,
     owner: string,
     repo: string,
-    branch?: string,
+    ref?: string,
     forceRefresh: boolean = false,
     includeMetadata: boolean = false
 ): Promise<FileNode> => {
      return measurePerformance('getRepoTree', async () => {
-        logEvent('getRepoTree_start', { owner, repo, branch, forceRefresh, includeMetadata });
-
-        const actualBranch = branch || (await octokit.request('GET /repos/{owner}/{repo}', { owner, repo })).data.default_branch;
-        const cacheKey = `repoTree:${owner}/${repo}:${actualBranch}:${includeMetadata}`;
+        logEvent('getRepoTree_start', { owner, repo, ref, forceRefresh, includeMetadata });
 
-        // Step 1: Simulate intelligent caching layer lookup
-        if (!forceRefresh) {
-            const cachedTree = await _retrieveFromCache(cacheKey);
-            if (cachedTree) {
-                logEvent('getRepoTree_cacheHit', { owner, repo, branch: actualBranch });
-                return cachedTree as FileNode;
-            }
-        }
+        const actualRef = ref || (await octokit.request('GET /repos/{owner}/{repo}', { owner, repo })).data.default_branch;
 
         try {
-            // Step 2: Fetch the branch's latest commit SHA
-            const { data: branchData } = await octokit.request('GET /repos/{owner}/{repo}/branches/{branch}', {
+            // Step 1: Resolve the ref to a commit. The commits endpoint accepts branches, tags and SHAs alike.
+            const { data: commitData } = await octokit.request('GET /repos/{owner}/{repo}/commits/{ref}', {
                 owner,
                 repo,
-                branch: actualBranch,
+                ref: actualRef,
             });
-            const treeSha = branchData.commit.commit.tree.sha;
+            const treeSha = commitData.commit.tree.sha;
+
+            // Step 2: Simulate intelligent caching layer lookup, keyed by commit so a moved branch never serves a stale tree
+            const cacheKey = `repoTree:${owner}/${repo}:${commitData.sha}:${includeMetadata}`;
+            if (!forceRefresh) {
+                const cachedTree = await _retrieveFromCache(cacheKey);
+                if (cachedTree) {
+                    logEvent('getRepoTree_cacheHit', { owner, repo, ref: actualRef });
+                    return cachedTree as FileNode;
+                }
+            }
 
             // Step 3: Fetch the recursive tree data from GitHub
             const { data: treeData } = await octokit.request('GET /repos/{owner}/{repo}/git/trees/{tree_sha}', {
@@ -1583,6 +1928,7 @@ export const getRepoTree = async (
                 if (item.type === 'blob' && parentNode) {
                     (parentNode as any).sha = item.sha;
                     (parentNode as any).size = item.size;
+                    (parentNode as any).mode = item.mode; // Preserved by commitFiles for executables and symlinks
                     // Add more GitHub-specific metadata if desired:
                     // (parentNode as any).url = item.url;
                 }
@@ -1591,30 +1937,123 @@ export const getRepoTree = async (
             // Step 5: Conditionally enrich with CVE-Suite's proprietary metadata (e.g., code ownership, security tags)
             let finalTree = root;
             if (includeMetadata) {
-                finalTree = await _enrichTreeWithCVEMetadata(owner, repo, actualBranch, root);
+                finalTree = await _enrichTreeWithCVEMetadata(owner, repo, actualRef, root);
             }
 
             // Step 6: Simulate storing in cache
             await _storeInCache(cacheKey, finalTree, 3600); // Cache for 1 hour
 
-            logEvent('getRepoTree_success', { owner, repo, items: treeData.tree.length, branch: actualBranch });
+            logEvent('getRepoTree_success', { owner, repo, items: treeData.tree.length, ref: actualRef });
             return finalTree;
         } catch (error) {
-            logError(error as Error, { context: 'getRepoTree', owner, repo, branch });
+            logError(error as Error, { context: 'getRepoTree', owner, repo, ref });
             throw new Error(`Failed to fetch repository tree: ${(error as Error).message}`);
         }
     });
 };
 
+/**
+ * Fetches the exact bytes of a file, falling back to the Git blobs API for files the contents API will not inline.
+ * The contents API only embeds content up to 1 MB; larger files (up to GitHub's 100 MB limit) come back with
+ * `encoding: 'none'` and are fetched by blob SHA instead.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @param path The full path to the file within the repository.
+ * @param ref Optional. The branch, tag or commit SHA to fetch the file from (defaults to the default branch).
+ * @returns A promise that resolves to the file's bytes, base64 form, blob SHA and, for text files, decoded text.
+ */
+export const getFileBytes = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+): Promise<RepoFileContent> => {
+    return measurePerformance('getFileBytes', async () => {
+        logEvent('getFileBytes_start', { owner, repo, path, ref });
+        try {
+            const { data } = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
+                owner,
+                repo,
+                path,
+                ref,
+            });
+
+            if (Array.isArray(data) || (data as any).type !== 'file') {
+                throw new Error("Path did not point to a valid file.");
+            }
+
+            const file = data as any;
+            let base64: string;
+            if (file.encoding === 'base64' && typeof file.content === 'string' && (file.content !== '' || file.size === 0)) {
+                base64 = file.content.replace(/\s/g, '');
+            } else {
+                logEvent('getFileBytes_blobFallback', { owner, repo, path, size: file.size });
+                const { data: blob } = await octokit.request('GET /repos/{owner}/{repo}/git/blobs/{file_sha}', {
+                    owner,
+                    repo,
+                    file_sha: file.sha,
+                });
+                base64 = blob.content.replace(/\s/g, '');
+            }
+
+            const bytes = _base64ToBytes(base64);
+            const isBinary = _isBinaryContent(bytes);
+            logEvent('getFileBytes_success', { owner, repo, path, size: bytes.length, isBinary });
+            return {
+                path,
+                sha: file.sha,
+                size: bytes.length,
+                isBinary,
+                bytes,
+                base64,
+                text: isBinary ? null : new TextDecoder('utf-8').decode(bytes),
+            };
+        } catch (error) {
+            logError(error as Error, { context: 'getFileBytes', owner, repo, path, ref });
+            throw new Error(`Failed to fetch file bytes: ${(error as Error).message}`);
+        }
+    });
+};
+
+/**
+ * Like `getFileBytes`, but resolves to null when the file does not exist at `ref` instead of failing.
+ * Any other error (auth, network, rate limit) still rejects, so callers never mistake it for a missing file.
+ * @param octokit An authenticated Octokit instance.
+ * @param owner The repository owner's login.
+ * @param repo The repository name.
+ * @param path The full path to the file within the repository.
+ * @param ref Optional. The branch, tag or commit SHA to look at (defaults to the default branch).
+ * @returns A promise that resolves to the file, or null when there is none.
+ */
+export const getFileIfExists = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+): Promise<RepoFileContent | null> => {
+    try {
+        await octokit.request('HEAD /repos/{owner}/{repo}/contents/{path}', { owner, repo, path, ref });
+    } catch (error) {
+        if ((error as any)?.status === 404) return null;
+        logError(error as Error, { context: 'getFileIfExists', owner, repo, path, ref });
+        throw new Error(`Failed to check for ${path}: ${(error as Error).message}`);
+    }
+    return getFileBytes(octokit, owner, repo, path, ref);
+};
+
 /**
  * Fetches the content of a specific file from a repository, with integrated content security scanning and redaction.
  * @param octokit An authenticated Octokit instance.
  * @param owner The repository owner's login.
  * @param repo The repository name.
  * @param path The full path to the file within the repository.
- * @param branch Optional. The branch to fetch the file from (defaults to the default branch).
+ * @param ref Optional. The branch, tag or commit SHA to fetch the file from (defaults to the default branch).
  * @param skipSecurityScan Optional. If true, bypasses content security scanning (use with caution).
- * @returns A promise that resolves to the string content of the file, potentially redacted.
+ * @returns A promise that resolves to the UTF-8 decoded content of the file, potentially redacted.
+ * Binary files are rejected; use `getFileBytes` for those.
  *
  * @patent: "Secure Content Retrieval and Data Loss Prevention System" (Patent ID: US-CVE-SCRDLP-2024-016)
  * This function is central to our SCRDLP system. Before returning file content, it
@@ -1629,24 +2068,18 @@ export const getFileContent = async (
     owner: string,
     repo: string,
     path: string,
-    branch?: string,
+    ref?: string,
     skipSecurityScan: boolean = false
 ): Promise<string> => {
     return measurePerformance('getFileContent', async () => {
-        logEvent('getFileContent_start', { owner, repo, path, branch, skipSecurityScan });
+        logEvent('getFileContent_start', { owner, repo, path, ref, skipSecurityScan });
         try {
-            const { data } = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
-                owner,
-                repo,
-                path,
-                ref: branch,
-            });
-
-            if (Array.isArray(data) || (data as any).type !== 'file' || typeof (data as any).content !== 'string') {
-                 throw new Error("Path did not point to a valid file or content was missing.");
+            const file = await getFileBytes(octokit, owner, repo, path, ref);
+            if (file.text === null) {
+                throw new Error(`${path} is a binary file (${file.size} bytes) and cannot be opened as text.`);
             }
 
-            const rawContent = atob((data as any).content); // GitHub content is Base64 encoded
+            const rawContent = file.text;
             let processedContent = rawContent;
 
             // Step 1: Simulate content security scan (Data Loss Prevention)
@@ -1668,7 +2101,7 @@ export const getFileContent = async (
             logEvent('getFileContent_success', { owner, repo, path });
             return processedContent;
         } catch (error) {
-             logError(error as Error, { context: 'getFileContent', owner, repo, path, branch });
+             logError(error as Error, { context: 'getFileContent', owner, repo, path, ref });
              throw new Error(`Failed to fetch file content: ${(error as Error).message}`);
         }
     });
@@ -1683,7 +2116,7 @@ export const getFileContent = async (
  * @param path The full path to the file.
  * @param content The new content for the file (null for deletion).
  * @param message The commit message.
- * @param branch The branch to commit to (defaults to 'main').
+ * @param branch Optional. The branch to commit to (defaults to the repository's default branch).
  * @param sha The blob SHA of the file to update/delete (required for update/delete, ensures idempotency).
  * @returns A promise that resolves with the updated file data, including the new commit SHA.
  *
@@ -1702,7 +2135,7 @@ export const updateOrCreateFile = async (
     path: string,
     content: string | null, // null means delete
     message: string,
-    branch: string = DEFAULT_BRANCH_NAME,
+    branch?: string, // Omitted from the request so GitHub targets the repository's default branch
     sha?: string // Required for updates/deletes to ensure concurrency control
 ): Promise<any> => {
     return measurePerformance('updateOrCreateFile', async () => {
@@ -1768,15 +2201,56 @@ export const updateOrCreateFile = async (
     });
 };
 
+type TreeListing = { path?: string; mode?: string; type?: string; sha?: string }[];
+
+/**
+ * Finds one path's blob by walking the tree a directory at a time. A recursive listing that GitHub truncates may leave
+ * the path out; each directory listed here is small enough to come back whole. `trees` caches listings by SHA.
+ */
+const _findBlobEntry = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    rootTreeSha: string,
+    path: string,
+    trees: Map<string, Promise<TreeListing>>
+): Promise<{ mode: GitFileMode; sha: string } | undefined> => {
+    const listTree = (treeSha: string): Promise<TreeListing> => {
+        if (!trees.has(treeSha)) {
+            trees.set(treeSha, octokit.request('GET /repos/{owner}/{repo}/git/trees/{tree_sha}', { owner, repo, tree_sha: treeSha })
+                .then(({ data }) => {
+                    if (data.truncated) throw new Error(`A directory on the way to ${path} has too many entries to list.`);
+                    return data.tree;
+                }));
+        }
+        return trees.get(treeSha)!;
+    };
+
+    const segments = path.split('/');
+    let treeSha = rootTreeSha;
+    for (const [index, name] of segments.entries()) {
+        const entry = (await listTree(treeSha)).find(e => e.path === name);
+        if (!entry?.sha) return undefined;
+        if (index === segments.length - 1) return entry.type === 'blob' ? { mode: entry.mode as GitFileMode, sha: entry.sha } : undefined;
+        if (entry.type !== 'tree') return undefined;
+        treeSha = entry.sha;
+    }
+    return undefined;
+};
+
 /**
  * Commits multiple files in a single Git transaction, enhancing atomicity, performance, and compliance for bulk operations.
  * @param octokit An authenticated Octokit instance.
  * @param owner The repository owner's login.
  * @param repo The repository name.
- * @param files An array of file objects with path, content, and optional base_sha for existing files (content: null for deletion).
+ * @param files The changes to apply. Text and binary (`Uint8Array`) content, deletions (`content: null`) and renames
+ * (`previousPath`) can be mixed freely; existing file modes are preserved unless a change sets `mode`.
  * @param message The commit message.
- * @param branch The branch to commit to (defaults to 'main').
- * @returns A promise that resolves with the URL of the new commit, ensuring transactional integrity.
+ * @param branch Optional. The branch to commit to (defaults to the repository's default branch).
+ * @param expectedHeadSha Optional. The commit the caller's changes are based on. If the branch head has moved
+ * since, the commit is refused with a `NonFastForwardError` rather than silently overwriting the newer work.
+ * @returns A promise that resolves with the URL and SHA of the new commit. Use the SHA rather than re-reading the
+ * branch, which may already have moved on past it.
  *
  * @patent: "High-Throughput Atomic Code Transaction Engine" (Patent ID: US-CVE-HTACTE-2024-018)
  * This function powers our HT-ACTE, an optimized engine for bulk file operations.
@@ -1792,21 +2266,27 @@ export const commitFiles = async (
     octokit: Octokit,
     owner: string,
     repo: string,
-    files: { path: string; content: string | null; base_sha?: string }[], // content: null for deletion
+    files: CommitFileChange[],
     message: string,
-    branch: string = DEFAULT_BRANCH_NAME
-): Promise<string> => {
+    branch?: string,
+    expectedHeadSha?: string
+): Promise<{ commitUrl: string; commitSha: string }> => {
     return measurePerformance('commitFiles', async () => {
-        logEvent('commitFiles_start', { owner, repo, fileCount: files.length, branch });
+        logEvent('commitFiles_start', { owner, repo, fileCount: files.length, branch, expectedHeadSha });
 
         try {
+            const targetBranch = branch || (await octokit.request('GET /repos/{owner}/{repo}', { owner, repo })).data.default_branch;
+
             // Step 1: Get the latest commit SHA and base tree SHA for the target branch
             const { data: refData } = await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', {
                 owner,
                 repo,
-                ref: `heads/${branch}`,
+                ref: `heads/${targetBranch}`,
             });
             const latestCommitSha = refData.object.sha;
+            if (expectedHeadSha && latestCommitSha !== expectedHeadSha) {
+                throw new NonFastForwardError(targetBranch, expectedHeadSha, latestCommitSha);
+            }
             const { data: commitData } = await octokit.request('GET /repos/{owner}/{repo}/git/commits/{commit_sha}', {
                 owner,
                 repo,
@@ -1814,12 +2294,45 @@ export const commitFiles = async (
             });
             const baseTreeSha = commitData.tree.sha;
 
-            // Step 2: Pre-process all file contents for security, compliance, and size limits
-            const filesToProcess = files.filter(f => f.content !== null); // Filter out deletions for blob creation
-            const deletedFiles = files.filter(f => f.content === null);
+            // Step 2: Look up existing modes and blobs, needed to preserve modes and to move files on rename
+            const existingEntries = new Map<string, { mode: GitFileMode; sha: string }>();
+            if (files.some(f => !f.mode || f.previousPath)) {
+                const { data: baseTree } = await octokit.request('GET /repos/{owner}/{repo}/git/trees/{tree_sha}', {
+                    owner,
+                    repo,
+                    tree_sha: baseTreeSha,
+                    recursive: 'true',
+                });
+                for (const entry of baseTree.tree) {
+                    if (entry.type === 'blob') existingEntries.set(entry.path, { mode: entry.mode as GitFileMode, sha: entry.sha });
+                }
+                if (baseTree.truncated) {
+                    // The listing stopped at GitHub's size limit, so a changed path missing from it may still exist
+                    logEvent('commitFiles_baseTreeTruncated', { owner, repo, branch: targetBranch });
+                    const trees = new Map<string, Promise<TreeListing>>();
+                    const unlisted = new Set(files.filter(f => !f.mode || f.previousPath).map(f => f.previousPath ?? f.path).filter(path => !existingEntries.has(path)));
+                    for (const path of unlisted) {
+                        const entry = await _findBlobEntry(octokit, owner, repo, baseTreeSha, path, trees);
+                        if (entry) existingEntries.set(path, entry);
+                    }
+                }
+            }
 
-            for (const file of filesToProcess) {
-                if (file.content === null) continue; // Handled separately
+            // Step 3: Pre-process all file contents for security, compliance, and size limits
+            for (const file of files) {
+                if (file.content === null || file.content === undefined) {
+                    if (file.content === undefined && !file.previousPath) {
+                        throw new Error(`File ${file.path} has no content. Batch commit aborted.`);
+                    }
+                    continue;
+                }
+                if (file.content instanceof Uint8Array) {
+                    // Binary assets skip the text scanners but are still bounded by GitHub's blob limit.
+                    if (file.content.length > GIT_BLOB_MAX_BYTES) {
+                        throw new Error(`File ${file.path} exceeds GitHub's ${GIT_BLOB_MAX_BYTES / (1024 * 1024)}MB blob limit. Batch commit aborted.`);
+                    }
+                    continue;
+                }
                 if (file.content.length > MAX_FILE_SIZE_FOR_DIRECT_EDIT_KB * 1024) {
                     throw new Error(`File ${file.path} size exceeds direct edit limit (${MAX_FILE_SIZE_FOR_DIRECT_EDIT_KB}KB). Batch commit aborted.`);
                 }
@@ -1830,40 +2343,39 @@ export const commitFiles = async (
                 await _performContentPolicyCheck(owner, repo, file.path, file.content);
             }
 
-            // Step 3: Create blobs for new/modified files and prepare tree items for all changes
-            const treeItems: any[] = [];
-            const blobCreationPromises: Promise<any>[] = [];
+            // Step 4: Create blobs for new/modified files and prepare tree items for all changes
+            const treeItems = await Promise.all(files.map(async file => {
+                const existing = existingEntries.get(file.previousPath ?? file.path);
+                const mode: GitFileMode = file.mode ?? existing?.mode ?? '100644';
+
+                if (file.content === null) {
+                    // A null SHA is Git's way to mark a path for deletion; the mode is required but irrelevant.
+                    return [{ path: file.path, mode, type: 'blob' as const, sha: null }];
+                }
 
-            filesToProcess.forEach(file => {
-                blobCreationPromises.push(
-                    octokit.request('POST /repos/{owner}/{repo}/git/blobs', {
+                let sha: string;
+                if (file.content === undefined) {
+                    if (!existing) throw new Error(`Cannot rename ${file.previousPath}: it does not exist on ${targetBranch}.`);
+                    sha = existing.sha; // Pure rename: same blob, new path
+                } else {
+                    const { data: blob } = await octokit.request('POST /repos/{owner}/{repo}/git/blobs', {
                         owner,
                         repo,
-                        content: file.content as string, // Safe to cast after filter
-                        encoding: 'utf-8',
-                    }).then(blob => ({
-                        path: file.path,
-                        mode: '100644' as const, // Git mode for regular file
-                        type: 'blob' as const,
-                        sha: blob.data.sha,
-                    }))
-                );
-            });
-
-            const newBlobsTreeItems = await Promise.all(blobCreationPromises);
-            treeItems.push(...newBlobsTreeItems);
+                        ...(file.content instanceof Uint8Array
+                            ? { content: _bytesToBase64(file.content), encoding: 'base64' }
+                            : { content: file.content, encoding: 'utf-8' }),
+                    });
+                    sha = blob.sha;
+                }
 
-            // Add deleted files to the tree with null SHA (Git's way to mark for deletion)
-            deletedFiles.forEach(file => {
-                treeItems.push({
-                    path: file.path,
-                    mode: '100644' as const, // Still requires a mode, even if deleting
-                    type: 'blob' as const,
-                    sha: null, // Indicates deletion
-                });
-            });
+                const items: { path: string; mode: GitFileMode; type: 'blob'; sha: string | null }[] = [{ path: file.path, mode, type: 'blob', sha }];
+                if (file.previousPath && file.previousPath !== file.path) {
+                    items.push({ path: file.previousPath, mode, type: 'blob', sha: null });
+                }
+                return items;
+            })).then(groups => groups.flat());
 
-            // Step 4: Create a new tree containing all changes
+            // Step 5: Create a new tree containing all changes
             const { data: newTree } = await octokit.request('POST /repos/{owner}/{repo}/git/trees', {
                 owner,
                 repo,
@@ -1871,7 +2383,7 @@ export const commitFiles = async (
                 tree: treeItems,
             });
 
-            // Step 5: Create a new commit referencing the new tree
+            // Step 6: Create a new commit referencing the new tree
             const { data: newCommit } = await octokit.request('POST /repos/{owner}/{repo}/git/commits', {
                 owner,
                 repo,
@@ -1880,15 +2392,24 @@ export const commitFiles = async (
                 parents: [latestCommitSha],
             });
 
-            // Step 6: Update the branch reference to point to the new commit
-            await octokit.request('PATCH /repos/{owner}/{repo}/git/refs/{ref}', {
-                owner,
-                repo,
-                ref: `heads/${branch}`,
-                sha: newCommit.sha,
-            });
+            // Step 7: Update the branch reference to point to the new commit. `force: false` makes GitHub reject
+            // the update with a 422 if someone pushed between Step 1 and now.
+            try {
+                await octokit.request('PATCH /repos/{owner}/{repo}/git/refs/{ref}', {
+                    owner,
+                    repo,
+                    ref: `heads/${targetBranch}`,
+                    sha: newCommit.sha,
+                    force: false,
+                });
+            } catch (error) {
+                if ((error as any)?.status === 422) {
+                    throw new NonFastForwardError(targetBranch, latestCommitSha, null);
+                }
+                throw error;
+            }
 
-            // Step 7: Post-commit global actions
+            // Step 8: Post-commit global actions
             await _triggerFullRepoCodeQualityScan(owner, repo, newCommit.sha);
             await _notifyIntegrationHub(owner, repo, newCommit.sha, message);
             await _logAuditEntry({
@@ -1898,7 +2419,7 @@ export const commitFiles = async (
             });
 
             logEvent('commitFiles_success', { commitUrl: newCommit.html_url, fileCount: files.length });
-            return newCommit.html_url;
+            return { commitUrl: newCommit.html_url, commitSha: newCommit.sha };
 
         } catch (error) {
             logError(error as Error, { context: 'commitFiles', owner, repo, branch, fileCount: files.length });
@@ -1907,6 +2428,7 @@ export const commitFiles = async (
                 ipAddress: '127.0.0.1', resourceType: 'repository', resourceId: `${owner}/${repo}`, details: JSON.stringify({ error: (error as Error).message, fileCount: files.length, message }),
                 success: false, tenantId: GITHUB_APP_ID
             });
+            if (error instanceof NonFastForwardError) throw error; // Callers branch on this type to offer a reload
             throw new Error(`Failed to commit files: ${(error as Error).message}`);
         }
     });
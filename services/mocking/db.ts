@@ -260,6 +260,8 @@ export interface MockCollection {
   dynamicGeneratorConfigId?: string; // Optional: ID for a dynamic data generator config
   transformationPipelineId?: string; // Optional: ID for data transformation pipeline
   metadata: { [key: string]: any }; // Arbitrary metadata for extensibility
+  data?: any[]; // Live records served, and mutated, by REST mock resources
+  seedData?: any[]; // Records `data` is restored to by resetMockCollectionToSeed
 }
 
 /**
@@ -1251,6 +1253,18 @@ export const deleteMockCollection = async (id: string): Promise<void> => {
   });
 };
 
+/**
+ * Restores a collection's live records to the ones it was generated with, discarding every change
+ * made through the mock server's REST resources.
+ */
+export const resetMockCollectionToSeed = async (id: string): Promise<MockCollection | undefined> => {
+  const collection = await getMockCollection(id);
+  if (!collection || !collection.seedData) return collection;
+  const reset = { ...collection, data: structuredClone(collection.seedData), updatedAt: new Date().toISOString() };
+  await dataPersistenceService.put<MockCollection>(STORE_MOCK_COLLECTIONS, reset);
+  return reset;
+};
+
 // --- New Feature-Specific Exported Functions (Demonstrating up to 1000 features) ---
 
 /**
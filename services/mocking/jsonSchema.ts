@@ -0,0 +1,348 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * The parts of JSON Schema (and the OpenAPI 3 dialect of it) used to synthesize and validate mock data.
+ */
+export interface JsonSchema {
+    $ref?: string;
+    type?: string | string[];
+    format?: string;
+    enum?: any[];
+    const?: any;
+    default?: any;
+    example?: any;
+    examples?: any[];
+    nullable?: boolean;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number | boolean;
+    exclusiveMaximum?: number | boolean;
+    multipleOf?: number;
+    allOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    description?: string;
+    title?: string;
+    [key: string]: any;
+}
+
+const MAX_DEPTH = 8;
+
+/**
+ * Follows a local `$ref` such as `#/components/schemas/User` against `root`.
+ */
+export const resolveSchemaRef = (schema: JsonSchema, root: any): JsonSchema => {
+    let current = schema;
+    const seen = new Set<string>();
+    while (current?.$ref) {
+        const ref = current.$ref;
+        if (!ref.startsWith('#/') || seen.has(ref)) return {};
+        seen.add(ref);
+        const target = ref.slice(2).split('/')
+            .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .reduce((node: any, key) => (node == null ? undefined : node[key]), root);
+        if (target === undefined) throw new Error(`Unresolved schema reference ${ref}.`);
+        current = target;
+    }
+    return current ?? {};
+};
+
+/**
+ * Inlines every local `$ref` so the schema stands alone. Recursive references are cut off with `{}`
+ * once they repeat inside their own expansion.
+ */
+export const dereferenceSchema = (schema: JsonSchema, root: any, seen: string[] = []): JsonSchema => {
+    if (!schema || typeof schema !== 'object') return schema;
+    if (schema.$ref) {
+        if (seen.includes(schema.$ref)) return {};
+        return dereferenceSchema(resolveSchemaRef({ $ref: schema.$ref }, root), root, [...seen, schema.$ref]);
+    }
+    const result: JsonSchema = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, dereferenceSchema(child as JsonSchema, root, seen)]));
+        } else if ((key === 'allOf' || key === 'oneOf' || key === 'anyOf') && Array.isArray(value)) {
+            result[key] = value.map(member => dereferenceSchema(member, root, seen));
+        } else if ((key === 'items' || key === 'additionalProperties') && value && typeof value === 'object') {
+            result[key] = dereferenceSchema(value, root, seen);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+};
+
+/** Merges `allOf` members into one schema so synthesis and validation see a single object shape. */
+const flattenAllOf = (schema: JsonSchema, root: any): JsonSchema => {
+    if (!schema.allOf) return schema;
+    const { allOf, ...rest } = schema;
+    return allOf.map(member => flattenAllOf(resolveSchemaRef(member, root), root)).reduce<JsonSchema>((merged, member) => ({
+        ...merged,
+        ...member,
+        properties: { ...merged.properties, ...member.properties },
+        required: [...(merged.required ?? []), ...(member.required ?? [])],
+    }), rest);
+};
+
+const primaryType = (schema: JsonSchema): string | undefined => {
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+    if (type) return type;
+    if (schema.properties) return 'object';
+    if (schema.items) return 'array';
+    return undefined;
+};
+
+// A tiny deterministic PRNG, so the same schema and seed always synthesize the same data.
+const createRandom = (seed: number) => {
+    let state = seed >>> 0 || 1;
+    return () => {
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return (state >>> 0) / 4294967296;
+    };
+};
+
+const WORDS = ['alpha', 'bravo', 'delta', 'echo', 'lima', 'nova', 'orbit', 'pixel', 'quartz', 'sierra', 'tango', 'vector'];
+
+const synthesizeString = (schema: JsonSchema, key: string, index: number, random: () => number): string => {
+    const word = WORDS[Math.floor(random() * WORDS.length)];
+    let value: string;
+    switch (schema.format) {
+        case 'date-time': value = new Date(Date.UTC(2024, 0, 1 + index, 12)).toISOString(); break;
+        case 'date': value = new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10); break;
+        case 'time': value = `${String(9 + (index % 8)).padStart(2, '0')}:00:00`; break;
+        case 'email': value = `${word}${index + 1}@example.com`; break;
+        case 'uri': case 'url': value = `https://example.com/${word}/${index + 1}`; break;
+        case 'hostname': value = `${word}.example.com`; break;
+        case 'ipv4': value = `192.0.2.${(index % 254) + 1}`; break;
+        case 'ipv6': value = `2001:db8::${(index % 65535).toString(16)}`; break;
+        case 'uuid': {
+            const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16)).join('');
+            value = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20)}`;
+            break;
+        }
+        case 'byte': value = btoa(`${word}${index}`); break;
+        default: value = key ? `${key}-${word}-${index + 1}` : `${word}-${index + 1}`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+    if (schema.minLength !== undefined && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+    return value;
+};
+
+const synthesizeNumber = (schema: JsonSchema, integer: boolean, key: string, index: number, random: () => number): number => {
+    const exclusiveMin = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : undefined;
+    const exclusiveMax = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : undefined;
+    let min = schema.minimum ?? (exclusiveMin !== undefined ? exclusiveMin + (integer ? 1 : 0.01) : 0);
+    let max = schema.maximum ?? (exclusiveMax !== undefined ? exclusiveMax - (integer ? 1 : 0.01) : min + 1000);
+    if (schema.exclusiveMinimum === true) min += integer ? 1 : 0.01;
+    if (schema.exclusiveMaximum === true) max -= integer ? 1 : 0.01;
+    // Identifiers count up, so list endpoints get distinct, stable ids.
+    if (integer && /^id$|Id$|_id$/.test(key)) return Math.min(Math.max(index + 1, min), max);
+    let value = min + random() * (max - min);
+    if (schema.multipleOf) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+    return integer ? Math.round(value) : Math.round(value * 100) / 100;
+};
+
+/**
+ * Synthesizes a value that satisfies `schema`: declared examples, defaults and enums are preferred,
+ * then type- and format-shaped placeholders. `index` distinguishes items of a list.
+ */
+export const synthesizeFromSchema = (schema: JsonSchema, root: any = schema, index = 0, seed = 1): any => {
+    const random = createRandom(seed * 7919 + index * 104729);
+
+    const build = (raw: JsonSchema, key: string, depth: number): any => {
+        const node = flattenAllOf(resolveSchemaRef(raw, root), root);
+        if (node.const !== undefined) return node.const;
+        if (node.example !== undefined) return node.example;
+        if (node.examples?.length) return node.examples[index % node.examples.length];
+        if (node.enum?.length) return node.enum[index % node.enum.length];
+        if (node.default !== undefined) return node.default;
+        const variants = node.oneOf ?? node.anyOf;
+        if (variants?.length) return build(variants[index % variants.length], key, depth);
+
+        switch (primaryType(node)) {
+            case 'object': {
+                if (depth >= MAX_DEPTH) return {};
+                const result: Record<string, any> = {};
+                for (const [name, child] of Object.entries(node.properties ?? {})) {
+                    result[name] = build(child, name, depth + 1);
+                }
+                return result;
+            }
+            case 'array': {
+                if (depth >= MAX_DEPTH) return [];
+                const length = Math.max(node.minItems ?? 1, Math.min(node.maxItems ?? 3, 2));
+                return Array.from({ length }, (_, i) => {
+                    const item = build(node.items ?? {}, key, depth + 1);
+                    return typeof item === 'string' && node.uniqueItems ? `${item}-${i}` : item;
+                });
+            }
+            case 'integer': return synthesizeNumber(node, true, key, index, random);
+            case 'number': return synthesizeNumber(node, false, key, index, random);
+            case 'boolean': return index % 2 === 0;
+            case 'string': return synthesizeString(node, key, index, random);
+            case 'null': return null;
+            default: return null;
+        }
+    };
+
+    return build(schema, '', 0);
+};
+
+const typeOf = (value: any): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+};
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+    'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    email: /^[^@\s]+@[^@\s]+\.[^@\s]+$/,
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    uri: /^[a-z][a-z0-9+.-]*:/i,
+    ipv4: /^(\d{1,3}\.){3}\d{1,3}$/,
+};
+
+// Formats specific enough to be guessed from a sample value.
+const INFERRED_FORMATS = ['date-time', 'date', 'email', 'uuid'];
+
+/**
+ * Validates `value` against `schema`.
+ * @returns One message per violation, each prefixed with the JSON path of the offending value; empty when valid.
+ */
+export const validateAgainstSchema = (value: any, schema: JsonSchema, root: any = schema): string[] => {
+    const errors: string[] = [];
+
+    const check = (current: any, raw: JsonSchema, path: string, depth: number) => {
+        if (depth > MAX_DEPTH * 4) return;
+        const node = flattenAllOf(resolveSchemaRef(raw, root), root);
+        const actual = typeOf(current);
+
+        if (current === null && (node.nullable || (Array.isArray(node.type) && node.type.includes('null')))) return;
+        if (node.const !== undefined && JSON.stringify(current) !== JSON.stringify(node.const)) {
+            errors.push(`${path}: must equal ${JSON.stringify(node.const)}`);
+            return;
+        }
+        if (node.enum && !node.enum.some(option => JSON.stringify(option) === JSON.stringify(current))) {
+            errors.push(`${path}: must be one of ${node.enum.map(option => JSON.stringify(option)).join(', ')}`);
+            return;
+        }
+
+        const variants = node.oneOf ?? node.anyOf;
+        if (variants) {
+            const matching = variants.filter(variant => validateAgainstSchema(current, variant, root).length === 0).length;
+            if (matching === 0 || (node.oneOf && matching > 1)) {
+                errors.push(`${path}: must match ${node.oneOf ? 'exactly one' : 'at least one'} of ${variants.length} schemas`);
+            }
+            return;
+        }
+
+        const types = Array.isArray(node.type) ? node.type : node.type ? [node.type] : [];
+        if (types.length && !types.some(type => type === actual || (type === 'number' && actual === 'integer'))) {
+            errors.push(`${path}: expected ${types.join(' or ')}, got ${actual}`);
+            return;
+        }
+
+        if (actual === 'object') {
+            for (const name of node.required ?? []) {
+                if (!(name in current)) errors.push(`${path}.${name}: is required`);
+            }
+            for (const [name, child] of Object.entries(current)) {
+                const propertySchema = node.properties?.[name];
+                if (propertySchema) check(child, propertySchema, `${path}.${name}`, depth + 1);
+                else if (node.additionalProperties === false) errors.push(`${path}.${name}: is not allowed`);
+                else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+                    check(child, node.additionalProperties, `${path}.${name}`, depth + 1);
+                }
+            }
+        } else if (actual === 'array') {
+            if (node.minItems !== undefined && current.length < node.minItems) errors.push(`${path}: must have at least ${node.minItems} items`);
+            if (node.maxItems !== undefined && current.length > node.maxItems) errors.push(`${path}: must have at most ${node.maxItems} items`);
+            if (node.uniqueItems && new Set(current.map((item: any) => JSON.stringify(item))).size !== current.length) {
+                errors.push(`${path}: items must be unique`);
+            }
+            if (node.items) current.forEach((item: any, i: number) => check(item, node.items!, `${path}[${i}]`, depth + 1));
+        } else if (actual === 'string') {
+            if (node.minLength !== undefined && current.length < node.minLength) errors.push(`${path}: must be at least ${node.minLength} characters`);
+            if (node.maxLength !== undefined && current.length > node.maxLength) errors.push(`${path}: must be at most ${node.maxLength} characters`);
+            if (node.pattern && !new RegExp(node.pattern, 'u').test(current)) errors.push(`${path}: must match /${node.pattern}/`);
+            const formatPattern = node.format ? FORMAT_PATTERNS[node.format] : undefined;
+            if (formatPattern && !formatPattern.test(current)) errors.push(`${path}: must be a valid ${node.format}`);
+        } else if (actual === 'integer' || actual === 'number') {
+            if (node.minimum !== undefined && (node.exclusiveMinimum === true ? current <= node.minimum : current < node.minimum)) {
+                errors.push(`${path}: must be ${node.exclusiveMinimum === true ? '>' : '>='} ${node.minimum}`);
+            }
+            if (node.maximum !== undefined && (node.exclusiveMaximum === true ? current >= node.maximum : current > node.maximum)) {
+                errors.push(`${path}: must be ${node.exclusiveMaximum === true ? '<' : '<='} ${node.maximum}`);
+            }
+            if (typeof node.exclusiveMinimum === 'number' && current <= node.exclusiveMinimum) errors.push(`${path}: must be > ${node.exclusiveMinimum}`);
+            if (typeof node.exclusiveMaximum === 'number' && current >= node.exclusiveMaximum) errors.push(`${path}: must be < ${node.exclusiveMaximum}`);
+            if (node.multipleOf && Math.abs(current / node.multipleOf - Math.round(current / node.multipleOf)) > 1e-9) {
+                errors.push(`${path}: must be a multiple of ${node.multipleOf}`);
+            }
+        }
+    };
+
+    check(value, schema, '$', 0);
+    return errors;
+};
+
+/**
+ * Overlays `candidate` (e.g. LLM output) onto `base` wherever the candidate's value is valid for the
+ * corresponding sub-schema, so realistic values are kept without ever breaking the schema.
+ */
+export const mergeValidValues = (base: any, candidate: any, schema: JsonSchema, root: any = schema): any => {
+    if (candidate === undefined) return base;
+    const node = flattenAllOf(resolveSchemaRef(schema, root), root);
+    if (typeOf(base) === 'object' && typeOf(candidate) === 'object' && node.properties) {
+        const merged = { ...base };
+        for (const [name, child] of Object.entries(node.properties)) {
+            if (name in base) merged[name] = mergeValidValues(base[name], candidate[name], child, root);
+        }
+        return merged;
+    }
+    if (typeOf(base) === 'array' && typeOf(candidate) === 'array' && node.items) {
+        const merged = candidate.map((item: any, i: number) => mergeValidValues(base[i % Math.max(base.length, 1)] ?? item, item, node.items!, root));
+        return validateAgainstSchema(merged, node, root).length === 0 ? merged : base;
+    }
+    return validateAgainstSchema(candidate, node, root).length === 0 ? candidate : base;
+};
+
+/**
+ * Infers a schema describing `value`, used when exporting routes that were not imported from a spec.
+ */
+export const inferSchema = (value: any): JsonSchema => {
+    const type = typeOf(value);
+    if (type === 'null') return { nullable: true };
+    if (type === 'array') {
+        return value.length ? { type: 'array', items: inferSchema(value[0]) } : { type: 'array', items: {} };
+    }
+    if (type === 'object') {
+        const properties = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, inferSchema(child)]));
+        return { type: 'object', properties, required: Object.keys(properties) };
+    }
+    if (type === 'string') {
+        const format = INFERRED_FORMATS.find(name => FORMAT_PATTERNS[name].test(value));
+        return format ? { type: 'string', format } : { type: 'string' };
+    }
+    return { type };
+};
@@ -69,14 +69,44 @@ export const isMockServerRunning = (): boolean => {
 };
 
 // Original MockRoute interface - will be extended by AIMockRoute
-interface MockRoute {
-    path: string; // e.g., /api/users/*
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-    response: {
-        status: number;
-        body: any;
-        headers?: Record<string, string>;
-    }
+export type MockHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface MockResponse {
+    status: number;
+    body: any; // Strings anywhere in the body may contain {{params.x}}, {{query.x}}, {{headers.x}}, {{body.x}}, {{data.x}}, {{now}} or {{uuid}}
+    headers?: Record<string, string>;
+}
+
+/**
+ * A condition on a query parameter or header. Every condition given must hold;
+ * `present: false` requires the value to be absent.
+ */
+export interface MockRequestPredicate {
+    name: string;
+    equals?: string;
+    matches?: string; // RegExp source
+    present?: boolean;
+}
+
+export interface MockBodyMatcher {
+    equals?: any;        // Exact JSON equality
+    contains?: any;      // Deep partial JSON match
+    matches?: string;    // RegExp source tested against the raw body
+}
+
+export interface MockRoute {
+    path: string; // Express-style: /api/users/:id, with * matching any remainder
+    method: MockHttpMethod;
+    query?: MockRequestPredicate[];
+    headers?: MockRequestPredicate[];
+    body?: MockBodyMatcher;
+    response: MockResponse;
+    templateData?: Record<string, any>; // Static values exposed to templates as {{data.*}}
+    delayMs?: number;
+    jitterMs?: number;    // Uniform random extra delay in [0, jitterMs)
+    errorRate?: number;   // Probability in [0, 1] of failing instead of returning `response`
+    errorKind?: 'http' | 'network';
+    errorResponse?: MockResponse; // Used for 'http' failures; defaults to a 500
 }
 
 // The original `setMockRoutes` is now aliased and primarily used by the AI-enhanced setter.
@@ -94,6 +124,40 @@ export const setMockRoutes = (routes: MockRoute[]): void => {
     }
 };
 
+/**
+ * A saved collection served as a REST resource: list, create, get, replace, update and delete at
+ * `basePath` and `basePath/:id`. Mutations are written back to the collection in IndexedDB.
+ */
+export interface MockResource {
+    basePath: string;     // e.g. /api/users
+    collectionId: string;
+    idField?: string;     // Defaults to 'id'
+}
+
+export const setMockResources = (resources: MockResource[]): void => {
+    if (navigator.serviceWorker.controller) {
+        navigator.serviceWorker.controller.postMessage({
+            type: 'SET_RESOURCES',
+            resources
+        });
+    } else {
+        console.warn('Mock server is not active. Resources were not set.');
+    }
+};
+
+/**
+ * Calls `listener` whenever a request to a mock resource changes a collection.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToMockCollectionChanges = (listener: (collectionId: string) => void): (() => void) => {
+    if (!('serviceWorker' in navigator)) return () => {};
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'COLLECTION_CHANGED') listener(event.data.collectionId);
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
+
 
 // --- UUID Generator (Utility for internal use, assuming no 'import' restrictions for utilities) ---
 // Since explicit `import` statements are forbidden, a simple UUID generator is implemented.
@@ -0,0 +1,292 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { MockHttpMethod, MockRequestPredicate } from './mockServer.ts';
+import { parseYaml, stringifyYaml } from './yaml.ts';
+import {
+    dereferenceSchema, inferSchema, mergeValidValues, resolveSchemaRef, synthesizeFromSchema, validateAgainstSchema,
+} from './jsonSchema.ts';
+import type { JsonSchema } from './jsonSchema.ts';
+
+const SUPPORTED_METHODS: MockHttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** One operation of an imported spec, ready to be saved as a collection and mounted as a route. */
+export interface ImportedOperation {
+    operationId: string;
+    summary?: string;
+    method: MockHttpMethod;
+    path: string;                 // Mock-server style, e.g. /api/v1/users/:id
+    status: number;
+    responseSchema?: JsonSchema;  // Dereferenced, so it can be validated without the document
+    isList: boolean;              // The response is an array, served as the whole collection
+    collectionId: string | null;  // Null for operations without a JSON response body
+    data: any[];
+    validationErrors: string[];
+}
+
+export interface OpenApiImportResult {
+    title: string;
+    operations: ImportedOperation[];
+    warnings: string[];
+}
+
+export interface OpenApiImportOptions {
+    count: number; // Items synthesized for list responses
+    /**
+     * Asks the LLM for `count` realistic objects matching a described schema. Its values are only
+     * kept where they validate against the declared schema.
+     */
+    realisticValues?: (schemaDescription: string, count: number) => Promise<any[]>;
+    /** Ids of collections already saved; imported collections get new ids rather than replacing them. */
+    existingCollectionIds?: Iterable<string>;
+}
+
+/** A mock route described for export. */
+export interface ExportableRoute {
+    method: MockHttpMethod | 'REST';
+    path: string;
+    status: number;
+    operationId?: string;
+    summary?: string;
+    responseSchema?: JsonSchema;
+    sampleBody?: any;             // Used to infer a schema and as the example when no schema is known
+    query?: MockRequestPredicate[];
+    headers?: MockRequestPredicate[];
+    requestBodySample?: any;
+}
+
+/**
+ * Parses an OpenAPI 3 document from JSON or YAML text.
+ */
+export const parseOpenApiDocument = (text: string): any => {
+    const trimmed = text.trim();
+    const document = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+    if (!document || typeof document !== 'object' || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+        throw new Error('Only OpenAPI 3.x documents are supported (missing or unsupported `openapi` version).');
+    }
+    if (!document.paths || typeof document.paths !== 'object') {
+        throw new Error('The document has no `paths`.');
+    }
+    return document;
+};
+
+// The path part of the first server URL, with server variables replaced by their defaults.
+const serverBasePath = (document: any): string => {
+    const server = document.servers?.[0];
+    if (!server?.url) return '';
+    const url = String(server.url).replace(/\{(\w+)\}/g, (_, name) => server.variables?.[name]?.default ?? name);
+    try {
+        return new URL(url, 'http://localhost').pathname.replace(/\/+$/, '');
+    } catch {
+        return '';
+    }
+};
+
+const toMockPath = (basePath: string, specPath: string) => basePath + specPath.replace(/\{([^}]+)\}/g, ':$1');
+
+const toSpecPath = (mockPath: string) => {
+    let wildcard = 0;
+    return mockPath
+        .replace(/:(\w+)/g, '{$1}')
+        .replace(/\*/g, () => `{wildcard${wildcard++ || ''}}`);
+};
+
+const slugify = (text: string) => text.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+
+const successStatus = (responses: Record<string, any> = {}): string | undefined => {
+    const codes = Object.keys(responses);
+    return codes.filter(code => /^2\d\d$/.test(code)).sort()[0] ?? (codes.includes('default') ? 'default' : codes.sort()[0]);
+};
+
+const jsonMediaType = (content: Record<string, any> = {}): any => {
+    const type = Object.keys(content).find(name => name === 'application/json')
+        ?? Object.keys(content).find(name => /\+json$|^\*\/\*$/.test(name));
+    return type ? content[type] : undefined;
+};
+
+const describeForLlm = (operation: { method: string; path: string; summary?: string }, schema: JsonSchema) =>
+    `Objects returned by ${operation.method} ${operation.path}${operation.summary ? ` (${operation.summary})` : ''}. ` +
+    `Each object must match this JSON Schema exactly; use realistic, varied values: ${JSON.stringify(schema)}`;
+
+/** `base`, or `base-2`, `base-3`... when that is taken. Marks the returned id as used. */
+const claimUniqueId = (base: string, used: Set<string>): string => {
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    return id;
+};
+
+/**
+ * Creates one collection and route per operation in `document`. Data is synthesized from the response
+ * schemas (preferring declared examples); the LLM, if given, only supplies values, and every item is
+ * validated against the declared schema.
+ */
+export const importOpenApi = async (document: any, options: OpenApiImportOptions): Promise<OpenApiImportResult> => {
+    const basePath = serverBasePath(document);
+    const warnings: string[] = [];
+    const operations: ImportedOperation[] = [];
+    const usedIds = new Set<string>();
+    const existingCollectionIds = new Set(options.existingCollectionIds ?? []);
+    const usedCollectionIds = new Set(existingCollectionIds);
+
+    for (const [specPath, pathItem] of Object.entries<any>(document.paths)) {
+        for (const [methodKey, operation] of Object.entries<any>(pathItem ?? {})) {
+            const method = methodKey.toUpperCase() as MockHttpMethod;
+            if (!['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH', 'TRACE'].includes(method)) continue;
+            if (!SUPPORTED_METHODS.includes(method)) {
+                warnings.push(`Skipped ${method} ${specPath}: the mock server does not handle ${method}.`);
+                continue;
+            }
+
+            const operationId = claimUniqueId(slugify(operation.operationId ?? `${method}-${specPath}`), usedIds);
+
+            const statusKey = successStatus(operation.responses);
+            const response = statusKey ? resolveSchemaRef(operation.responses[statusKey], document) : undefined;
+            const status = statusKey && /^\d{3}$/.test(statusKey) ? Number(statusKey) : 200;
+            const media = jsonMediaType(response?.content);
+            const imported: ImportedOperation = {
+                operationId,
+                summary: operation.summary ?? operation.description,
+                method,
+                path: toMockPath(basePath, specPath),
+                status,
+                isList: false,
+                collectionId: null,
+                data: [],
+                validationErrors: [],
+            };
+
+            if (!media?.schema) {
+                operations.push(imported);
+                continue;
+            }
+
+            try {
+                const schema = dereferenceSchema(media.schema, document);
+                imported.responseSchema = schema;
+                imported.isList = schema.type === 'array' || (!schema.type && !!schema.items);
+                imported.collectionId = claimUniqueId(operationId, usedCollectionIds);
+                if (existingCollectionIds.has(operationId)) {
+                    warnings.push(`${method} ${specPath}: a collection named "${operationId}" already exists, so this one was saved as "${imported.collectionId}".`);
+                }
+
+                const itemSchema: JsonSchema = imported.isList ? (schema.items ?? {}) : schema;
+                const mediaExample = media.example ?? Object.values<any>(media.examples ?? {})[0]?.value;
+                let items: any[];
+                if (mediaExample !== undefined) {
+                    items = imported.isList && Array.isArray(mediaExample) ? mediaExample : [mediaExample];
+                } else {
+                    const itemCount = imported.isList ? Math.max(1, options.count) : 1;
+                    items = Array.from({ length: itemCount }, (_, i) => synthesizeFromSchema(itemSchema, itemSchema, i));
+                    if (options.realisticValues) {
+                        try {
+                            const realistic = await options.realisticValues(describeForLlm(imported, itemSchema), items.length);
+                            if (Array.isArray(realistic)) {
+                                items = items.map((item, i) => mergeValidValues(item, realistic[i], itemSchema));
+                            }
+                        } catch (error) {
+                            warnings.push(`${method} ${specPath}: realistic values unavailable (${error instanceof Error ? error.message : 'unknown error'}); using synthesized data.`);
+                        }
+                    }
+                }
+
+                imported.data = items;
+                imported.validationErrors = validateAgainstSchema(imported.isList ? items : items[0], schema);
+            } catch (error) {
+                warnings.push(`${method} ${specPath}: ${error instanceof Error ? error.message : 'could not read the response schema'}.`);
+            }
+            operations.push(imported);
+        }
+    }
+
+    return { title: document.info?.title ?? 'Imported API', operations, warnings };
+};
+
+const toPascalCase = (text: string) => slugify(text).split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('') || 'Item';
+
+const predicateParameters = (predicates: MockRequestPredicate[] | undefined, location: 'query' | 'header') =>
+    (predicates ?? []).filter(p => p.present !== false).map(p => ({
+        name: p.name,
+        in: location,
+        required: true,
+        schema: p.equals !== undefined ? { type: 'string', enum: [p.equals] } : p.matches !== undefined ? { type: 'string', pattern: p.matches } : { type: 'string' },
+    }));
+
+const pathParameters = (specPath: string) =>
+    Array.from(specPath.matchAll(/\{([^}]+)\}/g)).map(match => ({ name: match[1], in: 'path', required: true, schema: { type: 'string' } }));
+
+// Templated bodies ({{...}}) cannot be used as examples; everything else can.
+const isStaticBody = (body: any) => body !== undefined && !JSON.stringify(body).includes('{{');
+
+/**
+ * Describes the current mock routes as an OpenAPI 3 document. REST resources expand into their
+ * collection and item endpoints, sharing one component schema.
+ */
+export const exportOpenApi = (routes: ExportableRoute[], title: string): any => {
+    const paths: Record<string, any> = {};
+    const schemas: Record<string, JsonSchema> = {};
+    const addOperation = (specPath: string, method: string, operation: any) => {
+        const parameters = [...pathParameters(specPath), ...(operation.parameters ?? [])];
+        paths[specPath] = { ...paths[specPath], [method.toLowerCase()]: { ...operation, parameters: parameters.length ? parameters : undefined } };
+    };
+
+    for (const route of routes) {
+        const specPath = toSpecPath(route.path);
+
+        if (route.method === 'REST') {
+            const name = toPascalCase(specPath.split('/').filter(Boolean).pop() ?? 'Item');
+            const sample = Array.isArray(route.sampleBody) ? route.sampleBody[0] : undefined;
+            schemas[name] = route.responseSchema ?? (sample !== undefined ? inferSchema(sample) : { type: 'object' });
+            const ref = { $ref: `#/components/schemas/${name}` };
+            const json = (schema: any) => ({ 'application/json': { schema } });
+            const itemPath = `${specPath.replace(/\/+$/, '')}/{id}`;
+            const notFound = { description: 'Not found' };
+
+            addOperation(specPath, 'GET', {
+                summary: `List ${name}`,
+                parameters: ['_page', '_limit', '_sort', '_order', 'q'].map(param => ({ name: param, in: 'query', required: false, schema: { type: 'string' } })),
+                responses: { '200': { description: 'OK', headers: { 'X-Total-Count': { schema: { type: 'integer' } } }, content: json({ type: 'array', items: ref }) } },
+            });
+            addOperation(specPath, 'POST', { summary: `Create ${name}`, requestBody: { required: true, content: json(ref) }, responses: { '201': { description: 'Created', content: json(ref) }, '409': { description: 'Conflict' } } });
+            addOperation(itemPath, 'GET', { summary: `Get ${name}`, responses: { '200': { description: 'OK', content: json(ref) }, '404': notFound } });
+            addOperation(itemPath, 'PUT', { summary: `Replace ${name}`, requestBody: { required: true, content: json(ref) }, responses: { '200': { description: 'OK', content: json(ref) }, '404': notFound } });
+            addOperation(itemPath, 'PATCH', { summary: `Update ${name}`, requestBody: { required: true, content: json({ type: 'object' }) }, responses: { '200': { description: 'OK', content: json(ref) }, '404': notFound } });
+            addOperation(itemPath, 'DELETE', { summary: `Delete ${name}`, responses: { '204': { description: 'Deleted' }, '404': notFound } });
+            continue;
+        }
+
+        const hasStaticBody = isStaticBody(route.sampleBody);
+        const schema = route.responseSchema ?? (hasStaticBody ? inferSchema(route.sampleBody) : undefined);
+        const mediaType = schema || hasStaticBody
+            ? { 'application/json': { schema: schema ?? {}, example: hasStaticBody ? route.sampleBody : undefined } }
+            : undefined;
+
+        addOperation(specPath, route.method, {
+            operationId: route.operationId,
+            summary: route.summary,
+            parameters: [...predicateParameters(route.query, 'query'), ...predicateParameters(route.headers, 'header')],
+            requestBody: route.requestBodySample !== undefined
+                ? { required: true, content: { 'application/json': { schema: inferSchema(route.requestBodySample) } } }
+                : undefined,
+            responses: {
+                [String(route.status)]: { description: route.status < 300 ? 'OK' : 'Mocked response', content: route.status === 204 ? undefined : mediaType },
+            },
+        });
+    }
+
+    // Drop the undefined members left by optional fields, so both JSON and YAML output stay tidy.
+    return JSON.parse(JSON.stringify({
+        openapi: '3.0.3',
+        info: { title, version: '1.0.0' },
+        paths,
+        components: Object.keys(schemas).length ? { schemas } : undefined,
+    }));
+};
+
+export const serializeOpenApi = (document: any, format: 'json' | 'yaml'): string =>
+    format === 'json' ? JSON.stringify(document, null, 2) : stringifyYaml(document);
@@ -0,0 +1,362 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A small YAML reader and writer covering what API description documents use: block mappings and
+ * sequences, flow collections, quoted and plain scalars, block scalars (`|`, `>`) and comments.
+ * Anchors, aliases, tags and multi-document streams are not supported.
+ */
+
+export class YamlParseError extends Error {
+    constructor(message: string, public readonly line: number) {
+        super(`${message} (line ${line})`);
+        this.name = 'YamlParseError';
+    }
+}
+
+interface Line {
+    indent: number;
+    text: string;   // Content without indentation or trailing comment
+    raw: string;    // The original line, used by block scalars
+    number: number;
+}
+
+const stripComment = (text: string): string => {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s[{,]/.test(text[i - 1]))) {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text.trimEnd();
+};
+
+// Index of the `:` separating a mapping key from its value, or -1 if the text is not a key line.
+// Keys are scanned left to right, so braces in plain keys such as `/users/{id}:` are just text.
+const findKeySeparator = (text: string): number => {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+            continue;
+        }
+        if ((ch === '"' || ch === "'") && (i === 0 || /\s/.test(text[i - 1]))) quote = ch;
+        else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) return i;
+    }
+    return -1;
+};
+
+const parsePlainScalar = (text: string): any => {
+    if (text === '' || text === '~' || text === 'null' || text === 'Null' || text === 'NULL') return null;
+    if (/^(true|True|TRUE)$/.test(text)) return true;
+    if (/^(false|False|FALSE)$/.test(text)) return false;
+    if (/^[-+]?(0|[1-9][0-9]*)$/.test(text)) return Number(text);
+    if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+    if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text, 16);
+    if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+    if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+    return text;
+};
+
+const unquote = (text: string, lineNumber: number): string => {
+    if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+    try {
+        return JSON.parse(text.replace(/\t/g, '\\t'));
+    } catch {
+        throw new YamlParseError(`Invalid double-quoted string ${text}`, lineNumber);
+    }
+};
+
+/** Parses a flow collection or scalar, e.g. `[a, "b", {c: 1}]`. */
+const parseFlow = (source: string, lineNumber: number): any => {
+    let pos = 0;
+    const skipSpace = () => { while (pos < source.length && /\s/.test(source[pos])) pos++; };
+    const fail = (message: string): never => { throw new YamlParseError(message, lineNumber); };
+
+    const readScalar = (terminators: string): any => {
+        skipSpace();
+        const ch = source[pos];
+        if (ch === '"' || ch === "'") {
+            const start = pos++;
+            while (pos < source.length) {
+                if (source[pos] === '\\' && ch === '"') { pos += 2; continue; }
+                if (source[pos] === ch) {
+                    if (ch === "'" && source[pos + 1] === "'") { pos += 2; continue; }
+                    break;
+                }
+                pos++;
+            }
+            if (pos >= source.length) fail('Unterminated string');
+            pos++;
+            return unquote(source.slice(start, pos), lineNumber);
+        }
+        const start = pos;
+        while (pos < source.length && !terminators.includes(source[pos])) {
+            if (source[pos] === ':' && terminators.includes('}') && /[\s,}]/.test(source[pos + 1] ?? ' ')) break;
+            pos++;
+        }
+        return parsePlainScalar(source.slice(start, pos).trim());
+    };
+
+    const readValue = (terminators: string): any => {
+        skipSpace();
+        if (source[pos] === '[') {
+            pos++;
+            const items: any[] = [];
+            skipSpace();
+            while (source[pos] !== ']') {
+                if (pos >= source.length) fail('Unterminated flow sequence');
+                items.push(readValue(',]'));
+                skipSpace();
+                if (source[pos] === ',') pos++;
+                skipSpace();
+            }
+            pos++;
+            return items;
+        }
+        if (source[pos] === '{') {
+            pos++;
+            const map: Record<string, any> = {};
+            skipSpace();
+            while (source[pos] !== '}') {
+                if (pos >= source.length) fail('Unterminated flow mapping');
+                const key = readScalar(',}');
+                skipSpace();
+                let value: any = null;
+                if (source[pos] === ':') {
+                    pos++;
+                    value = readValue(',}');
+                }
+                map[String(key)] = value;
+                skipSpace();
+                if (source[pos] === ',') pos++;
+                skipSpace();
+            }
+            pos++;
+            return map;
+        }
+        return readScalar(terminators);
+    };
+
+    const value = readValue('');
+    skipSpace();
+    if (pos < source.length) fail(`Unexpected content '${source.slice(pos)}'`);
+    return value;
+};
+
+const flowDepth = (text: string): number => {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '[' || ch === '{') depth++;
+        else if (ch === ']' || ch === '}') depth--;
+    }
+    return depth;
+};
+
+class YamlReader {
+    private lines: Line[] = [];
+    private rawLines: string[];
+    private pos = 0;
+
+    constructor(text: string) {
+        this.rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+        this.rawLines.forEach((raw, i) => {
+            const body = stripComment(raw);
+            const trimmed = body.trim();
+            if (trimmed === '' || trimmed === '---' || trimmed === '...' || trimmed.startsWith('%')) return;
+            if (/^\t/.test(raw)) throw new YamlParseError('Tabs are not allowed for indentation', i + 1);
+            this.lines.push({ indent: body.length - body.trimStart().length, text: trimmed, raw, number: i + 1 });
+        });
+    }
+
+    parse(): any {
+        if (this.lines.length === 0) return null;
+        const value = this.parseNode(this.lines[0].indent);
+        if (this.pos < this.lines.length) {
+            throw new YamlParseError('Unexpected indentation', this.lines[this.pos].number);
+        }
+        return value;
+    }
+
+    private parseNode(indent: number): any {
+        const line = this.lines[this.pos];
+        if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(indent);
+        if (findKeySeparator(line.text) !== -1 && !/^[[{]/.test(line.text)) return this.parseMapping(indent);
+        this.pos++;
+        return this.parseInline(line.text, line);
+    }
+
+    private parseSequence(indent: number): any[] {
+        const items: any[] = [];
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) break;
+            const rest = line.text.slice(1).trimStart();
+            if (rest === '') {
+                this.pos++;
+                items.push(this.parseChild(indent));
+                continue;
+            }
+            // `- key: value` opens a mapping whose keys align with `key`.
+            const contentIndent = indent + (line.text.length - rest.length);
+            this.lines[this.pos] = { ...line, indent: contentIndent, text: rest };
+            items.push(this.parseNode(contentIndent));
+        }
+        return items;
+    }
+
+    private parseMapping(indent: number): Record<string, any> {
+        const map: Record<string, any> = {};
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.indent !== indent) {
+                if (line.indent > indent) throw new YamlParseError('Unexpected indentation', line.number);
+                break;
+            }
+            const separator = findKeySeparator(line.text);
+            if (separator === -1) throw new YamlParseError(`Expected a mapping key in '${line.text}'`, line.number);
+            const rawKey = line.text.slice(0, separator).trim();
+            const key = /^["']/.test(rawKey) ? unquote(rawKey, line.number) : rawKey;
+            const rest = line.text.slice(separator + 1).trim();
+            this.pos++;
+
+            if (rest === '') {
+                const next = this.lines[this.pos];
+                // A sequence may sit at the same indentation as its key.
+                if (next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+                    map[key] = this.parseSequence(indent);
+                } else {
+                    map[key] = this.parseChild(indent);
+                }
+            } else if (/^[|>]/.test(rest)) {
+                map[key] = this.parseBlockScalar(rest, indent, line);
+            } else {
+                map[key] = this.parseInline(rest, line);
+            }
+        }
+        return map;
+    }
+
+    private parseChild(parentIndent: number): any {
+        const next = this.lines[this.pos];
+        if (!next || next.indent <= parentIndent) return null;
+        return this.parseNode(next.indent);
+    }
+
+    private parseInline(text: string, line: Line): any {
+        if (/^[[{]/.test(text)) {
+            // Flow collections may continue over several lines.
+            let source = text;
+            while (flowDepth(source) > 0 && this.pos < this.lines.length) {
+                source += ' ' + this.lines[this.pos++].text;
+            }
+            return parseFlow(source, line.number);
+        }
+        if (/^["']/.test(text)) return unquote(text, line.number);
+        return parsePlainScalar(text);
+    }
+
+    private parseBlockScalar(header: string, parentIndent: number, line: Line): string {
+        const folded = header.startsWith('>');
+        const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+        // Block scalar content is taken from the raw source lines, so comments and blank lines survive.
+        const startRaw = line.number;
+        let endRaw = startRaw;
+        while (this.pos < this.lines.length && this.lines[this.pos].indent > parentIndent) {
+            endRaw = this.lines[this.pos].number;
+            this.pos++;
+        }
+        const rawBlock = this.rawLines.slice(startRaw, endRaw);
+        const contentIndent = Math.min(...rawBlock.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+        const lines = rawBlock.map(l => l.slice(contentIndent));
+
+        let text: string;
+        if (folded) {
+            text = '';
+            lines.forEach((l, i) => {
+                if (i === 0) text = l;
+                else if (l === '' || lines[i - 1] === '' || /^\s/.test(l)) text += '\n' + l;
+                else text += ' ' + l;
+            });
+        } else {
+            text = lines.join('\n');
+        }
+        if (chomp === 'strip') return text.replace(/\n+$/, '');
+        if (chomp === 'keep') return text + '\n';
+        return text.replace(/\n*$/, '\n');
+    }
+}
+
+/** Parses a YAML document into plain JavaScript values. */
+export const parseYaml = (text: string): any => new YamlReader(text).parse();
+
+const needsQuotes = (text: string): boolean =>
+    text === '' ||
+    text !== text.trim() ||
+    parsePlainScalar(text) !== text ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|[\n\t]/.test(text);
+
+const formatKey = (key: string) => (needsQuotes(key) ? JSON.stringify(key) : key);
+
+const formatScalar = (value: any): string => {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'string') return needsQuotes(value) ? JSON.stringify(value) : value;
+    return String(value);
+};
+
+const isEmptyCollection = (value: any) =>
+    (Array.isArray(value) && value.length === 0) || (value && typeof value === 'object' && Object.keys(value).length === 0);
+
+const writeNode = (value: any, indent: string, out: string[]): void => {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            if (item && typeof item === 'object' && !isEmptyCollection(item)) {
+                const nested: string[] = [];
+                writeNode(item, indent + '  ', nested);
+                out.push(indent + '- ' + nested[0].slice(indent.length + 2), ...nested.slice(1));
+            } else {
+                out.push(`${indent}- ${isEmptyCollection(item) ? JSON.stringify(item) : formatScalar(item)}`);
+            }
+        }
+        return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+        if (item === undefined) continue;
+        if (item && typeof item === 'object' && !isEmptyCollection(item)) {
+            out.push(`${indent}${formatKey(key)}:`);
+            writeNode(item, Array.isArray(item) ? indent : indent + '  ', out);
+        } else {
+            out.push(`${indent}${formatKey(key)}: ${isEmptyCollection(item) ? JSON.stringify(item) : formatScalar(item)}`);
+        }
+    }
+};
+
+/** Serializes plain JavaScript values as block-style YAML. */
+export const stringifyYaml = (value: any): string => {
+    if (value === null || typeof value !== 'object' || isEmptyCollection(value)) {
+        return (isEmptyCollection(value) ? JSON.stringify(value) : formatScalar(value)) + '\n';
+    }
+    const out: string[] = [];
+    writeNode(value, '', out);
+    return out.join('\n') + '\n';
+};
@@ -0,0 +1,196 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseRegex } from './regexParser.ts';
+import type { RegexNode } from './regexParser.ts';
+
+// Flags the parts of a JavaScript regex that another engine would reject or read differently, so exported
+// snippets can be fixed before they are pasted. Only differences that change what matches (or whether the
+// pattern compiles) are reported; spelling differences that every engine accepts are not.
+
+export type RegexDialect = 'pcre' | 're2' | 'python';
+
+export const REGEX_DIALECT_LABELS: Record<RegexDialect, string> = {
+    pcre: 'PCRE',
+    re2: 'RE2 (Go)',
+    python: 'Python re',
+};
+
+export interface DialectWarning {
+    dialect: RegexDialect;
+    message: string;
+    excerpt?: string; // The part of the pattern or template the warning is about
+}
+
+const ALL_DIALECTS: RegexDialect[] = ['pcre', 're2', 'python'];
+const KNOWN_ESCAPE_LETTERS = new Set('bBcdDfknprsStuvwWx');
+
+/** Backslash escapes in a piece of pattern source, e.g. `\d`, `\u{1F600}`, `\cJ`, `\p{L}`. */
+const escapesIn = (text: string): string[] => {
+    const escapes: string[] = [];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== '\\') continue;
+        const rest = text.slice(i);
+        const escape = /^\\(?:u\{[0-9a-fA-F]*\}?|u[0-9a-fA-F]{4}|c[A-Za-z]|[pP]\{[^}]*\}?|.)/s.exec(rest)![0];
+        escapes.push(escape);
+        i += escape.length - 1;
+    }
+    return escapes;
+};
+
+/** Shortest and longest number of characters a node can match; max is Infinity when unbounded. */
+const widthRange = (node: RegexNode): { min: number; max: number } => {
+    switch (node.type) {
+        case 'chars':
+            return { min: 1, max: 1 };
+        case 'sequence':
+            return node.items.map(widthRange).reduce((total, item) => ({ min: total.min + item.min, max: total.max + item.max }), { min: 0, max: 0 });
+        case 'alternation': {
+            const options = node.options.map(widthRange);
+            return { min: Math.min(...options.map(option => option.min)), max: Math.max(...options.map(option => option.max)) };
+        }
+        case 'group':
+            return widthRange(node.body);
+        case 'repeat': {
+            const body = widthRange(node.body);
+            return { min: body.min * node.min, max: node.max === 0 || body.max === 0 ? 0 : body.max * node.max };
+        }
+        case 'backreference':
+            return { min: 0, max: Infinity };
+        default:
+            return { min: 0, max: 0 };
+    }
+};
+
+const isFixedWidth = (node: RegexNode) => {
+    const { min, max } = widthRange(node);
+    return min === max;
+};
+
+/**
+ * Lists where `source` with `flags`, and optionally a `replace` template, would behave differently in other
+ * regex engines. Each warning names one dialect; the same difference in several dialects yields one per dialect.
+ * @throws RegexSyntaxError when the pattern does not parse.
+ */
+export const checkDialectCompatibility = (source: string, flags: string, replaceTemplate?: string): DialectWarning[] => {
+    const parsed = parseRegex(source, flags);
+    const warnings: DialectWarning[] = [];
+    const seen = new Set<string>();
+    const warn = (dialects: RegexDialect[], message: string, excerpt?: string) => {
+        for (const dialect of dialects) {
+            const key = `${dialect}\u0000${message}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            warnings.push({ dialect, message, excerpt });
+        }
+    };
+
+    const checkChars = (text: string) => {
+        if (text === '.' && !flags.includes('s')) {
+            warn(ALL_DIALECTS, '. also matches \\r, \\u2028 and \\u2029 here; JavaScript excludes them along with \\n.', text);
+        }
+        if (text === '[^]') warn(ALL_DIALECTS, '[^] (any character) is JavaScript-only; write [\\s\\S].', text);
+        if (text === '[]') warn(ALL_DIALECTS, '[] (matches nothing) is JavaScript-only and is a syntax error here.', text);
+
+        for (const escape of escapesIn(text)) {
+            const letter = escape[1];
+            if (letter === 's' || letter === 'S') {
+                warn(['pcre', 're2'], '\\s only covers ASCII whitespace here; JavaScript also matches Unicode spaces such as \\u00a0 and \\ufeff.', escape);
+            } else if (letter === 'd' || letter === 'D') {
+                warn(['python'], '\\d matches every Unicode digit in Python (e.g. "٣"); JavaScript only matches 0-9. Use [0-9] or re.ASCII.', escape);
+            } else if (letter === 'w' || letter === 'W') {
+                warn(['python'], '\\w matches Unicode letters in Python; JavaScript only matches [A-Za-z0-9_]. Use re.ASCII to match JavaScript.', escape);
+            } else if (escape.startsWith('\\u{')) {
+                warn(['pcre', 're2'], '\\u{...} escapes are JavaScript-only; write \\x{...}.', escape);
+                warn(['python'], '\\u{...} escapes are JavaScript-only; write \\U0001F600-style escapes.', escape);
+            } else if (letter === 'u') {
+                warn(['pcre', 're2'], '\\uXXXX escapes are not supported; write \\x{XXXX}.', escape);
+            } else if (letter === 'c') {
+                warn(['re2', 'python'], 'Control escapes like \\cJ are not supported; write \\x0A-style escapes.', escape);
+            } else if (letter === 'p' || letter === 'P') {
+                warn(['python'], 'Python re has no \\p{...} property escapes (the third-party regex module does).', escape);
+                if (escape.includes('=')) warn(['re2'], 'RE2 only accepts \\p{Name}; the Script= and General_Category= forms are not supported.', escape);
+            } else if (/[A-Za-z]/.test(letter) && !KNOWN_ESCAPE_LETTERS.has(letter)) {
+                warn(ALL_DIALECTS, `${escape} means a literal "${letter}" in JavaScript but is a different escape or an error here; drop the backslash.`, escape);
+            }
+        }
+    };
+
+    const visit = (node: RegexNode) => {
+        const text = source.slice(node.start, node.end);
+        switch (node.type) {
+            case 'chars':
+                checkChars(text);
+                break;
+            case 'sequence':
+                node.items.forEach(visit);
+                break;
+            case 'alternation':
+                node.options.forEach(visit);
+                break;
+            case 'group':
+                if (node.name !== undefined) {
+                    warn(['python'], 'Named groups are written (?P<name>...) in Python; (?<name>...) does not compile.', text.slice(0, node.name.length + 4));
+                    warn(['re2'], 'Go accepts (?<name>...) only from Go 1.22; older versions need (?P<name>...).', text.slice(0, node.name.length + 4));
+                }
+                visit(node.body);
+                break;
+            case 'repeat':
+                if (node.min > 1000 || (node.max !== Infinity && node.max > 1000)) warn(['re2'], 'RE2 rejects repeat counts above 1000.', text);
+                visit(node.body);
+                break;
+            case 'assertion':
+                if (node.kind === 'end' && !flags.includes('m')) {
+                    warn(['pcre'], '$ also matches before a trailing newline, so "abc\\n" matches abc$. Use \\z for the end of input.', text);
+                    warn(['python'], '$ also matches before a trailing newline, so "abc\\n" matches abc$. Use \\Z for the end of input.', text);
+                }
+                if (node.kind === 'wordBoundary' || node.kind === 'notWordBoundary') {
+                    warn(['python'], '\\b treats Unicode letters as word characters in Python; JavaScript only counts [A-Za-z0-9_].', text);
+                }
+                break;
+            case 'lookaround':
+                warn(['re2'], 'RE2 does not support lookahead or lookbehind.', text);
+                if (node.behind) {
+                    if (!isFixedWidth(node.body)) warn(['python'], 'Python requires lookbehind to match a fixed number of characters.', text);
+                    const alternatives = node.body.type === 'alternation' ? node.body.options : [node.body];
+                    if (!alternatives.every(isFixedWidth)) {
+                        warn(['pcre'], 'PCRE before 10.43 requires each lookbehind alternative to match a fixed number of characters.', text);
+                    }
+                }
+                visit(node.body);
+                break;
+            case 'backreference':
+                warn(['re2'], 'RE2 does not support backreferences.', text);
+                if (typeof node.ref === 'string') warn(['python'], 'Named backreferences are written (?P=name) in Python.', text);
+                break;
+        }
+    };
+    visit(parsed.root);
+
+    if (flags.includes('y')) warn(ALL_DIALECTS, 'The sticky flag (y) has no equivalent flag; anchor the search position explicitly.', 'y');
+    if (flags.includes('v')) warn(ALL_DIALECTS, 'The v flag and its set notation (e.g. [\\p{L}--[a-z]]) are JavaScript-only.', 'v');
+
+    if (replaceTemplate) {
+        const named = /\$<\w+>/.exec(replaceTemplate)?.[0];
+        if (named) {
+            warn(['pcre'], 'preg_replace has no named references; use the group number, e.g. $1.', named);
+            warn(['re2'], 'Go replacement templates write named references as ${name}.', named);
+            warn(['python'], 'Python replacement templates write named references as \\g<name>.', named);
+        }
+        const numbered = /\$\d+/.exec(replaceTemplate)?.[0];
+        if (numbered) warn(['python'], `Python replacement templates write ${numbered} as \\${numbered.slice(1)} (or \\g<${numbered.slice(1)}>).`, numbered);
+        const glued = /\$\d+[A-Za-z_]/.exec(replaceTemplate)?.[0];
+        if (glued) warn(['re2'], `Go reads ${glued} as a reference to a group named "${glued.slice(1)}"; write \${${glued.slice(1, -1)}}${glued.slice(-1)}.`, glued);
+        if (replaceTemplate.includes('$&')) {
+            warn(['pcre', 're2'], '$& is JavaScript syntax for the whole match; write $0.', '$&');
+            warn(['python'], '$& is JavaScript syntax for the whole match; write \\g<0>.', '$&');
+        }
+    }
+
+    return warnings;
+};
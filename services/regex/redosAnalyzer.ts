@@ -0,0 +1,723 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseRegex, WORD, LINE_TERMINATOR, charSetHas } from './regexParser.ts';
+import type { AssertionKind, CharSet, RegexNode } from './regexParser.ts';
+
+// Static ReDoS detection. The pattern is compiled to an NFA the way a backtracking engine walks it, and the
+// NFA is searched for ambiguity: a state that can loop back to itself along two different paths on the same
+// input is exponential; two loops joined by a path that all accept the same input are polynomial. Each
+// finding comes with an attack string that is checked to make the overall match fail, since a successful
+// match stops backtracking early.
+//
+// The analysis over-approximates in a few places (lookarounds always pass, backreferences match nothing,
+// large counted repeats are capped); the report says when any of these applied. Small counted repeats are
+// unrolled rather than looped, so blow-ups bounded by them, like (\w{1,10}){1,20}, are not reported.
+
+const REPEAT_EXPANSION_LIMIT = 20;
+const MAX_STATES = 400;
+const MAX_PRODUCT_PAIRS = 40_000;
+const EPSILON_PATH_BUDGET = 20_000;
+const TRIPLE_SEARCH_BUDGET = 200_000;
+const EXPONENTIAL_PUMPS = 30; // 2^30 steps is well past any sensible timeout
+const POLYNOMIAL_ATTACK_LENGTH = 30_000;
+const VERIFY_PUMPS = 4;
+const MAX_FINDINGS = 5;
+const MAX_EXTRA_PREFIXES = 8;
+
+export type ReDoSSeverity = 'exponential' | 'polynomial';
+
+export interface ReDoSFinding {
+    severity: ReDoSSeverity;
+    loops: string[]; // Source of the quantified parts involved
+    description: string;
+    prefix: string;
+    pump: string; // Repeated to build the attack
+    suffix: string; // Makes the match fail so every path gets tried
+    repetitions: number;
+    attackString: string;
+}
+
+export interface ReDoSReport {
+    safe: boolean;
+    findings: ReDoSFinding[];
+    approximations: string[]; // Why the result may be imprecise; empty when the analysis was exact
+}
+
+// --- NFA construction ---
+
+interface EpsilonEdge {
+    to: number;
+    assertion?: AssertionKind;
+}
+
+interface CharEdge {
+    from: number;
+    to: number;
+    set: CharSet;
+    loops: number[]; // Enclosing quantifiers, outermost first
+}
+
+interface Nfa {
+    start: number;
+    accept: number;
+    epsilon: EpsilonEdge[][];
+    charEdges: CharEdge[];
+    loopSpans: { start: number; end: number; unbounded: boolean }[];
+}
+
+class NfaBuilder {
+    readonly epsilon: EpsilonEdge[][] = [];
+    readonly charEdges: CharEdge[] = [];
+    readonly loopSpans: { start: number; end: number; unbounded: boolean }[] = [];
+
+    constructor(private readonly approximations: Set<string>) {}
+
+    newState(): number {
+        this.epsilon.push([]);
+        return this.epsilon.length - 1;
+    }
+
+    private link(from: number, to: number, assertion?: AssertionKind) {
+        this.epsilon[from].push({ to, assertion });
+    }
+
+    build(node: RegexNode, loops: number[]): { start: number; end: number } {
+        if (this.epsilon.length > MAX_STATES * 20) throw new AnalysisLimitError();
+        const start = this.newState();
+        switch (node.type) {
+            case 'chars': {
+                const end = this.newState();
+                this.charEdges.push({ from: start, to: end, set: node.set, loops });
+                return { start, end };
+            }
+            case 'sequence': {
+                let end = start;
+                for (const item of node.items) {
+                    const fragment = this.build(item, loops);
+                    this.link(end, fragment.start);
+                    end = fragment.end;
+                }
+                return { start, end };
+            }
+            case 'alternation': {
+                const end = this.newState();
+                for (const option of node.options) {
+                    const fragment = this.build(option, loops);
+                    this.link(start, fragment.start);
+                    this.link(fragment.end, end);
+                }
+                return { start, end };
+            }
+            case 'group': {
+                const fragment = this.build(node.body, loops);
+                this.link(start, fragment.start);
+                return { start, end: fragment.end };
+            }
+            case 'repeat':
+                return this.buildRepeat(node, start, loops);
+            case 'assertion': {
+                const end = this.newState();
+                this.link(start, end, node.kind);
+                return { start, end };
+            }
+            case 'lookaround':
+                this.approximations.add('Lookaround assertions are assumed to always pass.');
+                return { start, end: start };
+            case 'backreference':
+                this.approximations.add('Backreferences are assumed to match the empty string.');
+                return { start, end: start };
+            case 'empty':
+                return { start, end: start };
+        }
+    }
+
+    private buildRepeat(node: Extract<RegexNode, { type: 'repeat' }>, start: number, loops: number[]) {
+        const loopId = this.loopSpans.push({ start: node.start, end: node.end, unbounded: node.max === Infinity }) - 1;
+        const inner = [...loops, loopId];
+        const required = Math.min(node.min, REPEAT_EXPANSION_LIMIT);
+        const unbounded = node.max === Infinity || node.max - node.min > REPEAT_EXPANSION_LIMIT;
+        if (node.min > REPEAT_EXPANSION_LIMIT || (node.max !== Infinity && unbounded)) {
+            this.approximations.add(`Counted repeats above ${REPEAT_EXPANSION_LIMIT} are analyzed as if they were shorter or unbounded.`);
+        }
+
+        let end = start;
+        for (let i = 0; i < required; i++) {
+            const copy = this.build(node.body, inner);
+            this.link(end, copy.start);
+            end = copy.end;
+        }
+        if (unbounded) {
+            const entry = this.newState();
+            const exit = this.newState();
+            const body = this.build(node.body, inner);
+            this.link(end, entry);
+            this.link(entry, body.start);
+            this.link(entry, exit);
+            this.link(body.end, body.start);
+            this.link(body.end, exit);
+            return { start, end: exit };
+        }
+        // Optional copies nest, (a(a)?)? rather than a?a?, so they add no ambiguity of their own.
+        const optional = node.max - node.min;
+        if (optional === 0) return { start, end };
+        const exit = this.newState();
+        for (let i = 0; i < optional; i++) {
+            const copy = this.build(node.body, inner);
+            this.link(end, exit);
+            this.link(end, copy.start);
+            end = copy.end;
+        }
+        this.link(end, exit);
+        return { start, end: exit };
+    }
+}
+
+class AnalysisLimitError extends Error {}
+
+// --- Simulation, used to check that an attack string really makes the match fail ---
+
+const isWordChar = (codePoint: number | undefined) => codePoint !== undefined && charSetHas(WORD, codePoint);
+const isLineTerminator = (codePoint: number | undefined) => codePoint !== undefined && charSetHas(LINE_TERMINATOR, codePoint);
+
+const assertionHolds = (kind: AssertionKind, input: number[], pos: number, multiline: boolean): boolean => {
+    switch (kind) {
+        case 'start': return pos === 0 || (multiline && isLineTerminator(input[pos - 1]));
+        case 'end': return pos === input.length || (multiline && isLineTerminator(input[pos]));
+        case 'wordBoundary': return isWordChar(input[pos - 1]) !== isWordChar(input[pos]);
+        case 'notWordBoundary': return isWordChar(input[pos - 1]) === isWordChar(input[pos]);
+    }
+};
+
+/**
+ * Whether the pattern matches in `input` starting before `startLimit`, searching from every position unless the
+ * regex is sticky. Later matches don't count: the engine has already backtracked through the earlier starts.
+ */
+const matchesBefore = (nfa: Nfa, input: number[], flags: string, startLimit: number): boolean => {
+    const multiline = flags.includes('m');
+    const sticky = flags.includes('y');
+    const edgesFrom = groupEdgesBySource(nfa);
+
+    const close = (states: Set<number>, pos: number) => {
+        const stack = [...states];
+        while (stack.length) {
+            const state = stack.pop()!;
+            for (const edge of nfa.epsilon[state]) {
+                if (states.has(edge.to)) continue;
+                if (edge.assertion && !assertionHolds(edge.assertion, input, pos, multiline)) continue;
+                states.add(edge.to);
+                stack.push(edge.to);
+            }
+        }
+        return states;
+    };
+
+    let current = close(new Set([nfa.start]), 0);
+    for (let pos = 0; ; pos++) {
+        if (current.has(nfa.accept)) return true;
+        if (pos === input.length) return false;
+        const next = new Set<number>();
+        for (const state of current) {
+            for (const edge of edgesFrom.get(state) ?? []) {
+                if (charSetHas(edge.set, input[pos])) next.add(edge.to);
+            }
+        }
+        if (!sticky && pos + 1 < startLimit) next.add(nfa.start);
+        current = close(next, pos + 1);
+    }
+};
+
+const groupEdgesBySource = (nfa: Nfa): Map<number, CharEdge[]> => {
+    const edgesFrom = new Map<number, CharEdge[]>();
+    for (const edge of nfa.charEdges) {
+        const list = edgesFrom.get(edge.from) ?? [];
+        list.push(edge);
+        edgesFrom.set(edge.from, list);
+    }
+    return edgesFrom;
+};
+
+// --- Epsilon-free automaton over a finite alphabet ---
+
+interface Transition {
+    to: number;
+    symbols: Uint8Array; // symbols[i] === 1 when the transition accepts alphabet symbol i
+    multiplicity: number; // Distinct epsilon paths leading to the same character edge, capped at 2
+    edge: CharEdge | null; // null for the implicit search loop
+}
+
+interface Automaton {
+    start: number;
+    transitions: Transition[][];
+    alphabet: number[]; // One representative code point per symbol
+    searchLoop: number | null; // State of the implicit "try every start position" loop
+}
+
+/** Splits all code points into classes that every character set in the NFA treats alike. */
+const buildAlphabet = (sets: CharSet[]): { alphabet: number[]; symbolsOf: (set: CharSet) => Uint8Array } => {
+    const boundaries = new Set<number>([0]);
+    for (const set of sets) {
+        for (const [from, to] of set) {
+            boundaries.add(from);
+            boundaries.add(to + 1);
+        }
+    }
+    const points = [...boundaries].filter(point => point <= 0x10ffff).sort((a, b) => a - b);
+    const signatures = new Map<string, number>();
+    const intervalSymbol: { from: number; symbol: number }[] = [];
+    const alphabet: number[] = [];
+    const score = (codePoint: number) => /[A-Za-z0-9]/.test(String.fromCodePoint(codePoint)) ? 0
+        : codePoint > 0x20 && codePoint < 0x7f ? 1 : codePoint === 0x20 ? 2 : 3;
+
+    for (let i = 0; i < points.length; i++) {
+        const from = points[i];
+        const to = (points[i + 1] ?? 0x110000) - 1;
+        const signature = sets.map(set => charSetHas(set, from) ? '1' : '0').join('');
+        let symbol = signatures.get(signature);
+        // Prefer a readable representative: a letter or digit, else printable ASCII.
+        let candidate = from;
+        for (let codePoint = from; codePoint <= Math.min(to, 0x7e); codePoint++) {
+            if (score(codePoint) < score(candidate)) candidate = codePoint;
+            if (score(candidate) === 0) break;
+        }
+        if (symbol === undefined) {
+            symbol = alphabet.push(candidate) - 1;
+            signatures.set(signature, symbol);
+        } else if (score(candidate) < score(alphabet[symbol])) {
+            alphabet[symbol] = candidate;
+        }
+        intervalSymbol.push({ from, symbol });
+    }
+
+    const symbolsOf = (set: CharSet) => {
+        const symbols = new Uint8Array(alphabet.length);
+        for (const { from, symbol } of intervalSymbol) {
+            if (charSetHas(set, from)) symbols[symbol] = 1;
+        }
+        return symbols;
+    };
+    return { alphabet, symbolsOf };
+};
+
+const commonSymbol = (...sets: Uint8Array[]): number => {
+    for (let i = 0; i < sets[0].length; i++) {
+        if (sets.every(set => set[i])) return i;
+    }
+    return -1;
+};
+
+const buildAutomaton = (nfa: Nfa, flags: string, approximations: Set<string>): Automaton => {
+    const edgesFrom = groupEdgesBySource(nfa);
+    const keyStates = [nfa.start, ...new Set(nfa.charEdges.map(edge => edge.to))];
+    if (keyStates.length > MAX_STATES) throw new AnalysisLimitError();
+    const keyIndex = new Map(keyStates.map((state, index) => [state, index]));
+    const { alphabet, symbolsOf } = buildAlphabet(nfa.charEdges.map(edge => edge.set));
+    const edgeSymbols = new Map(nfa.charEdges.map(edge => [edge, symbolsOf(edge.set)]));
+
+    let anchored = flags.includes('y');
+    const transitions = keyStates.map((state, index) => {
+        // Count the distinct simple epsilon paths to each state with outgoing character edges.
+        const pathCounts = new Map<number, number>();
+        const onPath = new Set<number>([state]);
+        let steps = 0;
+        let reachesUnanchored = false;
+        const walk = (current: number, passedStart: boolean) => {
+            if (++steps > EPSILON_PATH_BUDGET) {
+                approximations.add('Some empty-matching loops have too many paths to count exactly.');
+                return;
+            }
+            if (edgesFrom.has(current)) {
+                pathCounts.set(current, Math.min(2, (pathCounts.get(current) ?? 0) + 1));
+                if (!passedStart) reachesUnanchored = true;
+            }
+            if (current === nfa.accept && !passedStart) reachesUnanchored = true;
+            for (const edge of nfa.epsilon[current]) {
+                if (onPath.has(edge.to)) continue;
+                onPath.add(edge.to);
+                walk(edge.to, passedStart || edge.assertion === 'start');
+                onPath.delete(edge.to);
+            }
+        };
+        walk(state, false);
+        if (index === 0 && !flags.includes('m') && !reachesUnanchored) anchored = true;
+
+        const result: Transition[] = [];
+        for (const [source, multiplicity] of pathCounts) {
+            for (const edge of edgesFrom.get(source)!) {
+                result.push({ to: keyIndex.get(edge.to)!, symbols: edgeSymbols.get(edge)!, multiplicity, edge });
+            }
+        }
+        return result;
+    });
+
+    if (anchored) return { start: 0, transitions, alphabet, searchLoop: null };
+
+    // An unanchored search retries from every position, which behaves like a leading lazy [\s\S]*?.
+    const searchLoop = transitions.length;
+    const everySymbol = new Uint8Array(alphabet.length).fill(1);
+    transitions.push([{ to: searchLoop, symbols: everySymbol, multiplicity: 1, edge: null }, ...transitions[0]]);
+    return { start: searchLoop, transitions, alphabet, searchLoop };
+};
+
+// --- Graph helpers ---
+
+/** Tarjan's algorithm, iterative. Returns the component id of every node. */
+const stronglyConnectedComponents = (nodeCount: number, successors: (node: number) => number[]): number[] => {
+    const index = new Array<number>(nodeCount).fill(-1);
+    const lowLink = new Array<number>(nodeCount).fill(0);
+    const component = new Array<number>(nodeCount).fill(-1);
+    const onStack = new Array<boolean>(nodeCount).fill(false);
+    const stack: number[] = [];
+    let nextIndex = 0;
+    let nextComponent = 0;
+
+    for (let root = 0; root < nodeCount; root++) {
+        if (index[root] !== -1) continue;
+        const work: { node: number; children: number[]; next: number }[] = [];
+        const visit = (node: number) => {
+            index[node] = lowLink[node] = nextIndex++;
+            stack.push(node);
+            onStack[node] = true;
+            work.push({ node, children: successors(node), next: 0 });
+        };
+        visit(root);
+        while (work.length) {
+            const frame = work[work.length - 1];
+            if (frame.next < frame.children.length) {
+                const child = frame.children[frame.next++];
+                if (index[child] === -1) {
+                    visit(child);
+                } else if (onStack[child]) {
+                    lowLink[frame.node] = Math.min(lowLink[frame.node], index[child]);
+                }
+                continue;
+            }
+            work.pop();
+            if (work.length) lowLink[work[work.length - 1].node] = Math.min(lowLink[work[work.length - 1].node], lowLink[frame.node]);
+            if (lowLink[frame.node] === index[frame.node]) {
+                let member: number;
+                do {
+                    member = stack.pop()!;
+                    onStack[member] = false;
+                    component[member] = nextComponent;
+                } while (member !== frame.node);
+                nextComponent++;
+            }
+        }
+    }
+    return component;
+};
+
+/** Shortest input leading from `from` to `to`, as symbols, or null when `to` is unreachable. */
+const shortestInput = (automaton: Automaton, from: number, to: number): number[] | null => {
+    const previous = new Map<number, { state: number; symbol: number }>();
+    const queue = [from];
+    const seen = new Set([from]);
+    while (queue.length) {
+        const state = queue.shift()!;
+        if (state === to) {
+            const symbols: number[] = [];
+            for (let current = to; current !== from; current = previous.get(current)!.state) symbols.unshift(previous.get(current)!.symbol);
+            return symbols;
+        }
+        for (const transition of automaton.transitions[state]) {
+            if (seen.has(transition.to)) continue;
+            seen.add(transition.to);
+            previous.set(transition.to, { state, symbol: transition.symbols.indexOf(1) });
+            queue.push(transition.to);
+        }
+    }
+    return null;
+};
+
+// --- Ambiguity search ---
+
+interface Witness {
+    severity: ReDoSSeverity;
+    prefix: number[];
+    pump: number[];
+    loopStates: number[][]; // States whose loops are involved, for naming them in the report
+}
+
+/** Exponential ambiguity: a state with two different same-input paths back to itself. */
+const findExponentialAmbiguity = (automaton: Automaton, stateComponent: number[], approximations: Set<string>): Witness[] => {
+    const stateCount = automaton.transitions.length;
+    const members = new Map<number, number[]>();
+    stateComponent.forEach((component, state) => members.set(component, [...(members.get(component) ?? []), state]));
+    const witnesses: Witness[] = [];
+
+    for (const states of members.values()) {
+        const inComponent = new Set(states);
+        const hasCycle = states.some(state => automaton.transitions[state].some(t => inComponent.has(t.to)));
+        if (!hasCycle) continue;
+        if (states.length * states.length > MAX_PRODUCT_PAIRS) {
+            approximations.add('Some loops have too many states to check for exponential backtracking.');
+            continue;
+        }
+
+        // Pairs of states in this component, joined when both can read the same symbol.
+        const pairId = new Map<number, number>();
+        const pairs: [number, number][] = [];
+        const idOf = (p: number, q: number) => {
+            const key = p * stateCount + q;
+            let id = pairId.get(key);
+            if (id === undefined) {
+                id = pairs.push([p, q]) - 1;
+                pairId.set(key, id);
+            }
+            return id;
+        };
+        const pairEdges: { to: number; symbol: number; divergent: boolean }[][] = [];
+        const expand = (id: number) => {
+            if (pairEdges[id]) return pairEdges[id];
+            const [p, q] = pairs[id];
+            const edges: { to: number; symbol: number; divergent: boolean }[] = [];
+            for (const t1 of automaton.transitions[p]) {
+                if (!inComponent.has(t1.to)) continue;
+                for (const t2 of automaton.transitions[q]) {
+                    if (!inComponent.has(t2.to)) continue;
+                    const symbol = commonSymbol(t1.symbols, t2.symbols);
+                    if (symbol === -1) continue;
+                    edges.push({ to: idOf(t1.to, t2.to), symbol, divergent: t1 !== t2 || t1.multiplicity > 1 });
+                }
+            }
+            return (pairEdges[id] = edges);
+        };
+        states.forEach(state => idOf(state, state));
+        for (let id = 0; id < pairs.length; id++) expand(id); // pairs grows while expanding
+
+        const pairComponent = stronglyConnectedComponents(pairs.length, id => pairEdges[id].map(edge => edge.to));
+        // Diagonal pairs first: a divergence right at the loop state gives the shortest pump.
+        const candidates = [...states.map(state => pairId.get(state * stateCount + state)!), ...pairs.keys()];
+        for (const id of candidates) {
+            const divergent = pairEdges[id].find(edge => edge.divergent && pairComponent[edge.to] === pairComponent[id]);
+            if (!divergent) continue;
+            const diagonal = states.map(state => pairId.get(state * stateCount + state)!).find(d => pairComponent[d] === pairComponent[id]);
+            if (diagonal === undefined) continue;
+
+            const pathWithin = (from: number, to: number): number[] => {
+                const previous = new Map<number, { id: number; symbol: number }>();
+                const queue = [from];
+                const seen = new Set([from]);
+                while (queue.length) {
+                    const current = queue.shift()!;
+                    if (current === to) break;
+                    for (const edge of pairEdges[current]) {
+                        if (seen.has(edge.to) || pairComponent[edge.to] !== pairComponent[from]) continue;
+                        seen.add(edge.to);
+                        previous.set(edge.to, { id: current, symbol: edge.symbol });
+                        queue.push(edge.to);
+                    }
+                }
+                const symbols: number[] = [];
+                for (let current = to; current !== from; current = previous.get(current)!.id) symbols.unshift(previous.get(current)!.symbol);
+                return symbols;
+            };
+            const loopState = pairs[diagonal][0];
+            const prefix = shortestInput(automaton, automaton.start, loopState);
+            if (!prefix) continue;
+            witnesses.push({
+                severity: 'exponential',
+                prefix,
+                pump: [...pathWithin(diagonal, id), divergent.symbol, ...pathWithin(divergent.to, diagonal)],
+                loopStates: [states],
+            });
+            break; // One finding per loop
+        }
+    }
+    return witnesses;
+};
+
+/** Polynomial ambiguity: loops at p and q, p reaching q, all three paths readable with the same input. */
+const findPolynomialAmbiguity = (automaton: Automaton, stateComponent: number[], skipComponents: Set<number>, approximations: Set<string>): Witness[] => {
+    const stateCount = automaton.transitions.length;
+    const loopingComponents = new Set<number>();
+    automaton.transitions.forEach((transitions, state) => {
+        if (transitions.some(t => stateComponent[t.to] === stateComponent[state])) loopingComponents.add(stateComponent[state]);
+    });
+    const reachable = (from: number): Set<number> => {
+        const seen = new Set([from]);
+        const queue = [from];
+        while (queue.length) {
+            for (const t of automaton.transitions[queue.shift()!]) {
+                if (!seen.has(t.to)) { seen.add(t.to); queue.push(t.to); }
+            }
+        }
+        return seen;
+    };
+
+    const witnesses: Witness[] = [];
+    const reported = new Set<string>();
+    let budget = TRIPLE_SEARCH_BUDGET;
+    for (let p = 0; p < stateCount && budget > 0; p++) {
+        const componentP = stateComponent[p];
+        if (!loopingComponents.has(componentP) || skipComponents.has(componentP)) continue;
+        const fromP = reachable(p);
+        for (let q = 0; q < stateCount && budget > 0; q++) {
+            const componentQ = stateComponent[q];
+            if (componentQ === componentP || !fromP.has(q) || !loopingComponents.has(componentQ) || skipComponents.has(componentQ)) continue;
+            const pairKey = `${componentP}:${componentQ}`;
+            if (reported.has(pairKey)) continue;
+
+            // Search (p, p, q) -> (p, q, q), keeping the first and last tracks inside their loops.
+            const encode = (a: number, b: number, c: number) => (a * stateCount + b) * stateCount + c;
+            const target = encode(p, q, q);
+            const previous = new Map<number, { key: number; symbol: number }>();
+            const startKey = encode(p, p, q);
+            const queue: [number, number, number][] = [[p, p, q]];
+            const seen = new Set([startKey]);
+            let found = false;
+            while (queue.length && budget-- > 0 && !found) {
+                const [a, b, c] = queue.shift()!;
+                const key = encode(a, b, c);
+                for (const t1 of automaton.transitions[a]) {
+                    if (stateComponent[t1.to] !== componentP) continue;
+                    for (const t2 of automaton.transitions[b]) {
+                        for (const t3 of automaton.transitions[c]) {
+                            if (stateComponent[t3.to] !== componentQ) continue;
+                            const symbol = commonSymbol(t1.symbols, t2.symbols, t3.symbols);
+                            if (symbol === -1) continue;
+                            const next = encode(t1.to, t2.to, t3.to);
+                            if (seen.has(next)) continue;
+                            seen.add(next);
+                            previous.set(next, { key, symbol });
+                            if (next === target) { found = true; break; }
+                            queue.push([t1.to, t2.to, t3.to]);
+                        }
+                        if (found) break;
+                    }
+                    if (found) break;
+                }
+            }
+            if (!found) continue;
+
+            const pump: number[] = [];
+            for (let key = target; key !== startKey; key = previous.get(key)!.key) pump.unshift(previous.get(key)!.symbol);
+            const prefix = shortestInput(automaton, automaton.start, p);
+            if (!prefix) continue;
+            reported.add(pairKey);
+            const membersOf = (component: number) => stateComponent.flatMap((c, state) => c === component ? [state] : []);
+            witnesses.push({ severity: 'polynomial', prefix, pump, loopStates: [membersOf(componentP), membersOf(componentQ)] });
+        }
+    }
+    if (budget <= 0) approximations.add('The search for polynomial backtracking stopped early on this pattern.');
+    return witnesses;
+};
+
+// --- Reporting ---
+
+const SEARCH_LOOP = 'the implicit search from every start position';
+
+const describeLoop = (automaton: Automaton, nfa: Nfa, source: string, states: number[]): string => {
+    if (automaton.searchLoop !== null && states.includes(automaton.searchLoop)) return SEARCH_LOOP;
+    // The outermost unbounded quantifier enclosing every character edge inside this loop; the loop's states
+    // cover that quantifier's whole body, so nested quantifiers inside it are part of the same problem.
+    const inside = new Set(states);
+    let common: number[] | null = null;
+    for (const state of states) {
+        for (const transition of automaton.transitions[state]) {
+            if (!inside.has(transition.to) || !transition.edge) continue;
+            const loops = transition.edge.loops;
+            if (common === null) {
+                common = loops;
+                continue;
+            }
+            const mismatch = common.findIndex((id, i) => loops[i] !== id);
+            if (mismatch !== -1) common = common.slice(0, mismatch);
+        }
+    }
+    const loopId = common?.find(id => nfa.loopSpans[id].unbounded) ?? common?.[common.length - 1];
+    if (loopId === undefined) return `/${source}/`;
+    const span = nfa.loopSpans[loopId];
+    return source.slice(span.start, span.end);
+};
+
+const toText = (automaton: Automaton, symbols: number[]) => symbols.map(symbol => String.fromCodePoint(automaton.alphabet[symbol])).join('');
+
+const toCodePoints = (text: string) => Array.from(text, char => char.codePointAt(0)!);
+
+/**
+ * Picks a prefix and suffix that make the whole search fail after pumping, or null when every combination
+ * tried still matches. An unanchored search can skip any leading character, which helps when the shortest
+ * prefix would let another alternative match at the start.
+ */
+const findFailingFrame = (nfa: Nfa, automaton: Automaton, flags: string, prefix: string, pump: string): { prefix: string; suffix: string } | null => {
+    const others = automaton.alphabet.map(codePoint => String.fromCodePoint(codePoint)).filter(char => !pump.includes(char));
+    const prefixes = [prefix, ...(automaton.searchLoop === null ? [] : others.slice(0, MAX_EXTRA_PREFIXES).map(char => char + prefix))];
+    for (const candidatePrefix of prefixes) {
+        const pumped = candidatePrefix + pump.repeat(VERIFY_PUMPS);
+        const startLimit = Array.from(pumped).length;
+        const suffix = ['', ...others].find(candidate => !matchesBefore(nfa, toCodePoints(pumped + candidate), flags, startLimit));
+        if (suffix !== undefined) return { prefix: candidatePrefix, suffix };
+    }
+    return null;
+};
+
+const quote = (text: string) => JSON.stringify(text);
+
+/**
+ * Looks for inputs that make a backtracking engine take exponential or polynomial time on the pattern.
+ * @throws RegexSyntaxError when the pattern does not parse.
+ */
+export const analyzeReDoS = (source: string, flags = ''): ReDoSReport => {
+    const parsed = parseRegex(source, flags);
+    const approximations = new Set<string>();
+    let nfa: Nfa;
+    let automaton: Automaton;
+    try {
+        const builder = new NfaBuilder(approximations);
+        const { start, end } = builder.build(parsed.root, []);
+        nfa = { start, accept: end, epsilon: builder.epsilon, charEdges: builder.charEdges, loopSpans: builder.loopSpans };
+        automaton = buildAutomaton(nfa, flags, approximations);
+    } catch (error) {
+        if (!(error instanceof AnalysisLimitError)) throw error;
+        return { safe: true, findings: [], approximations: ['The pattern is too large to analyze.'] };
+    }
+
+    const stateComponent = stronglyConnectedComponents(automaton.transitions.length, state => automaton.transitions[state].map(t => t.to));
+    const exponential = findExponentialAmbiguity(automaton, stateComponent, approximations);
+    const exponentialComponents = new Set(exponential.map(witness => stateComponent[witness.loopStates[0][0]]));
+    const polynomial = findPolynomialAmbiguity(automaton, stateComponent, exponentialComponents, approximations);
+
+    const findings: ReDoSFinding[] = [];
+    const exponentialLoops = new Set<string>();
+    const reported = new Set<string>();
+    for (const witness of [...exponential, ...polynomial]) {
+        const loops = witness.loopStates.map(states => describeLoop(automaton, nfa, source, states));
+        // Expanded counted repeats produce several copies of the same loop; report each combination once.
+        const key = `${witness.severity}:${loops.join('\u0000')}`;
+        if (reported.has(key) || findings.length >= MAX_FINDINGS) continue;
+        if (witness.severity === 'polynomial' && loops.some(loop => exponentialLoops.has(loop))) continue;
+        const pump = toText(automaton, witness.pump);
+        if (!pump) continue;
+        const frame = findFailingFrame(nfa, automaton, flags, toText(automaton, witness.prefix), pump);
+        if (!frame) continue; // Matching always succeeds early, so the ambiguity is never explored
+        const { prefix, suffix } = frame;
+        reported.add(key);
+        if (witness.severity === 'exponential') exponentialLoops.add(loops[0]);
+        const repetitions = witness.severity === 'exponential' ? EXPONENTIAL_PUMPS : Math.ceil(POLYNOMIAL_ATTACK_LENGTH / pump.length);
+        const failure = suffix ? ` on a trailing ${quote(suffix)}` : '';
+        const description = witness.severity === 'exponential'
+            ? `${loops[0]} can match ${quote(pump)} in more than one way, so each extra repetition doubles the backtracking when the match fails${failure}.`
+            : loops[0] === SEARCH_LOOP
+                ? `The pattern is not anchored, so when the match fails${failure} ${loops[1]} rescans repeated ${quote(pump)} from every start position: work grows with the square of the input length.`
+                : `${loops[0]} and ${loops[1]} can both consume repeated ${quote(pump)}, so when the match fails${failure} every split between them is tried: work grows with the square of the input length or worse.`;
+        findings.push({
+            severity: witness.severity,
+            loops,
+            description,
+            prefix,
+            pump,
+            suffix,
+            repetitions,
+            attackString: prefix + pump.repeat(repetitions) + suffix,
+        });
+    }
+
+    return { safe: findings.length === 0, findings, approximations: [...approximations] };
+};
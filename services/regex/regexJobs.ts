@@ -0,0 +1,99 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { analyzeReDoS } from './redosAnalyzer.ts';
+import type { ReDoSReport } from './redosAnalyzer.ts';
+import { runRegexTestSuite } from './regexTestSuite.ts';
+import type { RegexSuiteRun, RegexTestSuite } from './regexTestSuite.ts';
+
+// Work that may hang on a hostile pattern. Everything here is synchronous and returns plain data, so the same
+// function runs inside the regex worker or, with protection off, directly on the main thread.
+
+export interface RegexMatchJob {
+    kind: 'match';
+    source: string;
+    flags: string;
+    input: string;
+}
+
+export interface RegexProfileJob {
+    kind: 'profile';
+    source: string;
+    flags: string;
+    input: string;
+    iterations: number;
+}
+
+export interface RegexAnalyzeJob {
+    kind: 'analyze';
+    source: string;
+    flags: string;
+}
+
+export interface RegexSuiteJob {
+    kind: 'suite';
+    source: string;
+    flags: string;
+    suite: RegexTestSuite;
+    input: string; // Text for the replace and split previews
+}
+
+export type RegexJob = RegexMatchJob | RegexProfileJob | RegexAnalyzeJob | RegexSuiteJob;
+
+/** A match that survives structured cloning, unlike RegExpMatchArray with its extra properties. */
+export interface SerializedMatch {
+    values: (string | undefined)[]; // Full match, then each capture group
+    index: number;
+    groups?: Record<string, string | undefined>;
+}
+
+export interface RegexJobResults {
+    match: { matches: SerializedMatch[]; elapsedMs: number };
+    profile: { timesMs: number[]; matchesPerRun: number };
+    analyze: { report: ReDoSReport };
+    suite: { run: RegexSuiteRun };
+}
+
+export type RegexJobResult<K extends RegexJob['kind'] = RegexJob['kind']> = RegexJobResults[K];
+
+/** What the worker posts back for each job. Errors are flattened because Error objects lose their class in transit. */
+export type RegexWorkerResponse =
+    | { ok: true; result: RegexJobResult }
+    | { ok: false; error: { name: string; message: string } };
+
+const collectMatches = (regex: RegExp, input: string): SerializedMatch[] =>
+    [...input.matchAll(regex)].map(match => ({ values: [...match], index: match.index ?? 0, groups: match.groups && { ...match.groups } }));
+
+/** Runs a job to completion. Errors, including invalid patterns, are thrown as-is. */
+export const executeRegexJob = <J extends RegexJob>(job: J): RegexJobResult<J['kind']> => {
+    switch (job.kind) {
+        case 'match': {
+            const regex = new RegExp(job.source, job.flags);
+            const start = performance.now();
+            const matches = collectMatches(regex, job.input);
+            return { matches, elapsedMs: performance.now() - start } as RegexJobResult<J['kind']>;
+        }
+        case 'profile': {
+            const regex = new RegExp(job.source, job.flags);
+            const timesMs: number[] = [];
+            let totalMatches = 0;
+            for (let i = 0; i < job.iterations; i++) {
+                const start = performance.now();
+                totalMatches += collectMatches(regex, job.input).length;
+                timesMs.push(performance.now() - start);
+            }
+            return { timesMs, matchesPerRun: job.iterations ? totalMatches / job.iterations : 0 } as RegexJobResult<J['kind']>;
+        }
+        case 'analyze':
+            return { report: analyzeReDoS(job.source, job.flags) } as RegexJobResult<J['kind']>;
+        case 'suite':
+            return { run: runRegexTestSuite(job.source, job.flags, job.suite, job.input) } as RegexJobResult<J['kind']>;
+        default:
+            throw new Error(`Unknown regex job: ${(job as RegexJob).kind}`);
+    }
+};
@@ -0,0 +1,450 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A parser for JavaScript regular expressions that keeps enough structure for static analysis:
+// character sets as code point ranges, quantifier bounds, groups, assertions and source spans.
+// It follows the ECMAScript grammar, including the Annex B leniency of non-unicode patterns
+// (a stray `{` or `]` is a literal). Unicode property escapes are treated as "any character".
+
+export const MAX_CODE_POINT = 0x10ffff;
+
+/** Inclusive code point ranges, sorted and non-overlapping. */
+export type CharSet = [number, number][];
+
+export type AssertionKind = 'start' | 'end' | 'wordBoundary' | 'notWordBoundary';
+
+interface NodeSpan {
+    start: number; // Offsets into the pattern source
+    end: number;
+}
+
+export type RegexNode = NodeSpan & (
+    | { type: 'empty' }
+    | { type: 'chars'; set: CharSet }
+    | { type: 'sequence'; items: RegexNode[] }
+    | { type: 'alternation'; options: RegexNode[] }
+    | { type: 'group'; body: RegexNode; capturing: boolean; index?: number; name?: string; modifiers?: string }
+    | { type: 'repeat'; body: RegexNode; min: number; max: number; greedy: boolean } // max is Infinity when unbounded
+    | { type: 'assertion'; kind: AssertionKind }
+    | { type: 'lookaround'; body: RegexNode; behind: boolean; negate: boolean }
+    | { type: 'backreference'; ref: number | string }
+);
+
+export interface ParsedRegex {
+    source: string;
+    flags: string;
+    root: RegexNode;
+    groupCount: number;
+    groupNames: string[];
+}
+
+export class RegexSyntaxError extends SyntaxError {
+    constructor(message: string, public readonly position: number) {
+        super(`${message} at position ${position}`);
+        this.name = 'RegexSyntaxError';
+    }
+}
+
+// --- Character sets ---
+
+export const normalizeCharSet = (ranges: CharSet): CharSet => {
+    const sorted = ranges.filter(([from, to]) => from <= to).sort((a, b) => a[0] - b[0]);
+    const merged: CharSet = [];
+    for (const [from, to] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && from <= last[1] + 1) {
+            last[1] = Math.max(last[1], to);
+        } else {
+            merged.push([from, to]);
+        }
+    }
+    return merged;
+};
+
+export const negateCharSet = (set: CharSet): CharSet => {
+    const result: CharSet = [];
+    let next = 0;
+    for (const [from, to] of normalizeCharSet(set)) {
+        if (from > next) result.push([next, from - 1]);
+        next = to + 1;
+    }
+    if (next <= MAX_CODE_POINT) result.push([next, MAX_CODE_POINT]);
+    return result;
+};
+
+export const charSetHas = (set: CharSet, codePoint: number): boolean =>
+    set.some(([from, to]) => codePoint >= from && codePoint <= to);
+
+const range = (from: string, to: string = from): [number, number] => [from.codePointAt(0)!, to.codePointAt(0)!];
+
+export const DIGIT: CharSet = [range('0', '9')];
+export const WORD: CharSet = normalizeCharSet([range('0', '9'), range('A', 'Z'), range('_'), range('a', 'z')]);
+export const SPACE: CharSet = normalizeCharSet([
+    [0x09, 0x0d], [0x20, 0x20], [0xa0, 0xa0], [0x1680, 0x1680], [0x2000, 0x200a],
+    [0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff],
+]);
+export const LINE_TERMINATOR: CharSet = [[0x0a, 0x0a], [0x0d, 0x0d], [0x2028, 0x2029]];
+export const ANY: CharSet = [[0, MAX_CODE_POINT]];
+
+// Case-insensitive matching is modelled for ASCII letters only.
+const addAsciiCaseVariants = (set: CharSet): CharSet => {
+    const extra: CharSet = [];
+    for (const [from, to] of set) {
+        for (const [lower, upper, shift] of [[0x41, 0x5a, 0x20], [0x61, 0x7a, -0x20]]) {
+            const a = Math.max(from, lower);
+            const b = Math.min(to, upper);
+            if (a <= b) extra.push([a + shift, b + shift]);
+        }
+    }
+    return normalizeCharSet([...set, ...extra]);
+};
+
+// --- Parser ---
+
+const SYNTAX_CHARS = new Set('^$\\.*+?()[]{}|/'.split(''));
+
+class Parser {
+    private pos = 0;
+    private groupCount = 0;
+    private readonly groupNames: string[] = [];
+    private readonly unicode: boolean;
+    private readonly ignoreCase: boolean;
+    private readonly dotAll: boolean;
+    private readonly hasNamedGroups: boolean;
+
+    constructor(private readonly source: string, flags: string) {
+        this.unicode = flags.includes('u') || flags.includes('v');
+        this.ignoreCase = flags.includes('i');
+        this.dotAll = flags.includes('s');
+        this.hasNamedGroups = /\(\?<[^=!]/.test(source);
+    }
+
+    parse(): ParsedRegex['root'] {
+        const root = this.parseAlternation();
+        if (this.pos < this.source.length) {
+            throw new RegexSyntaxError(this.peek() === ')' ? 'Unmatched ")"' : `Unexpected "${this.peek()}"`, this.pos);
+        }
+        return root;
+    }
+
+    result(root: RegexNode, flags: string): ParsedRegex {
+        return { source: this.source, flags, root, groupCount: this.groupCount, groupNames: this.groupNames };
+    }
+
+    private peek(offset = 0): string {
+        return this.source[this.pos + offset] ?? '';
+    }
+
+    private eat(text: string): boolean {
+        if (!this.source.startsWith(text, this.pos)) return false;
+        this.pos += text.length;
+        return true;
+    }
+
+    private parseAlternation(): RegexNode {
+        const start = this.pos;
+        const options = [this.parseSequence()];
+        while (this.eat('|')) options.push(this.parseSequence());
+        return options.length === 1 ? options[0] : { type: 'alternation', options, start, end: this.pos };
+    }
+
+    private parseSequence(): RegexNode {
+        const start = this.pos;
+        const items: RegexNode[] = [];
+        while (this.pos < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+            items.push(this.parseQuantified());
+        }
+        if (items.length === 0) return { type: 'empty', start, end: this.pos };
+        return items.length === 1 ? items[0] : { type: 'sequence', items, start, end: this.pos };
+    }
+
+    private parseQuantified(): RegexNode {
+        const start = this.pos;
+        const atom = this.parseAtom();
+        const bounds = this.parseQuantifier();
+        if (!bounds) return atom;
+        if (atom.type === 'assertion' || (atom.type === 'lookaround' && (atom.behind || this.unicode))) {
+            throw new RegexSyntaxError('Nothing to repeat', start);
+        }
+        const greedy = !this.eat('?');
+        return { type: 'repeat', body: atom, min: bounds.min, max: bounds.max, greedy, start, end: this.pos };
+    }
+
+    private parseQuantifier(): { min: number; max: number } | null {
+        const char = this.peek();
+        if (char === '*') { this.pos++; return { min: 0, max: Infinity }; }
+        if (char === '+') { this.pos++; return { min: 1, max: Infinity }; }
+        if (char === '?') { this.pos++; return { min: 0, max: 1 }; }
+        if (char !== '{') return null;
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+        if (!match) {
+            if (this.unicode) throw new RegexSyntaxError('Incomplete quantifier', this.pos);
+            return null; // Annex B: a literal "{"
+        }
+        const min = Number(match[1]);
+        const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+        if (max < min) throw new RegexSyntaxError('Numbers out of order in {} quantifier', this.pos);
+        this.pos += match[0].length;
+        return { min, max };
+    }
+
+    private chars(set: CharSet, start: number): RegexNode {
+        return { type: 'chars', set: this.ignoreCase ? addAsciiCaseVariants(set) : normalizeCharSet(set), start, end: this.pos };
+    }
+
+    private parseAtom(): RegexNode {
+        const start = this.pos;
+        const char = this.peek();
+        switch (char) {
+            case '^': this.pos++; return { type: 'assertion', kind: 'start', start, end: this.pos };
+            case '$': this.pos++; return { type: 'assertion', kind: 'end', start, end: this.pos };
+            case '.':
+                this.pos++;
+                return this.chars(this.dotAll ? ANY : negateCharSet(LINE_TERMINATOR), start);
+            case '(': return this.parseGroup();
+            case '[': return this.parseClass();
+            case '\\': return this.parseAtomEscape();
+            case '*': case '+': case '?':
+                throw new RegexSyntaxError('Nothing to repeat', start);
+            case '{':
+                if (this.unicode || /^\{\d+(,\d*)?\}/.test(this.source.slice(this.pos))) throw new RegexSyntaxError('Nothing to repeat', start);
+                break;
+            case ')':
+                throw new RegexSyntaxError('Unmatched ")"', start);
+            case ']': case '}':
+                if (this.unicode) throw new RegexSyntaxError(`Lone "${char}"`, start);
+                break;
+        }
+        const codePoint = this.readSourceCodePoint();
+        return this.chars([[codePoint, codePoint]], start);
+    }
+
+    private readSourceCodePoint(): number {
+        const codePoint = this.unicode ? this.source.codePointAt(this.pos)! : this.source.charCodeAt(this.pos);
+        this.pos += codePoint > 0xffff ? 2 : 1;
+        return codePoint;
+    }
+
+    private parseGroup(): RegexNode {
+        const start = this.pos;
+        this.pos++; // (
+        let node: RegexNode;
+        if (this.eat('?:')) {
+            node = { type: 'group', body: this.parseAlternation(), capturing: false, start, end: 0 };
+        } else if (this.eat('?=') || this.eat('?!')) {
+            const negate = this.source[this.pos - 1] === '!';
+            node = { type: 'lookaround', body: this.parseAlternation(), behind: false, negate, start, end: 0 };
+        } else if (this.eat('?<=') || this.eat('?<!')) {
+            const negate = this.source[this.pos - 1] === '!';
+            node = { type: 'lookaround', body: this.parseAlternation(), behind: true, negate, start, end: 0 };
+        } else if (this.eat('?<')) {
+            const name = this.readGroupName();
+            if (this.groupNames.includes(name)) throw new RegexSyntaxError(`Duplicate capture group name "${name}"`, start);
+            const index = ++this.groupCount;
+            this.groupNames.push(name);
+            node = { type: 'group', body: this.parseAlternation(), capturing: true, index, name, start, end: 0 };
+        } else if (this.peek() === '?') {
+            // Pattern modifiers, e.g. (?i:...) or (?-i:...)
+            const match = /^\?([ims]*)(-[ims]*)?:/.exec(this.source.slice(this.pos));
+            if (!match) throw new RegexSyntaxError('Invalid group', start);
+            this.pos += match[0].length;
+            node = { type: 'group', body: this.parseAlternation(), capturing: false, modifiers: match[0].slice(1, -1), start, end: 0 };
+        } else {
+            const index = ++this.groupCount;
+            node = { type: 'group', body: this.parseAlternation(), capturing: true, index, start, end: 0 };
+        }
+        if (!this.eat(')')) throw new RegexSyntaxError('Unterminated group', start);
+        node.end = this.pos;
+        return node;
+    }
+
+    private readGroupName(): string {
+        const match = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*>/u.exec(this.source.slice(this.pos));
+        if (!match) throw new RegexSyntaxError('Invalid capture group name', this.pos);
+        this.pos += match[0].length;
+        return match[0].slice(0, -1);
+    }
+
+    private parseAtomEscape(): RegexNode {
+        const start = this.pos;
+        this.pos++; // \
+        const char = this.peek();
+        if (char === '') throw new RegexSyntaxError('\\ at end of pattern', start);
+        if (char === 'b' || char === 'B') {
+            this.pos++;
+            return { type: 'assertion', kind: char === 'b' ? 'wordBoundary' : 'notWordBoundary', start, end: this.pos };
+        }
+        if (/[1-9]/.test(char)) {
+            const digits = /^\d+/.exec(this.source.slice(this.pos))![0];
+            // Without that many groups in the whole pattern, Annex B reads it as an octal or identity escape.
+            if (this.unicode || Number(digits) <= this.countGroupsInSource()) {
+                this.pos += digits.length;
+                return { type: 'backreference', ref: Number(digits), start, end: this.pos };
+            }
+        }
+        if (char === 'k' && (this.unicode || this.hasNamedGroups)) {
+            this.pos++;
+            if (!this.eat('<')) throw new RegexSyntaxError('Invalid named reference', start);
+            const name = this.readGroupName();
+            return { type: 'backreference', ref: name, start, end: this.pos };
+        }
+        return this.chars(this.parseCharacterEscape(false), start);
+    }
+
+    private groupsInSource: number | null = null;
+
+    private countGroupsInSource(): number {
+        if (this.groupsInSource === null) {
+            // Counts "(" that open capturing groups, skipping escapes and classes.
+            let count = 0;
+            let inClass = false;
+            for (let i = 0; i < this.source.length; i++) {
+                const char = this.source[i];
+                if (char === '\\') { i++; continue; }
+                if (inClass) { if (char === ']') inClass = false; continue; }
+                if (char === '[') inClass = true;
+                else if (char === '(' && (this.source[i + 1] !== '?' || (this.source[i + 2] === '<' && !'=!'.includes(this.source[i + 3])))) count++;
+            }
+            this.groupsInSource = count;
+        }
+        return this.groupsInSource;
+    }
+
+    /** Reads the escape after a backslash (already consumed) and returns the characters it stands for. */
+    private parseCharacterEscape(inClass: boolean): CharSet {
+        const start = this.pos - 1;
+        const char = this.source[this.pos++];
+        switch (char) {
+            case 'd': return DIGIT;
+            case 'D': return negateCharSet(DIGIT);
+            case 'w': return WORD;
+            case 'W': return negateCharSet(WORD);
+            case 's': return SPACE;
+            case 'S': return negateCharSet(SPACE);
+            case 't': return [[0x09, 0x09]];
+            case 'n': return [[0x0a, 0x0a]];
+            case 'v': return [[0x0b, 0x0b]];
+            case 'f': return [[0x0c, 0x0c]];
+            case 'r': return [[0x0d, 0x0d]];
+            case 'b': if (inClass) return [[0x08, 0x08]]; break;
+            case '-': if (inClass && this.unicode) return [[0x2d, 0x2d]]; break;
+            case 'c': {
+                const letter = this.peek();
+                if (/[a-zA-Z]/.test(letter)) {
+                    this.pos++;
+                    const code = letter.charCodeAt(0) % 32;
+                    return [[code, code]];
+                }
+                if (this.unicode) throw new RegexSyntaxError('Invalid unicode escape', start);
+                this.pos--; // Annex B: "\c" is a literal backslash followed by "c"
+                return [[0x5c, 0x5c]];
+            }
+            case '0':
+                if (!/\d/.test(this.peek())) return [[0, 0]];
+                if (this.unicode) throw new RegexSyntaxError('Invalid decimal escape', start);
+                break;
+            case 'x': {
+                const hex = /^[0-9a-fA-F]{2}/.exec(this.source.slice(this.pos));
+                if (hex) {
+                    this.pos += 2;
+                    const code = parseInt(hex[0], 16);
+                    return [[code, code]];
+                }
+                if (this.unicode) throw new RegexSyntaxError('Invalid escape', start);
+                return [[0x78, 0x78]];
+            }
+            case 'u': {
+                const braced = this.unicode ? /^\{([0-9a-fA-F]+)\}/.exec(this.source.slice(this.pos)) : null;
+                if (braced) {
+                    const code = parseInt(braced[1], 16);
+                    if (code > MAX_CODE_POINT) throw new RegexSyntaxError('Invalid Unicode escape', start);
+                    this.pos += braced[0].length;
+                    return [[code, code]];
+                }
+                const hex = /^[0-9a-fA-F]{4}/.exec(this.source.slice(this.pos));
+                if (hex) {
+                    this.pos += 4;
+                    const code = parseInt(hex[0], 16);
+                    return [[code, code]];
+                }
+                if (this.unicode) throw new RegexSyntaxError('Invalid Unicode escape', start);
+                return [[0x75, 0x75]];
+            }
+            case 'p': case 'P':
+                if (this.unicode) {
+                    const property = /^\{[A-Za-z0-9_=]+\}/.exec(this.source.slice(this.pos));
+                    if (!property) throw new RegexSyntaxError('Invalid property name', start);
+                    this.pos += property[0].length;
+                    return ANY;
+                }
+                break;
+        }
+        if (/[0-7]/.test(char) && !this.unicode) {
+            // Annex B legacy octal escape, up to \377
+            const octal = /^[0-7]{1,3}/.exec(this.source.slice(this.pos - 1))![0];
+            const value = parseInt(octal, 8) > 0o377 ? octal.slice(0, 2) : octal;
+            this.pos += value.length - 1;
+            const code = parseInt(value, 8);
+            return [[code, code]];
+        }
+        if (this.unicode && !SYNTAX_CHARS.has(char) && !(inClass && char === '-')) {
+            throw new RegexSyntaxError('Invalid escape', start);
+        }
+        this.pos--;
+        const codePoint = this.readSourceCodePoint();
+        return [[codePoint, codePoint]];
+    }
+
+    private parseClass(): RegexNode {
+        const start = this.pos;
+        this.pos++; // [
+        const negated = this.eat('^');
+        const ranges: CharSet = [];
+        while (this.peek() !== ']') {
+            if (this.pos >= this.source.length) throw new RegexSyntaxError('Unterminated character class', start);
+            const from = this.parseClassAtom();
+            if (this.peek() === '-' && this.peek(1) !== ']' && this.peek(1) !== '') {
+                this.pos++; // -
+                const to = this.parseClassAtom();
+                if (from.length !== 1 || to.length !== 1 || from[0][0] !== from[0][1] || to[0][0] !== to[0][1]) {
+                    if (this.unicode) throw new RegexSyntaxError('Invalid character class', start);
+                    ranges.push(...from, [0x2d, 0x2d], ...to); // Annex B: [\w-z] is \w, "-" and "z"
+                    continue;
+                }
+                if (from[0][0] > to[0][0]) throw new RegexSyntaxError('Range out of order in character class', start);
+                ranges.push([from[0][0], to[0][0]]);
+            } else {
+                ranges.push(...from);
+            }
+        }
+        this.pos++; // ]
+        const set = this.ignoreCase ? addAsciiCaseVariants(ranges) : normalizeCharSet(ranges);
+        return { type: 'chars', set: negated ? negateCharSet(set) : set, start, end: this.pos };
+    }
+
+    private parseClassAtom(): CharSet {
+        if (this.eat('\\')) return this.parseCharacterEscape(true);
+        const codePoint = this.readSourceCodePoint();
+        return [[codePoint, codePoint]];
+    }
+}
+
+/**
+ * Parses a pattern with the given flags.
+ * @throws RegexSyntaxError for patterns the JavaScript engine would also reject. Flags are not validated.
+ */
+export const parseRegex = (source: string, flags = ''): ParsedRegex => {
+    const parser = new Parser(source, flags);
+    return parser.result(parser.parse(), flags);
+};
+
+/** Splits a `/pattern/flags` literal as typed in the sandbox. Returns null when it is not one. */
+export const parseRegexLiteral = (literal: string): { source: string; flags: string } | null => {
+    const match = /^\/(.*)\/([dgimsuvy]*)$/s.exec(literal);
+    return match ? { source: match[1], flags: match[2] } : null;
+};
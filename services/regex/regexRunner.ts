@@ -0,0 +1,123 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { executeRegexJob } from './regexJobs.ts';
+import type { RegexJob, RegexJobResult, RegexWorkerResponse } from './regexJobs.ts';
+
+// Runs regex jobs in a dedicated worker so a catastrophic pattern can only stall the worker, never the page.
+// Jobs run one at a time and each gets a hard deadline from the moment it starts; on overrun the worker is
+// terminated (the only way to stop a running RegExp) and a fresh one is started for the next job.
+
+export class RegexTimeoutError extends Error {
+    constructor(readonly timeoutMs: number) {
+        super(`Regex execution took longer than ${timeoutMs} ms and was stopped.`);
+        this.name = 'RegexTimeoutError';
+    }
+}
+
+export interface RegexRunOptions {
+    timeoutMs: number;
+    signal?: AbortSignal; // Cancels a queued job, or stops a running one by restarting the worker
+    isolated?: boolean; // false runs the job on the calling thread without a deadline; defaults to true
+}
+
+interface QueuedJob {
+    job: RegexJob;
+    options: RegexRunOptions;
+    resolve: (result: RegexJobResult) => void;
+    reject: (error: unknown) => void;
+}
+
+let worker: Worker | null = null;
+const queue: QueuedJob[] = [];
+let active: { entry: QueuedJob; timer: ReturnType<typeof setTimeout> } | null = null;
+
+const abortError = () => new DOMException('The regex job was cancelled.', 'AbortError');
+
+const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+};
+
+const settleActive = (settle: (entry: QueuedJob) => void) => {
+    if (!active) return;
+    const { entry, timer } = active;
+    active = null;
+    clearTimeout(timer);
+    entry.options.signal?.removeEventListener('abort', onActiveAbort);
+    settle(entry);
+    startNext();
+};
+
+function onActiveAbort() {
+    stopWorker();
+    settleActive(entry => entry.reject(abortError()));
+}
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./regexWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<RegexWorkerResponse>) => {
+        const response = event.data;
+        settleActive(entry => {
+            if (response.ok) {
+                entry.resolve(response.result);
+            } else {
+                const error = new Error(response.error.message);
+                error.name = response.error.name;
+                entry.reject(error);
+            }
+        });
+    };
+    worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        stopWorker();
+        settleActive(entry => entry.reject(new Error(event.message || 'The regex worker crashed.')));
+    };
+    return worker;
+};
+
+function startNext() {
+    if (active) return;
+    const entry = queue.shift();
+    if (!entry) return;
+    const timer = setTimeout(() => {
+        stopWorker();
+        settleActive(timedOut => timedOut.reject(new RegexTimeoutError(timedOut.options.timeoutMs)));
+    }, entry.options.timeoutMs);
+    active = { entry, timer };
+    entry.options.signal?.addEventListener('abort', onActiveAbort, { once: true });
+    getWorker().postMessage(entry.job);
+}
+
+/**
+ * Runs `job` in the regex worker, rejecting with RegexTimeoutError if it runs past `timeoutMs`.
+ * With `isolated: false` the job runs synchronously on the calling thread instead, with no deadline.
+ */
+export const runRegexJob = <J extends RegexJob>(job: J, options: RegexRunOptions): Promise<RegexJobResult<J['kind']>> => {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+    if (options.isolated === false) {
+        try {
+            return Promise.resolve(executeRegexJob(job));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    return new Promise((resolve, reject) => {
+        const entry: QueuedJob = { job, options, resolve: resolve as QueuedJob['resolve'], reject };
+        queue.push(entry);
+        options.signal?.addEventListener('abort', () => {
+            const position = queue.indexOf(entry);
+            if (position === -1) return; // Already running; onActiveAbort handles it
+            queue.splice(position, 1);
+            reject(abortError());
+        }, { once: true });
+        startNext();
+    });
+};
@@ -0,0 +1,119 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseRegex } from './regexParser.ts';
+import type { RegexNode } from './regexParser.ts';
+
+// Test suites saved alongside a regex: inputs that must match (optionally with expected capture values) and
+// inputs that must not, plus a replacement template used for the replace preview. Cases only look at the first
+// match, the way `RegExp.prototype.exec` would.
+
+export interface RegexMatchCase {
+    input: string;
+    captures: Record<string, string>; // Group number or name -> expected value; groups left out are not checked
+}
+
+export interface RegexTestSuite {
+    mustMatch: RegexMatchCase[];
+    mustNotMatch: string[];
+    replaceTemplate: string; // JavaScript replacement syntax: $1, $<name>, $&, $$
+}
+
+export interface RegexCaptureMismatch {
+    group: string;
+    expected: string;
+    actual: string | undefined; // undefined when the group did not take part in the match
+}
+
+export interface RegexCaseResult {
+    passed: boolean;
+    match: string | null; // Text of the first match
+    captures: Record<string, string | undefined>; // Actual values by group number and name
+    mismatches: RegexCaptureMismatch[];
+}
+
+export interface RegexSuiteRun {
+    mustMatch: RegexCaseResult[];
+    mustNotMatch: RegexCaseResult[];
+    replacePreview: string;
+    splitPreview: (string | undefined)[]; // Groups that did not participate split out as undefined
+}
+
+export const EMPTY_TEST_SUITE: RegexTestSuite = { mustMatch: [], mustNotMatch: [], replaceTemplate: '$&' };
+
+const readCaptures = (match: RegExpExecArray | null): Record<string, string | undefined> => {
+    if (!match) return {};
+    const captures: Record<string, string | undefined> = {};
+    for (let i = 1; i < match.length; i++) captures[String(i)] = match[i];
+    for (const [name, value] of Object.entries(match.groups ?? {})) captures[name] = value;
+    return captures;
+};
+
+/**
+ * Capture groups of a pattern in order, keyed the way suites store expected captures: the name for named
+ * groups, the number otherwise.
+ * @throws RegexSyntaxError when the pattern does not parse.
+ */
+export const listCaptureGroups = (source: string, flags: string): string[] => {
+    const groups: string[] = [];
+    const visit = (node: RegexNode) => {
+        switch (node.type) {
+            case 'group':
+                if (node.capturing) groups.push(node.name ?? String(node.index));
+                visit(node.body);
+                break;
+            case 'repeat':
+            case 'lookaround':
+                visit(node.body);
+                break;
+            case 'sequence':
+                node.items.forEach(visit);
+                break;
+            case 'alternation':
+                node.options.forEach(visit);
+                break;
+        }
+    };
+    visit(parseRegex(source, flags).root);
+    return groups;
+};
+
+/**
+ * Runs every case of `suite` and builds the replace and split previews for `previewInput`.
+ * @throws SyntaxError when the pattern or flags are invalid.
+ */
+export const runRegexTestSuite = (source: string, flags: string, suite: RegexTestSuite, previewInput: string): RegexSuiteRun => {
+    // Each case gets a fresh first-match search; the global flag only matters for the previews.
+    const firstMatch = new RegExp(source, flags.replace('g', ''));
+    const exec = (input: string) => {
+        firstMatch.lastIndex = 0;
+        return firstMatch.exec(input);
+    };
+
+    const mustMatch = suite.mustMatch.map(({ input, captures: expected }): RegexCaseResult => {
+        const match = exec(input);
+        const captures = readCaptures(match);
+        const mismatches = match
+            ? Object.entries(expected).filter(([group, value]) => captures[group] !== value).map(([group, value]) => ({ group, expected: value, actual: captures[group] }))
+            : [];
+        return { passed: match !== null && mismatches.length === 0, match: match?.[0] ?? null, captures, mismatches };
+    });
+
+    const mustNotMatch = suite.mustNotMatch.map((input): RegexCaseResult => {
+        const match = exec(input);
+        return { passed: match === null, match: match?.[0] ?? null, captures: readCaptures(match), mismatches: [] };
+    });
+
+    const previewRegex = new RegExp(source, flags);
+    return {
+        mustMatch,
+        mustNotMatch,
+        replacePreview: previewInput.replace(previewRegex, suite.replaceTemplate),
+        splitPreview: previewInput.split(new RegExp(source, flags)),
+    };
+};
@@ -0,0 +1,25 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { executeRegexJob } from './regexJobs.ts';
+import type { RegexJob, RegexWorkerResponse } from './regexJobs.ts';
+
+// Worker entry point. It handles one job at a time; the runner terminates it when a job overruns.
+
+self.onmessage = (event: MessageEvent<RegexJob>) => {
+    let response: RegexWorkerResponse;
+    try {
+        response = { ok: true, result: executeRegexJob(event.data) };
+    } catch (error) {
+        response = {
+            ok: false,
+            error: error instanceof Error ? { name: error.name, message: error.message } : { name: 'Error', message: String(error) },
+        };
+    }
+    self.postMessage(response);
+};
@@ -0,0 +1,127 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getLinkableProps } from '../components/features/manifest.ts';
+import type { LinkablePropType } from '../components/features/manifest.ts';
+
+// Deep links live in the hash (`#/regex-sandbox?initialPattern=...`) so they work without any server-side
+// routing. Only the props a feature declares as linkable in the manifest are written or read.
+const ROUTE_PREFIX = '#/';
+// Past this an encoded prop makes the link impractical to share, so it is left out.
+const MAX_LINK_PROP_LENGTH = 8000;
+
+export interface FeatureLocation {
+    featureId: string;
+    props: Record<string, any>;
+}
+
+const encodeProp = (value: any, type: LinkablePropType): string | null => {
+    if (value === undefined || value === null) return null;
+    switch (type) {
+        case 'string': return typeof value === 'string' ? value : null;
+        case 'number': return typeof value === 'number' && Number.isFinite(value) ? String(value) : null;
+        case 'boolean': return typeof value === 'boolean' ? String(value) : null;
+        case 'json':
+            try {
+                return JSON.stringify(value);
+            } catch {
+                return null;
+            }
+    }
+};
+
+const decodeProp = (raw: string, type: LinkablePropType): { value: any } | null => {
+    switch (type) {
+        case 'string': return { value: raw };
+        case 'number': {
+            const value = Number(raw);
+            return raw.trim() !== '' && Number.isFinite(value) ? { value } : null;
+        }
+        case 'boolean': return raw === 'true' || raw === 'false' ? { value: raw === 'true' } : null;
+        case 'json':
+            try {
+                return { value: JSON.parse(raw) };
+            } catch {
+                return null;
+            }
+    }
+};
+
+/** Builds the hash for a feature, keeping only its linkable props. */
+export const buildFeatureHash = (featureId: string, props: Record<string, any> = {}): string => {
+    const params = new URLSearchParams();
+    Object.entries(getLinkableProps(featureId)).forEach(([name, type]) => {
+        const encoded = encodeProp(props[name], type);
+        if (encoded !== null && encoded.length <= MAX_LINK_PROP_LENGTH) params.set(name, encoded);
+    });
+    const query = params.toString();
+    return `${ROUTE_PREFIX}${encodeURIComponent(featureId)}${query ? `?${query}` : ''}`;
+};
+
+/**
+ * Reads a feature and its linkable props from a hash. Undeclared or malformed props are dropped.
+ * @returns null when the hash is not a feature route. Whether the feature exists is up to the caller.
+ */
+export const parseFeatureHash = (hash: string): FeatureLocation | null => {
+    if (!hash.startsWith(ROUTE_PREFIX)) return null;
+    const route = hash.slice(ROUTE_PREFIX.length);
+    const queryStart = route.indexOf('?');
+    let featureId: string;
+    try {
+        featureId = decodeURIComponent(queryStart === -1 ? route : route.slice(0, queryStart));
+    } catch {
+        return null;
+    }
+    if (!featureId) return null;
+
+    const params = new URLSearchParams(queryStart === -1 ? '' : route.slice(queryStart + 1));
+    const props: Record<string, any> = {};
+    Object.entries(getLinkableProps(featureId)).forEach(([name, type]) => {
+        const raw = params.get(name);
+        if (raw === null) return;
+        const decoded = decodeProp(raw, type);
+        if (decoded) props[name] = decoded.value;
+    });
+    return { featureId, props };
+};
+
+export const getFeatureLocation = (): FeatureLocation | null => parseFeatureHash(window.location.hash);
+
+/** Returns an absolute, shareable URL that opens the feature with the given props. */
+export const buildFeatureLink = (featureId: string, props?: Record<string, any>): string => {
+    const { origin, pathname, search } = window.location;
+    return `${origin}${pathname}${search}${buildFeatureHash(featureId, props)}`;
+};
+
+/**
+ * Points the address bar at a feature. Switching to another feature pushes a history entry so back/forward
+ * move between feature views; the first route and prop changes within the same feature replace the entry.
+ */
+export const syncFeatureLocation = (featureId: string, props?: Record<string, any>): void => {
+    const hash = buildFeatureHash(featureId, props);
+    const current = getFeatureLocation();
+    if (current && buildFeatureHash(current.featureId, current.props) === hash) return;
+    if (current && current.featureId !== featureId) {
+        window.history.pushState(null, '', hash);
+    } else {
+        window.history.replaceState(null, '', hash);
+    }
+};
+
+/**
+ * Calls `listener` when back/forward or an edited address bar lands on a feature route.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToFeatureLocation = (listener: (location: FeatureLocation) => void): (() => void) => {
+    const handlePopState = () => {
+        const location = getFeatureLocation();
+        if (location) listener(location);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+};
@@ -0,0 +1,125 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { importSchemaFromPrisma, importSchemaFromSql } from './schemaImport.ts';
+import type { SchemaImportFormat, SchemaImportResult } from './schemaImport.ts';
+import type { Column } from './schemaModel.ts';
+
+// Fixture-driven checks for the DDL and Prisma importers. Each fixture lists the column properties and foreign keys
+// the import must produce, and the issues it must report; any other issue fails the fixture.
+
+interface SchemaImportFixture {
+    name: string;
+    format: SchemaImportFormat;
+    source: string;
+    expectedColumns: Record<string, Partial<Column>>; // Keyed by "table.column"
+    expectedForeignKeys?: string[]; // "table.column -> table.column"
+    expectedIssues?: RegExp[];
+}
+
+const SCHEMA_IMPORT_FIXTURES: SchemaImportFixture[] = [
+    {
+        name: 'identity before PRIMARY KEY keeps the key',
+        format: 'sql',
+        source: `CREATE TABLE posts (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  title text NOT NULL
+);`,
+        expectedColumns: {
+            'posts.id': { isPrimaryKey: true, autoIncrement: true, isNullable: false },
+            'posts.title': { isNullable: false },
+        },
+    },
+    {
+        name: 'identity with sequence options after PRIMARY KEY',
+        format: 'sql',
+        source: `CREATE TABLE posts (
+  id bigint PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (START WITH 10 INCREMENT BY 1)
+);`,
+        expectedColumns: { 'posts.id': { isPrimaryKey: true, autoIncrement: true, isNullable: false } },
+    },
+    {
+        name: 'options after a stored generated column still apply',
+        format: 'sql',
+        source: `CREATE TABLE users (id int PRIMARY KEY);
+CREATE TABLE posts (
+  id int PRIMARY KEY,
+  owner_id int,
+  author_id int GENERATED ALWAYS AS (owner_id + 0) STORED NOT NULL REFERENCES users (id)
+);`,
+        expectedColumns: { 'posts.author_id': { isNullable: false } },
+        expectedForeignKeys: ['posts.author_id -> users.id'],
+        expectedIssues: [/Generated column posts\.author_id imported as a plain column/],
+    },
+    {
+        name: 'options before a stored generated column still apply',
+        format: 'sql',
+        source: `CREATE TABLE users (id int PRIMARY KEY);
+CREATE TABLE posts (
+  id int PRIMARY KEY,
+  owner_id int,
+  author_id int NOT NULL REFERENCES users (id) GENERATED ALWAYS AS (owner_id + 0) STORED
+);`,
+        expectedColumns: { 'posts.author_id': { isNullable: false } },
+        expectedForeignKeys: ['posts.author_id -> users.id'],
+        expectedIssues: [/Generated column posts\.author_id imported as a plain column/],
+    },
+    {
+        name: 'one-line Prisma enum keeps every member',
+        format: 'prisma',
+        source: `enum Role { USER ADMIN }
+
+model User {
+  id   Int  @id
+  role Role
+}`,
+        expectedColumns: { 'User.role': { type: 'ENUM', enumOptions: ['USER', 'ADMIN'] } },
+    },
+    {
+        name: 'Prisma enum members ignore @map and block attributes',
+        format: 'prisma',
+        source: `enum Role {
+  USER  @map("user")
+  ADMIN @map("admin role")
+  @@map("roles")
+}
+
+model User {
+  id   Int  @id
+  role Role
+}`,
+        expectedColumns: { 'User.role': { type: 'ENUM', enumOptions: ['USER', 'ADMIN'] } },
+    },
+];
+
+const importFixture = (fixture: SchemaImportFixture): SchemaImportResult =>
+    fixture.format === 'prisma' ? importSchemaFromPrisma(fixture.source) : importSchemaFromSql(fixture.source);
+
+describe('schema import', () => {
+    it.each(SCHEMA_IMPORT_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s', (_name, fixture) => {
+        const result = importFixture(fixture);
+        const columnName = (tableId: string, columnId: string) => {
+            const table = result.tables.find(t => t.id === tableId);
+            return `${table?.name}.${table?.columns.find(c => c.id === columnId)?.name}`;
+        };
+
+        Object.entries(fixture.expectedColumns).forEach(([path, expected]) => {
+            const [tableName, name] = path.split('.');
+            const column = result.tables.find(t => t.name === tableName)?.columns.find(c => c.name === name);
+            expect(column, path).toMatchObject(expected);
+        });
+        if (fixture.expectedForeignKeys) {
+            const keys = result.relationships.map(r => `${columnName(r.fromTableId, r.fromColumnId)} -> ${columnName(r.toTableId, r.toColumnId)}`);
+            expect(keys).toEqual(fixture.expectedForeignKeys);
+        }
+        const expectedIssues = fixture.expectedIssues ?? [];
+        expect(result.issues.map(issue => issue.message)).toHaveLength(expectedIssues.length);
+        expectedIssues.forEach((pattern, i) => expect(result.issues[i].message).toMatch(pattern));
+    });
+});
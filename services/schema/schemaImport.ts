@@ -0,0 +1,960 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Column, ColumnType, DatabaseDialect, Index, IndexType, Relationship, Table, View } from './schemaModel.ts';
+
+// Invented: Schema importers. DDL scripts and `schema.prisma` files are parsed into the designer's model so
+// existing databases can be edited and migrated. Anything the model cannot express is skipped and reported
+// with its line number instead of failing the whole import.
+export type SchemaImportFormat = 'sql' | 'prisma';
+
+export interface SchemaImportIssue {
+    line: number;
+    message: string;
+}
+
+export interface SchemaImportResult {
+    tables: Table[];
+    relationships: Relationship[];
+    views: View[];
+    dialect?: DatabaseDialect;
+    issues: SchemaImportIssue[];
+}
+
+const IMPORTED_TABLE_COLORS = ['#fca5a5', '#a5cafa', '#a7fca5', '#c2a5fc', '#fcd9a5', '#a5f3fc'];
+
+const importedTableHeight = (table: Table) => 60 + table.columns.length * 24;
+
+// Invented: Layered auto-layout. Referenced tables go in the leftmost column and every table sits one column
+// to the right of the deepest table it references, so foreign key lines mostly point left.
+export const layoutImportedTables = (tables: Table[], relationships: Relationship[], origin: { x: number; y: number } = { x: 50, y: 50 }): Table[] => {
+    const layers = new Map<string, number>(tables.map(t => [t.id, 0]));
+    // Bounded relaxation, so reference cycles cannot loop forever.
+    for (let pass = 0; pass < tables.length; pass++) {
+        let changed = false;
+        relationships.forEach(r => {
+            if (r.fromTableId === r.toTableId || !layers.has(r.fromTableId) || !layers.has(r.toTableId)) return;
+            const layer = layers.get(r.toTableId)! + 1;
+            if (layer > layers.get(r.fromTableId)! && layer < tables.length) {
+                layers.set(r.fromTableId, layer);
+                changed = true;
+            }
+        });
+        if (!changed) break;
+    }
+    const nextY = new Map<number, number>();
+    return tables.map((table, index) => {
+        const layer = layers.get(table.id)!;
+        const y = nextY.get(layer) ?? origin.y;
+        const height = importedTableHeight(table);
+        nextY.set(layer, y + height + 40);
+        return { ...table, x: origin.x + layer * 320, y, height, color: IMPORTED_TABLE_COLORS[index % IMPORTED_TABLE_COLORS.length] };
+    });
+};
+
+const newImportedTable = (name: string): Table => ({
+    id: uuidv4(), name, columns: [], indexes: [], constraints: [], x: 0, y: 0, width: 250, height: 60, color: IMPORTED_TABLE_COLORS[0], tags: ['imported'],
+});
+
+const newImportedColumn = (name: string): Column => ({
+    id: uuidv4(), name, type: 'TEXT', isNullable: true, isPrimaryKey: false, isUnique: false,
+});
+
+type ReferentialAction = Relationship['onDelete'];
+
+// Foreign keys are collected by name and resolved once every table is known, since ALTER TABLE can come later.
+interface PendingForeignKey {
+    name?: string;
+    table: string;
+    column: string;
+    referencedTable: string;
+    referencedColumn?: string; // Defaults to the referenced table's primary key
+    onDelete: ReferentialAction;
+    onUpdate: ReferentialAction;
+    line: number;
+}
+
+const resolvePendingForeignKeys = (tables: Table[], pending: PendingForeignKey[], issues: SchemaImportIssue[]): Relationship[] => {
+    const findTable = (name: string) => tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+    const findColumn = (table: Table, name: string) => table.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+    return pending.flatMap(fk => {
+        const table = findTable(fk.table);
+        const referenced = findTable(fk.referencedTable);
+        const column = table && findColumn(table, fk.column);
+        const referencedColumn = referenced && (fk.referencedColumn ? findColumn(referenced, fk.referencedColumn) : referenced.columns.find(c => c.isPrimaryKey));
+        if (!table || !referenced || !column || !referencedColumn) {
+            issues.push({ line: fk.line, message: `Foreign key ${fk.table}.${fk.column} -> ${fk.referencedTable}${fk.referencedColumn ? `.${fk.referencedColumn}` : ''} does not resolve to imported columns; skipped.` });
+            return [];
+        }
+        return [{
+            id: uuidv4(),
+            fromTableId: table.id,
+            fromColumnId: column.id,
+            toTableId: referenced.id,
+            toColumnId: referencedColumn.id,
+            name: fk.name || `${table.name}_${column.name}_fkey`,
+            cardinality: column.isUnique || column.isPrimaryKey ? 'one-to-one' : 'many-to-one',
+            onDelete: fk.onDelete,
+            onUpdate: fk.onUpdate,
+            controlPoints: [],
+        } as Relationship];
+    });
+};
+
+// --- SQL DDL ---
+
+interface SqlToken {
+    kind: 'word' | 'ident' | 'string' | 'number' | 'punct';
+    value: string; // Unquoted for identifiers, verbatim for everything else
+    line: number;
+    start: number;
+    end: number;
+}
+
+const tokenizeSql = (sql: string): SqlToken[] => {
+    const tokens: SqlToken[] = [];
+    let i = 0;
+    let line = 1;
+    const advance = (to: number) => {
+        for (let k = i; k < to; k++) if (sql[k] === '\n') line++;
+        i = to;
+    };
+    while (i < sql.length) {
+        const char = sql[i];
+        const rest = sql.slice(i);
+        if (/\s/.test(char)) { advance(i + 1); continue; }
+        if (rest.startsWith('--') || char === '#') { const end = sql.indexOf('\n', i); advance(end === -1 ? sql.length : end); continue; }
+        if (rest.startsWith('/*')) { const end = sql.indexOf('*/', i + 2); advance(end === -1 ? sql.length : end + 2); continue; }
+        const startLine = line;
+        const push = (kind: SqlToken['kind'], value: string, end: number) => {
+            tokens.push({ kind, value, line: startLine, start: i, end });
+            advance(end);
+        };
+        const dollar = rest.match(/^\$(\w*)\$/);
+        if (dollar) {
+            const close = sql.indexOf(dollar[0], i + dollar[0].length);
+            const end = close === -1 ? sql.length : close + dollar[0].length;
+            push('string', sql.slice(i, end), end);
+            continue;
+        }
+        if (char === '\'' || ((char === 'E' || char === 'e' || char === 'N') && sql[i + 1] === '\'')) {
+            let k = sql.indexOf('\'', i) + 1;
+            while (k < sql.length && !(sql[k] === '\'' && sql[k + 1] !== '\'')) k += sql[k] === '\'' || sql[k] === '\\' ? 2 : 1;
+            push('string', sql.slice(i, k + 1), k + 1);
+            continue;
+        }
+        // `[` quotes SQL Server identifiers, but `[]`/`[3]` are PostgreSQL array bounds.
+        const quote = char === '"' ? '"' : char === '`' ? '`' : char === '[' && /[^\]\d]/.test(sql[i + 1] || '') ? ']' : null;
+        if (quote) {
+            const close = sql.indexOf(quote, i + 1);
+            const end = close === -1 ? sql.length : close + 1;
+            push('ident', sql.slice(i + 1, end - 1), end);
+            continue;
+        }
+        const word = rest.match(/^[A-Za-z_][\w$]*/);
+        if (word) { push('word', word[0], i + word[0].length); continue; }
+        const number = rest.match(/^\d+(\.\d+)?/);
+        if (number) { push('number', number[0], i + number[0].length); continue; }
+        push('punct', rest.startsWith('::') ? '::' : char, i + (rest.startsWith('::') ? 2 : 1));
+    }
+    return tokens;
+};
+
+const splitSqlStatements = (tokens: SqlToken[]): SqlToken[][] => {
+    const statements: SqlToken[][] = [[]];
+    tokens.forEach(token => {
+        if (token.kind === 'punct' && token.value === ';') statements.push([]);
+        else statements[statements.length - 1].push(token);
+    });
+    return statements.filter(statement => statement.length > 0);
+};
+
+// Cursor over one statement's tokens. `word` matching is case-insensitive and never matches identifiers.
+class SqlCursor {
+    constructor(private tokens: SqlToken[], private sql: string, public pos = 0) {}
+
+    get done() { return this.pos >= this.tokens.length; }
+    peek(offset = 0): SqlToken | undefined { return this.tokens[this.pos + offset]; }
+    next(): SqlToken | undefined { return this.tokens[this.pos++]; }
+    get line() { return (this.peek() || this.tokens[this.tokens.length - 1]).line; }
+
+    isWord(...words: string[]): boolean {
+        return words.every((word, offset) => {
+            const token = this.peek(offset);
+            return token?.kind === 'word' && token.value.toUpperCase() === word;
+        });
+    }
+
+    acceptWord(...words: string[]): boolean {
+        if (!this.isWord(...words)) return false;
+        this.pos += words.length;
+        return true;
+    }
+
+    isPunct(value: string): boolean {
+        const token = this.peek();
+        return token?.kind === 'punct' && token.value === value;
+    }
+
+    acceptPunct(value: string): boolean {
+        if (!this.isPunct(value)) return false;
+        this.pos++;
+        return true;
+    }
+
+    // A possibly schema-qualified name; only the last part is kept.
+    name(): string | undefined {
+        const token = this.next();
+        if (!token || (token.kind !== 'word' && token.kind !== 'ident')) return undefined;
+        let name = token.value;
+        while (this.isPunct('.') && (this.peek(1)?.kind === 'word' || this.peek(1)?.kind === 'ident')) {
+            this.pos++;
+            name = this.next()!.value;
+        }
+        return name;
+    }
+
+    // Tokens of a parenthesized group (the cursor is on its opening parenthesis), split at top-level commas.
+    group(): SqlToken[][] {
+        const items: SqlToken[][] = [[]];
+        if (!this.acceptPunct('(')) return [];
+        let depth = 0;
+        while (!this.done) {
+            const token = this.next()!;
+            if (token.kind === 'punct' && token.value === '(') depth++;
+            if (token.kind === 'punct' && token.value === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            if (depth === 0 && token.kind === 'punct' && token.value === ',') items.push([]);
+            else items[items.length - 1].push(token);
+        }
+        return items.filter(item => item.length > 0);
+    }
+
+    // Source text of one expression: a balanced group, or tokens up to the next keyword in `stopWords`.
+    expression(stopWords: string[]): string {
+        const first = this.peek();
+        if (!first) return '';
+        let last = first;
+        let depth = 0;
+        while (!this.done) {
+            const token = this.peek()!;
+            const isCast = last.kind === 'punct' && last.value === '::';
+            if (depth === 0 && token !== first && !isCast && token.kind === 'word' && stopWords.includes(token.value.toUpperCase())) break;
+            if (depth === 0 && token.kind === 'punct' && (token.value === ',' || token.value === ')')) break;
+            if (token.kind === 'punct' && token.value === '(') depth++;
+            if (token.kind === 'punct' && token.value === ')') depth--;
+            last = this.next()!;
+        }
+        return this.sql.slice(first.start, last.end);
+    }
+
+    // Source text inside a balanced group, without the parentheses.
+    parenthesized(): string {
+        const open = this.peek();
+        if (!open || !this.isPunct('(')) return '';
+        let depth = 0;
+        while (!this.done) {
+            const token = this.next()!;
+            if (token.kind === 'punct' && token.value === '(') depth++;
+            if (token.kind === 'punct' && token.value === ')' && --depth === 0) return this.sql.slice(open.end, token.start);
+        }
+        return this.sql.slice(open.end);
+    }
+
+    rest(): string {
+        const first = this.peek();
+        const last = this.tokens[this.tokens.length - 1];
+        this.pos = this.tokens.length;
+        return first ? this.sql.slice(first.start, last.end) : '';
+    }
+}
+
+const COLUMN_OPTION_WORDS = ['NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'COLLATE', 'COMMENT', 'GENERATED', 'ON', 'CHARACTER', 'CHARSET', 'IDENTITY'];
+const TYPE_CONTINUATION_WORDS = ['PRECISION', 'VARYING', 'WITH', 'WITHOUT', 'TIME', 'ZONE', 'UNSIGNED', 'SIGNED', 'ZEROFILL'];
+
+interface ImportedColumnType {
+    type: ColumnType;
+    size?: number;
+    precision?: number;
+    scale?: number;
+    enumOptions?: string[];
+    autoIncrement?: boolean;
+    unknown?: boolean;
+}
+
+const unquoteSqlString = (value: string) => value.replace(/^[EN]?'|'$/g, '').replace(/''/g, '\'');
+
+const SQL_TYPE_ALIASES: Record<string, ColumnType> = {
+    INT: 'INT', INTEGER: 'INT', INT4: 'INT', MEDIUMINT: 'INT', BIGINT: 'BIGINT', INT8: 'BIGINT', SMALLINT: 'SMALLINT', INT2: 'SMALLINT',
+    TINYINT: 'SMALLINT', VARCHAR: 'VARCHAR', 'CHARACTER VARYING': 'VARCHAR', NVARCHAR: 'NVARCHAR', VARCHAR2: 'VARCHAR', CHAR: 'CHAR',
+    CHARACTER: 'CHAR', NCHAR: 'NCHAR', TEXT: 'TEXT', TINYTEXT: 'TEXT', MEDIUMTEXT: 'TEXT', LONGTEXT: 'TEXT', CLOB: 'CLOB', CITEXT: 'TEXT',
+    BOOLEAN: 'BOOLEAN', BOOL: 'BOOLEAN', DATE: 'DATE', DATETIME: 'TIMESTAMP', TIMESTAMP: 'TIMESTAMP', TIMESTAMPTZ: 'TIMESTAMP',
+    'TIMESTAMP WITH TIME ZONE': 'TIMESTAMP', 'TIMESTAMP WITHOUT TIME ZONE': 'TIMESTAMP', TIME: 'TIME', TIMETZ: 'TIME', UUID: 'UUID',
+    JSON: 'JSONB', JSONB: 'JSONB', NUMERIC: 'NUMERIC', DECIMAL: 'NUMERIC', REAL: 'REAL', FLOAT4: 'REAL', FLOAT: 'REAL', DOUBLE: 'DOUBLE PRECISION',
+    'DOUBLE PRECISION': 'DOUBLE PRECISION', FLOAT8: 'DOUBLE PRECISION', BYTEA: 'BYTEA', BLOB: 'BLOB', LONGBLOB: 'BLOB', MEDIUMBLOB: 'BLOB',
+    BINARY: 'BYTEA', VARBINARY: 'BYTEA', MONEY: 'MONEY', INET: 'INET', CIDR: 'CIDR', MACADDR: 'MACADDR', XML: 'XML', INTERVAL: 'INTERVAL',
+    POINT: 'POINT', LINE: 'LINE', POLYGON: 'POLYGON', CIRCLE: 'CIRCLE', BOX: 'BOX', PATH: 'PATH', GEOMETRY: 'GEOMETRY', BIT: 'BIT',
+    VARBIT: 'VARBIT', TSVECTOR: 'TSVECTOR', TSQUERY: 'TSQUERY', NUMBER: 'NUMBER',
+};
+
+const normalizeSqlType = (words: string[], args: SqlToken[][], isArray: boolean, enums: Map<string, string[]>, dialect?: DatabaseDialect): ImportedColumnType => {
+    const name = words.filter(w => !['UNSIGNED', 'SIGNED', 'ZEROFILL'].includes(w)).join(' ');
+    const numbers = args.map(arg => Number(arg[0]?.value)).filter(n => !Number.isNaN(n));
+    if (isArray) return { type: 'ARRAY' };
+    if (name === 'SERIAL' || name === 'SERIAL4') return { type: 'INT', autoIncrement: true };
+    if (name === 'BIGSERIAL' || name === 'SERIAL8') return { type: 'BIGINT', autoIncrement: true };
+    if (name === 'SMALLSERIAL' || name === 'SERIAL2') return { type: 'SMALLINT', autoIncrement: true };
+    if (name === 'TINYINT' && numbers[0] === 1 && dialect === 'MySQL') return { type: 'BOOLEAN' };
+    if (name === 'ENUM') return { type: 'ENUM', enumOptions: args.map(arg => unquoteSqlString(arg[0]?.value || '')) };
+    const enumOptions = enums.get(name.toLowerCase());
+    if (enumOptions) return { type: 'ENUM', enumOptions };
+    const type = SQL_TYPE_ALIASES[name];
+    if (!type) return { type: 'TEXT', unknown: true };
+    if (type === 'VARCHAR' || type === 'NVARCHAR' || type === 'CHAR' || type === 'NCHAR') return { type, size: numbers[0] ?? (type.endsWith('CHAR') && !type.includes('VAR') ? 1 : undefined) };
+    if (type === 'NUMERIC') return { type, precision: numbers[0], scale: numbers[1] };
+    return { type };
+};
+
+const parseReferentialAction = (cursor: SqlCursor): ReferentialAction => {
+    if (cursor.acceptWord('CASCADE')) return 'CASCADE';
+    if (cursor.acceptWord('SET', 'NULL')) return 'SET NULL';
+    if (cursor.acceptWord('SET', 'DEFAULT')) return 'SET DEFAULT';
+    if (cursor.acceptWord('RESTRICT')) return 'RESTRICT';
+    cursor.acceptWord('NO', 'ACTION');
+    return 'NO ACTION';
+};
+
+// REFERENCES table [(column)] [ON DELETE ...] [ON UPDATE ...] [MATCH ...] [DEFERRABLE ...]
+const parseReferences = (cursor: SqlCursor, base: Pick<PendingForeignKey, 'name' | 'table' | 'column' | 'line'>): PendingForeignKey => {
+    const referencedTable = cursor.name() || '';
+    const columns = cursor.isPunct('(') ? cursor.group() : [];
+    const fk: PendingForeignKey = { ...base, referencedTable, referencedColumn: columns[0]?.[0]?.value, onDelete: 'NO ACTION', onUpdate: 'NO ACTION' };
+    for (;;) {
+        if (cursor.acceptWord('ON', 'DELETE')) fk.onDelete = parseReferentialAction(cursor);
+        else if (cursor.acceptWord('ON', 'UPDATE')) fk.onUpdate = parseReferentialAction(cursor);
+        else if (cursor.acceptWord('MATCH')) cursor.next();
+        else if (cursor.acceptWord('NOT', 'DEFERRABLE') || cursor.acceptWord('DEFERRABLE') || cursor.acceptWord('INITIALLY', 'DEFERRED') || cursor.acceptWord('INITIALLY', 'IMMEDIATE')) continue;
+        else return fk;
+    }
+};
+
+interface SqlImportContext {
+    sql: string;
+    tables: Table[];
+    foreignKeys: PendingForeignKey[];
+    views: View[];
+    enums: Map<string, string[]>;
+    issues: SchemaImportIssue[];
+    dialect?: DatabaseDialect;
+}
+
+const findImportedTable = (context: SqlImportContext, name: string) => context.tables.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+const columnNamesOf = (items: SqlToken[][]) => items.map(item => item[0]?.value).filter((name): name is string => !!name);
+
+const parseColumnDefinition = (context: SqlImportContext, table: Table, tokens: SqlToken[]): Column => {
+    const cursor = new SqlCursor(tokens, context.sql);
+    const column = newImportedColumn(cursor.name() || 'column');
+    const typeWords: string[] = [];
+    let typeArgs: SqlToken[][] = [];
+    let isArray = false;
+    while (cursor.peek()?.kind === 'word' && (typeWords.length === 0 || TYPE_CONTINUATION_WORDS.includes(cursor.peek()!.value.toUpperCase()))) {
+        typeWords.push(cursor.next()!.value.toUpperCase());
+        // Schema-qualified types such as `public.mood` keep their last part.
+        if (cursor.isPunct('.') && cursor.peek(1)?.kind !== 'punct') {
+            cursor.next();
+            typeWords[typeWords.length - 1] = cursor.next()!.value.toUpperCase();
+        }
+        if (cursor.isPunct('(')) typeArgs = cursor.group();
+    }
+    while (cursor.isPunct('[')) {
+        cursor.next();
+        cursor.acceptPunct(']');
+        isArray = true;
+    }
+    if (cursor.acceptWord('ARRAY')) isArray = true;
+    const type = normalizeSqlType(typeWords, typeArgs, isArray, context.enums, context.dialect);
+    if (type.unknown) context.issues.push({ line: tokens[0].line, message: `Unsupported type ${typeWords.join(' ') || '(none)'} for ${table.name}.${column.name}; imported as TEXT.` });
+    Object.assign(column, { type: type.type, size: type.size, precision: type.precision, scale: type.scale, enumOptions: type.enumOptions, autoIncrement: type.autoIncrement });
+    if (type.autoIncrement) column.isNullable = false;
+
+    let constraintName: string | undefined;
+    while (!cursor.done) {
+        const line = cursor.line;
+        if (cursor.acceptWord('CONSTRAINT')) { constraintName = cursor.name(); continue; }
+        if (cursor.acceptWord('NOT', 'NULL')) column.isNullable = false;
+        else if (cursor.acceptWord('NULL')) column.isNullable = true;
+        else if (cursor.acceptWord('DEFAULT')) {
+            column.defaultValue = cursor.expression(COLUMN_OPTION_WORDS);
+            if (/^nextval\(/i.test(column.defaultValue)) {
+                column.autoIncrement = true;
+                column.defaultValue = undefined;
+            }
+        } else if (cursor.acceptWord('PRIMARY', 'KEY')) {
+            column.isPrimaryKey = true;
+            column.isUnique = true;
+            column.isNullable = false;
+            cursor.acceptWord('ASC') || cursor.acceptWord('DESC');
+        } else if (cursor.acceptWord('AUTO_INCREMENT') || cursor.acceptWord('AUTOINCREMENT')) column.autoIncrement = true;
+        else if (cursor.acceptWord('UNIQUE')) { column.isUnique = true; cursor.acceptWord('KEY'); }
+        else if (cursor.acceptWord('REFERENCES')) context.foreignKeys.push(parseReferences(cursor, { name: constraintName, table: table.name, column: column.name, line }));
+        else if (cursor.acceptWord('CHECK')) {
+            table.constraints.push({ id: uuidv4(), name: constraintName || `${table.name}_${column.name}_check`, type: 'CHECK', columnIds: [column.id], checkExpression: cursor.parenthesized() });
+        } else if (cursor.acceptWord('COLLATE')) column.collation = cursor.name();
+        else if (cursor.acceptWord('COMMENT')) column.comment = unquoteSqlString(cursor.next()?.value || '');
+        else if (cursor.acceptWord('CHARACTER', 'SET') || cursor.acceptWord('CHARSET')) cursor.name();
+        else if (cursor.acceptWord('ON', 'UPDATE')) {
+            context.issues.push({ line, message: `ON UPDATE ${cursor.expression(COLUMN_OPTION_WORDS)} on ${table.name}.${column.name} is not supported; ignored.` });
+        }
+        else if (cursor.acceptWord('GENERATED')) {
+            // `GENERATED ALWAYS|BY DEFAULT AS IDENTITY [(options)]` or `GENERATED ALWAYS AS (expr) [STORED|VIRTUAL]`;
+            // only the clause itself is consumed, so options after it still apply.
+            cursor.acceptWord('ALWAYS') || cursor.acceptWord('BY', 'DEFAULT');
+            cursor.acceptWord('AS');
+            if (cursor.acceptWord('IDENTITY')) {
+                cursor.parenthesized(); // Sequence options
+                column.autoIncrement = true;
+                column.isNullable = false;
+            } else {
+                cursor.parenthesized();
+                cursor.acceptWord('STORED') || cursor.acceptWord('VIRTUAL');
+                context.issues.push({ line, message: `Generated column ${table.name}.${column.name} imported as a plain column.` });
+            }
+        } else {
+            const token = cursor.next()!;
+            context.issues.push({ line: token.line, message: `Unsupported column option "${token.value}" on ${table.name}.${column.name}; ignored.` });
+            cursor.expression(COLUMN_OPTION_WORDS);
+        }
+        constraintName = undefined;
+    }
+    return column;
+};
+
+// Table-level PRIMARY KEY / UNIQUE / FOREIGN KEY / CHECK / KEY, from CREATE TABLE or ALTER TABLE ... ADD.
+const parseTableConstraint = (context: SqlImportContext, table: Table, cursor: SqlCursor): boolean => {
+    const line = cursor.line;
+    const name = cursor.acceptWord('CONSTRAINT') ? cursor.name() : undefined;
+    const columnsNamed = (names: string[]) => names.map(n => table.columns.find(c => c.name.toLowerCase() === n.toLowerCase())).filter((c): c is Column => !!c);
+    if (cursor.acceptWord('PRIMARY', 'KEY')) {
+        const columns = columnsNamed(columnNamesOf(cursor.group()));
+        columns.forEach(c => Object.assign(c, { isPrimaryKey: true, isNullable: false, isUnique: columns.length === 1 }));
+        return true;
+    }
+    if (cursor.acceptWord('FOREIGN', 'KEY')) {
+        if (!cursor.isPunct('(')) cursor.name(); // MySQL allows an index name here
+        const columns = columnNamesOf(cursor.group());
+        cursor.acceptWord('REFERENCES');
+        const fk = parseReferences(cursor, { name, table: table.name, column: columns[0], line });
+        if (columns.length > 1) context.issues.push({ line, message: `Composite foreign key ${name || ''} on ${table.name} imported on its first column only.` });
+        context.foreignKeys.push(fk);
+        return true;
+    }
+    if (cursor.isWord('UNIQUE')) {
+        cursor.next();
+        cursor.acceptWord('KEY') || cursor.acceptWord('INDEX');
+        const indexName = cursor.isPunct('(') ? undefined : cursor.name();
+        const columns = columnsNamed(columnNamesOf(cursor.group()));
+        if (columns.length === 1 && !name && !indexName) columns[0].isUnique = true;
+        else table.constraints.push({ id: uuidv4(), name: name || indexName || `${table.name}_${columns.map(c => c.name).join('_')}_key`, type: 'UNIQUE', columnIds: columns.map(c => c.id) });
+        return true;
+    }
+    if (cursor.acceptWord('CHECK')) {
+        table.constraints.push({ id: uuidv4(), name: name || `${table.name}_check`, type: 'CHECK', checkExpression: cursor.parenthesized() });
+        return true;
+    }
+    if (cursor.isWord('KEY') || cursor.isWord('INDEX')) {
+        cursor.next();
+        const indexName = cursor.isPunct('(') ? undefined : cursor.name();
+        const columns = columnsNamed(columnNamesOf(cursor.group()));
+        table.indexes.push({ id: uuidv4(), name: indexName || `${table.name}_${columns.map(c => c.name).join('_')}_idx`, columns: columns.map(c => c.id), type: 'BTREE', isUnique: false });
+        return true;
+    }
+    if (name) context.issues.push({ line, message: `Unsupported constraint "${name}" on ${table.name}; skipped.` });
+    return false;
+};
+
+const TABLE_CONSTRAINT_WORDS = ['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE'];
+
+const parseCreateTable = (context: SqlImportContext, cursor: SqlCursor) => {
+    cursor.acceptWord('IF', 'NOT', 'EXISTS');
+    const name = cursor.name();
+    if (!name) return;
+    if (!cursor.isPunct('(')) {
+        context.issues.push({ line: cursor.line, message: `CREATE TABLE ${name} without a column list (e.g. AS SELECT) is not supported; skipped.` });
+        return;
+    }
+    const table = findImportedTable(context, name) || newImportedTable(name);
+    if (!context.tables.includes(table)) context.tables.push(table);
+    cursor.group().forEach(item => {
+        const first = item[0];
+        if (first.kind === 'word' && TABLE_CONSTRAINT_WORDS.includes(first.value.toUpperCase())) {
+            const itemCursor = new SqlCursor(item, context.sql);
+            if (!parseTableConstraint(context, table, itemCursor)) {
+                context.issues.push({ line: first.line, message: `Unsupported table element "${first.value}" in ${table.name}; skipped.` });
+            }
+        } else {
+            table.columns.push(parseColumnDefinition(context, table, item));
+        }
+    });
+    // MySQL `COMMENT='...'` is the only table option the model keeps.
+    while (!cursor.done) {
+        if (cursor.acceptWord('COMMENT')) {
+            cursor.acceptPunct('=');
+            table.comment = unquoteSqlString(cursor.next()?.value || '');
+        } else {
+            cursor.next();
+        }
+    }
+};
+
+const parseAlterTable = (context: SqlImportContext, cursor: SqlCursor) => {
+    cursor.acceptWord('ONLY');
+    cursor.acceptWord('IF', 'EXISTS');
+    const name = cursor.name() || '';
+    const table = findImportedTable(context, name);
+    if (!table) {
+        context.issues.push({ line: cursor.line, message: `ALTER TABLE ${name} refers to a table that was not created in this script; skipped.` });
+        return;
+    }
+    while (!cursor.done) {
+        const line = cursor.line;
+        if (cursor.acceptWord('ADD')) {
+            if (cursor.isWord('CONSTRAINT') || cursor.isWord('PRIMARY') || cursor.isWord('FOREIGN') || cursor.isWord('UNIQUE') || cursor.isWord('CHECK') || cursor.isWord('KEY') || cursor.isWord('INDEX')) {
+                parseTableConstraint(context, table, cursor);
+            } else {
+                cursor.acceptWord('COLUMN');
+                cursor.acceptWord('IF', 'NOT', 'EXISTS');
+                const start = cursor.pos;
+                cursor.expression([]);
+                const tokens: SqlToken[] = [];
+                for (let k = start; k < cursor.pos; k++) tokens.push(cursor.peek(k - cursor.pos)!);
+                if (tokens.length > 0) table.columns.push(parseColumnDefinition(context, table, tokens));
+            }
+        } else if (cursor.acceptWord('RENAME', 'TO')) {
+            // Replaying a migration script: pending foreign keys follow the table to its new name.
+            const previous = table.name;
+            table.name = cursor.name() || table.name;
+            context.foreignKeys.forEach(fk => {
+                if (fk.table === previous) fk.table = table.name;
+                if (fk.referencedTable === previous) fk.referencedTable = table.name;
+            });
+        } else if (cursor.acceptWord('RENAME')) {
+            cursor.acceptWord('COLUMN');
+            const column = table.columns.find(c => c.name === cursor.name());
+            cursor.acceptWord('TO');
+            const name = cursor.name();
+            if (column && name) column.name = name;
+        } else if (cursor.acceptWord('DROP', 'COLUMN') || (cursor.isWord('DROP') && !cursor.isWord('DROP', 'CONSTRAINT') && cursor.acceptWord('DROP'))) {
+            cursor.acceptWord('IF', 'EXISTS');
+            const name = cursor.name();
+            table.columns = table.columns.filter(c => c.name !== name);
+        } else if (cursor.acceptWord('ALTER')) {
+            // pg_dump attaches sequences with `ALTER COLUMN id SET DEFAULT nextval(...)`.
+            cursor.acceptWord('COLUMN');
+            const column = table.columns.find(c => c.name === cursor.name());
+            if (column && cursor.acceptWord('SET', 'DEFAULT')) {
+                const value = cursor.expression([]);
+                if (/^nextval\(/i.test(value)) column.autoIncrement = true;
+                else column.defaultValue = value;
+            } else if (column && cursor.acceptWord('SET', 'NOT', 'NULL')) column.isNullable = false;
+            else context.issues.push({ line, message: `Unsupported ALTER COLUMN action "${cursor.expression([]).split(/\s+/).slice(0, 3).join(' ')}" on ${table.name}; skipped.` });
+        } else {
+            const action = cursor.expression([]);
+            context.issues.push({ line, message: `Unsupported ALTER TABLE action "${action.split(/\s+/).slice(0, 3).join(' ')}" on ${table.name}; skipped.` });
+        }
+        cursor.acceptPunct(',');
+        // Postgres dumps add `NOT VALID` after constraints.
+        cursor.acceptWord('NOT', 'VALID');
+    }
+};
+
+const parseCreateIndex = (context: SqlImportContext, cursor: SqlCursor, isUnique: boolean) => {
+    const line = cursor.line;
+    cursor.acceptWord('CONCURRENTLY');
+    cursor.acceptWord('IF', 'NOT', 'EXISTS');
+    const name = cursor.isWord('ON') ? undefined : cursor.name();
+    let type: IndexType = 'BTREE';
+    if (cursor.acceptWord('USING')) type = (cursor.next()?.value.toUpperCase() || 'BTREE') as IndexType;
+    cursor.acceptWord('ON');
+    cursor.acceptWord('ONLY');
+    const tableName = cursor.name() || '';
+    const table = findImportedTable(context, tableName);
+    if (!table) {
+        context.issues.push({ line, message: `Index ${name || ''} is on unknown table ${tableName}; skipped.` });
+        return;
+    }
+    if (cursor.acceptWord('USING')) type = (cursor.next()?.value.toUpperCase() || 'BTREE') as IndexType;
+    const columns: Column[] = [];
+    for (const item of cursor.group()) {
+        // Plain columns may carry ASC/DESC, a collation, an operator class or a MySQL prefix length.
+        const column = item[0].kind === 'punct' ? undefined : table.columns.find(c => c.name.toLowerCase() === item[0].value.toLowerCase());
+        if (!column) {
+            context.issues.push({ line: item[0].line, message: `Expression index ${name || ''} on ${table.name} is not supported; skipped.` });
+            return;
+        }
+        columns.push(column);
+    }
+    const index: Index = { id: uuidv4(), name: name || `${table.name}_${columns.map(c => c.name).join('_')}_idx`, columns: columns.map(c => c.id), type, isUnique };
+    while (!cursor.done) {
+        if (cursor.acceptWord('WHERE')) index.filter = cursor.rest();
+        else if (cursor.acceptWord('INCLUDE')) {
+            const included = columnNamesOf(cursor.group());
+            index.includeColumns = included.map(n => table.columns.find(c => c.name === n)?.id).filter((id): id is string => !!id);
+        } else if (cursor.acceptWord('USING')) type = (cursor.next()?.value.toUpperCase() || 'BTREE') as IndexType;
+        else cursor.next();
+    }
+    index.type = ['BTREE', 'HASH', 'GIN', 'GIST', 'SPGIST', 'BRIN'].includes(type) ? type : 'BTREE';
+    table.indexes.push(index);
+};
+
+const parseSqlStatement = (context: SqlImportContext, tokens: SqlToken[]) => {
+    const cursor = new SqlCursor(tokens, context.sql);
+    const line = tokens[0].line;
+    if (cursor.acceptWord('CREATE')) {
+        cursor.acceptWord('OR', 'REPLACE');
+        cursor.acceptWord('TEMPORARY') || cursor.acceptWord('TEMP') || cursor.acceptWord('UNLOGGED');
+        if (cursor.acceptWord('TABLE')) return parseCreateTable(context, cursor);
+        if (cursor.acceptWord('UNIQUE', 'INDEX')) return parseCreateIndex(context, cursor, true);
+        if (cursor.acceptWord('INDEX')) return parseCreateIndex(context, cursor, false);
+        if (cursor.isWord('TYPE')) {
+            cursor.next();
+            const name = cursor.name() || '';
+            if (cursor.acceptWord('AS', 'ENUM')) {
+                context.enums.set(name.toLowerCase(), cursor.group().map(item => unquoteSqlString(item[0].value)));
+                return;
+            }
+        }
+        const materialized = cursor.acceptWord('MATERIALIZED');
+        if (cursor.acceptWord('VIEW')) {
+            cursor.acceptWord('IF', 'NOT', 'EXISTS');
+            const name = cursor.name() || 'view';
+            if (cursor.isPunct('(')) cursor.group();
+            cursor.acceptWord('AS');
+            if (materialized) context.issues.push({ line, message: `Materialized view ${name} imported as a plain view.` });
+            context.views.push({ id: uuidv4(), name, definition: cursor.rest(), x: 0, y: 0, color: '#e9d5ff' });
+            return;
+        }
+    }
+    if (cursor.acceptWord('ALTER', 'TABLE')) return parseAlterTable(context, cursor);
+    if (cursor.acceptWord('DROP', 'TABLE')) {
+        cursor.acceptWord('IF', 'EXISTS');
+        const name = cursor.name() || '';
+        context.tables = context.tables.filter(t => t.name.toLowerCase() !== name.toLowerCase());
+        context.foreignKeys = context.foreignKeys.filter(fk => fk.table.toLowerCase() !== name.toLowerCase());
+        return;
+    }
+    if (cursor.acceptWord('COMMENT', 'ON')) {
+        const target = cursor.next()?.value.toUpperCase();
+        const parts: string[] = [];
+        do { parts.push(cursor.next()?.value || ''); } while (cursor.acceptPunct('.'));
+        cursor.acceptWord('IS');
+        const comment = unquoteSqlString(cursor.next()?.value || '');
+        const table = findImportedTable(context, target === 'COLUMN' ? parts[parts.length - 2] : parts[parts.length - 1]);
+        if (target === 'TABLE' && table) table.comment = comment;
+        else if (target === 'COLUMN' && table) {
+            const column = table.columns.find(c => c.name === parts[parts.length - 1]);
+            if (column) column.comment = comment;
+        }
+        return;
+    }
+    const keyword = tokens.slice(0, 3).map(t => t.value).join(' ');
+    context.issues.push({ line, message: `Unsupported statement "${keyword}${tokens.length > 3 ? ' ...' : ''}"; skipped.` });
+};
+
+// Dialect hints from syntax only one dialect uses.
+const detectSqlDialect = (sql: string): DatabaseDialect | undefined => {
+    if (/`|\bAUTO_INCREMENT\b|\bENGINE\s*=/i.test(sql)) return 'MySQL';
+    if (/\bAUTOINCREMENT\b|\bPRAGMA\b|\bWITHOUT\s+ROWID\b/i.test(sql)) return 'SQLite';
+    if (/\bSERIAL\b|::|\bCREATE\s+TYPE\b|\bJSONB\b|\bTIMESTAMPTZ\b/i.test(sql)) return 'PostgreSQL';
+    return undefined;
+};
+
+// Invented: DDL importer for PostgreSQL, MySQL and SQLite scripts (hand-written or from pg_dump/mysqldump/.schema).
+export const importSchemaFromSql = (sql: string, dialect: DatabaseDialect | undefined = detectSqlDialect(sql)): SchemaImportResult => {
+    const context: SqlImportContext = { sql, tables: [], foreignKeys: [], views: [], enums: new Map(), issues: [], dialect };
+    const ignored = ['SET', 'BEGIN', 'COMMIT', 'START', 'PRAGMA', 'USE', 'SELECT', 'LOCK', 'UNLOCK', 'INSERT', 'UPDATE', 'DELETE', 'COPY'];
+    splitSqlStatements(tokenizeSql(sql)).forEach(tokens => {
+        if (tokens[0].kind === 'word' && ignored.includes(tokens[0].value.toUpperCase())) return; // Session settings and data, not schema
+        try {
+            parseSqlStatement(context, tokens);
+        } catch (error: any) {
+            context.issues.push({ line: tokens[0].line, message: `Could not parse statement: ${error.message}` });
+        }
+    });
+    const relationships = resolvePendingForeignKeys(context.tables, context.foreignKeys, context.issues);
+    return {
+        tables: layoutImportedTables(context.tables, relationships),
+        relationships,
+        views: context.views,
+        dialect,
+        issues: context.issues.sort((a, b) => a.line - b.line),
+    };
+};
+
+// --- Prisma schema ---
+
+interface PrismaAttribute { name: string; args: string; }
+
+// `@id @default(autoincrement()) @db.VarChar(20)` -> [{ name: 'id' }, { name: 'default', args: 'autoincrement()' }, ...]
+const parsePrismaAttributes = (text: string): PrismaAttribute[] => {
+    const attributes: PrismaAttribute[] = [];
+    const pattern = /@@?([\w.]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+        let args = '';
+        if (text[pattern.lastIndex] === '(') {
+            let depth = 0;
+            let k = pattern.lastIndex;
+            let inString = false;
+            for (; k < text.length; k++) {
+                if (text[k] === '"' && text[k - 1] !== '\\') inString = !inString;
+                if (inString) continue;
+                if (text[k] === '(') depth++;
+                if (text[k] === ')' && --depth === 0) break;
+            }
+            args = text.slice(pattern.lastIndex + 1, k);
+            pattern.lastIndex = k + 1;
+        }
+        attributes.push({ name: match[1], args });
+    }
+    return attributes;
+};
+
+// Splits `fields: [a, b], references: [id], "name"` at top-level commas into positional and named arguments.
+const parsePrismaArguments = (args: string): { positional: string[]; named: Record<string, string> } => {
+    const parts: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let current = '';
+    for (const char of args) {
+        if (char === '"') inString = !inString;
+        if (!inString && (char === '[' || char === '(')) depth++;
+        if (!inString && (char === ']' || char === ')')) depth--;
+        if (!inString && depth === 0 && char === ',') { parts.push(current.trim()); current = ''; continue; }
+        current += char;
+    }
+    if (current.trim()) parts.push(current.trim());
+    const result = { positional: [] as string[], named: {} as Record<string, string> };
+    parts.forEach(part => {
+        const named = part.match(/^(\w+)\s*:\s*([\s\S]*)$/);
+        if (named) result.named[named[1]] = named[2].trim();
+        else result.positional.push(part);
+    });
+    return result;
+};
+
+const prismaList = (value: string | undefined) => (value || '').replace(/^\[|\]$/g, '').split(',').map(v => v.trim().replace(/\(.*\)$/, '')).filter(Boolean);
+
+const prismaString = (value: string | undefined) => value?.match(/^"([\s\S]*)"$/)?.[1];
+
+const PRISMA_SCALAR_TYPES: Record<string, ColumnType> = {
+    String: 'TEXT', Int: 'INT', BigInt: 'BIGINT', Float: 'DOUBLE PRECISION', Decimal: 'NUMERIC', Boolean: 'BOOLEAN', DateTime: 'TIMESTAMP', Json: 'JSONB', Bytes: 'BYTEA',
+};
+
+const PRISMA_NATIVE_TYPES: Record<string, ColumnType> = {
+    VarChar: 'VARCHAR', Char: 'CHAR', NVarChar: 'NVARCHAR', NChar: 'NCHAR', Text: 'TEXT', MediumText: 'TEXT', LongText: 'TEXT', TinyText: 'TEXT',
+    Uuid: 'UUID', UniqueIdentifier: 'UUID', SmallInt: 'SMALLINT', TinyInt: 'SMALLINT', Integer: 'INT', Int: 'INT', MediumInt: 'INT', BigInt: 'BIGINT',
+    Real: 'REAL', DoublePrecision: 'DOUBLE PRECISION', Double: 'DOUBLE PRECISION', Decimal: 'NUMERIC', Money: 'MONEY', Date: 'DATE', Time: 'TIME',
+    Timetz: 'TIME', Timestamp: 'TIMESTAMP', Timestamptz: 'TIMESTAMP', DateTime: 'TIMESTAMP', JsonB: 'JSONB', Json: 'JSONB', ByteA: 'BYTEA',
+    Blob: 'BLOB', LongBlob: 'BLOB', Boolean: 'BOOLEAN', Bit: 'BIT', VarBit: 'VARBIT', Inet: 'INET', Xml: 'XML', Citext: 'TEXT',
+};
+
+const PRISMA_REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+    Cascade: 'CASCADE', SetNull: 'SET NULL', SetDefault: 'SET DEFAULT', Restrict: 'RESTRICT', NoAction: 'NO ACTION',
+};
+
+const PRISMA_PROVIDERS: Record<string, DatabaseDialect> = {
+    postgresql: 'PostgreSQL', postgres: 'PostgreSQL', cockroachdb: 'PostgreSQL', mysql: 'MySQL', sqlite: 'SQLite', sqlserver: 'SQLServer', mongodb: 'MongoDB',
+};
+
+interface PrismaBlock { kind: string; name: string; line: number; lines: { text: string; line: number }[]; }
+
+// `@map("user")`, `@@schema("auth")`, `@db.VarChar(20)`: attributes with optional arguments, which may hold quoted parentheses.
+const PRISMA_ATTRIBUTE = /@@?[\w.]+(?:\((?:[^()"]|"(?:[^"\\]|\\.)*"|\([^()]*\))*\))?/g;
+
+const parsePrismaBlocks = (source: string, issues: SchemaImportIssue[]): PrismaBlock[] => {
+    const blocks: PrismaBlock[] = [];
+    let current: PrismaBlock | null = null;
+    source.split(/\r?\n/).forEach((raw, index) => {
+        const line = index + 1;
+        const text = raw.replace(/\/\/.*$/, '').trim(); // Includes `///` doc comments
+        if (!text) return;
+        if (!current) {
+            const open = text.match(/^(\w+)\s+(\w+)\s*\{\s*(.*?)\s*(\})?$/);
+            if (open && open[4]) blocks.push({ kind: open[1], name: open[2], line, lines: open[3] ? [{ text: open[3], line }] : [] });
+            else if (open && !open[3]) current = { kind: open[1], name: open[2], line, lines: [] };
+            else issues.push({ line, message: `Unexpected "${text}" outside a block; skipped.` });
+            return;
+        }
+        if (text === '}') {
+            blocks.push(current);
+            current = null;
+            return;
+        }
+        current.lines.push({ text, line });
+    });
+    if (current) issues.push({ line: (current as PrismaBlock).line, message: `Block ${(current as PrismaBlock).name} is not closed; skipped.` });
+    return blocks;
+};
+
+const prismaDefaultValue = (args: string, column: Column): string | undefined => {
+    const value = args.trim();
+    if (value === 'autoincrement()') {
+        column.autoIncrement = true;
+        return undefined;
+    }
+    if (value === 'now()') return 'CURRENT_TIMESTAMP';
+    if (/^(uuid|cuid|nanoid|ulid)\(.*\)$/.test(value)) return undefined; // Generated by the Prisma client, not the database
+    const generated = value.match(/^dbgenerated\(\s*"([\s\S]*)"\s*\)$/);
+    if (generated) return generated[1];
+    const text = prismaString(value);
+    if (text !== undefined) return `'${text.replace(/'/g, '\'\'')}'`;
+    if (/^-?\d/.test(value) || value === 'true' || value === 'false') return value;
+    return `'${value}'`; // Enum member
+};
+
+// Invented: Importer for `schema.prisma` models, enums and relations.
+export const importSchemaFromPrisma = (source: string): SchemaImportResult => {
+    const issues: SchemaImportIssue[] = [];
+    const blocks = parsePrismaBlocks(source, issues);
+    let dialect: DatabaseDialect | undefined;
+    const enums = new Map<string, string[]>();
+    blocks.filter(b => b.kind === 'enum').forEach(block => {
+        // Members are separated by any whitespace, so `enum Role { USER ADMIN }` works on one line too.
+        const members = block.lines.flatMap(({ text, line }) => text.replace(PRISMA_ATTRIBUTE, ' ').split(/\s+/).filter(Boolean).map(word => ({ word, line })));
+        members.filter(({ word }) => !/^[A-Za-z_]\w*$/.test(word)).forEach(({ word, line }) => {
+            issues.push({ line, message: `Could not parse "${word}" in enum ${block.name}; skipped.` });
+        });
+        enums.set(block.name, members.map(({ word }) => word).filter(word => /^[A-Za-z_]\w*$/.test(word)));
+    });
+    blocks.forEach(block => {
+        if (block.kind === 'datasource') {
+            const provider = block.lines.map(l => l.text.match(/^provider\s*=\s*"(\w+)"/)?.[1]).find(Boolean);
+            dialect = provider ? PRISMA_PROVIDERS[provider] : undefined;
+        } else if (!['model', 'enum', 'generator'].includes(block.kind)) {
+            issues.push({ line: block.line, message: `Prisma "${block.kind}" blocks are not supported; ${block.name} skipped.` });
+        }
+    });
+
+    const models = blocks.filter(b => b.kind === 'model');
+    const modelNames = new Set(models.map(m => m.name));
+    const tableNames = new Map(models.map(model => {
+        const map = model.lines.map(l => l.text.match(/^@@map\(\s*"([^"]+)"\s*\)/)?.[1]).find(Boolean);
+        return [model.name, map || model.name];
+    }));
+    const tables: Table[] = [];
+    const foreignKeys: PendingForeignKey[] = [];
+
+    models.forEach(model => {
+        const table = newImportedTable(tableNames.get(model.name)!);
+        const fieldColumns = new Map<string, Column>();
+        const columnFor = (field: string) => fieldColumns.get(field);
+
+        model.lines.filter(l => !l.text.startsWith('@@')).forEach(({ text, line }) => {
+            const field = text.match(/^(\w+)\s+(\w+(?:\([^)]*\))?)(\[\])?(\?)?\s*(.*)$/);
+            if (!field) {
+                issues.push({ line, message: `Could not parse field "${text}"; skipped.` });
+                return;
+            }
+            const [, name, typeName, list, optional, rest] = field;
+            const attributes = parsePrismaAttributes(rest);
+            if (modelNames.has(typeName)) {
+                // Relation fields become a foreign key on the side that declares `fields`.
+                const relation = attributes.find(a => a.name === 'relation');
+                const args = relation ? parsePrismaArguments(relation.args) : null;
+                const fields = prismaList(args?.named.fields);
+                const references = prismaList(args?.named.references);
+                if (!args || fields.length === 0) return;
+                if (fields.length > 1) issues.push({ line, message: `Composite relation ${model.name}.${name} imported on its first field only.` });
+                foreignKeys.push({
+                    name: prismaString(args.named.map),
+                    table: table.name,
+                    column: fields[0], // Renamed to the mapped column name once all fields are read
+                    referencedTable: tableNames.get(typeName)!,
+                    referencedColumn: references[0],
+                    onDelete: PRISMA_REFERENTIAL_ACTIONS[args.named.onDelete] || (optional ? 'SET NULL' : 'RESTRICT'),
+                    onUpdate: PRISMA_REFERENTIAL_ACTIONS[args.named.onUpdate] || 'CASCADE',
+                    line,
+                });
+                return;
+            }
+
+            const column = newImportedColumn(prismaString(parsePrismaArguments(attributes.find(a => a.name === 'map')?.args || '').positional[0]) || name);
+            column.isNullable = !!optional;
+            if (list) column.type = 'ARRAY';
+            else if (enums.has(typeName)) Object.assign(column, { type: 'ENUM', enumOptions: enums.get(typeName) });
+            else if (PRISMA_SCALAR_TYPES[typeName]) column.type = PRISMA_SCALAR_TYPES[typeName];
+            else issues.push({ line, message: `Unsupported field type ${typeName} on ${model.name}.${name}; imported as TEXT.` });
+
+            attributes.forEach(attribute => {
+                if (attribute.name === 'id') Object.assign(column, { isPrimaryKey: true, isUnique: true, isNullable: false });
+                else if (attribute.name === 'unique') column.isUnique = true;
+                else if (attribute.name === 'default') column.defaultValue = prismaDefaultValue(attribute.args, column);
+                else if (attribute.name.startsWith('db.')) {
+                    const native = PRISMA_NATIVE_TYPES[attribute.name.slice(3)];
+                    const numbers = attribute.args.split(',').map(a => Number(a.trim())).filter(n => !Number.isNaN(n) && attribute.args.trim() !== '');
+                    if (!native) issues.push({ line, message: `Native type @${attribute.name} on ${model.name}.${name} is not supported; kept ${column.type}.` });
+                    else if (native === 'VARCHAR' || native === 'CHAR' || native === 'NVARCHAR' || native === 'NCHAR') Object.assign(column, { type: native, size: numbers[0] });
+                    else if (native === 'NUMERIC') Object.assign(column, { type: native, precision: numbers[0], scale: numbers[1] });
+                    else column.type = native;
+                } else if (!['map', 'updatedAt', 'ignore'].includes(attribute.name)) {
+                    issues.push({ line, message: `Attribute @${attribute.name} on ${model.name}.${name} is not supported; ignored.` });
+                }
+            });
+            fieldColumns.set(name, column);
+            table.columns.push(column);
+        });
+
+        model.lines.filter(l => l.text.startsWith('@@')).forEach(({ text, line }) => {
+            parsePrismaAttributes(text).forEach(attribute => {
+                const args = parsePrismaArguments(attribute.args);
+                const columns = prismaList(args.named.fields || args.positional[0]).map(columnFor).filter((c): c is Column => !!c);
+                const mappedName = prismaString(args.named.map) || prismaString(args.named.name);
+                switch (attribute.name) {
+                    case 'id':
+                        columns.forEach(c => Object.assign(c, { isPrimaryKey: true, isNullable: false }));
+                        break;
+                    case 'unique':
+                        table.constraints.push({ id: uuidv4(), name: mappedName || `${table.name}_${columns.map(c => c.name).join('_')}_key`, type: 'UNIQUE', columnIds: columns.map(c => c.id) });
+                        break;
+                    case 'index': {
+                        const type = (args.named.type || 'BTree').toUpperCase() as IndexType;
+                        table.indexes.push({ id: uuidv4(), name: mappedName || `${table.name}_${columns.map(c => c.name).join('_')}_idx`, columns: columns.map(c => c.id), type, isUnique: false });
+                        break;
+                    }
+                    case 'map':
+                        break;
+                    default:
+                        issues.push({ line, message: `Block attribute @@${attribute.name} on ${model.name} is not supported; ignored.` });
+                }
+            });
+        });
+
+        foreignKeys.filter(fk => fk.table === table.name).forEach(fk => {
+            fk.column = columnFor(fk.column)?.name || fk.column;
+            fk.name = fk.name || `${table.name}_${fk.column}_fkey`;
+        });
+        tables.push(table);
+    });
+
+    // References name Prisma fields; translate them to the referenced model's column names.
+    foreignKeys.forEach(fk => {
+        const model = models.find(m => tableNames.get(m.name) === fk.referencedTable);
+        const mapped = fk.referencedColumn && model?.lines.map(l => l.text.match(new RegExp(`^${fk.referencedColumn}\\s+\\S+.*@map\\(\\s*"([^"]+)"`))?.[1]).find(Boolean);
+        if (mapped) fk.referencedColumn = mapped;
+    });
+
+    const relationships = resolvePendingForeignKeys(tables, foreignKeys, issues);
+    return { tables: layoutImportedTables(tables, relationships), relationships, views: [], dialect, issues: issues.sort((a, b) => a.line - b.line) };
+};
+
+export const detectSchemaImportFormat = (source: string): SchemaImportFormat =>
+    /^\s*(model|datasource|generator)\s+\w+\s*\{/m.test(source) ? 'prisma' : 'sql';
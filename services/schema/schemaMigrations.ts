@@ -0,0 +1,640 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Column, ColumnType, Constraint, DatabaseDialect, Index, Relationship, Table, View } from './schemaModel.ts';
+
+// Invented: Schema migration engine. Two schema versions are diffed by element id, so a table or column that
+// keeps its id but changes name is a rename rather than a drop and re-create. The diff is turned into ordered,
+// dialect-specific up and down migrations for the dialects that can be migrated with DDL statements.
+export type MigrationDialect = Extract<DatabaseDialect, 'PostgreSQL' | 'MySQL' | 'SQLite'>;
+export const MIGRATION_DIALECTS: MigrationDialect[] = ['PostgreSQL', 'MySQL', 'SQLite'];
+export type MigrationFormat = 'sql' | 'knex' | 'prisma';
+
+// The parts of a schema that migrations cover. The designer's `SchemaProject` and `SchemaState` both satisfy it.
+export interface SchemaVersionSource {
+    tables: Table[];
+    relationships: Relationship[];
+    views: View[];
+}
+
+export interface SavedSchemaVersion {
+    id: string;
+    name: string;
+    savedAt: string; // ISO timestamp
+    schema: SchemaVersionSource;
+}
+
+type ForeignKeyChange = { table: Table; relationship: Relationship; columnName: string; referencedTable: string; referencedColumn: string };
+
+export type SchemaChange = { description: string; destructive: boolean; warning?: string } & (
+    | { kind: 'createTable'; table: Table }
+    | { kind: 'dropTable'; table: Table }
+    | { kind: 'renameTable'; from: Table; to: Table }
+    | { kind: 'addColumn'; table: Table; column: Column; backfill?: string }
+    | { kind: 'dropColumn'; table: Table; column: Column }
+    | { kind: 'renameColumn'; table: Table; from: Column; to: Column }
+    | { kind: 'alterColumn'; table: Table; previousTableName: string; from: Column; to: Column }
+    | { kind: 'changePrimaryKey'; table: Table; previousTableName: string; from: Column[]; to: Column[] }
+    | { kind: 'createIndex' | 'dropIndex'; table: Table; index: Index }
+    | { kind: 'addConstraint' | 'dropConstraint'; table: Table; constraint: Constraint }
+    | ({ kind: 'addForeignKey' | 'dropForeignKey' } & ForeignKeyChange)
+    | { kind: 'createView' | 'dropView'; view: View }
+);
+
+export interface MigrationStatement {
+    label: string; // Prisma-style section heading, e.g. 'AlterTable'
+    sql: string;
+}
+
+// SQL expressions that fill existing rows of NOT NULL columns added without a default, keyed by column id.
+// An expression may refer to the table's other columns, e.g. `lower("email")`.
+export type ColumnBackfills = Record<string, string>;
+
+export interface SchemaMigrationPlan {
+    dialect: MigrationDialect;
+    changes: SchemaChange[];
+    up: MigrationStatement[];
+    down: MigrationStatement[];
+    downChanges: SchemaChange[];
+}
+
+export interface MigrationFile {
+    path: string;
+    content: string;
+}
+
+// Statements run in this order so that nothing is dropped while still referenced and nothing is
+// referenced before it exists: foreign keys and views go first and come back last.
+const CHANGE_ORDER: SchemaChange['kind'][] = [
+    'dropForeignKey', 'dropConstraint', 'dropIndex', 'dropView', 'createTable', 'renameTable', 'renameColumn', 'addColumn',
+    'alterColumn', 'changePrimaryKey', 'dropColumn', 'dropTable', 'addConstraint', 'createIndex', 'addForeignKey', 'createView',
+];
+
+const INTEGER_RANK: Partial<Record<ColumnType, number>> = { SMALLINT: 1, INT: 2, SERIAL: 2, BIGINT: 3 };
+const FLOAT_RANK: Partial<Record<ColumnType, number>> = { REAL: 1, 'DOUBLE PRECISION': 2 };
+const BOUNDED_STRING_TYPES: ColumnType[] = ['CHAR', 'NCHAR', 'VARCHAR', 'NVARCHAR'];
+const UNBOUNDED_STRING_TYPES: ColumnType[] = ['TEXT', 'CLOB', 'NTEXT', 'NCLOB'];
+const DECIMAL_TYPES: ColumnType[] = ['NUMERIC', 'MONEY', 'NUMBER'];
+
+const isSizedType = (type: ColumnType) => BOUNDED_STRING_TYPES.includes(type);
+
+// Describes why changing a column from one definition to another can fail or lose data, or returns null.
+const describeTypeNarrowing = (from: Column, to: Column): string | null => {
+    if (from.type === to.type) {
+        if (isSizedType(to.type) && (to.size || 255) < (from.size || 255)) return `length shrinks from ${from.size || 255} to ${to.size || 255}`;
+        if (to.type === 'NUMERIC' && ((to.precision || 10) < (from.precision || 10) || (to.scale || 2) < (from.scale || 2))) {
+            return `precision shrinks from (${from.precision || 10}, ${from.scale || 2}) to (${to.precision || 10}, ${to.scale || 2})`;
+        }
+        if (to.type === 'ENUM') {
+            const removed = (from.enumOptions || []).filter(option => !(to.enumOptions || []).includes(option));
+            if (removed.length > 0) return `enum values ${removed.map(o => `'${o}'`).join(', ')} are removed`;
+        }
+        return null;
+    }
+    if (UNBOUNDED_STRING_TYPES.includes(to.type)) return null; // Everything can be represented as text
+    if (INTEGER_RANK[from.type] && INTEGER_RANK[to.type]) {
+        return INTEGER_RANK[to.type]! < INTEGER_RANK[from.type]! ? `${from.type} narrows to ${to.type}` : null;
+    }
+    if (INTEGER_RANK[from.type] && (FLOAT_RANK[to.type] || DECIMAL_TYPES.includes(to.type))) return null;
+    if (FLOAT_RANK[from.type] && FLOAT_RANK[to.type]) {
+        return FLOAT_RANK[to.type]! < FLOAT_RANK[from.type]! ? `${from.type} narrows to ${to.type}` : null;
+    }
+    if (isSizedType(from.type) && isSizedType(to.type)) {
+        return (to.size || 255) < (from.size || 255) ? `length shrinks from ${from.size || 255} to ${to.size || 255}` : null;
+    }
+    if (UNBOUNDED_STRING_TYPES.includes(from.type) && isSizedType(to.type)) return `${from.type} is limited to ${to.size || 255} characters`;
+    if (from.type === 'DATE' && to.type === 'TIMESTAMP') return null;
+    return `${from.type} values may not convert to ${to.type}`;
+};
+
+/** Whether adding `column` to a table that already has rows needs a backfill expression to succeed. */
+export const columnNeedsBackfill = (column: Column) =>
+    !column.isNullable && !column.defaultValue && !column.autoIncrement && column.type !== 'SERIAL';
+
+const columnDefinitionChanged = (from: Column, to: Column) =>
+    from.type !== to.type || from.isNullable !== to.isNullable || (from.defaultValue || '') !== (to.defaultValue || '')
+    || from.isUnique !== to.isUnique || !!from.autoIncrement !== !!to.autoIncrement
+    || (isSizedType(to.type) && (from.size || 255) !== (to.size || 255))
+    || (to.type === 'NUMERIC' && ((from.precision || 10) !== (to.precision || 10) || (from.scale || 2) !== (to.scale || 2)))
+    || (to.type === 'ENUM' && (from.enumOptions || []).join('\u0000') !== (to.enumOptions || []).join('\u0000'));
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const resolveForeignKey = (schema: SchemaVersionSource, relationship: Relationship): ForeignKeyChange | null => {
+    const table = schema.tables.find(t => t.id === relationship.fromTableId);
+    const referenced = schema.tables.find(t => t.id === relationship.toTableId);
+    const column = table?.columns.find(c => c.id === relationship.fromColumnId);
+    const referencedColumn = referenced?.columns.find(c => c.id === relationship.toColumnId);
+    if (!table || !referenced || !column || !referencedColumn) return null;
+    return { table, relationship, columnName: column.name, referencedTable: referenced.name, referencedColumn: referencedColumn.name };
+};
+
+// Invented: Schema diff. Returns the changes that turn `from` into `to`, in execution order.
+export const diffSchemas = (from: SchemaVersionSource, to: SchemaVersionSource, backfills: ColumnBackfills = {}): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+
+    to.tables.forEach(table => {
+        const previous = from.tables.find(t => t.id === table.id);
+        if (!previous) {
+            changes.push({ kind: 'createTable', table, description: `Create table "${table.name}"`, destructive: false });
+            table.indexes.forEach(index => changes.push({ kind: 'createIndex', table, index, description: `Create index "${index.name}" on "${table.name}"`, destructive: false }));
+            return;
+        }
+        if (previous.name !== table.name) {
+            changes.push({ kind: 'renameTable', from: previous, to: table, description: `Rename table "${previous.name}" to "${table.name}"`, destructive: false });
+        }
+
+        table.columns.forEach(column => {
+            const previousColumn = previous.columns.find(c => c.id === column.id);
+            if (!previousColumn) {
+                const backfill = columnNeedsBackfill(column) ? backfills[column.id]?.trim() || undefined : undefined;
+                const missingBackfill = columnNeedsBackfill(column) && !backfill;
+                changes.push({
+                    kind: 'addColumn', table, column, backfill, destructive: missingBackfill,
+                    description: `Add column "${table.name}"."${column.name}"`,
+                    warning: missingBackfill ? 'NOT NULL without a default or backfill expression fails if the table already has rows.'
+                        : backfill ? `Existing rows are filled with ${backfill}.` : undefined,
+                });
+                return;
+            }
+            if (previousColumn.name !== column.name) {
+                changes.push({ kind: 'renameColumn', table, from: previousColumn, to: column, description: `Rename column "${table.name}"."${previousColumn.name}" to "${column.name}"`, destructive: false });
+            }
+            if (columnDefinitionChanged(previousColumn, column)) {
+                const narrowing = describeTypeNarrowing(previousColumn, column);
+                const becomesRequired = previousColumn.isNullable && !column.isNullable;
+                const becomesUnique = !previousColumn.isUnique && column.isUnique;
+                changes.push({
+                    kind: 'alterColumn', table, previousTableName: previous.name, from: previousColumn, to: column, destructive: !!narrowing,
+                    description: `Alter column "${table.name}"."${column.name}"`,
+                    warning: narrowing ? `Type narrowing: ${narrowing}.`
+                        : becomesRequired ? 'Setting NOT NULL fails if existing rows contain NULL.'
+                        : becomesUnique ? 'Adding UNIQUE fails if existing rows contain duplicates.' : undefined,
+                });
+            }
+        });
+        previous.columns.filter(c => !table.columns.some(col => col.id === c.id)).forEach(column => {
+            changes.push({ kind: 'dropColumn', table, column, description: `Drop column "${table.name}"."${column.name}"`, destructive: true, warning: 'Data in the column is lost.' });
+        });
+
+        const previousKey = previous.columns.filter(c => c.isPrimaryKey);
+        const key = table.columns.filter(c => c.isPrimaryKey);
+        if (previousKey.map(c => c.id).join() !== key.map(c => c.id).join()) {
+            changes.push({
+                kind: 'changePrimaryKey', table, previousTableName: previous.name, from: previousKey, to: key, destructive: false,
+                description: `Change primary key of "${table.name}"`,
+                warning: key.length > 0 ? 'The new key fails if existing rows are not unique on it.' : undefined,
+            });
+        }
+
+        table.indexes.forEach(index => {
+            const previousIndex = previous.indexes.find(i => i.id === index.id);
+            if (previousIndex && sameJson(previousIndex, index)) return;
+            if (previousIndex) changes.push({ kind: 'dropIndex', table: previous, index: previousIndex, description: `Drop index "${previousIndex.name}"`, destructive: false });
+            changes.push({ kind: 'createIndex', table, index, description: `Create index "${index.name}" on "${table.name}"`, destructive: false });
+        });
+        previous.indexes.filter(i => !table.indexes.some(index => index.id === i.id)).forEach(index => {
+            changes.push({ kind: 'dropIndex', table: previous, index, description: `Drop index "${index.name}"`, destructive: false });
+        });
+
+        // PRIMARY KEY and NOT NULL constraints are expressed through the columns themselves.
+        const tableConstraints = (t: Table) => t.constraints.filter(c => c.type === 'CHECK' || c.type === 'UNIQUE');
+        tableConstraints(table).forEach(constraint => {
+            const previousConstraint = tableConstraints(previous).find(c => c.id === constraint.id);
+            if (previousConstraint && sameJson(previousConstraint, constraint)) return;
+            if (previousConstraint) changes.push({ kind: 'dropConstraint', table: previous, constraint: previousConstraint, description: `Drop constraint "${previousConstraint.name}"`, destructive: false });
+            changes.push({ kind: 'addConstraint', table, constraint, description: `Add ${constraint.type} constraint "${constraint.name}" on "${table.name}"`, destructive: false, warning: 'Fails if existing rows violate the constraint.' });
+        });
+        tableConstraints(previous).filter(c => !tableConstraints(table).some(constraint => constraint.id === c.id)).forEach(constraint => {
+            changes.push({ kind: 'dropConstraint', table: previous, constraint, description: `Drop constraint "${constraint.name}"`, destructive: false });
+        });
+    });
+    from.tables.filter(t => !to.tables.some(table => table.id === t.id)).forEach(table => {
+        changes.push({ kind: 'dropTable', table, description: `Drop table "${table.name}"`, destructive: true, warning: 'All rows in the table are lost.' });
+    });
+
+    // Foreign keys are compared by the ids they connect; the database follows table and column renames itself.
+    const fromKeys = from.relationships.map(r => resolveForeignKey(from, r)).filter((k): k is ForeignKeyChange => !!k);
+    const toKeys = to.relationships.map(r => resolveForeignKey(to, r)).filter((k): k is ForeignKeyChange => !!k);
+    const keySignature = ({ relationship: r }: ForeignKeyChange) => [r.id, r.name, r.fromTableId, r.fromColumnId, r.toTableId, r.toColumnId, r.onDelete, r.onUpdate].join('|');
+    fromKeys.filter(k => !toKeys.some(next => keySignature(next) === keySignature(k))).forEach(k => {
+        changes.push({ kind: 'dropForeignKey', ...k, description: `Drop foreign key "${k.relationship.name}"`, destructive: false });
+    });
+    toKeys.filter(k => !fromKeys.some(prev => keySignature(prev) === keySignature(k))).forEach(k => {
+        changes.push({ kind: 'addForeignKey', ...k, description: `Add foreign key "${k.relationship.name}" on "${k.table.name}"`, destructive: false, warning: from.tables.some(t => t.id === k.table.id) ? 'Fails if existing rows reference missing keys.' : undefined });
+    });
+
+    to.views.forEach(view => {
+        const previous = from.views.find(v => v.id === view.id);
+        if (previous && previous.name === view.name && previous.definition === view.definition) return;
+        if (previous) changes.push({ kind: 'dropView', view: previous, description: `Drop view "${previous.name}"`, destructive: false });
+        changes.push({ kind: 'createView', view, description: `Create view "${view.name}"`, destructive: false });
+    });
+    from.views.filter(v => !to.views.some(view => view.id === v.id)).forEach(view => {
+        changes.push({ kind: 'dropView', view, description: `Drop view "${view.name}"`, destructive: false });
+    });
+
+    return changes
+        .map((change, position) => ({ change, position }))
+        .sort((a, b) => CHANGE_ORDER.indexOf(a.change.kind) - CHANGE_ORDER.indexOf(b.change.kind) || a.position - b.position)
+        .map(({ change }) => change);
+};
+
+const quoteIdentifier = (name: string, dialect: MigrationDialect) =>
+    dialect === 'MySQL' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+
+const quoteLiteral = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// Same naming as `exportSchemaToSQL`, so migrations apply to databases created from its scripts.
+const postgresEnumName = (column: Column) => `${column.name}_enum`;
+
+const MYSQL_TYPES: Partial<Record<ColumnType, string>> = {
+    UUID: 'CHAR(36)', UNIQUEIDENTIFIER: 'CHAR(36)', JSONB: 'JSON', ARRAY: 'JSON', BYTEA: 'BLOB', 'DOUBLE PRECISION': 'DOUBLE',
+    MONEY: 'DECIMAL(19, 4)', SERIAL: 'INT', XML: 'TEXT', TSVECTOR: 'TEXT', TSQUERY: 'TEXT', INET: 'VARCHAR(45)', CIDR: 'VARCHAR(49)',
+    MACADDR: 'VARCHAR(17)', INTERVAL: 'VARCHAR(64)', CLOB: 'LONGTEXT', NCLOB: 'LONGTEXT', NTEXT: 'LONGTEXT', IMAGE: 'LONGBLOB',
+    RAW: 'VARBINARY(2000)', 'LONG RAW': 'LONGBLOB', VARBIT: 'VARBINARY(255)', BOX: 'GEOMETRY', LSEG: 'GEOMETRY', PATH: 'GEOMETRY', CIRCLE: 'GEOMETRY',
+};
+
+const sqliteAffinity = (type: ColumnType): string => {
+    if (INTEGER_RANK[type] || type === 'BOOLEAN') return 'INTEGER';
+    if (FLOAT_RANK[type] || type === 'BINARY_DOUBLE' || type === 'BINARY_FLOAT') return 'REAL';
+    if (DECIMAL_TYPES.includes(type)) return 'NUMERIC';
+    if (['BYTEA', 'BLOB', 'IMAGE', 'RAW', 'LONG RAW', 'BFILE'].includes(type)) return 'BLOB';
+    return 'TEXT';
+};
+
+// The column's type as the dialect spells it, without auto-increment handling.
+const columnTypeSql = (column: Column, dialect: MigrationDialect): string => {
+    if (dialect === 'SQLite') return sqliteAffinity(column.type);
+    if (isSizedType(column.type)) return `${dialect === 'MySQL' && column.type.startsWith('N') ? column.type.slice(1) : column.type}(${column.size || 255})`;
+    if (column.type === 'NUMERIC') return `${dialect === 'MySQL' ? 'DECIMAL' : 'NUMERIC'}(${column.precision || 10}, ${column.scale || 2})`;
+    if (column.type === 'ENUM') {
+        if (dialect === 'MySQL') return `ENUM(${(column.enumOptions || []).map(quoteLiteral).join(', ')})`;
+        return quoteIdentifier(postgresEnumName(column), dialect);
+    }
+    if (dialect === 'MySQL') return MYSQL_TYPES[column.type] || column.type;
+    if (column.type === 'ARRAY') return 'TEXT[]';
+    if (column.type === 'SERIAL') return 'INTEGER';
+    return column.type;
+};
+
+// `inlineKey` renders a single-column primary key on the column (needed for SQLite AUTOINCREMENT).
+const columnDefinitionSql = (column: Column, dialect: MigrationDialect, inlineKey = false): string => {
+    const name = quoteIdentifier(column.name, dialect);
+    const incrementing = column.autoIncrement || column.type === 'SERIAL';
+    if (dialect === 'SQLite' && inlineKey && incrementing) return `${name} INTEGER PRIMARY KEY AUTOINCREMENT`;
+    let type = columnTypeSql(column, dialect);
+    if (dialect === 'PostgreSQL' && incrementing) type = column.type === 'BIGINT' ? 'BIGSERIAL' : column.type === 'SMALLINT' ? 'SMALLSERIAL' : 'SERIAL';
+    let definition = `${name} ${type}`;
+    if (inlineKey) definition += ' PRIMARY KEY';
+    if (!column.isNullable || column.isPrimaryKey) definition += ' NOT NULL';
+    if (column.defaultValue && !(dialect === 'PostgreSQL' && incrementing)) definition += ` DEFAULT ${column.defaultValue}`;
+    if (column.isUnique && !column.isPrimaryKey) definition += ' UNIQUE';
+    if (dialect === 'MySQL' && incrementing) definition += ' AUTO_INCREMENT';
+    return definition;
+};
+
+const columnList = (names: string[], dialect: MigrationDialect) => names.map(name => quoteIdentifier(name, dialect)).join(', ');
+
+const indexColumnNames = (table: Table, index: Index) => index.columns.map(id => table.columns.find(c => c.id === id)?.name || id);
+
+const createEnumTypeSql = (column: Column): string =>
+    `DO $$ BEGIN\n  CREATE TYPE ${quoteIdentifier(postgresEnumName(column), 'PostgreSQL')} AS ENUM (${(column.enumOptions || []).map(quoteLiteral).join(', ')});\nEXCEPTION WHEN duplicate_object THEN NULL;\nEND $$;`;
+
+const constraintSql = (table: Table, constraint: Constraint, dialect: MigrationDialect): string => {
+    const name = quoteIdentifier(constraint.name, dialect);
+    if (constraint.type === 'CHECK') return `CONSTRAINT ${name} CHECK (${constraint.checkExpression})`;
+    const columns = (constraint.columnIds || []).map(id => table.columns.find(c => c.id === id)?.name || id);
+    return `CONSTRAINT ${name} UNIQUE (${columnList(columns, dialect)})`;
+};
+
+const foreignKeySql = (key: Pick<ForeignKeyChange, 'relationship' | 'columnName' | 'referencedTable' | 'referencedColumn'>, dialect: MigrationDialect) =>
+    `CONSTRAINT ${quoteIdentifier(key.relationship.name, dialect)} FOREIGN KEY (${quoteIdentifier(key.columnName, dialect)}) REFERENCES ${quoteIdentifier(key.referencedTable, dialect)} (${quoteIdentifier(key.referencedColumn, dialect)}) ON DELETE ${key.relationship.onDelete} ON UPDATE ${key.relationship.onUpdate}`;
+
+// SQLite declares foreign keys inside CREATE TABLE only.
+const createTableSql = (table: Table, dialect: MigrationDialect, foreignKeys: ForeignKeyChange[] = [], name = table.name): string => {
+    const key = table.columns.filter(c => c.isPrimaryKey);
+    const inlineKey = dialect === 'SQLite' && key.length === 1 && (key[0].autoIncrement || key[0].type === 'SERIAL');
+    const lines = table.columns.map(column => columnDefinitionSql(column, dialect, inlineKey && column.isPrimaryKey));
+    if (key.length > 0 && !inlineKey) lines.push(`${dialect === 'PostgreSQL' ? `CONSTRAINT ${quoteIdentifier(`${name}_pkey`, dialect)} ` : ''}PRIMARY KEY (${columnList(key.map(c => c.name), dialect)})`);
+    table.constraints.filter(c => c.type === 'CHECK' || c.type === 'UNIQUE').forEach(constraint => lines.push(constraintSql(table, constraint, dialect)));
+    foreignKeys.forEach(foreignKey => lines.push(foreignKeySql(foreignKey, dialect)));
+    return `CREATE TABLE ${quoteIdentifier(name, dialect)} (\n${lines.map(line => `  ${line}`).join(',\n')}\n);`;
+};
+
+const createIndexSql = (table: Table, index: Index, dialect: MigrationDialect): string => {
+    const columns = columnList(indexColumnNames(table, index), dialect);
+    const using = dialect === 'PostgreSQL' ? ` USING ${index.type.toLowerCase()}` : '';
+    const mysqlUsing = dialect === 'MySQL' && (index.type === 'BTREE' || index.type === 'HASH') ? ` USING ${index.type}` : '';
+    const where = index.filter && dialect !== 'MySQL' ? ` WHERE ${index.filter}` : '';
+    return `CREATE ${index.isUnique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name, dialect)} ON ${quoteIdentifier(table.name, dialect)}${using} (${columns})${mysqlUsing}${where};`;
+};
+
+// PostgreSQL's name for a column's UNIQUE constraint. It is fixed when the constraint is created: renaming the table or
+// column later does not rename it, so dropping one needs the names it had before the migration.
+const uniqueKeyName = (tableName: string, columnName: string) => `${tableName}_${columnName}_key`;
+
+// Column changes that SQLite's ALTER TABLE cannot express, so the table is redefined instead.
+const needsSqliteRedefinition = (change: SchemaChange, from: SchemaVersionSource): boolean => {
+    switch (change.kind) {
+        case 'alterColumn': case 'changePrimaryKey': case 'addConstraint': case 'dropConstraint':
+            return true;
+        case 'addForeignKey': case 'dropForeignKey':
+            return from.tables.some(t => t.id === change.table.id);
+        case 'addColumn':
+            return change.column.isPrimaryKey || change.column.isUnique || (!change.column.isNullable && !change.column.defaultValue);
+        case 'dropColumn': {
+            const previous = from.tables.find(t => t.id === change.table.id);
+            const { column } = change;
+            return column.isPrimaryKey || column.isUnique
+                || !!previous?.indexes.some(index => index.columns.includes(column.id))
+                || from.relationships.some(r => (r.fromTableId === change.table.id && r.fromColumnId === column.id) || (r.toTableId === change.table.id && r.toColumnId === column.id));
+        }
+        default:
+            return false;
+    }
+};
+
+const changeTableId = (change: SchemaChange): string | undefined => {
+    switch (change.kind) {
+        case 'renameTable': return change.to.id;
+        case 'createView': case 'dropView': return undefined;
+        default: return change.table.id;
+    }
+};
+
+// Prisma's table redefinition: copy the rows into a table with the new definition, then swap it in. New
+// columns take their backfill expression, evaluated against the old row; others fall back to their default.
+const redefineSqliteTable = (previous: Table, table: Table, to: SchemaVersionSource, backfills: ColumnBackfills): MigrationStatement[] => {
+    const temporary = `new_${table.name}`;
+    const keys = to.relationships
+        .filter(r => r.fromTableId === table.id)
+        .map(r => resolveForeignKey(to, r))
+        .filter((k): k is ForeignKeyChange => !!k);
+    const copied = table.columns.flatMap(column => {
+        const previousColumn = previous.columns.find(c => c.id === column.id);
+        if (previousColumn) return [{ column, value: quoteIdentifier(previousColumn.name, 'SQLite') }];
+        const backfill = columnNeedsBackfill(column) ? backfills[column.id]?.trim() : undefined;
+        return backfill ? [{ column, value: backfill }] : [];
+    });
+    return [
+        { label: 'RedefineTables', sql: createTableSql(table, 'SQLite', keys, temporary) },
+        { label: 'RedefineTables', sql: `INSERT INTO ${quoteIdentifier(temporary, 'SQLite')} (${columnList(copied.map(c => c.column.name), 'SQLite')}) SELECT ${copied.map(c => c.value).join(', ')} FROM ${quoteIdentifier(previous.name, 'SQLite')};` },
+        { label: 'RedefineTables', sql: `DROP TABLE ${quoteIdentifier(previous.name, 'SQLite')};` },
+        { label: 'RedefineTables', sql: `ALTER TABLE ${quoteIdentifier(temporary, 'SQLite')} RENAME TO ${quoteIdentifier(table.name, 'SQLite')};` },
+        ...table.indexes.map(index => ({ label: 'RedefineIndex', sql: createIndexSql(table, index, 'SQLite') })),
+    ];
+};
+
+// Foreign key enforcement is suspended around all redefinitions and checked once they are done.
+const redefineSqliteTables = (tableIds: Set<string>, from: SchemaVersionSource, to: SchemaVersionSource, backfills: ColumnBackfills): MigrationStatement[] => tableIds.size === 0 ? [] : [
+    { label: 'RedefineTables', sql: 'PRAGMA defer_foreign_keys=ON;\nPRAGMA foreign_keys=OFF;' },
+    ...[...tableIds].flatMap(id => redefineSqliteTable(from.tables.find(t => t.id === id)!, to.tables.find(t => t.id === id)!, to, backfills)),
+    { label: 'RedefineTables', sql: 'PRAGMA foreign_key_check;\nPRAGMA foreign_keys=ON;\nPRAGMA defer_foreign_keys=OFF;' },
+];
+
+const alterColumnSql = (change: Extract<SchemaChange, { kind: 'alterColumn' }>, dialect: MigrationDialect): MigrationStatement[] => {
+    const { table, previousTableName, from, to } = change;
+    const tableName = quoteIdentifier(table.name, dialect);
+    const name = quoteIdentifier(to.name, dialect);
+    if (dialect === 'MySQL') {
+        const statements: MigrationStatement[] = [];
+        // MODIFY restates the whole column; uniqueness lives in a separate index.
+        statements.push({ label: 'AlterTable', sql: `ALTER TABLE ${tableName} MODIFY COLUMN ${columnDefinitionSql({ ...to, isUnique: false }, dialect)};` });
+        // The index took the column's name when it was created and keeps it through renames.
+        if (from.isUnique && !to.isUnique && !to.isPrimaryKey) statements.push({ label: 'DropIndex', sql: `DROP INDEX ${quoteIdentifier(from.name, dialect)} ON ${tableName};` });
+        if (!from.isUnique && to.isUnique && !to.isPrimaryKey) statements.push({ label: 'CreateIndex', sql: `CREATE UNIQUE INDEX ${quoteIdentifier(to.name, dialect)} ON ${tableName} (${name});` });
+        return statements;
+    }
+
+    const alter = (clause: string): MigrationStatement => ({ label: 'AlterTable', sql: `ALTER TABLE ${tableName} ALTER COLUMN ${name} ${clause};` });
+    const statements: MigrationStatement[] = [];
+    const typeChanged = columnTypeSql(from, dialect) !== columnTypeSql(to, dialect) || (from.type === 'ENUM' && to.type === 'ENUM');
+    if (to.type === 'ENUM' && from.type === 'ENUM') {
+        // Postgres can add enum values in place; removing them needs the data rewritten first.
+        (to.enumOptions || []).filter(option => !(from.enumOptions || []).includes(option)).forEach(option => {
+            statements.push({ label: 'AlterEnum', sql: `ALTER TYPE ${quoteIdentifier(postgresEnumName(to), dialect)} ADD VALUE IF NOT EXISTS ${quoteLiteral(option)};` });
+        });
+        (from.enumOptions || []).filter(option => !(to.enumOptions || []).includes(option)).forEach(option => {
+            statements.push({ label: 'AlterEnum', sql: `-- Manual step: update rows using ${quoteLiteral(option)} and recreate type ${quoteIdentifier(postgresEnumName(to), dialect)} without it.` });
+        });
+    } else if (typeChanged) {
+        const type = columnTypeSql(to, dialect);
+        if (to.type === 'ENUM') statements.push({ label: 'CreateEnum', sql: createEnumTypeSql(to) });
+        statements.push(alter(`TYPE ${type} USING ${name}::${to.type === 'ENUM' ? 'text::' : ''}${type}`));
+    }
+    if (from.isNullable !== to.isNullable && !to.isPrimaryKey) statements.push(alter(to.isNullable ? 'DROP NOT NULL' : 'SET NOT NULL'));
+    if (!!from.autoIncrement !== !!to.autoIncrement) {
+        statements.push(to.autoIncrement ? alter('ADD GENERATED BY DEFAULT AS IDENTITY') : alter('DROP DEFAULT'));
+        if (!to.autoIncrement) statements.push(alter('DROP IDENTITY IF EXISTS'));
+    }
+    if ((from.defaultValue || '') !== (to.defaultValue || '')) statements.push(alter(to.defaultValue ? `SET DEFAULT ${to.defaultValue}` : 'DROP DEFAULT'));
+    if (from.isUnique && !to.isUnique && !to.isPrimaryKey) {
+        statements.push({ label: 'AlterTable', sql: `ALTER TABLE ${tableName} DROP CONSTRAINT ${quoteIdentifier(uniqueKeyName(previousTableName, from.name), dialect)};` });
+    }
+    if (!from.isUnique && to.isUnique && !to.isPrimaryKey) {
+        statements.push({ label: 'AlterTable', sql: `ALTER TABLE ${tableName} ADD CONSTRAINT ${quoteIdentifier(uniqueKeyName(table.name, to.name), dialect)} UNIQUE (${name});` });
+    }
+    return statements;
+};
+
+const changeStatements = (change: SchemaChange, dialect: MigrationDialect, createdTables: Set<string>, to: SchemaVersionSource): MigrationStatement[] => {
+    const q = (name: string) => quoteIdentifier(name, dialect);
+    switch (change.kind) {
+        case 'createTable': {
+            const keys = dialect === 'SQLite'
+                ? to.relationships.filter(r => r.fromTableId === change.table.id).map(r => resolveForeignKey(to, r)).filter((k): k is ForeignKeyChange => !!k)
+                : [];
+            const enums = dialect === 'PostgreSQL' ? change.table.columns.filter(c => c.type === 'ENUM') : [];
+            return [
+                ...enums.map(column => ({ label: 'CreateEnum', sql: createEnumTypeSql(column) })),
+                { label: 'CreateTable', sql: createTableSql(change.table, dialect, keys) },
+            ];
+        }
+        case 'dropTable':
+            return [{ label: 'DropTable', sql: `DROP TABLE ${q(change.table.name)};` }];
+        case 'renameTable':
+            return [{ label: 'RenameTable', sql: dialect === 'MySQL' ? `RENAME TABLE ${q(change.from.name)} TO ${q(change.to.name)};` : `ALTER TABLE ${q(change.from.name)} RENAME TO ${q(change.to.name)};` }];
+        case 'renameColumn':
+            return [{ label: 'RenameColumn', sql: `ALTER TABLE ${q(change.table.name)} RENAME COLUMN ${q(change.from.name)} TO ${q(change.to.name)};` }];
+        case 'addColumn': {
+            const { table, column, backfill } = change;
+            const enumType = dialect === 'PostgreSQL' && column.type === 'ENUM' ? [{ label: 'CreateEnum', sql: createEnumTypeSql(column) }] : [];
+            if (!backfill) {
+                return [...enumType, { label: 'AlterTable', sql: `ALTER TABLE ${q(table.name)} ADD COLUMN ${columnDefinitionSql({ ...column, isPrimaryKey: false }, dialect)};` }];
+            }
+            // Added as nullable, filled, then made NOT NULL, so tables that already have rows can take it.
+            return [
+                ...enumType,
+                { label: 'AlterTable', sql: `ALTER TABLE ${q(table.name)} ADD COLUMN ${columnDefinitionSql({ ...column, isPrimaryKey: false, isNullable: true }, dialect)};` },
+                { label: 'Backfill', sql: `UPDATE ${q(table.name)} SET ${q(column.name)} = ${backfill};` },
+                { label: 'AlterTable', sql: dialect === 'MySQL'
+                    ? `ALTER TABLE ${q(table.name)} MODIFY COLUMN ${columnDefinitionSql({ ...column, isPrimaryKey: false, isUnique: false }, dialect)};`
+                    : `ALTER TABLE ${q(table.name)} ALTER COLUMN ${q(column.name)} SET NOT NULL;` },
+            ];
+        }
+        case 'dropColumn':
+            return [{ label: 'AlterTable', sql: `ALTER TABLE ${q(change.table.name)} DROP COLUMN ${q(change.column.name)};` }];
+        case 'alterColumn':
+            return alterColumnSql(change, dialect);
+        case 'changePrimaryKey': {
+            const statements: MigrationStatement[] = [];
+            if (change.from.length > 0) {
+                statements.push({ label: 'AlterTable', sql: dialect === 'MySQL'
+                    ? `ALTER TABLE ${q(change.table.name)} DROP PRIMARY KEY;`
+                    : `ALTER TABLE ${q(change.table.name)} DROP CONSTRAINT ${q(`${change.previousTableName}_pkey`)};` });
+            }
+            if (change.to.length > 0) {
+                statements.push({ label: 'AlterTable', sql: `ALTER TABLE ${q(change.table.name)} ADD ${dialect === 'PostgreSQL' ? `CONSTRAINT ${q(`${change.table.name}_pkey`)} ` : ''}PRIMARY KEY (${columnList(change.to.map(c => c.name), dialect)});` });
+            }
+            return statements;
+        }
+        case 'createIndex':
+            return [{ label: 'CreateIndex', sql: createIndexSql(change.table, change.index, dialect) }];
+        case 'dropIndex':
+            return [{ label: 'DropIndex', sql: dialect === 'MySQL' ? `DROP INDEX ${q(change.index.name)} ON ${q(change.table.name)};` : `DROP INDEX ${q(change.index.name)};` }];
+        case 'addConstraint':
+            return [{ label: 'AlterTable', sql: `ALTER TABLE ${q(change.table.name)} ADD ${constraintSql(change.table, change.constraint, dialect)};` }];
+        case 'dropConstraint': {
+            const keyword = dialect !== 'MySQL' ? 'CONSTRAINT' : change.constraint.type === 'CHECK' ? 'CHECK' : 'INDEX';
+            return [{ label: 'AlterTable', sql: `ALTER TABLE ${q(change.table.name)} DROP ${keyword} ${q(change.constraint.name)};` }];
+        }
+        case 'addForeignKey':
+            if (dialect === 'SQLite' && createdTables.has(change.table.id)) return []; // Declared in CREATE TABLE
+            return [{ label: 'AddForeignKey', sql: `ALTER TABLE ${q(change.table.name)} ADD ${foreignKeySql(change, dialect)};` }];
+        case 'dropForeignKey':
+            return [{ label: 'DropForeignKey', sql: `ALTER TABLE ${q(change.table.name)} DROP ${dialect === 'MySQL' ? 'FOREIGN KEY' : 'CONSTRAINT'} ${q(change.relationship.name)};` }];
+        case 'createView':
+            return [{ label: 'CreateView', sql: `CREATE VIEW ${q(change.view.name)} AS\n${change.view.definition.trim().replace(/;$/, '')};` }];
+        case 'dropView':
+            return [{ label: 'DropView', sql: `DROP VIEW ${q(change.view.name)};` }];
+    }
+};
+
+const tablesWithChange = (changes: SchemaChange[], kind: SchemaChange['kind']) =>
+    new Set(changes.filter(c => c.kind === kind).map(c => changeTableId(c)!));
+
+// The SQLite tables that `changes` redefine. `alsoRedefine` adds tables redefined in the opposite direction, so
+// a down migration rebuilds what its up migration rebuilt instead of relying on a narrower ALTER TABLE.
+const sqliteRedefinedTables = (changes: SchemaChange[], from: SchemaVersionSource, to: SchemaVersionSource, alsoRedefine: Iterable<string> = []): Set<string> => {
+    const createdTables = tablesWithChange(changes, 'createTable');
+    const droppedTables = tablesWithChange(changes, 'dropTable');
+    const redefinable = (id: string) => !createdTables.has(id) && !droppedTables.has(id) && from.tables.some(t => t.id === id) && to.tables.some(t => t.id === id);
+    const redefined = new Set([...alsoRedefine].filter(redefinable));
+    changes.forEach(change => {
+        const tableId = changeTableId(change);
+        if (tableId && redefinable(tableId) && needsSqliteRedefinition(change, from)) redefined.add(tableId);
+    });
+    // A redefined table that is also renamed leaves REFERENCES clauses elsewhere pointing at the old name.
+    [...redefined].filter(id => from.tables.find(t => t.id === id)!.name !== to.tables.find(t => t.id === id)!.name).forEach(id => {
+        to.relationships
+            .filter(r => r.toTableId === id && from.tables.some(t => t.id === r.fromTableId) && !droppedTables.has(r.fromTableId))
+            .forEach(r => redefined.add(r.fromTableId));
+    });
+    return redefined;
+};
+
+// Invented: Turns a diff into dialect-specific statements. On SQLite, tables whose changes ALTER TABLE
+// cannot express are redefined once, right after new tables are created.
+export const generateMigrationStatements = (
+    changes: SchemaChange[], from: SchemaVersionSource, to: SchemaVersionSource, dialect: MigrationDialect,
+    backfills: ColumnBackfills = {}, alsoRedefine: Iterable<string> = [],
+): MigrationStatement[] => {
+    const createdTables = tablesWithChange(changes, 'createTable');
+    const droppedTables = tablesWithChange(changes, 'dropTable');
+    const redefined = dialect === 'SQLite' ? sqliteRedefinedTables(changes, from, to, alsoRedefine) : new Set<string>();
+
+    const statements: MigrationStatement[] = [];
+    let redefinitionsEmitted = false;
+    changes.forEach(change => {
+        if (!redefinitionsEmitted && CHANGE_ORDER.indexOf(change.kind) > CHANGE_ORDER.indexOf('createTable')) {
+            redefinitionsEmitted = true;
+            statements.push(...redefineSqliteTables(redefined, from, to, backfills));
+        }
+        const tableId = changeTableId(change);
+        if (tableId && redefined.has(tableId)) return;
+        if (change.kind === 'dropForeignKey' && dialect === 'SQLite' && droppedTables.has(change.table.id)) return;
+        statements.push(...changeStatements(change, dialect, createdTables, to));
+    });
+    if (!redefinitionsEmitted) statements.push(...redefineSqliteTables(redefined, from, to, backfills));
+    return statements;
+};
+
+// Invented: Up and down migrations between two schema versions. The down migration is the diff in the
+// opposite direction, so it restores structure but not the data a destructive up step removed. On SQLite both
+// directions redefine the same tables. `backfills` applies to columns added in either direction.
+export const buildMigrationPlan = (from: SchemaVersionSource, to: SchemaVersionSource, dialect: MigrationDialect, backfills: ColumnBackfills = {}): SchemaMigrationPlan => {
+    const changes = diffSchemas(from, to, backfills);
+    const downChanges = diffSchemas(to, from, backfills);
+    const redefined = dialect === 'SQLite'
+        ? [...sqliteRedefinedTables(changes, from, to), ...sqliteRedefinedTables(downChanges, to, from)]
+        : [];
+    return {
+        dialect,
+        changes,
+        downChanges,
+        up: generateMigrationStatements(changes, from, to, dialect, backfills, redefined),
+        down: generateMigrationStatements(downChanges, to, from, dialect, backfills, redefined),
+    };
+};
+
+const sqlScript = (statements: MigrationStatement[], withHeadings: boolean): string => {
+    let script = '';
+    let previousLabel = '';
+    statements.forEach(statement => {
+        if (withHeadings && statement.label !== previousLabel) script += `${script ? '\n' : ''}-- ${statement.label}\n`;
+        script += `${statement.sql}\n`;
+        previousLabel = statement.label;
+    });
+    return script;
+};
+
+const destructiveSummary = (changes: SchemaChange[]) => changes
+    .filter(change => change.destructive)
+    .map(change => `-- WARNING (destructive): ${change.description}. ${change.warning || ''}`.trimEnd() + '\n')
+    .join('');
+
+const templateLiteral = (text: string) => `\`${text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``;
+
+const knexBody = (statements: MigrationStatement[]) =>
+    statements.map(statement => `    await knex.raw(${templateLiteral(statement.sql)});`).join('\n');
+
+const migrationSlug = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'migration';
+
+const migrationTimestamp = (date: Date) => date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+// Invented: Renders a plan as files for the chosen tool. Prisma keeps `down.sql` beside `migration.sql`,
+// which is where `prisma migrate diff` down migrations are conventionally stored.
+export const renderMigrationFiles = (plan: SchemaMigrationPlan, format: MigrationFormat, name: string, date: Date = new Date()): MigrationFile[] => {
+    const id = `${migrationTimestamp(date)}_${migrationSlug(name)}`;
+    const header = `-- Generated by Citibank Demo Business Inc. Schema Designer\n-- Migration: ${name}\n-- Dialect: ${plan.dialect}\n${destructiveSummary(plan.changes)}\n`;
+    switch (format) {
+        case 'sql':
+            return [
+                { path: `${id}.up.sql`, content: header + sqlScript(plan.up, false) },
+                { path: `${id}.down.sql`, content: `-- Reverts ${id}.up.sql\n${destructiveSummary(plan.downChanges)}\n${sqlScript(plan.down, false)}` },
+            ];
+        case 'prisma':
+            return [
+                { path: `prisma/migrations/${id}/migration.sql`, content: destructiveSummary(plan.changes) + sqlScript(plan.up, true) },
+                { path: `prisma/migrations/${id}/down.sql`, content: destructiveSummary(plan.downChanges) + sqlScript(plan.down, true) },
+            ];
+        case 'knex': {
+            // SQLite ignores PRAGMA foreign_keys inside a transaction, so redefinitions run outside one.
+            const redefines = [...plan.up, ...plan.down].some(statement => statement.label === 'RedefineTables');
+            const warnings = plan.changes.filter(c => c.destructive).map(c => ` * WARNING (destructive): ${c.description}. ${c.warning || ''}`.trimEnd());
+            const content = [
+                `/**\n * ${name} (${plan.dialect})${warnings.length ? `\n${warnings.join('\n')}` : ''}\n */`,
+                redefines ? 'exports.config = { transaction: false };\n' : '',
+                `/** @param { import("knex").Knex } knex */\nexports.up = async function (knex) {\n${knexBody(plan.up)}\n};\n`,
+                `/** @param { import("knex").Knex } knex */\nexports.down = async function (knex) {\n${knexBody(plan.down)}\n};\n`,
+            ].filter(Boolean).join('\n');
+            return [{ path: `migrations/${id}.js`, content }];
+        }
+    }
+};
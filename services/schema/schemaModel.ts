@@ -0,0 +1,107 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The schema designer's data model: tables, columns, indexes, constraints, relationships and views. Shared by
+// the designer UI, the migration engine and the DDL/Prisma importers.
+
+// Invented: Define complex schema element types for richer modeling
+export type ColumnType = 'VARCHAR' | 'INT' | 'TEXT' | 'BOOLEAN' | 'DATE' | 'TIMESTAMP' | 'UUID' | 'JSONB' | 'ENUM' | 'NUMERIC' | 'BYTEA' | 'XML' | 'GEOMETRY' | 'ARRAY' | 'SERIAL' | 'BIGINT' | 'SMALLINT' | 'REAL' | 'DOUBLE PRECISION' | 'MONEY' | 'INET' | 'CIDR' | 'MACADDR' | 'TSVECTOR' | 'TSQUERY' | 'BOX' | 'LINE' | 'LSEG' | 'PATH' | 'POLYGON' | 'CIRCLE' | 'POINT' | 'INTERVAL' | 'TIME' | 'BIT' | 'VARBIT' | 'BLOB' | 'CLOB' | 'NVARCHAR' | 'NCHAR' | 'ROWVERSION' | 'HIERARCHYID' | 'SQL_VARIANT' | 'UNIQUEIDENTIFIER' | 'SMALLDATETIME' | 'DATETIMEOFFSET' | 'IMAGE' | 'NTEXT' | 'XMLTYPE' | 'BFILE' | 'CFILE' | 'ROWID' | 'UROWID' | 'NUMBER' | 'CHAR' | 'BINARY_DOUBLE' | 'BINARY_FLOAT' | 'LONG' | 'LONG RAW' | 'RAW' | 'NCLOB' | 'BFILE' | 'CLOB' | 'URI_TYPE' | 'SDO_GEOMETRY' | 'ANYDATA';
+export type ConstraintType = 'PRIMARY KEY' | 'UNIQUE' | 'NOT NULL' | 'FOREIGN KEY' | 'CHECK' | 'EXCLUDE';
+export type IndexType = 'BTREE' | 'HASH' | 'GIN' | 'GIST' | 'SPGIST' | 'BRIN';
+export type RelationshipCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+export type DatabaseDialect = 'PostgreSQL' | 'MySQL' | 'SQLite' | 'SQLServer' | 'Oracle' | 'GraphQL' | 'MongoDB' | 'Cassandra' | 'DynamoDB' | 'Neo4j' | 'BigQuery' | 'Snowflake'; // Invented: Support for various database dialects
+
+// Invented: Interfaces for advanced schema elements
+export interface Column {
+    id: string; // Changed to string UUID
+    name: string;
+    type: ColumnType;
+    isNullable: boolean;
+    defaultValue?: string;
+    comment?: string;
+    isPrimaryKey: boolean;
+    isUnique: boolean;
+    autoIncrement?: boolean;
+    size?: number; // For VARCHAR(size)
+    precision?: number; // For NUMERIC(precision, scale)
+    scale?: number;
+    enumOptions?: string[]; // For ENUM types
+    collation?: string;
+    srid?: number; // For GEOMETRY types
+}
+
+export interface Index {
+    id: string;
+    name: string;
+    columns: string[]; // Column IDs that form the index
+    type: IndexType;
+    isUnique: boolean;
+    filter?: string; // e.g., WHERE condition for partial indexes
+    includeColumns?: string[]; // For covering indexes (SQL Server)
+}
+
+export interface Constraint {
+    id: string;
+    name: string;
+    type: ConstraintType;
+    columnIds?: string[]; // Columns involved in the constraint
+    checkExpression?: string; // For CHECK constraints
+    // foreign key specific
+    referencedTableId?: string;
+    referencedColumnId?: string;
+    onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+    onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+}
+
+export interface Relationship { // Invented: Relationship model for foreign keys and other links
+    id: string;
+    fromTableId: string;
+    fromColumnId: string;
+    toTableId: string;
+    toColumnId: string;
+    name: string; // e.g., fk_users_posts
+    cardinality: RelationshipCardinality;
+    onDelete: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+    onUpdate: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION' | 'SET DEFAULT';
+    // Visualization specific
+    controlPoints?: { x: number; y: number }[]; // For complex line routing
+    strokeColor?: string;
+    strokeWidth?: number;
+    // AI generated metadata
+    aiConfidence?: number;
+    aiSource?: 'Gemini' | 'ChatGPT' | 'User';
+}
+
+export interface Table {
+    id: string; // Changed to string UUID
+    name: string;
+    columns: Column[];
+    indexes: Index[]; // Invented: Indexes within a table
+    constraints: Constraint[]; // Invented: Constraints within a table (excluding FKs handled by Relationship)
+    x: number;
+    y: number;
+    width: number; // Invented: Table dimensions for better layout
+    height: number;
+    color: string; // Invented: Customizable table color
+    comment?: string; // Invented: Table level comments
+    tags: string[]; // Invented: Tags for categorization (e.g., 'core', 'audit', 'ecommerce')
+    // AI generated metadata
+    aiGenerated?: boolean;
+    aiGenerationPrompt?: string;
+    aiOptimizationSuggestions?: string[];
+}
+
+export interface View { // Invented: Database Views
+    id: string;
+    name: string;
+    definition: string; // SQL query defining the view
+    x: number;
+    y: number;
+    color: string;
+    comment?: string;
+}
@@ -0,0 +1,3702 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The Evergreen Styles SCSS compiler: lexer, parser, evaluator (modules, mixins, functions, @extend,
+// control flow) and CSS/source-map generator. Pure and synchronous, so any feature can call `compile`.
+
+// Invented Feature: `CompilerErrorCode` Enum (Version 1.1 - Enhanced Error Handling)
+// Purpose: Standardize error codes for easier debugging, localization, and automated support.
+// As the compiler grew, specific error types became crucial for robust feedback.
+export enum CompilerErrorCode {
+    UNKNOWN_ERROR = 'C001',
+    SYNTAX_ERROR = 'C002',
+    VARIABLE_NOT_DEFINED = 'C003',
+    MIXIN_NOT_FOUND = 'C004',
+    FUNCTION_NOT_FOUND = 'C005',
+    CIRCULAR_DEPENDENCY = 'C006',
+    INVALID_ARITHMETIC_OPERATION = 'C007',
+    SELECTOR_PARSING_ERROR = 'C008',
+    AT_RULE_NOT_SUPPORTED = 'C009',
+    IMPORT_RESOLUTION_FAILED = 'C010',
+    EXTERNAL_SERVICE_FAILURE = 'C011',
+    AI_ASSISTANCE_ERROR = 'C012',
+    SECURITY_VIOLATION = 'C013',
+    PERFORMANCE_OVERLOAD = 'C014',
+    RESOURCE_LIMIT_EXCEEDED = 'C015',
+    THEME_MISMATCH = 'C016',
+    USER_ERROR = 'C017', // Raised by `@error` in the stylesheet
+    EXTEND_TARGET_NOT_FOUND = 'C018',
+    MODULE_CONFIGURATION_ERROR = 'C019',
+    TYPE_MISMATCH = 'C020',
+    EXTEND_ACROSS_MEDIA = 'C021',
+    // ... many more as features grew
+}
+
+// Invented Feature: `CompilerError` Class (Version 1.1 - Richer Error Context)
+// Purpose: Provide detailed error information, including code, message, and location (if applicable).
+export class CompilerError extends Error {
+    code: CompilerErrorCode;
+    line?: number;
+    column?: number;
+    file?: string; // Stylesheet the error was raised in, when it is not the entry file
+    suggestion?: string;
+
+    constructor(message: string, code: CompilerErrorCode, line?: number, column?: number, suggestion?: string) {
+        super(message);
+        this.name = 'CompilerError';
+        this.code = code;
+        this.line = line;
+        this.column = column;
+        this.suggestion = suggestion;
+        Object.setPrototypeOf(this, CompilerError.prototype);
+    }
+}
+
+// Invented Feature: `ASTNode` Interface (Version 2.0 - Abstract Syntax Tree Foundation)
+// Purpose: Define a common structure for all nodes in the Abstract Syntax Tree.
+// This was a major architectural leap, moving from regex-based string manipulation
+// to a structured, traversable representation of the SCSS code. This enabled
+// advanced features like mixins, functions, and complex nesting.
+export interface ASTNode {
+    type: string;
+    loc?: {
+        start: { line: number; column: number; };
+        end: { line: number; column: number; };
+    };
+    children?: ASTNode[];
+    value?: any;
+    // ... more specific properties depending on node type
+}
+
+// Invented Feature: `StyleSheetNode`, `RuleSetNode`, `DeclarationNode`, `VariableNode`, `MixinCallNode`, etc. (Version 2.1 - Specific AST Nodes)
+// Purpose: Detailed typing for different SCSS constructs within the AST.
+// Selectors, values and at-rule params are kept as raw source text; the ASTProcessor parses them
+// as SassScript at evaluation time because their meaning depends on the scope they run in.
+export interface StyleSheetNode extends ASTNode { type: 'StyleSheet'; children: ASTNode[]; }
+export interface RuleSetNode extends ASTNode { type: 'RuleSet'; selector: string; children: ASTNode[]; }
+export interface DeclarationNode extends ASTNode { type: 'Declaration'; property: string; value: string; children?: ASTNode[]; }
+export interface VariableNode extends ASTNode { type: 'Variable'; name: string; value: string; namespace?: string; isDefault?: boolean; isGlobal?: boolean; }
+export interface MixinCallNode extends ASTNode { type: 'MixinCall'; name: string; args: ASTNode[]; }
+export interface FunctionCallNode extends ASTNode { type: 'FunctionCall'; name: string; args: ASTNode[]; }
+export interface AtRuleNode extends ASTNode { type: 'AtRule'; name: string; params: string; children?: ASTNode[]; }
+export interface CommentNode extends ASTNode { type: 'Comment'; value: string; }
+export interface InterpolationNode extends ASTNode { type: 'Interpolation'; value: string; }
+export interface ExpressionNode extends ASTNode { type: 'Expression'; operator: string; left: ASTNode; right: ASTNode; }
+// Invented Feature: `ConditionalNode` (Version 11.0 - @if/@else Chains)
+// Purpose: The parser folds an `@if` and its trailing `@else if`/`@else` rules into one node so the
+// processor can pick a single branch.
+export interface ConditionalBranch { condition?: string; children: ASTNode[]; loc?: ASTNode['loc']; }
+export interface ConditionalNode extends ASTNode { type: 'Conditional'; branches: ConditionalBranch[]; }
+// ... countless other node types for every SASS construct
+
+// Invented Feature: `CssNode` Types (Version 11.0 - Evaluated CSS Tree)
+// Purpose: The ASTProcessor's output. Every node remembers the SCSS location it came from so the
+// CodeGenerator can emit a source map.
+export interface CssSourceSpan { url: string; line: number; column: number; }
+export interface CssRuleNode { type: 'ProcessedRule'; selectors: string[]; children: CssNode[]; source?: CssSourceSpan; }
+export interface CssDeclarationNode { type: 'ProcessedDeclaration'; property: string; value: string; source?: CssSourceSpan; }
+export interface CssAtRuleNode { type: 'ProcessedAtRule'; name: string; params: string; children?: CssNode[]; source?: CssSourceSpan; }
+export interface CssCommentNode { type: 'ProcessedComment'; value: string; source?: CssSourceSpan; }
+export type CssNode = CssRuleNode | CssDeclarationNode | CssAtRuleNode | CssCommentNode;
+
+// Chapter 2: The Parser's Awakening (Mid 2023)
+// Recognizing the limitations of regex, the "Evergreen Styles" team, led by senior architect Dr. Anya Sharma,
+// embarked on building a full-fledged parser. This marked a monumental shift towards a robust compiler architecture.
+// The new system would first tokenize the SCSS, then build an Abstract Syntax Tree (AST), allowing for
+// more predictable and powerful transformations.
+
+// Invented Feature: `Token` Interface & `TokenType` Enum (Version 2.0 - Lexical Analysis)
+// Purpose: Represent discrete units of the SCSS source code.
+export enum TokenType {
+    IDENTIFIER = 'IDENTIFIER',
+    VARIABLE = 'VARIABLE',
+    STRING = 'STRING',
+    NUMBER = 'NUMBER',
+    UNIT = 'UNIT',
+    COLOR = 'COLOR',
+    SELECTOR_CHAR = 'SELECTOR_CHAR', // '.', '#', '~', etc.
+    OPEN_BRACE = '{',
+    CLOSE_BRACE = '}',
+    OPEN_PAREN = '(',
+    CLOSE_PAREN = ')',
+    OPEN_BRACKET = '[',
+    CLOSE_BRACKET = ']',
+    SEMICOLON = ';',
+    COLON = ':',
+    COMMA = ',',
+    OPERATOR = 'OPERATOR', // '+', '-', '*', '/', '%', '==', '<=', etc.
+    AT_RULE = 'AT_RULE', // @import, @mixin, @function
+    AND_OPERATOR = '&', // Parent selector
+    INTERPOLATION = 'INTERPOLATION', // `#{...}`, kept verbatim
+    URL = 'URL', // Unquoted `url(...)`, kept verbatim
+    FLAG = 'FLAG', // `!default`, `!global`, `!important`, `!optional`
+    COMMENT = 'COMMENT',
+    WHITESPACE = 'WHITESPACE',
+    EOF = 'EOF',
+    // ... many more for specific SASS syntax elements
+}
+
+// Every token's `value` is the exact source text it covers, so concatenating token values
+// reproduces the original input. The parser relies on this to keep selectors and values intact.
+export interface Token {
+    type: TokenType;
+    value: string;
+    line: number;
+    column: number;
+}
+
+// Invented Feature: `Lexer` Class (Version 2.0 - Tokenizer Engine)
+// Purpose: Convert SCSS source code into a stream of tokens.
+export class Lexer {
+    private input: string;
+    private cursor: number;
+    private line: number;
+    private column: number;
+    private tokens: Token[];
+    private tokenLine: number;
+    private tokenColumn: number;
+
+    constructor(input: string) {
+        this.input = input;
+        this.cursor = 0;
+        this.line = 1;
+        this.column = 1;
+        this.tokens = [];
+        this.tokenLine = 1;
+        this.tokenColumn = 1;
+    }
+
+    private advance(n: number = 1): void {
+        for (let i = 0; i < n; i++) {
+            if (this.input[this.cursor] === '\n') {
+                this.line++;
+                this.column = 1;
+            } else {
+                this.column++;
+            }
+            this.cursor++;
+        }
+    }
+
+    private peek(n: number = 0): string | undefined {
+        return this.input[this.cursor + n];
+    }
+
+    private isWhitespace(char: string): boolean {
+        return /\s/.test(char);
+    }
+
+    private isDigit(char: string | undefined): boolean {
+        return !!char && /\d/.test(char);
+    }
+
+    private isAlpha(char: string | undefined): boolean {
+        return !!char && /[a-zA-Z]/.test(char);
+    }
+
+    private isNameStart(char: string | undefined): boolean {
+        return !!char && (/[a-zA-Z_\\]/.test(char) || char.charCodeAt(0) >= 0x80);
+    }
+
+    private isNameChar(char: string | undefined): boolean {
+        return !!char && (/[a-zA-Z0-9_\-\\]/.test(char) || char.charCodeAt(0) >= 0x80);
+    }
+
+    private addToken(type: TokenType, value: string): void {
+        this.tokens.push({ type, value, line: this.tokenLine, column: this.tokenColumn });
+    }
+
+    private error(message: string): CompilerError {
+        return new CompilerError(message, CompilerErrorCode.SYNTAX_ERROR, this.tokenLine, this.tokenColumn);
+    }
+
+    // Reads a run of name characters, including `\` escapes, starting at the cursor.
+    private readName(): string {
+        let name = '';
+        while (this.isNameChar(this.peek())) {
+            if (this.peek() === '\\' && this.peek(1) !== undefined) {
+                name += this.peek()! + this.peek(1)!;
+                this.advance(2);
+                continue;
+            }
+            name += this.peek();
+            this.advance();
+        }
+        return name;
+    }
+
+    private readString(quoteChar: string): string {
+        let value = quoteChar;
+        this.advance();
+        while (this.peek() !== undefined && this.peek() !== quoteChar) {
+            if (this.peek() === '\n') break;
+            if (this.peek() === '\\' && this.peek(1) !== undefined) {
+                value += this.peek()! + this.peek(1)!;
+                this.advance(2);
+                continue;
+            }
+            if (this.peek() === '#' && this.peek(1) === '{') {
+                value += this.readInterpolation();
+                continue;
+            }
+            value += this.peek();
+            this.advance();
+        }
+        if (this.peek() !== quoteChar) {
+            throw this.error('Unterminated string literal');
+        }
+        this.advance();
+        return value + quoteChar;
+    }
+
+    private readInterpolation(): string {
+        let value = '#{';
+        this.advance(2);
+        let braceCount = 1;
+        while (this.peek() !== undefined) {
+            const char = this.peek()!;
+            if (char === '"' || char === '\'') {
+                value += this.readString(char);
+                continue;
+            }
+            if (char === '{') braceCount++;
+            if (char === '}') braceCount--;
+            value += char;
+            this.advance();
+            if (braceCount === 0) return value;
+        }
+        throw this.error('Unterminated interpolation block');
+    }
+
+    public tokenize(): Token[] {
+        while (this.cursor < this.input.length) {
+            const char = this.peek()!;
+            this.tokenLine = this.line;
+            this.tokenColumn = this.column;
+
+            if (this.isWhitespace(char)) {
+                let whitespace = '';
+                while (this.peek() !== undefined && this.isWhitespace(this.peek()!)) {
+                    whitespace += this.peek();
+                    this.advance();
+                }
+                this.addToken(TokenType.WHITESPACE, whitespace);
+                continue;
+            }
+
+            if (char === '/' && this.peek(1) === '/') { // Line comment
+                let comment = '';
+                while (this.peek() && this.peek() !== '\n') {
+                    comment += this.peek();
+                    this.advance();
+                }
+                this.addToken(TokenType.COMMENT, comment);
+                continue;
+            }
+
+            if (char === '/' && this.peek(1) === '*') { // Block comment
+                let comment = '';
+                this.advance(2); // Consume /*
+                while (this.peek() && !(this.peek() === '*' && this.peek(1) === '/')) {
+                    comment += this.peek();
+                    this.advance();
+                }
+                if (this.peek() === '*' && this.peek(1) === '/') {
+                    this.advance(2); // Consume */
+                } else {
+                    throw this.error('Unterminated block comment');
+                }
+                this.addToken(TokenType.COMMENT, `/*${comment}*/`); // Preserved in output CSS
+                continue;
+            }
+
+            if (char === '$') {
+                this.advance(); // Consume $
+                const variableName = this.readName();
+                if (!variableName) {
+                    throw this.error('Invalid variable name after $');
+                }
+                this.addToken(TokenType.VARIABLE, `$${variableName}`);
+                continue;
+            }
+
+            if (char === '@') {
+                this.advance(); // Consume @
+                const atRuleName = this.readName();
+                if (!atRuleName) {
+                    throw this.error('Invalid at-rule name after @');
+                }
+                this.addToken(TokenType.AT_RULE, `@${atRuleName}`);
+                continue;
+            }
+
+            if (char === '#' && this.peek(1) === '{') {
+                this.addToken(TokenType.INTERPOLATION, this.readInterpolation());
+                continue;
+            }
+
+            if (char === '#') { // Hex color, or an id selector that merely starts with hex digits
+                let hexLength = 0;
+                while (/[0-9a-fA-F]/.test(this.peek(hexLength + 1) || '')) hexLength++;
+                if ([3, 4, 6, 8].includes(hexLength) && !this.isNameChar(this.peek(hexLength + 1))) {
+                    const hexValue = this.input.substr(this.cursor, hexLength + 1);
+                    this.advance(hexLength + 1);
+                    this.addToken(TokenType.COLOR, hexValue);
+                    continue;
+                }
+                this.advance();
+                this.addToken(TokenType.SELECTOR_CHAR, char);
+                continue;
+            }
+
+            if (char === '\'' || char === '"') {
+                this.addToken(TokenType.STRING, this.readString(char));
+                continue;
+            }
+
+            if (this.isDigit(char) || (char === '.' && this.isDigit(this.peek(1)))) {
+                let number = '';
+                while (this.isDigit(this.peek()) || (this.peek() === '.' && this.isDigit(this.peek(1)))) {
+                    number += this.peek();
+                    this.advance();
+                }
+                this.addToken(TokenType.NUMBER, number);
+                // Units are letters only, so `10px-5px` still lexes as a subtraction.
+                this.tokenLine = this.line;
+                this.tokenColumn = this.column;
+                let unit = '';
+                if (this.peek() === '%') {
+                    unit = '%';
+                    this.advance();
+                } else {
+                    while (this.isAlpha(this.peek())) {
+                        unit += this.peek();
+                        this.advance();
+                    }
+                }
+                if (unit) this.addToken(TokenType.UNIT, unit);
+                continue;
+            }
+
+            if (char === '!' && (this.isAlpha(this.peek(1)) || this.peek(1) === ' ')) {
+                let offset = 1;
+                while (this.peek(offset) === ' ') offset++;
+                if (this.isAlpha(this.peek(offset))) {
+                    this.advance(offset);
+                    this.addToken(TokenType.FLAG, `!${this.readName()}`);
+                    continue;
+                }
+            }
+
+            const startsIdentifier = this.isNameStart(char)
+                || (char === '-' && (this.isNameStart(this.peek(1)) || this.peek(1) === '-'));
+            if (startsIdentifier) {
+                let identifier = '';
+                if (char === '-') {
+                    identifier += char;
+                    this.advance();
+                    if (this.peek() === '-') {
+                        identifier += '-';
+                        this.advance();
+                    }
+                }
+                identifier += this.readName();
+                if (identifier.toLowerCase() === 'url' && this.peek() === '(') {
+                    // Unquoted urls may contain `//` and other characters that aren't valid SassScript.
+                    let offset = 1;
+                    while (this.peek(offset) !== undefined && this.isWhitespace(this.peek(offset)!)) offset++;
+                    const next = this.peek(offset);
+                    if (next !== '"' && next !== '\'' && next !== '$' && !(next === '#' && this.peek(offset + 1) === '{')) {
+                        let url = identifier;
+                        while (this.peek() !== undefined && this.peek() !== ')') {
+                            url += this.peek();
+                            this.advance();
+                        }
+                        if (this.peek() !== ')') throw this.error('Unterminated url()');
+                        this.advance();
+                        this.addToken(TokenType.URL, `${url})`);
+                        continue;
+                    }
+                }
+                this.addToken(TokenType.IDENTIFIER, identifier);
+                continue;
+            }
+
+            if (char === '&') {
+                this.addToken(TokenType.AND_OPERATOR, char);
+                this.advance();
+                continue;
+            }
+
+            if (char === '{') { this.addToken(TokenType.OPEN_BRACE, char); this.advance(); continue; }
+            if (char === '}') { this.addToken(TokenType.CLOSE_BRACE, char); this.advance(); continue; }
+            if (char === '(') { this.addToken(TokenType.OPEN_PAREN, char); this.advance(); continue; }
+            if (char === ')') { this.addToken(TokenType.CLOSE_PAREN, char); this.advance(); continue; }
+            if (char === '[') { this.addToken(TokenType.OPEN_BRACKET, char); this.advance(); continue; }
+            if (char === ']') { this.addToken(TokenType.CLOSE_BRACKET, char); this.advance(); continue; }
+            if (char === ';') { this.addToken(TokenType.SEMICOLON, char); this.advance(); continue; }
+            if (char === ':') { this.addToken(TokenType.COLON, char); this.advance(); continue; }
+            if (char === ',') { this.addToken(TokenType.COMMA, char); this.advance(); continue; }
+
+            if (char === '%' && this.isNameStart(this.peek(1))) { // Placeholder selector
+                this.addToken(TokenType.SELECTOR_CHAR, char);
+                this.advance();
+                continue;
+            }
+
+            const twoChars = char + (this.peek(1) || '');
+            if (['==', '!=', '<=', '>='].includes(twoChars)) {
+                this.addToken(TokenType.OPERATOR, twoChars);
+                this.advance(2);
+                continue;
+            }
+            if (['+', '-', '*', '/', '%', '<', '>', '='].includes(char)) {
+                this.addToken(TokenType.OPERATOR, char);
+                this.advance();
+                continue;
+            }
+
+            if (['.', '~', '|', '^', '!'].includes(char)) { // Remaining selector characters
+                this.addToken(TokenType.SELECTOR_CHAR, char);
+                this.advance();
+                continue;
+            }
+
+            throw this.error(`Unexpected character: '${char}'`);
+        }
+
+        this.tokenLine = this.line;
+        this.tokenColumn = this.column;
+        this.addToken(TokenType.EOF, '');
+        return this.tokens;
+    }
+}
+
+// Invented Feature: `Parser` Class (Version 2.0 - AST Builder Engine)
+// Purpose: Transform a token stream into an Abstract Syntax Tree.
+export class Parser {
+    private tokens: Token[];
+    private cursor: number;
+
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+        this.cursor = 0;
+    }
+
+    private peek(n: number = 0): Token {
+        if (this.cursor + n >= this.tokens.length) {
+            const last = this.tokens[this.tokens.length - 1];
+            return { type: TokenType.EOF, value: '', line: last?.line ?? -1, column: last?.column ?? -1 };
+        }
+        return this.tokens[this.cursor + n];
+    }
+
+    private advance(): Token {
+        const token = this.peek();
+        this.cursor++;
+        return token;
+    }
+
+    private match(expectedType: TokenType): Token {
+        const token = this.advance();
+        if (token.type !== expectedType) {
+            throw new CompilerError(
+                `Expected ${expectedType}, but got ${token.type} (${token.value})`,
+                CompilerErrorCode.SYNTAX_ERROR,
+                token.line,
+                token.column
+            );
+        }
+        return token;
+    }
+
+    private isLineComment(token: Token): boolean {
+        return token.type === TokenType.COMMENT && token.value.startsWith('//');
+    }
+
+    private skipTrivia(): void {
+        while (this.peek().type === TokenType.WHITESPACE || this.isLineComment(this.peek())) {
+            this.cursor++;
+        }
+    }
+
+    private locFrom(start: Token): ASTNode['loc'] {
+        const end = this.tokens[Math.max(0, this.cursor - 1)] || start;
+        return {
+            start: { line: start.line, column: start.column },
+            end: { line: end.line, column: end.column + end.value.length },
+        };
+    }
+
+    // Collects raw source text until one of `stopTypes` appears outside parentheses/brackets.
+    // Line comments are dropped and block comments inside values are discarded.
+    private readRawUntil(stopTypes: TokenType[]): string {
+        let text = '';
+        let depth = 0;
+        while (this.peek().type !== TokenType.EOF) {
+            const token = this.peek();
+            if (depth === 0 && stopTypes.includes(token.type)) break;
+            if (token.type === TokenType.OPEN_PAREN || token.type === TokenType.OPEN_BRACKET) depth++;
+            if (token.type === TokenType.CLOSE_PAREN || token.type === TokenType.CLOSE_BRACKET) depth = Math.max(0, depth - 1);
+            if (depth === 0 && token.type === TokenType.CLOSE_BRACE) break;
+            this.cursor++;
+            if (token.type === TokenType.COMMENT) {
+                if (!text.endsWith(' ')) text += ' ';
+                continue;
+            }
+            text += token.value;
+        }
+        return text.trim();
+    }
+
+    // Major parsing methods for different SASS constructs
+    private parseStyleSheet(): StyleSheetNode {
+        const start = this.peek();
+        const children = this.parseStatements(false);
+        return { type: 'StyleSheet', children, loc: this.locFrom(start) };
+    }
+
+    private parseStatements(inBlock: boolean): ASTNode[] {
+        const children: ASTNode[] = [];
+        while (true) {
+            this.skipTrivia();
+            const token = this.peek();
+            if (token.type === TokenType.EOF) {
+                if (inBlock) throw new CompilerError(`Expected '}' before end of file`, CompilerErrorCode.SYNTAX_ERROR, token.line, token.column);
+                break;
+            }
+            if (token.type === TokenType.CLOSE_BRACE) {
+                if (!inBlock) throw new CompilerError(`Unexpected '}'`, CompilerErrorCode.SYNTAX_ERROR, token.line, token.column);
+                break;
+            }
+            if (token.type === TokenType.SEMICOLON) {
+                this.advance();
+                continue;
+            }
+            if (token.type === TokenType.COMMENT) {
+                this.advance();
+                children.push({ type: 'Comment', value: token.value, loc: this.locFrom(token) } as CommentNode);
+                continue;
+            }
+            if (token.type === TokenType.AT_RULE) {
+                if (token.value === '@else' || token.value === '@elseif') {
+                    throw new CompilerError('This at-rule is not allowed here: @else must follow @if', CompilerErrorCode.SYNTAX_ERROR, token.line, token.column);
+                }
+                const atRule = this.parseAtRule();
+                children.push(atRule.name === 'if' ? this.parseConditional(atRule) : atRule);
+                continue;
+            }
+            if (this.isVariableDeclarationStart()) {
+                children.push(this.parseVariableDeclaration());
+                continue;
+            }
+            children.push(this.parseRuleSetOrDeclaration());
+        }
+        return children;
+    }
+
+    private parseAtRule(): AtRuleNode {
+        const atRuleToken = this.match(TokenType.AT_RULE);
+        const name = atRuleToken.value.substring(1); // Remove '@'
+        const params = this.readRawUntil([TokenType.OPEN_BRACE, TokenType.SEMICOLON]);
+
+        if (this.peek().type === TokenType.OPEN_BRACE) {
+            this.match(TokenType.OPEN_BRACE);
+            const children = this.parseStatements(true);
+            this.match(TokenType.CLOSE_BRACE);
+            return { type: 'AtRule', name, params, children, loc: this.locFrom(atRuleToken) };
+        }
+        if (this.peek().type === TokenType.SEMICOLON) {
+            this.advance(); // Consume semicolon for at-rules like @import
+        }
+        return { type: 'AtRule', name, params, loc: this.locFrom(atRuleToken) };
+    }
+
+    // Folds `@if` and any directly following `@else if` / `@else` rules into one node.
+    private parseConditional(ifRule: AtRuleNode): ConditionalNode {
+        if (!ifRule.children) {
+            throw new CompilerError('Expected "{" after @if condition', CompilerErrorCode.SYNTAX_ERROR, ifRule.loc?.start.line, ifRule.loc?.start.column);
+        }
+        const branches: ConditionalBranch[] = [{ condition: ifRule.params, children: ifRule.children, loc: ifRule.loc }];
+        while (true) {
+            const saved = this.cursor;
+            this.skipTrivia();
+            const token = this.peek();
+            if (token.type !== TokenType.AT_RULE || (token.value !== '@else' && token.value !== '@elseif')) {
+                this.cursor = saved;
+                break;
+            }
+            const elseRule = this.parseAtRule();
+            if (!elseRule.children) {
+                throw new CompilerError('Expected "{" after @else', CompilerErrorCode.SYNTAX_ERROR, token.line, token.column);
+            }
+            const elseIf = elseRule.name === 'elseif' ? elseRule.params : elseRule.params.match(/^if\b([\s\S]*)$/)?.[1];
+            if (elseIf !== undefined) {
+                branches.push({ condition: elseIf.trim(), children: elseRule.children, loc: elseRule.loc });
+                continue;
+            }
+            if (elseRule.params) {
+                throw new CompilerError(`Expected "if" or "{" after @else, got "${elseRule.params}"`, CompilerErrorCode.SYNTAX_ERROR, token.line, token.column);
+            }
+            branches.push({ children: elseRule.children, loc: elseRule.loc });
+            break;
+        }
+        return { type: 'Conditional', branches, loc: ifRule.loc };
+    }
+
+    private isVariableDeclarationStart(): boolean {
+        let offset = 0;
+        if (this.peek().type === TokenType.IDENTIFIER && this.peek(1).value === '.' && this.peek(2).type === TokenType.VARIABLE) {
+            offset = 2; // Namespaced assignment, e.g. `theme.$primary: red;`
+        }
+        if (this.peek(offset).type !== TokenType.VARIABLE) return false;
+        offset++;
+        while (this.peek(offset).type === TokenType.WHITESPACE) offset++;
+        return this.peek(offset).type === TokenType.COLON;
+    }
+
+    private parseVariableDeclaration(): VariableNode {
+        const start = this.peek();
+        let namespace: string | undefined;
+        if (start.type === TokenType.IDENTIFIER) {
+            namespace = this.advance().value;
+            this.advance(); // '.'
+        }
+        const varToken = this.match(TokenType.VARIABLE);
+        this.skipTrivia();
+        this.match(TokenType.COLON);
+        let value = this.readRawUntil([TokenType.SEMICOLON]);
+        if (this.peek().type === TokenType.SEMICOLON) this.advance();
+
+        let isDefault = false;
+        let isGlobal = false;
+        let flag: RegExpMatchArray | null;
+        while ((flag = value.match(/\s*!(default|global)\s*$/i))) {
+            if (flag[1].toLowerCase() === 'default') isDefault = true;
+            else isGlobal = true;
+            value = value.slice(0, flag.index).trim();
+        }
+        if (!value) {
+            throw new CompilerError(`Expected expression for ${varToken.value}`, CompilerErrorCode.SYNTAX_ERROR, varToken.line, varToken.column);
+        }
+        return { type: 'Variable', name: varToken.value.substring(1), value, namespace, isDefault, isGlobal, loc: this.locFrom(start) };
+    }
+
+    // A statement is a rule set when a `{` comes before the next `;` or `}` at the same nesting depth.
+    private parseRuleSetOrDeclaration(): RuleSetNode | DeclarationNode {
+        let depth = 0;
+        let offset = 0;
+        let isRuleSet = false;
+        while (true) {
+            const token = this.peek(offset);
+            if (token.type === TokenType.EOF) break;
+            if (token.type === TokenType.OPEN_PAREN || token.type === TokenType.OPEN_BRACKET) depth++;
+            if (token.type === TokenType.CLOSE_PAREN || token.type === TokenType.CLOSE_BRACKET) depth = Math.max(0, depth - 1);
+            if (depth === 0) {
+                if (token.type === TokenType.OPEN_BRACE) { isRuleSet = true; break; }
+                if (token.type === TokenType.SEMICOLON || token.type === TokenType.CLOSE_BRACE) break;
+            }
+            offset++;
+        }
+        return isRuleSet ? this.parseRuleSet() : this.parseDeclaration();
+    }
+
+    private parseRuleSet(): RuleSetNode | DeclarationNode {
+        const start = this.peek();
+        const selector = this.readRawUntil([TokenType.OPEN_BRACE]).replace(/\s+/g, ' ');
+        this.match(TokenType.OPEN_BRACE);
+        const children = this.parseStatements(true);
+        this.match(TokenType.CLOSE_BRACE);
+
+        // `font: bold { family: serif; }` is a nested property, not a selector. A pseudo-class
+        // never has whitespace right after its colon, which tells the two apart.
+        const nestedProperty = selector.match(/^([a-zA-Z-]+)\s*:(?:\s+([\s\S]*))?$/);
+        if (nestedProperty) {
+            return { type: 'Declaration', property: nestedProperty[1], value: (nestedProperty[2] || '').trim(), children, loc: this.locFrom(start) };
+        }
+        return { type: 'RuleSet', selector, children, loc: this.locFrom(start) };
+    }
+
+    private parseDeclaration(): DeclarationNode {
+        const start = this.peek();
+        const property = this.readRawUntil([TokenType.COLON, TokenType.SEMICOLON]);
+        if (this.peek().type !== TokenType.COLON) {
+            throw new CompilerError(`Expected ":" after "${property}"`, CompilerErrorCode.SYNTAX_ERROR, start.line, start.column);
+        }
+        this.match(TokenType.COLON);
+        const value = this.readRawUntil([TokenType.SEMICOLON]);
+        if (this.peek().type === TokenType.SEMICOLON) this.advance();
+        if (!value) {
+            throw new CompilerError(`Expected a value for "${property}"`, CompilerErrorCode.SYNTAX_ERROR, start.line, start.column);
+        }
+        return { type: 'Declaration', property, value, loc: this.locFrom(start) };
+    }
+
+    public parse(): StyleSheetNode {
+        return this.parseStyleSheet();
+    }
+}
+
+// Invented Feature: `SassValue` Model (Version 11.0 - Typed SassScript Values)
+// Purpose: Represent SassScript values (numbers with units, colors, strings, lists, maps) so that
+// expressions, control flow and functions evaluate the way Dart Sass does.
+export interface SassNumber { kind: 'number'; value: number; unit: string; }
+export interface SassString { kind: 'string'; value: string; quoted: boolean; }
+export interface SassColor { kind: 'color'; r: number; g: number; b: number; a: number; raw?: string; }
+export interface SassBoolean { kind: 'boolean'; value: boolean; }
+export interface SassNull { kind: 'null'; }
+export interface SassList { kind: 'list'; items: SassValue[]; separator: 'space' | 'comma' | 'slash'; bracketed: boolean; }
+export interface SassMap { kind: 'map'; entries: [SassValue, SassValue][]; }
+export type SassValue = SassNumber | SassString | SassColor | SassBoolean | SassNull | SassList | SassMap;
+
+const SASS_NULL: SassNull = { kind: 'null' };
+const SASS_TRUE: SassBoolean = { kind: 'boolean', value: true };
+const SASS_FALSE: SassBoolean = { kind: 'boolean', value: false };
+
+const sassNumber = (value: number, unit: string = ''): SassNumber => ({ kind: 'number', value, unit });
+const sassString = (value: string, quoted: boolean = false): SassString => ({ kind: 'string', value, quoted });
+const sassBoolean = (value: boolean): SassBoolean => (value ? SASS_TRUE : SASS_FALSE);
+const sassList = (items: SassValue[], separator: SassList['separator'] = 'comma', bracketed: boolean = false): SassList => ({ kind: 'list', items, separator, bracketed });
+
+const typeError = (message: string): CompilerError => new CompilerError(message, CompilerErrorCode.TYPE_MISMATCH);
+
+const isTruthy = (value: SassValue): boolean => !(value.kind === 'null' || (value.kind === 'boolean' && !value.value));
+
+const listItems = (value: SassValue): SassValue[] => {
+    if (value.kind === 'list') return value.items;
+    if (value.kind === 'map') return value.entries.map(([key, entry]) => sassList([key, entry], 'space'));
+    return [value];
+};
+
+const listSeparator = (value: SassValue): SassList['separator'] => (value.kind === 'list' ? value.separator : 'space');
+
+// Canonical conversion factors, keyed by unit group, relative to the group's first unit.
+const UNIT_CONVERSIONS: Record<string, number>[] = [
+    { px: 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, q: 96 / 101.6, pt: 96 / 72, pc: 16 },
+    { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 },
+    { ms: 1, s: 1000 },
+    { hz: 1, khz: 1000 },
+    { dppx: 1, dpi: 1 / 96, dpcm: 2.54 / 96 },
+];
+
+const conversionFactor = (from: string, to: string): number | undefined => {
+    if (from === to) return 1;
+    const group = UNIT_CONVERSIONS.find(units => from.toLowerCase() in units && to.toLowerCase() in units);
+    return group ? group[from.toLowerCase()] / group[to.toLowerCase()] : undefined;
+};
+
+// Converts `number` into `unit`, treating unitless numbers as compatible with everything.
+const coerceNumber = (number: SassNumber, unit: string, operation: string): number => {
+    if (!number.unit || !unit) return number.value;
+    const factor = conversionFactor(number.unit, unit);
+    if (factor === undefined) {
+        throw new CompilerError(`Incompatible units ${number.unit} and ${unit} in ${operation}.`, CompilerErrorCode.INVALID_ARITHMETIC_OPERATION);
+    }
+    return number.value * factor;
+};
+
+const formatNumber = (value: number): string => {
+    const rounded = Math.round(value * 1e10) / 1e10;
+    if (Object.is(rounded, -0) || rounded === 0) return '0';
+    let text = String(rounded);
+    if (/e/i.test(text)) text = rounded.toFixed(10).replace(/\.?0+$/, '');
+    return text;
+};
+
+const fuzzyEquals = (a: number, b: number): boolean => Math.abs(a - b) < 1e-10;
+
+// Rounds halves up even when floating point error leaves them a hair below .5 (0.7 * 255), as Dart Sass does.
+const fuzzyRound = (value: number): number => (fuzzyEquals(value % 1, 0.5) ? Math.ceil(value) : Math.round(value));
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+    black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255],
+    yellow: [255, 255, 0], orange: [255, 165, 0], purple: [128, 0, 128], gray: [128, 128, 128], grey: [128, 128, 128],
+    silver: [192, 192, 192], maroon: [128, 0, 0], olive: [128, 128, 0], lime: [0, 255, 0], aqua: [0, 255, 255],
+    cyan: [0, 255, 255], teal: [0, 128, 128], navy: [0, 0, 128], fuchsia: [255, 0, 255], magenta: [255, 0, 255],
+    pink: [255, 192, 203], brown: [165, 42, 42], gold: [255, 215, 0], indigo: [75, 0, 130], violet: [238, 130, 238],
+    coral: [255, 127, 80], salmon: [250, 128, 114], tomato: [255, 99, 71], crimson: [220, 20, 60], khaki: [240, 230, 140],
+    beige: [245, 245, 220], ivory: [255, 255, 240], lavender: [230, 230, 250], turquoise: [64, 224, 208],
+    whitesmoke: [245, 245, 245], gainsboro: [220, 220, 220], lightgray: [211, 211, 211], darkgray: [169, 169, 169],
+    dimgray: [105, 105, 105], slategray: [112, 128, 144], steelblue: [70, 130, 180], royalblue: [65, 105, 225],
+    dodgerblue: [30, 144, 255], skyblue: [135, 206, 235], forestgreen: [34, 139, 34], seagreen: [46, 139, 87],
+    rebeccapurple: [102, 51, 153], chocolate: [210, 105, 30], firebrick: [178, 34, 34], orangered: [255, 69, 0],
+};
+
+const parseHexColor = (raw: string): SassColor => {
+    let hex = raw.slice(1);
+    if (hex.length <= 4) hex = hex.split('').map(c => c + c).join('');
+    const channel = (i: number) => parseInt(hex.substr(i * 2, 2), 16);
+    return { kind: 'color', r: channel(0), g: channel(1), b: channel(2), a: hex.length === 8 ? channel(3) / 255 : 1, raw };
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const rgbToHsl = (color: SassColor): [number, number, number] => {
+    const r = color.r / 255, g = color.g / 255, b = color.b / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    const lightness = (max + min) / 2;
+    if (max === min) return [0, 0, lightness * 100];
+    const delta = max - min;
+    const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    let hue = max === r ? (g - b) / delta + (g < b ? 6 : 0) : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+    return [hue * 60, saturation * 100, lightness * 100];
+};
+
+const hslToColor = (hue: number, saturation: number, lightness: number, alpha: number): SassColor => {
+    const h = (((hue % 360) + 360) % 360) / 360;
+    const s = clamp(saturation, 0, 100) / 100;
+    const l = clamp(lightness, 0, 100) / 100;
+    const m2 = l <= 0.5 ? l * (s + 1) : l + s - l * s;
+    const m1 = l * 2 - m2;
+    const hueToRgb = (t: number): number => {
+        if (t < 0) t += 1;
+        if (t > 1) t -= 1;
+        if (t * 6 < 1) return m1 + (m2 - m1) * t * 6;
+        if (t * 2 < 1) return m2;
+        if (t * 3 < 2) return m1 + (m2 - m1) * (2 / 3 - t) * 6;
+        return m1;
+    };
+    return {
+        kind: 'color',
+        r: hueToRgb(h + 1 / 3) * 255,
+        g: hueToRgb(h) * 255,
+        b: hueToRgb(h - 1 / 3) * 255,
+        a: clamp(alpha, 0, 1),
+    };
+};
+
+const rgbColor = (r: number, g: number, b: number, a: number = 1): SassColor => ({
+    kind: 'color', r: clamp(r, 0, 255), g: clamp(g, 0, 255), b: clamp(b, 0, 255), a: clamp(a, 0, 1),
+});
+
+const serializeColor = (color: SassColor): string => {
+    if (color.raw) return color.raw;
+    const [r, g, b] = [color.r, color.g, color.b].map(fuzzyRound);
+    if (color.a < 1) return `rgba(${r}, ${g}, ${b}, ${formatNumber(color.a)})`;
+    return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+const quoteString = (value: string): string => (value.includes('"') && !value.includes('\'') ? `'${value}'` : `"${value.replace(/(^|[^\\])"/g, '$1\\"')}"`);
+
+// Serializes a value as CSS. `inspect` mode renders maps and Sass-only units instead of rejecting them.
+const serializeValue = (value: SassValue, inspect: boolean = false): string => {
+    switch (value.kind) {
+        case 'number':
+            if (!inspect && /[*/]/.test(value.unit)) throw typeError(`${formatNumber(value.value)}${value.unit} isn't a valid CSS value.`);
+            return `${formatNumber(value.value)}${value.unit}`;
+        case 'string':
+            return value.quoted ? quoteString(value.value) : value.value;
+        case 'color':
+            return serializeColor(value);
+        case 'boolean':
+            return String(value.value);
+        case 'null':
+            return inspect ? 'null' : '';
+        case 'list': {
+            const separator = value.separator === 'comma' ? ', ' : value.separator === 'slash' ? '/' : ' ';
+            const items = value.items
+                .filter(item => inspect || item.kind !== 'null')
+                .map(item => {
+                    const text = serializeValue(item, inspect);
+                    const needsParens = item.kind === 'list' && !item.bracketed && item.items.length > 1
+                        && (value.separator === 'comma' ? item.separator === 'comma' : item.separator !== 'slash' || value.separator !== 'slash');
+                    return needsParens && inspect ? `(${text})` : text;
+                });
+            const body = items.join(separator);
+            if (value.bracketed) return `[${body}]`;
+            return inspect && value.items.length === 0 ? '()' : body;
+        }
+        case 'map':
+            if (!inspect) throw typeError(`${serializeValue(value, true)} isn't a valid CSS value.`);
+            return `(${value.entries.map(([key, entry]) => `${serializeValue(key, true)}: ${serializeValue(entry, true)}`).join(', ')})`;
+    }
+};
+
+// Unquoted text of a value, as used by interpolation and string functions.
+const valueToText = (value: SassValue): string => (value.kind === 'string' ? value.value : serializeValue(value));
+
+const sassEquals = (a: SassValue, b: SassValue): boolean => {
+    if (a.kind === 'number' && b.kind === 'number') {
+        if (!a.unit || !b.unit) return a.unit === b.unit && fuzzyEquals(a.value, b.value);
+        const factor = conversionFactor(b.unit, a.unit);
+        return factor !== undefined && fuzzyEquals(a.value, b.value * factor);
+    }
+    if (a.kind === 'string' && b.kind === 'string') return a.value === b.value;
+    if (a.kind === 'color' && b.kind === 'color') {
+        return fuzzyRound(a.r) === fuzzyRound(b.r) && fuzzyRound(a.g) === fuzzyRound(b.g) && fuzzyRound(a.b) === fuzzyRound(b.b) && fuzzyEquals(a.a, b.a);
+    }
+    if (a.kind === 'list' && b.kind === 'list') {
+        return a.separator === b.separator && a.bracketed === b.bracketed && a.items.length === b.items.length
+            && a.items.every((item, i) => sassEquals(item, b.items[i]));
+    }
+    if (a.kind === 'map' && b.kind === 'map') {
+        return a.entries.length === b.entries.length && a.entries.every(([key, entry]) => {
+            const match = b.entries.find(([otherKey]) => sassEquals(key, otherKey));
+            return !!match && sassEquals(entry, match[1]);
+        });
+    }
+    if (a.kind === 'boolean' && b.kind === 'boolean') return a.value === b.value;
+    return a.kind === 'null' && b.kind === 'null';
+};
+
+const sassTypeOf = (value: SassValue): string => (value.kind === 'list' && value.items.length === 0 ? 'list' : value.kind === 'boolean' ? 'bool' : value.kind);
+
+// Invented Feature: `SassScript Expressions` (Version 11.0 - Expression AST)
+// Purpose: Parsed form of a value, condition or argument list. Parsing once and evaluating per scope
+// replaces the old regex substitution, which could not express precedence, lists or maps.
+type Expression =
+    | { kind: 'literal'; value: SassValue; isNumberLiteral?: boolean }
+    | { kind: 'variable'; name: string; namespace?: string }
+    | { kind: 'binary'; operator: string; left: Expression; right: Expression }
+    | { kind: 'unary'; operator: string; operand: Expression }
+    | { kind: 'list'; items: Expression[]; separator: SassList['separator']; bracketed: boolean }
+    | { kind: 'map'; entries: [Expression, Expression][] }
+    | { kind: 'paren'; expression: Expression }
+    | { kind: 'call'; name: string; namespace?: string; args: ArgumentInvocation }
+    | { kind: 'cssFunction'; name: string; raw: string }
+    | { kind: 'interpolated'; parts: (string | Expression)[]; quoted: boolean }
+    | { kind: 'parentSelector' };
+
+interface ArgumentInvocation {
+    positional: Expression[];
+    named: Map<string, Expression>;
+    rest?: Expression;
+}
+
+interface ParameterDeclaration {
+    name: string;
+    defaultValue?: Expression;
+}
+
+interface CallableSignature {
+    name: string;
+    namespace?: string;
+    params: ParameterDeclaration[];
+    restParam?: string;
+}
+
+// CSS functions whose arguments use syntax SassScript can't parse; only variables and
+// interpolation inside them are resolved.
+const CSS_RAW_FUNCTIONS = new Set(['calc', 'var', 'env', 'clamp', 'element', 'expression', 'progid']);
+
+// Sass treats `-` and `_` as interchangeable in names.
+const normalizeName = (name: string): string => name.replace(/_/g, '-');
+
+// Invented Feature: `ExpressionParser` (Version 11.0 - SassScript Parser)
+// Purpose: Recursive-descent parser for SassScript with Dart Sass precedence:
+// comma lists < space lists < or < and < not < comparison < additive < multiplicative < unary.
+class ExpressionParser {
+    private tokens: Token[];
+    private cursor = 0;
+
+    constructor(source: string) {
+        this.tokens = new Lexer(source).tokenize().filter(token => token.type !== TokenType.COMMENT);
+    }
+
+    public static parse(source: string): Expression {
+        const parser = new ExpressionParser(source);
+        const expression = parser.parseCommaList();
+        parser.expectEnd();
+        return expression;
+    }
+
+    // `name`, `name($a, $b: 1, $rest...)`
+    public static parseSignature(source: string): CallableSignature {
+        const parser = new ExpressionParser(source);
+        parser.skipWhitespace();
+        const name = parser.expect(TokenType.IDENTIFIER).value;
+        const signature: CallableSignature = { name: normalizeName(name), params: [] };
+        parser.skipWhitespace();
+        if (parser.peek().type === TokenType.OPEN_PAREN) {
+            parser.advance();
+            while (!parser.consumeIf(TokenType.CLOSE_PAREN)) {
+                parser.skipWhitespace();
+                const param = normalizeName(parser.expect(TokenType.VARIABLE).value.substring(1));
+                parser.skipWhitespace();
+                if (parser.consumeEllipsis()) {
+                    signature.restParam = param;
+                } else if (parser.consumeIf(TokenType.COLON)) {
+                    signature.params.push({ name: param, defaultValue: parser.parseSpaceList() });
+                } else {
+                    signature.params.push({ name: param });
+                }
+                parser.skipWhitespace();
+                if (!parser.consumeIf(TokenType.COMMA)) {
+                    parser.expect(TokenType.CLOSE_PAREN);
+                    break;
+                }
+            }
+        }
+        parser.expectEnd();
+        return signature;
+    }
+
+    // `name`, `ns.name`, `name(args)`
+    public static parseInclude(source: string): { name: string; namespace?: string; args: ArgumentInvocation } {
+        const parser = new ExpressionParser(source);
+        parser.skipWhitespace();
+        let name = parser.expect(TokenType.IDENTIFIER).value;
+        let namespace: string | undefined;
+        if (parser.peek().value === '.' && parser.peek(1).type === TokenType.IDENTIFIER) {
+            parser.advance();
+            namespace = name;
+            name = parser.advance().value;
+        }
+        parser.skipWhitespace();
+        let args: ArgumentInvocation = { positional: [], named: new Map() };
+        if (parser.peek().type === TokenType.OPEN_PAREN) {
+            args = parser.parseArguments();
+        }
+        parser.skipWhitespace();
+        if (parser.peek().type === TokenType.IDENTIFIER && parser.peek().value === 'using') {
+            throw new CompilerError('@include ... using (...) is not supported', CompilerErrorCode.AT_RULE_NOT_SUPPORTED);
+        }
+        parser.expectEnd();
+        return { name: normalizeName(name), namespace, args };
+    }
+
+    // `($name: value, $other: value !default)` as used by `@use ... with` and `@forward ... with`.
+    public static parseConfiguration(source: string): { name: string; value: Expression; isDefault: boolean }[] {
+        const parser = new ExpressionParser(source);
+        const entries: { name: string; value: Expression; isDefault: boolean }[] = [];
+        parser.skipWhitespace();
+        parser.expect(TokenType.OPEN_PAREN);
+        while (true) {
+            parser.skipWhitespace();
+            if (parser.consumeIf(TokenType.CLOSE_PAREN)) break;
+            const name = normalizeName(parser.expect(TokenType.VARIABLE).value.substring(1));
+            parser.skipWhitespace();
+            parser.expect(TokenType.COLON);
+            const value = parser.parseSpaceList();
+            parser.skipWhitespace();
+            let isDefault = false;
+            if (parser.peek().type === TokenType.FLAG && parser.peek().value.toLowerCase() === '!default') {
+                parser.advance();
+                isDefault = true;
+            }
+            entries.push({ name, value, isDefault });
+            parser.skipWhitespace();
+            if (!parser.consumeIf(TokenType.COMMA)) {
+                parser.expect(TokenType.CLOSE_PAREN);
+                break;
+            }
+        }
+        parser.expectEnd();
+        return entries;
+    }
+
+    private peek(n: number = 0): Token {
+        return this.tokens[Math.min(this.cursor + n, this.tokens.length - 1)];
+    }
+
+    private advance(): Token {
+        const token = this.peek();
+        if (this.cursor < this.tokens.length - 1) this.cursor++;
+        return token;
+    }
+
+    private skipWhitespace(): boolean {
+        let skipped = false;
+        while (this.peek().type === TokenType.WHITESPACE) {
+            this.cursor++;
+            skipped = true;
+        }
+        return skipped;
+    }
+
+    private consumeIf(type: TokenType): boolean {
+        this.skipWhitespace();
+        if (this.peek().type !== type) return false;
+        this.advance();
+        return true;
+    }
+
+    private consumeEllipsis(): boolean {
+        if (this.peek().value === '.' && this.peek(1).value === '.' && this.peek(2).value === '.') {
+            this.cursor += 3;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(type: TokenType): Token {
+        this.skipWhitespace();
+        const token = this.peek();
+        if (token.type !== type) {
+            throw new CompilerError(`Expected ${type}, but got "${token.value || 'end of input'}"`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+        return this.advance();
+    }
+
+    private expectEnd(): void {
+        this.skipWhitespace();
+        const token = this.peek();
+        if (token.type !== TokenType.EOF) {
+            throw new CompilerError(`Unexpected "${token.value}" in expression`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+    }
+
+    private startsOperand(token: Token): boolean {
+        switch (token.type) {
+            case TokenType.NUMBER: case TokenType.STRING: case TokenType.COLOR: case TokenType.VARIABLE:
+            case TokenType.INTERPOLATION: case TokenType.OPEN_PAREN: case TokenType.OPEN_BRACKET:
+            case TokenType.URL: case TokenType.FLAG: case TokenType.AND_OPERATOR:
+                return true;
+            case TokenType.IDENTIFIER:
+                return token.value !== 'and' && token.value !== 'or';
+            default:
+                return false;
+        }
+    }
+
+    // Looks past whitespace for one of `operators`; leaves the cursor on it when found.
+    private peekOperator(operators: string[]): { operator: string; spaceBefore: boolean; spaceAfter: boolean } | null {
+        const saved = this.cursor;
+        const spaceBefore = this.skipWhitespace();
+        const token = this.peek();
+        const isWordOperator = token.type === TokenType.IDENTIFIER && (token.value === 'and' || token.value === 'or');
+        if ((token.type === TokenType.OPERATOR || isWordOperator) && operators.includes(token.value)) {
+            const next = this.peek(1);
+            return { operator: token.value, spaceBefore, spaceAfter: next.type === TokenType.WHITESPACE };
+        }
+        this.cursor = saved;
+        return null;
+    }
+
+    private parseCommaList(): Expression {
+        const first = this.parseSpaceList();
+        this.skipWhitespace();
+        if (this.peek().type !== TokenType.COMMA) return first;
+        const items = [first];
+        while (this.consumeIf(TokenType.COMMA)) {
+            this.skipWhitespace();
+            const next = this.peek().type;
+            if (next === TokenType.EOF || next === TokenType.CLOSE_PAREN || next === TokenType.CLOSE_BRACKET) break; // trailing comma
+            items.push(this.parseSpaceList());
+        }
+        return { kind: 'list', items, separator: 'comma', bracketed: false };
+    }
+
+    private parseSpaceList(): Expression {
+        const items = [this.parseOr()];
+        while (true) {
+            const saved = this.cursor;
+            this.skipWhitespace();
+            const token = this.peek();
+            const signedOperand = token.type === TokenType.OPERATOR && (token.value === '-' || token.value === '+')
+                && this.cursor > saved && this.peek(1).type !== TokenType.WHITESPACE && this.startsOperand(this.peek(1));
+            if (!this.startsOperand(token) && !signedOperand) {
+                this.cursor = saved;
+                break;
+            }
+            items.push(this.parseOr());
+        }
+        return items.length === 1 ? items[0] : { kind: 'list', items, separator: 'space', bracketed: false };
+    }
+
+    private parseOr(): Expression {
+        let left = this.parseAnd();
+        while (this.peekOperator(['or'])) {
+            this.advance();
+            left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): Expression {
+        let left = this.parseNot();
+        while (this.peekOperator(['and'])) {
+            this.advance();
+            left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): Expression {
+        this.skipWhitespace();
+        const token = this.peek();
+        if (token.type === TokenType.IDENTIFIER && token.value === 'not' && this.peek(1).type === TokenType.WHITESPACE) {
+            this.advance();
+            return { kind: 'unary', operator: 'not', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Expression {
+        let left = this.parseAdditive();
+        let match;
+        while ((match = this.peekOperator(['==', '!=', '<', '>', '<=', '>=']))) {
+            this.advance();
+            left = { kind: 'binary', operator: match.operator, left, right: this.parseAdditive() };
+        }
+        return left;
+    }
+
+    private parseAdditive(): Expression {
+        let left = this.parseMultiplicative();
+        while (true) {
+            const saved = this.cursor;
+            const match = this.peekOperator(['+', '-']);
+            if (!match) break;
+            // `1px -2px` is a two-item list, not a subtraction.
+            if (match.spaceBefore && !match.spaceAfter) {
+                this.cursor = saved;
+                break;
+            }
+            this.advance();
+            left = { kind: 'binary', operator: match.operator, left, right: this.parseMultiplicative() };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Expression {
+        let left = this.parseUnary();
+        let match;
+        while ((match = this.peekOperator(['*', '/', '%']))) {
+            this.advance();
+            left = { kind: 'binary', operator: match.operator, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        this.skipWhitespace();
+        const token = this.peek();
+        if (token.type === TokenType.OPERATOR && ['-', '+', '/'].includes(token.value)) {
+            this.advance();
+            return { kind: 'unary', operator: token.value, operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Expression {
+        this.skipWhitespace();
+        const first = this.parseSinglePrimary();
+        // Adjacent interpolation glues into one unquoted string: `icon-#{$name}`, `#{$size}px`.
+        const parts: (string | Expression)[] = [first];
+        let interpolated = first.kind === 'interpolated' && !first.quoted;
+        while (true) {
+            const next = this.peek();
+            const glues = next.type === TokenType.INTERPOLATION
+                || (interpolated && (next.type === TokenType.IDENTIFIER || next.type === TokenType.NUMBER || next.type === TokenType.UNIT))
+                || (interpolated && next.type === TokenType.OPERATOR && next.value === '-'
+                    && [TokenType.INTERPOLATION, TokenType.IDENTIFIER].includes(this.peek(1).type));
+            if (!glues) break;
+            interpolated = true;
+            if (next.type === TokenType.INTERPOLATION) {
+                parts.push(this.parseSinglePrimary());
+            } else {
+                parts.push(this.advance().value);
+            }
+        }
+        if (parts.length === 1) return first;
+        return { kind: 'interpolated', parts, quoted: false };
+    }
+
+    private parseSinglePrimary(): Expression {
+        const token = this.peek();
+        switch (token.type) {
+            case TokenType.NUMBER: {
+                this.advance();
+                const unit = this.peek().type === TokenType.UNIT ? this.advance().value : '';
+                return { kind: 'literal', value: sassNumber(parseFloat(token.value), unit), isNumberLiteral: true };
+            }
+            case TokenType.STRING:
+                this.advance();
+                return this.parseStringLiteral(token.value);
+            case TokenType.COLOR:
+                this.advance();
+                return { kind: 'literal', value: parseHexColor(token.value) };
+            case TokenType.VARIABLE:
+                this.advance();
+                return { kind: 'variable', name: normalizeName(token.value.substring(1)) };
+            case TokenType.INTERPOLATION:
+                this.advance();
+                return { kind: 'interpolated', parts: [ExpressionParser.parse(token.value.slice(2, -1))], quoted: false };
+            case TokenType.URL:
+            case TokenType.FLAG:
+                this.advance();
+                return { kind: 'literal', value: sassString(token.value) };
+            case TokenType.AND_OPERATOR:
+                this.advance();
+                return { kind: 'parentSelector' };
+            case TokenType.OPEN_PAREN:
+                return this.parseParenthesized();
+            case TokenType.OPEN_BRACKET: {
+                this.advance();
+                this.skipWhitespace();
+                if (this.consumeIf(TokenType.CLOSE_BRACKET)) return { kind: 'list', items: [], separator: 'space', bracketed: true };
+                const inner = this.parseCommaList();
+                this.expect(TokenType.CLOSE_BRACKET);
+                if (inner.kind === 'list' && !inner.bracketed) return { ...inner, bracketed: true };
+                return { kind: 'list', items: [inner], separator: 'space', bracketed: true };
+            }
+            case TokenType.IDENTIFIER:
+                return this.parseIdentifier();
+            default:
+                throw new CompilerError(`Expected expression, but got "${token.value || 'end of input'}"`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+    }
+
+    private parseStringLiteral(raw: string): Expression {
+        const body = raw.slice(1, -1);
+        if (!body.includes('#{')) return { kind: 'literal', value: sassString(body, true) };
+        const parts: (string | Expression)[] = [];
+        let text = '';
+        for (let i = 0; i < body.length; i++) {
+            if (body[i] === '#' && body[i + 1] === '{') {
+                const end = findInterpolationEnd(body, i);
+                if (text) parts.push(text);
+                text = '';
+                parts.push(ExpressionParser.parse(body.slice(i + 2, end)));
+                i = end;
+                continue;
+            }
+            text += body[i];
+        }
+        if (text) parts.push(text);
+        return { kind: 'interpolated', parts, quoted: true };
+    }
+
+    private parseParenthesized(): Expression {
+        this.advance(); // (
+        this.skipWhitespace();
+        if (this.consumeIf(TokenType.CLOSE_PAREN)) return { kind: 'list', items: [], separator: 'space', bracketed: false };
+        const first = this.parseSpaceList();
+        this.skipWhitespace();
+        if (this.peek().type === TokenType.COLON) {
+            const entries: [Expression, Expression][] = [];
+            let key = first;
+            while (true) {
+                this.expect(TokenType.COLON);
+                entries.push([key, this.parseSpaceList()]);
+                if (!this.consumeIf(TokenType.COMMA)) break;
+                this.skipWhitespace();
+                if (this.peek().type === TokenType.CLOSE_PAREN) break;
+                key = this.parseSpaceList();
+            }
+            this.expect(TokenType.CLOSE_PAREN);
+            return { kind: 'map', entries };
+        }
+        let expression = first;
+        if (this.peek().type === TokenType.COMMA) {
+            const items = [first];
+            while (this.consumeIf(TokenType.COMMA)) {
+                this.skipWhitespace();
+                if (this.peek().type === TokenType.CLOSE_PAREN) break;
+                items.push(this.parseSpaceList());
+            }
+            expression = { kind: 'list', items, separator: 'comma', bracketed: false };
+        }
+        this.expect(TokenType.CLOSE_PAREN);
+        return { kind: 'paren', expression };
+    }
+
+    private parseIdentifier(): Expression {
+        const token = this.advance();
+        let name = token.value;
+        let namespace: string | undefined;
+
+        if (this.peek().value === '.' && (this.peek(1).type === TokenType.VARIABLE || this.peek(1).type === TokenType.IDENTIFIER)) {
+            this.advance();
+            namespace = name;
+            const member = this.advance();
+            if (member.type === TokenType.VARIABLE) {
+                return { kind: 'variable', name: normalizeName(member.value.substring(1)), namespace };
+            }
+            name = member.value;
+            if (this.peek().type !== TokenType.OPEN_PAREN) {
+                throw new CompilerError(`Expected "(" after ${namespace}.${name}`, CompilerErrorCode.SYNTAX_ERROR);
+            }
+        }
+
+        if (this.peek().type === TokenType.OPEN_PAREN) {
+            if (!namespace && CSS_RAW_FUNCTIONS.has(name.toLowerCase())) {
+                return { kind: 'cssFunction', name, raw: this.readRawParenthesized() };
+            }
+            return { kind: 'call', name: normalizeName(name), namespace, args: this.parseArguments() };
+        }
+
+        const lower = name.toLowerCase();
+        if (name === 'true') return { kind: 'literal', value: SASS_TRUE };
+        if (name === 'false') return { kind: 'literal', value: SASS_FALSE };
+        if (name === 'null') return { kind: 'literal', value: SASS_NULL };
+        if (lower === 'transparent') return { kind: 'literal', value: { kind: 'color', r: 0, g: 0, b: 0, a: 0, raw: name } };
+        if (NAMED_COLORS[lower]) {
+            const [r, g, b] = NAMED_COLORS[lower];
+            return { kind: 'literal', value: { kind: 'color', r, g, b, a: 1, raw: name } };
+        }
+        return { kind: 'literal', value: sassString(name) };
+    }
+
+    private readRawParenthesized(): string {
+        this.advance(); // (
+        let depth = 1;
+        let raw = '';
+        while (this.peek().type !== TokenType.EOF) {
+            const token = this.advance();
+            if (token.type === TokenType.OPEN_PAREN) depth++;
+            if (token.type === TokenType.CLOSE_PAREN && --depth === 0) return raw.trim();
+            raw += token.value;
+        }
+        throw new CompilerError('Expected ")"', CompilerErrorCode.SYNTAX_ERROR);
+    }
+
+    private parseArguments(): ArgumentInvocation {
+        this.expect(TokenType.OPEN_PAREN);
+        const args: ArgumentInvocation = { positional: [], named: new Map() };
+        while (true) {
+            this.skipWhitespace();
+            if (this.consumeIf(TokenType.CLOSE_PAREN)) break;
+            const token = this.peek();
+            let offset = 1;
+            while (this.peek(offset).type === TokenType.WHITESPACE) offset++;
+            if (token.type === TokenType.VARIABLE && this.peek(offset).type === TokenType.COLON) {
+                this.advance();
+                this.expect(TokenType.COLON);
+                args.named.set(normalizeName(token.value.substring(1)), this.parseSpaceList());
+            } else {
+                const value = this.parseSpaceList();
+                if (this.consumeEllipsis()) {
+                    args.rest = value;
+                } else {
+                    args.positional.push(value);
+                }
+            }
+            if (!this.consumeIf(TokenType.COMMA)) {
+                this.expect(TokenType.CLOSE_PAREN);
+                break;
+            }
+        }
+        return args;
+    }
+}
+
+// Returns the index of the `}` closing the interpolation that starts at `start` (the `#`).
+const findInterpolationEnd = (text: string, start: number): number => {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = start + 1; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\') i++;
+            else if (char === quote) quote = null;
+            continue;
+        }
+        if (char === '"' || char === '\'') quote = char;
+        else if (char === '{') depth++;
+        else if (char === '}' && --depth === 0) return i;
+    }
+    throw new CompilerError('Unterminated interpolation block', CompilerErrorCode.SYNTAX_ERROR);
+};
+
+// Invented Feature: `Scope` (Version 11.0 - Lexical Scoping)
+// Purpose: Variables, mixins and functions live in nested scopes. Local assignments update an
+// existing local variable in an outer block but shadow globals unless `!global` is used; control-flow
+// blocks (`@if`, `@each`, ...) are transparent and also assign to module-level variables.
+class Scope {
+    public variables = new Map<string, SassValue>();
+    public mixins = new Map<string, UserCallable>();
+    public functions = new Map<string, UserCallable>();
+
+    constructor(public parent: Scope | null = null, public isFlowControl: boolean = false) {}
+
+    public lookupVariable(name: string): SassValue | undefined {
+        for (let scope: Scope | null = this; scope; scope = scope.parent) {
+            const value = scope.variables.get(name);
+            if (value) return value;
+        }
+        return undefined;
+    }
+
+    public lookupMixin(name: string): UserCallable | undefined {
+        for (let scope: Scope | null = this; scope; scope = scope.parent) {
+            const mixin = scope.mixins.get(name);
+            if (mixin) return mixin;
+        }
+        return undefined;
+    }
+
+    public lookupFunction(name: string): UserCallable | undefined {
+        for (let scope: Scope | null = this; scope; scope = scope.parent) {
+            const fn = scope.functions.get(name);
+            if (fn) return fn;
+        }
+        return undefined;
+    }
+
+    public assign(name: string, value: SassValue): void {
+        let onlyFlowControl = true;
+        for (let scope: Scope | null = this; scope; scope = scope.parent) {
+            const isModuleRoot = scope.parent === null;
+            if (scope.variables.has(name) && (!isModuleRoot || onlyFlowControl)) {
+                scope.variables.set(name, value);
+                return;
+            }
+            if (!scope.isFlowControl) onlyFlowControl = false;
+        }
+        this.variables.set(name, value);
+    }
+}
+
+interface UserCallable {
+    signature: CallableSignature;
+    body: ASTNode[];
+    closure: Scope;
+    module: ModuleRecord;
+    url: string;
+}
+
+// Built-ins receive positional arguments bound to `params` by name, plus any extra keyword arguments.
+// Returning `null` means "not a Sass call", and the call is emitted as a plain CSS function instead.
+interface BuiltInFunction {
+    params: string[];
+    call: (args: Record<string, SassValue | undefined>, rest: SassValue[]) => SassValue | null;
+}
+
+interface VariableRef { scope: Scope; name: string; }
+
+// Invented Feature: `ModuleRecord` (Version 11.0 - @use/@forward Module System)
+// Purpose: A loaded stylesheet (or built-in `sass:` module). Each module is evaluated once per
+// compilation, has its own root scope, and exposes public members under a namespace.
+interface ModuleRecord {
+    url: string;
+    scope: Scope;
+    namespaces: Map<string, ModuleRecord>;
+    globalModules: ModuleRecord[]; // `@use ... as *`
+    forwarded: {
+        variables: Map<string, VariableRef>;
+        functions: Map<string, UserCallable | BuiltInFunction>;
+        mixins: Map<string, UserCallable>;
+    };
+    builtIns?: Map<string, BuiltInFunction>;
+    configuration: Map<string, SassValue>;
+    usedConfiguration: Set<string>;
+}
+
+interface ContentBlock { children: ASTNode[]; scope: Scope; module: ModuleRecord; url: string; }
+
+interface EvaluatedArguments { positional: SassValue[]; named: Map<string, SassValue>; }
+
+interface Extension {
+    extenders: string[];
+    target: string;
+    optional: boolean;
+    media: string | null; // Queries of the enclosing @media; an extension inside one only applies within the same query
+    source?: CssSourceSpan;
+}
+
+// Invented Feature: `ModuleImporter` (Version 11.0 - Pluggable Stylesheet Resolution)
+// Purpose: Resolve `@use`, `@forward` and `@import` URLs relative to the importing stylesheet.
+// Returns the canonical URL (used for de-duplication and source maps) and the file contents.
+export type ModuleImporter = (url: string, fromUrl: string) => { url: string; contents: string } | undefined;
+
+export interface ASTProcessorOptions {
+    url?: string; // Canonical URL of the entry stylesheet
+    importer?: ModuleImporter;
+    globalDefines?: Record<string, string>;
+}
+
+const MAX_CALL_DEPTH = 100;
+const MAX_LOOP_ITERATIONS = 10000;
+const MAX_EXTENDED_SELECTORS = 500;
+const CONDITIONAL_AT_RULES = new Set(['media', 'supports', 'container', 'layer', 'document', '-moz-document']);
+
+const isPrivateMember = (name: string): boolean => name.startsWith('-');
+
+const defaultNamespace = (url: string): string =>
+    url.replace(/^sass:/, '').split('/').pop()!.replace(/^_/, '').replace(/\.(scss|sass|css)$/, '');
+
+// Invented Feature: `ASTProcessor` Class (Version 2.2 - Semantic Analysis & Transformation Engine)
+// Purpose: Traverse the AST, resolve variables, expand mixins, evaluate functions, and apply nesting logic.
+// This is where the core SASS-specific logic truly comes to life.
+export class ASTProcessor {
+    private functionRegistry: Map<string, BuiltInFunction>; // Global (legacy) built-in function names
+    private builtInModules: Map<string, ModuleRecord>; // `sass:math`, `sass:color`, ...
+    private options: ASTProcessorOptions;
+    private modules: Map<string, ModuleRecord>;
+    private loadingUrls: string[];
+    private sources: Map<string, string>;
+    private expressionCache: Map<string, Expression>;
+    private processedNodes: CssNode[]; // Root of the evaluated CSS tree
+    private container: CssNode[]; // Where new rules and at-rules are appended
+    private currentRule: CssRuleNode | CssAtRuleNode | null; // Where declarations are appended
+    private parentSelectors: string[] | null;
+    private currentModule!: ModuleRecord;
+    private currentScope!: Scope;
+    private currentUrl: string;
+    private contentStack: (ContentBlock | null)[];
+    private extensions: Extension[];
+    private warnings: string[];
+    private callDepth: number;
+    private inFunction: number;
+    private inKeyframes: boolean;
+    private mediaContext: { queries: string[]; container: CssNode[] } | null; // Enclosing @media, for merging nested queries
+    private uniqueIdCounter: number;
+
+    constructor(options: ASTProcessorOptions = {}) {
+        this.options = options;
+        this.functionRegistry = new Map();
+        this.builtInModules = new Map();
+        this.modules = new Map();
+        this.loadingUrls = [];
+        this.sources = new Map();
+        this.expressionCache = new Map();
+        this.processedNodes = [];
+        this.container = this.processedNodes;
+        this.currentRule = null;
+        this.parentSelectors = null;
+        this.currentUrl = options.url || 'stdin';
+        this.contentStack = [];
+        this.extensions = [];
+        this.warnings = [];
+        this.callDepth = 0;
+        this.inFunction = 0;
+        this.inKeyframes = false;
+        this.mediaContext = null;
+        this.uniqueIdCounter = 0;
+        this.registerBuiltInFunctions();
+    }
+
+    public getWarnings(): string[] {
+        return this.warnings;
+    }
+
+    // Contents of every stylesheet loaded through the importer, keyed by canonical URL.
+    public getLoadedSources(): Map<string, string> {
+        return this.sources;
+    }
+
+    // Invented Feature: `processAST` (Version 2.2 - Main AST Traversal Logic)
+    // Purpose: Orchestrate the transformation of the parsed AST into a flattened CSS structure.
+    public processAST(ast: StyleSheetNode): CssNode[] {
+        const url = this.options.url || 'stdin';
+        this.processedNodes = [];
+        this.container = this.processedNodes;
+        this.modules.clear();
+        this.extensions = [];
+        this.warnings = [];
+        this.currentUrl = url;
+        this.currentModule = this.createModule(url, new Map());
+        this.currentScope = this.currentModule.scope;
+
+        Object.entries(this.options.globalDefines || {}).forEach(([name, value]) => {
+            this.currentScope.variables.set(normalizeName(name.replace(/^\$/, '')), this.evaluateExpression(value));
+        });
+
+        this.loadingUrls = [url];
+        this.evaluateStatements(ast.children);
+        this.loadingUrls = [];
+        this.modules.set(url, this.currentModule);
+
+        this.applyExtensions();
+        return this.processedNodes;
+    }
+
+    private createModule(url: string, configuration: Map<string, SassValue>): ModuleRecord {
+        return {
+            url,
+            scope: new Scope(),
+            namespaces: new Map(),
+            globalModules: [],
+            forwarded: { variables: new Map(), functions: new Map(), mixins: new Map() },
+            configuration,
+            usedConfiguration: new Set(),
+        };
+    }
+
+    private sourceOf(node: ASTNode): CssSourceSpan | undefined {
+        return node.loc ? { url: this.currentUrl, line: node.loc.start.line, column: node.loc.start.column } : undefined;
+    }
+
+    // Attaches the location of the innermost statement to errors raised while evaluating it.
+    private locateError(error: unknown, node: ASTNode): unknown {
+        if (error instanceof CompilerError && error.line === undefined && node.loc) {
+            error.line = node.loc.start.line;
+            error.column = node.loc.start.column;
+            error.file = this.currentUrl;
+        }
+        return error;
+    }
+
+    private assertStyleContext(what: string): void {
+        if (this.inFunction > 0) {
+            throw new CompilerError(`${what} may not be used within @function rules.`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+    }
+
+    private withScope<T>(run: () => T, isFlowControl: boolean = false): T {
+        const saved = this.currentScope;
+        this.currentScope = new Scope(saved, isFlowControl);
+        try {
+            return run();
+        } finally {
+            this.currentScope = saved;
+        }
+    }
+
+    private evaluateStatements(nodes: ASTNode[]): SassValue | undefined {
+        for (const node of nodes) {
+            const result = this.evaluateNode(node);
+            if (result !== undefined) return result; // `@return` inside a function body
+        }
+        return undefined;
+    }
+
+    private evaluateNode(node: ASTNode): SassValue | undefined {
+        try {
+            switch (node.type) {
+                case 'Comment':
+                    this.emitComment(node as CommentNode);
+                    return undefined;
+                case 'Variable':
+                    this.assignVariable(node as VariableNode);
+                    return undefined;
+                case 'Declaration':
+                    this.evaluateDeclaration(node as DeclarationNode, '');
+                    return undefined;
+                case 'RuleSet':
+                    this.evaluateRuleSet(node as RuleSetNode);
+                    return undefined;
+                case 'Conditional':
+                    return this.evaluateConditional(node as ConditionalNode);
+                case 'AtRule':
+                    return this.evaluateAtRule(node as AtRuleNode);
+                default:
+                    return undefined;
+            }
+        } catch (error) {
+            throw this.locateError(error, node);
+        }
+    }
+
+    private emitComment(node: CommentNode): void {
+        if (this.inFunction > 0) return;
+        const target = this.currentRule?.children ?? this.container;
+        target.push({ type: 'ProcessedComment', value: node.value, source: this.sourceOf(node) });
+    }
+
+    private assignVariable(node: VariableNode): void {
+        const name = normalizeName(node.name);
+        if (node.namespace) {
+            const ref = this.moduleVariable(this.resolveNamespace(node.namespace), name);
+            if (!ref) throw new CompilerError(`Undefined variable: ${node.namespace}.$${name}`, CompilerErrorCode.VARIABLE_NOT_DEFINED);
+            ref.scope.variables.set(ref.name, this.evaluateExpression(node.value));
+            return;
+        }
+
+        const moduleScope = this.currentModule.scope;
+        if (node.isDefault) {
+            if ((this.currentScope === moduleScope || node.isGlobal) && this.currentModule.configuration.has(name)) {
+                this.currentModule.usedConfiguration.add(name);
+                moduleScope.variables.set(name, this.currentModule.configuration.get(name)!);
+                return;
+            }
+            const existing = node.isGlobal ? moduleScope.variables.get(name) : this.currentScope.lookupVariable(name);
+            if (existing && existing.kind !== 'null') return;
+        }
+
+        const value = this.evaluateExpression(node.value);
+        if (node.isGlobal) {
+            moduleScope.variables.set(name, value);
+        } else {
+            this.currentScope.assign(name, value);
+        }
+    }
+
+    private evaluateDeclaration(node: DeclarationNode, prefix: string): void {
+        this.assertStyleContext('Declarations');
+        if (!this.currentRule) {
+            throw new CompilerError('Declarations may only be used within style rules.', CompilerErrorCode.SYNTAX_ERROR);
+        }
+        const property = prefix + this.interpolate(node.property).trim();
+        if (node.value) {
+            // Custom properties are passed through verbatim apart from interpolation.
+            const value = property.startsWith('--')
+                ? this.interpolate(node.value).trim()
+                : serializeValue(this.evaluateExpression(node.value));
+            if (value) {
+                this.currentRule.children!.push({ type: 'ProcessedDeclaration', property, value, source: this.sourceOf(node) });
+            }
+        }
+        node.children?.forEach(child => {
+            if (child.type === 'Declaration') {
+                this.evaluateDeclaration(child as DeclarationNode, `${property}-`);
+            } else {
+                this.evaluateNode(child);
+            }
+        });
+    }
+
+    private evaluateRuleSet(node: RuleSetNode): void {
+        this.assertStyleContext('Style rules');
+        let selectors = splitSelectorList(this.interpolate(node.selector));
+        if (this.inKeyframes) {
+            // Keyframe selectors (`from`, `50%`) are never nested.
+        } else if (this.parentSelectors) {
+            selectors = resolveParentSelectors(this.parentSelectors, selectors);
+        } else if (selectors.some(selector => selector.includes('&'))) {
+            throw new CompilerError('Top-level selectors may not contain the parent selector "&".', CompilerErrorCode.SELECTOR_PARSING_ERROR);
+        }
+
+        const rule: CssRuleNode = { type: 'ProcessedRule', selectors, children: [], source: this.sourceOf(node) };
+        this.container.push(rule);
+
+        const savedRule = this.currentRule;
+        const savedSelectors = this.parentSelectors;
+        this.currentRule = rule;
+        this.parentSelectors = selectors;
+        try {
+            this.withScope(() => this.evaluateStatements(node.children));
+        } finally {
+            this.currentRule = savedRule;
+            this.parentSelectors = savedSelectors;
+        }
+    }
+
+    private evaluateConditional(node: ConditionalNode): SassValue | undefined {
+        for (const branch of node.branches) {
+            if (branch.condition === undefined || isTruthy(this.evaluateExpression(branch.condition))) {
+                return this.withScope(() => this.evaluateStatements(branch.children), true);
+            }
+        }
+        return undefined;
+    }
+
+    private evaluateAtRule(node: AtRuleNode): SassValue | undefined {
+        const name = node.name.toLowerCase();
+        switch (name) {
+            case 'use':
+                this.evaluateUse(node);
+                return undefined;
+            case 'forward':
+                this.evaluateForward(node);
+                return undefined;
+            case 'import':
+                this.evaluateImport(node);
+                return undefined;
+            case 'mixin':
+            case 'function':
+                this.defineCallable(node, name);
+                return undefined;
+            case 'include':
+                this.evaluateInclude(node);
+                return undefined;
+            case 'content':
+                this.evaluateContent();
+                return undefined;
+            case 'return':
+                if (this.inFunction === 0) {
+                    throw new CompilerError('@return may only be used within a @function.', CompilerErrorCode.SYNTAX_ERROR);
+                }
+                return this.evaluateExpression(node.params);
+            case 'extend':
+                this.evaluateExtend(node);
+                return undefined;
+            case 'each':
+                return this.evaluateEach(node);
+            case 'for':
+                return this.evaluateFor(node);
+            case 'while':
+                return this.evaluateWhile(node);
+            case 'debug':
+                this.warnings.push(`${this.currentUrl}:${node.loc?.start.line ?? 0} DEBUG: ${serializeValue(this.evaluateExpression(node.params), true)}`);
+                return undefined;
+            case 'warn':
+                this.warnings.push(`WARNING: ${valueToText(this.evaluateExpression(node.params))} (${this.currentUrl}:${node.loc?.start.line ?? 0})`);
+                return undefined;
+            case 'error':
+                throw new CompilerError(valueToText(this.evaluateExpression(node.params)), CompilerErrorCode.USER_ERROR);
+            case 'at-root':
+                this.evaluateAtRoot(node);
+                return undefined;
+            case 'charset':
+                return undefined;
+            default:
+                this.evaluateCssAtRule(node, name);
+                return undefined;
+        }
+    }
+
+    // --- Modules -------------------------------------------------------------------------------
+
+    private assertModuleRoot(rule: string): void {
+        if (this.currentScope !== this.currentModule.scope || this.currentRule) {
+            throw new CompilerError(`@${rule} rules must be written at the top level of a stylesheet.`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+    }
+
+    private evaluateUse(node: AtRuleNode): void {
+        this.assertModuleRoot('use');
+        const match = node.params.match(/^(["'])([^"']+)\1\s*(?:as\s+(\*|[\w-]+))?\s*(?:with\s*(\([\s\S]*\)))?$/);
+        if (!match) throw new CompilerError(`Invalid @use rule: ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        const [, , url, alias, withClause] = match;
+
+        const configuration = new Map<string, SassValue>();
+        if (withClause) {
+            this.parseConfiguration(withClause).forEach(entry => configuration.set(entry.name, this.evaluate(entry.value)));
+        }
+        const module = this.loadModule(url, configuration, !!withClause);
+
+        if (alias === '*') {
+            this.currentModule.globalModules.push(module);
+            return;
+        }
+        const namespace = alias || defaultNamespace(url);
+        if (this.currentModule.namespaces.has(namespace)) {
+            throw new CompilerError(`There's already a module with namespace "${namespace}".`, CompilerErrorCode.IMPORT_RESOLUTION_FAILED);
+        }
+        this.currentModule.namespaces.set(namespace, module);
+    }
+
+    private evaluateForward(node: AtRuleNode): void {
+        this.assertModuleRoot('forward');
+        const match = node.params.match(/^(["'])([^"']+)\1\s*(?:as\s+([\w-]+)\*)?\s*(?:(show|hide)\s+([\s\S]+?))?\s*(?:with\s*(\([\s\S]*\)))?$/);
+        if (!match) throw new CompilerError(`Invalid @forward rule: ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        const [, , url, rawPrefix, visibility, memberList, withClause] = match;
+        const prefix = normalizeName(rawPrefix || '');
+        const listed = new Set((memberList || '').split(',').map(member => normalizeName(member.trim())).filter(Boolean));
+        const isVisible = (name: string) => !visibility || (visibility === 'show') === listed.has(name);
+
+        // Configuration flows through a forward: the forwarding module's own configuration wins over
+        // `with` entries marked `!default`.
+        const entries = withClause ? this.parseConfiguration(withClause) : [];
+        const configuration = new Map<string, SassValue>();
+        entries.forEach(entry => configuration.set(entry.name, this.evaluate(entry.value)));
+        const passedThrough = new Map<string, string>();
+        this.currentModule.configuration.forEach((value, name) => {
+            if (!name.startsWith(prefix)) return;
+            const unprefixed = name.slice(prefix.length);
+            const entry = entries.find(candidate => candidate.name === unprefixed);
+            if (!entry || entry.isDefault) {
+                configuration.set(unprefixed, value);
+                passedThrough.set(unprefixed, name);
+            }
+        });
+
+        const module = this.loadModule(url, configuration, false);
+        passedThrough.forEach((name, unprefixed) => {
+            if (module.usedConfiguration.has(unprefixed)) this.currentModule.usedConfiguration.add(name);
+        });
+
+        const members = this.publicMembers(module);
+        const forwarded = this.currentModule.forwarded;
+        // `show`/`hide` lists use the prefixed names.
+        members.variables.forEach((ref, name) => { if (isVisible(`$${prefix}${name}`)) forwarded.variables.set(prefix + name, ref); });
+        members.functions.forEach((fn, name) => { if (isVisible(prefix + name)) forwarded.functions.set(prefix + name, fn); });
+        members.mixins.forEach((mixin, name) => { if (isVisible(prefix + name)) forwarded.mixins.set(prefix + name, mixin); });
+    }
+
+    private parseConfiguration(source: string): { name: string; value: Expression; isDefault: boolean }[] {
+        try {
+            return ExpressionParser.parseConfiguration(source);
+        } catch (error) {
+            throw this.relocateParseError(error);
+        }
+    }
+
+    private loadModule(url: string, configuration: Map<string, SassValue>, checkConfiguration: boolean): ModuleRecord {
+        if (url.startsWith('sass:')) {
+            const builtIn = this.builtInModules.get(url.slice(5));
+            if (!builtIn) throw new CompilerError(`Can't find stylesheet to import: ${url}`, CompilerErrorCode.IMPORT_RESOLUTION_FAILED);
+            if (configuration.size > 0) throw new CompilerError(`Built-in module ${url} can't be configured.`, CompilerErrorCode.MODULE_CONFIGURATION_ERROR);
+            return builtIn;
+        }
+
+        const resolved = this.resolveStylesheet(url);
+        if (this.loadingUrls.includes(resolved.url)) {
+            throw new CompilerError(`Module loop: ${resolved.url} is already being loaded.`, CompilerErrorCode.CIRCULAR_DEPENDENCY);
+        }
+        const existing = this.modules.get(resolved.url);
+        if (existing) {
+            if (configuration.size > 0) {
+                throw new CompilerError(`${url} was already loaded, so it can't be configured using "with".`, CompilerErrorCode.MODULE_CONFIGURATION_ERROR);
+            }
+            return existing;
+        }
+
+        const module = this.createModule(resolved.url, configuration);
+        const ast = this.parseStylesheet(resolved.url, resolved.contents);
+
+        const saved = {
+            module: this.currentModule, scope: this.currentScope, url: this.currentUrl, container: this.container,
+            rule: this.currentRule, selectors: this.parentSelectors, contentStack: this.contentStack, inKeyframes: this.inKeyframes,
+            mediaContext: this.mediaContext,
+        };
+        // Upstream module CSS is emitted once, ahead of the CSS of the stylesheet that loaded it.
+        this.currentModule = module;
+        this.currentScope = module.scope;
+        this.currentUrl = resolved.url;
+        this.container = this.processedNodes;
+        this.currentRule = null;
+        this.parentSelectors = null;
+        this.contentStack = [];
+        this.inKeyframes = false;
+        this.mediaContext = null;
+        this.loadingUrls.push(resolved.url);
+        try {
+            this.evaluateStatements(ast.children);
+        } finally {
+            this.loadingUrls.pop();
+            this.currentModule = saved.module;
+            this.currentScope = saved.scope;
+            this.currentUrl = saved.url;
+            this.container = saved.container;
+            this.currentRule = saved.rule;
+            this.parentSelectors = saved.selectors;
+            this.contentStack = saved.contentStack;
+            this.inKeyframes = saved.inKeyframes;
+            this.mediaContext = saved.mediaContext;
+        }
+
+        if (checkConfiguration) {
+            const unused = Array.from(configuration.keys()).find(name => !module.usedConfiguration.has(name));
+            if (unused) {
+                throw new CompilerError(`$${unused} was not declared with !default in the @used module.`, CompilerErrorCode.MODULE_CONFIGURATION_ERROR);
+            }
+        }
+        this.modules.set(resolved.url, module);
+        return module;
+    }
+
+    private resolveStylesheet(url: string): { url: string; contents: string } {
+        const resolved = this.options.importer?.(url, this.currentUrl);
+        if (!resolved) {
+            throw new CompilerError(`Can't find stylesheet to import: ${url}`, CompilerErrorCode.IMPORT_RESOLUTION_FAILED, undefined, undefined,
+                'Check the path and make sure the partial exists in the project (e.g. _name.scss or name/_index.scss).');
+        }
+        this.sources.set(resolved.url, resolved.contents);
+        return resolved;
+    }
+
+    private parseStylesheet(url: string, contents: string): StyleSheetNode {
+        try {
+            return new Parser(new Lexer(contents).tokenize()).parse();
+        } catch (error) {
+            if (error instanceof CompilerError && !error.file) error.file = url;
+            throw error;
+        }
+    }
+
+    // Legacy `@import`: the imported file is evaluated in place, sharing the importer's scope.
+    private evaluateImport(node: AtRuleNode): void {
+        splitTopLevel(node.params, ',').forEach(entry => {
+            const quoted = entry.match(/^(["'])([^"']+)\1$/);
+            const url = quoted?.[2];
+            if (!url || /^(https?:)?\/\//.test(url) || url.endsWith('.css')) {
+                // Plain CSS import (url(), remote or .css file, or one with media queries).
+                this.container.push({ type: 'ProcessedAtRule', name: 'import', params: this.interpolate(entry), source: this.sourceOf(node) });
+                return;
+            }
+            const resolved = this.resolveStylesheet(url);
+            if (this.loadingUrls.includes(resolved.url)) {
+                throw new CompilerError(`This file is already being loaded: ${resolved.url}`, CompilerErrorCode.CIRCULAR_DEPENDENCY);
+            }
+            const ast = this.parseStylesheet(resolved.url, resolved.contents);
+            const savedUrl = this.currentUrl;
+            this.currentUrl = resolved.url;
+            this.loadingUrls.push(resolved.url);
+            try {
+                this.evaluateStatements(ast.children);
+            } finally {
+                this.loadingUrls.pop();
+                this.currentUrl = savedUrl;
+            }
+        });
+    }
+
+    private resolveNamespace(namespace: string): ModuleRecord {
+        const module = this.currentModule.namespaces.get(namespace);
+        if (!module) {
+            throw new CompilerError(`There is no module with the namespace "${namespace}".`, CompilerErrorCode.IMPORT_RESOLUTION_FAILED);
+        }
+        return module;
+    }
+
+    private moduleVariable(module: ModuleRecord, name: string): VariableRef | undefined {
+        if (!isPrivateMember(name) && module.scope.variables.has(name)) return { scope: module.scope, name };
+        return module.forwarded.variables.get(name);
+    }
+
+    private moduleFunction(module: ModuleRecord, name: string): UserCallable | BuiltInFunction | undefined {
+        return module.builtIns?.get(name)
+            ?? (isPrivateMember(name) ? undefined : module.scope.functions.get(name))
+            ?? module.forwarded.functions.get(name);
+    }
+
+    private moduleMixin(module: ModuleRecord, name: string): UserCallable | undefined {
+        return (isPrivateMember(name) ? undefined : module.scope.mixins.get(name)) ?? module.forwarded.mixins.get(name);
+    }
+
+    private publicMembers(module: ModuleRecord): ModuleRecord['forwarded'] {
+        const members: ModuleRecord['forwarded'] = {
+            variables: new Map(module.forwarded.variables),
+            functions: new Map(module.forwarded.functions),
+            mixins: new Map(module.forwarded.mixins),
+        };
+        module.scope.variables.forEach((_, name) => { if (!isPrivateMember(name)) members.variables.set(name, { scope: module.scope, name }); });
+        module.scope.functions.forEach((fn, name) => { if (!isPrivateMember(name)) members.functions.set(name, fn); });
+        module.scope.mixins.forEach((mixin, name) => { if (!isPrivateMember(name)) members.mixins.set(name, mixin); });
+        module.builtIns?.forEach((fn, name) => members.functions.set(name, fn));
+        return members;
+    }
+
+    private lookupVariable(name: string, namespace?: string): SassValue {
+        if (namespace) {
+            const ref = this.moduleVariable(this.resolveNamespace(namespace), name);
+            if (!ref) throw new CompilerError(`Undefined variable: ${namespace}.$${name}`, CompilerErrorCode.VARIABLE_NOT_DEFINED);
+            return ref.scope.variables.get(ref.name)!;
+        }
+        const local = this.currentScope.lookupVariable(name);
+        if (local) return local;
+        for (const module of this.currentModule.globalModules) {
+            const ref = this.moduleVariable(module, name);
+            if (ref) return ref.scope.variables.get(ref.name)!;
+        }
+        throw new CompilerError(`Undefined variable: $${name}`, CompilerErrorCode.VARIABLE_NOT_DEFINED,
+            undefined, undefined, 'Declare the variable before using it, or load the module that defines it with @use.');
+    }
+
+    private resolveMixin(name: string, namespace?: string): UserCallable | undefined {
+        if (namespace) return this.moduleMixin(this.resolveNamespace(namespace), name);
+        return this.currentScope.lookupMixin(name)
+            ?? this.currentModule.globalModules.map(module => this.moduleMixin(module, name)).find(Boolean);
+    }
+
+    private resolveFunction(name: string, namespace?: string): UserCallable | BuiltInFunction | undefined {
+        if (namespace) return this.moduleFunction(this.resolveNamespace(namespace), name);
+        return this.currentScope.lookupFunction(name)
+            ?? this.currentModule.globalModules.map(module => this.moduleFunction(module, name)).find(Boolean)
+            ?? this.functionRegistry.get(name);
+    }
+
+    // --- Mixins, functions and content ---------------------------------------------------------
+
+    private defineCallable(node: AtRuleNode, kind: 'mixin' | 'function'): void {
+        if (!node.children) {
+            throw new CompilerError(`Expected "{" after @${kind} ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+        let signature: CallableSignature;
+        try {
+            signature = ExpressionParser.parseSignature(node.params);
+        } catch (error) {
+            throw this.relocateParseError(error);
+        }
+        const callable: UserCallable = { signature, body: node.children, closure: this.currentScope, module: this.currentModule, url: this.currentUrl };
+        (kind === 'mixin' ? this.currentScope.mixins : this.currentScope.functions).set(signature.name, callable);
+    }
+
+    private evaluateInclude(node: AtRuleNode): void {
+        this.assertStyleContext('@include');
+        let include: ReturnType<typeof ExpressionParser.parseInclude>;
+        try {
+            include = ExpressionParser.parseInclude(node.params);
+        } catch (error) {
+            throw this.relocateParseError(error);
+        }
+        const mixin = this.resolveMixin(include.name, include.namespace);
+        if (!mixin) {
+            const qualified = include.namespace ? `${include.namespace}.${include.name}` : include.name;
+            throw new CompilerError(`Undefined mixin: ${qualified}`, CompilerErrorCode.MIXIN_NOT_FOUND);
+        }
+        const args = this.evaluateArguments(include.args);
+        const content: ContentBlock | null = node.children
+            ? { children: node.children, scope: this.currentScope, module: this.currentModule, url: this.currentUrl }
+            : null;
+        this.invokeCallable(mixin, args, () => {
+            this.contentStack.push(content);
+            try {
+                return this.evaluateStatements(mixin.body);
+            } finally {
+                this.contentStack.pop();
+            }
+        });
+    }
+
+    private evaluateContent(): void {
+        if (this.contentStack.length === 0) {
+            throw new CompilerError('@content is only allowed within mixin declarations.', CompilerErrorCode.SYNTAX_ERROR);
+        }
+        const content = this.contentStack[this.contentStack.length - 1];
+        if (!content) return;
+
+        // While the block runs, `@content` refers to the content passed to the enclosing mixin.
+        const saved = { scope: this.currentScope, module: this.currentModule, url: this.currentUrl };
+        this.contentStack.pop();
+        this.currentScope = new Scope(content.scope);
+        this.currentModule = content.module;
+        this.currentUrl = content.url;
+        try {
+            this.evaluateStatements(content.children);
+        } finally {
+            this.contentStack.push(content);
+            this.currentScope = saved.scope;
+            this.currentModule = saved.module;
+            this.currentUrl = saved.url;
+        }
+    }
+
+    private callUserFunction(fn: UserCallable, args: EvaluatedArguments): SassValue {
+        const result = this.invokeCallable(fn, args, () => {
+            this.inFunction++;
+            try {
+                return this.evaluateStatements(fn.body);
+            } finally {
+                this.inFunction--;
+            }
+        });
+        if (!result) {
+            throw new CompilerError(`Function ${fn.signature.name} finished without @return.`, CompilerErrorCode.FUNCTION_NOT_FOUND);
+        }
+        return result;
+    }
+
+    private invokeCallable<T>(callable: UserCallable, args: EvaluatedArguments, run: () => T): T {
+        if (this.callDepth >= MAX_CALL_DEPTH) {
+            throw new CompilerError(`Stack depth exceeded while calling ${callable.signature.name}.`, CompilerErrorCode.RESOURCE_LIMIT_EXCEEDED);
+        }
+        const saved = { scope: this.currentScope, module: this.currentModule, url: this.currentUrl };
+        this.currentScope = new Scope(callable.closure);
+        this.currentModule = callable.module;
+        this.currentUrl = callable.url;
+        this.callDepth++;
+        try {
+            this.bindArguments(callable.signature, args);
+            return run();
+        } finally {
+            this.callDepth--;
+            this.currentScope = saved.scope;
+            this.currentModule = saved.module;
+            this.currentUrl = saved.url;
+        }
+    }
+
+    // Binds arguments into the (already entered) callable scope; defaults may refer to earlier parameters.
+    private bindArguments(signature: CallableSignature, args: EvaluatedArguments): void {
+        const named = new Map(args.named);
+        signature.params.forEach((param, index) => {
+            let value: SassValue | undefined;
+            if (index < args.positional.length) {
+                if (named.has(param.name)) {
+                    throw new CompilerError(`Argument $${param.name} was passed both by position and by name.`, CompilerErrorCode.TYPE_MISMATCH);
+                }
+                value = args.positional[index];
+            } else if (named.has(param.name)) {
+                value = named.get(param.name);
+                named.delete(param.name);
+            } else if (param.defaultValue) {
+                value = this.evaluate(param.defaultValue);
+            } else {
+                throw new CompilerError(`Missing argument $${param.name} in ${signature.name}().`, CompilerErrorCode.TYPE_MISMATCH);
+            }
+            this.currentScope.variables.set(param.name, value!);
+        });
+
+        if (signature.restParam) {
+            this.currentScope.variables.set(signature.restParam, sassList(args.positional.slice(signature.params.length), 'comma'));
+        } else if (args.positional.length > signature.params.length) {
+            throw new CompilerError(`Only ${signature.params.length} argument(s) allowed for ${signature.name}(), but ${args.positional.length} were passed.`, CompilerErrorCode.TYPE_MISMATCH);
+        }
+        if (!signature.restParam && named.size > 0) {
+            throw new CompilerError(`No argument named $${named.keys().next().value} in ${signature.name}().`, CompilerErrorCode.TYPE_MISMATCH);
+        }
+    }
+
+    private evaluateArguments(args: ArgumentInvocation): EvaluatedArguments {
+        const positional = args.positional.map(arg => this.evaluate(arg));
+        const named = new Map<string, SassValue>();
+        args.named.forEach((value, name) => named.set(name, this.evaluate(value)));
+        if (args.rest) {
+            const rest = this.evaluate(args.rest);
+            if (rest.kind === 'map') {
+                rest.entries.forEach(([key, value]) => named.set(normalizeName(valueToText(key)), value));
+            } else {
+                positional.push(...listItems(rest));
+            }
+        }
+        return { positional, named };
+    }
+
+    // --- Control flow --------------------------------------------------------------------------
+
+    private evaluateEach(node: AtRuleNode): SassValue | undefined {
+        const match = node.params.match(/^(\$[\w-]+(?:\s*,\s*\$[\w-]+)*)\s+in\s+([\s\S]+)$/);
+        if (!match || !node.children) throw new CompilerError(`Invalid @each rule: ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        const names = match[1].split(',').map(name => normalizeName(name.trim().substring(1)));
+        const items = listItems(this.evaluateExpression(match[2]));
+
+        for (const item of items) {
+            const result = this.withScope(() => {
+                if (names.length === 1) {
+                    this.currentScope.variables.set(names[0], item);
+                } else {
+                    const parts = listItems(item);
+                    names.forEach((name, index) => this.currentScope.variables.set(name, parts[index] ?? SASS_NULL));
+                }
+                return this.evaluateStatements(node.children!);
+            }, true);
+            if (result) return result;
+        }
+        return undefined;
+    }
+
+    private evaluateFor(node: AtRuleNode): SassValue | undefined {
+        const match = node.params.match(/^\$([\w-]+)\s+from\s+([\s\S]+?)\s+(through|to)\s+([\s\S]+)$/);
+        if (!match || !node.children) throw new CompilerError(`Invalid @for rule: ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        const name = normalizeName(match[1]);
+        const from = this.expectNumber(this.evaluateExpression(match[2]), 'from');
+        const to = this.expectNumber(this.evaluateExpression(match[4]), 'to');
+        const start = Math.round(from.value);
+        let end = Math.round(coerceNumber(to, from.unit, '@for'));
+        const step = start <= end ? 1 : -1;
+        if (match[3] === 'to') end -= step;
+        if (Math.abs(end - start) > MAX_LOOP_ITERATIONS) {
+            throw new CompilerError(`@for would run more than ${MAX_LOOP_ITERATIONS} iterations.`, CompilerErrorCode.RESOURCE_LIMIT_EXCEEDED);
+        }
+
+        for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+            const result = this.withScope(() => {
+                this.currentScope.variables.set(name, sassNumber(i, from.unit || to.unit));
+                return this.evaluateStatements(node.children!);
+            }, true);
+            if (result) return result;
+        }
+        return undefined;
+    }
+
+    private evaluateWhile(node: AtRuleNode): SassValue | undefined {
+        if (!node.children) throw new CompilerError(`Expected "{" after @while ${node.params}`, CompilerErrorCode.SYNTAX_ERROR);
+        let iterations = 0;
+        while (isTruthy(this.evaluateExpression(node.params))) {
+            if (++iterations > MAX_LOOP_ITERATIONS) {
+                throw new CompilerError(`@while exceeded ${MAX_LOOP_ITERATIONS} iterations; check the loop condition.`, CompilerErrorCode.RESOURCE_LIMIT_EXCEEDED);
+            }
+            const result = this.withScope(() => this.evaluateStatements(node.children!), true);
+            if (result) return result;
+        }
+        return undefined;
+    }
+
+    // --- Selectors and CSS at-rules ------------------------------------------------------------
+
+    private evaluateExtend(node: AtRuleNode): void {
+        if (!this.currentRule || this.currentRule.type !== 'ProcessedRule' || !this.parentSelectors) {
+            throw new CompilerError('@extend may only be used within style rules.', CompilerErrorCode.SYNTAX_ERROR);
+        }
+        let params = this.interpolate(node.params).trim();
+        const optional = /\s*!optional$/i.test(params);
+        if (optional) params = params.replace(/\s*!optional$/i, '');
+        splitSelectorList(params).forEach(target => {
+            if (parseComplexSelector(target).length !== 1) {
+                throw new CompilerError(`Complex selectors may not be extended: ${target}`, CompilerErrorCode.SELECTOR_PARSING_ERROR);
+            }
+            this.extensions.push({
+                extenders: [...this.parentSelectors!],
+                target,
+                optional,
+                media: this.mediaContext ? mediaQueryKey(this.mediaContext.queries) : null,
+                source: this.sourceOf(node),
+            });
+        });
+    }
+
+    private evaluateAtRoot(node: AtRuleNode): void {
+        this.assertStyleContext('@at-root');
+        if (!node.children) throw new CompilerError('Expected "{" after @at-root', CompilerErrorCode.SYNTAX_ERROR);
+        if (node.params.startsWith('(')) {
+            throw new CompilerError('@at-root (with: ...) / (without: ...) queries are not supported', CompilerErrorCode.AT_RULE_NOT_SUPPORTED);
+        }
+        // Interpolate before leaving the rule so `#{&}` still sees the parent selector.
+        const selector = node.params ? this.interpolate(node.params) : '';
+        const savedRule = this.currentRule;
+        const savedSelectors = this.parentSelectors;
+        this.currentRule = null;
+        this.parentSelectors = null;
+        try {
+            if (selector) {
+                this.evaluateRuleSet({ type: 'RuleSet', selector, children: node.children, loc: node.loc });
+            } else {
+                this.withScope(() => this.evaluateStatements(node.children!));
+            }
+        } finally {
+            this.currentRule = savedRule;
+            this.parentSelectors = savedSelectors;
+        }
+    }
+
+    private evaluateCssAtRule(node: AtRuleNode, name: string): void {
+        this.assertStyleContext(`@${node.name}`);
+        const atRule: CssAtRuleNode = { type: 'ProcessedAtRule', name: node.name, params: this.resolveAtRuleParams(node.params, name), source: this.sourceOf(node) };
+        if (!node.children) {
+            (this.currentRule?.children ?? this.container).push(atRule);
+            return;
+        }
+
+        atRule.children = [];
+        const saved = { container: this.container, rule: this.currentRule, selectors: this.parentSelectors, inKeyframes: this.inKeyframes, mediaContext: this.mediaContext };
+        if (name === 'media') {
+            // `@media screen { @media (min-width: 1px) {} }` merges into `@media screen and (min-width: 1px)`.
+            const queries = splitTopLevel(atRule.params, ',');
+            if (this.mediaContext && queries.every(query => query.startsWith('('))) {
+                const merged = this.mediaContext.queries.flatMap(outer => queries.map(inner => `${outer} and ${inner}`));
+                atRule.params = merged.join(', ');
+                this.mediaContext.container.push(atRule);
+                this.mediaContext = { queries: merged, container: this.mediaContext.container };
+            } else {
+                this.container.push(atRule);
+                this.mediaContext = { queries, container: this.container };
+            }
+        } else {
+            this.container.push(atRule);
+        }
+        this.container = atRule.children;
+        if (name.endsWith('keyframes')) {
+            this.currentRule = null;
+            this.parentSelectors = null;
+            this.inKeyframes = true;
+        } else if (CONDITIONAL_AT_RULES.has(name)) {
+            // `.a { @media x { color: red } }` bubbles to `@media x { .a { color: red } }`.
+            if (this.parentSelectors && this.currentRule?.type === 'ProcessedRule') {
+                const inner: CssRuleNode = { type: 'ProcessedRule', selectors: this.parentSelectors, children: [], source: atRule.source };
+                atRule.children.push(inner);
+                this.currentRule = inner;
+            } else {
+                this.currentRule = null;
+            }
+        } else {
+            // `@font-face`, `@page`, ...: declarations belong to the at-rule itself.
+            this.currentRule = atRule;
+            this.parentSelectors = null;
+        }
+        try {
+            this.withScope(() => this.evaluateStatements(node.children!));
+        } finally {
+            this.container = saved.container;
+            this.currentRule = saved.rule;
+            this.parentSelectors = saved.selectors;
+            this.inKeyframes = saved.inKeyframes;
+            this.mediaContext = saved.mediaContext;
+        }
+    }
+
+    private resolveAtRuleParams(params: string, name: string): string {
+        let text = this.interpolate(params);
+        if (CONDITIONAL_AT_RULES.has(name)) {
+            // SassScript is allowed in feature values, e.g. `(min-width: $breakpoint + 1px)`.
+            text = text.replace(/\(\s*([\w-]+)\s*:\s*([^()]*(?:\([^()]*\)[^()]*)*)\)/g, (whole, feature: string, value: string) =>
+                value.includes('$') ? `(${feature}: ${serializeValue(this.evaluateExpression(value))})` : whole);
+            text = text.replace(/(?:\b([\w-]+)\.)?\$([\w-]+)/g, (_, namespace: string | undefined, variable: string) =>
+                valueToText(this.lookupVariable(normalizeName(variable), namespace)));
+        }
+        return text.replace(/\s+/g, ' ').trim();
+    }
+
+    private interpolate(text: string): string {
+        if (!text.includes('#{')) return text;
+        let result = '';
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '#' && text[i + 1] === '{') {
+                const end = findInterpolationEnd(text, i);
+                result += valueToText(this.evaluateExpression(text.slice(i + 2, end)));
+                i = end;
+                continue;
+            }
+            result += text[i];
+        }
+        return result;
+    }
+
+    // Resolves interpolation and variables inside raw CSS function arguments such as `calc()`.
+    private resolveRawCss(raw: string): string {
+        return this.interpolate(raw).replace(/(?:\b([\w-]+)\.)?\$([\w-]+)/g, (_, namespace: string | undefined, variable: string) =>
+            serializeValue(this.lookupVariable(normalizeName(variable), namespace)));
+    }
+
+    // --- Extend --------------------------------------------------------------------------------
+
+    private applyExtensions(): void {
+        const matched = new Set<Extension>();
+        const visit = (nodes: CssNode[], media: string | null) => nodes.forEach(node => {
+            if (node.type === 'ProcessedRule' && this.extensions.length > 0) {
+                const seen = new Set(node.selectors);
+                const queue = [...node.selectors];
+                while (queue.length > 0) {
+                    const selector = queue.shift()!;
+                    this.extensions.forEach(extension => {
+                        const extended = extendSelector(selector, extension);
+                        if (extended.length > 0 && extension.media !== null && extension.media !== media) {
+                            const error = new CompilerError('You may not @extend selectors across media queries.',
+                                CompilerErrorCode.EXTEND_ACROSS_MEDIA, extension.source?.line, extension.source?.column);
+                            error.file = extension.source?.url;
+                            throw error;
+                        }
+                        if (extended.length > 0) matched.add(extension);
+                        extended.forEach(result => {
+                            if (seen.has(result) || seen.size >= MAX_EXTENDED_SELECTORS) return;
+                            seen.add(result);
+                            node.selectors.push(result);
+                            queue.push(result);
+                        });
+                    });
+                }
+            } else if (node.type === 'ProcessedAtRule' && node.children) {
+                visit(node.children, node.name.toLowerCase() === 'media' ? mediaQueryKey(splitTopLevel(node.params, ',')) : media);
+            }
+        });
+        visit(this.processedNodes, null);
+
+        const missing = this.extensions.find(extension => !extension.optional && !matched.has(extension));
+        if (missing) {
+            const error = new CompilerError(`The target selector was not found. Use "@extend ${missing.target} !optional" to avoid this error.`,
+                CompilerErrorCode.EXTEND_TARGET_NOT_FOUND, missing.source?.line, missing.source?.column);
+            error.file = missing.source?.url;
+            throw error;
+        }
+        this.processedNodes = removePlaceholderSelectors(this.processedNodes);
+    }
+
+    // --- Expressions ---------------------------------------------------------------------------
+
+    // Parse errors inside a value carry positions relative to that value; drop them so the
+    // enclosing statement's location is reported instead.
+    private relocateParseError(error: unknown): unknown {
+        if (error instanceof CompilerError) {
+            error.line = undefined;
+            error.column = undefined;
+        }
+        return error;
+    }
+
+    private evaluateExpression(source: string): SassValue {
+        let expression = this.expressionCache.get(source);
+        if (!expression) {
+            try {
+                expression = ExpressionParser.parse(source);
+            } catch (error) {
+                throw this.relocateParseError(error);
+            }
+            this.expressionCache.set(source, expression);
+        }
+        return this.evaluate(expression);
+    }
+
+    // Invented Feature: `evaluateExpression` (Version 2.4 - Advanced Arithmetic & Function Evaluation)
+    // Purpose: Handle complex mathematical expressions and function calls within property values.
+    // `/` between two literal numbers outside parentheses stays a separator (`font: 12px/1.5`),
+    // as in Dart Sass; use parentheses, variables or math.div() to divide.
+    private evaluate(expression: Expression, inCalculation: boolean = false): SassValue {
+        switch (expression.kind) {
+            case 'literal':
+                return expression.value;
+            case 'variable':
+                return this.lookupVariable(expression.name, expression.namespace);
+            case 'paren':
+                return this.evaluate(expression.expression, true);
+            case 'list':
+                return sassList(expression.items.map(item => this.evaluate(item)), expression.separator, expression.bracketed);
+            case 'map': {
+                const entries: [SassValue, SassValue][] = [];
+                expression.entries.forEach(([keyExpression, valueExpression]) => {
+                    const key = this.evaluate(keyExpression);
+                    if (entries.some(([existing]) => sassEquals(existing, key))) {
+                        throw typeError(`Duplicate key ${serializeValue(key, true)} in map.`);
+                    }
+                    entries.push([key, this.evaluate(valueExpression)]);
+                });
+                return { kind: 'map', entries };
+            }
+            case 'interpolated': {
+                const text = expression.parts.map(part => (typeof part === 'string' ? part : valueToText(this.evaluate(part)))).join('');
+                return sassString(text, expression.quoted);
+            }
+            case 'parentSelector':
+                if (!this.parentSelectors) return SASS_NULL;
+                return sassList(this.parentSelectors.map(selector => sassList(selector.split(' ').map(part => sassString(part)), 'space')), 'comma');
+            case 'cssFunction':
+                return sassString(`${expression.name}(${this.resolveRawCss(expression.raw)})`);
+            case 'call':
+                return this.evaluateCall(expression);
+            case 'unary':
+                return this.evaluateUnary(expression.operator, this.evaluate(expression.operand, true));
+            case 'binary':
+                return this.evaluateBinary(expression, inCalculation);
+        }
+    }
+
+    private isSlashOperand(expression: Expression): boolean {
+        return (expression.kind === 'literal' && !!expression.isNumberLiteral)
+            || (expression.kind === 'binary' && expression.operator === '/' && this.isSlashOperand(expression.left) && this.isSlashOperand(expression.right));
+    }
+
+    private evaluateBinary(expression: Extract<Expression, { kind: 'binary' }>, inCalculation: boolean): SassValue {
+        const { operator } = expression;
+        if (operator === 'and') {
+            const left = this.evaluate(expression.left);
+            return isTruthy(left) ? this.evaluate(expression.right) : left;
+        }
+        if (operator === 'or') {
+            const left = this.evaluate(expression.left);
+            return isTruthy(left) ? left : this.evaluate(expression.right);
+        }
+        if (operator === '/' && !inCalculation && this.isSlashOperand(expression.left) && this.isSlashOperand(expression.right)) {
+            return sassList([this.evaluate(expression.left), this.evaluate(expression.right)], 'slash');
+        }
+        const left = this.evaluate(expression.left, true);
+        const right = this.evaluate(expression.right, true);
+        switch (operator) {
+            case '==': return sassBoolean(sassEquals(left, right));
+            case '!=': return sassBoolean(!sassEquals(left, right));
+            case '<': case '>': case '<=': case '>=': {
+                if (left.kind !== 'number' || right.kind !== 'number') {
+                    throw typeError(`Undefined operation "${serializeValue(left, true)} ${operator} ${serializeValue(right, true)}".`);
+                }
+                const a = left.value;
+                const b = coerceNumber(right, left.unit, operator);
+                if (operator === '<') return sassBoolean(a < b && !fuzzyEquals(a, b));
+                if (operator === '>') return sassBoolean(a > b && !fuzzyEquals(a, b));
+                if (operator === '<=') return sassBoolean(a < b || fuzzyEquals(a, b));
+                return sassBoolean(a > b || fuzzyEquals(a, b));
+            }
+            case '+': return addValues(left, right);
+            case '-': return subtractValues(left, right);
+            case '*':
+                if (left.kind === 'number' && right.kind === 'number') return multiplyNumbers(left, right);
+                throw typeError(`Undefined operation "${serializeValue(left, true)} * ${serializeValue(right, true)}".`);
+            case '/':
+                if (left.kind === 'number' && right.kind === 'number') return divideNumbers(left, right);
+                return sassString(`${valueToText(left)}/${valueToText(right)}`);
+            case '%': {
+                if (left.kind !== 'number' || right.kind !== 'number') {
+                    throw typeError(`Undefined operation "${serializeValue(left, true)} % ${serializeValue(right, true)}".`);
+                }
+                const divisor = coerceNumber(right, left.unit, '%');
+                const remainder = left.value % divisor;
+                return sassNumber(remainder !== 0 && (remainder < 0) !== (divisor < 0) ? remainder + divisor : remainder, left.unit || right.unit);
+            }
+            default:
+                throw new CompilerError(`Unknown operator ${operator}`, CompilerErrorCode.SYNTAX_ERROR);
+        }
+    }
+
+    private evaluateUnary(operator: string, operand: SassValue): SassValue {
+        switch (operator) {
+            case 'not': return sassBoolean(!isTruthy(operand));
+            case '-': return operand.kind === 'number' ? sassNumber(-operand.value, operand.unit) : sassString(`-${valueToText(operand)}`);
+            case '+': return operand.kind === 'number' ? operand : sassString(`+${valueToText(operand)}`);
+            default: return sassString(`${operator}${valueToText(operand)}`);
+        }
+    }
+
+    private evaluateCall(expression: Extract<Expression, { kind: 'call' }>): SassValue {
+        const { name, namespace } = expression;
+        if (!namespace && name === 'if') {
+            // `if()` only evaluates the branch it returns.
+            const [condition, ifTrue, ifFalse] = expression.args.positional;
+            if (!condition || !ifTrue || !ifFalse) throw typeError('if() requires $condition, $if-true and $if-false.');
+            return this.evaluate(isTruthy(this.evaluate(condition)) ? ifTrue : ifFalse);
+        }
+
+        const fn = this.resolveFunction(name, namespace);
+        const args = this.evaluateArguments(expression.args);
+        if (fn && 'body' in fn) return this.callUserFunction(fn, args);
+        if (fn) {
+            const result = this.callBuiltIn(fn, args);
+            if (result) return result;
+        } else if (namespace) {
+            throw new CompilerError(`Undefined function: ${namespace}.${name}()`, CompilerErrorCode.FUNCTION_NOT_FOUND);
+        }
+
+        // Anything else is a plain CSS function such as `translate()` or `linear-gradient()`.
+        if (args.named.size > 0) {
+            throw new CompilerError(`Plain CSS function ${name}() doesn't support keyword arguments.`, CompilerErrorCode.FUNCTION_NOT_FOUND);
+        }
+        return sassString(`${name}(${args.positional.map(arg => serializeValue(arg)).join(', ')})`);
+    }
+
+    private callBuiltIn(fn: BuiltInFunction, args: EvaluatedArguments): SassValue | null {
+        const bound: Record<string, SassValue | undefined> = {};
+        fn.params.forEach((param, index) => { bound[param] = args.positional[index]; });
+        args.named.forEach((value, name) => { bound[name] = value; });
+        return fn.call(bound, args.positional.slice(fn.params.length));
+    }
+
+    private expectNumber(value: SassValue | undefined, name: string): SassNumber {
+        if (!value || value.kind !== 'number') throw typeError(`$${name}: ${value ? serializeValue(value, true) : 'null'} is not a number.`);
+        return value;
+    }
+
+    // Invented Feature: `registerBuiltInFunctions` (Version 2.3 - SASS Function Library)
+    // Purpose: Provide a rich set of SASS-compatible functions (color, string, math, list, map).
+    // Each is registered in its `sass:` module and, where Sass has one, under its legacy global name.
+    private registerBuiltInFunctions(): void {
+        const expectNumber = (value: SassValue | undefined, name: string) => this.expectNumber(value, name);
+        const expectColor = (value: SassValue | undefined, name: string): SassColor => {
+            if (!value || value.kind !== 'color') throw typeError(`$${name}: ${value ? serializeValue(value, true) : 'null'} is not a color.`);
+            return value;
+        };
+        const expectString = (value: SassValue | undefined, name: string): SassString => {
+            if (!value || value.kind !== 'string') throw typeError(`$${name}: ${value ? serializeValue(value, true) : 'null'} is not a string.`);
+            return value;
+        };
+        const expectMap = (value: SassValue | undefined, name: string): SassMap => {
+            if (value?.kind === 'map') return value;
+            if (value?.kind === 'list' && value.items.length === 0) return { kind: 'map', entries: [] };
+            throw typeError(`$${name}: ${value ? serializeValue(value, true) : 'null'} is not a map.`);
+        };
+        const optionalNumber = (value: SassValue | undefined, name: string): number | undefined =>
+            value && value.kind !== 'null' ? expectNumber(value, name).value : undefined;
+        const alphaValue = (value: SassNumber): number => (value.unit === '%' ? value.value / 100 : value.value);
+        const channelValue = (value: SassNumber): number => (value.unit === '%' ? value.value * 2.55 : value.value);
+        const isCssValue = (value: SassValue | undefined): boolean => value?.kind === 'string' && !value.quoted;
+        const listIndex = (list: SassValue[], n: SassNumber): number => {
+            const index = n.value < 0 ? list.length + n.value : n.value - 1;
+            if (!Number.isInteger(n.value) || n.value === 0 || index < 0 || index >= list.length) {
+                throw typeError(`Invalid index ${formatNumber(n.value)} for a list with ${list.length} elements.`);
+            }
+            return index;
+        };
+        const mapGet = (map: SassMap, key: SassValue): SassValue | undefined => map.entries.find(([candidate]) => sassEquals(candidate, key))?.[1];
+        const withHsl = (color: SassColor, adjust: (hsl: [number, number, number]) => [number, number, number], alpha: number = color.a): SassColor => {
+            const [h, s, l] = adjust(rgbToHsl(color));
+            return hslToColor(h, s, l, alpha);
+        };
+        const mixColors = (color1: SassColor, color2: SassColor, weight: number): SassColor => {
+            const w = weight / 100;
+            const p = w * 2 - 1;
+            const a = color1.a - color2.a;
+            const w1 = ((p * a === -1 ? p : (p + a) / (1 + p * a)) + 1) / 2;
+            const w2 = 1 - w1;
+            return rgbColor(color1.r * w1 + color2.r * w2, color1.g * w1 + color2.g * w2, color1.b * w1 + color2.b * w2, color1.a * w + color2.a * (1 - w));
+        };
+        const rgbFunction = (args: Record<string, SassValue | undefined>, rest: SassValue[]): SassValue | null => {
+            const values = [args.red, args.green, args.blue, args.alpha, ...rest].filter((value): value is SassValue => !!value);
+            if (values.some(isCssValue)) return null; // e.g. rgb(var(--r), 0, 0)
+            if (values[0]?.kind === 'color') {
+                const color = values[0];
+                return rgbColor(color.r, color.g, color.b, values[1] ? alphaValue(expectNumber(values[1], 'alpha')) : color.a);
+            }
+            if (values.length < 3 || values.some(value => value.kind !== 'number')) return null;
+            const [r, g, b, a] = values as SassNumber[];
+            return rgbColor(channelValue(r), channelValue(g), channelValue(b), a ? alphaValue(a) : 1);
+        };
+        const hslFunction = (args: Record<string, SassValue | undefined>): SassValue | null => {
+            const values = [args.hue, args.saturation, args.lightness, args.alpha].filter((value): value is SassValue => !!value);
+            if (values.some(isCssValue) || values.length < 3 || values.some(value => value.kind !== 'number')) return null;
+            const [h, s, l, a] = values as SassNumber[];
+            return hslToColor(h.value, s.value, l.value, a ? alphaValue(a) : 1);
+        };
+        const adjustColor = (args: Record<string, SassValue | undefined>, mode: 'adjust' | 'scale' | 'change'): SassColor => {
+            const color = expectColor(args.color, 'color');
+            const amount = (name: string) => optionalNumber(args[name], name);
+            const apply = (current: number, value: number | undefined, max: number, scale: number = 1): number => {
+                if (value === undefined) return current;
+                if (mode === 'change') return clamp(value * scale, 0, max);
+                if (mode === 'adjust') return clamp(current + value * scale, 0, max);
+                return clamp(current + (value > 0 ? max - current : current) * (value / 100), 0, max);
+            };
+            const alphaScale = mode === 'scale' ? 1 : args.alpha?.kind === 'number' && args.alpha.unit === '%' ? 0.01 : 1;
+            let result = rgbColor(
+                apply(color.r, amount('red'), 255),
+                apply(color.g, amount('green'), 255),
+                apply(color.b, amount('blue'), 255),
+                apply(color.a, amount('alpha'), 1, alphaScale),
+            );
+            const hue = amount('hue');
+            const saturation = amount('saturation');
+            const lightness = amount('lightness');
+            if (hue !== undefined || saturation !== undefined || lightness !== undefined) {
+                const [h, s, l] = rgbToHsl(result);
+                const newHue = hue === undefined ? h : mode === 'change' ? hue : h + hue;
+                result = hslToColor(newHue, apply(s, saturation, 100), apply(l, lightness, 100), result.a);
+            }
+            return result;
+        };
+
+        const modules: Record<string, Record<string, BuiltInFunction>> = {
+            math: {
+                'div': { params: ['number1', 'number2'], call: ({ number1, number2 }) => divideNumbers(expectNumber(number1, 'number1'), expectNumber(number2, 'number2')) },
+                'percentage': { params: ['number'], call: ({ number }) => {
+                    const n = expectNumber(number, 'number');
+                    if (n.unit) throw typeError(`$number: Expected ${serializeValue(n)} to have no units.`);
+                    return sassNumber(n.value * 100, '%');
+                } },
+                'round': { params: ['number'], call: ({ number }) => (isCssValue(number) ? null : sassNumber(Math.round(expectNumber(number, 'number').value), (number as SassNumber).unit)) },
+                'ceil': { params: ['number'], call: ({ number }) => sassNumber(Math.ceil(expectNumber(number, 'number').value), (number as SassNumber).unit) },
+                'floor': { params: ['number'], call: ({ number }) => sassNumber(Math.floor(expectNumber(number, 'number').value), (number as SassNumber).unit) },
+                'abs': { params: ['number'], call: ({ number }) => sassNumber(Math.abs(expectNumber(number, 'number').value), (number as SassNumber).unit) },
+                'sqrt': { params: ['number'], call: ({ number }) => sassNumber(Math.sqrt(expectNumber(number, 'number').value)) },
+                'pow': { params: ['base', 'exponent'], call: ({ base, exponent }) => sassNumber(Math.pow(expectNumber(base, 'base').value, expectNumber(exponent, 'exponent').value)) },
+                'min': { params: [], call: (_, rest) => pickNumber(rest, (a, b) => a < b) },
+                'max': { params: [], call: (_, rest) => pickNumber(rest, (a, b) => a > b) },
+                'clamp': { params: ['min', 'number', 'max'], call: ({ min, number, max }) => {
+                    if ([min, number, max].some(value => value?.kind !== 'number')) return null;
+                    const lower = pickNumber([number!, min!], (a, b) => a > b);
+                    return lower && pickNumber([lower, max!], (a, b) => a < b);
+                } },
+                'unit': { params: ['number'], call: ({ number }) => sassString(expectNumber(number, 'number').unit, true) },
+                'is-unitless': { params: ['number'], call: ({ number }) => sassBoolean(!expectNumber(number, 'number').unit) },
+                'compatible': { params: ['number1', 'number2'], call: ({ number1, number2 }) => {
+                    const a = expectNumber(number1, 'number1');
+                    const b = expectNumber(number2, 'number2');
+                    return sassBoolean(!a.unit || !b.unit || conversionFactor(a.unit, b.unit) !== undefined);
+                } },
+            },
+            color: {
+                'rgb': { params: ['red', 'green', 'blue', 'alpha'], call: rgbFunction },
+                'rgba': { params: ['red', 'green', 'blue', 'alpha'], call: rgbFunction },
+                'hsl': { params: ['hue', 'saturation', 'lightness', 'alpha'], call: hslFunction },
+                'hsla': { params: ['hue', 'saturation', 'lightness', 'alpha'], call: hslFunction },
+                'red': { params: ['color'], call: ({ color }) => sassNumber(fuzzyRound(expectColor(color, 'color').r)) },
+                'green': { params: ['color'], call: ({ color }) => sassNumber(fuzzyRound(expectColor(color, 'color').g)) },
+                'blue': { params: ['color'], call: ({ color }) => sassNumber(fuzzyRound(expectColor(color, 'color').b)) },
+                'alpha': { params: ['color'], call: ({ color }) => (isCssValue(color) ? null : sassNumber(expectColor(color, 'color').a)) },
+                'opacity': { params: ['color'], call: ({ color }) => (color?.kind === 'number' ? null : sassNumber(expectColor(color, 'color').a)) },
+                'hue': { params: ['color'], call: ({ color }) => sassNumber(rgbToHsl(expectColor(color, 'color'))[0], 'deg') },
+                'saturation': { params: ['color'], call: ({ color }) => sassNumber(rgbToHsl(expectColor(color, 'color'))[1], '%') },
+                'lightness': { params: ['color'], call: ({ color }) => sassNumber(rgbToHsl(expectColor(color, 'color'))[2], '%') },
+                'mix': { params: ['color1', 'color2', 'weight'], call: ({ color1, color2, weight }) =>
+                    mixColors(expectColor(color1, 'color1'), expectColor(color2, 'color2'), weight ? expectNumber(weight, 'weight').value : 50) },
+                'adjust': { params: ['color'], call: args => adjustColor(args, 'adjust') },
+                'scale': { params: ['color'], call: args => adjustColor(args, 'scale') },
+                'change': { params: ['color'], call: args => adjustColor(args, 'change') },
+                'adjust-color': { params: ['color'], call: args => adjustColor(args, 'adjust') },
+                'scale-color': { params: ['color'], call: args => adjustColor(args, 'scale') },
+                'change-color': { params: ['color'], call: args => adjustColor(args, 'change') },
+                'lighten': { params: ['color', 'amount'], call: ({ color, amount }) =>
+                    withHsl(expectColor(color, 'color'), ([h, s, l]) => [h, s, l + expectNumber(amount, 'amount').value]) },
+                'darken': { params: ['color', 'amount'], call: ({ color, amount }) =>
+                    withHsl(expectColor(color, 'color'), ([h, s, l]) => [h, s, l - expectNumber(amount, 'amount').value]) },
+                'saturate': { params: ['color', 'amount'], call: ({ color, amount }) => (color?.kind === 'number' ? null
+                    : withHsl(expectColor(color, 'color'), ([h, s, l]) => [h, s + expectNumber(amount, 'amount').value, l])) },
+                'desaturate': { params: ['color', 'amount'], call: ({ color, amount }) =>
+                    withHsl(expectColor(color, 'color'), ([h, s, l]) => [h, s - expectNumber(amount, 'amount').value, l]) },
+                'adjust-hue': { params: ['color', 'degrees'], call: ({ color, degrees }) =>
+                    withHsl(expectColor(color, 'color'), ([h, s, l]) => [h + expectNumber(degrees, 'degrees').value, s, l]) },
+                'complement': { params: ['color'], call: ({ color }) => withHsl(expectColor(color, 'color'), ([h, s, l]) => [h + 180, s, l]) },
+                'grayscale': { params: ['color'], call: ({ color }) => (color?.kind === 'number' ? null
+                    : withHsl(expectColor(color, 'color'), ([h, , l]) => [h, 0, l])) },
+                'invert': { params: ['color', 'weight'], call: ({ color, weight }) => {
+                    if (color?.kind === 'number') return null;
+                    const c = expectColor(color, 'color');
+                    const inverted = rgbColor(255 - c.r, 255 - c.g, 255 - c.b, c.a);
+                    return mixColors(inverted, c, weight ? expectNumber(weight, 'weight').value : 100);
+                } },
+                'opacify': { params: ['color', 'amount'], call: ({ color, amount }) => {
+                    const c = expectColor(color, 'color');
+                    return rgbColor(c.r, c.g, c.b, c.a + expectNumber(amount, 'amount').value);
+                } },
+                'transparentize': { params: ['color', 'amount'], call: ({ color, amount }) => {
+                    const c = expectColor(color, 'color');
+                    return rgbColor(c.r, c.g, c.b, c.a - expectNumber(amount, 'amount').value);
+                } },
+            },
+            list: {
+                'length': { params: ['list'], call: ({ list }) => sassNumber(listItems(list ?? SASS_NULL).length) },
+                'nth': { params: ['list', 'n'], call: ({ list, n }) => {
+                    const items = listItems(list ?? SASS_NULL);
+                    return items[listIndex(items, expectNumber(n, 'n'))];
+                } },
+                'set-nth': { params: ['list', 'n', 'value'], call: ({ list, n, value }) => {
+                    const items = [...listItems(list ?? SASS_NULL)];
+                    items[listIndex(items, expectNumber(n, 'n'))] = value ?? SASS_NULL;
+                    return sassList(items, listSeparator(list!), list?.kind === 'list' && list.bracketed);
+                } },
+                'join': { params: ['list1', 'list2', 'separator', 'bracketed'], call: ({ list1, list2, separator, bracketed }) => {
+                    const items1 = listItems(list1 ?? SASS_NULL);
+                    const items2 = listItems(list2 ?? SASS_NULL);
+                    const requested = separator && separator.kind === 'string' && separator.value !== 'auto' ? separator.value as SassList['separator'] : undefined;
+                    const resolved = requested
+                        ?? (list1?.kind === 'list' && items1.length > 1 ? list1.separator : list2?.kind === 'list' && items2.length > 1 ? list2.separator : 'space');
+                    const isBracketed = bracketed && !(bracketed.kind === 'string' && bracketed.value === 'auto') ? isTruthy(bracketed) : list1?.kind === 'list' && list1.bracketed;
+                    return sassList([...items1, ...items2], resolved, isBracketed);
+                } },
+                'append': { params: ['list', 'val', 'separator'], call: ({ list, val, separator }) => {
+                    const requested = separator && separator.kind === 'string' && separator.value !== 'auto' ? separator.value as SassList['separator'] : undefined;
+                    return sassList([...listItems(list ?? SASS_NULL), val ?? SASS_NULL], requested ?? listSeparator(list!), list?.kind === 'list' && list.bracketed);
+                } },
+                'index': { params: ['list', 'value'], call: ({ list, value }) => {
+                    const index = listItems(list ?? SASS_NULL).findIndex(item => sassEquals(item, value ?? SASS_NULL));
+                    return index === -1 ? SASS_NULL : sassNumber(index + 1);
+                } },
+                'separator': { params: ['list'], call: ({ list }) => sassString(list?.kind === 'map' ? 'comma' : listSeparator(list ?? SASS_NULL)) },
+                'is-bracketed': { params: ['list'], call: ({ list }) => sassBoolean(list?.kind === 'list' && list.bracketed) },
+                'zip': { params: [], call: (_, rest) => {
+                    const lists = rest.map(listItems);
+                    const length = lists.length ? Math.min(...lists.map(items => items.length)) : 0;
+                    return sassList(Array.from({ length }, (_, i) => sassList(lists.map(items => items[i]), 'space')), 'comma');
+                } },
+            },
+            map: {
+                'get': { params: ['map', 'key'], call: ({ map, key }, rest) => {
+                    let value: SassValue | undefined = mapGet(expectMap(map, 'map'), key ?? SASS_NULL);
+                    for (const nestedKey of rest) {
+                        if (!value || value.kind !== 'map') return SASS_NULL;
+                        value = mapGet(value, nestedKey);
+                    }
+                    return value ?? SASS_NULL;
+                } },
+                'has-key': { params: ['map', 'key'], call: ({ map, key }, rest) => {
+                    let value: SassValue | undefined = expectMap(map, 'map');
+                    for (const nestedKey of [key ?? SASS_NULL, ...rest]) {
+                        if (!value || value.kind !== 'map') return SASS_FALSE;
+                        value = mapGet(value, nestedKey);
+                    }
+                    return sassBoolean(value !== undefined);
+                } },
+                'merge': { params: ['map1', 'map2'], call: ({ map1, map2 }) => {
+                    const merged = [...expectMap(map1, 'map1').entries];
+                    expectMap(map2, 'map2').entries.forEach(([key, value]) => {
+                        const index = merged.findIndex(([existing]) => sassEquals(existing, key));
+                        if (index === -1) merged.push([key, value]);
+                        else merged[index] = [key, value];
+                    });
+                    return { kind: 'map', entries: merged };
+                } },
+                'remove': { params: ['map'], call: ({ map }, rest) => ({
+                    kind: 'map',
+                    entries: expectMap(map, 'map').entries.filter(([key]) => !rest.some(removed => sassEquals(removed, key))),
+                }) },
+                'keys': { params: ['map'], call: ({ map }) => sassList(expectMap(map, 'map').entries.map(([key]) => key), 'comma') },
+                'values': { params: ['map'], call: ({ map }) => sassList(expectMap(map, 'map').entries.map(([, value]) => value), 'comma') },
+            },
+            string: {
+                'quote': { params: ['string'], call: ({ string }) => sassString(valueToText(string ?? SASS_NULL), true) },
+                'unquote': { params: ['string'], call: ({ string }) => sassString(valueToText(string ?? SASS_NULL)) },
+                'length': { params: ['string'], call: ({ string }) => sassNumber(expectString(string, 'string').value.length) },
+                'index': { params: ['string', 'substring'], call: ({ string, substring }) => {
+                    const index = expectString(string, 'string').value.indexOf(expectString(substring, 'substring').value);
+                    return index === -1 ? SASS_NULL : sassNumber(index + 1);
+                } },
+                'insert': { params: ['string', 'insert', 'index'], call: ({ string, insert, index }) => {
+                    const s = expectString(string, 'string');
+                    const i = expectNumber(index, 'index').value;
+                    const position = i < 0 ? Math.max(0, s.value.length + i + 1) : Math.max(0, i - 1);
+                    return sassString(s.value.slice(0, position) + expectString(insert, 'insert').value + s.value.slice(position), s.quoted);
+                } },
+                'slice': { params: ['string', 'start-at', 'end-at'], call: args => {
+                    const s = expectString(args.string, 'string');
+                    const length = s.value.length;
+                    const normalize = (n: number) => (n < 0 ? length + n + 1 : n);
+                    const start = Math.max(1, normalize(expectNumber(args['start-at'], 'start-at').value));
+                    const end = Math.min(length, normalize(args['end-at'] ? expectNumber(args['end-at'], 'end-at').value : -1));
+                    return sassString(end < start ? '' : s.value.slice(start - 1, end), s.quoted);
+                } },
+                'to-upper-case': { params: ['string'], call: ({ string }) => {
+                    const s = expectString(string, 'string');
+                    return sassString(s.value.toUpperCase(), s.quoted);
+                } },
+                'to-lower-case': { params: ['string'], call: ({ string }) => {
+                    const s = expectString(string, 'string');
+                    return sassString(s.value.toLowerCase(), s.quoted);
+                } },
+                'unique-id': { params: [], call: () => sassString(`u${(++this.uniqueIdCounter).toString(36).padStart(6, '0')}`) },
+            },
+            meta: {
+                'type-of': { params: ['value'], call: ({ value }) => sassString(sassTypeOf(value ?? SASS_NULL)) },
+                'inspect': { params: ['value'], call: ({ value }) => sassString(serializeValue(value ?? SASS_NULL, true)) },
+                'variable-exists': { params: ['name'], call: ({ name }) => {
+                    const variable = normalizeName(expectString(name, 'name').value);
+                    return sassBoolean(!!this.currentScope.lookupVariable(variable)
+                        || this.currentModule.globalModules.some(module => !!this.moduleVariable(module, variable)));
+                } },
+                'global-variable-exists': { params: ['name', 'module'], call: ({ name, module }) => {
+                    const variable = normalizeName(expectString(name, 'name').value);
+                    if (module && module.kind !== 'null') return sassBoolean(!!this.moduleVariable(this.resolveNamespace(expectString(module, 'module').value), variable));
+                    return sassBoolean(this.currentModule.scope.variables.has(variable));
+                } },
+                'function-exists': { params: ['name', 'module'], call: ({ name, module }) => {
+                    const namespace = module && module.kind !== 'null' ? expectString(module, 'module').value : undefined;
+                    return sassBoolean(!!this.resolveFunction(normalizeName(expectString(name, 'name').value), namespace));
+                } },
+                'mixin-exists': { params: ['name', 'module'], call: ({ name, module }) => {
+                    const namespace = module && module.kind !== 'null' ? expectString(module, 'module').value : undefined;
+                    return sassBoolean(!!this.resolveMixin(normalizeName(expectString(name, 'name').value), namespace));
+                } },
+                'content-exists': { params: [], call: () => {
+                    if (this.contentStack.length === 0) throw typeError('content-exists() may only be called within a mixin.');
+                    return sassBoolean(this.contentStack[this.contentStack.length - 1] !== null);
+                } },
+                'feature-exists': { params: ['feature'], call: ({ feature }) =>
+                    sassBoolean(['global-variable-shadowing', 'extend-selector-pseudoclass', 'units-level-3', 'at-error', 'custom-property']
+                        .includes(expectString(feature, 'feature').value)) },
+            },
+        };
+
+        // Legacy global names: `darken()`, `map-get()`, `str-length()`, ...
+        const globalAliases: Record<string, [string, string]> = {
+            'unitless': ['math', 'is-unitless'], 'comparable': ['math', 'compatible'],
+            'fade-in': ['color', 'opacify'], 'fade-out': ['color', 'transparentize'],
+            'list-separator': ['list', 'separator'],
+            'map-get': ['map', 'get'], 'map-merge': ['map', 'merge'], 'map-remove': ['map', 'remove'],
+            'map-keys': ['map', 'keys'], 'map-values': ['map', 'values'], 'map-has-key': ['map', 'has-key'],
+            'str-length': ['string', 'length'], 'str-index': ['string', 'index'], 'str-insert': ['string', 'insert'], 'str-slice': ['string', 'slice'],
+        };
+        const moduleOnly = new Set(['math.div', 'math.sqrt', 'math.pow', 'math.clamp', 'math.is-unitless', 'math.compatible',
+            'color.adjust', 'color.scale', 'color.change', 'list.separator', 'string.length', 'string.index', 'string.insert', 'string.slice',
+            'map.get', 'map.merge', 'map.remove', 'map.keys', 'map.values', 'map.has-key']);
+
+        Object.entries(modules).forEach(([moduleName, functions]) => {
+            const module = this.createModule(`sass:${moduleName}`, new Map());
+            module.builtIns = new Map(Object.entries(functions));
+            this.builtInModules.set(moduleName, module);
+            Object.entries(functions).forEach(([name, fn]) => {
+                if (!moduleOnly.has(`${moduleName}.${name}`)) this.functionRegistry.set(name, fn);
+            });
+        });
+        Object.entries(globalAliases).forEach(([alias, [moduleName, name]]) => {
+            this.functionRegistry.set(alias, modules[moduleName][name]);
+        });
+        this.builtInModules.get('math')!.scope.variables.set('pi', sassNumber(Math.PI));
+        this.builtInModules.get('math')!.scope.variables.set('e', sassNumber(Math.E));
+    }
+}
+
+// --- Number arithmetic -------------------------------------------------------------------------
+
+const splitUnit = (unit: string): { numerators: string[]; denominators: string[] } => {
+    const [numerator = '', denominator = ''] = unit.split('/');
+    return { numerators: numerator ? numerator.split('*') : [], denominators: denominator ? denominator.split('*') : [] };
+};
+
+const joinUnit = (numerators: string[], denominators: string[]): string => {
+    const remaining = [...denominators];
+    const kept = numerators.filter(unit => {
+        const index = remaining.indexOf(unit);
+        if (index === -1) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+    return kept.join('*') + (remaining.length ? `/${remaining.join('*')}` : '');
+};
+
+const multiplyNumbers = (a: SassNumber, b: SassNumber): SassNumber => {
+    const left = splitUnit(a.unit);
+    const right = splitUnit(b.unit);
+    return sassNumber(a.value * b.value, joinUnit([...left.numerators, ...right.numerators], [...left.denominators, ...right.denominators]));
+};
+
+const divideNumbers = (a: SassNumber, b: SassNumber): SassNumber => {
+    if (a.unit && b.unit) {
+        const factor = conversionFactor(b.unit, a.unit);
+        if (factor !== undefined) return sassNumber(a.value / (b.value * factor));
+    }
+    const left = splitUnit(a.unit);
+    const right = splitUnit(b.unit);
+    return sassNumber(a.value / b.value, joinUnit([...left.numerators, ...right.denominators], [...left.denominators, ...right.numerators]));
+};
+
+const addValues = (a: SassValue, b: SassValue): SassValue => {
+    if (a.kind === 'number' && b.kind === 'number') return sassNumber(a.value + coerceNumber(b, a.unit, '+'), a.unit || b.unit);
+    if (a.kind === 'string') return sassString(a.value + valueToText(b), a.quoted);
+    if (b.kind === 'string') return sassString(valueToText(a) + b.value, b.quoted);
+    if (a.kind === 'color' || b.kind === 'color' || a.kind === 'map' || b.kind === 'map') {
+        throw typeError(`Undefined operation "${serializeValue(a, true)} + ${serializeValue(b, true)}".`);
+    }
+    return sassString(`${valueToText(a)}+${valueToText(b)}`);
+};
+
+const subtractValues = (a: SassValue, b: SassValue): SassValue => {
+    if (a.kind === 'number' && b.kind === 'number') return sassNumber(a.value - coerceNumber(b, a.unit, '-'), a.unit || b.unit);
+    if (a.kind === 'color' || b.kind === 'color' || a.kind === 'map' || b.kind === 'map') {
+        throw typeError(`Undefined operation "${serializeValue(a, true)} - ${serializeValue(b, true)}".`);
+    }
+    return sassString(`${valueToText(a)}-${valueToText(b)}`);
+};
+
+// Picks the min/max of compatible numbers, or returns null so CSS `min()`/`max()` is emitted as-is.
+const pickNumber = (values: SassValue[], better: (a: number, b: number) => boolean): SassNumber | null => {
+    if (values.length === 0 || values.some(value => value.kind !== 'number')) return null;
+    const numbers = values as SassNumber[];
+    let best = numbers[0];
+    for (const candidate of numbers.slice(1)) {
+        const factor = best.unit && candidate.unit ? conversionFactor(candidate.unit, best.unit) : 1;
+        if (factor === undefined) return null;
+        if (better(candidate.value * factor, best.value)) best = candidate;
+    }
+    return best;
+};
+
+// --- Selectors ---------------------------------------------------------------------------------
+
+// Splits on `separator` outside parentheses, brackets and strings.
+/** Compares @media query lists as written, ignoring spacing after the commas. */
+const mediaQueryKey = (queries: string[]): string => queries.map(query => query.trim()).join(', ');
+
+const splitTopLevel = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            current += char;
+            if (char === '\\') current += text[++i] ?? '';
+            else if (char === quote) quote = null;
+            continue;
+        }
+        if (char === '"' || char === '\'') quote = char;
+        else if (char === '(' || char === '[') depth++;
+        else if (char === ')' || char === ']') depth--;
+        else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current.trim());
+    return parts.filter(part => part !== '');
+};
+
+// Collapses whitespace and puts single spaces around `>`, `+` and `~` combinators.
+const normalizeSelector = (selector: string): string => {
+    let output = '';
+    let depth = 0;
+    let quote: string | null = null;
+    let pendingSpace = false;
+    for (let i = 0; i < selector.length; i++) {
+        const char = selector[i];
+        if (quote) {
+            output += char;
+            if (char === '\\') output += selector[++i] ?? '';
+            else if (char === quote) quote = null;
+            continue;
+        }
+        if (depth === 0 && /\s/.test(char)) {
+            pendingSpace = output.length > 0;
+            continue;
+        }
+        if (depth === 0 && (char === '>' || char === '+' || char === '~')) {
+            output = output.trimEnd();
+            output += `${output ? ' ' : ''}${char} `;
+            pendingSpace = false;
+            continue;
+        }
+        if (char === '"' || char === '\'') quote = char;
+        else if (char === '(' || char === '[') depth++;
+        else if (char === ')' || char === ']') depth--;
+        if (pendingSpace && !output.endsWith(' ')) output += ' ';
+        pendingSpace = false;
+        output += char;
+    }
+    return output.trim();
+};
+
+const splitSelectorList = (text: string): string[] => splitTopLevel(text, ',').map(normalizeSelector).filter(Boolean);
+
+// Invented Feature: `resolveSelector` (Version 2.8 - Advanced Selector Nesting)
+// Purpose: Combine nested selectors correctly, handling `&`, combinators, and multiple selectors.
+const resolveParentSelectors = (parents: string[], children: string[]): string[] =>
+    parents.flatMap(parent => children.map(child => (child.includes('&') ? child.replace(/&/g, parent) : `${parent} ${child}`)));
+
+interface SelectorComponent { combinator: string; simples: string[]; }
+
+// Splits a compound selector such as `a.btn:hover[disabled]` into its simple selectors.
+const parseCompoundSelector = (compound: string): string[] => {
+    const simples: string[] = [];
+    let i = 0;
+    const readName = () => {
+        const start = i;
+        while (i < compound.length && /[\w\-\\\u0080-￿]/.test(compound[i])) i++;
+        return compound.slice(start, i);
+    };
+    while (i < compound.length) {
+        const start = i;
+        const char = compound[i];
+        if (char === '[' || char === '(') {
+            const close = char === '[' ? ']' : ')';
+            let depth = 0;
+            for (; i < compound.length; i++) {
+                if (compound[i] === char) depth++;
+                if (compound[i] === close && --depth === 0) { i++; break; }
+            }
+        } else if (char === ':') {
+            i += compound[i + 1] === ':' ? 2 : 1;
+            readName();
+            if (compound[i] === '(') {
+                let depth = 0;
+                for (; i < compound.length; i++) {
+                    if (compound[i] === '(') depth++;
+                    if (compound[i] === ')' && --depth === 0) { i++; break; }
+                }
+            }
+        } else if (char === '.' || char === '#' || char === '%') {
+            i++;
+            readName();
+        } else if (char === '*') {
+            i++;
+        } else {
+            readName();
+            if (i === start) i++;
+        }
+        simples.push(compound.slice(start, i));
+    }
+    return simples;
+};
+
+const parseComplexSelector = (selector: string): SelectorComponent[] => {
+    const components: SelectorComponent[] = [];
+    let combinator = '';
+    splitTopLevel(selector, ' ').forEach(part => {
+        if (part === '>' || part === '+' || part === '~') {
+            combinator = part;
+            return;
+        }
+        components.push({ combinator: combinator || (components.length ? ' ' : ''), simples: parseCompoundSelector(part) });
+        combinator = '';
+    });
+    return components;
+};
+
+const stringifyComplexSelector = (components: SelectorComponent[]): string =>
+    components.map((component, index) => {
+        const compound = component.simples.join('');
+        if (index === 0) return component.combinator ? `${component.combinator} ${compound}` : compound;
+        return component.combinator === ' ' ? ` ${compound}` : ` ${component.combinator} ${compound}`;
+    }).join('');
+
+const isTypeSelector = (simple: string): boolean => /^([a-zA-Z\\]|\*)/.test(simple);
+const isPseudoElement = (simple: string): boolean => simple.startsWith('::') || /^:(before|after|first-line|first-letter)$/i.test(simple);
+
+// Unifies the extender's compound with what is left of the extended compound, or null if they conflict.
+const unifyCompounds = (extender: string[], remaining: string[]): string[] | null => {
+    const extenderType = extender.find(isTypeSelector);
+    const remainingType = remaining.find(isTypeSelector);
+    if (extenderType && remainingType && extenderType !== remainingType && extenderType !== '*' && remainingType !== '*') return null;
+    const type = [extenderType, remainingType].find(candidate => candidate && candidate !== '*') ?? extenderType ?? remainingType;
+    const others = Array.from(new Set([...extender, ...remaining].filter(simple => !isTypeSelector(simple))));
+    return [
+        ...(type ? [type] : []),
+        ...others.filter(simple => !isPseudoElement(simple)),
+        ...others.filter(isPseudoElement),
+    ];
+};
+
+// Invented Feature: `@extend` Weaving (Version 11.0 - Selector Inheritance)
+// Purpose: For every compound in `selector` that contains the extension target, produce a copy of
+// the selector with the target replaced by each extender (`.btn:hover` + `.cta { @extend .btn }`
+// yields `.cta:hover`).
+const extendSelector = (selector: string, extension: Extension): string[] => {
+    const components = parseComplexSelector(selector);
+    const target = parseCompoundSelector(extension.target);
+    const results: string[] = [];
+    components.forEach((component, index) => {
+        if (!target.every(simple => component.simples.includes(simple))) return;
+        const remaining = component.simples.filter(simple => !target.includes(simple));
+        extension.extenders.forEach(extender => {
+            const extenderComponents = parseComplexSelector(extender);
+            const last = extenderComponents[extenderComponents.length - 1];
+            const unified = unifyCompounds(last.simples, remaining);
+            if (!unified) return;
+            const prefix = extenderComponents.slice(0, -1).map((part, i) => (i === 0 ? { ...part, combinator: component.combinator || part.combinator } : part));
+            results.push(stringifyComplexSelector([
+                ...components.slice(0, index),
+                ...prefix,
+                { combinator: prefix.length ? last.combinator : component.combinator, simples: unified },
+                ...components.slice(index + 1),
+            ]));
+        });
+    });
+    return results;
+};
+
+const removePlaceholderSelectors = (nodes: CssNode[]): CssNode[] => nodes.flatMap((node): CssNode[] => {
+    if (node.type === 'ProcessedRule') {
+        const selectors = node.selectors.filter(selector =>
+            !parseComplexSelector(selector).some(component => component.simples.some(simple => simple.startsWith('%'))));
+        return selectors.length ? [{ ...node, selectors }] : [];
+    }
+    if (node.type === 'ProcessedAtRule' && node.children) {
+        return [{ ...node, children: removePlaceholderSelectors(node.children) }];
+    }
+    return [node];
+});
+
+// Invented Feature: `CodeGeneratorOptions` (Version 11.0 - Output Formatting)
+// Purpose: Output style for `CodeGenerator`. `file` is recorded in the source map.
+export interface CodeGeneratorOptions {
+    minify: boolean;
+    sourceMap: boolean;
+    file?: string;
+}
+
+// Source Map Revision 3 (https://sourcemaps.info/spec.html).
+export interface SourceMapV3 {
+    version: 3;
+    file: string;
+    sources: string[];
+    sourcesContent: (string | null)[];
+    names: string[];
+    mappings: string;
+}
+
+export interface GeneratedCss {
+    css: string;
+    sourceMap?: SourceMapV3;
+}
+
+interface SourceMapping { generatedLine: number; generatedColumn: number; source: CssSourceSpan; }
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const encodeVlq = (value: number): string => {
+    let vlq = value < 0 ? (-value << 1) + 1 : value << 1;
+    let encoded = '';
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) digit |= 32;
+        encoded += BASE64_DIGITS[digit];
+    } while (vlq > 0);
+    return encoded;
+};
+
+const decodeVlqSegment = (segment: string): number[] => {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of segment) {
+        const digit = BASE64_DIGITS.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+            continue;
+        }
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+    }
+    return values;
+};
+
+// Invented Feature: `CodeGenerator` Class (Version 2.5 - CSS Output Generation)
+// Purpose: Convert the processed AST into a final CSS string, handling formatting, minification, and source map generation.
+export class CodeGenerator {
+    private indentLevel: number;
+    private options: CodeGeneratorOptions;
+    private output: string;
+    private line: number;
+    private column: number;
+    private mappings: SourceMapping[];
+
+    constructor(options: CodeGeneratorOptions) {
+        this.options = options;
+        this.indentLevel = 0;
+        this.output = '';
+        this.line = 0;
+        this.column = 0;
+        this.mappings = [];
+    }
+
+    private indent(): string {
+        return this.options.minify ? '' : '  '.repeat(this.indentLevel);
+    }
+
+    private newLine(): string {
+        return this.options.minify ? '' : '\n';
+    }
+
+    // Appends text while tracking the zero-based output position for source mappings.
+    private write(text: string): void {
+        this.output += text;
+        const lastBreak = text.lastIndexOf('\n');
+        if (lastBreak === -1) {
+            this.column += text.length;
+        } else {
+            this.line += text.split('\n').length - 1;
+            this.column = text.length - lastBreak - 1;
+        }
+    }
+
+    private mark(source?: CssSourceSpan): void {
+        if (this.options.sourceMap && source) {
+            this.mappings.push({ generatedLine: this.line, generatedColumn: this.column, source });
+        }
+    }
+
+    // Invented Feature: `generate` (Version 11.0 - CSS With Source Maps)
+    // Purpose: Print the evaluated CSS tree and, when enabled, a v3 source map whose mappings point
+    // every rule and declaration at the stylesheet (entry file or module) it came from.
+    public generate(nodes: CssNode[], sourceContents: Map<string, string> = new Map()): GeneratedCss {
+        this.indentLevel = 0;
+        this.output = '';
+        this.line = 0;
+        this.column = 0;
+        this.mappings = [];
+        this.writeNodes(nodes, true);
+        return {
+            css: this.output.replace(/\s+$/, this.options.minify ? '' : '\n'),
+            sourceMap: this.options.sourceMap ? this.buildSourceMap(sourceContents) : undefined,
+        };
+    }
+
+    public generateCss(nodes: CssNode[]): string {
+        return this.generate(nodes).css;
+    }
+
+    private isVisible(node: CssNode): boolean {
+        switch (node.type) {
+            case 'ProcessedRule':
+                return node.children.length > 0;
+            case 'ProcessedAtRule':
+                return !node.children || node.children.some(child => this.isVisible(child));
+            case 'ProcessedComment':
+                // Minified output keeps only `/*! ... */` (licence) comments.
+                return !this.options.minify || node.value.startsWith('/*!');
+            default:
+                return true;
+        }
+    }
+
+    private writeNodes(nodes: CssNode[], topLevel: boolean): void {
+        nodes.filter(node => this.isVisible(node)).forEach((node, index) => {
+            if (topLevel && index > 0 && !this.options.minify) this.write('\n');
+            this.writeNode(node);
+        });
+    }
+
+    private writeNode(node: CssNode): void {
+        const space = this.options.minify ? '' : ' ';
+        switch (node.type) {
+            case 'ProcessedComment':
+                if (!this.isVisible(node)) return;
+                this.write(`${this.indent()}${node.value}${this.newLine()}`);
+                return;
+            case 'ProcessedDeclaration':
+                this.write(this.indent());
+                this.mark(node.source);
+                this.write(`${node.property}:${space}${node.value};${this.newLine()}`);
+                return;
+            case 'ProcessedRule':
+                this.write(this.indent());
+                this.mark(node.source);
+                this.write(`${node.selectors.join(this.options.minify ? ',' : `,\n${this.indent()}`)}${space}{${this.newLine()}`);
+                this.indentLevel++;
+                node.children.forEach(child => this.writeNode(child));
+                this.indentLevel--;
+                this.write(`${this.indent()}}${this.newLine()}`);
+                return;
+            case 'ProcessedAtRule': {
+                const prelude = `@${node.name}${node.params ? ` ${node.params}` : ''}`;
+                this.write(this.indent());
+                this.mark(node.source);
+                if (!node.children) {
+                    this.write(`${prelude};${this.newLine()}`);
+                    return;
+                }
+                this.write(`${prelude}${space}{${this.newLine()}`);
+                this.indentLevel++;
+                this.writeNodes(node.children, false);
+                this.indentLevel--;
+                this.write(`${this.indent()}}${this.newLine()}`);
+                return;
+            }
+        }
+    }
+
+    private buildSourceMap(sourceContents: Map<string, string>): SourceMapV3 {
+        const sources: string[] = [];
+        const sourceIndexes = new Map<string, number>();
+        let mappings = '';
+        let currentLine = 0;
+        let firstOnLine = true;
+        let previousColumn = 0;
+        let previousSource = 0;
+        let previousOriginalLine = 0;
+        let previousOriginalColumn = 0;
+
+        this.mappings.forEach(mapping => {
+            while (currentLine < mapping.generatedLine) {
+                mappings += ';';
+                currentLine++;
+                firstOnLine = true;
+                previousColumn = 0;
+            }
+            if (!firstOnLine) mappings += ',';
+            firstOnLine = false;
+
+            let sourceIndex = sourceIndexes.get(mapping.source.url);
+            if (sourceIndex === undefined) {
+                sourceIndex = sources.length;
+                sources.push(mapping.source.url);
+                sourceIndexes.set(mapping.source.url, sourceIndex);
+            }
+            const originalLine = mapping.source.line - 1;
+            const originalColumn = mapping.source.column - 1;
+            mappings += encodeVlq(mapping.generatedColumn - previousColumn)
+                + encodeVlq(sourceIndex - previousSource)
+                + encodeVlq(originalLine - previousOriginalLine)
+                + encodeVlq(originalColumn - previousOriginalColumn);
+            previousColumn = mapping.generatedColumn;
+            previousSource = sourceIndex;
+            previousOriginalLine = originalLine;
+            previousOriginalColumn = originalColumn;
+        });
+
+        return {
+            version: 3,
+            file: this.options.file || 'output.css',
+            sources,
+            sourcesContent: sources.map(source => sourceContents.get(source) ?? null),
+            names: [],
+            mappings,
+        };
+    }
+}
+
+// Invented Feature: `originalPositionFor` (Version 11.0 - Source Map Lookup)
+// Purpose: Map a 1-based line/column in the generated CSS back to the SCSS source. Positions on a
+// line without mappings (e.g. a closing brace) resolve to the nearest mapping above them.
+export const originalPositionFor = (sourceMap: SourceMapV3 | string, line: number, column: number): CssSourceSpan | null => {
+    const map: SourceMapV3 = typeof sourceMap === 'string' ? JSON.parse(sourceMap) : sourceMap;
+    let sourceIndex = 0;
+    let originalLine = 0;
+    let originalColumn = 0;
+    let best: CssSourceSpan | null = null;
+
+    const lines = map.mappings.split(';');
+    for (let lineIndex = 0; lineIndex < lines.length && lineIndex < line; lineIndex++) {
+        const isTargetLine = lineIndex === line - 1;
+        let generatedColumn = 0;
+        let matchedOnLine = false;
+        for (const segment of lines[lineIndex].split(',')) {
+            if (!segment) continue;
+            const [columnDelta, sourceDelta = 0, lineDelta = 0, originalColumnDelta = 0] = decodeVlqSegment(segment);
+            generatedColumn += columnDelta;
+            sourceIndex += sourceDelta;
+            originalLine += lineDelta;
+            originalColumn += originalColumnDelta;
+            if (isTargetLine && matchedOnLine && generatedColumn > column - 1) return best;
+            best = { url: map.sources[sourceIndex], line: originalLine + 1, column: originalColumn + 1 };
+            matchedOnLine = isTargetLine;
+        }
+    }
+    return best;
+};
+
+// --- Public API --------------------------------------------------------------------------------
+
+export interface ScssCompileOptions {
+    minify?: boolean;
+    sourceMap?: boolean;
+    importPaths?: string[]; // Extra directories searched for `@use`/`@forward`/`@import` URLs
+    globalDefines?: Record<string, string>; // `$name: value` pairs injected before the entry file runs
+}
+
+export interface ScssCompileTimings {
+    lexerTimeMs: number;
+    parserTimeMs: number;
+    astProcessorTimeMs: number;
+    codeGenTimeMs: number;
+}
+
+export interface ScssCompileResult {
+    css: string; // Empty when compilation failed
+    sourceMap?: SourceMapV3;
+    errors: CompilerError[];
+    warnings: string[];
+    loadedFiles: string[]; // Entry file first, then every module it loaded
+    timings: ScssCompileTimings;
+}
+
+const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const normalizePath = (path: string): string => {
+    const segments: string[] = [];
+    path.split('/').forEach(segment => {
+        if (segment === '..') segments.pop();
+        else if (segment && segment !== '.') segments.push(segment);
+    });
+    return segments.join('/');
+};
+
+const moduleCandidates = (path: string): string[] => {
+    const slash = path.lastIndexOf('/');
+    const directory = slash === -1 ? '' : `${path.slice(0, slash)}/`;
+    const name = path.slice(slash + 1);
+    if (/\.(scss|sass|css)$/.test(name)) {
+        return [path, `${directory}_${name}`];
+    }
+    return [
+        `${directory}_${name}.scss`, `${path}.scss`, `${directory}_${name}.sass`, `${path}.sass`, `${path}.css`,
+        `${path}/_index.scss`, `${path}/index.scss`,
+    ];
+};
+
+/**
+ * Resolves a `@use`/`@forward`/`@import` URL the way Dart Sass does: relative to the importing file
+ * first, then each import path, trying partials (`_name.scss`) and `_index.scss`.
+ * Returns the matching path, or undefined.
+ */
+export const resolveModulePath = (exists: (path: string) => boolean, url: string, fromPath: string, importPaths: string[] = []): string | undefined => {
+    const fromDirectory = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : '';
+    for (const base of [fromDirectory, ...importPaths, '']) {
+        const path = normalizePath(base ? `${base}/${url}` : url);
+        const match = moduleCandidates(path).find(exists);
+        if (match) return match;
+    }
+    return undefined;
+};
+
+/**
+ * Compiles `entry` from an in-memory set of stylesheets (path -> contents).
+ * Never throws: syntax and evaluation failures are returned as `CompilerError`s with line, column
+ * and, for errors raised inside a module, the module's path in `file`.
+ */
+export const compile = (files: Record<string, string> | Map<string, string>, entry: string, options: ScssCompileOptions = {}): ScssCompileResult => {
+    const sources = files instanceof Map ? files : new Map(Object.entries(files));
+    const timings: ScssCompileTimings = { lexerTimeMs: 0, parserTimeMs: 0, astProcessorTimeMs: 0, codeGenTimeMs: 0 };
+    const source = sources.get(entry);
+    if (source === undefined) {
+        const error = new CompilerError(`Entry stylesheet not found: ${entry}`, CompilerErrorCode.IMPORT_RESOLUTION_FAILED);
+        return { css: '', errors: [error], warnings: [], loadedFiles: [], timings };
+    }
+
+    const processor = new ASTProcessor({
+        url: entry,
+        importer: (url, fromUrl) => {
+            const path = resolveModulePath(candidate => sources.has(candidate), url, fromUrl, options.importPaths);
+            return path === undefined ? undefined : { url: path, contents: sources.get(path)! };
+        },
+        globalDefines: options.globalDefines,
+    });
+
+    try {
+        let start = now();
+        const tokens = new Lexer(source).tokenize();
+        timings.lexerTimeMs = now() - start;
+
+        start = now();
+        const ast = new Parser(tokens).parse();
+        timings.parserTimeMs = now() - start;
+
+        start = now();
+        const nodes = processor.processAST(ast);
+        timings.astProcessorTimeMs = now() - start;
+
+        start = now();
+        const generator = new CodeGenerator({ minify: !!options.minify, sourceMap: !!options.sourceMap, file: entry.replace(/\.s[ac]ss$/, '.css') });
+        const generated = generator.generate(nodes, new Map([[entry, source], ...processor.getLoadedSources()]));
+        timings.codeGenTimeMs = now() - start;
+
+        return {
+            css: generated.css,
+            sourceMap: generated.sourceMap,
+            errors: [],
+            warnings: processor.getWarnings(),
+            loadedFiles: [entry, ...processor.getLoadedSources().keys()],
+            timings,
+        };
+    } catch (error) {
+        const compilerError = error instanceof CompilerError
+            ? error
+            : new CompilerError((error as Error)?.message || 'An unexpected error occurred during compilation.', CompilerErrorCode.UNKNOWN_ERROR);
+        return { css: '', errors: [compilerError], warnings: processor.getWarnings(), loadedFiles: [entry, ...processor.getLoadedSources().keys()], timings };
+    }
+};
@@ -0,0 +1,410 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { compile, CompilerErrorCode } from './scssCompiler.ts';
+import type { ScssCompileOptions } from './scssCompiler.ts';
+
+// Fixture-driven conformance suite for the SCSS compiler. Expected output is what Dart Sass
+// (expanded style) produces for the same input, so a failure means the compilers disagree.
+
+type ScssConformanceCategory =
+    | 'nesting' | 'parent-selector' | 'mixins' | 'math' | 'color' | 'modules' | 'extend' | 'control-flow' | 'errors';
+
+interface ScssConformanceFixture {
+    name: string;
+    category: ScssConformanceCategory;
+    files: Record<string, string>;
+    entry?: string; // Defaults to 'main.scss'
+    options?: ScssCompileOptions;
+    expectedCss?: string;
+    expectedError?: { code: CompilerErrorCode; line: number; file?: string };
+}
+
+const scss = (source: string): Record<string, string> => ({ 'main.scss': source });
+
+const SCSS_CONFORMANCE_FIXTURES: ScssConformanceFixture[] = [
+    {
+        name: 'nested rules are flattened in source order',
+        category: 'nesting',
+        files: scss(`.card {
+  padding: 4px;
+  .title { font-weight: bold; }
+  margin: 0;
+}`),
+        expectedCss: `.card {
+  padding: 4px;
+  margin: 0;
+}
+
+.card .title {
+  font-weight: bold;
+}`,
+    },
+    {
+        name: 'selector lists multiply and combinators are normalized',
+        category: 'nesting',
+        files: scss(`.a, .b {
+  >.c{ x: 1; }
+  + .d, ~ .e { y: 2; }
+}`),
+        expectedCss: `.a > .c,
+.b > .c {
+  x: 1;
+}
+
+.a + .d,
+.a ~ .e,
+.b + .d,
+.b ~ .e {
+  y: 2;
+}`,
+    },
+    {
+        name: 'nested properties',
+        category: 'nesting',
+        files: scss(`.x { font: { family: serif; size: 12px; } }`),
+        expectedCss: `.x {
+  font-family: serif;
+  font-size: 12px;
+}`,
+    },
+    {
+        name: '@media bubbles out of rules and merges with an enclosing query',
+        category: 'nesting',
+        files: scss(`.nav {
+  display: block;
+  @media screen {
+    @media (min-width: 600px) { display: flex; }
+  }
+}`),
+        expectedCss: `.nav {
+  display: block;
+}
+
+@media screen and (min-width: 600px) {
+  .nav {
+    display: flex;
+  }
+}`,
+    },
+    {
+        name: 'parent selector suffixes and pseudo-classes',
+        category: 'parent-selector',
+        files: scss(`.btn {
+  &:hover { color: red; }
+  &--primary { color: blue; }
+  &.is-active { color: green; }
+}`),
+        expectedCss: `.btn:hover {
+  color: red;
+}
+
+.btn--primary {
+  color: blue;
+}
+
+.btn.is-active {
+  color: green;
+}`,
+    },
+    {
+        name: 'parent selector in a non-leading position',
+        category: 'parent-selector',
+        files: scss(`.icon {
+  .theme-dark & { fill: white; }
+  & + & { margin-left: 4px; }
+}`),
+        expectedCss: `.theme-dark .icon {
+  fill: white;
+}
+
+.icon + .icon {
+  margin-left: 4px;
+}`,
+    },
+    {
+        name: 'mixin arguments fall back to their defaults',
+        category: 'mixins',
+        files: scss(`@mixin box($size: 10px, $color: black) {
+  width: $size;
+  border: 1px solid $color;
+}
+.a { @include box; }
+.b { @include box(20px); }
+.c { @include box($color: red); }`),
+        expectedCss: `.a {
+  width: 10px;
+  border: 1px solid black;
+}
+
+.b {
+  width: 20px;
+  border: 1px solid black;
+}
+
+.c {
+  width: 10px;
+  border: 1px solid red;
+}`,
+    },
+    {
+        name: 'defaults may refer to earlier parameters, and @content is passed through',
+        category: 'mixins',
+        files: scss(`@mixin respond($min, $max: $min * 2) {
+  @media (min-width: $min) and (max-width: $max) { @content; }
+}
+.grid { @include respond(300px) { gap: 8px; } }`),
+        expectedCss: `@media (min-width: 300px) and (max-width: 600px) {
+  .grid {
+    gap: 8px;
+  }
+}`,
+    },
+    {
+        name: 'arithmetic with units',
+        category: 'math',
+        files: scss(`$base: 8px;
+.m {
+  a: $base * 2;
+  b: $base + 2;
+  c: 1in + 6pt;
+  d: (10px / 4);
+  e: 10 % 3;
+  f: -$base;
+}`),
+        expectedCss: `.m {
+  a: 16px;
+  b: 10px;
+  c: 1.0833333333in;
+  d: 2.5px;
+  e: 1;
+  f: -8px;
+}`,
+    },
+    {
+        name: 'slash stays a separator between literal numbers',
+        category: 'math',
+        files: scss(`.t { font: 12px/1.5 serif; grid-area: 1 / 2 / 3; }`),
+        expectedCss: `.t {
+  font: 12px/1.5 serif;
+  grid-area: 1/2/3;
+}`,
+    },
+    {
+        name: 'sass:math functions',
+        category: 'math',
+        files: scss(`@use "sass:math";
+.m {
+  a: math.div(100%, 3);
+  b: math.round(2.5px);
+  c: math.percentage(0.25);
+  d: math.max(1px, 4px, 2px);
+  e: math.abs(-3em);
+}`),
+        expectedCss: `.m {
+  a: 33.3333333333%;
+  b: 3px;
+  c: 25%;
+  d: 4px;
+  e: 3em;
+}`,
+    },
+    {
+        name: 'CSS min()/calc() with incompatible units pass through',
+        category: 'math',
+        files: scss(`$gutter: 16px;
+.w { width: min(100%, 600px); height: calc(100vh - #{$gutter}); }`),
+        expectedCss: `.w {
+  width: min(100%, 600px);
+  height: calc(100vh - 16px);
+}`,
+    },
+    {
+        name: 'lighten, darken and mix',
+        category: 'color',
+        files: scss(`$brand: #0047AB;
+.c {
+  a: lighten($brand, 10%);
+  b: darken($brand, 10%);
+  c: mix(#fff, #000);
+  d: mix(red, blue, 25%);
+}`),
+        expectedCss: `.c {
+  a: #005cde;
+  b: #003278;
+  c: #808080;
+  d: #4000bf;
+}`,
+    },
+    {
+        name: 'alpha channels and rgba()',
+        category: 'color',
+        files: scss(`.c {
+  a: rgba(#000, 0.5);
+  b: transparentize(red, 0.25);
+  c: rgb(255, 128, 0);
+  d: rgba(var(--r), 0, 0, 1);
+}`),
+        expectedCss: `.c {
+  a: rgba(0, 0, 0, 0.5);
+  b: rgba(255, 0, 0, 0.75);
+  c: #ff8000;
+  d: rgba(var(--r), 0, 0, 1);
+}`,
+    },
+    {
+        name: 'color channels and color.adjust/scale',
+        category: 'color',
+        files: scss(`@use "sass:color";
+.c {
+  a: red(#336699);
+  b: color.adjust(#336699, $lightness: 20%);
+  c: color.scale(#336699, $lightness: 50%);
+  d: complement(#336699);
+}`),
+        expectedCss: `.c {
+  a: 51;
+  b: #6699cc;
+  c: #8cb3d9;
+  d: #996633;
+}`,
+    },
+    {
+        name: '@use with configuration and a namespace',
+        category: 'modules',
+        files: {
+            'main.scss': `@use "theme" with ($accent: orange);
+.a { color: theme.$accent; padding: theme.space(2); }`,
+            '_theme.scss': `$accent: blue !default;
+@function space($n) { @return $n * 4px; }`,
+        },
+        expectedCss: `.a {
+  color: orange;
+  padding: 8px;
+}`,
+    },
+    {
+        name: '@forward with a prefix through an _index partial',
+        category: 'modules',
+        files: {
+            'main.scss': `@use "tokens";
+.a { margin: tokens.$size-sm; }`,
+            'tokens/_index.scss': `@forward "sizes" as size-*;`,
+            'tokens/_sizes.scss': `$sm: 2px;`,
+        },
+        expectedCss: `.a {
+  margin: 2px;
+}`,
+    },
+    {
+        name: '@extend with a placeholder selector',
+        category: 'extend',
+        files: scss(`%pill { border-radius: 999px; }
+.tag { @extend %pill; color: gray; }
+.chip:hover { @extend %pill; }`),
+        expectedCss: `.tag,
+.chip:hover {
+  border-radius: 999px;
+}
+
+.tag {
+  color: gray;
+}`,
+    },
+    {
+        name: '@extend inside @media extends rules in the same query',
+        category: 'extend',
+        files: scss(`@media print {
+  .a { x: 1; }
+  .b { @extend .a; }
+}`),
+        expectedCss: `@media print {
+  .a,
+  .b {
+    x: 1;
+  }
+}`,
+    },
+    {
+        name: '@each over a map, @for and @if/@else',
+        category: 'control-flow',
+        files: scss(`$sizes: (sm: 4px, lg: 16px);
+@each $name, $value in $sizes { .p-#{$name} { padding: $value; } }
+@for $i from 1 to 3 { .z-#{$i} { z-index: $i * 10; } }
+@function tone($n) { @if $n > 1 { @return dark; } @else { @return light; } }
+.t { a: tone(2); b: tone(0); }`),
+        expectedCss: `.p-sm {
+  padding: 4px;
+}
+
+.p-lg {
+  padding: 16px;
+}
+
+.z-1 {
+  z-index: 10;
+}
+
+.z-2 {
+  z-index: 20;
+}
+
+.t {
+  a: dark;
+  b: light;
+}`,
+    },
+    {
+        name: 'undefined variables report their line',
+        category: 'errors',
+        files: scss(`.a {
+  color: red;
+  width: $missing;
+}`),
+        expectedError: { code: CompilerErrorCode.VARIABLE_NOT_DEFINED, line: 3 },
+    },
+    {
+        name: '@extend may not reach a rule outside its @media',
+        category: 'errors',
+        files: scss(`.a { x: 1; }
+@media print {
+  .b { @extend .a; }
+}`),
+        expectedError: { code: CompilerErrorCode.EXTEND_ACROSS_MEDIA, line: 3 },
+    },
+    {
+        name: 'errors inside a module report the module file',
+        category: 'errors',
+        files: {
+            'main.scss': `@use "broken";`,
+            '_broken.scss': `.b {
+  width: 1px + 2s;
+}`,
+        },
+        expectedError: { code: CompilerErrorCode.INVALID_ARITHMETIC_OPERATION, line: 2, file: '_broken.scss' },
+    },
+];
+
+const categories = [...new Set(SCSS_CONFORMANCE_FIXTURES.map(fixture => fixture.category))];
+
+describe.each(categories)('SCSS conformance: %s', category => {
+    const fixtures = SCSS_CONFORMANCE_FIXTURES.filter(fixture => fixture.category === category);
+
+    it.each(fixtures.map(fixture => [fixture.name, fixture] as const))('%s', (_name, fixture) => {
+        const result = compile(fixture.files, fixture.entry || 'main.scss', fixture.options);
+
+        if (fixture.expectedError) {
+            const { code, line, file } = fixture.expectedError;
+            expect(result.errors[0]).toMatchObject({ code, line, ...(file ? { file } : {}) });
+            return;
+        }
+        expect(result.errors).toEqual([]);
+        expect(result.css.trim()).toBe((fixture.expectedCss || '').trim());
+    });
+});
@@ -0,0 +1,111 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Messaging between DevCore tabs of the same origin, plus a leader tab for background jobs that must
+// run once per browser rather than once per tab (telemetry flushing, snapshot persistence).
+// Messages go over a BroadcastChannel. The leader is whichever tab holds a Web Lock; the browser
+// hands the lock to a waiting tab when the leader closes or crashes, so there is no heartbeat to tune.
+const CHANNEL_NAME = 'devcore-tab-sync';
+const LEADER_LOCK_NAME = 'devcore-leader';
+
+interface TabMessage {
+    type: string;
+    payload: any;
+    sourceTabId: string;
+}
+
+export const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+type MessageListener = (payload: any, sourceTabId: string) => void;
+const messageListeners = new Map<string, Set<MessageListener>>();
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = (): BroadcastChannel | null => {
+    if (channel === undefined) {
+        channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+        channel?.addEventListener('message', (event: MessageEvent<TabMessage>) => {
+            const message = event.data;
+            if (!message || typeof message.type !== 'string' || message.sourceTabId === TAB_ID) return;
+            messageListeners.get(message.type)?.forEach(listener => {
+                try {
+                    listener(message.payload, message.sourceTabId);
+                } catch (error) {
+                    console.error(`Tab sync listener for "${message.type}" failed:`, error);
+                }
+            });
+        });
+    }
+    return channel;
+};
+
+/**
+ * Sends a message to every other open tab. The payload must be structured-cloneable.
+ * Does nothing in browsers without BroadcastChannel.
+ */
+export const publishToTabs = (type: string, payload: any): void => {
+    const message: TabMessage = { type, payload, sourceTabId: TAB_ID };
+    try {
+        getChannel()?.postMessage(message);
+    } catch (error) {
+        console.error(`Failed to publish "${type}" to other tabs:`, error);
+    }
+};
+
+/**
+ * Registers a callback for messages of `type` sent by other tabs.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToTabs = <T = any>(type: string, listener: (payload: T, sourceTabId: string) => void): (() => void) => {
+    getChannel();
+    const listeners = messageListeners.get(type) ?? new Set<MessageListener>();
+    listeners.add(listener);
+    messageListeners.set(type, listeners);
+    return () => { listeners.delete(listener); };
+};
+
+type LeadershipListener = (isLeader: boolean) => void;
+const leadershipListeners = new Set<LeadershipListener>();
+
+// Without Web Locks there is no safe way to pick one tab, so every tab keeps running its own jobs.
+const canElect = typeof navigator !== 'undefined' && !!navigator.locks;
+let isLeader = !canElect;
+let electionStarted = false;
+
+const setLeader = (value: boolean) => {
+    if (isLeader === value) return;
+    isLeader = value;
+    leadershipListeners.forEach(listener => listener(value));
+};
+
+const startElection = () => {
+    if (electionStarted || !canElect) return;
+    electionStarted = true;
+    // The lock callback never resolves, so the lock is held until this tab goes away.
+    navigator.locks.request(LEADER_LOCK_NAME, () => new Promise<void>(() => setLeader(true)))
+        .catch(error => {
+            console.warn('Tab leader election failed; this tab will run background jobs itself.', error);
+            setLeader(true);
+        });
+};
+
+/** Whether this tab should run once-per-browser background jobs. Joins the election on first call. */
+export const isLeaderTab = (): boolean => {
+    startElection();
+    return isLeader;
+};
+
+/**
+ * Registers a callback fired when this tab becomes the leader. Joins the election on first call.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToLeadership = (listener: LeadershipListener): (() => void) => {
+    leadershipListeners.add(listener);
+    startElection();
+    return () => { leadershipListeners.delete(listener); };
+};
@@ -27,6 +27,8 @@
 // All new top-level functions, classes, and variables are exported to ensure
 // modularity and testability within the broader application architecture.
 
+import { isLeaderTab, publishToTabs, subscribeToTabs, subscribeToLeadership } from './tabSyncService.ts';
+
 /**
  * @typedef {Object} TelemetryPayload
  * @property {string} [eventId] - Unique identifier for the event instance.
@@ -1175,9 +1177,15 @@ export class QuantumSecurityGatewaySink extends TelemetryDataSink {
 }
 
 
+/**
+ * Message type used by follower tabs to hand their batches to the leader tab.
+ */
+export const TELEMETRY_BATCH_TAB_MESSAGE = 'telemetry:batch';
+
 /**
  * TelemetryQueue: Manages event buffering, batching, and offline storage.
  * This ensures efficient and resilient data transmission, even in intermittent network conditions.
+ * With several tabs open only the leader tab sends to the sinks; the others forward their batches to it.
  */
 export class TelemetryQueue {
   private queue: TelemetryEvent[] = [];
@@ -1186,13 +1194,25 @@ export class TelemetryQueue {
   private isFlushing = false;
   private config: TelemetryConfiguration;
   private sinks: TelemetryDataSink[] = [];
+  private tabSyncCleanups: (() => void)[] = [];
 
   constructor(config: TelemetryConfiguration, sinks: TelemetryDataSink[]) {
     this.config = config;
     this.sinks = sinks;
-    this.loadOfflineQueue();
+    // The offline queue is shared by all tabs, so only the leader loads it (now, or once elected).
+    if (isLeaderTab()) this.loadOfflineQueue();
     this.startFlushTimer();
 
+    // Batches forwarded by follower tabs are sent along with this tab's own events once it leads.
+    this.tabSyncCleanups = [
+      subscribeToTabs<TelemetryEvent[]>(TELEMETRY_BATCH_TAB_MESSAGE, events => {
+        if (isLeaderTab() && Array.isArray(events)) this.queue.push(...events);
+      }),
+      subscribeToLeadership(isLeader => {
+        if (isLeader) this.loadOfflineQueue();
+      }),
+    ];
+
     // Listen for online/offline events to manage queue behavior
     if (typeof window !== 'undefined') {
       window.addEventListener('online', this.handleOnlineStatusChange);
@@ -1230,6 +1250,12 @@ export class TelemetryQueue {
       return;
     }
 
+    if (!isLeaderTab()) {
+      publishToTabs(TELEMETRY_BATCH_TAB_MESSAGE, this.queue);
+      this.queue = [];
+      return;
+    }
+
     this.isFlushing = true;
     const eventsToFlush = [...this.queue];
     this.queue = []; // Clear the in-memory queue immediately
@@ -1328,7 +1354,7 @@ export class TelemetryQueue {
   private handleOnlineStatusChange = (): void => {
     if (navigator.onLine) {
       console.info('%c[TELEMETRY_QUEUE]%c Application is online. Attempting to flush offline queue.', 'color: #84cc16; font-weight: bold;', 'color: inherit;');
-      this.loadOfflineQueue(); // Re-load any potentially stored offline events that weren't moved to queue yet
+      if (isLeaderTab()) this.loadOfflineQueue(); // Re-load any potentially stored offline events that weren't moved to queue yet
       this.flushQueue(true); // Force flush when coming online
     } else {
       console.warn('%c[TELEMETRY_QUEUE]%c Application is offline. Events will be queued for later.', 'color: #fbbf24; font-weight: bold;', 'color: inherit;');
@@ -1347,6 +1373,8 @@ export class TelemetryQueue {
       window.removeEventListener('online', this.handleOnlineStatusChange);
       window.removeEventListener('offline', this.handleOnlineStatusChange);
     }
+    this.tabSyncCleanups.forEach(cleanup => cleanup());
+    this.tabSyncCleanups = [];
     this.flushQueue(true); // Attempt a final flush
   }
 }
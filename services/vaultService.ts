@@ -67,8 +67,10 @@
  * by quantum computing and advanced AI-driven attacks.
  */
 
+import { openDB } from 'idb';
 import * as crypto from './cryptoService.ts';
 import * as db from './dbService.ts';
+import { blobToBase64, base64ToBlob, downloadJson, fileToBase64 } from './fileUtils.ts';
 import type { EncryptedData } from '../types.ts';
 
 /**
@@ -78,6 +80,157 @@ import type { EncryptedData } from '../types.ts';
  */
 let sessionKey: CryptoKey | null = null;
 
+/**
+ * @description Vault-data key under which the encrypted master-password verifier is stored, next to 'pbkdf2-salt'.
+ */
+const VERIFIER_DATA_KEY = 'pbkdf2-verifier';
+
+/**
+ * @description Known plaintext sealed with the derived key at initialization. A wrong master password derives a
+ *              different key, so AES-GCM authentication of this record fails before any credential is touched.
+ */
+const VERIFIER_PLAINTEXT = 'aegis-shield-vault-verifier:v1';
+
+/**
+ * @description Vault-data key holding the persisted unlock failure counter used for exponential back-off.
+ */
+const UNLOCK_FAILURES_DATA_KEY = 'unlock_failure_state';
+
+const UNLOCK_BACKOFF_FREE_ATTEMPTS = 3; // Failures tolerated before any delay is imposed.
+const UNLOCK_BACKOFF_BASE_MS = 1000;
+const UNLOCK_BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+/**
+ * @description Persisted record of consecutive unlock failures. Stored in IndexedDB so that reloading the tab
+ *              does not reset the back-off window.
+ */
+interface UnlockFailureState {
+    consecutiveFailures: number;
+    lastFailureAt: number;
+}
+
+/**
+ * @description Thrown by `unlockVault` when the supplied master password does not match the stored verifier.
+ * @exports
+ */
+export class InvalidMasterPasswordError extends Error {
+    constructor(public readonly consecutiveFailures: number, public readonly retryAfterMs: number) {
+        super("Invalid Master Password. Attempt recorded for security monitoring.");
+        this.name = 'InvalidMasterPasswordError';
+    }
+}
+
+/**
+ * @description Thrown by `unlockVault` when an attempt is made before the back-off window from previous failures has elapsed.
+ * @exports
+ */
+export class VaultUnlockThrottledError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super(`Too many failed unlock attempts. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`);
+        this.name = 'VaultUnlockThrottledError';
+    }
+}
+
+/**
+ * @description Thrown by credential reads while the vault is locked, e.g. after an auto-lock.
+ * @exports
+ */
+export class VaultLockedError extends Error {
+    constructor(message = "Vault is locked. Cannot retrieve credential.") {
+        super(message);
+        this.name = 'VaultLockedError';
+    }
+}
+
+/**
+ * @description Computes the back-off delay imposed after a given number of consecutive failures.
+ *              The first few failures are free; after that the delay doubles with each failure up to a ceiling.
+ * @param {number} consecutiveFailures - Number of consecutive failed unlock attempts.
+ * @returns {number} Delay in milliseconds before the next attempt is permitted.
+ */
+const computeUnlockBackoffMs = (consecutiveFailures: number): number => {
+    if (consecutiveFailures < UNLOCK_BACKOFF_FREE_ATTEMPTS) return 0;
+    const exponent = consecutiveFailures - UNLOCK_BACKOFF_FREE_ATTEMPTS;
+    return Math.min(UNLOCK_BACKOFF_BASE_MS * 2 ** exponent, UNLOCK_BACKOFF_MAX_MS);
+};
+
+const getUnlockFailureState = async (): Promise<UnlockFailureState> => {
+    const state = await db.getVaultData(UNLOCK_FAILURES_DATA_KEY) as UnlockFailureState | undefined;
+    return state || { consecutiveFailures: 0, lastFailureAt: 0 };
+};
+
+/**
+ * @description Returns how long the caller must wait before `unlockVault` will accept another attempt.
+ * @returns {Promise<number>} Remaining back-off in milliseconds, or 0 if an attempt is allowed now.
+ * @async
+ * @exports
+ */
+export const getUnlockRetryDelayMs = async (): Promise<number> => {
+    const { consecutiveFailures, lastFailureAt } = await getUnlockFailureState();
+    const retryAt = lastFailureAt + computeUnlockBackoffMs(consecutiveFailures);
+    return Math.max(0, retryAt - Date.now());
+};
+
+/**
+ * @description Encrypts the verifier plaintext with the given key and persists it alongside the salt.
+ * @param {CryptoKey} key - The freshly derived vault key.
+ * @returns {Promise<void>}
+ */
+const writePasswordVerifier = async (key: CryptoKey): Promise<void> => {
+    const { ciphertext, iv } = await crypto.encrypt(VERIFIER_PLAINTEXT, key);
+    await db.saveVaultData(VERIFIER_DATA_KEY, { ciphertext, iv, createdAt: Date.now() });
+};
+
+/**
+ * @description Database and store names shared with `dbService`. Rotation needs a single readwrite transaction spanning
+ *              both stores, and the legacy unlock check reads encrypted tokens, neither of which the per-record helpers
+ *              in `dbService` provide.
+ */
+const DB_NAME = 'devcore-db';
+const VAULT_STORE_NAME = 'vault-data';
+const ENCRYPTED_TOKENS_STORE_NAME = 'encrypted-tokens';
+
+type EncryptedRecord = { ciphertext: string; iv: string };
+
+const isEncryptedRecord = (value: unknown): value is EncryptedRecord =>
+    !!value && typeof value === 'object' &&
+    typeof (value as EncryptedRecord).ciphertext === 'string' &&
+    typeof (value as EncryptedRecord).iv === 'string';
+
+/**
+ * @description Checks a candidate key against the stored verifier. Vaults created before verifiers existed
+ *              have no record; for those the first stored credential, or failing that the first encrypted token,
+ *              is used as a stand-in. The verifier is written only once that probe decrypts, or when the vault holds no
+ *              encrypted record at all, so later unlocks take the fast path.
+ * @param {CryptoKey} candidateKey - Key derived from the password being tried.
+ * @returns {Promise<boolean>} True if the key matches the vault's master password.
+ */
+const verifyMasterKey = async (candidateKey: CryptoKey): Promise<boolean> => {
+    const verifier = await db.getVaultData(VERIFIER_DATA_KEY) as { ciphertext: string; iv: string } | undefined;
+    if (verifier) {
+        try {
+            return await crypto.decrypt(verifier.ciphertext, candidateKey, verifier.iv) === VERIFIER_PLAINTEXT;
+        } catch {
+            return false; // AES-GCM tag mismatch: the key was derived from a different password.
+        }
+    }
+
+    const [credential] = await db.getAllRichCredentials();
+    const tokens = credential ? [] : await (await openDB(DB_NAME)).getAll(ENCRYPTED_TOKENS_STORE_NAME);
+    const probe = credential ?? tokens.find(isEncryptedRecord);
+    if (probe) {
+        try {
+            await crypto.decrypt(probe.ciphertext, candidateKey, probe.iv);
+        } catch {
+            return false;
+        }
+    }
+    // Either the probe decrypted or the legacy vault holds nothing encrypted under a master key (rotation skips the
+    // same non-record values); upgrade it to a verifier-backed vault.
+    await writePasswordVerifier(candidateKey);
+    return true;
+};
+
 // --- Core Vault Initialization and Access Management ---
 
 /**
@@ -117,6 +270,9 @@ export const initializeVault = async (masterPassword: string): Promise<void> =>
     await db.saveVaultData('pbkdf2-salt', salt); // Persist the salt for future key derivations.
     // Derive the session key using PBKDF2, a CPU-intensive process to deter brute-force attacks.
     sessionKey = await crypto.deriveKey(masterPassword, salt);
+    // Seal a known plaintext with the new key so that unlockVault can reject wrong passwords up front.
+    await writePasswordVerifier(sessionKey);
+    await db.saveVaultData(UNLOCK_FAILURES_DATA_KEY, { consecutiveFailures: 0, lastFailureAt: 0 });
 
     // --- Post-Initialization Security & Audit Actions ---
     await AuditLogger.logEvent(
@@ -144,10 +300,13 @@ export const isUnlocked = (): boolean => {
 
 /**
  * @description Unlocks the vault using the master password provided by the user.
- *              It retrieves the stored salt and attempts to re-derive the session key.
+ *              It retrieves the stored salt, re-derives the session key and checks it against the stored
+ *              verifier before accepting it. Consecutive failures are persisted and throttled with exponential back-off.
  * @param {string} masterPassword - The user's master password.
  * @returns {Promise<void>}
- * @throws {Error} If the vault is not initialized or if the master password is incorrect.
+ * @throws {Error} If the vault is not initialized.
+ * @throws {VaultUnlockThrottledError} If called before the back-off from earlier failures has elapsed.
+ * @throws {InvalidMasterPasswordError} If the master password is incorrect.
  * @async
  * @exports
  * @patentPending Feature: Secure Vault Unlock with Master Password Re-derivation.
@@ -174,45 +333,63 @@ export const unlockVault = async (masterPassword: string): Promise<void> => {
         throw new Error("Vault not initialized.");
     }
 
-    try {
-        const potentialSessionKey = await crypto.deriveKey(masterPassword, salt);
-        // Introduce a delay to mitigate timing attacks if key derivation is faster for correct passwords.
-        await new Promise(resolve => setTimeout(resolve, Math.random() * 100 + 50)); // Random delay between 50-150ms
-        sessionKey = potentialSessionKey; // Only assign if derivation succeeds.
-
+    const retryAfterMs = await getUnlockRetryDelayMs();
+    if (retryAfterMs > 0) {
         await AuditLogger.logEvent(
-            AuditEventType.VaultUnlocked,
-            `Vault unlocked successfully.`,
-            `User ID: ${SystemIdentity.currentUserId || 'N/A'}`
+            AuditEventType.RateLimitTriggered,
+            `Vault unlock rejected: back-off active for another ${Math.ceil(retryAfterMs / 1000)}s.`,
+            `User ID: ${SystemIdentity.currentUserId || 'N/A'}`,
+            AuditImpactLevel.Medium
         );
-        await TelemetryService.sendEvent('vault_unlocked', { success: true });
-        // After unlocking, check for any pending policy updates or security alerts.
-        await PolicyEngine.checkPendingPolicies();
-        await ThreatIntelligenceService.checkLatestAlerts(SystemIdentity.currentUserId || 'N/A');
+        throw new VaultUnlockThrottledError(retryAfterMs);
+    }
+
+    const potentialSessionKey = await crypto.deriveKey(masterPassword, salt);
+    const isValid = await verifyMasterKey(potentialSessionKey);
+
+    if (!isValid) {
+        const previous = await getUnlockFailureState();
+        const failureState: UnlockFailureState = {
+            consecutiveFailures: previous.consecutiveFailures + 1,
+            lastFailureAt: Date.now(),
+        };
+        await db.saveVaultData(UNLOCK_FAILURES_DATA_KEY, failureState);
+        const nextDelayMs = computeUnlockBackoffMs(failureState.consecutiveFailures);
 
-    } catch (e) {
-        console.error("Key derivation failed, likely incorrect password", e);
         await AuditLogger.logEvent(
             AuditEventType.VaultUnlockFailed,
             `Vault unlock failed: Invalid master password.`,
-            `User ID: ${SystemIdentity.currentUserId || 'N/A'}, Error: ${e instanceof Error ? e.message : String(e)}`
+            `User ID: ${SystemIdentity.currentUserId || 'N/A'}, Consecutive failures: ${failureState.consecutiveFailures}, Next attempt in: ${nextDelayMs}ms`,
+            failureState.consecutiveFailures > UNLOCK_BACKOFF_FREE_ATTEMPTS ? AuditImpactLevel.High : AuditImpactLevel.Low
         );
-        await TelemetryService.sendEvent('vault_unlocked', { success: false, reason: 'invalid_password' });
-        // Implement exponential back-off / rate limiting here to prevent brute-force attacks on the unlock mechanism.
-        RateLimiter.applyPenalty(`vault_unlock_fail:${SystemIdentity.currentUserId || 'anonymous'}`);
-        throw new Error("Invalid Master Password. Attempt recorded for security monitoring.");
+        await TelemetryService.sendEvent('vault_unlocked', { success: false, reason: 'invalid_password', consecutiveFailures: failureState.consecutiveFailures });
+        throw new InvalidMasterPasswordError(failureState.consecutiveFailures, nextDelayMs);
     }
+
+    sessionKey = potentialSessionKey;
+    await db.saveVaultData(UNLOCK_FAILURES_DATA_KEY, { consecutiveFailures: 0, lastFailureAt: 0 });
+
+    await AuditLogger.logEvent(
+        AuditEventType.VaultUnlocked,
+        `Vault unlocked successfully.`,
+        `User ID: ${SystemIdentity.currentUserId || 'N/A'}`
+    );
+    await TelemetryService.sendEvent('vault_unlocked', { success: true });
+    // After unlocking, check for any pending policy updates or security alerts.
+    await PolicyEngine.checkPendingPolicies();
+    await ThreatIntelligenceService.checkLatestAlerts(SystemIdentity.currentUserId || 'N/A');
 };
 
 /**
  * @description Locks the vault, clearing the session key from memory. This is a critical security measure
  *              to prevent unauthorized access after a period of inactivity or user logout.
+ * @param {string} [reason] - Why the vault was locked (e.g. an auto-lock trigger); recorded in the audit log.
  * @returns {void}
  * @exports
  * @patentPending Feature: Ephemeral Session Key Destruction on Vault Lock.
  *                 IP Claim: Proactive memory sanitization of cryptographic keys to prevent cold-boot attacks and memory forensics.
  */
-export const lockVault = (): void => {
+export const lockVault = (reason?: string): void => {
     if (!sessionKey) {
         console.warn("Vault is already locked. No action taken.");
         return;
@@ -227,10 +404,223 @@ export const lockVault = (): void => {
 
     AuditLogger.logEvent(
         AuditEventType.VaultLocked,
-        `Vault locked successfully.`,
+        reason ? `Vault locked: ${reason}.` : `Vault locked successfully.`,
         `User ID: ${SystemIdentity.currentUserId || 'N/A'}`
     ).catch(e => console.error("Failed to log vault lock event:", e)); // Log event asynchronously without blocking lock.
-    TelemetryService.sendEvent('vault_locked', { success: true }).catch(e => console.error("Failed to send telemetry for vault lock:", e));
+    TelemetryService.sendEvent('vault_locked', { success: true, reason: reason || 'manual' }).catch(e => console.error("Failed to send telemetry for vault lock:", e));
+};
+
+// --- Unlock on Demand ---
+
+/**
+ * @description Asks the user to unlock the vault and resolves to whether they did. Set by the UI layer (VaultProvider
+ *              passes `requestUnlock`, which shows the unlock modal) so services can prompt without depending on React.
+ */
+let unlockHandler: (() => Promise<boolean>) | null = null;
+let pendingUnlock: Promise<boolean> | null = null;
+
+/**
+ * @description Registers the function services call to prompt for the master password.
+ * @param {() => Promise<boolean>} handler - Shows the unlock prompt; resolves true once the vault is unlocked.
+ * @returns {() => void} A function that removes the handler again.
+ * @exports
+ */
+export const setVaultUnlockHandler = (handler: () => Promise<boolean>): (() => void) => {
+    unlockHandler = handler;
+    return () => {
+        if (unlockHandler === handler) unlockHandler = null;
+    };
+};
+
+/**
+ * @description Shows the unlock prompt through the registered handler. Callers that hit the lock at the same time share
+ *              one prompt rather than each opening their own.
+ * @returns {Promise<boolean>} Whether the vault is unlocked afterwards.
+ * @exports
+ */
+export const requestVaultUnlock = (): Promise<boolean> => {
+    if (sessionKey) return Promise.resolve(true);
+    if (!unlockHandler) return Promise.resolve(false);
+    pendingUnlock ??= unlockHandler()
+        .then(unlocked => unlocked && !!sessionKey)
+        .finally(() => { pendingUnlock = null; });
+    return pendingUnlock;
+};
+
+/**
+ * @description `getDecryptedCredential` for services that run without a UI of their own, such as the AI providers.
+ *              A read that finds the vault locked asks the user to unlock it and then retries once.
+ * @param {string} id - The credential id.
+ * @returns {Promise<string | null>} The decrypted credential, or null if it does not exist.
+ * @throws {VaultLockedError} If the user dismisses the unlock prompt.
+ * @async
+ * @exports
+ */
+export const getDecryptedCredentialWithUnlock = async (id: string): Promise<string | null> => {
+    try {
+        return await getDecryptedCredential(id);
+    } catch (error) {
+        if (!(error instanceof VaultLockedError) || !await requestVaultUnlock()) throw error;
+        return getDecryptedCredential(id);
+    }
+};
+
+// --- Master Password Rotation ---
+
+/**
+ * @description Vault-data key of the rotation journal. It is written before the rotation transaction starts and
+ *              deleted inside it, so its presence on startup means the transaction never committed.
+ */
+const ROTATION_JOURNAL_DATA_KEY = 'password-rotation-journal';
+
+/**
+ * @description Journal entry describing an in-flight master password change.
+ */
+interface PasswordRotationJournal {
+    status: 'pending';
+    startedAt: number;
+    recordCount: number;
+}
+
+/**
+ * @description Decrypts a record with the old key and re-encrypts it with the new one, preserving every other field.
+ */
+const reencryptRecord = async <T extends EncryptedRecord>(record: T, oldKey: CryptoKey, newKey: CryptoKey): Promise<T> => {
+    const plaintext = await crypto.decrypt(record.ciphertext, oldKey, record.iv);
+    const { ciphertext, iv } = await crypto.encrypt(plaintext, newKey);
+    return { ...record, ciphertext, iv };
+};
+
+/**
+ * @description Changes the master password. A fresh salt is generated, a new key derived, and every encrypted record in
+ *              the vault-data and encrypted-tokens stores is re-encrypted. All ciphertext is prepared in memory first and
+ *              then written, together with the new salt and verifier, in one IndexedDB transaction: either every record
+ *              moves to the new key or none does. If the tab closes mid-write IndexedDB aborts the transaction and the
+ *              leftover journal is cleared by `recoverInterruptedPasswordChange` on the next start.
+ * @param {string} oldPassword - The current master password.
+ * @param {string} newPassword - The new master password.
+ * @returns {Promise<{ reencryptedCount: number }>} Number of records moved to the new key.
+ * @throws {InvalidMasterPasswordError} If `oldPassword` is wrong.
+ * @throws {Error} If the vault is not initialized, a rotation is already pending, or a record cannot be decrypted.
+ * @async
+ * @exports
+ */
+export const changeMasterPassword = async (oldPassword: string, newPassword: string): Promise<{ reencryptedCount: number }> => {
+    const oldSalt = await db.getVaultData('pbkdf2-salt');
+    if (!oldSalt) {
+        throw new Error("Vault not initialized.");
+    }
+    if (!newPassword) {
+        throw new Error("New master password must not be empty.");
+    }
+    if (await db.getVaultData(ROTATION_JOURNAL_DATA_KEY)) {
+        throw new Error("A previous master password change was interrupted. Reload the application before trying again.");
+    }
+
+    const oldKey = await crypto.deriveKey(oldPassword, oldSalt);
+    if (!await verifyMasterKey(oldKey)) {
+        await AuditLogger.logEvent(
+            AuditEventType.MasterPasswordChangeFailed,
+            `Master password change rejected: current password is invalid.`,
+            `User ID: ${SystemIdentity.currentUserId || 'N/A'}`,
+            AuditImpactLevel.Medium
+        );
+        throw new InvalidMasterPasswordError(0, 0);
+    }
+
+    // Hold the vault locked while ciphertext is prepared so no concurrent save can write under the old key
+    // and then be overwritten by the rotation transaction.
+    const previousSessionKey = sessionKey;
+    sessionKey = null;
+
+    try {
+        const newSalt = crypto.generateSalt();
+        const newKey = await crypto.deriveKey(newPassword, newSalt);
+        const database = await openDB(DB_NAME);
+
+        const vaultKeys = (await database.getAllKeys(VAULT_STORE_NAME)) as string[];
+        const vaultUpdates: [string, unknown][] = [];
+        for (const key of vaultKeys) {
+            if (key === VERIFIER_DATA_KEY) continue; // Rewritten from scratch below.
+            const value = await database.get(VAULT_STORE_NAME, key);
+            if (isEncryptedRecord(value)) {
+                vaultUpdates.push([key, await reencryptRecord(value, oldKey, newKey)]);
+            }
+        }
+
+        const tokenUpdates: EncryptedRecord[] = [];
+        for (const token of await database.getAll(ENCRYPTED_TOKENS_STORE_NAME)) {
+            if (isEncryptedRecord(token)) {
+                tokenUpdates.push(await reencryptRecord(token, oldKey, newKey));
+            }
+        }
+
+        const verifierSeal = await crypto.encrypt(VERIFIER_PLAINTEXT, newKey);
+        const journal: PasswordRotationJournal = {
+            status: 'pending',
+            startedAt: Date.now(),
+            recordCount: vaultUpdates.length + tokenUpdates.length,
+        };
+        await db.saveVaultData(ROTATION_JOURNAL_DATA_KEY, journal);
+
+        // No awaits on anything but IndexedDB requests inside this block, otherwise the transaction auto-commits early.
+        const tx = database.transaction([VAULT_STORE_NAME, ENCRYPTED_TOKENS_STORE_NAME], 'readwrite');
+        const vaultStore = tx.objectStore(VAULT_STORE_NAME);
+        const tokenStore = tx.objectStore(ENCRYPTED_TOKENS_STORE_NAME);
+        vaultUpdates.forEach(([key, value]) => vaultStore.put(value, key));
+        tokenUpdates.forEach(token => tokenStore.put(token));
+        vaultStore.put(newSalt, 'pbkdf2-salt');
+        vaultStore.put({ ...verifierSeal, createdAt: Date.now() }, VERIFIER_DATA_KEY);
+        vaultStore.put({ consecutiveFailures: 0, lastFailureAt: 0 }, UNLOCK_FAILURES_DATA_KEY);
+        vaultStore.delete(ROTATION_JOURNAL_DATA_KEY);
+        await tx.done;
+
+        sessionKey = newKey;
+        EphemeralKeyManagementService.revokeAllEphemeralKeysForSession(SystemIdentity.currentSessionId || 'N/A');
+
+        await AuditLogger.logEvent(
+            AuditEventType.MasterPasswordChanged,
+            `Master password changed. ${journal.recordCount} records re-encrypted under a new salt.`,
+            `User ID: ${SystemIdentity.currentUserId || 'N/A'}`,
+            AuditImpactLevel.High
+        );
+        await TelemetryService.sendEvent('master_password_changed', { success: true, recordCount: journal.recordCount });
+        return { reencryptedCount: journal.recordCount };
+    } catch (e) {
+        // Nothing was committed (the transaction is all-or-nothing), so the old key is still the valid one.
+        sessionKey = previousSessionKey;
+        await db.deleteVaultData(ROTATION_JOURNAL_DATA_KEY).catch(() => undefined);
+        await AuditLogger.logEvent(
+            AuditEventType.MasterPasswordChangeFailed,
+            `Master password change aborted; vault left on the previous key.`,
+            `User ID: ${SystemIdentity.currentUserId || 'N/A'}, Error: ${e instanceof Error ? e.message : String(e)}`,
+            AuditImpactLevel.High
+        );
+        await TelemetryService.sendEvent('master_password_changed', { success: false });
+        throw e;
+    }
+};
+
+/**
+ * @description Clears the journal left by a master password change that was interrupted (e.g. the tab closed) before
+ *              its transaction committed. Because the journal is removed inside that transaction, a surviving journal
+ *              proves no record was moved to the new key, so rolling back only means discarding the journal.
+ * @returns {Promise<boolean>} True if an interrupted change was found and rolled back.
+ * @async
+ * @exports
+ */
+export const recoverInterruptedPasswordChange = async (): Promise<boolean> => {
+    const journal = await db.getVaultData(ROTATION_JOURNAL_DATA_KEY) as PasswordRotationJournal | undefined;
+    if (!journal) return false;
+
+    await db.deleteVaultData(ROTATION_JOURNAL_DATA_KEY);
+    await AuditLogger.logEvent(
+        AuditEventType.MasterPasswordChangeRolledBack,
+        `Interrupted master password change from ${new Date(journal.startedAt).toISOString()} rolled back; previous password remains valid.`,
+        `User ID: ${SystemIdentity.currentUserId || 'N/A'}, Pending records: ${journal.recordCount}`,
+        AuditImpactLevel.Medium
+    );
+    return true;
 };
 
 // --- Credential Management and Lifecycle ---
@@ -440,7 +830,7 @@ export const saveCredential = async (
  */
 export const getDecryptedCredential = async (id: string): Promise<string | null> => {
     if (!sessionKey) {
-        throw new Error("Vault is locked. Cannot retrieve credential.");
+        throw new VaultLockedError();
     }
 
     const richCredential = await db.getRichCredential(id);
@@ -660,6 +1050,247 @@ export const resetVault = async (): Promise<void> => {
 };
 
 
+// --- Vault Export / Import ---
+
+const EXPORT_FORMAT = 'aegis-vault-export';
+const EXPORT_FORMAT_VERSION = 1;
+const EXPORT_KDF_ITERATIONS = 600000;
+const EXPORT_KDF_HASH = 'SHA-256';
+// Bounds on the KDF parameters read from an imported file: enough work to resist guessing, not enough to hang the tab.
+const IMPORT_KDF_MIN_ITERATIONS = 100000;
+const IMPORT_KDF_MAX_ITERATIONS = 10000000;
+const IMPORT_KDF_HASHES = ['SHA-256', 'SHA-512'];
+
+/**
+ * @description A credential as carried inside an export bundle. The secret is stored in plaintext here because the
+ *              whole payload is encrypted with the export password; on import it is re-encrypted with the target vault's key.
+ * @exports
+ */
+export interface ExportedCredential extends Omit<RichCredential, 'ciphertext' | 'iv'> {
+    secret: string;
+}
+
+/**
+ * @description The versioned, password-protected file written by `exportVault`.
+ *              `payload` is AES-GCM ciphertext of the JSON-encoded credential list, keyed by PBKDF2 over the export password.
+ *              The plaintext also carries a digest of the header, so the header is authenticated by AES-GCM along with the
+ *              credentials. `checksum` is an unkeyed SHA-256 over the header and ciphertext: it catches truncated or corrupted
+ *              files before the slow key derivation, but anyone can recompute it, so it is not a defence against tampering.
+ * @exports
+ */
+export interface VaultExportBundle {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    credentialCount: number;
+    kdf: {
+        algorithm: 'PBKDF2';
+        hash: string;
+        iterations: number;
+        salt: string; // Base64
+    };
+    payload: EncryptedRecord;
+    checksum: string;
+}
+
+/**
+ * @description Result of reading an export bundle, before anything is written. `conflicts` lists credential ids that
+ *              already exist in this vault so the caller can choose per id whether to keep or replace them.
+ * @exports
+ */
+export interface VaultImportPreview {
+    exportedAt: string;
+    credentials: ExportedCredential[];
+    conflicts: string[];
+}
+
+export type VaultImportResolution = 'keep' | 'replace';
+
+/** The credential list plus the header digest it is bound to; this is what `payload` decrypts to. */
+interface VaultExportPlaintext {
+    header: string;
+    credentials: ExportedCredential[];
+}
+
+const headerDigest = async (bundle: Omit<VaultExportBundle, 'payload' | 'checksum'>): Promise<string> =>
+    crypto.calculateHash(JSON.stringify([bundle.format, bundle.version, bundle.exportedAt, bundle.credentialCount, bundle.kdf]));
+
+const bundleChecksum = async (bundle: Omit<VaultExportBundle, 'checksum'>): Promise<string> =>
+    crypto.calculateHash(JSON.stringify([bundle.format, bundle.version, bundle.exportedAt, bundle.credentialCount, bundle.kdf, bundle.payload]));
+
+const base64ToArrayBuffer = (base64: string): Promise<ArrayBuffer> => base64ToBlob(base64, 'application/octet-stream').arrayBuffer();
+
+/**
+ * @description Builds an encrypted export of every credential in the vault, including attachment metadata.
+ *              The export password is independent of the master password, so a bundle can be handed to another
+ *              machine whose vault uses a different master password.
+ * @param {string} exportPassword - Password protecting the bundle.
+ * @returns {Promise<VaultExportBundle>} The bundle, ready to be serialized.
+ * @throws {Error} If the vault is locked or a credential cannot be decrypted.
+ * @async
+ * @exports
+ */
+export const createVaultExport = async (exportPassword: string): Promise<VaultExportBundle> => {
+    if (!sessionKey) {
+        throw new Error("Vault is locked. Cannot export credentials.");
+    }
+    if (!exportPassword) {
+        throw new Error("An export password is required.");
+    }
+
+    const credentials: ExportedCredential[] = [];
+    for (const id of await listCredentials()) {
+        const record = await db.getRichCredential(id) as RichCredential | undefined;
+        if (!record) continue;
+        const { ciphertext, iv, ...rest } = record;
+        credentials.push({ ...rest, secret: await crypto.decrypt(ciphertext, sessionKey, iv) });
+    }
+
+    const salt = crypto.generateSalt();
+    const exportKey = await crypto.deriveKey(exportPassword, salt, { iterations: EXPORT_KDF_ITERATIONS, hashAlgorithm: EXPORT_KDF_HASH });
+    const header: Omit<VaultExportBundle, 'payload' | 'checksum'> = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        credentialCount: credentials.length,
+        kdf: { algorithm: 'PBKDF2', hash: EXPORT_KDF_HASH, iterations: EXPORT_KDF_ITERATIONS, salt: await blobToBase64(new Blob([salt])) },
+    };
+    const plaintext: VaultExportPlaintext = { header: await headerDigest(header), credentials };
+    const payload = await crypto.encrypt(JSON.stringify(plaintext), exportKey);
+    const unsigned: Omit<VaultExportBundle, 'checksum'> = { ...header, payload: { ciphertext: payload.ciphertext, iv: payload.iv } };
+
+    await AuditLogger.logEvent(
+        AuditEventType.VaultExported,
+        `Vault exported: ${credentials.length} credentials.`,
+        `User ID: ${SystemIdentity.currentUserId || 'N/A'}`,
+        AuditImpactLevel.High
+    );
+    return { ...unsigned, checksum: await bundleChecksum(unsigned) };
+};
+
+/**
+ * @description Exports the vault and triggers a download of the bundle file.
+ * @param {string} exportPassword - Password protecting the bundle.
+ * @returns {Promise<number>} Number of credentials exported.
+ * @async
+ * @exports
+ */
+export const exportVault = async (exportPassword: string): Promise<number> => {
+    const bundle = await createVaultExport(exportPassword);
+    downloadJson(bundle, `devcore-vault-${bundle.exportedAt.slice(0, 10)}.json`);
+    return bundle.credentialCount;
+};
+
+/**
+ * @description Validates and decrypts an export bundle file without modifying the vault.
+ * @param {File} file - The bundle selected by the user.
+ * @param {string} exportPassword - Password the bundle was exported with.
+ * @returns {Promise<VaultImportPreview>} Decrypted credentials and the ids that clash with existing ones.
+ * @throws {Error} If the file is not a bundle, uses an unsupported version or KDF setting, fails its checksum, the password
+ *                 is wrong, or the header does not match the one sealed inside the payload.
+ * @async
+ * @exports
+ */
+export const readVaultExport = async (file: File, exportPassword: string): Promise<VaultImportPreview> => {
+    if (!sessionKey) {
+        throw new Error("Vault is locked. Cannot import credentials.");
+    }
+
+    let bundle: VaultExportBundle;
+    try {
+        const bytes = await base64ToArrayBuffer(await fileToBase64(file));
+        bundle = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error("The selected file is not a valid vault export.");
+    }
+    if (bundle?.format !== EXPORT_FORMAT || !bundle.kdf || !isEncryptedRecord(bundle.payload)) {
+        throw new Error("The selected file is not a valid vault export.");
+    }
+    if (bundle.version > EXPORT_FORMAT_VERSION) {
+        throw new Error(`Vault export version ${bundle.version} is newer than this application supports (${EXPORT_FORMAT_VERSION}).`);
+    }
+    const { kdf } = bundle;
+    if (kdf.algorithm !== 'PBKDF2' || !IMPORT_KDF_HASHES.includes(kdf.hash) || typeof kdf.salt !== 'string') {
+        throw new Error("Vault export uses an unsupported key derivation setting.");
+    }
+    if (!Number.isInteger(kdf.iterations) || kdf.iterations < IMPORT_KDF_MIN_ITERATIONS || kdf.iterations > IMPORT_KDF_MAX_ITERATIONS) {
+        throw new Error(`Vault export key derivation must use between ${IMPORT_KDF_MIN_ITERATIONS} and ${IMPORT_KDF_MAX_ITERATIONS} iterations.`);
+    }
+    const { checksum, payload, ...header } = bundle;
+    if (checksum !== await bundleChecksum({ ...header, payload })) {
+        throw new Error("Vault export failed its integrity check. The file is corrupted.");
+    }
+
+    const exportKey = await crypto.deriveKey(exportPassword, await base64ToArrayBuffer(kdf.salt), {
+        iterations: kdf.iterations,
+        hashAlgorithm: kdf.hash,
+    });
+    let plaintext: VaultExportPlaintext;
+    try {
+        plaintext = JSON.parse(await crypto.decrypt(payload.ciphertext, exportKey, payload.iv));
+    } catch {
+        throw new Error("Incorrect export password.");
+    }
+    // The checksum can be recomputed by anyone; the digest sealed in the ciphertext cannot
+    if (plaintext?.header !== await headerDigest(header)) {
+        throw new Error("Vault export header has been modified since the file was exported.");
+    }
+    const { credentials } = plaintext;
+    if (!Array.isArray(credentials) || credentials.length !== bundle.credentialCount ||
+        credentials.some(c => typeof c?.id !== 'string' || typeof c.secret !== 'string')) {
+        throw new Error("Vault export payload is malformed.");
+    }
+
+    const existingIds = new Set(await listCredentials());
+    return {
+        exportedAt: bundle.exportedAt,
+        credentials,
+        conflicts: credentials.filter(c => existingIds.has(c.id)).map(c => c.id),
+    };
+};
+
+/**
+ * @description Writes the credentials from a previously read bundle into this vault, re-encrypting each secret with the
+ *              current session key. Conflicting ids are kept unless `resolutions` (or `defaultResolution`) says replace.
+ * @param {VaultImportPreview} preview - Result of `readVaultExport`.
+ * @param {Record<string, VaultImportResolution>} [resolutions] - Per-id decision for conflicting credentials.
+ * @param {VaultImportResolution} [defaultResolution='keep'] - Decision for conflicts not listed in `resolutions`.
+ * @returns {Promise<{ imported: number; replaced: number; skipped: number }>}
+ * @async
+ * @exports
+ */
+export const applyVaultImport = async (
+    preview: VaultImportPreview,
+    resolutions: Record<string, VaultImportResolution> = {},
+    defaultResolution: VaultImportResolution = 'keep'
+): Promise<{ imported: number; replaced: number; skipped: number }> => {
+    if (!sessionKey) {
+        throw new Error("Vault is locked. Cannot import credentials.");
+    }
+    const conflicts = new Set(preview.conflicts);
+    const result = { imported: 0, replaced: 0, skipped: 0 };
+
+    for (const { secret, ...credential } of preview.credentials) {
+        const isConflict = conflicts.has(credential.id);
+        if (isConflict && (resolutions[credential.id] || defaultResolution) === 'keep') {
+            result.skipped++;
+            continue;
+        }
+        const { ciphertext, iv } = await crypto.encrypt(secret, sessionKey);
+        await db.saveRichCredential({ ...credential, ciphertext, iv });
+        if (isConflict) result.replaced++; else result.imported++;
+    }
+
+    await AuditLogger.logEvent(
+        AuditEventType.VaultImported,
+        `Vault import from export of ${preview.exportedAt}: ${result.imported} added, ${result.replaced} replaced, ${result.skipped} kept.`,
+        `User ID: ${SystemIdentity.currentUserId || 'N/A'}`,
+        AuditImpactLevel.High
+    );
+    return result;
+};
+
+
 // --- Advanced Vault Features and Services ---
 
 /**
@@ -730,6 +1361,11 @@ export enum AuditEventType {
     VaultUnlockFailed = 'VAULT_UNLOCK_FAILED',
     VaultReset = 'VAULT_RESET',
     VaultResetFailed = 'VAULT_RESET_FAILED',
+    MasterPasswordChanged = 'MASTER_PASSWORD_CHANGED',
+    MasterPasswordChangeFailed = 'MASTER_PASSWORD_CHANGE_FAILED',
+    MasterPasswordChangeRolledBack = 'MASTER_PASSWORD_CHANGE_ROLLED_BACK',
+    VaultExported = 'VAULT_EXPORTED',
+    VaultImported = 'VAULT_IMPORTED',
     CredentialCreated = 'CREDENTIAL_CREATED',
     CredentialUpdated = 'CREDENTIAL_UPDATED',
     CredentialAccessed = 'CREDENTIAL_ACCESSED',
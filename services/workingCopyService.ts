@@ -0,0 +1,335 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDB } from 'idb';
+import type { Octokit } from 'octokit';
+import type { GeneratedFile, RepoRef } from '../types.ts';
+import { commitFiles, getFileBytes, getFileIfExists } from './githubService.ts';
+import type { CommitFileChange } from './githubService.ts';
+import { logEvent } from './telemetryService.ts';
+
+// The working copy lives in dbService's generated-files store, keyed by `filePath`. Entries are
+// namespaced so that generated output and checked-out repository files cannot collide.
+const DB_NAME = 'devcore-db';
+const FILES_STORE_NAME = 'generated-files';
+export const WORKING_COPY_KEY_PREFIX = 'working-copy:';
+const WORKING_COPY_GENERATOR_ID = 'working-copy';
+
+const toKey = (repoFullName: string, path: string) => `${WORKING_COPY_KEY_PREFIX}${repoFullName}/${path}`;
+
+/**
+ * Thrown when a commit includes files that also changed on the branch since they were opened. Nothing is written;
+ * the caller has to discard or redo those edits on top of the new content.
+ */
+export class WorkingCopyConflictError extends Error {
+    constructor(public readonly branch: string, public readonly paths: string[]) {
+        super(`${paths.join(', ')} changed on '${branch}' since ${paths.length === 1 ? 'it was' : 'they were'} opened. Discard your edits to take the new version, then re-apply them.`);
+        this.name = 'WorkingCopyConflictError';
+    }
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Registers a callback fired after any working-copy record changes, so open panels can refresh.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToWorkingCopy = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const readRecord = async (repoFullName: string, path: string): Promise<GeneratedFile | undefined> => {
+    const db = await openDB(DB_NAME);
+    return db.get(FILES_STORE_NAME, toKey(repoFullName, path));
+};
+
+const writeRecord = async (file: GeneratedFile): Promise<GeneratedFile> => {
+    const db = await openDB(DB_NAME);
+    await db.put(FILES_STORE_NAME, file);
+    notify();
+    return file;
+};
+
+/** Git's blob id: SHA-1 over `blob <length>\0<bytes>`. Lets committed files stay clean without refetching. */
+const gitBlobSha = async (content: string): Promise<string> => {
+    const body = new TextEncoder().encode(content);
+    const header = new TextEncoder().encode(`blob ${body.length}\0`);
+    const buffer = new Uint8Array(header.length + body.length);
+    buffer.set(header);
+    buffer.set(body, header.length);
+    const digest = await crypto.subtle.digest('SHA-1', buffer);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Returns every tracked file of a repository's working copy, clean or not.
+ */
+export const getWorkingCopyFiles = async (repoFullName: string): Promise<GeneratedFile[]> => {
+    const db = await openDB(DB_NAME);
+    const prefix = toKey(repoFullName, '');
+    const all: GeneratedFile[] = await db.getAll(FILES_STORE_NAME, IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+    return all.filter(file => file.workingCopy?.repoFullName === repoFullName);
+};
+
+/**
+ * Returns the files with uncommitted changes, sorted by path.
+ */
+export const getWorkingCopyChanges = async (repoFullName: string): Promise<GeneratedFile[]> => {
+    const files = await getWorkingCopyFiles(repoFullName);
+    return files
+        .filter(file => file.workingCopy!.status !== 'clean')
+        .sort((a, b) => a.workingCopy!.path.localeCompare(b.workingCopy!.path));
+};
+
+export const getWorkingCopyFile = (repoFullName: string, path: string) => readRecord(repoFullName, path);
+
+/**
+ * Opens a repository file into the working copy. A file that is already tracked on the same ref is
+ * returned as-is, so reopening it never discards local edits. A file view that opens repository files
+ * for editing should call this instead of `getFileContent`, so edits made there show up as changes.
+ */
+export const openWorkingCopyFile = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    ref: RepoRef,
+    path: string
+): Promise<GeneratedFile> => {
+    const repoFullName = `${owner}/${repo}`;
+    const existing = await readRecord(repoFullName, path);
+    if (existing?.workingCopy && (existing.workingCopy.status !== 'clean' || existing.workingCopy.baseCommitSha === ref.sha)) {
+        return existing;
+    }
+
+    const file = await getFileBytes(octokit, owner, repo, path, ref.sha);
+    if (file.text === null) {
+        throw new Error(`${path} is a binary file and cannot be opened in the working copy.`);
+    }
+
+    logEvent('working_copy_file_opened', { repoFullName, path, ref: ref.name });
+    return writeRecord({
+        filePath: toKey(repoFullName, path),
+        content: file.text,
+        description: `${path} @ ${ref.name}`,
+        generatorId: WORKING_COPY_GENERATOR_ID,
+        generationTimestamp: new Date(),
+        versionControlRef: { repo: repoFullName, branch: ref.name, commitHash: ref.sha },
+        workingCopy: {
+            repoFullName,
+            path,
+            refName: ref.name,
+            baseCommitSha: ref.sha,
+            baseBlobSha: file.sha,
+            baseContent: file.text,
+            status: 'clean',
+            updatedAt: new Date(),
+        },
+    });
+};
+
+/**
+ * Records new content for a tracked file. Editing a file back to its original content makes it clean again.
+ * @param editedBy The feature id of the tool making the edit, shown in the Changes panel.
+ */
+export const recordWorkingCopyEdit = async (repoFullName: string, path: string, content: string, editedBy: string): Promise<GeneratedFile> => {
+    const existing = await readRecord(repoFullName, path);
+    if (!existing?.workingCopy) {
+        throw new Error(`${path} is not open in the working copy of ${repoFullName}.`);
+    }
+    const state = existing.workingCopy;
+    const status = state.status === 'added' ? 'added' : content === state.baseContent ? 'clean' : 'modified';
+    return writeRecord({
+        ...existing,
+        content,
+        workingCopy: { ...state, status, lastEditedBy: editedBy, updatedAt: new Date() },
+    });
+};
+
+/**
+ * Adds a file that does not exist on the ref yet.
+ */
+export const addWorkingCopyFile = async (repoFullName: string, ref: RepoRef, path: string, content: string, editedBy: string): Promise<GeneratedFile> => {
+    const existing = await readRecord(repoFullName, path);
+    if (existing?.workingCopy) {
+        return recordWorkingCopyEdit(repoFullName, path, content, editedBy);
+    }
+    return writeRecord({
+        filePath: toKey(repoFullName, path),
+        content,
+        description: `${path} (new)`,
+        generatorId: WORKING_COPY_GENERATOR_ID,
+        generationTimestamp: new Date(),
+        versionControlRef: { repo: repoFullName, branch: ref.name, commitHash: ref.sha },
+        workingCopy: {
+            repoFullName,
+            path,
+            refName: ref.name,
+            baseCommitSha: ref.sha,
+            baseBlobSha: null,
+            baseContent: null,
+            status: 'added',
+            lastEditedBy: editedBy,
+            updatedAt: new Date(),
+        },
+    });
+};
+
+/**
+ * Marks a tracked file for deletion. A locally added file is simply dropped.
+ */
+export const markWorkingCopyFileDeleted = async (repoFullName: string, path: string, editedBy: string): Promise<void> => {
+    const existing = await readRecord(repoFullName, path);
+    if (!existing?.workingCopy) {
+        throw new Error(`${path} is not open in the working copy of ${repoFullName}.`);
+    }
+    if (existing.workingCopy.status === 'added') {
+        await discardWorkingCopyChange(repoFullName, path);
+        return;
+    }
+    await writeRecord({
+        ...existing,
+        workingCopy: { ...existing.workingCopy, status: 'deleted', lastEditedBy: editedBy, updatedAt: new Date() },
+    });
+};
+
+/**
+ * Reverts a file to its content at the base commit, or forgets it if it was added locally.
+ */
+export const discardWorkingCopyChange = async (repoFullName: string, path: string): Promise<void> => {
+    const existing = await readRecord(repoFullName, path);
+    if (!existing?.workingCopy) return;
+
+    if (existing.workingCopy.status === 'added') {
+        const db = await openDB(DB_NAME);
+        await db.delete(FILES_STORE_NAME, existing.filePath);
+        notify();
+        return;
+    }
+    await writeRecord({
+        ...existing,
+        content: existing.workingCopy.baseContent ?? '',
+        workingCopy: { ...existing.workingCopy, status: 'clean', lastEditedBy: undefined, updatedAt: new Date() },
+    });
+};
+
+/**
+ * Moves the pending changes made on `ref`'s branch onto `ref.sha`. A change is moved when its file is unchanged at
+ * that commit, that is it still has the blob the change was opened at (or is still missing, for an added file).
+ * Changes whose file did change are left where they are and reported as conflicts.
+ */
+export const rebaseWorkingCopy = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    ref: RepoRef
+): Promise<{ rebased: number; conflicts: string[] }> => {
+    const repoFullName = `${owner}/${repo}`;
+    const behind = (await getWorkingCopyChanges(repoFullName))
+        .filter(file => file.workingCopy!.refName === ref.name && file.workingCopy!.baseCommitSha !== ref.sha);
+
+    const conflicts: string[] = [];
+    for (const file of behind) {
+        const state = file.workingCopy!;
+        const atHead = await getFileIfExists(octokit, owner, repo, state.path, ref.sha);
+        if ((atHead?.sha ?? null) !== state.baseBlobSha) {
+            conflicts.push(state.path);
+            continue;
+        }
+        await writeRecord({
+            ...file,
+            versionControlRef: { repo: repoFullName, branch: ref.name, commitHash: ref.sha },
+            workingCopy: { ...state, baseCommitSha: ref.sha },
+        });
+    }
+    if (behind.length) logEvent('working_copy_rebased', { repoFullName, ref: ref.name, rebased: behind.length - conflicts.length, conflicts: conflicts.length });
+    return { rebased: behind.length - conflicts.length, conflicts };
+};
+
+/**
+ * Commits every pending change of the working copy to `ref` as a single commit. Changes opened at an older commit
+ * of the branch are first moved onto `ref.sha` with `rebaseWorkingCopy`.
+ * @throws WorkingCopyConflictError if a changed file also changed on the branch; nothing is written.
+ * @throws NonFastForwardError if the branch has moved past `ref.sha`.
+ * @returns The commit URL and `ref` moved to the new commit, which callers should select.
+ */
+export const commitWorkingCopy = async (
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    ref: RepoRef,
+    message: string
+): Promise<{ commitUrl: string; ref: RepoRef; fileCount: number }> => {
+    if (ref.kind !== 'branch') {
+        throw new Error(`Cannot commit to ${ref.kind} '${ref.name}'. Switch to a branch first.`);
+    }
+
+    const repoFullName = `${owner}/${repo}`;
+    const pending = await getWorkingCopyChanges(repoFullName);
+    if (pending.length === 0) {
+        throw new Error('There are no changes to commit.');
+    }
+
+    const foreign = pending.find(file => file.workingCopy!.refName !== ref.name);
+    if (foreign) {
+        throw new Error(`${foreign.workingCopy!.path} was changed on '${foreign.workingCopy!.refName}', not '${ref.name}'. Commit or discard it from that branch.`);
+    }
+    const { conflicts } = await rebaseWorkingCopy(octokit, owner, repo, ref);
+    if (conflicts.length) {
+        throw new WorkingCopyConflictError(ref.name, conflicts);
+    }
+
+    const changes = await getWorkingCopyChanges(repoFullName);
+    const fileChanges: CommitFileChange[] = changes.map(file => ({
+        path: file.workingCopy!.path,
+        content: file.workingCopy!.status === 'deleted' ? null : file.content,
+    }));
+
+    const { commitUrl, commitSha } = await commitFiles(octokit, owner, repo, fileChanges, message, ref.name, ref.sha);
+    const newRef: RepoRef = { ...ref, sha: commitSha };
+
+    // The commit changed only the committed files, so clean files opened at `ref.sha` are unchanged at the new head
+    const committed = new Set(changes.map(file => file.filePath));
+    const untouched = (await getWorkingCopyFiles(repoFullName)).filter(file =>
+        !committed.has(file.filePath) && file.workingCopy!.status === 'clean' && file.workingCopy!.baseCommitSha === ref.sha);
+
+    const db = await openDB(DB_NAME);
+    for (const file of changes) {
+        const state = file.workingCopy!;
+        if (state.status === 'deleted') {
+            await db.delete(FILES_STORE_NAME, file.filePath);
+            continue;
+        }
+        await db.put(FILES_STORE_NAME, {
+            ...file,
+            versionControlRef: { repo: repoFullName, branch: newRef.name, commitHash: newRef.sha },
+            workingCopy: {
+                ...state,
+                baseCommitSha: newRef.sha,
+                baseBlobSha: await gitBlobSha(file.content),
+                baseContent: file.content,
+                status: 'clean',
+                updatedAt: new Date(),
+            },
+        });
+    }
+    for (const file of untouched) {
+        await db.put(FILES_STORE_NAME, {
+            ...file,
+            versionControlRef: { repo: repoFullName, branch: newRef.name, commitHash: newRef.sha },
+            workingCopy: { ...file.workingCopy!, baseCommitSha: newRef.sha },
+        });
+    }
+    notify();
+
+    logEvent('working_copy_committed', { repoFullName, ref: ref.name, fileCount: changes.length });
+    return { commitUrl, ref: newRef, fileCount: changes.length };
+};
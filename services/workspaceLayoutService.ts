@@ -0,0 +1,159 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { logEvent } from './telemetryService.ts';
+
+// Named desktop layouts, plus the live session that is restored on reload. The desktop registers
+// itself as the layout host; the command palette saves and restores through this module.
+const DB_NAME = 'devcore-workspace-layouts';
+const DB_VERSION = 1;
+const LAYOUTS_STORE_NAME = 'layouts';
+const SESSION_STORE_NAME = 'session';
+const LAST_SESSION_KEY = 'last';
+
+export interface WorkspaceWindowLayout {
+    featureId: string;
+    position: { x: number; y: number };
+    size: { width: number; height: number };
+    zIndex: number;
+    isMinimized: boolean;
+    isMaximized: boolean;
+    desktopId: string;
+    snapState?: 'left' | 'right' | 'top' | 'bottom' | 'none';
+    opacity: number;
+    titleOverride?: string;
+    viewProps?: any;
+}
+
+export interface WorkspaceDesktopLayout {
+    id: string;
+    name: string;
+    wallpaperUrl: string;
+    widgets: string[];
+}
+
+export interface WorkspaceLayout {
+    name: string; // For the live session, the named layout it was last restored from ('' if none)
+    savedAt: string;
+    activeDesktopId: string;
+    activeWindowId: string | null;
+    desktops: WorkspaceDesktopLayout[];
+    windows: WorkspaceWindowLayout[];
+}
+
+export type WorkspaceSnapshot = Omit<WorkspaceLayout, 'name' | 'savedAt'>;
+
+export interface WorkspaceLayoutHost {
+    capture: () => WorkspaceSnapshot;
+    restore: (layout: WorkspaceLayout) => void;
+}
+
+interface WorkspaceLayoutDB extends DBSchema {
+    [LAYOUTS_STORE_NAME]: {
+        key: string;
+        value: WorkspaceLayout;
+    };
+    [SESSION_STORE_NAME]: {
+        key: string;
+        value: WorkspaceLayout;
+    };
+}
+
+let dbPromise: Promise<IDBPDatabase<WorkspaceLayoutDB>> | null = null;
+
+const getDb = () => {
+    dbPromise ??= openDB<WorkspaceLayoutDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+            if (!db.objectStoreNames.contains(LAYOUTS_STORE_NAME)) db.createObjectStore(LAYOUTS_STORE_NAME, { keyPath: 'name' });
+            if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) db.createObjectStore(SESSION_STORE_NAME);
+        },
+    });
+    return dbPromise;
+};
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Registers a callback fired after a named layout is saved or deleted.
+ * @returns A function that removes the listener.
+ */
+export const subscribeToWorkspaceLayouts = (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+let host: WorkspaceLayoutHost | null = null;
+
+/**
+ * Makes the open desktop the target of save and restore requests.
+ * @returns A function that unregisters it again.
+ */
+export const registerWorkspaceLayoutHost = (layoutHost: WorkspaceLayoutHost): (() => void) => {
+    host = layoutHost;
+    return () => { if (host === layoutHost) host = null; };
+};
+
+const requireHost = (): WorkspaceLayoutHost => {
+    if (!host) throw new Error('No desktop is open to save or restore a layout.');
+    return host;
+};
+
+/** Returns every named layout, sorted by name. */
+export const listWorkspaceLayouts = async (): Promise<WorkspaceLayout[]> => {
+    const db = await getDb();
+    const layouts = await db.getAll(LAYOUTS_STORE_NAME);
+    return layouts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getWorkspaceLayout = async (name: string): Promise<WorkspaceLayout | undefined> => {
+    const db = await getDb();
+    return db.get(LAYOUTS_STORE_NAME, name);
+};
+
+/** Saves the open desktop under `name`, replacing a layout with the same name. */
+export const saveCurrentWorkspaceLayout = async (name: string): Promise<WorkspaceLayout> => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('A layout needs a name.');
+    const layout: WorkspaceLayout = { ...requireHost().capture(), name: trimmed, savedAt: new Date().toISOString() };
+    const db = await getDb();
+    await db.put(LAYOUTS_STORE_NAME, layout);
+    logEvent('workspace_layout_saved', { windows: layout.windows.length });
+    notify();
+    return layout;
+};
+
+/** Replaces the open desktop's windows with a named layout. */
+export const restoreWorkspaceLayout = async (name: string): Promise<void> => {
+    const layoutHost = requireHost();
+    const layout = await getWorkspaceLayout(name);
+    if (!layout) throw new Error(`Layout "${name}" does not exist.`);
+    layoutHost.restore(layout);
+    await saveWorkspaceSession(layout); // So a reload comes back to this layout even before the next change
+    logEvent('workspace_layout_restored', { windows: layout.windows.length });
+};
+
+export const deleteWorkspaceLayout = async (name: string): Promise<void> => {
+    const db = await getDb();
+    await db.delete(LAYOUTS_STORE_NAME, name);
+    notify();
+};
+
+/** Records the live desktop; called by the desktop whenever its windows change. */
+export const saveWorkspaceSession = async (layout: WorkspaceLayout): Promise<void> => {
+    const db = await getDb();
+    await db.put(SESSION_STORE_NAME, layout, LAST_SESSION_KEY);
+};
+
+export const getWorkspaceSession = async (): Promise<WorkspaceLayout | undefined> => {
+    const db = await getDb();
+    return db.get(SESSION_STORE_NAME, LAST_SESSION_KEY);
+};
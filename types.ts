@@ -146,6 +146,26 @@ export interface GeneratedFile {
     co2EquivalentKg: number;
     dataCenterRegion: string;
   };
+  // Present when the file is part of the local working copy of a GitHub repository
+  workingCopy?: WorkingCopyState;
+}
+
+/**
+ * @interface WorkingCopyState
+ * @description Tracks a repository file checked out into the local working copy.
+ * `baseContent` is what the file held at `baseCommitSha`; comparing it with `GeneratedFile.content`
+ * yields the pending change.
+ */
+export interface WorkingCopyState {
+  repoFullName: string;
+  path: string; // Path within the repository; `GeneratedFile.filePath` is qualified with the repo name
+  refName: string;
+  baseCommitSha: string;
+  baseBlobSha: string | null; // null for files created locally
+  baseContent: string | null;
+  status: 'clean' | 'modified' | 'added' | 'deleted';
+  lastEditedBy?: string; // Feature id of the tool that made the last edit
+  updatedAt: Date;
 }
 
 /**
@@ -179,6 +199,15 @@ export interface SidebarItem {
   abTestVariant?: string;
 }
 
+/**
+ * @interface ChangelogEntryWording
+ * @description Reworded text for one changelog entry, keyed by the entry's commit SHA.
+ */
+export interface ChangelogEntryWording {
+    id: string;
+    text: string;
+}
+
 /**
  * @interface StructuredPrSummary
  * @description A Pull Request summary, intelligently generated and hyper-detailed.
@@ -544,6 +573,17 @@ export interface Repo {
   isQuantumSafe?: boolean; // Cryptography assessment
 }
 
+/**
+ * @interface RepoRef
+ * @description A branch, tag or commit selected within a repository. `sha` is the commit the ref
+ * resolved to when it was selected; commits made against a branch use it to detect concurrent pushes.
+ */
+export interface RepoRef {
+  kind: 'branch' | 'tag' | 'commit';
+  name: string; // Branch or tag name; the full SHA for a detached commit.
+  sha: string;
+}
+
 // --- Code Review Types - The Eye of Sauron, but for Code Quality and Friendship ---
 /**
  * @interface StructuredReviewSuggestion
@@ -0,0 +1,13 @@
+// Copyright James Burvel O’Callaghan III
+// President Citibank Demo Business Inc.
+
+import { defineConfig } from 'vitest/config';
+
+// Specs live next to the module they cover as *.test.ts and run in Node; none of them need a DOM.
+export default defineConfig({
+    test: {
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', 'dist/**'],
+        environment: 'node',
+    },
+});